@@ -228,6 +228,9 @@ export class AppComponent implements OnInit, OnDestroy {
       url.searchParams.delete('auth_callback');
       window.history.replaceState({}, '', url.toString());
 
+      // Invite magic links land back on the accept page, which finishes the flow
+      if (url.pathname.startsWith('/admin/accept-invite')) return;
+
       // Restore business and navigate
       const business = this.auth.getSelectedBusiness();
       if (business) {
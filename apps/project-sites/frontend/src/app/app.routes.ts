@@ -31,6 +31,11 @@ export const routes: Routes = [
     loadComponent: () =>
       import('./pages/waiting/waiting.component').then((m) => m.WaitingComponent),
   },
+  {
+    path: 'admin/accept-invite',
+    loadComponent: () =>
+      import('./pages/accept-invite/accept-invite.component').then((m) => m.AcceptInviteComponent),
+  },
   {
     path: 'admin',
     canActivate: [authGuard],
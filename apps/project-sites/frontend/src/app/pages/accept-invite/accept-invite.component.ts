@@ -0,0 +1,140 @@
+import { Component, inject, signal, computed, type OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { ApiService } from '../../services/api.service';
+import { AuthService } from '../../services/auth.service';
+import { ToastService } from '../../services/toast.service';
+
+interface InviteInfo {
+  org_name: string;
+  email: string;
+  role: string;
+  expires_at: string;
+  expired: boolean;
+  accepted: boolean;
+}
+
+/**
+ * Landing page for `/admin/accept-invite`.
+ *
+ * The invite email links here with `?token=<invite>`. Signed-out invitees get
+ * a magic link that signs them in (creating the account if needed) and
+ * returns with `?invite=<invite>` plus the usual `auth_callback` params —
+ * where `token` is the session, not the invite.
+ */
+@Component({
+  selector: 'app-accept-invite',
+  standalone: true,
+  imports: [DatePipe],
+  template: `
+    <section class="px-6 min-h-screen flex items-center justify-center">
+      <div class="w-full max-w-[440px] card text-center space-y-4">
+        @if (loading()) {
+          <p class="text-text-secondary text-sm m-0">Loading invite…</p>
+        } @else if (error()) {
+          <h2 class="text-xl font-bold text-white m-0">Invite unavailable</h2>
+          <p class="text-text-secondary text-sm m-0">{{ error() }}</p>
+          <button class="btn-ghost" (click)="router.navigate(['/'])">Go home</button>
+        } @else if (info(); as i) {
+          <h2 class="text-xl font-bold text-white m-0">Join {{ i.org_name }}</h2>
+          <p class="text-text-secondary text-sm m-0">
+            <strong class="text-white">{{ i.email }}</strong> was invited as <span class="badge">{{ i.role }}</span>
+          </p>
+          @if (i.accepted) {
+            <p class="text-amber-300 text-sm m-0">This invite has already been accepted.</p>
+            <button class="btn-primary" (click)="router.navigate(['/admin'])">Open dashboard</button>
+          } @else if (i.expired) {
+            <p class="text-red-300 text-sm m-0">This invite expired {{ i.expires_at | date:'mediumDate' }}. Ask for a new one.</p>
+          } @else if (sent()) {
+            <p class="text-emerald-400 text-sm m-0">Check {{ i.email }} for a sign-in link.</p>
+          } @else if (emailMatches()) {
+            <button class="btn-primary w-full" [disabled]="busy()" (click)="accept()">{{ busy() ? 'Joining…' : 'Accept invite' }}</button>
+          } @else {
+            @if (auth.isLoggedIn()) {
+              <p class="text-[0.75rem] text-text-secondary m-0">You're signed in as {{ auth.email() }}.</p>
+            }
+            <button class="btn-primary w-full" [disabled]="busy()" (click)="sendLink()">
+              {{ busy() ? 'Sending…' : 'Email me a sign-in link' }}
+            </button>
+          }
+          <p class="text-[0.7rem] text-text-secondary m-0">Expires {{ i.expires_at | date:'medium' }}</p>
+        }
+      </div>
+    </section>
+  `,
+  styles: [`
+    .card { padding: 2rem; border-radius: 16px; background: rgba(13,13,40,0.95); border: 1px solid rgba(0,229,255,0.12); }
+    .badge { display: inline-block; padding: 0.1rem 0.5rem; border-radius: 999px; background: rgba(0,229,255,0.12); color: #00E5FF; font-size: 0.7rem; font-weight: 600; }
+    .btn-primary { padding: 0.6rem 1.1rem; border-radius: 8px; background: rgba(0,229,255,0.12); color: #00E5FF; font-weight: 600; border: 1px solid rgba(0,229,255,0.35); cursor: pointer; font-size: 0.85rem; }
+    .btn-primary:disabled { opacity: 0.5; cursor: not-allowed; }
+    .btn-ghost { padding: 0.6rem 1.1rem; border-radius: 8px; background: transparent; color: rgba(255,255,255,0.7); border: 1px solid rgba(255,255,255,0.1); cursor: pointer; font-size: 0.85rem; }
+  `],
+})
+export class AcceptInviteComponent implements OnInit {
+  auth = inject(AuthService);
+  router = inject(Router);
+  private api = inject(ApiService);
+  private toast = inject(ToastService);
+  private route = inject(ActivatedRoute);
+
+  loading = signal(true);
+  busy = signal(false);
+  sent = signal(false);
+  error = signal<string | null>(null);
+  info = signal<InviteInfo | null>(null);
+  private inviteToken: string | null = null;
+
+  emailMatches = computed(() => {
+    const i = this.info();
+    return !!i && this.auth.isLoggedIn() && this.auth.email().toLowerCase() === i.email.toLowerCase();
+  });
+
+  ngOnInit(): void {
+    const q = this.route.snapshot.queryParamMap;
+    const fromMagicLink = !!q.get('auth_callback');
+    if (fromMagicLink && q.get('token') && q.get('email')) {
+      this.auth.setSession(q.get('token')!, q.get('email')!);
+    }
+    this.inviteToken = q.get('invite') ?? (fromMagicLink ? null : q.get('token'));
+    if (!this.inviteToken) {
+      this.loading.set(false);
+      this.error.set('This link is missing its invite token.');
+      return;
+    }
+
+    this.api.get<{ data: InviteInfo }>('/team/invites/lookup', { token: this.inviteToken }).subscribe({
+      next: (r) => {
+        this.info.set(r.data);
+        this.loading.set(false);
+        // Back from the magic link with the right account: finish in one step.
+        if (fromMagicLink && this.emailMatches() && !r.data.expired && !r.data.accepted) this.accept();
+      },
+      error: () => {
+        this.loading.set(false);
+        this.error.set('This invite could not be found. It may have been revoked or resent.');
+      },
+    });
+  }
+
+  sendLink(): void {
+    if (!this.inviteToken || this.busy()) return;
+    this.busy.set(true);
+    this.api.post('/team/invites/magic-link', { token: this.inviteToken }).subscribe({
+      next: () => { this.busy.set(false); this.sent.set(true); },
+      error: () => this.busy.set(false),
+    });
+  }
+
+  accept(): void {
+    if (!this.inviteToken || this.busy()) return;
+    this.busy.set(true);
+    this.api.post<{ data: { org_id: string; role: string } }>('/team/invites/accept', { token: this.inviteToken }).subscribe({
+      next: (r) => {
+        this.auth.setOrgId(r.data.org_id);
+        this.toast.success(`You joined ${this.info()?.org_name ?? 'the team'}`);
+        this.router.navigate(['/admin']);
+      },
+      error: () => this.busy.set(false),
+    });
+  }
+}
@@ -4,6 +4,7 @@ import { FormsModule } from '@angular/forms';
 import { Subscription, filter } from 'rxjs';
 import { ApiService, type Site } from '../../services/api.service';
 import { AuthService } from '../../services/auth.service';
+import { FeatureFlagsService } from '../../services/feature-flags.service';
 import { ToastService } from '../../services/toast.service';
 import { AdminStateService } from './admin-state.service';
 
@@ -18,6 +19,7 @@ import { AdminStateService } from './admin-state.service';
 export class AdminComponent implements OnInit, OnDestroy {
   state = inject(AdminStateService);
   auth = inject(AuthService);
+  flags = inject(FeatureFlagsService);
   private router = inject(Router);
   private toast = inject(ToastService);
 
@@ -60,6 +62,7 @@ export class AdminComponent implements OnInit, OnDestroy {
       this.state.loading.set(false);
       return;
     }
+    this.flags.load();
     this.state.loadData();
     this.state.startPolling();
   }
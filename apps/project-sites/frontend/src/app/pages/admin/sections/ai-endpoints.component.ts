@@ -14,10 +14,12 @@ interface Endpoint {
   method: 'GET' | 'POST' | 'BOTH';
   worker_language: string | null;
   wfp_script_name: string | null;
+  api_key_id: string | null;
   enabled: number;
   created_at: string;
 }
 interface Language { id: string; label: string; helper: string; }
+interface ModelKey { id: string; provider: string; label: string; api_key_preview: string; enabled: boolean; }
 
 @Component({
   selector: 'app-admin-ai-endpoints',
@@ -125,6 +127,15 @@ interface Language { id: string; label: string; helper: string; }
                         placeholder="You are the quote-request endpoint. Read the JSON body, validate that name + email + scope_of_work are present, then call create_stripe_invoice if Stripe MCP is connected — otherwise call send_email to notify the owner. Return ok."
                         [(ngModel)]="ed.prompt_template"></textarea>
             </label>
+            <label class="block mt-3">
+              <span class="muted-h">Model — Workers AI, or your own OpenAI / Anthropic key from the Forms vault</span>
+              <select class="input-field w-full mt-1" [(ngModel)]="ed.api_key_id">
+                <option [ngValue]="null">Workers AI (Llama 3.1 · uses AI credits)</option>
+                @for (k of modelKeys(); track k.id) {
+                  <option [ngValue]="k.id">{{ k.provider }} · {{ k.label }} ({{ k.api_key_preview }})</option>
+                }
+              </select>
+            </label>
           } @else {
             <label class="block mt-3">
               <span class="muted-h">Language</span>
@@ -170,6 +181,7 @@ export class AdminAiEndpointsComponent implements OnInit {
   saving = signal(false);
   wfpConfigured = signal(false);
   languages = signal<Language[]>([]);
+  modelKeys = signal<ModelKey[]>([]);
   editing = signal<(Partial<Endpoint> & { prompt_template?: string; worker_code?: string }) | null>(null);
 
   ngOnInit(): void { this.reload(); }
@@ -187,9 +199,14 @@ export class AdminAiEndpointsComponent implements OnInit {
       },
       error: () => this.loading.set(false),
     });
+    this.api.get<{ data: ModelKey[] }>(`/sites/${s.id}/form-api-keys`).subscribe({
+      next: (r) => this.modelKeys.set(
+        (r.data ?? []).filter((k) => k.enabled && (k.provider === 'openai' || k.provider === 'anthropic')),
+      ),
+    });
   }
   newEndpoint(): void {
-    this.editing.set({ kind: 'prompt', method: 'POST', endpoint_slug: '', display_name: '', description: '', prompt_template: '', worker_code: '', worker_language: 'javascript' });
+    this.editing.set({ kind: 'prompt', method: 'POST', endpoint_slug: '', display_name: '', description: '', prompt_template: '', worker_code: '', worker_language: 'javascript', api_key_id: null });
   }
   edit(e: Endpoint): void {
     const s = this.state.selectedSite(); if (!s) return;
@@ -219,6 +236,7 @@ export class AdminAiEndpointsComponent implements OnInit {
       prompt_template: ed.prompt_template,
       worker_language: ed.worker_language,
       worker_code: ed.worker_code,
+      api_key_id: ed.kind === 'prompt' ? (ed.api_key_id ?? null) : null,
     };
     const obs = ed.id
       ? this.api.put(`/sites/${s.id}/ai-endpoints/${ed.id}`, payload)
@@ -8,6 +8,7 @@ import { ToastService } from '../../../services/toast.service';
 interface Bundle { credits: number; usd: number; price_id: string; }
 interface CreditState { balance: number; bundles: Record<string, Bundle>; ledger: { delta: number; reason: string; stripe_session_id: string | null; created_at: string }[]; }
 interface Alert { id: string; name: string; threshold_credits: number; alert_kind: string; notify_email: string; enabled: number; last_triggered_at: string | null; }
+interface StorageUsage { tier: string; used_bytes: number; limit_bytes: number; reconciled_at: string | null; }
 interface CostRow { site_id: string; slug: string; business_name: string | null; ai_calls: number; ai_credits: number; estimated_cost_micro_usd: number; bandwidth_bytes: number; storage_bytes: number; }
 
 @Component({
@@ -57,6 +58,26 @@ interface CostRow { site_id: string; slug: string; business_name: string | null;
         }
       </section>
 
+      @if (storage(); as s) {
+        <section class="card">
+          <div class="flex items-center justify-between mb-3">
+            <h3 class="m-0 text-base font-semibold text-white">Storage</h3>
+            <span class="text-[0.7rem] text-text-secondary capitalize">{{ s.tier }} plan</span>
+          </div>
+          <div class="flex items-baseline justify-between text-[0.78rem] mb-2">
+            <span class="font-semibold text-white">{{ bytes(s.used_bytes) }} of {{ bytes(s.limit_bytes) }}</span>
+            <span class="text-text-secondary">{{ storagePercent() }}%</span>
+          </div>
+          <div class="bar"><div class="bar-fill" [class.warn]="storagePercent() >= 80" [class.full]="storagePercent() >= 100" [style.width.%]="storagePercent()"></div></div>
+          @if (storagePercent() >= 100) {
+            <p class="text-[0.72rem] text-red-400 m-0 mt-2">Quota reached — uploads, edits and new builds are refused until you free space or upgrade.</p>
+          } @else if (storagePercent() >= 80) {
+            <p class="text-[0.72rem] text-amber-400 m-0 mt-2">Nearly full — writes past the quota will be refused.</p>
+          }
+          <p class="text-[0.66rem] text-text-secondary/70 m-0 mt-2">Counted as you upload and edit; recounted from storage nightly{{ s.reconciled_at ? ' (last ' + (s.reconciled_at | date:'short') + ')' : '' }}.</p>
+        </section>
+      }
+
       <section class="card">
         <h3 class="m-0 text-base font-semibold text-white mb-1">Per-site cost breakdown</h3>
         <p class="text-[0.7rem] text-text-secondary m-0 mb-3">Rolling 30-day window. AI credits convert to estimated USD at $0.04/credit.</p>
@@ -136,6 +157,10 @@ interface CostRow { site_id: string; slug: string; business_name: string | null;
     :host { display: block; }
     .card { background: rgba(255,255,255,0.02); border: 1px solid rgba(255,255,255,0.06); border-radius: 14px; padding: 1.4rem; }
     .card-light { background: rgba(255,255,255,0.025); border: 1px solid rgba(255,255,255,0.08); border-radius: 12px; }
+    .bar { height: 8px; background: rgba(255,255,255,0.05); border-radius: 999px; overflow: hidden; }
+    .bar-fill { height: 100%; background: linear-gradient(90deg, #00E5FF, #7C3AED); transition: width 250ms ease; }
+    .bar-fill.warn { background: #F59E0B; }
+    .bar-fill.full { background: #F87171; }
     .input-field { padding: 0.5rem 0.7rem; border-radius: 8px; background: rgba(0,0,0,0.3); border: 1px solid rgba(255,255,255,0.1); color: #fff; font: inherit; }
     .btn-primary { padding: 0.45rem 0.95rem; border-radius: 8px; background: rgba(0,229,255,0.12); color: #00E5FF; font-weight: 600; border: 1px solid rgba(0,229,255,0.35); cursor: pointer; font-size: 0.74rem; }
     .btn-ghost { padding: 0.45rem 0.95rem; border-radius: 8px; background: transparent; color: rgba(255,255,255,0.7); border: 1px solid rgba(255,255,255,0.1); cursor: pointer; font-size: 0.74rem; }
@@ -148,6 +173,7 @@ export class AdminBillingComponent implements OnInit {
   credits = signal<CreditState | null>(null);
   alerts = signal<Alert[]>([]);
   siteCosts = signal<CostRow[]>([]);
+  storage = signal<StorageUsage | null>(null);
   buying = signal<string | null>(null);
   creating = signal(false);
   draft: { name: string; alert_kind: string; threshold_credits: number; notify_email: string } = {
@@ -160,6 +186,7 @@ export class AdminBillingComponent implements OnInit {
     this.api.get<{ data: CreditState }>('/billing/credits').subscribe({ next: (r) => this.credits.set(r.data) });
     this.api.get<{ data: Alert[] }>('/billing/spend-alerts').subscribe({ next: (r) => this.alerts.set(r.data ?? []) });
     this.api.get<{ data: { rows: CostRow[] } }>('/billing/site-costs').subscribe({ next: (r) => this.siteCosts.set(r.data?.rows ?? []) });
+    this.api.get<{ data: StorageUsage }>('/storage/usage').subscribe({ next: (r) => this.storage.set(r.data) });
   }
   topup(bundle: string): void {
     this.buying.set(bundle);
@@ -182,5 +209,9 @@ export class AdminBillingComponent implements OnInit {
   removeAlert(a: Alert): void {
     this.api.delete(`/billing/spend-alerts/${a.id}`).subscribe({ next: () => { this.toast.success('Removed'); this.loadAll(); } });
   }
+  storagePercent(): number {
+    const s = this.storage();
+    return s && s.limit_bytes > 0 ? Math.min(100, Math.round((s.used_bytes / s.limit_bytes) * 100)) : 0;
+  }
   bytes(n: number): string { if (n < 1024) return `${n} B`; if (n < 1024 * 1024) return `${(n/1024).toFixed(1)} KB`; if (n < Math.pow(1024, 3)) return `${(n/Math.pow(1024,2)).toFixed(1)} MB`; return `${(n/Math.pow(1024,3)).toFixed(2)} GB`; }
 }
@@ -1,7 +1,7 @@
 import { Component, inject, signal, type OnInit, type OnDestroy } from '@angular/core';
 import { DomSanitizer, type SafeResourceUrl } from '@angular/platform-browser';
 import { AdminStateService } from '../admin-state.service';
-import { ApiService } from '../../../services/api.service';
+import { ApiService, type MergeConflictDetails } from '../../../services/api.service';
 import { ToastService } from '../../../services/toast.service';
 
 /**
@@ -23,6 +23,12 @@ import { ToastService } from '../../../services/toast.service';
  * - Hard fallback timeout: 60s (covers cold WebContainer boot + npm install + dev server start)
  * - Soft fallback timeout: 30s — if PS_BOLT_READY fired but no app_running, dismiss anyway
  *
+ * Concurrent edits:
+ * - The live site's commit is fetched when the editor opens and sent as `base_commit` on publish
+ * - Edits made elsewhere since then are merged in by the Worker
+ * - Overlapping edits come back as a 409 with conflict hunks, shown in a panel where each hunk
+ *   is resolved by picking the live or the editor version, then published against `head_commit`
+ *
  * @example
  * ```html
  * <app-admin-editor />
@@ -58,6 +64,38 @@ import { ToastService } from '../../../services/toast.service';
           </div>
         }
 
+        @if (conflict(); as pending) {
+          <div class="absolute inset-0 z-20 flex items-center justify-center bg-black/70 p-6">
+            <div class="conflict-panel w-full max-w-[960px] max-h-full overflow-auto rounded-xl border border-white/10 bg-[#0f0f23] p-5 flex flex-col gap-4">
+              <div>
+                <h3 class="text-white font-semibold text-lg m-0">This site was edited while you worked</h3>
+                <p class="text-text-secondary text-sm m-0 mt-1">You and someone else changed the same lines. Pick a version of each block, then publish.</p>
+              </div>
+              @for (file of pending.details.conflicts; track file.file; let f = $index) {
+                <section class="flex flex-col gap-2">
+                  <h4 class="text-white text-sm font-mono m-0">{{ file.file }}</h4>
+                  @for (hunk of file.hunks; track $index; let h = $index) {
+                    <div class="grid grid-cols-2 gap-2">
+                      <button type="button" class="hunk" [class.hunk-picked]="pending.choices[f][h] === 'head'" (click)="choose(f, h, 'head')">
+                        <span class="hunk-label">Live · line {{ hunk.base_start }}</span>
+                        <pre>{{ joinLines(hunk.head) }}</pre>
+                      </button>
+                      <button type="button" class="hunk" [class.hunk-picked]="pending.choices[f][h] === 'incoming'" (click)="choose(f, h, 'incoming')">
+                        <span class="hunk-label">Yours</span>
+                        <pre>{{ joinLines(hunk.incoming) }}</pre>
+                      </button>
+                    </div>
+                  }
+                </section>
+              }
+              <div class="flex justify-end gap-2">
+                <button type="button" class="btn-ghost" (click)="conflict.set(null)">Cancel</button>
+                <button type="button" class="btn-primary" [disabled]="saving()" (click)="publishResolved()">Publish resolved</button>
+              </div>
+            </div>
+          </div>
+        }
+
         @if (iframeUrl()) {
           <iframe class="w-full h-full border-none bg-[#0a0a1a] editor-iframe transition-opacity duration-500"
                   [class.opacity-0]="!editorReady()"
@@ -128,6 +166,36 @@ import { ToastService } from '../../../services/toast.service';
       animation-duration: 2.0s;
     }
 
+    .hunk {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      text-align: left;
+      padding: 8px 10px;
+      border-radius: 8px;
+      border: 1px solid rgba(255, 255, 255, 0.08);
+      background: rgba(255, 255, 255, 0.02);
+      color: #c8d6e5;
+      cursor: pointer;
+      min-width: 0;
+    }
+    .hunk pre {
+      margin: 0;
+      font-size: 0.75rem;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .hunk-label {
+      font-size: 0.7rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: rgba(200, 214, 229, 0.6);
+    }
+    .hunk-picked {
+      border-color: rgba(0, 229, 255, 0.6);
+      background: rgba(0, 229, 255, 0.06);
+    }
+
     @keyframes spin {
       to { transform: rotate(360deg); }
     }
@@ -168,6 +236,16 @@ export class AdminEditorComponent implements OnInit, OnDestroy {
   saving = signal(false);
   editorReady = signal(false);
   loadingStage = signal('Booting bolt.diy');
+  /** A publish that conflicted, with the side picked for each hunk. */
+  conflict = signal<{
+    details: MergeConflictDetails;
+    choices: ('head' | 'incoming')[][];
+    files: { path: string; content: string }[];
+    chat: { messages: unknown[]; description?: string; exportDate?: string };
+  } | null>(null);
+
+  /** Commit the editor's files are based on, sent as `base_commit` on publish. */
+  private baseCommit: string | null = null;
 
   private messageHandler: ((event: MessageEvent) => void) | null = null;
   private hardTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -177,6 +255,7 @@ export class AdminEditorComponent implements OnInit, OnDestroy {
   ngOnInit(): void {
     this.buildIframeUrl();
     this.setupMessageListener();
+    this.loadBase();
 
     this.hardTimeout = setTimeout(() => this.dismissVeil('timeout'), 60000);
   }
@@ -199,6 +278,15 @@ export class AdminEditorComponent implements OnInit, OnDestroy {
     if (this.softTimeout) { clearTimeout(this.softTimeout); this.softTimeout = null; }
   }
 
+  private loadBase(): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.getEditBase(site.id).subscribe({
+      next: (res) => { this.baseCommit = res.data.commit_id; },
+      error: () => { this.baseCommit = null; },
+    });
+  }
+
   private buildIframeUrl(): void {
     const site = this.state.selectedSite();
     if (!site) return;
@@ -324,22 +412,87 @@ export class AdminEditorComponent implements OnInit, OnDestroy {
       exportDate: new Date().toISOString(),
     };
 
-    this.api.publishFromBolt(site.id, site.slug, fileList, chatExport).subscribe({
+    this.publish(site, fileList, chatExport, this.baseCommit);
+  }
+
+  private publish(
+    site: { id: string; slug: string },
+    fileList: { path: string; content: string }[],
+    chat: { messages: unknown[]; description?: string; exportDate?: string },
+    baseCommit: string | null,
+  ): void {
+    this.api.publishFromBolt(site.id, site.slug, fileList, chat, baseCommit).subscribe({
       next: (res) => {
         this.saving.set(false);
-        this.toast.success(`Deployed ${fileList.length} files successfully`);
+        this.conflict.set(null);
+        this.baseCommit = res.data.commit_id ?? this.baseCommit;
+        const merged = res.data.merged?.length ?? 0;
+        this.toast.success(
+          `Deployed ${fileList.length} files successfully` +
+            (merged ? ` (merged with other edits in ${merged})` : ''),
+        );
         // Refresh site data to reflect new build version
         this.state.loadData();
       },
       error: (err: unknown) => {
         this.saving.set(false);
-        const e = err as { error?: { error?: { message?: string }; message?: string } };
+        const e = err as {
+          status?: number;
+          error?: { error?: { message?: string; details?: MergeConflictDetails }; message?: string };
+        };
+        const details = e?.error?.error?.details;
+        if (e?.status === 409 && details?.conflicts) {
+          this.conflict.set({
+            details,
+            choices: details.conflicts.map((f) => f.hunks.map(() => 'incoming' as const)),
+            files: fileList,
+            chat,
+          });
+          return;
+        }
         const message = e?.error?.error?.message || e?.error?.message || 'Unknown error';
         this.toast.error('Deploy failed: ' + message);
       },
     });
   }
 
+  /** Pick the live (`head`) or editor (`incoming`) side of one conflict hunk. */
+  choose(file: number, hunk: number, side: 'head' | 'incoming'): void {
+    const pending = this.conflict();
+    if (!pending) return;
+    const choices = pending.choices.map((c) => [...c]);
+    choices[file][hunk] = side;
+    this.conflict.set({ ...pending, choices });
+  }
+
+  joinLines(lines: string[]): string {
+    return lines.length ? lines.join('\n') : '(removed)';
+  }
+
+  /**
+   * Rebuild each conflicted file from its marked-up content using the picked
+   * sides, add the files the Worker merged cleanly, and publish against the
+   * commit the conflict was found at.
+   */
+  publishResolved(): void {
+    const site = this.state.selectedSite();
+    const pending = this.conflict();
+    if (!site || !pending) return;
+
+    const resolved = new Map<string, string>();
+    for (const m of pending.details.merged) resolved.set(m.file, m.content);
+    pending.details.conflicts.forEach((f, i) => {
+      resolved.set(f.file, resolveMarkers(f.content, pending.choices[i]));
+    });
+
+    const files = pending.files.map((f) => ({
+      path: f.path,
+      content: resolved.get(f.path) ?? f.content,
+    }));
+    this.saving.set(true);
+    this.publish(site, files, pending.chat, pending.details.head_commit);
+  }
+
   /**
    * Open the editor in a new tab (full-screen mode).
    */
@@ -350,3 +503,26 @@ export class AdminEditorComponent implements OnInit, OnDestroy {
     }
   }
 }
+
+/**
+ * Replace each `<<<<<<< head` / `=======` / `>>>>>>> incoming` block in `content`
+ * with the side picked for it, in order.
+ */
+function resolveMarkers(content: string, choices: ('head' | 'incoming')[]): string {
+  const out: string[] = [];
+  let block = -1;
+  let side: 'head' | 'incoming' | null = null;
+  for (const line of content.split(/(?<=\n)/)) {
+    if (side === null && line === '<<<<<<< head\n') {
+      block++;
+      side = 'head';
+    } else if (side === 'head' && line === '=======\n') {
+      side = 'incoming';
+    } else if (side === 'incoming' && line === '>>>>>>> incoming\n') {
+      side = null;
+    } else if (side === null || side === (choices[block] ?? 'incoming')) {
+      out.push(line);
+    }
+  }
+  return out.join('');
+}
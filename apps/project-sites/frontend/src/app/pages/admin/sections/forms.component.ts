@@ -27,6 +27,38 @@ interface AiLog {
   error_message: string | null;
   created_at: string;
 }
+interface FormRule {
+  id: string;
+  name: string;
+  description: string | null;
+  prompt: string;
+  model: string;
+  enabled: boolean;
+  priority: number;
+  trigger_form_name: string | null;
+  last_evaluated_at: string | null;
+  last_error: string | null;
+  total_evaluations: number;
+  total_actions: number;
+}
+interface VaultKey {
+  id: string;
+  provider: string;
+  label: string;
+  api_key_preview: string;
+  enabled: boolean;
+  use_count: number;
+  last_used_at: string | null;
+  last_error: string | null;
+}
+interface DryRunResult {
+  status: string;
+  plan: { reasoning?: string; actions: Array<{ type: string } & Record<string, unknown>> } | null;
+  error: string | null;
+  raw_output: string | null;
+  duration_ms: number;
+  matches_trigger: boolean;
+}
 interface Settings {
   form_router_prompt: string | null;
   form_router_prompt_default: string;
@@ -80,6 +112,112 @@ interface Settings {
         </div>
       </section>
 
+      <!-- Rules: one prompt per rule, each can plan several actions -->
+      <section class="card">
+        <div class="flex items-center justify-between mb-2">
+          <h3 class="m-0 text-base font-semibold text-white">Rules</h3>
+          <button class="btn-ghost" (click)="showRuleForm.set(!showRuleForm())">{{ showRuleForm() ? 'Cancel' : '+ New rule' }}</button>
+        </div>
+        <p class="text-[0.7rem] text-text-secondary m-0 mb-3">
+          Every enabled rule runs on each submission, lowest priority number first. Each evaluation costs 1 AI credit.
+        </p>
+        @if (showRuleForm()) {
+          <div class="grid md:grid-cols-3 gap-3 mb-4">
+            <input class="input-field" placeholder="Rule name" [(ngModel)]="draft.name" />
+            <input class="input-field" placeholder="Only for form (blank = all)" [(ngModel)]="draft.trigger_form_name" />
+            <input type="number" class="input-field" placeholder="Priority" [(ngModel)]="draft.priority" />
+            <textarea class="input-field md:col-span-3 font-mono text-[0.72rem]" rows="6"
+                      placeholder="e.g. If the message mentions a quote, tag it 'sales' with high priority and email the owner."
+                      [(ngModel)]="draft.prompt"></textarea>
+            <div class="md:col-span-3 flex justify-end">
+              <button class="btn-primary" [disabled]="savingRule()" (click)="createRule()">{{ savingRule() ? 'Saving…' : 'Create rule' }}</button>
+            </div>
+          </div>
+        }
+        @if (rules().length === 0) {
+          <p class="text-text-secondary/70 italic text-[0.78rem] m-0">No rules yet.</p>
+        } @else {
+          @for (r of rules(); track r.id) {
+            <div class="flex items-center justify-between gap-3 py-2 border-t border-white/[0.05]">
+              <div class="min-w-0">
+                <div class="text-[0.8rem] text-white font-semibold">{{ r.name }}
+                  <span class="font-mono text-[0.65rem] text-text-secondary/70">· #{{ r.priority }} · {{ r.trigger_form_name || 'all forms' }}</span>
+                </div>
+                <div class="text-[0.65rem] text-text-secondary/70">
+                  {{ r.total_evaluations }} runs · {{ r.total_actions }} actions
+                  @if (r.last_error) { · <span class="text-red-300">{{ r.last_error }}</span> }
+                </div>
+              </div>
+              <div class="flex items-center gap-2 shrink-0">
+                <button class="btn-ghost" [disabled]="!selected() || dryRunning()" (click)="dryRun(r)"
+                        [title]="selected() ? 'Run against the open submission' : 'Open a submission first'">Dry run</button>
+                <button class="btn-ghost" (click)="toggleRule(r)">{{ r.enabled ? 'Disable' : 'Enable' }}</button>
+                <button class="btn-ghost" (click)="deleteRule(r)">Delete</button>
+              </div>
+            </div>
+          }
+        }
+        @if (dryRunResult(); as d) {
+          <div class="bg-black/30 border border-white/5 rounded-lg p-3 mt-3 text-[0.7rem]">
+            <div class="flex justify-between text-[0.6rem] mb-1">
+              <span class="font-bold uppercase">{{ d.status }} · {{ d.duration_ms }}ms</span>
+              @if (!d.matches_trigger) { <span class="text-amber-300">rule would not trigger for this form</span> }
+            </div>
+            @if (d.error) {
+              <div class="text-red-300">{{ d.error }}</div>
+            } @else {
+              <pre class="whitespace-pre-wrap break-words">{{ d.plan | json }}</pre>
+            }
+          </div>
+        }
+      </section>
+
+      <!-- Credential vault: secrets are write-only, only previews come back -->
+      <section class="card">
+        <div class="flex items-center justify-between mb-2">
+          <h3 class="m-0 text-base font-semibold text-white">API Keys</h3>
+          <button class="btn-ghost" (click)="showKeyForm.set(!showKeyForm())">{{ showKeyForm() ? 'Cancel' : '+ Add key' }}</button>
+        </div>
+        <p class="text-[0.7rem] text-text-secondary m-0 mb-3">
+          Encrypted credentials your rules, newsletter webhooks and AI endpoints can reference by ID. Keys are never shown again after saving.
+        </p>
+        @if (showKeyForm()) {
+          <div class="grid md:grid-cols-3 gap-3 mb-4">
+            <select class="input-field" [(ngModel)]="keyDraft.provider">
+              @for (p of providers; track p) { <option [value]="p">{{ p }}</option> }
+            </select>
+            <input class="input-field" placeholder="Label" [(ngModel)]="keyDraft.label" />
+            <input type="password" class="input-field" placeholder="Secret or webhook URL" autocomplete="off" [(ngModel)]="keyDraft.api_key" />
+            <div class="md:col-span-3 flex justify-end">
+              <button class="btn-primary" [disabled]="savingKey()" (click)="createKey()">{{ savingKey() ? 'Saving…' : 'Save key' }}</button>
+            </div>
+          </div>
+        }
+        @if (keys().length === 0) {
+          <p class="text-text-secondary/70 italic text-[0.78rem] m-0">No keys stored.</p>
+        } @else {
+          @for (k of keys(); track k.id) {
+            <div class="flex items-center justify-between gap-3 py-2 border-t border-white/[0.05]">
+              <div class="min-w-0">
+                <div class="text-[0.8rem] text-white font-semibold">{{ k.label }}
+                  <span class="font-mono text-[0.65rem] text-text-secondary/70">· {{ k.provider }} · {{ k.api_key_preview }} · {{ k.id }}</span>
+                </div>
+                <div class="text-[0.65rem] text-text-secondary/70">
+                  {{ k.use_count }} uses{{ k.last_used_at ? ' · last ' + (k.last_used_at | date:'short') : '' }}
+                  @if (k.last_error) { · <span class="text-red-300">{{ k.last_error }}</span> }
+                </div>
+              </div>
+              <div class="flex items-center gap-2 shrink-0">
+                <button class="btn-ghost" [disabled]="!k.enabled" (click)="testKey(k)">Test</button>
+                <button class="btn-ghost" (click)="rotateKey(k)">Rotate</button>
+                <button class="btn-ghost" (click)="toggleKey(k)">{{ k.enabled ? 'Disable' : 'Enable' }}</button>
+                <button class="btn-ghost" (click)="deleteKey(k)">Delete</button>
+              </div>
+            </div>
+          }
+        }
+      </section>
+
       <!-- Submissions table -->
       <section class="card p-0 overflow-hidden">
         <div class="flex items-center justify-between p-4">
@@ -179,8 +317,22 @@ export class AdminFormsComponent implements OnInit {
   logs = signal<AiLog[]>([]);
   saving = signal(false);
   settings: Settings = { form_router_prompt: '', form_router_prompt_default: '', reply_email: '' };
+  rules = signal<FormRule[]>([]);
+  showRuleForm = signal(false);
+  savingRule = signal(false);
+  dryRunning = signal(false);
+  dryRunResult = signal<DryRunResult | null>(null);
+  draft = { name: '', prompt: '', priority: 100, trigger_form_name: '' };
+  keys = signal<VaultKey[]>([]);
+  showKeyForm = signal(false);
+  savingKey = signal(false);
+  readonly providers = [
+    'slack-webhook', 'discord-webhook', 'generic-webhook', 'notion', 'resend-transactional', 'openai',
+    'anthropic', 'workers-ai', 'stripe', 'hubspot', 'zapier', 'n8n', 'listmonk',
+  ];
+  keyDraft = { provider: 'slack-webhook', label: '', api_key: '' };
 
-  ngOnInit(): void { this.reload(); this.loadSettings(); }
+  ngOnInit(): void { this.reload(); this.loadSettings(); this.loadRules(); this.loadKeys(); }
 
   reload(): void {
     const site = this.state.selectedSite();
@@ -200,6 +352,117 @@ export class AdminFormsComponent implements OnInit {
       error: () => this.logs.set([]),
     });
   }
+  loadRules(): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.get<{ data: FormRule[] }>(`/sites/${site.id}/form-rules`).subscribe({
+      next: (r) => this.rules.set(r.data ?? []),
+      error: () => this.rules.set([]),
+    });
+  }
+  createRule(): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.savingRule.set(true);
+    this.api.post(`/sites/${site.id}/form-rules`, {
+      name: this.draft.name,
+      prompt: this.draft.prompt,
+      priority: Number(this.draft.priority) || 100,
+      trigger_form_name: this.draft.trigger_form_name.trim() || null,
+    }).subscribe({
+      next: () => {
+        this.toast.success('Rule created');
+        this.savingRule.set(false);
+        this.showRuleForm.set(false);
+        this.draft = { name: '', prompt: '', priority: 100, trigger_form_name: '' };
+        this.loadRules();
+      },
+      error: () => this.savingRule.set(false),
+    });
+  }
+  toggleRule(r: FormRule): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.patch(`/sites/${site.id}/form-rules/${r.id}`, { enabled: !r.enabled }).subscribe({
+      next: () => this.loadRules(),
+    });
+  }
+  deleteRule(r: FormRule): void {
+    const site = this.state.selectedSite();
+    if (!site || !confirm(`Delete rule "${r.name}"?`)) return;
+    this.api.delete(`/sites/${site.id}/form-rules/${r.id}`).subscribe({
+      next: () => { this.toast.success('Rule deleted'); this.loadRules(); },
+    });
+  }
+  dryRun(r: FormRule): void {
+    const site = this.state.selectedSite();
+    const submission = this.selected();
+    if (!site || !submission) return;
+    this.dryRunning.set(true);
+    this.dryRunResult.set(null);
+    this.api.post<{ data: DryRunResult }>(`/sites/${site.id}/form-rules/${r.id}/dry-run`, {
+      submission_id: submission.id,
+    }).subscribe({
+      next: (res) => { this.dryRunResult.set(res.data); this.dryRunning.set(false); },
+      error: () => this.dryRunning.set(false),
+    });
+  }
+  loadKeys(): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.get<{ data: VaultKey[] }>(`/sites/${site.id}/form-api-keys`).subscribe({
+      next: (r) => this.keys.set(r.data ?? []),
+      error: () => this.keys.set([]),
+    });
+  }
+  createKey(): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.savingKey.set(true);
+    this.api.post(`/sites/${site.id}/form-api-keys`, this.keyDraft).subscribe({
+      next: () => {
+        this.toast.success('Key saved');
+        this.savingKey.set(false);
+        this.showKeyForm.set(false);
+        this.keyDraft = { provider: 'slack-webhook', label: '', api_key: '' };
+        this.loadKeys();
+      },
+      error: () => this.savingKey.set(false),
+    });
+  }
+  testKey(k: VaultKey): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.post<{ data: { ok: boolean; error: string | null } }>(`/sites/${site.id}/form-api-keys/${k.id}/test`).subscribe({
+      next: (r) => {
+        if (r.data.ok) this.toast.success(`${k.label} works`);
+        else this.toast.error(r.data.error || 'Credential test failed');
+        this.loadKeys();
+      },
+    });
+  }
+  rotateKey(k: VaultKey): void {
+    const site = this.state.selectedSite();
+    const secret = site ? prompt(`New secret for "${k.label}"`) : null;
+    if (!site || !secret) return;
+    this.api.post(`/sites/${site.id}/form-api-keys/${k.id}/rotate`, { api_key: secret }).subscribe({
+      next: () => { this.toast.success('Key rotated'); this.loadKeys(); },
+    });
+  }
+  toggleKey(k: VaultKey): void {
+    const site = this.state.selectedSite();
+    if (!site) return;
+    this.api.patch(`/sites/${site.id}/form-api-keys/${k.id}`, { enabled: !k.enabled }).subscribe({
+      next: () => this.loadKeys(),
+    });
+  }
+  deleteKey(k: VaultKey): void {
+    const site = this.state.selectedSite();
+    if (!site || !confirm(`Delete key "${k.label}"? Rules using it will start failing.`)) return;
+    this.api.delete(`/sites/${site.id}/form-api-keys/${k.id}`).subscribe({
+      next: () => { this.toast.success('Key deleted'); this.loadKeys(); },
+    });
+  }
   loadSettings(): void {
     const site = this.state.selectedSite();
     if (!site) return;
@@ -3,10 +3,11 @@ import { DatePipe, SlicePipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { AdminStateService } from '../admin-state.service';
-import { ApiService } from '../../../services/api.service';
+import { ApiService, type UserSession } from '../../../services/api.service';
+import { AuthService } from '../../../services/auth.service';
 import { ToastService } from '../../../services/toast.service';
 
-interface Member { id: string; email: string; name: string | null; role: string; created_at: string; }
+interface Member { id: string; email: string; display_name: string | null; role: string; created_at: string; }
 interface Invite { id: string; email: string; role: string; created_at: string; expires_at: string; }
 interface GeneralSettings { contact_email: string | null; reply_email: string | null; brand_tone: string | null; brand_primary?: string | null; brand_accent?: string | null; timezone?: string | null; default_locale?: string | null; }
 interface Conn { id: string; provider: string; display_name: string; status: string; connected_at: string; metadata?: Record<string, unknown>; }
@@ -15,7 +16,7 @@ const TABS = [
   { id: 'general',  label: 'General',     desc: 'Brand · contact email · tone · locale' },
   { id: 'team',     label: 'Team',        desc: 'Members · roles · invitations' },
   { id: 'mcp',      label: 'MCP',         desc: 'Connect MailChimp, Stripe, Slack, Notion, HubSpot, GitHub, Linear, Calendar, Twilio +6 more' },
-  { id: 'security', label: 'Security',    desc: 'API tokens · session lifetime · 2FA' },
+  { id: 'security', label: 'Security',    desc: 'Signed-in devices · session lifetime · 2FA' },
   { id: 'domains',  label: 'Domains',     desc: 'Custom hostnames · SSL · DNS records' },
   { id: 'danger',   label: 'Danger zone', desc: 'Export data · transfer ownership · delete org' },
 ] as const;
@@ -127,14 +128,14 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
         <section class="card">
           <div class="flex items-center justify-between mb-3">
             <h3 class="m-0 text-base font-semibold text-white">Team members</h3>
-            <button class="btn-primary" (click)="inviting.set(true)">+ Invite</button>
+            @if (canManage()) { <button class="btn-primary" (click)="inviting.set(true)">+ Invite</button> }
           </div>
           @if (inviting()) {
             <div class="card-light p-3 mb-3 grid sm:grid-cols-3 gap-2">
               <input type="email" class="input-field" placeholder="teammate@email.com" [(ngModel)]="invite.email" />
               <select class="input-field" [(ngModel)]="invite.role">
-                <option value="owner">Owner</option>
-                <option value="editor">Editor</option>
+                @if (myRole() === 'owner') { <option value="admin">Admin</option> }
+                <option value="member">Member</option>
                 <option value="viewer">Viewer</option>
               </select>
               <div class="flex gap-2 justify-end">
@@ -156,9 +157,26 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
                 @for (m of members(); track m.id) {
                   <tr class="border-b border-white/[0.04]">
                     <td class="p-2">{{ m.email }}</td>
-                    <td class="p-2"><span class="badge">{{ m.role }}</span></td>
+                    <td class="p-2">
+                      @if (canManage() && m.role !== 'owner' && m.email !== auth.email()) {
+                        <select class="input-field !py-1 !w-auto" [ngModel]="m.role" (ngModelChange)="changeRole(m, $event)">
+                          @if (myRole() === 'owner') { <option value="admin">admin</option> }
+                          <option value="member">member</option>
+                          <option value="viewer">viewer</option>
+                        </select>
+                      } @else {
+                        <span class="badge">{{ m.role }}</span>
+                      }
+                    </td>
                     <td class="p-2 text-text-secondary">{{ m.created_at | date:'short' }}</td>
-                    <td class="p-2 text-right"><button class="text-red-400 text-[0.72rem]" (click)="removeMember(m)">Remove</button></td>
+                    <td class="p-2 text-right">
+                      @if (canManage() && m.role !== 'owner' && m.email !== auth.email()) {
+                        <button class="text-[0.72rem] text-text-secondary underline mr-3" (click)="forceSignOut(m)">Sign out</button>
+                      }
+                      @if (myRole() === 'owner' && m.role !== 'owner') {
+                        <button class="text-red-400 text-[0.72rem]" (click)="removeMember(m)">Remove</button>
+                      }
+                    </td>
                   </tr>
                 }
                 @for (i of invites(); track i.id) {
@@ -166,7 +184,12 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
                     <td class="p-2">{{ i.email }} <span class="text-[0.6rem] text-amber-300 ml-1">PENDING</span></td>
                     <td class="p-2"><span class="badge">{{ i.role }}</span></td>
                     <td class="p-2 text-text-secondary">invited {{ i.created_at | date:'short' }}</td>
-                    <td class="p-2 text-right"><button class="text-red-400 text-[0.72rem]" (click)="revokeInvite(i)">Revoke</button></td>
+                    <td class="p-2 text-right">
+                      @if (canManage()) {
+                        <button class="text-[0.72rem] text-text-secondary underline mr-3" (click)="resendInvite(i)">Resend</button>
+                        <button class="text-red-400 text-[0.72rem]" (click)="revokeInvite(i)">Revoke</button>
+                      }
+                    </td>
                   </tr>
                 }
               </tbody>
@@ -242,6 +265,37 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
             <button class="btn-primary" disabled>Save security (coming soon)</button>
           </div>
         </section>
+        <section class="card">
+          <div class="flex items-center justify-between mb-3">
+            <div>
+              <h3 class="m-0 text-base font-semibold text-white">Where you're signed in</h3>
+              <p class="text-[0.7rem] text-text-secondary m-0 mt-1">Sign out a device you no longer use — a shared or lost computer, an old phone.</p>
+            </div>
+            @if (sessions().length > 1) {
+              <button class="btn-ghost" (click)="revokeOtherSessions()">Sign out all other sessions</button>
+            }
+          </div>
+          <table class="w-full text-[0.78rem]">
+            <thead class="text-text-secondary/70 uppercase text-[0.6rem] tracking-wider">
+              <tr class="border-b border-white/[0.06]">
+                <th class="text-left p-2">Device</th><th class="text-left p-2">IP</th><th class="text-left p-2">Signed in</th><th class="text-left p-2">Last seen</th><th class="text-right p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              @for (s of sessions(); track s.id) {
+                <tr class="border-b border-white/[0.04]">
+                  <td class="p-2">{{ s.device }} @if (s.current) { <span class="badge ml-1">This device</span> }</td>
+                  <td class="p-2 font-mono text-text-secondary">{{ s.ip_hint ?? '—' }}</td>
+                  <td class="p-2 text-text-secondary">{{ s.created_at | date:'short' }}</td>
+                  <td class="p-2 text-text-secondary">{{ s.last_active_at | date:'short' }}</td>
+                  <td class="p-2 text-right">
+                    <button class="text-red-400 text-[0.72rem]" (click)="revokeSession(s)">Sign out</button>
+                  </td>
+                </tr>
+              }
+            </tbody>
+          </table>
+        </section>
       }
 
       <!-- ─────────────────── DOMAINS ─────────────────── -->
@@ -272,9 +326,17 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
             <div class="flex items-start justify-between gap-4">
               <div>
                 <div class="font-semibold text-white">Transfer ownership</div>
-                <div class="text-[0.7rem] text-text-secondary">Move this org to another owner. They must accept within 14 days.</div>
+                <div class="text-[0.7rem] text-text-secondary">Make another member the owner. You stay on as an admin.</div>
+              </div>
+              <div class="flex gap-2">
+                <select class="input-field !w-auto" [(ngModel)]="transferTo" [disabled]="myRole() !== 'owner'">
+                  <option value="">Choose member…</option>
+                  @for (m of members(); track m.id) {
+                    @if (m.role !== 'owner') { <option [value]="m.id">{{ m.email }}</option> }
+                  }
+                </select>
+                <button class="btn-ghost border-amber-500/40 text-amber-300" [disabled]="myRole() !== 'owner' || !transferTo" (click)="transferOwnership()">Transfer</button>
               </div>
-              <button class="btn-ghost border-amber-500/40 text-amber-300" disabled>Transfer (coming soon)</button>
             </div>
             <div class="flex items-start justify-between gap-4">
               <div>
@@ -306,6 +368,7 @@ const PROVIDERS: { id: string; label: string; desc: string; color: string; needs
 })
 export class AdminSettingsComponent implements OnInit {
   state = inject(AdminStateService);
+  auth = inject(AuthService);
   private api = inject(ApiService);
   private toast = inject(ToastService);
   private router = inject(Router);
@@ -319,7 +382,11 @@ export class AdminSettingsComponent implements OnInit {
   security: { session_hours: number; idle_minutes: number; allowed_domains: string; require_2fa: boolean } = { session_hours: 168, idle_minutes: 60, allowed_domains: '', require_2fa: false };
   members = signal<Member[]>([]);
   invites = signal<Invite[]>([]);
-  invite: { email: string; role: string } = { email: '', role: 'editor' };
+  sessions = signal<UserSession[]>([]);
+  myRole = signal<string | null>(null);
+  canManage = computed(() => this.myRole() === 'owner' || this.myRole() === 'admin');
+  invite: { email: string; role: string } = { email: '', role: 'member' };
+  transferTo = '';
 
   providers = PROVIDERS;
   connections = signal<Conn[]>([]);
@@ -338,6 +405,7 @@ export class AdminSettingsComponent implements OnInit {
     if (TABS.some((t) => t.id === initial)) this.tab.set(initial);
     this.loadGeneral();
     this.loadTeam();
+    this.loadSessions();
     this.loadConnections();
     this.handleMcpReturn();
   }
@@ -372,22 +440,80 @@ export class AdminSettingsComponent implements OnInit {
     });
   }
   loadTeam(): void {
-    this.api.get<{ data: { members: Member[]; invites: Invite[] } }>('/team').subscribe({
-      next: (r) => { this.members.set(r.data?.members ?? []); this.invites.set(r.data?.invites ?? []); },
+    this.api.get<{ data: { members: Member[]; invites: Invite[]; my_role: string | null } }>('/team').subscribe({
+      next: (r) => {
+        this.members.set(r.data?.members ?? []);
+        this.invites.set(r.data?.invites ?? []);
+        this.myRole.set(r.data?.my_role ?? null);
+      },
     });
   }
   sendInvite(): void {
     this.api.post('/team/invites', this.invite).subscribe({
-      next: () => { this.toast.success(`Invited ${this.invite.email}`); this.invite = { email: '', role: 'editor' }; this.inviting.set(false); this.loadTeam(); },
+      next: () => { this.toast.success(`Invited ${this.invite.email}`); this.invite = { email: '', role: 'member' }; this.inviting.set(false); this.loadTeam(); },
       error: () => this.toast.error('Invite failed'),
     });
   }
+  resendInvite(i: Invite): void {
+    this.api.post(`/team/invites/${i.id}/resend`, {}).subscribe({
+      next: () => { this.toast.success(`Resent to ${i.email}`); this.loadTeam(); },
+      error: () => this.toast.error('Resend failed'),
+    });
+  }
+  changeRole(m: Member, role: string): void {
+    this.api.patch(`/team/members/${m.id}`, { role }).subscribe({
+      next: () => { this.toast.success(`${m.email} is now ${role}`); this.loadTeam(); },
+      error: () => { this.toast.error('Role change failed'); this.loadTeam(); },
+    });
+  }
+  transferOwnership(): void {
+    const m = this.members().find((x) => x.id === this.transferTo); if (!m) return;
+    if (!confirm(`Make ${m.email} the owner of this org? You will become an admin.`)) return;
+    this.api.post('/team/transfer-ownership', { user_id: m.id }).subscribe({
+      next: () => { this.toast.success(`${m.email} now owns this org`); this.transferTo = ''; this.loadTeam(); },
+      error: () => this.toast.error('Transfer failed'),
+    });
+  }
   revokeInvite(i: Invite): void {
     this.api.delete(`/team/invites/${i.id}`).subscribe({ next: () => { this.toast.success('Revoked'); this.loadTeam(); } });
   }
   removeMember(m: Member): void {
     if (!confirm(`Remove ${m.email}?`)) return;
-    this.api.delete(`/team/members/${m.id}`).subscribe({ next: () => { this.toast.success('Removed'); this.loadTeam(); } });
+    this.api.delete(`/team/members/${m.id}`).subscribe({
+      next: () => { this.toast.success('Removed'); this.loadTeam(); },
+      error: () => this.toast.error('Remove failed'),
+    });
+  }
+
+  forceSignOut(m: Member): void {
+    if (!confirm(`Sign ${m.email} out of every device? They can sign back in.`)) return;
+    this.api.forceSignOutMember(m.id).subscribe({
+      next: (r) => this.toast.success(`Signed ${m.email} out of ${r.data.sessions_revoked} session(s)`),
+      error: () => this.toast.error('Sign-out failed'),
+    });
+  }
+
+  // ── Sessions ──
+  loadSessions(): void {
+    this.api.listSessions().subscribe({ next: (r) => this.sessions.set(r.data ?? []) });
+  }
+  revokeSession(s: UserSession): void {
+    if (s.current && !confirm('Sign out of this device?')) return;
+    this.api.revokeSession(s.id).subscribe({
+      next: () => {
+        if (s.current) { this.auth.logout(); this.router.navigate(['/']); return; }
+        this.toast.success(`Signed out ${s.device}`);
+        this.loadSessions();
+      },
+      error: () => this.toast.error('Sign-out failed'),
+    });
+  }
+  revokeOtherSessions(): void {
+    if (!confirm('Sign out every other device?')) return;
+    this.api.revokeOtherSessions().subscribe({
+      next: (r) => { this.toast.success(`Signed out ${r.data.revoked} other session(s)`); this.loadSessions(); },
+      error: () => this.toast.error('Sign-out failed'),
+    });
   }
 
   // ── MCP ──
@@ -5,6 +5,7 @@ import { Subject, debounceTime, distinctUntilChanged, switchMap, of, takeUntil }
 import { ApiService, type CreateSitePayload } from '../../services/api.service';
 import { AuthService, type SelectedBusiness } from '../../services/auth.service';
 import { GeolocationService } from '../../services/geolocation.service';
+import { FeatureFlagsService } from '../../services/feature-flags.service';
 import { ToastService } from '../../services/toast.service';
 
 /**
@@ -131,6 +132,7 @@ interface BusinessSuggestion {
 export class CreateComponent implements OnInit, OnDestroy {
   private api = inject(ApiService);
   auth = inject(AuthService);
+  flags = inject(FeatureFlagsService);
   private geo = inject(GeolocationService);
   private toast = inject(ToastService);
   private router = inject(Router);
@@ -205,6 +207,7 @@ export class CreateComponent implements OnInit, OnDestroy {
   private destroy$ = new Subject<void>();
 
   ngOnInit(): void {
+    this.flags.load();
     // Pre-fill from query params if present (e.g., /create?name=Foo&address=Bar)
     const params = this.route.snapshot.queryParams;
     if (params['name']) this.businessName = params['name'];
@@ -18,18 +18,28 @@ export class SigninComponent {
   private toast = inject(ToastService);
   private router = inject(Router);
 
-  panel = signal<'main' | 'email'>('main');
+  panel = signal<'main' | 'email' | 'phone'>('main');
   email = '';
+  phone = '';
+  code = '';
   sending = signal(false);
   sent = signal(false);
+  codeSent = signal(false);
+  verifying = signal(false);
 
   showEmailPanel(): void {
     this.panel.set('email');
   }
 
+  showPhonePanel(): void {
+    this.panel.set('phone');
+  }
+
   backToMain(): void {
     this.panel.set('main');
     this.sent.set(false);
+    this.codeSent.set(false);
+    this.code = '';
   }
 
   signInWithGoogle(): void {
@@ -89,6 +99,65 @@ export class SigninComponent {
     });
   }
 
+  /** Accept common US formats ("(415) 555-1234") as well as full E.164 numbers */
+  private normalizePhone(input: string): string | null {
+    const digits = input.replace(/[\s().-]/g, '');
+    if (/^\d{10}$/.test(digits)) return `+1${digits}`;
+    if (/^1\d{10}$/.test(digits)) return `+${digits}`;
+    return /^\+[1-9]\d{9,14}$/.test(digits) ? digits : null;
+  }
+
+  sendPhoneCode(): void {
+    if (!this.phone || this.sending()) return;
+
+    const phone = this.normalizePhone(this.phone);
+    if (!phone) {
+      this.toast.error('Please enter a valid phone number, e.g. +1 415 555 1234');
+      return;
+    }
+
+    this.phone = phone;
+    this.sending.set(true);
+    this.api.sendPhoneCode(phone).subscribe({
+      next: () => {
+        this.sending.set(false);
+        this.codeSent.set(true);
+        this.code = '';
+        this.toast.success('We texted you a sign-in code');
+      },
+      error: (err) => {
+        this.sending.set(false);
+        this.toast.error(err?.error?.message || 'Failed to send code');
+      },
+    });
+  }
+
+  verifyPhoneCode(): void {
+    if (!/^\d{6}$/.test(this.code) || this.verifying()) return;
+
+    this.verifying.set(true);
+    this.api.verifyPhoneCode(this.phone, this.code).subscribe({
+      next: (res) => {
+        this.verifying.set(false);
+        if (res.data?.token) {
+          this.auth.setSession(res.data.token, res.data.phone);
+        }
+        const business = this.auth.getSelectedBusiness();
+        this.router.navigate([business ? '/create' : '/admin']);
+      },
+      error: (err) => {
+        this.verifying.set(false);
+        this.code = '';
+        this.toast.error(err?.error?.message || 'Invalid code');
+      },
+    });
+  }
+
+  changePhone(): void {
+    this.codeSent.set(false);
+    this.code = '';
+  }
+
   goBack(): void {
     this.router.navigate(['/']);
   }
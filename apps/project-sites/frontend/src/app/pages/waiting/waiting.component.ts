@@ -1,7 +1,7 @@
 import { Component, type OnInit, type OnDestroy, inject, signal, computed } from '@angular/core';
 import { Router, ActivatedRoute } from '@angular/router';
-import { interval, takeWhile, switchMap, forkJoin, of } from 'rxjs';
-import { ApiService, type LogEntry } from '../../services/api.service';
+import { interval, takeWhile, switchMap, forkJoin, of, type Subscription } from 'rxjs';
+import { ApiService, type BuildStreamSnapshot, type LogEntry } from '../../services/api.service';
 import { ToastService } from '../../services/toast.service';
 
 /** Ordered pipeline steps for progress display */
@@ -27,6 +27,28 @@ const PIPELINE_STEPS = [
 
 const TOTAL_STEPS = 8;
 
+/** Labels for the live stream's phases (services/build_stream.ts). */
+const PHASE_LABELS: Record<string, string> = {
+  starting: 'Starting build pipeline...',
+  assets: 'Preparing your uploaded assets...',
+  building: 'Building your site...',
+  finalizing: 'Publishing files...',
+  validating: 'Running quality checks...',
+  inspecting: 'Reviewing the design...',
+  benchmarking: 'Measuring performance...',
+  notifying: 'Almost there...',
+};
+
+/** Container steps shown while `building`. */
+const BUILD_STEP_LABELS: Record<string, string> = {
+  'claude-code': 'Designing and writing your site...',
+  'npm-build': 'Compiling...',
+  'r2-upload': 'Uploading files...',
+};
+
+/** Consecutive stream errors before falling back to polling the audit log. */
+const MAX_STREAM_FAILURES = 4;
+
 @Component({
   selector: 'app-waiting',
   standalone: true,
@@ -45,8 +67,15 @@ export class WaitingComponent implements OnInit, OnDestroy {
   statusMessage = signal('Preparing your project...');
   currentStep = signal(1);
   totalSteps = TOTAL_STEPS;
+  percent = signal(0);
+  logLines = signal<string[]>([]);
   alive = true;
 
+  private lastEventId: string | null = null;
+  private streamFailures = 0;
+  private streamSub?: Subscription;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
   stepProgress = computed(() => {
     const current = this.currentStep();
     return `Step ${current} of ${this.totalSteps}`;
@@ -61,11 +90,75 @@ export class WaitingComponent implements OnInit, OnDestroy {
       return;
     }
 
-    this.startPolling();
+    this.startStream();
   }
 
   ngOnDestroy(): void {
     this.alive = false;
+    this.streamSub?.unsubscribe();
+    clearTimeout(this.reconnectTimer);
+  }
+
+  /**
+   * Follow GET /sites/:id/build/live. The server closes each connection after
+   * about a minute, so completion just reconnects; errors back off and, after
+   * {@link MAX_STREAM_FAILURES} in a row, fall back to polling the audit log.
+   */
+  private startStream(): void {
+    if (!this.alive) return;
+    this.streamSub = this.api.streamBuildProgress(this.siteId, this.lastEventId).subscribe({
+      next: (event) => {
+        this.streamFailures = 0;
+        if (event.type === 'end') {
+          this.finish(event.status);
+          return;
+        }
+        if (event.id) this.lastEventId = event.id;
+        this.applySnapshot(event.snapshot);
+      },
+      complete: () => this.reconnect(1000),
+      error: () => {
+        this.streamFailures++;
+        if (this.streamFailures >= MAX_STREAM_FAILURES) {
+          this.startPolling();
+          return;
+        }
+        this.reconnect(Math.min(1000 * 2 ** this.streamFailures, 15_000));
+      },
+    });
+  }
+
+  private reconnect(delayMs: number): void {
+    if (!this.alive) return;
+    this.reconnectTimer = setTimeout(() => this.startStream(), delayMs);
+  }
+
+  private applySnapshot(snapshot: BuildStreamSnapshot): void {
+    this.percent.set(snapshot.percent);
+    this.currentStep.set(Math.min(Math.max(Math.ceil((snapshot.percent / 100) * TOTAL_STEPS), 1), TOTAL_STEPS));
+    this.logLines.set(snapshot.log_lines);
+    if (snapshot.terminal_status) {
+      this.finish(snapshot.terminal_status);
+      return;
+    }
+    const stepLabel = snapshot.phase === 'building' && snapshot.step ? BUILD_STEP_LABELS[snapshot.step] : null;
+    this.statusMessage.set(stepLabel ?? PHASE_LABELS[snapshot.phase] ?? 'Building your site...');
+  }
+
+  private finish(status: 'published' | 'error'): void {
+    if (!this.alive) return;
+    this.alive = false;
+    if (status === 'published') {
+      this.statusMessage.set('Your site is live!');
+      this.currentStep.set(TOTAL_STEPS);
+      this.percent.set(100);
+      this.status.set('published');
+      this.toast.success('Your site is live!');
+      return;
+    }
+    this.status.set('error');
+    this.statusMessage.set('Build failed. Please try again.');
+    this.toast.error('Build failed.');
   }
 
   private startPolling(): void {
@@ -90,19 +183,8 @@ export class WaitingComponent implements OnInit, OnDestroy {
           this.updateStatusFromLogs(logs, site.status);
 
           // When site is published, show success state with action buttons
-          if (site.status === 'published') {
-            this.alive = false;
-            this.statusMessage.set('Your site is live!');
-            this.currentStep.set(TOTAL_STEPS);
-            this.status.set('published');
-            this.toast.success('Your site is live!');
-            return;
-          }
-
-          if (site.status === 'error') {
-            this.alive = false;
-            this.statusMessage.set('Build failed. Please try again.');
-            this.toast.error('Build failed.');
+          if (site.status === 'published' || site.status === 'error') {
+            this.finish(site.status);
           }
         },
         error: () => { /* retry next interval */ },
@@ -142,6 +224,7 @@ export class WaitingComponent implements OnInit, OnDestroy {
     }
 
     this.currentStep.set(latestStep);
+    this.percent.set(Math.round((latestStep / TOTAL_STEPS) * 100));
     this.statusMessage.set(latestLabel);
   }
 
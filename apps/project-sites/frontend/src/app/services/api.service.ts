@@ -19,6 +19,10 @@ export class ApiService {
     if (token) {
       headers = headers.set('Authorization', `Bearer ${token}`);
     }
+    const orgId = this.auth.getOrgId();
+    if (orgId) {
+      headers = headers.set('X-Org-Id', orgId);
+    }
     return headers;
   }
 
@@ -125,11 +129,44 @@ export class ApiService {
     return this.post('/auth/magic-link', { email, redirect_url: redirectUrl });
   }
 
+  /** Text a sign-in code to a phone number (E.164) */
+  sendPhoneCode(phone: string): Observable<{ data: { expires_at: string } }> {
+    return this.post('/auth/phone', { phone });
+  }
+
+  /** Verify a texted code; signs in, or links the phone when already signed in */
+  verifyPhoneCode(
+    phone: string,
+    code: string,
+  ): Observable<{ data: { token?: string; phone: string; user_id: string; org_id?: string; linked?: boolean } }> {
+    return this.post('/auth/phone/verify', { phone, code });
+  }
+
   /** Get current user */
   getMe(): Observable<{ data: UserInfo }> {
     return this.get('/auth/me');
   }
 
+  /** List devices the current user is signed in on */
+  listSessions(): Observable<{ data: UserSession[] }> {
+    return this.get('/auth/sessions');
+  }
+
+  /** Sign out one of the current user's sessions */
+  revokeSession(id: string): Observable<{ data: { revoked: boolean; current: boolean } }> {
+    return this.delete(`/auth/sessions/${id}`);
+  }
+
+  /** Sign out every session except this one */
+  revokeOtherSessions(): Observable<{ data: { revoked: number } }> {
+    return this.post('/auth/sessions/revoke-others', {});
+  }
+
+  /** Admin: sign a team member out of every device */
+  forceSignOutMember(userId: string): Observable<{ data: { user_id: string; sessions_revoked: number } }> {
+    return this.post(`/team/members/${userId}/sign-out`, {});
+  }
+
   /** Create site from search */
   createSiteFromSearch(body: CreateSitePayload): Observable<{ data: Site }> {
     return this.post('/sites/create-from-search', body);
@@ -165,6 +202,47 @@ export class ApiService {
     return this.get(`/sites/${id}/logs`, { limit: limit.toString() });
   }
 
+  /**
+   * Live build progress over SSE. EventSource cannot send the bearer token,
+   * so the stream is read with fetch. Completes when the server closes the
+   * connection (about once a minute); reconnect with the last event id.
+   */
+  streamBuildProgress(siteId: string, lastEventId?: string | null): Observable<BuildStreamEvent> {
+    return new Observable<BuildStreamEvent>((subscriber) => {
+      const controller = new AbortController();
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+      const token = this.auth.getToken();
+      if (token) headers['Authorization'] = `Bearer ${token}`;
+      const orgId = this.auth.getOrgId();
+      if (orgId) headers['X-Org-Id'] = orgId;
+      if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+      fetch(`/api/sites/${siteId}/build/live`, { headers, signal: controller.signal })
+        .then(async (res) => {
+          if (!res.ok || !res.body) throw new Error(`Build stream HTTP ${res.status}`);
+          const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+            let sep: number;
+            while ((sep = buffer.indexOf('\n\n')) >= 0) {
+              const event = parseSseFrame(buffer.slice(0, sep));
+              buffer = buffer.slice(sep + 2);
+              if (event) subscriber.next(event);
+            }
+          }
+          subscriber.complete();
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) subscriber.error(err);
+        });
+
+      return () => controller.abort();
+    });
+  }
+
   /** List hostnames */
   getHostnames(siteId: string): Observable<{ data: Hostname[] }> {
     return this.get(`/sites/${siteId}/hostnames`);
@@ -310,8 +388,19 @@ export class ApiService {
     slug: string,
     files: { path: string; content: string }[],
     chat: { messages: unknown[]; description?: string; exportDate?: string },
-  ): Observable<{ data: { slug: string; version: string; url: string } }> {
-    return this.post(`/sites/${siteId}/publish-bolt`, { files, chat, slug });
+    baseCommit?: string | null,
+  ): Observable<{ data: { slug: string; version: string | null; url: string; commit_id?: string; merged?: string[] } }> {
+    return this.post(`/sites/${siteId}/publish-bolt`, {
+      files,
+      chat,
+      slug,
+      ...(baseCommit ? { base_commit: baseCommit } : {}),
+    });
+  }
+
+  /** Catch `main` up with the live site and return its commit — sent back as `base_commit` so concurrent edits merge */
+  getEditBase(siteId: string): Observable<{ data: { commit_id: string | null } }> {
+    return this.post(`/sites/${siteId}/git/base`);
   }
 
   /** Get chat export for a site by slug */
@@ -447,6 +536,35 @@ export interface UserInfo {
   org_id: string;
 }
 
+export interface UserSession {
+  id: string;
+  device: string;
+  ip_hint: string | null;
+  created_at: string;
+  last_active_at: string;
+  current: boolean;
+}
+
+/** One region two edits changed differently; lines are 1-based in the base file. */
+export interface MergeConflictHunk {
+  base_start: number;
+  base: string[];
+  head: string[];
+  incoming: string[];
+}
+
+/**
+ * `error.details` of a 409 from a save or publish sent with `base_commit`.
+ * Each conflicted file's `content` has one `<<<<<<< head` / `=======` /
+ * `>>>>>>> incoming` block per hunk, in order. Resubmit the resolved files
+ * plus `merged` with `base_commit: head_commit`.
+ */
+export interface MergeConflictDetails {
+  head_commit: string;
+  merged: { file: string; content: string }[];
+  conflicts: { file: string; content: string; hunks: MergeConflictHunk[] }[];
+}
+
 export interface Site {
   id: string;
   slug: string;
@@ -501,6 +619,23 @@ export interface LogEntry {
   metadata_json?: string;
 }
 
+export interface BuildStreamSnapshot {
+  site_id: string;
+  build_id: string | null;
+  phase: string;
+  step: string | null;
+  percent: number;
+  log_lines: string[];
+  started_at: string | null;
+  updated_at: string | null;
+  terminal_status: 'published' | 'error' | null;
+  source: 'live' | 'audit';
+}
+
+export type BuildStreamEvent =
+  | { type: 'progress'; id: string | null; snapshot: BuildStreamSnapshot }
+  | { type: 'end'; status: 'published' | 'error' };
+
 export interface Hostname {
   id: string;
   hostname: string;
@@ -622,3 +757,20 @@ export interface AnalyticsData {
   trafficSources: AnalyticsTrafficSource[];
   topPages: AnalyticsTopPage[];
 }
+
+/** Parse one `event:`/`id:`/`data:` block from GET /sites/:id/build/live. */
+function parseSseFrame(frame: string): BuildStreamEvent | null {
+  let event = 'message';
+  let id: string | null = null;
+  const data: string[] = [];
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('id:')) id = line.slice(3).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  if (event === 'progress') {
+    return { type: 'progress', id, snapshot: JSON.parse(data.join('\n')) as BuildStreamSnapshot };
+  }
+  if (event === 'end') return { type: 'end', status: data.join('\n') === 'published' ? 'published' : 'error' };
+  return null;
+}
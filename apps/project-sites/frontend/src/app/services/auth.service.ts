@@ -6,6 +6,7 @@ const MODE_KEY = 'ps_mode';
 const PENDING_BUILD_KEY = 'ps_pending_build';
 const LOCATION_DECLINED_KEY = 'ps_location_declined';
 const AUTO_CREATE_KEY = 'ps_auto_create';
+const ORG_KEY = 'ps_org_id';
 
 /** Session TTL in milliseconds (7 days). */
 const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
@@ -67,9 +68,19 @@ export class AuthService {
     localStorage.removeItem(MODE_KEY);
     localStorage.removeItem(PENDING_BUILD_KEY);
     localStorage.removeItem(AUTO_CREATE_KEY);
+    localStorage.removeItem(ORG_KEY);
     this.sessionSignal.set(null);
   }
 
+  /** Active org for users who belong to more than one (sent as `X-Org-Id`). */
+  getOrgId(): string | null {
+    return localStorage.getItem(ORG_KEY);
+  }
+
+  setOrgId(orgId: string): void {
+    localStorage.setItem(ORG_KEY, orgId);
+  }
+
   /** Full logout: clear all session data. */
   logout(): void {
     this.clearSession();
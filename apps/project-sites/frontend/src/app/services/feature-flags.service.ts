@@ -0,0 +1,33 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ApiService } from './api.service';
+import { AuthService } from './auth.service';
+
+/**
+ * Feature flags evaluated by the Worker for the signed-in org (`GET /api/flags`).
+ * Gate new UI with `flags.isOn('create.new_wizard')`; unknown flags are off.
+ */
+@Injectable({ providedIn: 'root' })
+export class FeatureFlagsService {
+  private api = inject(ApiService);
+  private auth = inject(AuthService);
+
+  readonly flags = signal<Record<string, boolean>>({});
+  readonly loaded = signal(false);
+  /** Session token the current flags were loaded for — flags differ per org. */
+  private loadedFor: string | null | undefined;
+
+  /** Fetch flags once per session; pass `force` after switching orgs. */
+  load(force = false): void {
+    const token = this.auth.getToken();
+    if (!force && this.loadedFor === token) return;
+    this.loadedFor = token;
+    this.api.get<{ data: Record<string, boolean> }>('/flags').subscribe({
+      next: (r) => { this.flags.set(r.data ?? {}); this.loaded.set(true); },
+      error: () => { this.flags.set({}); this.loaded.set(true); },
+    });
+  }
+
+  isOn(name: string): boolean {
+    return this.flags()[name] === true;
+  }
+}
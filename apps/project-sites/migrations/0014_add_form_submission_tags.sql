@@ -0,0 +1,9 @@
+-- Migration 0014: Form submission tags
+--
+-- The form rules engine (services/form_rules.ts) can emit a `tag-submission`
+-- action. Tags are stored as a JSON array on the submission row so the Forms
+-- admin section can filter by them; priority is the highest one any rule set.
+
+ALTER TABLE form_submissions ADD COLUMN tags TEXT;
+ALTER TABLE form_submissions ADD COLUMN priority TEXT
+  CHECK (priority IS NULL OR priority IN ('low', 'normal', 'high', 'urgent'));
@@ -0,0 +1,7 @@
+-- Migration 0015: Bring-your-own LLM key for AI endpoints
+--
+-- A prompt endpoint may reference an `openai` or `anthropic` credential in the
+-- form_api_keys vault. When set, the endpoint calls that provider with the
+-- customer's key instead of Workers AI; usage is tracked on the vault row.
+
+ALTER TABLE ai_endpoints ADD COLUMN api_key_id TEXT REFERENCES form_api_keys(id);
@@ -0,0 +1,9 @@
+-- Migration 0016: Align team_invites.role with memberships.role
+--
+-- The first Team settings UI invited as owner | editor | viewer. Accepted
+-- invites become memberships rows, whose role CHECK only allows
+-- owner | admin | member | viewer, and ownership now moves by transfer only.
+-- Map pending invites onto the membership roles.
+
+UPDATE team_invites SET role = 'member' WHERE role = 'editor' AND accepted_at IS NULL;
+UPDATE team_invites SET role = 'admin' WHERE role = 'owner' AND accepted_at IS NULL;
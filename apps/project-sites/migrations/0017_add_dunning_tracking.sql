@@ -0,0 +1,12 @@
+-- Migration 0017: Dunning schedule bookkeeping
+--
+-- past_due_since: when the current past_due episode began. Stripe retries
+--   fire invoice.payment_failed several times; last_payment_failed_at moves
+--   with each retry, so the reminder schedule is anchored here instead.
+-- sites.dunning_downgraded: set on sites the dunning downgrade moved from
+--   paid to free, so a later invoice.paid restores exactly those sites.
+
+ALTER TABLE subscriptions ADD COLUMN past_due_since TEXT;
+ALTER TABLE sites ADD COLUMN dunning_downgraded INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_past_due ON subscriptions (status) WHERE status = 'past_due' AND deleted_at IS NULL;
@@ -0,0 +1,7 @@
+-- Migration 0018: Indexes for the nightly site cost rollup
+--
+-- services/cost_rollup.ts aggregates ai_credits_ledger and ai_form_logs by
+-- day across every org; the existing indexes lead with org_id / site_id.
+
+CREATE INDEX IF NOT EXISTS idx_credits_ledger_created ON ai_credits_ledger (created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_logs_created ON ai_form_logs (created_at);
@@ -0,0 +1,30 @@
+-- Migration 0019: TOTP multi-factor authentication
+--
+-- user_mfa: one authenticator per user. The TOTP secret is AES-GCM encrypted
+--   (services/ai_crypto.ts); status stays 'pending' until the first code is
+--   confirmed. last_used_step blocks replaying a code inside its window.
+-- mfa_recovery_codes: SHA-256 hashes of single-use recovery codes.
+-- sessions.mfa_verified_at: set when the session passes the second factor.
+-- orgs.require_mfa: billing and domain changes need an MFA-verified session.
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id TEXT PRIMARY KEY REFERENCES users(id),
+  totp_secret_encrypted TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active')),
+  last_used_step INTEGER NOT NULL DEFAULT 0,
+  confirmed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  code_hash TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes (user_id) WHERE used_at IS NULL;
+
+ALTER TABLE sessions ADD COLUMN mfa_verified_at TEXT;
+ALTER TABLE orgs ADD COLUMN require_mfa INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,11 @@
+-- Migration 0020: Snapshot retention
+--
+-- site_snapshots.auto: 1 for rows the platform creates on its own (every AI
+--   Edit publish, every revert). Those do not pin their build version: once
+--   the storage GC prunes the version (services/storage_gc.ts) the row is
+--   soft-deleted with it. Snapshots a user names keep their version forever.
+
+ALTER TABLE site_snapshots ADD COLUMN auto INTEGER NOT NULL DEFAULT 0;
+
+UPDATE site_snapshots SET auto = 1
+WHERE description LIKE 'AI Edit — %' OR snapshot_name LIKE 'revert-%';
@@ -0,0 +1,7 @@
+-- Migration 0021: Per-site maintenance mode
+--
+-- While set, the site's hostnames answer every request with a 503 page
+-- (the build's 503.html, or the branded template). Branch previews are
+-- unaffected, so the owner can keep working on the site.
+
+ALTER TABLE sites ADD COLUMN maintenance_mode INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- Migration 0022: Password-protected and members-only sites
+--
+-- visibility is 'public', 'password' or 'members'. Snapshots inherit the
+-- site's setting while their own visibility is NULL. access_secret signs
+-- the visitor access cookie and is replaced on every change, so changing
+-- the password or visibility signs everyone out.
+
+ALTER TABLE sites ADD COLUMN visibility TEXT NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'password', 'members'));
+ALTER TABLE sites ADD COLUMN access_password_hash TEXT;
+ALTER TABLE sites ADD COLUMN access_secret TEXT;
+
+ALTER TABLE site_snapshots ADD COLUMN visibility TEXT
+  CHECK (visibility IN ('public', 'password', 'members'));
+ALTER TABLE site_snapshots ADD COLUMN access_password_hash TEXT;
+ALTER TABLE site_snapshots ADD COLUMN access_secret TEXT;
@@ -0,0 +1,34 @@
+-- Migration 0023: Scheduled version switches
+--
+-- A row switches a site's live version at run_at, to a named snapshot, a
+-- git commit, or (for timed rollbacks) a raw build version. The cron picks
+-- up pending rows whose run_at has passed. When revert_at is set, running
+-- the switch queues a 'version' row that puts the previous live version
+-- back at that time; parent_id links the two.
+--
+-- status: pending → running → done | failed, or canceled while pending.
+
+CREATE TABLE IF NOT EXISTS site_version_schedules (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL REFERENCES sites(id),
+  org_id TEXT NOT NULL REFERENCES orgs(id),
+  target_type TEXT NOT NULL CHECK (target_type IN ('snapshot', 'commit', 'version')),
+  target TEXT NOT NULL,
+  run_at TEXT NOT NULL,
+  revert_at TEXT,
+  parent_id TEXT REFERENCES site_version_schedules(id),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'done', 'failed', 'canceled')),
+  previous_version TEXT,
+  result_version TEXT,
+  error TEXT,
+  created_by TEXT,
+  executed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_version_schedules_due
+  ON site_version_schedules (run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_version_schedules_site
+  ON site_version_schedules (site_id, run_at);
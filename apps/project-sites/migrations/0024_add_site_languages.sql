@@ -0,0 +1,46 @@
+-- Migration 0024: Translated site languages
+--
+-- One site_languages row per language a site is translated into. The cron
+-- translates the live build version into sites/{slug}/{version}/{lang}/
+-- whenever source_version (the version last attempted) is behind the
+-- site's current_build_version, or when the row is set back to 'pending'
+-- (re-translate, or an override changed). build_version is the version
+-- whose tree was last written completely.
+--
+-- status: pending → running → ready | failed
+--
+-- site_translation_overrides holds owner replacements for individual
+-- machine-translated strings, keyed by the English source text.
+
+CREATE TABLE IF NOT EXISTS site_languages (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL REFERENCES sites(id),
+  org_id TEXT NOT NULL REFERENCES orgs(id),
+  lang TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'ready', 'failed')),
+  source_version TEXT,
+  build_version TEXT,
+  segments INTEGER NOT NULL DEFAULT 0,
+  translated INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_by TEXT,
+  translated_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (site_id, lang)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_languages_status ON site_languages (status, updated_at);
+
+CREATE TABLE IF NOT EXISTS site_translation_overrides (
+  id TEXT PRIMARY KEY,
+  site_id TEXT NOT NULL REFERENCES sites(id),
+  lang TEXT NOT NULL,
+  source_text TEXT NOT NULL,
+  text TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (site_id, lang, source_text)
+);
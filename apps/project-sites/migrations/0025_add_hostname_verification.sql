@@ -0,0 +1,17 @@
+-- Migration 0025: Custom domain ownership verification and apex/www pairs
+--
+-- Custom hostnames start 'pending' with a verification_token and no
+-- Cloudflare hostname. The customer publishes the token as a TXT record at
+-- _projectsites-challenge.{hostname} (the apex for www); once it is seen,
+-- the Cloudflare hostname is created and ownership_verified_at is set.
+--
+-- Adding example.com also adds www.example.com (and vice versa). The
+-- partner shares the token and carries redirect_to, the hostname it 301s
+-- to. Paired redirects don't count towards the custom domain limit.
+
+ALTER TABLE hostnames ADD COLUMN verification_token TEXT;
+ALTER TABLE hostnames ADD COLUMN ownership_verified_at TEXT;
+ALTER TABLE hostnames ADD COLUMN redirect_to TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_hostnames_challenge ON hostnames (verification_token)
+  WHERE verification_token IS NOT NULL AND cf_custom_hostname_id IS NULL AND deleted_at IS NULL;
@@ -0,0 +1,39 @@
+-- Migration 0026: Health monitoring for active custom domains
+--
+-- The half-hourly cron sweeps active custom hostnames (oldest check first)
+-- and records what it saw in hostname_health_checks: where DNS points, the
+-- Cloudflare SSL status and certificate expiry, and whether the hostname
+-- answers over HTTPS. problems is a JSON array of problem codes
+-- (dns_moved, ssl_inactive, ssl_expiring, unreachable).
+--
+-- hostnames.health_status is 'healthy' or 'degraded' (NULL until the first
+-- check). It sits beside status rather than replacing it: a degraded
+-- hostname keeps serving while the owner fixes it. degraded_at is when the
+-- current degradation started; the owner is emailed once per degradation.
+--
+-- History older than 30 days is pruned by the sweep.
+
+ALTER TABLE hostnames ADD COLUMN health_status TEXT;
+ALTER TABLE hostnames ADD COLUMN health_checked_at TEXT;
+ALTER TABLE hostnames ADD COLUMN degraded_at TEXT;
+
+CREATE TABLE IF NOT EXISTS hostname_health_checks (
+  id TEXT PRIMARY KEY,
+  hostname_id TEXT NOT NULL REFERENCES hostnames(id),
+  org_id TEXT NOT NULL REFERENCES orgs(id),
+  hostname TEXT NOT NULL,
+  health_status TEXT NOT NULL CHECK (health_status IN ('healthy', 'degraded')),
+  dns_target TEXT,
+  ssl_status TEXT,
+  ssl_expires_at TEXT,
+  http_status INTEGER,
+  problems TEXT NOT NULL DEFAULT '[]',
+  checked_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_hostname_health_checks_hostname
+  ON hostname_health_checks (hostname_id, checked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hostname_health_checks_org
+  ON hostname_health_checks (org_id, checked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hostnames_health_sweep
+  ON hostnames (health_checked_at) WHERE status = 'active' AND type = 'custom_cname' AND deleted_at IS NULL;
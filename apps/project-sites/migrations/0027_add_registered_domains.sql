@@ -0,0 +1,54 @@
+-- Migration 0027: Domains bought or transferred in through our registrar
+--
+-- registered_domains holds one row per domain we manage at the registrar.
+-- A row starts as 'awaiting_payment' when checkout opens, moves to
+-- 'registering' once Stripe confirms payment, and ends 'active' (or
+-- 'transfer_pending' while a transfer-in completes, 'failed' when the
+-- registrar refused it). auto_renew and whois_privacy mirror the settings
+-- at the registrar; registrant_json is the WHOIS contact we submitted.
+--
+-- domain_orders records each paid action against a domain: the initial
+-- registration or transfer, and every renewal. The Stripe checkout carries
+-- the order id in its metadata; the webhook completes the order. A transfer
+-- auth code is kept only until the transfer has been submitted.
+
+CREATE TABLE IF NOT EXISTS registered_domains (
+  id TEXT PRIMARY KEY,
+  org_id TEXT NOT NULL REFERENCES orgs(id),
+  site_id TEXT REFERENCES sites(id),
+  domain TEXT NOT NULL,
+  registrar TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'awaiting_payment'
+    CHECK (status IN ('awaiting_payment', 'registering', 'active', 'transfer_pending', 'failed', 'expired')),
+  expires_at TEXT,
+  auto_renew INTEGER NOT NULL DEFAULT 1,
+  whois_privacy INTEGER NOT NULL DEFAULT 1,
+  registrant_json TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  deleted_at TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_registered_domains_domain
+  ON registered_domains(domain) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_registered_domains_org ON registered_domains(org_id, created_at);
+
+CREATE TABLE IF NOT EXISTS domain_orders (
+  id TEXT PRIMARY KEY,
+  org_id TEXT NOT NULL REFERENCES orgs(id),
+  registered_domain_id TEXT NOT NULL REFERENCES registered_domains(id),
+  domain TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('register', 'transfer', 'renew')),
+  years INTEGER NOT NULL DEFAULT 1,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'awaiting_payment'
+    CHECK (status IN ('awaiting_payment', 'paid', 'completed', 'failed')),
+  stripe_session_id TEXT,
+  auth_code TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_orders_domain ON domain_orders(registered_domain_id, created_at);
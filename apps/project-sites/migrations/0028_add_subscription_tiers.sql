@@ -0,0 +1,13 @@
+-- Migration 0028: Subscription tiers and annual billing
+--
+-- tier: 'starter' | 'pro' | 'agency' for paid subscriptions. NULL on free
+--   rows and on subscriptions from before tiers, which keep Pro entitlements.
+-- billing_interval: 'month' | 'year', NULL wherever tier is.
+-- stripe_price_id: the Stripe price the subscription item is on, as last
+--   reported by customer.subscription.updated.
+
+ALTER TABLE subscriptions ADD COLUMN tier TEXT
+  CHECK (tier IS NULL OR tier IN ('starter', 'pro', 'agency'));
+ALTER TABLE subscriptions ADD COLUMN billing_interval TEXT
+  CHECK (billing_interval IS NULL OR billing_interval IN ('month', 'year'));
+ALTER TABLE subscriptions ADD COLUMN stripe_price_id TEXT;
@@ -0,0 +1,15 @@
+-- Migration 0029: Per-org storage usage for quota enforcement
+--
+-- bytes_used is a running total of the org's R2 objects, moved by every
+-- metered put and delete (services/storage_usage.ts). Writes the worker does
+-- not see, such as container builds uploading over the R2 REST API, and any
+-- drift are corrected by the nightly reconciliation, which re-lists
+-- sites/{slug}/ for each of the org's sites and overwrites bytes_used.
+-- reconciled_at is when that last happened (NULL until the first run).
+
+CREATE TABLE IF NOT EXISTS org_storage_usage (
+  org_id TEXT PRIMARY KEY REFERENCES orgs(id),
+  bytes_used INTEGER NOT NULL DEFAULT 0,
+  reconciled_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
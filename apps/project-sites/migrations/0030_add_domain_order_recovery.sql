@@ -0,0 +1,17 @@
+-- Migration 0030: Keep paid domains through partial failures
+--
+-- completeDomainOrder used to mark a domain 'failed' whenever anything went
+-- wrong, even after the registrar had registered it, and a failed row is
+-- cleared by the next checkout for the same name.
+--
+-- registered_domains.connect_error records a domain we hold whose zone or
+-- hostname setup failed; the row keeps its registrar status and the cron
+-- retries the connection, clearing the error once it succeeds.
+--
+-- When the registrar itself refuses an order the charge is refunded through
+-- Stripe (domain_orders.refund_id). needs_support = 1 flags an order whose
+-- refund could not be made automatically.
+
+ALTER TABLE registered_domains ADD COLUMN connect_error TEXT;
+ALTER TABLE domain_orders ADD COLUMN refund_id TEXT;
+ALTER TABLE domain_orders ADD COLUMN needs_support INTEGER NOT NULL DEFAULT 0;
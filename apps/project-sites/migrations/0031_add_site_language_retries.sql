@@ -0,0 +1,10 @@
+-- Migration 0031: Retry failed translations
+--
+-- A 'failed' site_languages row used to wait for the next publish or an
+-- owner re-translate. failures counts the failed runs in a row on
+-- source_version, and retry_at is when the cron picks the row up again,
+-- backing off after each failure; it is NULL once the retries are used up.
+-- Both are cleared when a run finishes or the language is re-queued.
+
+ALTER TABLE site_languages ADD COLUMN failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE site_languages ADD COLUMN retry_at TEXT;
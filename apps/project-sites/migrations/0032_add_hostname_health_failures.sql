@@ -0,0 +1,9 @@
+-- Migration 0032: Confirm domain health problems before degrading
+--
+-- A single failed check (a DNS resolver hiccup, a slow origin) used to flip
+-- a hostname to degraded and email the owner. health_failures counts the
+-- failed checks in a row; the sweep rechecks a failing hostname on the next
+-- run and only degrades it on the second failure. It goes back to 0 on the
+-- first healthy check.
+
+ALTER TABLE hostnames ADD COLUMN health_failures INTEGER NOT NULL DEFAULT 0;
@@ -168,6 +168,8 @@ function pushStatus(jobId) {
     fileCount: finalCount || liveCount,
     error: j.error ? String(j.error).slice(0, 500) : null,
     uploadResult: j.uploadResult || null,
+    slug: j.slug || null,
+    logTail: j.logTail || [],
   };
   const body = JSON.stringify(payload);
   const sig = crypto.createHmac('sha256', j.callbackSecret).update(body).digest('hex');
@@ -180,6 +182,22 @@ function pushStatus(jobId) {
   }).catch(e => console.warn(`[${jobId}] callback err: ${e.message}`));
 }
 
+// Keep the last LOG_TAIL_LINES lines of child output for the waiting page's live log.
+// Output pushes are throttled; the 30s heartbeat and step changes push regardless.
+const LOG_TAIL_LINES = 30;
+const LOG_PUSH_INTERVAL_MS = 5_000;
+
+function appendLog(jobId, chunk) {
+  const j = jobs[jobId];
+  if (!j) return;
+  const lines = chunk.toString().split(/\r?\n/).map(l => l.trimEnd().slice(0, 300)).filter(Boolean);
+  if (!lines.length) return;
+  j.logTail = [...(j.logTail || []), ...lines].slice(-LOG_TAIL_LINES);
+  if (Date.now() - (j.lastLogPush || 0) < LOG_PUSH_INTERVAL_MS) return;
+  j.lastLogPush = Date.now();
+  pushStatus(jobId);
+}
+
 function setStatus(jobId, patch) {
   if (!jobs[jobId]) return;
   Object.assign(jobs[jobId], patch);
@@ -226,6 +244,8 @@ function runJob(jobId, dir, prompt, envVars, timeoutMin, callbackUrl, callbackSe
     callbackUrl: callbackUrl || null,
     callbackSecret: callbackSecret || null,
     skipBuild: Boolean(skipBuild),
+    slug: envVars.SITE_SLUG || null,
+    logTail: [],
   };
   saveJob(jobId);
   pushStatus(jobId);
@@ -264,8 +284,8 @@ function runJob(jobId, dir, prompt, envVars, timeoutMin, callbackUrl, callbackSe
     timeout: to, stdio: ['pipe', 'pipe', 'pipe'], maxBuffer: 100 * 1024 * 1024,
   });
   let stdout = '', stderr = '';
-  child.stdout.on('data', d => { stdout += d.toString(); });
-  child.stderr.on('data', d => { stderr += d.toString(); });
+  child.stdout.on('data', d => { stdout += d.toString(); appendLog(jobId, d); });
+  child.stderr.on('data', d => { stderr += d.toString(); appendLog(jobId, d); });
 
   // Run a shell command async via spawn so the Node event loop stays free for setInterval heartbeats.
   // Returns { code, stdout } or throws on timeout/spawn error.
@@ -275,8 +295,8 @@ function runJob(jobId, dir, prompt, envVars, timeoutMin, callbackUrl, callbackSe
     return new Promise((resolve, reject) => {
       const c = sp('sh', ['-c', cmd], { timeout: timeoutMs, stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: maxOutBytes || 50 * 1024 * 1024, env: runEnv });
       let out = '', err = '';
-      c.stdout.on('data', d => { out += d.toString(); });
-      c.stderr.on('data', d => { err += d.toString(); });
+      c.stdout.on('data', d => { out += d.toString(); appendLog(jobId, d); });
+      c.stderr.on('data', d => { err += d.toString(); appendLog(jobId, d); });
       c.on('close', code => resolve({ code, stdout: out, stderr: err }));
       c.on('error', e => reject(e));
     });
@@ -411,6 +431,7 @@ http.createServer((q, r) => {
         fileCount: j.files ? j.files.length : 0,
         error: j.error ? j.error.slice(0, 500) : null,
         uploadResult: j.uploadResult || null,
+        logTail: j.logTail || [],
       };
     };
 
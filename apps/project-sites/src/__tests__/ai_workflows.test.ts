@@ -141,9 +141,9 @@ describe('registerAllPrompts', () => {
     // clearRegistry + registerAllPrompts already called in beforeEach
     const stats = getStats();
 
-    // 5 legacy + 8 v2 = 13 prompts, legacy has 4 unique IDs + 8 v2 = 12 unique
-    expect(stats.totalPrompts).toBe(13);
-    expect(stats.uniqueIds).toBe(12);
+    // 5 legacy + 8 v2 + 1 translation = 14 prompts; legacy has 4 unique IDs, so 13 unique
+    expect(stats.totalPrompts).toBe(14);
+    expect(stats.uniqueIds).toBe(13);
   });
 
   it('configures variant weights for site_copy', () => {
@@ -157,8 +157,8 @@ describe('registerAllPrompts', () => {
     const stats = getStats();
 
     // registerAll overwrites existing keys, so counts stay the same
-    expect(stats.totalPrompts).toBe(13);
-    expect(stats.uniqueIds).toBe(12);
+    expect(stats.totalPrompts).toBe(14);
+    expect(stats.uniqueIds).toBe(13);
   });
 });
 
@@ -295,6 +295,8 @@ describe('GET /api/auth/me', () => {
       org_id: 'org-456',
       email: 'alice@example.com',
       display_name: 'Alice',
+      mfa_enabled: false,
+      mfa_verified: false,
     });
   });
 
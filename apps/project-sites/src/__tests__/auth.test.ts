@@ -333,6 +333,18 @@ describe('createSession', () => {
     expect(new Date(result.expires_at).getTime()).toBeGreaterThan(Date.now());
   });
 
+  it('flags a pending second factor for users with two-factor enabled', async () => {
+    mockDbQueryOne.mockResolvedValueOnce({ status: 'active' });
+    const result = await createSession(mockDb, 'user-id-3');
+
+    expect(result.mfa_required).toBe(true);
+    expect(mockDbInsert).toHaveBeenCalledWith(
+      mockDb,
+      'sessions',
+      expect.objectContaining({ mfa_verified_at: null }),
+    );
+  });
+
   it('creates a session record in the sessions table', async () => {
     await createSession(mockDb, 'user-id-2', 'Chrome on macOS', '192.168.1.1');
 
@@ -370,9 +382,24 @@ describe('getSession', () => {
       id: 'sess-1',
       user_id: 'user-1',
       expires_at: futureDate,
+      mfa_enabled: false,
+      mfa_verified: false,
     });
   });
 
+  it('reports two-factor state for the session', async () => {
+    mockDbQueryOne.mockResolvedValueOnce({
+      id: 'sess-3',
+      user_id: 'user-3',
+      expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+      mfa_enabled: 1,
+      mfa_verified_at: '2026-03-01T12:00:00.000Z',
+    });
+
+    const result = await getSession(mockDb, token);
+    expect(result).toEqual(expect.objectContaining({ mfa_enabled: true, mfa_verified: true }));
+  });
+
   it('returns null when no session matches the token', async () => {
     mockDbQueryOne.mockResolvedValueOnce(null);
 
@@ -5,6 +5,10 @@ jest.mock('../services/db.js', () => ({
   dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
 }));
 
+jest.mock('../services/credits.js', () => ({
+  grantCredits: jest.fn().mockResolvedValue(0),
+}));
+
 jest.mock('@project-sites/shared', () => {
   const actual = jest.requireActual('@project-sites/shared');
   return {
@@ -13,7 +17,12 @@ jest.mock('@project-sites/shared', () => {
   };
 });
 
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { api } from '../routes/api.js';
 import { dbQueryOne, dbInsert, dbUpdate } from '../services/db.js';
+import { grantCredits } from '../services/credits.js';
 import {
   getOrCreateStripeCustomer,
   createCheckoutSession,
@@ -22,14 +31,19 @@ import {
   handleSubscriptionUpdated,
   handleSubscriptionDeleted,
   handlePaymentFailed,
+  handleInvoicePaid,
   getOrgEntitlements,
   getOrgSubscription,
   createBillingPortalSession,
+  changeSubscriptionPlan,
+  refundCheckoutCharge,
+  grantIncludedCredits,
 } from '../services/billing.js';
 
 const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
 const mockInsert = dbInsert as jest.MockedFunction<typeof dbInsert>;
 const mockUpdate = dbUpdate as jest.MockedFunction<typeof dbUpdate>;
+const mockGrant = grantCredits as jest.MockedFunction<typeof grantCredits>;
 
 const mockEnv = {
   STRIPE_SECRET_KEY: 'sk_test_123',
@@ -172,6 +186,91 @@ describe('createCheckoutSession', () => {
       'Failed to create Stripe checkout',
     );
   });
+
+  it('sends the catalogue price for the chosen tier and interval', async () => {
+    mockExistingCustomer();
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'cs_123', url: 'https://checkout.stripe.com/cs_123' }),
+      text: async () => '',
+    });
+
+    await createCheckoutSession(mockDb, mockEnv, { ...opts, tier: 'starter', interval: 'year' });
+
+    const body = (global.fetch as jest.Mock).mock.calls[0][1].body as URLSearchParams;
+    expect(body.get('line_items[0][price_data][unit_amount]')).toBe('20000');
+    expect(body.get('line_items[0][price_data][recurring][interval]')).toBe('year');
+    expect(body.get('line_items[0][price_data][product_data][name]')).toBe('Project Sites Starter');
+    expect(body.get('subscription_data[metadata][tier]')).toBe('starter');
+    expect(body.get('subscription_data[metadata][org_id]')).toBe('org_1');
+  });
+
+  it('uses the configured Stripe price for a tier', async () => {
+    mockExistingCustomer();
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'cs_123', url: 'https://checkout.stripe.com/cs_123' }),
+      text: async () => '',
+    });
+
+    await createCheckoutSession(
+      mockDb,
+      { ...mockEnv, STRIPE_PRICE_AGENCY_MONTHLY: 'price_agency_m' },
+      { ...opts, tier: 'agency' },
+    );
+
+    const body = (global.fetch as jest.Mock).mock.calls[0][1].body as URLSearchParams;
+    expect(body.get('line_items[0][price]')).toBe('price_agency_m');
+    expect(body.get('line_items[0][price_data][unit_amount]')).toBeNull();
+    expect(body.get('metadata[tier]')).toBe('agency');
+    expect(body.get('metadata[interval]')).toBe('month');
+  });
+
+  describe('with a domain charge', () => {
+    const domain = {
+      order_id: 'order-1',
+      domain: 'vitossalon.com',
+      description: 'Registration, 2 years',
+      amount_cents: 3000,
+    };
+
+    function mockSession() {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'cs_123', url: 'https://checkout.stripe.com/cs_123' }),
+        text: async () => '',
+      });
+    }
+
+    it('bundles Pro with the domain for free orgs', async () => {
+      mockExistingCustomer();
+      mockQueryOne.mockResolvedValueOnce({ plan: 'free', status: 'active' });
+      mockSession();
+
+      await createCheckoutSession(mockDb, mockEnv, { ...opts, domain });
+
+      const body = (global.fetch as jest.Mock).mock.calls[0][1].body as URLSearchParams;
+      expect(body.get('mode')).toBe('subscription');
+      expect(body.get('line_items[0][price_data][recurring][interval]')).toBe('month');
+      expect(body.get('line_items[1][price_data][unit_amount]')).toBe('3000');
+      expect(body.get('line_items[1][price_data][recurring][interval]')).toBeNull();
+      expect(body.get('metadata[type]')).toBe('domain_purchase');
+      expect(body.get('metadata[domain_order_id]')).toBe('order-1');
+    });
+
+    it('charges for the domain alone once the org has Pro', async () => {
+      mockExistingCustomer();
+      mockQueryOne.mockResolvedValueOnce({ plan: 'paid', status: 'active' });
+      mockSession();
+
+      await createCheckoutSession(mockDb, mockEnv, { ...opts, domain });
+
+      const body = (global.fetch as jest.Mock).mock.calls[0][1].body as URLSearchParams;
+      expect(body.get('mode')).toBe('payment');
+      expect(body.get('line_items[0][price_data][product_data][name]')).toBe('vitossalon.com');
+      expect(body.get('line_items[1][quantity]')).toBeNull();
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -299,6 +398,30 @@ describe('handleCheckoutCompleted', () => {
     );
   });
 
+  it('records the tier and interval bought', async () => {
+    await handleCheckoutCompleted(mockDb, mockEnv, {
+      customer: 'cus_1',
+      subscription: 'sub_1',
+      metadata: { org_id: 'org_1', tier: 'agency', interval: 'year' },
+    });
+
+    expect(mockUpdate.mock.calls[0]![2]).toMatchObject({
+      plan: 'paid',
+      tier: 'agency',
+      billing_interval: 'year',
+    });
+  });
+
+  it('leaves the plan alone for one-off domain payments', async () => {
+    await handleCheckoutCompleted(mockDb, mockEnv, {
+      customer: 'cus_1',
+      subscription: null,
+      metadata: { org_id: 'org_1', type: 'domain_purchase' },
+    });
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
   it('throws badRequest when org_id missing from metadata', async () => {
     await expect(
       handleCheckoutCompleted(mockDb, mockEnv, {
@@ -358,7 +481,7 @@ describe('handleSubscriptionUpdated', () => {
     const periodStart = 1700000000;
     const periodEnd = 1702592000;
 
-    await handleSubscriptionUpdated(mockDb, {
+    await handleSubscriptionUpdated(mockDb, mockEnv, {
       id: 'sub_1',
       status: 'active',
       cancel_at_period_end: false,
@@ -382,7 +505,7 @@ describe('handleSubscriptionUpdated', () => {
   });
 
   it('does nothing when org_id missing', async () => {
-    const result = await handleSubscriptionUpdated(mockDb, {
+    const result = await handleSubscriptionUpdated(mockDb, mockEnv, {
       id: 'sub_1',
       status: 'active',
       cancel_at_period_end: false,
@@ -398,7 +521,7 @@ describe('handleSubscriptionUpdated', () => {
   it('passes cancel_at_period_end correctly', async () => {
     mockUpdate.mockResolvedValueOnce({ error: null, changes: 1 });
 
-    await handleSubscriptionUpdated(mockDb, {
+    await handleSubscriptionUpdated(mockDb, mockEnv, {
       id: 'sub_1',
       status: 'active',
       cancel_at_period_end: true,
@@ -417,6 +540,60 @@ describe('handleSubscriptionUpdated', () => {
       ['org_1'],
     );
   });
+
+  it('maps a configured Stripe price to its tier', async () => {
+    await handleSubscriptionUpdated(
+      mockDb,
+      { ...mockEnv, STRIPE_PRICE_STARTER_ANNUAL: 'price_starter_y' },
+      {
+        id: 'sub_1',
+        status: 'active',
+        cancel_at_period_end: false,
+        current_period_start: 1700000000,
+        current_period_end: 1731536000,
+        items: { data: [{ price: { id: 'price_starter_y', recurring: { interval: 'year' } } }] },
+        metadata: { org_id: 'org_1', tier: 'pro', interval: 'month' },
+      },
+    );
+
+    expect(mockUpdate.mock.calls[0]![2]).toMatchObject({
+      tier: 'starter',
+      billing_interval: 'year',
+      stripe_price_id: 'price_starter_y',
+    });
+  });
+
+  it('falls back to the tier in metadata for inline prices', async () => {
+    await handleSubscriptionUpdated(mockDb, mockEnv, {
+      id: 'sub_1',
+      status: 'active',
+      cancel_at_period_end: false,
+      current_period_start: 1700000000,
+      current_period_end: 1702592000,
+      items: { data: [{ price: { id: 'price_inline', recurring: { interval: 'month' } } }] },
+      metadata: { org_id: 'org_1', tier: 'agency' },
+    });
+
+    expect(mockUpdate.mock.calls[0]![2]).toMatchObject({
+      tier: 'agency',
+      billing_interval: 'month',
+    });
+  });
+
+  it('keeps the recorded tier for prices it does not know', async () => {
+    await handleSubscriptionUpdated(mockDb, mockEnv, {
+      id: 'sub_1',
+      status: 'active',
+      cancel_at_period_end: false,
+      current_period_start: 1700000000,
+      current_period_end: 1702592000,
+      items: { data: [{ price: { id: 'price_legacy' } }] },
+      metadata: { org_id: 'org_1' },
+    });
+
+    expect(mockUpdate.mock.calls[0]![2]).not.toHaveProperty('tier');
+    expect(mockUpdate.mock.calls[0]![2]).toMatchObject({ stripe_price_id: 'price_legacy' });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -478,6 +655,21 @@ describe('handlePaymentFailed', () => {
     );
   });
 
+  it('anchors the dunning schedule on the first failure only', async () => {
+    await handlePaymentFailed(mockDb, {
+      subscription: 'sub_1',
+      metadata: { org_id: 'org_1' },
+    });
+
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'subscriptions',
+      { past_due_since: expect.any(String) },
+      'org_id = ? AND past_due_since IS NULL',
+      ['org_1'],
+    );
+  });
+
   it('does nothing when org_id missing', async () => {
     const result = await handlePaymentFailed(mockDb, {
       subscription: 'sub_1',
@@ -489,6 +681,301 @@ describe('handlePaymentFailed', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// handleInvoicePaid
+// ---------------------------------------------------------------------------
+describe('handleInvoicePaid', () => {
+  const subId = '11111111-1111-4111-8111-111111111111';
+  const orgId = '22222222-2222-4222-8222-222222222222';
+
+  it('resets dunning for a past_due subscription found by customer', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      id: subId,
+      org_id: orgId,
+      status: 'past_due',
+      dunning_stage: 2,
+    });
+
+    const result = await handleInvoicePaid(mockDb, { customer: 'cus_1', subscription: 'sub_1' });
+
+    expect(result).toEqual({ reset: true });
+    expect(mockQueryOne.mock.calls[0]![1]).toContain('stripe_customer_id = ?');
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'subscriptions',
+      expect.objectContaining({ status: 'active', dunning_stage: 0, past_due_since: null }),
+      'id = ?',
+      [subId],
+    );
+    expect(mockUpdate.mock.calls[0]![2]).not.toHaveProperty('plan');
+    expect(mockInsert).toHaveBeenCalledWith(
+      mockDb,
+      'audit_logs',
+      expect.objectContaining({ action: 'billing.dunning_reset', target_id: subId }),
+    );
+  });
+
+  it('restores the plan and the sites dunning downgraded', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      id: subId,
+      org_id: orgId,
+      status: 'past_due',
+      dunning_stage: 5,
+    });
+
+    await handleInvoicePaid(mockDb, { customer: 'cus_1', metadata: { org_id: orgId } });
+
+    expect(mockUpdate.mock.calls[0]![2]).toMatchObject({ plan: 'paid', status: 'active' });
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'sites',
+      { plan: 'paid', dunning_downgraded: 0 },
+      'org_id = ? AND dunning_downgraded = 1',
+      [orgId],
+    );
+  });
+
+  it('is a no-op for subscriptions in good standing', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      id: subId,
+      org_id: orgId,
+      status: 'active',
+      dunning_stage: 0,
+    });
+
+    const result = await handleInvoicePaid(mockDb, { customer: 'cus_1' });
+
+    expect(result).toEqual({ reset: false });
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// grantIncludedCredits
+// ---------------------------------------------------------------------------
+describe('grantIncludedCredits', () => {
+  it("grants a month of the tier's credits when a period opens", async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      org_id: 'org_1',
+      plan: 'paid',
+      tier: 'starter',
+      billing_interval: 'month',
+    });
+
+    const result = await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_1',
+      customer: 'cus_1',
+      billing_reason: 'subscription_cycle',
+    });
+
+    expect(result).toEqual({ granted: 100 });
+    expect(mockGrant).toHaveBeenCalledWith(mockEnv, {
+      orgId: 'org_1',
+      amount: 100,
+      stripeInvoiceId: 'in_1',
+      reason: 'plan_starter',
+    });
+  });
+
+  it('grants from the subscription metadata before checkout has marked the org paid', async () => {
+    const result = await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_1',
+      customer: 'cus_1',
+      billing_reason: 'subscription_create',
+      subscription_details: { metadata: { org_id: 'org_1', tier: 'agency', interval: 'month' } },
+    });
+
+    expect(result.granted).toBeGreaterThan(0);
+    expect(mockQueryOne).not.toHaveBeenCalled();
+    expect(mockGrant).toHaveBeenCalledWith(
+      mockEnv,
+      expect.objectContaining({ orgId: 'org_1', reason: 'plan_agency' }),
+    );
+  });
+
+  it('grants a year when a monthly plan moves to yearly', async () => {
+    const result = await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_1',
+      customer: 'cus_1',
+      billing_reason: 'subscription_update',
+      subscription_details: { metadata: { org_id: 'org_1', tier: 'starter', interval: 'year' } },
+    });
+
+    expect(result).toEqual({ granted: 100 * 12 });
+  });
+
+  it('grants a year up front on annual billing, Pro for legacy rows', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      org_id: 'org_1',
+      plan: 'paid',
+      tier: null,
+      billing_interval: 'year',
+    });
+
+    const result = await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_1',
+      customer: 'cus_1',
+      billing_reason: 'subscription_create',
+    });
+
+    expect(result).toEqual({ granted: 500 * 12 });
+  });
+
+  it('grants nothing for proration invoices', async () => {
+    const result = await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_1',
+      customer: 'cus_1',
+      billing_reason: 'subscription_update',
+      subscription_details: { metadata: { org_id: 'org_1', tier: 'pro', interval: 'month' } },
+    });
+
+    expect(result).toEqual({ granted: 0 });
+    expect(mockGrant).not.toHaveBeenCalled();
+
+    await grantIncludedCredits(mockDb, mockEnv, {
+      id: 'in_2',
+      customer: 'cus_1',
+      billing_reason: 'manual',
+    });
+    expect(mockQueryOne).not.toHaveBeenCalled();
+    expect(mockGrant).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// changeSubscriptionPlan
+// ---------------------------------------------------------------------------
+describe('changeSubscriptionPlan', () => {
+  const sub = {
+    id: 'row_1',
+    plan: 'paid',
+    status: 'active',
+    stripe_subscription_id: 'sub_1',
+    tier: 'pro',
+    billing_interval: 'month',
+  };
+
+  function mockStripe() {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: { data: [{ id: 'si_1', price: { id: 'price_old', product: 'prod_1' } }] },
+        }),
+        text: async () => '',
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ items: { data: [{ price: { id: 'price_new' } }] } }),
+        text: async () => '',
+      });
+  }
+
+  it('swaps the price on the item with prorations', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(sub)
+      .mockResolvedValueOnce({ count: 3 })
+      .mockResolvedValueOnce({ count: 2 });
+    mockStripe();
+
+    const result = await changeSubscriptionPlan(mockDb, mockEnv, 'org_1', {
+      tier: 'agency',
+      interval: 'year',
+    });
+
+    expect(result).toEqual({
+      previous: { tier: 'pro', interval: 'month' },
+      current: { tier: 'agency', interval: 'year' },
+      changed: true,
+    });
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('https://api.stripe.com/v1/subscriptions/sub_1');
+    const body = init.body as URLSearchParams;
+    expect(body.get('items[0][id]')).toBe('si_1');
+    expect(body.get('proration_behavior')).toBe('create_prorations');
+    expect(body.get('items[0][price_data][product]')).toBe('prod_1');
+    expect(body.get('items[0][price_data][unit_amount]')).toBe('150000');
+    expect(body.get('metadata[tier]')).toBe('agency');
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'subscriptions',
+      { tier: 'agency', billing_interval: 'year', stripe_price_id: 'price_new' },
+      'id = ?',
+      ['row_1'],
+    );
+  });
+
+  it('does nothing when the plan is unchanged', async () => {
+    mockQueryOne.mockResolvedValueOnce(sub);
+
+    const result = await changeSubscriptionPlan(mockDb, mockEnv, 'org_1', {
+      tier: 'pro',
+      interval: 'month',
+    });
+
+    expect(result.changed).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses a downgrade while over the lower tier limits', async () => {
+    mockQueryOne.mockResolvedValueOnce(sub).mockResolvedValueOnce({ count: 4 });
+
+    await expect(
+      changeSubscriptionPlan(mockDb, mockEnv, 'org_1', { tier: 'starter', interval: 'month' }),
+    ).rejects.toThrow('Remove 3 custom domains before moving to Starter');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends orgs without a subscription to checkout', async () => {
+    mockQueryOne.mockResolvedValueOnce({ ...sub, plan: 'free', stripe_subscription_id: null });
+
+    await expect(
+      changeSubscriptionPlan(mockDb, mockEnv, 'org_1', { tier: 'starter', interval: 'month' }),
+    ).rejects.toThrow(/Start a checkout/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/billing/plan
+// ---------------------------------------------------------------------------
+describe('POST /api/billing/plan', () => {
+  function changePlan(vars: Partial<Variables>) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      c.set('userId', 'user-1');
+      c.set('orgId', 'org-1');
+      if (vars.userRole) c.set('userRole', vars.userRole);
+      if (vars.billingAdmin) c.set('billingAdmin', vars.billingAdmin);
+      await next();
+    });
+    app.route('/', api);
+    return app.request(
+      '/api/billing/plan',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier: 'agency', interval: 'year' }),
+      },
+      { ...mockEnv, DB: mockDb },
+    );
+  }
+
+  it('refuses viewers without touching the subscription', async () => {
+    const res = await changePlan({ userRole: 'viewer' });
+    expect(res.status).toBe(403);
+    expect(mockQueryOne).not.toHaveBeenCalled();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('lets billing admins through', async () => {
+    // No subscription row, so the change itself is refused
+    const res = await changePlan({ userRole: 'viewer', billingAdmin: true });
+    expect(res.status).toBe(400);
+    expect(mockQueryOne).toHaveBeenCalled();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // getOrgEntitlements
 // ---------------------------------------------------------------------------
@@ -501,13 +988,25 @@ describe('getOrgEntitlements', () => {
     expect(result).toEqual({
       org_id: 'org_1',
       plan: 'paid',
+      tier: 'pro',
       topBarHidden: true,
       maxCustomDomains: 10,
       chatEnabled: true,
       analyticsEnabled: true,
+      maxStorageMb: 500,
+      aiCreditsPerMonth: 500,
+      teamSeats: 3,
     });
   });
 
+  it("returns the subscription tier's entitlements", async () => {
+    mockQueryOne.mockResolvedValueOnce({ plan: 'paid', status: 'active', tier: 'agency' });
+
+    const result = await getOrgEntitlements(mockDb, 'org_1');
+
+    expect(result).toMatchObject({ plan: 'paid', tier: 'agency', maxCustomDomains: 50 });
+  });
+
   it('returns free entitlements when sub is free', async () => {
     mockQueryOne.mockResolvedValueOnce({ plan: 'free', status: 'active' });
 
@@ -516,10 +1015,14 @@ describe('getOrgEntitlements', () => {
     expect(result).toEqual({
       org_id: 'org_1',
       plan: 'free',
+      tier: 'free',
       topBarHidden: false,
       maxCustomDomains: 0,
       chatEnabled: true,
       analyticsEnabled: false,
+      maxStorageMb: 100,
+      aiCreditsPerMonth: 0,
+      teamSeats: 1,
     });
   });
 
@@ -531,10 +1034,14 @@ describe('getOrgEntitlements', () => {
     expect(result).toEqual({
       org_id: 'org_1',
       plan: 'free',
+      tier: 'free',
       topBarHidden: false,
       maxCustomDomains: 0,
       chatEnabled: true,
       analyticsEnabled: false,
+      maxStorageMb: 100,
+      aiCreditsPerMonth: 0,
+      teamSeats: 1,
     });
   });
 });
@@ -557,6 +1064,8 @@ describe('getOrgSubscription', () => {
 
     expect(result).toEqual({
       plan: 'paid',
+      tier: null,
+      billing_interval: null,
       status: 'active',
       stripe_customer_id: 'cus_1',
       stripe_subscription_id: 'sub_1',
@@ -615,3 +1124,50 @@ describe('createBillingPortalSession', () => {
     ).rejects.toThrow('Failed to create billing portal');
   });
 });
+
+// ---------------------------------------------------------------------------
+// refundCheckoutCharge
+// ---------------------------------------------------------------------------
+describe('refundCheckoutCharge', () => {
+  it("refunds a subscription checkout through its first invoice's payment", async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ payment_intent: null, invoice: { payment_intent: 'pi_1' } }),
+        text: async () => '',
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 're_1' }),
+        text: async () => '',
+      });
+
+    const refundId = await refundCheckoutCharge(mockEnv, 'cs_1', 2598, {
+      domain_order_id: 'order-1',
+    });
+
+    expect(refundId).toBe('re_1');
+    expect((global.fetch as jest.Mock).mock.calls[0]![0]).toBe(
+      'https://api.stripe.com/v1/checkout/sessions/cs_1?expand[]=invoice',
+    );
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[1]!;
+    expect(url).toBe('https://api.stripe.com/v1/refunds');
+    const body = init.body as URLSearchParams;
+    expect(body.get('payment_intent')).toBe('pi_1');
+    expect(body.get('amount')).toBe('2598');
+    expect(body.get('metadata[domain_order_id]')).toBe('order-1');
+  });
+
+  it('throws when the session has no payment', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ payment_intent: null, invoice: null }),
+      text: async () => '',
+    });
+
+    await expect(refundCheckoutCharge(mockEnv, 'cs_1', 100)).rejects.toThrow(
+      'has no payment to refund',
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,309 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../lib/sentry.js', () => ({
+  captureError: jest.fn(),
+  captureMessage: jest.fn(),
+  createSentry: jest.fn(),
+}));
+
+jest.mock('../lib/posthog.js', () => ({
+  capture: jest.fn(),
+  trackAuth: jest.fn(),
+  trackSite: jest.fn(),
+  trackError: jest.fn(),
+}));
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { api } from '../routes/api.js';
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import {
+  buildingPercent,
+  buildStreamEventId,
+  finishBuildStream,
+  LOG_TAIL_LINES,
+  loadBuildStream,
+  recordBuildLog,
+  recordBuildProgress,
+  snapshotFromAudit,
+  trimLogTail,
+} from '../services/build_stream.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+
+const db = {} as D1Database;
+const SITE = { id: 'site-1', org_id: 'org-1', status: 'generating' };
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+function liveRow(overrides: Record<string, unknown> = {}) {
+  return {
+    site_id: 'site-1',
+    build_id: 'wf-1',
+    phase: 'building',
+    step: 'claude-code',
+    percent: 30,
+    log_tail: 'Writing Hero.tsx\nWriting Menu.tsx',
+    started_at: '2026-03-01T11:50:00.000Z',
+    updated_at: '2026-03-01T11:59:30.000Z',
+    terminal_status: null,
+    ...overrides,
+  };
+}
+
+function audit(action: string, meta: Record<string, unknown>, created_at: string) {
+  return { action, metadata_json: JSON.stringify(meta), created_at };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+describe('buildingPercent', () => {
+  it('advances through Claude Code time and pins later container steps', () => {
+    expect(buildingPercent('claude-code', 0)).toBe(10);
+    expect(buildingPercent('claude-code', 450)).toBe(35);
+    expect(buildingPercent('claude-code', 5000)).toBe(60);
+    expect(buildingPercent('npm-build')).toBe(65);
+    expect(buildingPercent('r2-upload')).toBe(75);
+  });
+});
+
+describe('trimLogTail', () => {
+  it('keeps the last lines, drops blanks and caps line length', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `line ${i}`);
+    const tail = trimLogTail([...lines, '', 'x'.repeat(500)])!.split('\n');
+    expect(tail).toHaveLength(LOG_TAIL_LINES);
+    expect(tail[0]).toBe('line 11');
+    expect(tail[tail.length - 1]).toHaveLength(300);
+    expect(trimLogTail('\n  \n')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+describe('recordBuildProgress', () => {
+  it('upserts on site_id, resetting the row for a new build', async () => {
+    await recordBuildProgress(db, { siteId: 'site-1', buildId: 'wf-1', phase: 'validating' });
+
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('ON CONFLICT(site_id) DO UPDATE');
+    expect(sql).toContain('ELSE excluded.started_at');
+    expect(params!.slice(0, 6)).toEqual(['site-1', 'wf-1', 'validating', null, 88, null]);
+  });
+
+  it('never reports 100% before the build is finished', async () => {
+    await recordBuildProgress(db, {
+      siteId: 'site-1',
+      buildId: 'wf-1',
+      phase: 'building',
+      percent: 140,
+      logTail: ['npm run build'],
+    });
+    expect(mockExecute.mock.calls[0]![2]!.slice(4, 6)).toEqual([99, 'npm run build']);
+  });
+
+  it('keeps phase and percent from moving backwards within a build', async () => {
+    await recordBuildProgress(db, { siteId: 'site-1', buildId: 'wf-1', phase: 'starting' });
+    const sql = mockExecute.mock.calls[0]![1];
+    expect(sql).toContain('excluded.percent < build_stream_state.percent');
+    expect(sql).toContain('MAX(build_stream_state.percent, excluded.percent)');
+  });
+
+  it('logs instead of throwing when D1 fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockExecute.mockResolvedValueOnce({ error: 'D1 unavailable', changes: 0 });
+    await expect(
+      recordBuildProgress(db, { siteId: 'site-1', buildId: 'wf-1', phase: 'assets' }),
+    ).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('finishBuildStream', () => {
+  it('only finishes the row for the same build', async () => {
+    await finishBuildStream(db, {
+      siteId: 'site-1',
+      buildId: 'wf-1',
+      status: 'error',
+      step: 'stale',
+    });
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('WHERE site_id = ? AND build_id = ?');
+    expect(params!.slice(-2)).toEqual(['site-1', 'wf-1']);
+    expect(params![0]).toBe('error');
+  });
+});
+
+describe('recordBuildLog', () => {
+  it('updates only an in-flight building row for the slug', async () => {
+    await recordBuildLog(db, { slug: 'acme', step: 'npm-build', logTail: ['added 512 packages'] });
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain("phase = 'building' AND terminal_at IS NULL");
+    expect(params).toEqual(['npm-build', 'added 512 packages', expect.any(String), 'acme']);
+  });
+
+  it('skips empty callbacks', async () => {
+    await recordBuildLog(db, { slug: 'acme', logTail: [] });
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Readers
+// ---------------------------------------------------------------------------
+describe('snapshotFromAudit', () => {
+  it('rebuilds phase, percent and log lines from the latest run only', () => {
+    const snapshot = snapshotFromAudit('site-1', [
+      audit(
+        'workflow.heartbeat',
+        { step: 'claude-code', elapsed_seconds: 450, message: 'heartbeat 5' },
+        '2026-03-01T11:05:00',
+      ),
+      audit(
+        'workflow.build_started',
+        { message: 'Claude Code build started' },
+        '2026-03-01T11:01:00',
+      ),
+      audit('workflow.started', { message: 'AI build workflow started' }, '2026-03-01T11:00:00'),
+      audit('workflow.complete', { message: 'previous build' }, '2026-02-01T10:00:00'),
+    ]);
+
+    expect(snapshot).toEqual(
+      expect.objectContaining({
+        phase: 'building',
+        step: 'claude-code',
+        percent: 35,
+        started_at: '2026-03-01T11:00:00',
+        terminal_status: null,
+        source: 'audit',
+        log_lines: ['AI build workflow started', 'Claude Code build started', 'heartbeat 5'],
+      }),
+    );
+  });
+
+  it('keeps the progress reached before a failure', () => {
+    const snapshot = snapshotFromAudit('site-1', [
+      audit('workflow.timeout', { message: 'Build timed out' }, '2026-03-01T12:00:00'),
+      audit('workflow.heartbeat', { step: 'npm-build' }, '2026-03-01T11:40:00'),
+      audit('workflow.started', {}, '2026-03-01T11:00:00'),
+    ]);
+    expect(snapshot).toEqual(
+      expect.objectContaining({ phase: 'error', percent: 65, terminal_status: 'error' }),
+    );
+  });
+
+  it('returns null without workflow entries', () => {
+    expect(snapshotFromAudit('site-1', [audit('site.created', {}, '2026-03-01')])).toBeNull();
+  });
+});
+
+describe('loadBuildStream', () => {
+  it('serves a fresh live row without touching the audit log', async () => {
+    mockQueryOne.mockResolvedValueOnce(liveRow());
+    const snapshot = await loadBuildStream(db, SITE, NOW);
+    expect(snapshot).toEqual(
+      expect.objectContaining({
+        source: 'live',
+        percent: 30,
+        log_lines: ['Writing Hero.tsx', 'Writing Menu.tsx'],
+      }),
+    );
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the audit log when the row is stale', async () => {
+    mockQueryOne.mockResolvedValueOnce(liveRow({ updated_at: '2026-03-01T11:00:00.000Z' }));
+    mockQuery.mockResolvedValueOnce({
+      data: [audit('workflow.build_complete', {}, '2026-03-01T11:58:00')],
+      error: null,
+    });
+
+    const snapshot = await loadBuildStream(db, SITE, NOW);
+
+    expect(snapshot).toEqual(
+      expect.objectContaining({ source: 'audit', phase: 'validating', build_id: 'wf-1' }),
+    );
+    expect(mockQuery.mock.calls[0]![2]).toEqual(['org-1', 'site-1']);
+  });
+
+  it('falls back to the site status when nothing else is known', async () => {
+    const snapshot = await loadBuildStream(db, { ...SITE, status: 'published' }, NOW);
+    expect(snapshot).toEqual(
+      expect.objectContaining({ phase: 'published', percent: 100, terminal_status: 'published' }),
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/sites/:id/build/live
+// ---------------------------------------------------------------------------
+describe('GET /api/sites/:id/build/live', () => {
+  function createApp(orgId?: string) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (orgId) c.set('orgId', orgId);
+      await next();
+    });
+    app.route('/', api);
+    return app;
+  }
+  const env = { DB: db } as unknown as Env;
+
+  it('requires authentication', async () => {
+    const res = await createApp().request('/api/sites/site-1/build/live', {}, env);
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 for a site outside the org', async () => {
+    const res = await createApp('org-1').request('/api/sites/site-1/build/live', {}, env);
+    expect(res.status).toBe(404);
+  });
+
+  it('streams the snapshot and ends once the build is terminal', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(SITE)
+      .mockResolvedValueOnce(
+        liveRow({ phase: 'published', percent: 100, terminal_status: 'published' }),
+      );
+
+    const res = await createApp('org-1').request('/api/sites/site-1/build/live', {}, env);
+    const body = await res.text();
+
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(body).toContain('event: progress');
+    expect(body).toContain('"percent":100');
+    expect(body).toContain('event: end\ndata: published');
+  });
+
+  it('skips a snapshot the client already has', async () => {
+    const row = liveRow({ phase: 'published', percent: 100, terminal_status: 'published' });
+    mockQueryOne.mockResolvedValueOnce(row);
+    const lastId = buildStreamEventId(await loadBuildStream(db, SITE, NOW));
+
+    mockQueryOne.mockResolvedValueOnce(SITE).mockResolvedValueOnce(row);
+    const res = await createApp('org-1').request(
+      '/api/sites/site-1/build/live',
+      { headers: { 'Last-Event-ID': lastId } },
+      env,
+    );
+    const body = await res.text();
+
+    expect(body).not.toContain('event: progress');
+    expect(body).toContain('event: end');
+  });
+});
@@ -13,6 +13,7 @@ import {
   validateLightboxPresence,
   validateRequiredFiles,
   validateRouteCount,
+  validateSiteRules,
   validateBuild,
   type BuildFile,
 } from '../services/build_validators';
@@ -347,6 +348,36 @@ describe('validateRouteCount', () => {
   });
 });
 
+describe('validateSiteRules', () => {
+  it('passes well-formed rule files', () => {
+    const v = validateSiteRules([
+      file('_redirects', '# moved\n/old  /new  301\n/app/*  /app/index.html  200\n'),
+      file('_headers', '/*\n  X-Frame-Options: DENY\n'),
+    ]);
+    expect(v).toEqual([]);
+  });
+
+  it('reports each bad line with its line number', () => {
+    const v = validateSiteRules([
+      file('_redirects', '/ok  /fine\n/bad  /target  999\n'),
+      file('_headers', '/*\n  Set-Cookie: a=b\n'),
+    ]);
+    expect(v.map((x) => x.code)).toEqual(['rules.redirect_invalid', 'rules.header_invalid']);
+    expect(v[0].message).toContain('_redirects line 2');
+    expect(v[1].message).toContain('Set-Cookie');
+    expect(v.every((x) => x.severity === 'error')).toBe(true);
+  });
+
+  it('rejects oversized rule files', () => {
+    const v = validateSiteRules([file('_redirects', '#'.repeat(65 * 1024))]);
+    expect(v[0].code).toBe('rules.too_large');
+  });
+
+  it('ignores rule files outside the build root', () => {
+    expect(validateSiteRules([file('docs/_redirects', 'nonsense')])).toEqual([]);
+  });
+});
+
 describe('validateBuild (integration)', () => {
   it('passes a complete build', () => {
     const report = validateBuild(completeBuild());
@@ -0,0 +1,224 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/cf_analytics.js', () => ({
+  loadSiteBandwidth: jest.fn().mockResolvedValue(new Map()),
+}));
+
+import { dbExecute, dbQuery } from '../services/db.js';
+import { loadSiteBandwidth } from '../services/cf_analytics.js';
+import {
+  COST_ROLLUP_MARKER_KEY,
+  DEFAULT_COST_PRICES,
+  daysInRange,
+  estimateCostMicroUsd,
+  resolveCostPrices,
+  rollupSiteCosts,
+  runNightlyCostRollup,
+} from '../services/cost_rollup.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockBandwidth = loadSiteBandwidth as jest.MockedFunction<typeof loadSiteBandwidth>;
+
+const GIB = 1024 ** 3;
+const SITE = { id: 'site-1', org_id: 'org-1', slug: 'acme' };
+
+function makeEnv(objects: { size: number; uploaded: string }[] = []) {
+  const kv = new Map<string, string>();
+  return {
+    DB: {} as D1Database,
+    SITES_BUCKET: {
+      list: jest.fn().mockResolvedValue({
+        objects: objects.map((o) => ({ size: o.size, uploaded: new Date(o.uploaded) })),
+        truncated: false,
+      }),
+    },
+    CACHE_KV: {
+      get: jest.fn(async (k: string) => kv.get(k) ?? null),
+      put: jest.fn(async (k: string, v: string) => void kv.set(k, v)),
+    },
+  } as any;
+}
+
+/** Queue the sites / credits / calls aggregates in query order. */
+function queueAggregates(
+  credits: { site_id: string; day: string; credits: number }[] = [],
+  calls: { site_id: string; day: string; calls: number }[] = [],
+) {
+  mockQuery
+    .mockResolvedValueOnce({ data: [SITE], error: null })
+    .mockResolvedValueOnce({ data: credits, error: null })
+    .mockResolvedValueOnce({ data: calls, error: null });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+describe('resolveCostPrices', () => {
+  it('merges valid overrides over the defaults', () => {
+    expect(
+      resolveCostPrices({ SITE_COST_PRICES: '{"bandwidthGb": 45000, "aiCall": -1, "bogus": 3}' }),
+    ).toEqual({
+      ...DEFAULT_COST_PRICES,
+      bandwidthGb: 45000,
+    });
+  });
+
+  it('falls back to the defaults on malformed JSON', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(resolveCostPrices({ SITE_COST_PRICES: 'nope' })).toEqual(DEFAULT_COST_PRICES);
+    warn.mockRestore();
+  });
+});
+
+describe('estimateCostMicroUsd', () => {
+  it('prices credits, calls, bandwidth and a day of storage', () => {
+    const usage = { ai_credits: 3, ai_calls: 2, bandwidth_bytes: 2 * GIB, storage_bytes: 30 * GIB };
+    expect(estimateCostMicroUsd(usage, DEFAULT_COST_PRICES)).toBe(3_000 + 200 + 20_000 + 15_000);
+  });
+
+  it('never goes negative when refunds outweigh spend', () => {
+    const usage = { ai_credits: -5, ai_calls: 0, bandwidth_bytes: 0, storage_bytes: 0 };
+    expect(estimateCostMicroUsd(usage, DEFAULT_COST_PRICES)).toBe(0);
+  });
+});
+
+describe('daysInRange', () => {
+  it('is inclusive and crosses month boundaries', () => {
+    expect(daysInRange('2026-02-27', '2026-03-01')).toEqual([
+      '2026-02-27',
+      '2026-02-28',
+      '2026-03-01',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// rollupSiteCosts
+// ---------------------------------------------------------------------------
+describe('rollupSiteCosts', () => {
+  it('upserts one row per site-day with usage from every source', async () => {
+    const env = makeEnv([
+      { size: 1000, uploaded: '2026-02-28T10:00:00Z' },
+      { size: 500, uploaded: '2026-03-01T10:00:00Z' },
+    ]);
+    queueAggregates(
+      [{ site_id: 'site-1', day: '2026-03-01', credits: 4 }],
+      [{ site_id: 'site-1', day: '2026-03-01', calls: 5 }],
+    );
+    mockBandwidth.mockResolvedValueOnce(new Map([['site-1|2026-03-01', 2048]]));
+
+    const result = await rollupSiteCosts(env, { from: '2026-02-28', to: '2026-03-01' });
+
+    expect(result).toEqual({ days: 2, rows: 2, failed: 0 });
+    expect(env.SITES_BUCKET.list).toHaveBeenCalledTimes(1);
+    expect(env.SITES_BUCKET.list).toHaveBeenCalledWith({
+      prefix: 'sites/acme/',
+      cursor: undefined,
+    });
+    const [, sql, first] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('ON CONFLICT(site_id, day) DO UPDATE');
+    expect(first!.slice(0, 7)).toEqual(['site-1', 'org-1', '2026-02-28', 0, 0, 0, 1000]);
+    expect(mockExecute.mock.calls[1]![2]!.slice(0, 7)).toEqual([
+      'site-1',
+      'org-1',
+      '2026-03-01',
+      4,
+      5,
+      2048,
+      1500,
+    ]);
+  });
+
+  it('scopes every aggregate to the org when backfilling for one org', async () => {
+    queueAggregates();
+    await rollupSiteCosts(makeEnv(), { from: '2026-03-01', to: '2026-03-01', orgId: 'org-1' });
+    for (const [, sql, params] of mockQuery.mock.calls) {
+      expect(sql).toContain('org_id = ?');
+      expect(params![params!.length - 1]).toBe('org-1');
+    }
+    expect(mockQuery.mock.calls[1]![2]).toEqual(['2026-03-01', '2026-03-02', 'org-1']);
+  });
+
+  it('skips empty site-days', async () => {
+    queueAggregates();
+    const result = await rollupSiteCosts(makeEnv(), { from: '2026-03-01', to: '2026-03-01' });
+    expect(result.rows).toBe(0);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('records zero bandwidth when Analytics Engine is unavailable', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    queueAggregates([{ site_id: 'site-1', day: '2026-03-01', credits: 1 }]);
+    mockBandwidth.mockRejectedValueOnce(new Error('CF_ACCOUNT_ID + CF_API_TOKEN required'));
+
+    const result = await rollupSiteCosts(makeEnv(), { from: '2026-03-01', to: '2026-03-01' });
+
+    expect(result.rows).toBe(1);
+    expect(mockExecute.mock.calls[0]![2]![5]).toBe(0);
+    warn.mockRestore();
+  });
+
+  it('throws instead of writing zeros when an aggregate fails', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ data: [SITE], error: null })
+      .mockResolvedValueOnce({ data: [], error: 'D1 unavailable' });
+    await expect(
+      rollupSiteCosts(makeEnv(), { from: '2026-03-01', to: '2026-03-01' }),
+    ).rejects.toThrow('Failed to aggregate AI credits');
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runNightlyCostRollup
+// ---------------------------------------------------------------------------
+describe('runNightlyCostRollup', () => {
+  const NOW = new Date('2026-03-10T00:15:00.000Z');
+
+  it('rolls up yesterday once and records the marker', async () => {
+    const env = makeEnv();
+    queueAggregates();
+
+    const first = await runNightlyCostRollup(env, NOW);
+    expect(first).toEqual(expect.objectContaining({ from: '2026-03-09', to: '2026-03-09' }));
+    expect(env.CACHE_KV.put).toHaveBeenCalledWith(COST_ROLLUP_MARKER_KEY, '2026-03-09');
+
+    expect(await runNightlyCostRollup(env, NOW)).toBeNull();
+  });
+
+  it('catches up on missed days, at most a week back', async () => {
+    const env = makeEnv();
+    await env.CACHE_KV.put(COST_ROLLUP_MARKER_KEY, '2026-03-06');
+    queueAggregates();
+    expect(await runNightlyCostRollup(env, NOW)).toEqual(
+      expect.objectContaining({ from: '2026-03-07' }),
+    );
+
+    await env.CACHE_KV.put(COST_ROLLUP_MARKER_KEY, '2026-01-01');
+    queueAggregates();
+    expect(await runNightlyCostRollup(env, NOW)).toEqual(
+      expect.objectContaining({ from: '2026-03-03' }),
+    );
+  });
+
+  it('leaves the marker alone when a site fails so the next tick retries', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const env = makeEnv();
+    env.SITES_BUCKET.list.mockRejectedValueOnce(new Error('R2 unavailable'));
+    queueAggregates();
+
+    const result = await runNightlyCostRollup(env, NOW);
+
+    expect(result?.failed).toBe(1);
+    expect(env.CACHE_KV.put).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -30,6 +30,12 @@ describe('Dockerfile orchestrator wiring', () => {
     );
   });
 
+  it('copies site_rules.ts next to build_validators.ts, which imports it', () => {
+    expect(dockerfile).toMatch(
+      /COPY\s+src\/services\/site_rules\.ts\s+\/home\/cuser\/site_rules\.ts/,
+    );
+  });
+
   it('copies run-validators.mjs into the container', () => {
     expect(dockerfile).toMatch(
       /COPY\s+scripts\/run-validators\.mjs\s+\/home\/cuser\/run-validators\.mjs/,
@@ -692,4 +692,36 @@ describe('GET /api/admin/domains/summary', () => {
     expect(body.data).toHaveProperty('by_status');
     expect(body.data).toHaveProperty('by_type');
   });
+
+  it('includes health counts and the recent health-check history', async () => {
+    mockDbQuery
+      .mockResolvedValueOnce({
+        data: [{ total: 2, active: 2, custom_cname: 2, healthy: 1, degraded: 1 }],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          {
+            hostname_id: 'h-1',
+            hostname: 'shop.vitos.com',
+            health_status: 'degraded',
+            problems: '["dns_moved"]',
+            checked_at: '2026-10-18T12:00:00Z',
+          },
+        ],
+        error: null,
+      });
+
+    const { app, env } = createAuthenticatedApp({
+      userId: 'user-1',
+      orgId: 'org-1',
+    });
+
+    const res = await makeRequest(app, env, '/api/admin/domains/summary');
+    const body = await res.json();
+    expect(body.data.by_health).toEqual({ healthy: 1, degraded: 1 });
+    expect(body.data.health_history).toEqual([
+      expect.objectContaining({ hostname: 'shop.vitos.com', problems: ['dns_moved'] }),
+    ]);
+  });
 });
@@ -0,0 +1,170 @@
+import {
+  buildDnsInstructions,
+  checkOwnershipChallenge,
+  detectDnsProvider,
+  dohResolver,
+  isApexDomain,
+  ownershipChallenge,
+  pairedHostname,
+  splitHostname,
+  type DnsRecordType,
+  type DnsResolver,
+} from '../services/domain_dns.js';
+
+/** In-memory DNS keyed by `${type} ${name}`. */
+function fakeDns(records: Record<string, string[]>): DnsResolver {
+  return {
+    async resolve(name: string, type: DnsRecordType) {
+      return records[`${type} ${name}`] ?? [];
+    },
+  };
+}
+
+const TOKEN = '0123456789abcdef0123456789abcdef';
+
+describe('hostname helpers', () => {
+  it('splits registrable domains, including two-label suffixes', () => {
+    expect(splitHostname('Vitos.com')).toEqual({ apex: 'vitos.com', host: '@' });
+    expect(splitHostname('shop.eu.vitos.com')).toEqual({ apex: 'vitos.com', host: 'shop.eu' });
+    expect(splitHostname('www.vitos.co.uk')).toEqual({ apex: 'vitos.co.uk', host: 'www' });
+    expect(isApexDomain('vitos.co.uk')).toBe(true);
+    expect(isApexDomain('www.vitos.com')).toBe(false);
+  });
+
+  it('pairs apex and www only', () => {
+    expect(pairedHostname('vitos.com')).toBe('www.vitos.com');
+    expect(pairedHostname('www.vitos.co.uk')).toBe('vitos.co.uk');
+    expect(pairedHostname('shop.vitos.com')).toBeNull();
+  });
+});
+
+describe('ownership challenge', () => {
+  it('puts www challenges on the apex', () => {
+    expect(ownershipChallenge('www.vitos.com', TOKEN)).toEqual({
+      name: '_projectsites-challenge.vitos.com',
+      value: `projectsites-verification=${TOKEN}`,
+    });
+    expect(ownershipChallenge('shop.vitos.com', TOKEN).name).toBe(
+      '_projectsites-challenge.shop.vitos.com',
+    );
+  });
+
+  it('verifies only the exact value and reports what it found', async () => {
+    const dns = fakeDns({
+      'TXT _projectsites-challenge.vitos.com': ['google-site-verification=x'],
+    });
+    const missing = await checkOwnershipChallenge('vitos.com', TOKEN, dns);
+    expect(missing.verified).toBe(false);
+    expect(missing.found).toEqual(['google-site-verification=x']);
+
+    const ok = await checkOwnershipChallenge(
+      'www.vitos.com',
+      TOKEN,
+      fakeDns({
+        'TXT _projectsites-challenge.vitos.com': [` projectsites-verification=${TOKEN}`],
+      }),
+    );
+    expect(ok.verified).toBe(true);
+  });
+});
+
+describe('buildDnsInstructions', () => {
+  const SITES_A = { 'A projectsites.dev': ['104.21.0.1', '172.67.0.1'] };
+
+  it('detects the provider from NS records', async () => {
+    const dns = fakeDns({ 'NS vitos.com': ['DNS1.REGISTRAR-SERVERS.COM'] });
+    expect((await detectDnsProvider('vitos.com', dns)).id).toBe('namecheap');
+    expect((await detectDnsProvider('other.com', dns)).id).toBe('other');
+  });
+
+  it('uses ALIAS for the apex where supported and CNAME for www', async () => {
+    const dns = fakeDns({ 'NS vitos.com': ['dns1.registrar-servers.com'] });
+    const result = await buildDnsInstructions(['vitos.com', 'www.vitos.com'], TOKEN, dns);
+
+    expect(result.provider).toEqual({ id: 'namecheap', name: 'Namecheap' });
+    expect(result.records).toEqual([
+      {
+        type: 'TXT',
+        host: '_projectsites-challenge',
+        name: '_projectsites-challenge.vitos.com',
+        value: `projectsites-verification=${TOKEN}`,
+        purpose: 'ownership',
+      },
+      {
+        type: 'ALIAS',
+        host: '@',
+        name: 'vitos.com',
+        value: 'projectsites.dev',
+        purpose: 'routing',
+      },
+      {
+        type: 'CNAME',
+        host: 'www',
+        name: 'www.vitos.com',
+        value: 'projectsites.dev',
+        purpose: 'routing',
+      },
+    ]);
+  });
+
+  it('falls back to A records for providers without ALIAS', async () => {
+    const dns = fakeDns({ 'NS vitos.com': ['ns01.domaincontrol.com'], ...SITES_A });
+    const result = await buildDnsInstructions(['vitos.com'], TOKEN, dns);
+
+    expect(result.provider.id).toBe('godaddy');
+    expect(result.records.filter((r) => r.purpose === 'routing')).toEqual([
+      { type: 'A', host: '@', name: 'vitos.com', value: '104.21.0.1', purpose: 'routing' },
+      { type: 'A', host: '@', name: 'vitos.com', value: '172.67.0.1', purpose: 'routing' },
+    ]);
+    expect(result.notes[0]).toMatch(/remove any other A or AAAA records/);
+  });
+
+  it('uses a flattened CNAME on Cloudflare and ANAME on DNS Made Easy', async () => {
+    const cf = await buildDnsInstructions(
+      ['vitos.com'],
+      TOKEN,
+      fakeDns({ 'NS vitos.com': ['ada.ns.cloudflare.com'] }),
+    );
+    expect(cf.records[1]).toMatchObject({ type: 'CNAME', host: '@' });
+
+    const dme = await buildDnsInstructions(
+      ['vitos.com'],
+      TOKEN,
+      fakeDns({ 'NS vitos.com': ['ns10.dnsmadeeasy.com'] }),
+    );
+    expect(dme.records[1]).toMatchObject({ type: 'ANAME', host: '@' });
+  });
+});
+
+describe('dohResolver', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('filters by type, strips trailing dots and unquotes TXT strings', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        Answer: [
+          { type: 5, data: 'edge.example.net.' },
+          { type: 16, data: '"projectsites-verification=" "abc"' },
+        ],
+      }),
+    }) as any;
+
+    expect(await dohResolver.resolve('vitos.com', 'TXT')).toEqual([
+      'projectsites-verification=abc',
+    ]);
+    expect(await dohResolver.resolve('vitos.com', 'CNAME')).toEqual(['edge.example.net']);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://cloudflare-dns.com/dns-query?name=vitos.com&type=CNAME',
+      { headers: { accept: 'application/dns-json' } },
+    );
+  });
+
+  it('returns no records when the lookup fails', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+    expect(await dohResolver.resolve('vitos.com', 'A')).toEqual([]);
+  });
+});
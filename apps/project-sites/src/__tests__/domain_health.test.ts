@@ -0,0 +1,305 @@
+/**
+ * Tests for the scheduled health sweep of active custom domains.
+ */
+
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 0 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../services/notifications.js', () => ({
+  notifyDomainDegraded: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { dbInsert, dbQuery, dbQueryOne, dbUpdate } from '../services/db.js';
+import { writeAuditLog } from '../services/audit.js';
+import { notifyDomainDegraded } from '../services/notifications.js';
+import {
+  checkHostnameHealth,
+  describeHealthProblems,
+  listHealthHistory,
+  sweepHostnameHealth,
+} from '../services/domain_health.js';
+import type { DnsRecordType, DnsResolver } from '../services/domain_dns.js';
+
+const mockQuery = dbQuery as jest.Mock;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockInsert = dbInsert as jest.Mock;
+const mockUpdate = dbUpdate as jest.Mock;
+const mockNotify = notifyDomainDegraded as jest.Mock;
+const mockAudit = writeAuditLog as jest.Mock;
+
+const env = { DB: {}, CF_API_TOKEN: 'cf-token', CF_ZONE_ID: 'zone' } as any;
+const now = new Date('2026-10-18T12:00:00Z');
+const originalFetch = global.fetch;
+
+function fakeDns(records: Record<string, string[]>): DnsResolver {
+  return {
+    async resolve(name: string, type: DnsRecordType) {
+      return records[`${type} ${name}`] ?? [];
+    },
+  };
+}
+
+const OUR_A = ['104.21.0.1', '172.67.0.1'];
+const healthyDns = fakeDns({
+  'CNAME shop.vitos.com': ['projectsites.dev'],
+  'A vitos.com': ['104.21.0.1'],
+  'A projectsites.dev': OUR_A,
+});
+
+/** Route fetch: Cloudflare API → certificate, anything else → the HTTPS probe. */
+function mockNetwork(opts: { sslStatus?: string; expiresOn?: string; probe?: number | Error }) {
+  global.fetch = jest.fn(async (url: string) => {
+    if (url.startsWith('https://api.cloudflare.com/')) {
+      return {
+        ok: true,
+        json: async () => ({
+          result: {
+            status: 'active',
+            ssl: {
+              status: opts.sslStatus ?? 'active',
+              certificates: [{ expires_on: opts.expiresOn ?? '2027-01-01T00:00:00Z' }],
+            },
+          },
+        }),
+      };
+    }
+    if (opts.probe instanceof Error) throw opts.probe;
+    return { status: opts.probe ?? 200 };
+  }) as any;
+}
+
+const row = {
+  id: 'h-1',
+  org_id: 'org-1',
+  site_id: 'site-1',
+  hostname: 'shop.vitos.com',
+  cf_custom_hostname_id: 'cf-1',
+  health_status: 'healthy',
+  degraded_at: null,
+  health_failures: 0,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockQuery.mockResolvedValue({ data: [], error: null });
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('checkHostnameHealth', () => {
+  it('is healthy when DNS, SSL and HTTPS all check out', async () => {
+    mockNetwork({});
+    const check = await checkHostnameHealth(env, row, healthyDns, OUR_A, now);
+
+    expect(check).toEqual({
+      health_status: 'healthy',
+      dns_target: 'projectsites.dev',
+      ssl_status: 'active',
+      ssl_expires_at: '2027-01-01T00:00:00Z',
+      http_status: 200,
+      problems: [],
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://shop.vitos.com/',
+      expect.objectContaining({ method: 'HEAD', redirect: 'manual' }),
+    );
+  });
+
+  it('accepts apex domains resolving to our addresses', async () => {
+    mockNetwork({});
+    const check = await checkHostnameHealth(
+      env,
+      { ...row, hostname: 'vitos.com' },
+      healthyDns,
+      OUR_A,
+      now,
+    );
+    expect(check.problems).toEqual([]);
+  });
+
+  it('flags DNS drift, a stalled renewal and a dead site', async () => {
+    mockNetwork({ expiresOn: '2026-10-25T00:00:00Z', sslStatus: 'pending_validation', probe: 522 });
+    const check = await checkHostnameHealth(
+      env,
+      row,
+      fakeDns({ 'CNAME shop.vitos.com': ['shops.myshopify.com'] }),
+      OUR_A,
+      now,
+    );
+
+    expect(check.health_status).toBe('degraded');
+    expect(check.problems).toEqual(['dns_moved', 'ssl_inactive', 'ssl_expiring', 'unreachable']);
+    expect(check.dns_target).toBe('shops.myshopify.com');
+  });
+
+  it('does not blame the domain for a Cloudflare API outage', async () => {
+    global.fetch = jest.fn(async (url: string) =>
+      url.startsWith('https://api.cloudflare.com/') ? { ok: false } : { status: 301 },
+    ) as any;
+
+    const check = await checkHostnameHealth(env, row, healthyDns, OUR_A, now);
+    expect(check.problems).toEqual([]);
+    expect(check.ssl_status).toBeNull();
+  });
+});
+
+describe('describeHealthProblems', () => {
+  it('gives apex-specific routing fixes', () => {
+    const [problem] = describeHealthProblems('vitos.com', {
+      health_status: 'degraded',
+      dns_target: '192.0.2.1',
+      ssl_status: 'active',
+      ssl_expires_at: null,
+      http_status: 200,
+      problems: ['dns_moved'],
+    });
+    expect(problem!.detail).toBe('vitos.com now resolves to 192.0.2.1.');
+    expect(problem!.fix).toMatch(/ALIAS or ANAME/);
+  });
+});
+
+describe('sweepHostnameHealth', () => {
+  it('records every check and leaves healthy hostnames alone', async () => {
+    mockNetwork({});
+    mockQuery.mockResolvedValueOnce({ data: [row], error: null });
+
+    expect(await sweepHostnameHealth(env.DB, env, healthyDns, now)).toEqual({
+      checked: 1,
+      degraded: 0,
+      recovered: 0,
+    });
+    expect(mockInsert).toHaveBeenCalledWith(
+      env.DB,
+      'hostname_health_checks',
+      expect.objectContaining({ hostname_id: 'h-1', health_status: 'healthy', problems: '[]' }),
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'hostnames',
+      {
+        health_status: 'healthy',
+        health_checked_at: now.toISOString(),
+        degraded_at: null,
+        health_failures: 0,
+      },
+      'id = ?',
+      ['h-1'],
+    );
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('waits for a second failed check before degrading', async () => {
+    mockNetwork({ probe: new Error('connect timeout') });
+    mockQuery.mockResolvedValueOnce({ data: [row], error: null });
+
+    const result = await sweepHostnameHealth(env.DB, env, healthyDns, now);
+
+    expect(result).toEqual({ checked: 1, degraded: 0, recovered: 0 });
+    expect(mockInsert).toHaveBeenCalledWith(
+      env.DB,
+      'hostname_health_checks',
+      expect.objectContaining({ health_status: 'degraded', problems: '["unreachable"]' }),
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'hostnames',
+      expect.objectContaining({ health_status: 'healthy', degraded_at: null, health_failures: 1 }),
+      'id = ?',
+      ['h-1'],
+    );
+    expect(mockNotify).not.toHaveBeenCalled();
+    expect(mockAudit).not.toHaveBeenCalled();
+  });
+
+  it('degrades and emails the owner once with a fix-it guide', async () => {
+    mockNetwork({ probe: new Error('connect timeout') });
+    mockQuery.mockResolvedValueOnce({ data: [{ ...row, health_failures: 1 }], error: null });
+    mockQueryOne
+      .mockResolvedValueOnce({ email: 'owner@vitos.com' })
+      .mockResolvedValueOnce({ slug: 'vitos', business_name: "Vito's" });
+
+    const result = await sweepHostnameHealth(env.DB, env, healthyDns, now);
+
+    expect(result.degraded).toBe(1);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'hostnames',
+      expect.objectContaining({
+        health_status: 'degraded',
+        degraded_at: now.toISOString(),
+        health_failures: 2,
+      }),
+      'id = ?',
+      ['h-1'],
+    );
+    expect(mockNotify).toHaveBeenCalledWith(env, {
+      email: 'owner@vitos.com',
+      hostname: 'shop.vitos.com',
+      siteName: "Vito's",
+      problems: [expect.objectContaining({ title: 'The site does not load on this domain' })],
+    });
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'hostname.degraded' }),
+    );
+
+    // Still degraded on the next run: no second email
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        { ...row, health_status: 'degraded', degraded_at: now.toISOString(), health_failures: 2 },
+      ],
+      error: null,
+    });
+    const again = await sweepHostnameHealth(env.DB, env, healthyDns, now);
+    expect(again).toEqual({ checked: 1, degraded: 0, recovered: 0 });
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('counts recoveries', async () => {
+    mockNetwork({});
+    mockQuery.mockResolvedValueOnce({
+      data: [{ ...row, health_status: 'degraded', degraded_at: '2026-10-18T10:00:00Z' }],
+      error: null,
+    });
+
+    expect((await sweepHostnameHealth(env.DB, env, healthyDns, now)).recovered).toBe(1);
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'hostname.recovered' }),
+    );
+  });
+
+  it('picks active custom hostnames that are due, failing and degraded ones every run', async () => {
+    await sweepHostnameHealth(env.DB, env, healthyDns, now);
+
+    const [, sql, params] = mockQuery.mock.calls[0]!;
+    expect(sql).toContain("status = 'active' AND type = 'custom_cname'");
+    expect(sql).toContain("health_status = 'degraded' OR health_failures > 0");
+    expect(params).toEqual(['2026-10-18T06:00:00.000Z', 25]);
+  });
+});
+
+describe('listHealthHistory', () => {
+  it('parses recorded problems', async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [{ hostname_id: 'h-1', problems: '["dns_moved"]', checked_at: now.toISOString() }],
+      error: null,
+    });
+
+    const [entry] = await listHealthHistory(env.DB, 'org-1', 10, 'h-1');
+    expect(entry!.problems).toEqual(['dns_moved']);
+    expect(mockQuery.mock.calls[0]![2]).toEqual(['org-1', 'h-1', 10]);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Tests for TXT ownership challenges and apex / www pairing of custom domains.
+ */
+
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+import { dbQuery, dbQueryOne, dbInsert, dbUpdate } from '../services/db.js';
+import {
+  provisionCustomDomain,
+  unpairHostname,
+  verifyHostnameOwnership,
+  verifyOwnershipChallenges,
+} from '../services/domains.js';
+import type { DnsRecordType, DnsResolver } from '../services/domain_dns.js';
+import { AppError } from '@project-sites/shared';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockInsert = dbInsert as jest.MockedFunction<typeof dbInsert>;
+const mockUpdate = dbUpdate as jest.MockedFunction<typeof dbUpdate>;
+
+const mockEnv = { CF_API_TOKEN: 'test-cf-token', CF_ZONE_ID: 'test-zone-id' } as any;
+const mockDb = {} as D1Database;
+const TOKEN = 'feedfacefeedfacefeedfacefeedface';
+const originalFetch = global.fetch;
+
+/** Fake DNS that records every lookup. */
+function fakeDns(records: Record<string, string[]>): DnsResolver & { lookups: string[] } {
+  const lookups: string[] = [];
+  return {
+    lookups,
+    async resolve(name: string, type: DnsRecordType) {
+      lookups.push(`${type} ${name}`);
+      return records[`${type} ${name}`] ?? [];
+    },
+  };
+}
+
+const published = fakeDns({
+  'TXT _projectsites-challenge.vitos.com': [`projectsites-verification=${TOKEN}`],
+});
+
+function cfCreated(id: string) {
+  return {
+    ok: true,
+    json: async () => ({ result: { id, status: 'pending', ssl: { status: 'initializing' } } }),
+    text: async () => '',
+  };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockQuery.mockResolvedValue({ data: [], error: null });
+  mockQueryOne.mockResolvedValue(null);
+  mockInsert.mockResolvedValue({ error: null });
+  mockUpdate.mockResolvedValue({ error: null, changes: 1 });
+  published.lookups.length = 0;
+  global.fetch = jest.fn();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('provisionCustomDomain pairing', () => {
+  it('adds the www partner redirecting to the apex, sharing its challenge', async () => {
+    const result = await provisionCustomDomain(mockDb, mockEnv, {
+      org_id: 'org-1',
+      site_id: 'site-1',
+      hostname: 'vitos.com',
+    });
+
+    expect(result.paired_hostname).toBe('www.vitos.com');
+    expect(result.verification.name).toBe('_projectsites-challenge.vitos.com');
+    expect(mockInsert).toHaveBeenCalledTimes(2);
+
+    const [, , added] = mockInsert.mock.calls[0]!;
+    const [, , partner] = mockInsert.mock.calls[1]!;
+    expect(added).toMatchObject({ hostname: 'vitos.com', status: 'pending' });
+    expect(added).not.toHaveProperty('redirect_to');
+    expect(partner).toMatchObject({
+      hostname: 'www.vitos.com',
+      redirect_to: 'vitos.com',
+      verification_token: added.verification_token,
+      cf_custom_hostname_id: null,
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('skips the partner when it is already registered', async () => {
+    mockQueryOne.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'someone-else' });
+
+    const result = await provisionCustomDomain(mockDb, mockEnv, {
+      org_id: 'org-1',
+      site_id: 'site-1',
+      hostname: 'www.vitos.com',
+    });
+
+    expect(result.paired_hostname).toBeNull();
+    expect(mockInsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('requests certificates straight away when ownership is already proved', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ data: [], error: null })
+      .mockResolvedValueOnce({ data: [], error: null })
+      .mockResolvedValueOnce({
+        data: [
+          { id: 'h-apex', hostname: 'vitos.com' },
+          { id: 'h-www', hostname: 'www.vitos.com' },
+        ],
+        error: null,
+      });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(cfCreated('cf-apex'))
+      .mockResolvedValueOnce(cfCreated('cf-www'));
+
+    await provisionCustomDomain(mockDb, mockEnv, {
+      org_id: 'org-1',
+      site_id: 'site-1',
+      hostname: 'vitos.com',
+      ownership_proved: true,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'hostnames',
+      expect.objectContaining({ cf_custom_hostname_id: 'cf-apex' }),
+      'id = ?',
+      ['h-apex'],
+    );
+  });
+
+  it('leaves other subdomains unpaired and excludes redirects from the limit', async () => {
+    const result = await provisionCustomDomain(mockDb, mockEnv, {
+      org_id: 'org-1',
+      site_id: 'site-1',
+      hostname: 'shop.vitos.com',
+    });
+
+    expect(result.paired_hostname).toBeNull();
+    expect(mockQuery.mock.calls[0]![1]).toContain('redirect_to IS NULL');
+  });
+});
+
+describe('verifyOwnershipChallenges', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const pair = [
+    {
+      id: 'h-apex',
+      site_id: 'site-1',
+      hostname: 'vitos.com',
+      verification_token: TOKEN,
+      redirect_to: null,
+      created_at: '2026-10-17T12:00:00Z',
+    },
+    {
+      id: 'h-www',
+      site_id: 'site-1',
+      hostname: 'www.vitos.com',
+      verification_token: TOKEN,
+      redirect_to: 'vitos.com',
+      created_at: '2026-10-17T12:00:00Z',
+    },
+  ];
+
+  it('checks a pair once and requests certificates for both', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ data: pair, error: null })
+      .mockResolvedValueOnce({ data: pair, error: null });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(cfCreated('cf-apex'))
+      .mockResolvedValueOnce(cfCreated('cf-www'));
+
+    const result = await verifyOwnershipChallenges(mockDb, mockEnv, published, now);
+
+    expect(result).toEqual({ verified: 2, expired: 0 });
+    expect(published.lookups).toEqual(['TXT _projectsites-challenge.vitos.com']);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'hostnames',
+      expect.objectContaining({
+        cf_custom_hostname_id: 'cf-www',
+        ownership_verified_at: expect.any(String),
+      }),
+      'id = ?',
+      ['h-www'],
+    );
+  });
+
+  it('expires challenges that are still missing after a week', async () => {
+    const old = pair.map((row) => ({ ...row, created_at: '2026-10-01T00:00:00Z' }));
+    mockQuery.mockResolvedValueOnce({ data: old, error: null });
+
+    const result = await verifyOwnershipChallenges(mockDb, mockEnv, fakeDns({}), now);
+
+    expect(result).toEqual({ verified: 0, expired: 2 });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'hostnames',
+      expect.objectContaining({ status: 'verification_failed' }),
+      'id = ?',
+      ['h-apex'],
+    );
+  });
+
+  it('keeps waiting on recent challenges', async () => {
+    mockQuery.mockResolvedValueOnce({ data: pair, error: null });
+
+    expect(await verifyOwnershipChallenges(mockDb, mockEnv, fakeDns({}), now)).toEqual({
+      verified: 0,
+      expired: 0,
+    });
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyHostnameOwnership', () => {
+  const row = {
+    id: 'h-www',
+    site_id: 'site-1',
+    hostname: 'www.vitos.com',
+    verification_token: TOKEN,
+    redirect_to: 'vitos.com',
+    created_at: '2026-10-17T12:00:00Z',
+    ownership_verified_at: null,
+  };
+
+  it('reports what was found without touching CF when the record is missing', async () => {
+    mockQueryOne.mockResolvedValueOnce(row);
+    const dns = fakeDns({ 'TXT _projectsites-challenge.vitos.com': ['stale'] });
+
+    const result = await verifyHostnameOwnership(mockDb, mockEnv, 'site-1', 'h-www', dns);
+
+    expect(result).toEqual({
+      verified: false,
+      challenge: {
+        name: '_projectsites-challenge.vitos.com',
+        value: `projectsites-verification=${TOKEN}`,
+      },
+      found: ['stale'],
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('activates the pair once the record is published', async () => {
+    mockQueryOne.mockResolvedValueOnce(row);
+    mockQuery.mockResolvedValueOnce({
+      data: [{ id: 'h-www', hostname: 'www.vitos.com' }],
+      error: null,
+    });
+    (global.fetch as jest.Mock).mockResolvedValueOnce(cfCreated('cf-www'));
+
+    const result = await verifyHostnameOwnership(mockDb, mockEnv, 'site-1', 'h-www', published);
+
+    expect(result.verified).toBe(true);
+    expect(mockQuery).toHaveBeenCalledWith(
+      mockDb,
+      expect.stringContaining('verification_token = ?'),
+      ['site-1', TOKEN],
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects hostnames without a challenge', async () => {
+    mockQueryOne.mockResolvedValueOnce({ ...row, verification_token: null });
+
+    const err = await verifyHostnameOwnership(mockDb, mockEnv, 'site-1', 'h-www', published).catch(
+      (e: unknown) => e,
+    );
+
+    expect(err).toBeInstanceOf(AppError);
+    expect((err as AppError).statusCode).toBe(400);
+  });
+});
+
+describe('unpairHostname', () => {
+  it('stops partners redirecting to a removed hostname', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [{ hostname: 'www.vitos.com' }], error: null });
+
+    expect(await unpairHostname(mockDb, 'site-1', 'vitos.com')).toEqual(['www.vitos.com']);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'hostnames',
+      { redirect_to: null },
+      'site_id = ? AND redirect_to = ?',
+      ['site-1', 'vitos.com'],
+    );
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Tests for buying, transferring and renewing domains through the sandbox registrar.
+ */
+
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../services/billing.js', () => ({
+  createCheckoutSession: jest.fn().mockResolvedValue({
+    checkout_url: 'https://checkout.stripe.com/cs_1',
+    session_id: 'cs_1',
+  }),
+  getOrgEntitlements: jest.fn().mockResolvedValue({ plan: 'paid', maxCustomDomains: 10 }),
+  refundCheckoutCharge: jest.fn().mockResolvedValue('re_1'),
+}));
+
+jest.mock('../services/domains.js', () => ({
+  provisionCustomDomain: jest.fn().mockResolvedValue({ id: 'h-1', status: 'pending' }),
+}));
+
+import { AppError } from '@project-sites/shared';
+import { dbInsert, dbQuery, dbQueryOne, dbUpdate } from '../services/db.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  createCheckoutSession,
+  getOrgEntitlements,
+  refundCheckoutCharge,
+} from '../services/billing.js';
+import { provisionCustomDomain } from '../services/domains.js';
+import {
+  completeDomainOrder,
+  getRegistrar,
+  startDomainPurchase,
+  startDomainTransfer,
+  syncPendingTransfers,
+  updateRegisteredDomain,
+} from '../services/domain_registration.js';
+import { createSandboxRegistrar, type SandboxRegistrar } from '../services/registrar_sandbox.js';
+
+const mockQuery = dbQuery as jest.Mock;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockInsert = dbInsert as jest.Mock;
+const mockUpdate = dbUpdate as jest.Mock;
+const mockCheckout = createCheckoutSession as jest.Mock;
+const mockEntitlements = getOrgEntitlements as jest.Mock;
+const mockProvision = provisionCustomDomain as jest.Mock;
+const mockAudit = writeAuditLog as jest.Mock;
+const mockRefund = refundCheckoutCharge as jest.Mock;
+
+const env = { DB: {}, ENVIRONMENT: 'test' } as any;
+const now = new Date('2026-10-18T12:00:00Z');
+const SITE = '00000000-0000-4000-8000-000000000001';
+
+const contact = {
+  name: 'Vito Rossi',
+  email: 'vito@example.com',
+  phone: '+14155552671',
+  address1: '1 Main St',
+  city: 'Springfield',
+  postal_code: '12345',
+  country: 'US',
+};
+const urls = { success_url: 'https://app.test/done', cancel_url: 'https://app.test/cancel' };
+
+let registrar: SandboxRegistrar;
+
+/** The site lookup passes; hostname / registered-domain lookups find nothing. */
+function siteOwned() {
+  mockQueryOne.mockResolvedValueOnce({ id: SITE });
+}
+
+function domainRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'rd-1',
+    org_id: 'org-1',
+    site_id: SITE,
+    domain: 'vitossalon.com',
+    registrar: 'sandbox',
+    status: 'awaiting_payment',
+    expires_at: null,
+    auto_renew: 1,
+    whois_privacy: 1,
+    connect_error: null,
+    registrant_json: JSON.stringify(contact),
+    created_at: now.toISOString(),
+    ...overrides,
+  };
+}
+
+function orderRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'order-1',
+    org_id: 'org-1',
+    registered_domain_id: 'rd-1',
+    domain: 'vitossalon.com',
+    action: 'register',
+    years: 2,
+    amount_cents: 2598,
+    status: 'awaiting_payment',
+    stripe_session_id: 'cs_1',
+    auth_code: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockQuery.mockResolvedValue({ data: [], error: null });
+  mockQueryOne.mockResolvedValue(null);
+  registrar = createSandboxRegistrar({ taken: ['vitos.com'], now: () => now });
+});
+
+describe('getRegistrar', () => {
+  it('uses the sandbox outside production and refuses in production', () => {
+    expect(getRegistrar(env).name).toBe('sandbox');
+    expect(() => getRegistrar({ ...env, ENVIRONMENT: 'production' })).toThrow(AppError);
+  });
+});
+
+describe('sandbox registrar', () => {
+  it('prices premium names above list and knows taken ones', async () => {
+    expect(await registrar.checkAvailability('vitos.com')).toMatchObject({ available: false });
+    expect(await registrar.checkAvailability('abc.io')).toEqual({
+      domain: 'abc.io',
+      available: true,
+      premium: true,
+      register_cents: 48000,
+      renew_cents: 48000,
+    });
+    expect((await registrar.checkAvailability('vitossalon.xyz')).available).toBe(false);
+  });
+});
+
+describe('startDomainPurchase', () => {
+  it('charges the first year at registration and the rest at renewal price', async () => {
+    siteOwned();
+    registrar = createSandboxRegistrar();
+
+    const result = await startDomainPurchase(env.DB, env, registrar, {
+      domain: 'vitossalon.site',
+      site_id: SITE,
+      years: 3,
+      contact,
+      whois_privacy: true,
+      auto_renew: false,
+      ...urls,
+      org_id: 'org-1',
+      customer_email: 'vito@example.com',
+    });
+
+    expect(result).toMatchObject({ amount_cents: 400 + 3200 * 2, session_id: 'cs_1' });
+    expect(mockInsert).toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      expect.objectContaining({
+        domain: 'vitossalon.site',
+        status: 'awaiting_payment',
+        auto_renew: 0,
+        whois_privacy: 1,
+      }),
+    );
+    expect(mockCheckout).toHaveBeenCalledWith(
+      env.DB,
+      env,
+      expect.objectContaining({
+        orgId: 'org-1',
+        domain: {
+          order_id: result.order_id,
+          domain: 'vitossalon.site',
+          description: 'Registration, 3 years',
+          amount_cents: 6800,
+        },
+      }),
+    );
+  });
+
+  it('refuses taken names and subdomains before opening a checkout', async () => {
+    siteOwned();
+    const taken = await startDomainPurchase(env.DB, env, registrar, {
+      domain: 'vitos.com',
+      site_id: SITE,
+      years: 1,
+      contact,
+      whois_privacy: true,
+      auto_renew: true,
+      ...urls,
+      org_id: 'org-1',
+      customer_email: '',
+    }).catch((e: AppError) => e);
+    expect((taken as AppError).statusCode).toBe(409);
+
+    const sub = await startDomainPurchase(env.DB, env, registrar, {
+      domain: 'shop.vitos.com',
+      site_id: SITE,
+      years: 1,
+      contact,
+      whois_privacy: true,
+      auto_renew: true,
+      ...urls,
+      org_id: 'org-1',
+      customer_email: '',
+    }).catch((e: AppError) => e);
+    expect((sub as AppError).statusCode).toBe(400);
+    expect(mockCheckout).not.toHaveBeenCalled();
+  });
+
+  it("holds the org to its tier's domain limit", async () => {
+    siteOwned();
+    mockQuery.mockResolvedValueOnce({ data: [{ id: 'h-1' }], error: null });
+    mockEntitlements.mockResolvedValueOnce({ plan: 'paid', maxCustomDomains: 1 });
+
+    await expect(
+      startDomainPurchase(env.DB, env, registrar, {
+        domain: 'vitossalon.com',
+        site_id: SITE,
+        years: 1,
+        contact,
+        whois_privacy: true,
+        auto_renew: true,
+        ...urls,
+        org_id: 'org-1',
+        customer_email: '',
+      }),
+    ).rejects.toThrow('Maximum custom domains (1) reached');
+  });
+});
+
+describe('startDomainTransfer', () => {
+  const transfer = {
+    site_id: SITE,
+    auth_code: 'EPP-123456',
+    contact,
+    whois_privacy: true,
+    auto_renew: true,
+    ...urls,
+    org_id: 'org-1',
+    customer_email: '',
+  };
+
+  it('charges the transfer price and keeps the auth code with the order', async () => {
+    siteOwned();
+
+    const result = await startDomainTransfer(env.DB, env, registrar, {
+      ...transfer,
+      domain: 'vitos.com',
+    });
+
+    expect(result.amount_cents).toBe(1500);
+    expect(mockInsert).toHaveBeenCalledWith(
+      env.DB,
+      'domain_orders',
+      expect.objectContaining({ action: 'transfer', auth_code: 'EPP-123456' }),
+    );
+  });
+
+  it('sends unregistered domains to purchase instead', async () => {
+    siteOwned();
+
+    await expect(
+      startDomainTransfer(env.DB, env, registrar, { ...transfer, domain: 'vitossalon.com' }),
+    ).rejects.toThrow(/Buy it instead/);
+  });
+});
+
+describe('completeDomainOrder', () => {
+  it('registers, points the zone at us and provisions without a challenge', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(orderRow())
+      .mockResolvedValueOnce(domainRow())
+      .mockResolvedValueOnce(null); // no hostname row yet
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe(
+      'completed',
+    );
+
+    expect(registrar.inspect('vitossalon.com')).toMatchObject({
+      status: 'active',
+      expires_at: '2028-10-18T12:00:00.000Z',
+      contact,
+      records: [
+        { type: 'ALIAS', host: '@', value: 'projectsites.dev' },
+        { type: 'CNAME', host: 'www', value: 'projectsites.dev' },
+      ],
+    });
+    expect(mockProvision).toHaveBeenCalledWith(env.DB, env, {
+      org_id: 'org-1',
+      site_id: SITE,
+      hostname: 'vitossalon.com',
+      ownership_proved: true,
+      max_custom_domains: 10,
+    });
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'domain_orders',
+      { status: 'completed', auth_code: null },
+      'id = ?',
+      ['order-1'],
+    );
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'domain.registered' }),
+    );
+  });
+
+  it('ignores repeat webhook deliveries', async () => {
+    mockQueryOne.mockResolvedValueOnce(orderRow({ status: 'completed' }));
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe(
+      'completed',
+    );
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('leaves an order another delivery claimed first to that delivery', async () => {
+    mockQueryOne.mockResolvedValueOnce(orderRow()).mockResolvedValueOnce({ status: 'paid' });
+    mockUpdate.mockResolvedValueOnce({ error: null, changes: 0 });
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe('paid');
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'domain_orders',
+      { status: 'paid' },
+      'id = ? AND status = ?',
+      ['order-1', 'awaiting_payment'],
+    );
+    expect(registrar.inspect('vitossalon.com')).toBeUndefined();
+  });
+
+  it('records a registrar refusal instead of throwing', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(orderRow({ domain: 'vitos.com' }))
+      .mockResolvedValueOnce(domainRow({ domain: 'vitos.com' }));
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe(
+      'failed',
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'domain_orders',
+      expect.objectContaining({
+        status: 'failed',
+        error: 'vitos.com is not available',
+        refund_id: 're_1',
+        needs_support: 0,
+      }),
+      'id = ?',
+      ['order-1'],
+    );
+    expect(mockRefund).toHaveBeenCalledWith(env, 'cs_1', 2598, {
+      domain_order_id: 'order-1',
+      domain: 'vitos.com',
+    });
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      { status: 'failed' },
+      'id = ?',
+      ['rd-1'],
+    );
+    expect(mockProvision).not.toHaveBeenCalled();
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'domain.order_failed' }),
+    );
+  });
+
+  it('flags a refusal for support when the refund fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRefund.mockRejectedValueOnce(new Error('Stripe down'));
+    mockQueryOne
+      .mockResolvedValueOnce(orderRow({ domain: 'vitos.com' }))
+      .mockResolvedValueOnce(domainRow({ domain: 'vitos.com' }));
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe(
+      'failed',
+    );
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'domain_orders',
+      expect.objectContaining({ status: 'failed', refund_id: null, needs_support: 1 }),
+      'id = ?',
+      ['order-1'],
+    );
+    warn.mockRestore();
+  });
+
+  it('keeps a registered domain whose connection fails and retries it from the cron', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockProvision.mockRejectedValueOnce(new Error('Cloudflare unavailable'));
+    mockQueryOne
+      .mockResolvedValueOnce(orderRow())
+      .mockResolvedValueOnce(domainRow())
+      .mockResolvedValueOnce(null);
+
+    expect(await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' })).toBe(
+      'completed',
+    );
+    expect(registrar.inspect('vitossalon.com')!.status).toBe('active');
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      { connect_error: 'Cloudflare unavailable' },
+      'id = ?',
+      ['rd-1'],
+    );
+    expect(mockUpdate).not.toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      { status: 'failed' },
+      'id = ?',
+      ['rd-1'],
+    );
+    expect(mockRefund).not.toHaveBeenCalled();
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'domain.connect_failed' }),
+    );
+
+    mockQuery.mockResolvedValueOnce({
+      data: [domainRow({ status: 'active', connect_error: 'Cloudflare unavailable' })],
+      error: null,
+    });
+    mockQueryOne.mockResolvedValueOnce(null);
+
+    expect(await syncPendingTransfers(env.DB, env, registrar)).toEqual({ completed: 1 });
+    expect(mockProvision).toHaveBeenCalledTimes(2);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      { connect_error: null },
+      'id = ?',
+      ['rd-1'],
+    );
+    warn.mockRestore();
+  });
+
+  it('connects a transfer once the registry approves it', async () => {
+    const row = domainRow({ domain: 'vitos.com' });
+    mockQueryOne
+      .mockResolvedValueOnce(orderRow({ action: 'transfer', years: 1, auth_code: 'EPP-123456' }))
+      .mockResolvedValueOnce(row);
+
+    await completeDomainOrder(env.DB, env, registrar, { order_id: 'order-1' });
+    expect(registrar.inspect('vitos.com')!.status).toBe('transfer_pending');
+    expect(mockProvision).not.toHaveBeenCalled();
+
+    // The site already serves vitos.com with a pending TXT challenge
+    mockQuery.mockResolvedValueOnce({
+      data: [{ ...row, status: 'transfer_pending' }],
+      error: null,
+    });
+    mockQueryOne.mockResolvedValueOnce({ id: 'h-1', verification_token: 'tok' });
+
+    expect(await syncPendingTransfers(env.DB, env, registrar)).toEqual({ completed: 1 });
+    expect(registrar.inspect('vitos.com')!.records[0]).toEqual({
+      type: 'TXT',
+      host: '_projectsites-challenge',
+      value: 'projectsites-verification=tok',
+    });
+    expect(mockProvision).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateRegisteredDomain', () => {
+  it('changes the setting at the registrar and in D1', async () => {
+    await registrar.register({
+      domain: 'vitossalon.com',
+      years: 1,
+      contact,
+      whois_privacy: true,
+      auto_renew: true,
+    });
+    mockQueryOne.mockResolvedValueOnce(domainRow({ status: 'active' }));
+
+    const result = await updateRegisteredDomain(env.DB, registrar, 'org-1', 'rd-1', {
+      whois_privacy: false,
+    });
+
+    expect(result.whois_privacy).toBe(false);
+    expect(registrar.inspect('vitossalon.com')!.whois_privacy).toBe(false);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      env.DB,
+      'registered_domains',
+      { whois_privacy: 0 },
+      'id = ?',
+      ['rd-1'],
+    );
+  });
+});
@@ -131,6 +131,7 @@ describe('checkHostnameStatus', () => {
       status: 'active',
       ssl_status: 'active',
       verification_errors: [],
+      ssl_expires_at: null,
     });
   });
 
@@ -152,6 +153,29 @@ describe('checkHostnameStatus', () => {
     expect(result.verification_errors).toEqual(['CNAME not found', 'DNS timeout']);
   });
 
+  it('returns the earliest certificate expiry', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        result: {
+          status: 'active',
+          ssl: {
+            status: 'active',
+            certificates: [
+              { expires_on: '2027-01-20T00:00:00Z' },
+              { expires_on: '2026-12-01T00:00:00Z' },
+            ],
+          },
+        },
+      }),
+      text: async () => '',
+    });
+
+    const result = await checkHostnameStatus(mockEnv, 'cf-host-789');
+
+    expect(result.ssl_expires_at).toBe('2026-12-01T00:00:00Z');
+  });
+
   it('throws notFound when hostname not found', async () => {
     (global.fetch as jest.Mock).mockResolvedValueOnce({
       ok: false,
@@ -319,14 +343,6 @@ describe('provisionCustomDomain', () => {
     // Site custom domains check (auto-primary) — none exist
     mockQuery.mockResolvedValueOnce({ data: [], error: null });
 
-    (global.fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
-        result: { id: 'cf-custom-1', status: 'pending', ssl: { status: 'pending_validation' } },
-      }),
-      text: async () => '',
-    });
-
     // DB insert
     mockInsert.mockResolvedValueOnce({ error: null });
     // Auto-primary: clear + set
@@ -340,9 +356,15 @@ describe('provisionCustomDomain', () => {
     });
 
     expect(result).toEqual({
+      id: expect.any(String),
       hostname: 'app.example.com',
       status: 'pending',
       is_primary: true,
+      paired_hostname: null,
+      verification: {
+        name: '_projectsites-challenge.app.example.com',
+        value: expect.stringMatching(/^projectsites-verification=[0-9a-f]{32}$/),
+      },
     });
   });
 
@@ -374,20 +396,12 @@ describe('provisionCustomDomain', () => {
     ).rejects.toThrow(/already registered/);
   });
 
-  it('creates CF hostname and DB record and auto-sets as primary', async () => {
+  it('stores a pending DB record without calling CF and auto-sets as primary', async () => {
     mockQuery.mockResolvedValueOnce({ data: [], error: null });
     mockQueryOne.mockResolvedValueOnce(null);
     // Site custom domains check — none exist (first custom domain)
     mockQuery.mockResolvedValueOnce({ data: [], error: null });
 
-    (global.fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({
-        result: { id: 'cf-custom-2', status: 'active', ssl: { status: 'active' } },
-      }),
-      text: async () => '',
-    });
-
     mockInsert.mockResolvedValueOnce({ error: null });
     // Auto-primary: clear + set
     mockUpdate.mockResolvedValueOnce({ error: null, changes: 0 });
@@ -401,14 +415,8 @@ describe('provisionCustomDomain', () => {
 
     expect(result.is_primary).toBe(true);
 
-    // CF API called with hostname
-    expect(global.fetch).toHaveBeenCalledWith(
-      expect.stringContaining('custom_hostnames'),
-      expect.objectContaining({
-        method: 'POST',
-        body: expect.stringContaining('custom.example.com'),
-      }),
-    );
+    // CF hostname waits for the ownership challenge
+    expect(global.fetch).not.toHaveBeenCalled();
 
     // DB insert with correct fields
     expect(mockInsert).toHaveBeenCalledTimes(1);
@@ -420,9 +428,10 @@ describe('provisionCustomDomain', () => {
         site_id: 'site-3',
         hostname: 'custom.example.com',
         type: 'custom_cname',
-        status: 'active',
-        cf_custom_hostname_id: 'cf-custom-2',
-        ssl_status: 'active',
+        status: 'pending',
+        cf_custom_hostname_id: null,
+        ssl_status: 'pending',
+        verification_token: expect.stringMatching(/^[0-9a-f]{32}$/),
       }),
     );
 
@@ -629,15 +638,15 @@ describe('verifyPendingHostnames', () => {
 // ---------------------------------------------------------------------------
 describe('setPrimaryHostname', () => {
   it('sets a hostname as primary and clears others', async () => {
-    mockQueryOne.mockResolvedValueOnce({ id: 'h-123' });
+    mockQueryOne.mockResolvedValueOnce({ id: 'h-123', hostname: 'a.com', redirect_to: null });
     mockUpdate.mockResolvedValueOnce({ error: null, changes: 3 });
     mockUpdate.mockResolvedValueOnce({ error: null, changes: 1 });
 
-    await setPrimaryHostname(mockDb, 'site-1', 'h-123');
+    expect(await setPrimaryHostname(mockDb, 'site-1', 'h-123')).toEqual([]);
 
     expect(mockQueryOne).toHaveBeenCalledWith(
       mockDb,
-      expect.stringContaining('SELECT id FROM hostnames'),
+      expect.stringContaining('FROM hostnames WHERE id = ? AND site_id = ?'),
       ['h-123', 'site-1'],
     );
 
@@ -652,6 +661,30 @@ describe('setPrimaryHostname', () => {
     ]);
   });
 
+  it('flips the apex / www redirect when the redirecting half becomes primary', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      id: 'h-www',
+      hostname: 'www.vitos.com',
+      redirect_to: 'vitos.com',
+    });
+
+    expect(await setPrimaryHostname(mockDb, 'site-1', 'h-www')).toEqual([
+      'www.vitos.com',
+      'vitos.com',
+    ]);
+
+    expect(mockUpdate).toHaveBeenCalledWith(mockDb, 'hostnames', { redirect_to: null }, 'id = ?', [
+      'h-www',
+    ]);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      mockDb,
+      'hostnames',
+      { redirect_to: 'www.vitos.com' },
+      'site_id = ? AND hostname = ? AND deleted_at IS NULL',
+      ['site-1', 'vitos.com'],
+    );
+  });
+
   it('throws notFound if hostname does not belong to site', async () => {
     mockQueryOne.mockResolvedValueOnce(null);
 
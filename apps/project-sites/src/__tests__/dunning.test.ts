@@ -0,0 +1,161 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../services/domains.js', () => ({
+  deleteCustomHostname: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../services/notifications.js', () => ({
+  notifyDunning: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import { writeAuditLog } from '../services/audit.js';
+import { deleteCustomHostname } from '../services/domains.js';
+import { notifyDunning } from '../services/notifications.js';
+import { advanceDunning, DUNNING_DOWNGRADED_STAGE, nextDunningStep } from '../services/dunning.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockAudit = writeAuditLog as jest.MockedFunction<typeof writeAuditLog>;
+const mockDeleteHostname = deleteCustomHostname as jest.MockedFunction<typeof deleteCustomHostname>;
+const mockNotify = notifyDunning as jest.MockedFunction<typeof notifyDunning>;
+
+const kvDelete = jest.fn().mockResolvedValue(undefined);
+const mockEnv = { DB: {} as D1Database, CACHE_KV: { delete: kvDelete } } as any;
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const daysAgo = (n: number) => new Date(NOW.getTime() - n * 86_400_000).toISOString();
+
+function pastDue(stage: number, days: number) {
+  return {
+    id: '11111111-1111-4111-8111-111111111111',
+    org_id: '22222222-2222-4222-8222-222222222222',
+    dunning_stage: stage,
+    past_due_since: daysAgo(days),
+    last_payment_failed_at: daysAgo(0),
+    org_name: 'Acme',
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// nextDunningStep
+// ---------------------------------------------------------------------------
+describe('nextDunningStep', () => {
+  it('follows DUNNING.REMINDER_DAYS', () => {
+    expect(nextDunningStep(0, 0)).toEqual({ kind: 'remind', reminder: 0 });
+    expect(nextDunningStep(1, 6)).toBeNull();
+    expect(nextDunningStep(1, 7)).toEqual({ kind: 'remind', reminder: 1 });
+    expect(nextDunningStep(3, 30)).toEqual({ kind: 'remind', reminder: 3 });
+    expect(nextDunningStep(4, 59)).toBeNull();
+  });
+
+  it('sends only the latest due reminder after a gap', () => {
+    expect(nextDunningStep(1, 20)).toEqual({ kind: 'remind', reminder: 2 });
+  });
+
+  it('downgrades on DOWNGRADE_DAY and stops afterwards', () => {
+    expect(nextDunningStep(4, 60)).toEqual({ kind: 'downgrade' });
+    expect(nextDunningStep(1, 75)).toEqual({ kind: 'downgrade' });
+    expect(nextDunningStep(DUNNING_DOWNGRADED_STAGE, 90)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// advanceDunning
+// ---------------------------------------------------------------------------
+describe('advanceDunning', () => {
+  it('emails the owner, bumps the stage and audits the reminder', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [pastDue(1, 8)], error: null });
+    mockQueryOne.mockResolvedValueOnce({ email: 'owner@acme.test' });
+
+    const result = await advanceDunning(mockEnv, NOW);
+
+    expect(result).toEqual({ reminded: 1, downgraded: 0, failed: 0 });
+    expect(mockNotify).toHaveBeenCalledWith(mockEnv, {
+      email: 'owner@acme.test',
+      orgName: 'Acme',
+      reminder: 1,
+      daysUntilDowngrade: 52,
+    });
+    expect(mockExecute.mock.calls[0]![2]).toEqual([2, expect.any(String), pastDue(1, 8).id]);
+    expect(mockAudit).toHaveBeenCalledWith(
+      mockEnv.DB,
+      expect.objectContaining({
+        action: 'billing.dunning_reminder_sent',
+        target_type: 'subscription',
+      }),
+    );
+  });
+
+  it('leaves the stage alone when the email fails', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [pastDue(0, 0)], error: null });
+    mockQueryOne.mockResolvedValueOnce({ email: 'owner@acme.test' });
+    mockNotify.mockRejectedValueOnce(new Error('Resend error 500'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await advanceDunning(mockEnv, NOW);
+
+    expect(result.failed).toBe(1);
+    expect(mockExecute).not.toHaveBeenCalled();
+    expect(mockAudit).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('downgrades to free on day 60 and detaches custom domains', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [pastDue(4, 61)], error: null }).mockResolvedValueOnce({
+      data: [
+        {
+          id: '33333333-3333-4333-8333-333333333333',
+          site_id: 'site-1',
+          hostname: 'www.acme.test',
+          cf_custom_hostname_id: 'cf-1',
+        },
+      ],
+      error: null,
+    });
+    mockExecute
+      .mockResolvedValueOnce({ error: null, changes: 1 })
+      .mockResolvedValueOnce({ error: null, changes: 2 });
+    mockQueryOne.mockResolvedValueOnce({ email: 'owner@acme.test' });
+
+    const result = await advanceDunning(mockEnv, NOW);
+
+    expect(result).toEqual({ reminded: 0, downgraded: 1, failed: 0 });
+    const sqls = mockExecute.mock.calls.map(([, sql]) => sql);
+    expect(sqls[0]).toContain("plan = 'free', dunning_stage = ?");
+    expect(mockExecute.mock.calls[0]![2]![0]).toBe(DUNNING_DOWNGRADED_STAGE);
+    expect(sqls[1]).toContain('dunning_downgraded = 1');
+    expect(sqls[2]).toContain("UPDATE hostnames SET status = 'deleted'");
+    expect(mockDeleteHostname).toHaveBeenCalledWith(mockEnv, 'cf-1');
+    expect(kvDelete).toHaveBeenCalledWith('host:www.acme.test');
+
+    const actions = mockAudit.mock.calls.map(([, entry]) => entry.action);
+    expect(actions).toEqual(['hostname.detached', 'billing.dunning_downgraded']);
+    expect(mockAudit.mock.calls[1]![1].metadata_json).toEqual({
+      days_past_due: 61,
+      sites_downgraded: 2,
+      hostnames_detached: 1,
+    });
+    expect(mockNotify).toHaveBeenCalledWith(mockEnv, expect.objectContaining({ reminder: null }));
+  });
+
+  it('only selects subscriptions that have not been downgraded yet', async () => {
+    await advanceDunning(mockEnv, NOW);
+    const [, sql, params] = mockQuery.mock.calls[0]!;
+    expect(sql).toContain("s.status = 'past_due'");
+    expect(params).toEqual([DUNNING_DOWNGRADED_STAGE]);
+  });
+});
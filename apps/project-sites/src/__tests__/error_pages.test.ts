@@ -0,0 +1,144 @@
+jest.mock('../services/db.js', () => ({
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+}));
+
+import { dbQueryOne } from '../services/db.js';
+import {
+  errorPageCacheKey,
+  loadErrorPageContext,
+  pagesFromSitemap,
+  renderErrorPage,
+  type ErrorPageContext,
+} from '../services/error_pages.js';
+
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://vitos.example/services/hair-color</loc></url>
+  <url><loc>https://vitos.example/</loc></url>
+  <url><loc>https://vitos.example/about.html</loc></url>
+  <url><loc>https://vitos.example/404.html</loc></url>
+  <url><loc>https://vitos.example/about.html</loc></url>
+</urlset>`;
+
+const createEnv = (files: Record<string, string> = {}) => ({
+  DB: {} as D1Database,
+  CACHE_KV: {
+    get: jest.fn().mockResolvedValue(null),
+    put: jest.fn().mockResolvedValue(undefined),
+  },
+  SITES_BUCKET: {
+    get: jest.fn(async (key: string) =>
+      files[key] === undefined ? null : { text: async () => files[key] },
+    ),
+  },
+});
+
+const context = (overrides: Partial<ErrorPageContext['brand']> = {}): ErrorPageContext => ({
+  brand: {
+    name: "Vito's Salon",
+    logo_url: null,
+    primary_color: '#aa3300',
+    font_heading: null,
+    font_body: null,
+    ...overrides,
+  },
+  pages: [{ path: '/', label: 'Home' }],
+});
+
+describe('pagesFromSitemap', () => {
+  it('lists paths home first, without duplicates or error pages', () => {
+    expect(pagesFromSitemap(SITEMAP)).toEqual([
+      { path: '/', label: 'Home' },
+      { path: '/services/hair-color', label: 'Hair Color' },
+      { path: '/about.html', label: 'About' },
+    ]);
+  });
+});
+
+describe('renderErrorPage', () => {
+  it('renders the status, copy and brand', () => {
+    const html = renderErrorPage(410, context());
+    expect(html).toContain('<div class="code">410</div>');
+    expect(html).toContain('This page has been removed');
+    expect(html).toContain('Vito&#39;s Salon');
+    expect(html).toContain('#aa3300');
+    expect(html).toContain('id="ps-search"');
+  });
+
+  it('escapes or drops unsafe brand values', () => {
+    const html = renderErrorPage(
+      404,
+      context({
+        name: '<script>alert(1)</script>',
+        primary_color: 'red;}</style><script>',
+        logo_url: 'javascript:alert(1)',
+        font_body: "Inter'}body{",
+      }),
+    );
+    expect(html).not.toContain('<script>alert(1)');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain("Inter'}");
+    expect(html).toContain('#2563eb');
+  });
+
+  it('shows the first six pages and hides the rest until searched', () => {
+    const pages = Array.from({ length: 8 }, (_, i) => ({ path: `/p${i}`, label: `Page ${i}` }));
+    const html = renderErrorPage(404, { ...context(), pages });
+    expect(html).toContain('<li><a href="/p5">Page 5</a></li>');
+    expect(html).toContain('<li hidden><a href="/p6">Page 6</a></li>');
+  });
+
+  it('loads brand fonts from Google Fonts', () => {
+    const html = renderErrorPage(503, context({ font_heading: 'Playfair Display' }));
+    expect(html).toContain('family=Playfair+Display');
+    expect(html).toContain("font-family:'Playfair Display'");
+  });
+});
+
+describe('loadErrorPageContext', () => {
+  const site = { site_id: 'site-1', slug: 'vitos' };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reads brand_config and the sitemap, then caches per version', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      business_name: 'Vitos LLC',
+      data_json: JSON.stringify({ business_name: "Vito's", primary_color: '#112233' }),
+    });
+    const env = createEnv({ 'sites/vitos/v2/sitemap.xml': SITEMAP });
+
+    const ctx = await loadErrorPageContext(env as any, site, 'v2');
+
+    expect(ctx.brand.name).toBe("Vito's");
+    expect(ctx.brand.primary_color).toBe('#112233');
+    expect(ctx.pages).toHaveLength(3);
+    expect(mockQueryOne.mock.calls[0]![1]).toContain("d.table_name = 'brand_config'");
+    expect(env.CACHE_KV.put).toHaveBeenCalledWith(
+      errorPageCacheKey('vitos', 'v2'),
+      JSON.stringify(ctx),
+      { expirationTtl: 3_600 },
+    );
+  });
+
+  it('falls back to the site name and a home link', async () => {
+    mockQueryOne.mockResolvedValueOnce({ business_name: 'Vitos LLC', data_json: null });
+
+    const ctx = await loadErrorPageContext(createEnv() as any, site, 'v2');
+
+    expect(ctx.brand.name).toBe('Vitos LLC');
+    expect(ctx.pages).toEqual([{ path: '/', label: 'Home' }]);
+  });
+
+  it('uses the KV copy when present', async () => {
+    const env = createEnv();
+    env.CACHE_KV.get.mockResolvedValueOnce(context());
+
+    const ctx = await loadErrorPageContext(env as any, site, 'v2');
+
+    expect(ctx.brand.name).toBe("Vito's Salon");
+    expect(mockQueryOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,277 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { flags } from '../routes/flags.js';
+import { writeAuditLog } from '../services/audit.js';
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import {
+  FLAG_CACHE_KEY,
+  buildFlags,
+  evaluateFlag,
+  isPlatformAdmin,
+  loadFlags,
+  rolloutBucket,
+  upsertFlag,
+  type FeatureFlag,
+} from '../services/feature_flags.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockAudit = writeAuditLog as jest.Mock;
+
+const ORG = '11111111-1111-4111-8111-111111111111';
+const db = {} as D1Database;
+const kv = {
+  get: jest.fn().mockResolvedValue(null),
+  put: jest.fn().mockResolvedValue(undefined),
+  delete: jest.fn().mockResolvedValue(undefined),
+};
+const env = {
+  DB: db,
+  CACHE_KV: kv,
+  ENVIRONMENT: 'test',
+  PLATFORM_ADMIN_EMAILS: 'ops@projectsites.dev, Lead@ProjectSites.dev',
+} as unknown as Env;
+
+function flag(overrides: Partial<FeatureFlag> = {}): FeatureFlag {
+  return {
+    name: 'create.new_wizard',
+    enabled: true,
+    description: null,
+    rollout_percentage: 100,
+    plans: null,
+    overrides: {},
+    updated_at: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+describe('rolloutBucket', () => {
+  it('is stable and within 0-99', () => {
+    const bucket = rolloutBucket('create.new_wizard', ORG);
+    expect(bucket).toBe(rolloutBucket('create.new_wizard', ORG));
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+
+  it('spreads orgs roughly evenly', () => {
+    let inFirstHalf = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (rolloutBucket('flag', `org-${i}`) < 50) inFirstHalf++;
+    }
+    expect(inFirstHalf).toBeGreaterThan(900);
+    expect(inFirstHalf).toBeLessThan(1100);
+  });
+});
+
+describe('evaluateFlag', () => {
+  it('treats unknown and globally disabled flags as off, even for allow-listed orgs', () => {
+    expect(evaluateFlag(undefined, { orgId: ORG })).toBe(false);
+    expect(evaluateFlag(flag({ enabled: false, overrides: { [ORG]: true } }), { orgId: ORG })).toBe(
+      false,
+    );
+  });
+
+  it('lets org overrides beat plan and percentage rules', () => {
+    const gated = flag({ rollout_percentage: 0, plans: ['paid'] });
+    expect(
+      evaluateFlag({ ...gated, overrides: { [ORG]: true } }, { orgId: ORG, plan: 'free' }),
+    ).toBe(true);
+    expect(evaluateFlag(flag({ overrides: { [ORG]: false } }), { orgId: ORG })).toBe(false);
+  });
+
+  it('restricts to the listed plans', () => {
+    const paidOnly = flag({ plans: ['paid'] });
+    expect(evaluateFlag(paidOnly, { orgId: ORG, plan: 'paid' })).toBe(true);
+    expect(evaluateFlag(paidOnly, { orgId: ORG, plan: 'free' })).toBe(false);
+    expect(evaluateFlag(paidOnly, {})).toBe(false);
+  });
+
+  it('rolls out by bucket and hides partial rollouts from anonymous callers', () => {
+    const bucket = rolloutBucket('create.new_wizard', ORG);
+    expect(evaluateFlag(flag({ rollout_percentage: bucket + 1 }), { orgId: ORG })).toBe(true);
+    expect(evaluateFlag(flag({ rollout_percentage: bucket }), { orgId: ORG })).toBe(false);
+    expect(evaluateFlag(flag({ rollout_percentage: 50 }), {})).toBe(false);
+    expect(evaluateFlag(flag(), {})).toBe(true);
+  });
+});
+
+describe('buildFlags', () => {
+  it('folds override rows into their flag and drops orphans', () => {
+    const flags = buildFlags([
+      {
+        org_id: null,
+        flag_name: 'a',
+        enabled: 1,
+        metadata_json: JSON.stringify({ rollout_percentage: 25, plans: ['paid'] }),
+        updated_at: 't',
+      },
+      { org_id: ORG, flag_name: 'a', enabled: 0, metadata_json: null, updated_at: 't' },
+      { org_id: ORG, flag_name: 'orphan', enabled: 1, metadata_json: null, updated_at: 't' },
+    ]);
+    expect(Object.keys(flags)).toEqual(['a']);
+    expect(flags['a']).toMatchObject({
+      enabled: true,
+      rollout_percentage: 25,
+      plans: ['paid'],
+      overrides: { [ORG]: false },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+describe('loadFlags', () => {
+  it('serves from KV without touching D1', async () => {
+    kv.get.mockResolvedValueOnce({ a: flag({ name: 'a' }) });
+    const result = await loadFlags(env);
+    expect(result['a']!.name).toBe('a');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('reads D1 on a miss and caches for a minute', async () => {
+    await loadFlags(env);
+    expect(mockQuery).toHaveBeenCalled();
+    expect(kv.put).toHaveBeenCalledWith(FLAG_CACHE_KEY, '{}', { expirationTtl: 60 });
+  });
+});
+
+describe('upsertFlag', () => {
+  it('revives the existing global row and drops the cache', async () => {
+    mockQueryOne.mockResolvedValueOnce({ id: 'ff-1' });
+    await upsertFlag(env, 'a', { enabled: true, rollout_percentage: 10 });
+
+    expect(mockQueryOne.mock.calls[0]![2]).toEqual(['a', null]);
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('deleted_at = NULL');
+    expect(params).toEqual([
+      1,
+      JSON.stringify({ rollout_percentage: 10 }),
+      expect.any(String),
+      'ff-1',
+    ]);
+    expect(kv.delete).toHaveBeenCalledWith(FLAG_CACHE_KEY);
+  });
+
+  it('inserts a new global row', async () => {
+    await upsertFlag(env, 'a', { enabled: false, rollout_percentage: 100 });
+    expect(mockExecute.mock.calls[0]![1]).toContain('INSERT INTO feature_flags');
+    expect(mockExecute.mock.calls[0]![2]!.slice(1, 4)).toEqual([null, 'a', 0]);
+  });
+});
+
+describe('isPlatformAdmin', () => {
+  it('matches listed emails case-insensitively', () => {
+    expect(isPlatformAdmin(env, 'lead@projectsites.dev')).toBe(true);
+    expect(isPlatformAdmin(env, 'owner@example.com')).toBe(false);
+    expect(
+      isPlatformAdmin({ ...env, PLATFORM_ADMIN_EMAILS: undefined }, 'ops@projectsites.dev'),
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('flag routes', () => {
+  function createApp(vars: { userId?: string; orgId?: string } = {}) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (vars.userId) c.set('userId', vars.userId);
+      if (vars.orgId) c.set('orgId', vars.orgId);
+      await next();
+    });
+    app.route('/', flags);
+    return app;
+  }
+
+  it('evaluates flags for the caller’s org', async () => {
+    kv.get.mockResolvedValueOnce({
+      'create.new_wizard': flag(),
+      'admin.paid_only': flag({ name: 'admin.paid_only', plans: ['paid'] }),
+    });
+    mockQueryOne.mockResolvedValueOnce({ plan: 'paid', status: 'active' });
+
+    const res = await createApp({ orgId: ORG }).request('/api/flags', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      data: { 'create.new_wizard': true, 'admin.paid_only': true },
+    });
+  });
+
+  it('keeps management to platform admins', async () => {
+    mockQueryOne.mockResolvedValueOnce({ email: 'owner@example.com' });
+    const res = await createApp({ userId: 'user-1', orgId: ORG }).request(
+      '/api/admin/flags/create.new_wizard',
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: true }),
+      },
+      env,
+    );
+    expect(res.status).toBe(403);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('lets a platform admin create a flag and audits it', async () => {
+    mockQueryOne.mockResolvedValueOnce({ email: 'ops@projectsites.dev' });
+    const res = await createApp({ userId: 'user-1', orgId: ORG }).request(
+      '/api/admin/flags/create.new_wizard',
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: true, rollout_percentage: 20 }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockExecute.mock.calls[0]![1]).toContain('INSERT INTO feature_flags');
+    expect(mockAudit).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        action: 'flag.updated',
+        metadata_json: expect.objectContaining({
+          flag: 'create.new_wizard',
+          rollout_percentage: 20,
+        }),
+      }),
+    );
+  });
+
+  it('refuses overrides for unknown flags', async () => {
+    mockQueryOne.mockResolvedValueOnce({ email: 'ops@projectsites.dev' });
+    const res = await createApp({ userId: 'user-1' }).request(
+      `/api/admin/flags/missing/orgs/${ORG}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: true }),
+      },
+      env,
+    );
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,228 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+import { dbExecute, dbQueryOne } from '../services/db.js';
+import {
+  previewApiKey,
+  recordApiKeyUse,
+  resolveApiKey,
+  sealApiKey,
+  testApiKey,
+  toFormApiKeyRecord,
+  validateApiKeySecret,
+  type FormApiKeyRow,
+} from '../services/form_api_keys.js';
+import {
+  applyVaultCredentials,
+  recordVaultUsage,
+  type IntegrationRow,
+} from '../services/newsletter_dispatch.js';
+
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+
+const mockEnv = {
+  DB: {} as D1Database,
+  MCP_ENCRYPTION_KEY: Buffer.alloc(32, 7).toString('base64'),
+} as any;
+
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = jest.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+function row(overrides: Partial<FormApiKeyRow> = {}): FormApiKeyRow {
+  return {
+    id: 'key-1',
+    site_id: 'site-1',
+    org_id: 'org-1',
+    provider: 'slack-webhook',
+    label: 'Sales alerts',
+    api_key_encrypted: 'ciphertext',
+    api_key_preview: 'http…/abc',
+    config: null,
+    enabled: 1,
+    last_used_at: null,
+    last_error: null,
+    use_count: 0,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Records + sealing
+// ---------------------------------------------------------------------------
+describe('records', () => {
+  it('previews only the ends of a secret', () => {
+    expect(previewApiKey('sk-1234567890abcdef')).toBe('sk-1…cdef');
+    expect(previewApiKey('short')).toBe('sh…rt');
+  });
+
+  it('never exposes the encrypted secret', () => {
+    const record = toFormApiKeyRecord(row({ config: '{"base_url":"https://x.test"}' }));
+    expect(record).not.toHaveProperty('api_key_encrypted');
+    expect(record.enabled).toBe(true);
+    expect(record.config).toEqual({ base_url: 'https://x.test' });
+  });
+
+  it('seals a secret that resolveApiKey can open again', async () => {
+    const sealed = await sealApiKey(mockEnv, 'sk-live-secret-value');
+    expect(sealed.api_key_encrypted).not.toContain('sk-live');
+    expect(sealed.api_key_preview).toBe('sk-l…alue');
+
+    mockQueryOne.mockResolvedValueOnce({
+      id: 'key-1',
+      provider: 'openai',
+      api_key_encrypted: sealed.api_key_encrypted,
+      config: '{"model":"gpt-4o-mini"}',
+    });
+    const key = await resolveApiKey(mockEnv, 'site-1', 'key-1', ['openai']);
+    expect(key.secret).toBe('sk-live-secret-value');
+    expect(key.config).toEqual({ model: 'gpt-4o-mini' });
+  });
+
+  it('requires https URLs for webhook providers', () => {
+    expect(validateApiKeySecret('slack-webhook', 'http://hooks.slack.com/x')).toMatch(/https/);
+    expect(validateApiKeySecret('zapier', 'not a url')).toMatch(/valid URL/);
+    expect(validateApiKeySecret('n8n', 'https://n8n.example.com/webhook/1')).toBeNull();
+    expect(validateApiKeySecret('stripe', 'sk_test_123')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveApiKey + recordApiKeyUse
+// ---------------------------------------------------------------------------
+describe('resolveApiKey', () => {
+  it('rejects missing or disabled keys', async () => {
+    await expect(resolveApiKey(mockEnv, 'site-1', 'nope')).rejects.toThrow('not found or disabled');
+    const [, sql, params] = mockQueryOne.mock.calls[0]!;
+    expect(sql).toContain('enabled = 1 AND deleted_at IS NULL');
+    expect(params).toEqual(['nope', 'site-1']);
+  });
+
+  it('rejects keys for the wrong provider', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      id: 'key-1',
+      provider: 'stripe',
+      api_key_encrypted: 'x',
+      config: null,
+    });
+    await expect(
+      resolveApiKey(mockEnv, 'site-1', 'key-1', ['openai', 'anthropic']),
+    ).rejects.toThrow('cannot be used here');
+  });
+
+  it('records a use and the last error', async () => {
+    await recordApiKeyUse(mockEnv.DB, 'site-1', 'key-1', 'Upstream 401: bad token');
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('use_count = use_count + 1');
+    expect(sql).toContain('WHERE id = ? AND site_id = ?');
+    expect(params).toEqual([
+      expect.any(String),
+      'Upstream 401: bad token',
+      expect.any(String),
+      'key-1',
+      'site-1',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// testApiKey
+// ---------------------------------------------------------------------------
+describe('testApiKey', () => {
+  it('uses a read-only call for token providers', async () => {
+    const result = await testApiKey('stripe', 'sk_test_123');
+    expect(result).toEqual({ ok: true, status: 200, error: null });
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.stripe.com/v1/balance',
+      expect.objectContaining({ headers: { Authorization: 'Bearer sk_test_123' } }),
+    );
+  });
+
+  it('reports upstream failures without throwing', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      new Response('unauthorized', { status: 401 }),
+    );
+    const result = await testApiKey('anthropic', 'bad');
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe('Upstream 401: unauthorized');
+  });
+
+  it('requires a base_url for listmonk', async () => {
+    const result = await testApiKey('listmonk', 'api:token');
+    expect(result).toEqual({ ok: false, status: null, error: 'listmonk requires config.base_url' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Newsletter dispatch integration
+// ---------------------------------------------------------------------------
+describe('applyVaultCredentials', () => {
+  const base: IntegrationRow = {
+    id: 'int-1',
+    site_id: 'site-1',
+    provider: 'webhook',
+    api_key_encrypted: null,
+    list_id: null,
+    webhook_url: null,
+    config: '{"api_key_id":"key-1"}',
+  };
+
+  it('swaps the vault secret into webhook integrations', async () => {
+    const sealed = await sealApiKey(mockEnv, 'https://hooks.zapier.com/abc');
+    mockQueryOne.mockResolvedValueOnce({
+      id: 'key-1',
+      provider: 'zapier',
+      api_key_encrypted: sealed.api_key_encrypted,
+      config: null,
+    });
+    const plain = { ...base, id: 'int-2', config: null, webhook_url: 'https://example.com/hook' };
+
+    const result = await applyVaultCredentials(mockEnv, [base, plain]);
+
+    expect(result.rows.map((r) => r.webhook_url)).toEqual([
+      'https://hooks.zapier.com/abc',
+      'https://example.com/hook',
+    ]);
+    expect(result.failures).toEqual([]);
+    expect(result.keyIds.get('int-1')).toBe('key-1');
+  });
+
+  it('fails integrations whose key cannot be used without charging the key a use', async () => {
+    const mailchimp: IntegrationRow = { ...base, provider: 'mailchimp' };
+    const result = await applyVaultCredentials(mockEnv, [mailchimp]);
+    expect(result.rows).toEqual([]);
+    expect(result.failures[0]?.error).toBe('mailchimp integrations cannot use vault keys');
+    expect(result.keyIds.size).toBe(0);
+
+    await recordVaultUsage(mockEnv.DB, 'site-1', result.keyIds, result.failures);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('records uses of resolved keys against their site', async () => {
+    await recordVaultUsage(mockEnv.DB, 'site-1', new Map([['int-1', 'key-1']]), [
+      { integration_id: 'int-1', provider: 'webhook', ok: false, error: 'Upstream 500' },
+    ]);
+    expect(mockExecute.mock.calls[0]![2]).toEqual([
+      expect.any(String),
+      'Upstream 500',
+      expect.any(String),
+      'key-1',
+      'site-1',
+    ]);
+  });
+});
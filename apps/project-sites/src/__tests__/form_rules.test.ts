@@ -0,0 +1,269 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/credits.js', () => ({
+  getBalance: jest.fn().mockResolvedValue(100),
+  debitCredits: jest.fn().mockResolvedValue({ ok: true, balance: 99 }),
+}));
+
+jest.mock('../services/ai_crypto.js', () => ({
+  decrypt: jest.fn().mockResolvedValue('https://hooks.slack.com/services/T/B/x'),
+}));
+
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import { debitCredits, getBalance } from '../services/credits.js';
+import {
+  evaluateRule,
+  loadMatchingRules,
+  parseActionsPlan,
+  runFormRules,
+  type FormRuleRow,
+  type RuleSubmission,
+} from '../services/form_rules.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockBalance = getBalance as jest.MockedFunction<typeof getBalance>;
+const mockDebit = debitCredits as jest.MockedFunction<typeof debitCredits>;
+
+const aiRun = jest.fn();
+const mockEnv = { DB: {} as D1Database, AI: { run: aiRun }, RESEND_API_KEY: 're_test' } as any;
+
+const rule: FormRuleRow = {
+  id: 'rule-1',
+  site_id: 'site-1',
+  org_id: 'org-1',
+  name: 'Route sales leads',
+  description: null,
+  prompt: 'Tag quote requests as sales and ping Slack.',
+  model: '@cf/meta/llama-3.1-8b-instruct',
+  enabled: 1,
+  priority: 10,
+  trigger_form_name: null,
+  last_evaluated_at: null,
+  last_actions_count: 0,
+  last_error: null,
+  total_evaluations: 0,
+  total_actions: 0,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+const submission: RuleSubmission = {
+  id: 'sub-1',
+  site_id: 'site-1',
+  org_id: 'org-1',
+  site_slug: 'acme',
+  business_name: 'Acme',
+  form_name: 'contact',
+  email: 'lead@example.com',
+  fields: { message: 'Can I get a quote?' },
+  submitted_at: '2026-01-02T00:00:00.000Z',
+};
+
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockBalance.mockResolvedValue(100);
+  global.fetch = jest.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+// ---------------------------------------------------------------------------
+// parseActionsPlan
+// ---------------------------------------------------------------------------
+describe('parseActionsPlan', () => {
+  it('parses a fenced JSON plan', () => {
+    const raw =
+      '```json\n{"reasoning":"lead","actions":[{"type":"tag-submission","payload":{"tags":["sales"]}}]}\n```';
+    const { plan, error } = parseActionsPlan(raw);
+    expect(error).toBeNull();
+    expect(plan?.actions[0]?.type).toBe('tag-submission');
+  });
+
+  it('tolerates prose around the object', () => {
+    const { plan } = parseActionsPlan('Sure! {"reasoning":"none","actions":[]} Hope that helps.');
+    expect(plan?.actions).toEqual([]);
+  });
+
+  it('reports non-JSON output', () => {
+    expect(parseActionsPlan('no idea').error).toBe('rule output was not JSON');
+  });
+
+  it('reports schema violations', () => {
+    const { plan, error } = parseActionsPlan('{"actions":[{"type":"launch-rocket","payload":{}}]}');
+    expect(plan).toBeNull();
+    expect(error).toMatch(/failed validation/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadMatchingRules
+// ---------------------------------------------------------------------------
+describe('loadMatchingRules', () => {
+  it('filters enabled rules by form name and orders by priority', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [rule], error: null });
+    const rules = await loadMatchingRules(mockEnv.DB, 'site-1', 'contact');
+    expect(rules).toEqual([rule]);
+    const [, sql, params] = mockQuery.mock.calls[0]!;
+    expect(sql).toContain('enabled = 1');
+    expect(sql).toContain('trigger_form_name IS NULL OR trigger_form_name = ?');
+    expect(sql).toContain('ORDER BY priority ASC');
+    expect(params).toEqual(['site-1', 'contact']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// evaluateRule
+// ---------------------------------------------------------------------------
+describe('evaluateRule', () => {
+  it('skips without calling the model when credits are exhausted', async () => {
+    mockBalance.mockResolvedValueOnce(0);
+    const result = await evaluateRule(mockEnv, rule, submission);
+    expect(result.status).toBe('skipped');
+    expect(aiRun).not.toHaveBeenCalled();
+    expect(mockDebit).not.toHaveBeenCalled();
+    expect(mockExecute.mock.calls[0]![1]).toContain('INSERT INTO form_rule_evaluations');
+  });
+
+  it('executes planned actions, debits one credit and records the evaluation', async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [{ id: 'key-1', provider: 'slack-webhook', label: 'Sales' }],
+      error: null,
+    });
+    mockQueryOne
+      .mockResolvedValueOnce({ provider: 'slack-webhook', api_key_encrypted: 'enc' })
+      .mockResolvedValueOnce({ tags: null, priority: null });
+    aiRun.mockResolvedValueOnce({
+      response: JSON.stringify({
+        reasoning: 'quote request',
+        actions: [
+          { type: 'slack-webhook', api_key_id: 'key-1', payload: { text: 'New lead' } },
+          { type: 'tag-submission', payload: { tags: ['Sales'], priority: 'high' } },
+        ],
+      }),
+    });
+
+    const result = await evaluateRule(mockEnv, rule, submission);
+
+    expect(result.status).toBe('success');
+    expect(result.outcomes.map((o) => o.ok)).toEqual([true, true]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://hooks.slack.com/services/T/B/x',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(mockDebit).toHaveBeenCalledWith(
+      mockEnv,
+      expect.objectContaining({ amount: 1, reason: 'form_rule' }),
+    );
+
+    const tagCall = mockExecute.mock.calls.find(([, sql]) =>
+      sql.startsWith('UPDATE form_submissions'),
+    );
+    expect(tagCall![2]).toEqual([JSON.stringify(['sales']), 'high', 'sub-1']);
+    const sqls = mockExecute.mock.calls.map(([, sql]) => sql);
+    expect(sqls.some((s) => s.includes('INSERT INTO form_rule_evaluations'))).toBe(true);
+    expect(sqls.some((s) => s.includes('total_evaluations = total_evaluations + 1'))).toBe(true);
+    const keyUse = mockExecute.mock.calls.find(([, sql]) =>
+      sql.includes('use_count = use_count + 1'),
+    );
+    expect(keyUse![1]).toContain('WHERE id = ? AND site_id = ?');
+    expect(keyUse![2]).toEqual([expect.any(String), null, expect.any(String), 'key-1', 'site-1']);
+  });
+
+  it('fails without debiting when the model call throws', async () => {
+    aiRun.mockRejectedValueOnce(new Error('model overloaded'));
+    const result = await evaluateRule(mockEnv, rule, submission);
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('model overloaded');
+    expect(mockDebit).not.toHaveBeenCalled();
+  });
+
+  it('records a failed evaluation when the balance cannot be read', async () => {
+    mockBalance.mockRejectedValueOnce(new Error('D1_ERROR: database unavailable'));
+    const result = await evaluateRule(mockEnv, rule, submission);
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe('D1_ERROR: database unavailable');
+    expect(aiRun).not.toHaveBeenCalled();
+    expect(mockExecute.mock.calls[0]![1]).toContain('INSERT INTO form_rule_evaluations');
+  });
+
+  it('rejects email to addresses outside the allow-list', async () => {
+    aiRun.mockResolvedValueOnce({
+      response: JSON.stringify({
+        reasoning: 'forward',
+        actions: [
+          {
+            type: 'email',
+            payload: { to: 'stranger@evil.test', subject: 'Hi', body_markdown: 'x' },
+          },
+        ],
+      }),
+    });
+    const result = await evaluateRule(mockEnv, rule, submission);
+    expect(result.status).toBe('failed');
+    expect(result.outcomes[0]?.error).toMatch(/recipient must be/);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports partial when only some actions succeed', async () => {
+    mockQueryOne.mockResolvedValueOnce(null); // unknown api key
+    aiRun.mockResolvedValueOnce({
+      response: JSON.stringify({
+        reasoning: 'reply',
+        actions: [
+          { type: 'slack-webhook', api_key_id: 'missing', payload: { text: 'x' } },
+          {
+            type: 'email',
+            payload: { to: 'lead@example.com', subject: 'Thanks', body_markdown: 'We got it' },
+          },
+        ],
+      }),
+    });
+    const result = await evaluateRule(mockEnv, rule, submission);
+    expect(result.status).toBe('partial');
+    expect(result.error).toMatch(/not found or disabled/);
+    const sqls = mockExecute.mock.calls.map(([, sql]) => sql);
+    expect(sqls.some((s) => s.includes('use_count = use_count + 1'))).toBe(false);
+  });
+
+  it('performs no side effects or writes on a dry run', async () => {
+    aiRun.mockResolvedValueOnce({
+      response: JSON.stringify({
+        reasoning: 'tag',
+        actions: [{ type: 'tag-submission', payload: { tags: ['sales'] } }],
+      }),
+    });
+    const result = await evaluateRule(mockEnv, rule, submission, { dryRun: true });
+    expect(result.status).toBe('success');
+    expect(result.outcomes[0]).toMatchObject({ ok: true, dry_run: true });
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runFormRules
+// ---------------------------------------------------------------------------
+describe('runFormRules', () => {
+  it('evaluates every matching rule in order', async () => {
+    const second = { ...rule, id: 'rule-2', priority: 20 };
+    mockQuery.mockResolvedValueOnce({ data: [rule, second], error: null });
+    aiRun.mockResolvedValue({ response: '{"reasoning":"none","actions":[]}' });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const results = await runFormRules(mockEnv, submission);
+
+    expect(results.map((r) => r.rule_id)).toEqual(['rule-1', 'rule-2']);
+    expect(results.every((r) => r.status === 'success')).toBe(true);
+    warn.mockRestore();
+    aiRun.mockReset();
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for the git-based snapshot service (services/git.ts).
  *
  * Tests cover: createSnapshot, getHistory, getCommit, checkoutSnapshot,
- * revertToSnapshot, diffSnapshots, getHead.
+ * revertToSnapshot, diffSnapshots, getHead, migrateLegacySnapshots.
  */
 
 import {
@@ -13,8 +13,10 @@ import {
   revertToSnapshot,
   diffSnapshots,
   getHead,
+  migrateLegacySnapshots,
 } from '../services/git.js';
-import type { CommitMetadata } from '../services/git.js';
+import { sha256Hex } from '@project-sites/shared';
+import type { CommitMetadata, GitFile } from '../services/git.js';
 
 // ─── R2 Bucket Mock ─────────────────────────────────────────────
 
@@ -61,8 +63,16 @@ function createMockBucket(): R2Bucket {
         size: typeof item.body === 'string' ? item.body.length : 0,
       } as unknown as R2Object;
     }),
-    delete: jest.fn(async () => {}),
-    list: jest.fn(async () => ({ objects: [], delimitedPrefixes: [], truncated: false })),
+    delete: jest.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) store.delete(key);
+    }),
+    list: jest.fn(async (options?: { prefix?: string }) => ({
+      objects: [...store.keys()]
+        .filter((key) => key.startsWith(options?.prefix ?? ''))
+        .map((key) => ({ key })),
+      delimitedPrefixes: [],
+      truncated: false,
+    })),
     createMultipartUpload: jest.fn(),
     resumeMultipartUpload: jest.fn(),
     // Expose store for test assertions
@@ -110,8 +120,10 @@ describe('Git Snapshot Service', () => {
       expect(commit.files[0].name).toBe('index.html');
       expect(commit.files[1].name).toBe('style.css');
 
-      // Files should be stored in the tree
-      const indexObj = await bucket.get(`sites/test-site/git/trees/${commitId}/index.html`);
+      // Files should be stored as content-addressed blobs
+      const hash = await sha256Hex('<html>Hello</html>');
+      expect(commit.tree!['index.html']).toBe(hash);
+      const indexObj = await bucket.get(`sites/test-site/git/objects/${hash}`);
       expect(indexObj).not.toBeNull();
       const indexContent = await indexObj!.text();
       expect(indexContent).toBe('<html>Hello</html>');
@@ -165,6 +177,22 @@ describe('Git Snapshot Service', () => {
       const commit = await getCommit(bucket, 'test-site', id);
       expect(commit!.files[0].size).toBe(content.length);
     });
+
+    it('uploads unchanged content only once across commits', async () => {
+      const shared = { name: 'style.css', content: 'body { margin: 0; }' };
+      await createSnapshot(bucket, 'test-site', [shared, { name: 'a.html', content: 'a' }], 'v1');
+      await createSnapshot(bucket, 'test-site', [shared, { name: 'a.html', content: 'b' }], 'v2');
+      await createSnapshot(
+        bucket,
+        'test-site',
+        [shared, { name: 'copy.css', content: shared.content }],
+        'v3',
+      );
+
+      const objects = [...bucket._store.keys()].filter((k) => k.includes('/git/objects/'));
+      expect(objects).toHaveLength(3); // css, 'a', 'b'
+      expect([...bucket._store.keys()].some((k) => k.includes('/git/trees/'))).toBe(false);
+    });
   });
 
   // ── getHistory ────────────────────────────────────────────────
@@ -275,6 +303,25 @@ describe('Git Snapshot Service', () => {
   // ── revertToSnapshot ──────────────────────────────────────────
 
   describe('revertToSnapshot', () => {
+    it('reuses the target tree manifest without uploading blobs', async () => {
+      const v1Id = await createSnapshot(
+        bucket,
+        'test-site',
+        [{ name: 'a.html', content: '1' }],
+        'v1',
+      );
+      await createSnapshot(bucket, 'test-site', [{ name: 'a.html', content: '2' }], 'v2');
+      (bucket.put as jest.Mock).mockClear();
+
+      const result = await revertToSnapshot(bucket, 'test-site', v1Id);
+
+      const keys = (bucket.put as jest.Mock).mock.calls.map((call) => call[0] as string);
+      expect(keys.some((k) => k.includes('/objects/'))).toBe(false);
+      const v1 = await getCommit(bucket, 'test-site', v1Id);
+      const revert = await getCommit(bucket, 'test-site', result.commitId);
+      expect(revert!.tree).toEqual(v1!.tree);
+    });
+
     it('creates a new commit with the old files', async () => {
       const v1Files = [{ name: 'index.html', content: 'Version 1' }];
       const v1Id = await createSnapshot(bucket, 'test-site', v1Files, 'v1');
@@ -312,9 +359,9 @@ describe('Git Snapshot Service', () => {
         'test',
       );
 
-      // Remove the tree file to simulate empty checkout
+      // Remove the blob to simulate empty checkout
       (bucket as unknown as { _store: Map<string, unknown> })._store.delete(
-        `sites/test-site/git/trees/${id}/test.html`,
+        `sites/test-site/git/objects/${await sha256Hex('test')}`,
       );
 
       await expect(revertToSnapshot(bucket, 'test-site', id)).rejects.toThrow(
@@ -430,6 +477,23 @@ describe('Git Snapshot Service', () => {
       expect(diff.added).toEqual(['add.txt']);
       expect(diff.removed).toEqual(['delete.js']);
     });
+
+    it('compares manifests without reading file content', async () => {
+      const baseId = await createSnapshot(bucket, 'test-site', [{ name: 'a', content: '1' }], 'a');
+      const targetId = await createSnapshot(
+        bucket,
+        'test-site',
+        [{ name: 'a', content: '2' }],
+        'b',
+      );
+      (bucket.get as jest.Mock).mockClear();
+
+      const diff = await diffSnapshots(bucket, 'test-site', baseId, targetId);
+
+      expect(diff.modified).toEqual(['a']);
+      const keys = (bucket.get as jest.Mock).mock.calls.map((call) => call[0] as string);
+      expect(keys.every((k) => k.includes('/commits/'))).toBe(true);
+    });
   });
 
   // ── getHead ───────────────────────────────────────────────────
@@ -454,6 +518,94 @@ describe('Git Snapshot Service', () => {
     });
   });
 
+  // ── Legacy tree-per-commit histories ──────────────────────────
+
+  describe('legacy snapshots', () => {
+    /** Write a commit in the pre-blob layout: no manifest, files under trees/{id}/. */
+    async function putLegacyCommit(id: string, parentId: string | null, files: GitFile[]) {
+      const commit: CommitMetadata = {
+        id,
+        message: `legacy ${id}`,
+        timestamp: '2025-01-15T10:30:00.000Z',
+        author: 'ProjectSites AI',
+        parentId,
+        files: files.map((f) => ({ name: f.name, size: f.content.length })),
+      };
+      for (const f of files) {
+        await bucket.put(`sites/test-site/git/trees/${id}/${f.name}`, f.content);
+      }
+      await bucket.put(`sites/test-site/git/commits/${id}.json`, JSON.stringify(commit));
+      await bucket.put('sites/test-site/git/HEAD', id);
+    }
+
+    it('checks out and diffs commits without a manifest', async () => {
+      await putLegacyCommit('old-1', null, [
+        { name: 'index.html', content: 'v1' },
+        { name: 'style.css', content: 'css' },
+      ]);
+      const newId = await createSnapshot(
+        bucket,
+        'test-site',
+        [
+          { name: 'index.html', content: 'v2' },
+          { name: 'style.css', content: 'css' },
+        ],
+        'New layout',
+      );
+
+      const files = await checkoutSnapshot(bucket, 'test-site', 'old-1');
+      expect(files.find((f) => f.name === 'index.html')!.content).toBe('v1');
+
+      const diff = await diffSnapshots(bucket, 'test-site', 'old-1', newId);
+      expect(diff.modified).toEqual(['index.html']);
+      expect(diff.unchanged).toEqual(['style.css']);
+    });
+
+    it('reverts to a legacy commit by storing its files as blobs', async () => {
+      await putLegacyCommit('old-1', null, [{ name: 'index.html', content: 'v1' }]);
+
+      const result = await revertToSnapshot(bucket, 'test-site', 'old-1');
+
+      const revert = await getCommit(bucket, 'test-site', result.commitId);
+      expect(revert!.tree).toEqual({ 'index.html': await sha256Hex('v1') });
+      expect(revert!.parentId).toBe('old-1');
+    });
+
+    it('migrates legacy commits in place and removes their tree copies', async () => {
+      await putLegacyCommit('old-1', null, [{ name: 'index.html', content: 'same' }]);
+      await putLegacyCommit('old-2', 'old-1', [
+        { name: 'index.html', content: 'same' },
+        { name: 'about.html', content: 'about' },
+      ]);
+      const newId = await createSnapshot(
+        bucket,
+        'test-site',
+        [{ name: 'index.html', content: 'same' }],
+        'After',
+      );
+
+      const result = await migrateLegacySnapshots(bucket, 'test-site');
+
+      expect(result).toEqual({ migrated: 2, skipped: 1 });
+      expect([...bucket._store.keys()].some((k) => k.includes('/git/trees/'))).toBe(false);
+      expect([...bucket._store.keys()].filter((k) => k.includes('/git/objects/'))).toHaveLength(2);
+
+      const old2 = await getCommit(bucket, 'test-site', 'old-2');
+      expect(old2!.parentId).toBe('old-1');
+      expect(Object.keys(old2!.tree!)).toEqual(['index.html', 'about.html']);
+      const files = await checkoutSnapshot(bucket, 'test-site', 'old-2');
+      expect(files.find((f) => f.name === 'about.html')!.content).toBe('about');
+
+      const history = await getHistory(bucket, 'test-site');
+      expect(history.map((h) => h.sha)).toEqual([newId, 'old-2', 'old-1']);
+
+      expect(await migrateLegacySnapshots(bucket, 'test-site')).toEqual({
+        migrated: 0,
+        skipped: 3,
+      });
+    });
+  });
+
   // ── Edge cases ────────────────────────────────────────────────
 
   describe('edge cases', () => {
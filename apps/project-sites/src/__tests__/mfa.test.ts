@@ -0,0 +1,371 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../lib/sentry.js', () => ({
+  captureError: jest.fn(),
+  captureMessage: jest.fn(),
+  createSentry: jest.fn(),
+}));
+
+jest.mock('../lib/posthog.js', () => ({
+  capture: jest.fn(),
+  trackAuth: jest.fn(),
+  trackSite: jest.fn(),
+  trackError: jest.fn(),
+}));
+
+import { Hono } from 'hono';
+import { AUTH, sha256Hex } from '@project-sites/shared';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { authMiddleware, isMfaProtectedRequest } from '../middleware/auth.js';
+import { api } from '../routes/api.js';
+import { writeAuditLog } from '../services/audit.js';
+import { encrypt } from '../services/ai_crypto.js';
+import { dbExecute, dbQueryOne, dbUpdate } from '../services/db.js';
+import {
+  base32Decode,
+  base32Encode,
+  confirmTotp,
+  enrollTotp,
+  generateTotp,
+  matchTotpStep,
+  otpauthUri,
+  regenerateRecoveryCodes,
+  totpStep,
+  verifyMfaCode,
+} from '../services/mfa.js';
+
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockUpdate = dbUpdate as jest.Mock;
+const mockAudit = writeAuditLog as jest.Mock;
+
+const db = {} as D1Database;
+const env = {
+  DB: db,
+  ENVIRONMENT: 'test',
+  MCP_ENCRYPTION_KEY: btoa(String.fromCharCode(...new Uint8Array(32).fill(7))),
+} as unknown as Env;
+
+/** RFC 6238 appendix B seed ("12345678901234567890"). */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+async function activeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    totp_secret_encrypted: await encrypt(env, RFC_SECRET),
+    status: 'active',
+    last_used_step: 0,
+    confirmed_at: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// TOTP primitives
+// ---------------------------------------------------------------------------
+describe('TOTP', () => {
+  it('round-trips base32', () => {
+    const bytes = new TextEncoder().encode('12345678901234567890');
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET.toLowerCase())).toEqual(bytes);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', async () => {
+    expect(await generateTotp(RFC_SECRET, 59_000)).toBe('287082');
+    expect(await generateTotp(RFC_SECRET, 1_111_111_109_000)).toBe('081804');
+    expect(await generateTotp(RFC_SECRET, 2_000_000_000_000)).toBe('279037');
+  });
+
+  it('accepts one step of drift but not replays', async () => {
+    const now = 1_111_111_109_000;
+    const previous = await generateTotp(RFC_SECRET, now - AUTH.TOTP_PERIOD_SECONDS * 1000);
+    expect(await matchTotpStep(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1);
+    expect(await matchTotpStep(RFC_SECRET, previous, now, totpStep(now) - 1)).toBeNull();
+
+    const stale = await generateTotp(RFC_SECRET, now - 3 * AUTH.TOTP_PERIOD_SECONDS * 1000);
+    expect(await matchTotpStep(RFC_SECRET, stale, now)).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    const uri = otpauthUri(RFC_SECRET, 'owner@example.com');
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Project%20Sites%3Aowner%40example\.com\?/);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('digits=6');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Enrollment
+// ---------------------------------------------------------------------------
+describe('enrollTotp', () => {
+  it('stores only the encrypted secret as pending', async () => {
+    const { secret, otpauth_uri } = await enrollTotp(db, env, 'user-1', 'owner@example.com');
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(otpauth_uri).toContain(secret);
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain("WHERE user_mfa.status = 'pending'");
+    expect(params![0]).toBe('user-1');
+    expect(params![1]).not.toContain(secret);
+  });
+
+  it('refuses while two-factor is already active', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    await expect(enrollTotp(db, env, 'user-1', 'owner@example.com')).rejects.toThrow(
+      'already enabled',
+    );
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+describe('confirmTotp', () => {
+  it('activates with a valid code and issues hashed recovery codes', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow({ status: 'pending' }));
+    const code = await generateTotp(RFC_SECRET);
+
+    const { recovery_codes } = await confirmTotp(db, env, 'user-1', code);
+
+    expect(recovery_codes).toHaveLength(AUTH.MFA_RECOVERY_CODE_COUNT);
+    expect(recovery_codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(mockExecute.mock.calls[0]![1]).toContain("SET status = 'active'");
+
+    const inserts = mockExecute.mock.calls.filter(([, sql]) => sql.includes('INSERT INTO'));
+    expect(inserts).toHaveLength(AUTH.MFA_RECOVERY_CODE_COUNT);
+    const hash = await sha256Hex(`user-1:${recovery_codes[0]!.replace('-', '')}`);
+    expect(inserts[0]![2]![2]).toBe(hash);
+  });
+
+  it('rejects a wrong code without activating', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow({ status: 'pending' }));
+    await expect(confirmTotp(db, env, 'user-1', '000000')).rejects.toThrow(
+      'Invalid authentication code',
+    );
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('requires a pending enrollment', async () => {
+    await expect(confirmTotp(db, env, 'user-1', '123456')).rejects.toThrow(
+      'Start two-factor enrollment',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+describe('verifyMfaCode', () => {
+  it('accepts the current code and advances last_used_step', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    const result = await verifyMfaCode(db, env, 'user-1', await generateTotp(RFC_SECRET));
+
+    expect(result).toEqual({ method: 'totp' });
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('last_used_step < ?');
+    expect(params![0]).toBe(totpStep());
+  });
+
+  it('rejects a code already used in its window', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow({ last_used_step: totpStep() + 1 }));
+    await expect(verifyMfaCode(db, env, 'user-1', await generateTotp(RFC_SECRET))).rejects.toThrow(
+      'Invalid authentication code',
+    );
+  });
+
+  it('loses a race for the same code', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(verifyMfaCode(db, env, 'user-1', await generateTotp(RFC_SECRET))).rejects.toThrow(
+      'Invalid authentication code',
+    );
+  });
+
+  it('spends a recovery code exactly once', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    const result = await verifyMfaCode(db, env, 'user-1', 'ABCDE-23456');
+
+    expect(result).toEqual({ method: 'recovery_code' });
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('used_at IS NULL');
+    expect(params![2]).toBe(await sha256Hex('user-1:abcde23456'));
+
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(verifyMfaCode(db, env, 'user-1', 'abcde-23456')).rejects.toThrow(
+      'Invalid recovery code',
+    );
+  });
+
+  it('fails when two-factor is not enabled', async () => {
+    await expect(verifyMfaCode(db, env, 'user-1', '123456')).rejects.toThrow('not enabled');
+  });
+});
+
+describe('regenerateRecoveryCodes', () => {
+  it('replaces every existing code', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    const { recovery_codes } = await regenerateRecoveryCodes(db, 'user-1');
+
+    expect(recovery_codes).toHaveLength(AUTH.MFA_RECOVERY_CODE_COUNT);
+    expect(mockExecute.mock.calls[0]![1]).toBe('DELETE FROM mfa_recovery_codes WHERE user_id = ?');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+describe('isMfaProtectedRequest', () => {
+  it('covers billing and domain mutations only', () => {
+    expect(isMfaProtectedRequest('POST', '/api/billing/checkout')).toBe(true);
+    expect(isMfaProtectedRequest('POST', '/api/domains/purchase')).toBe(true);
+    expect(isMfaProtectedRequest('DELETE', '/api/admin/domains/h-1')).toBe(true);
+    expect(isMfaProtectedRequest('PUT', '/api/sites/s-1/hostnames/h-1/primary')).toBe(true);
+    expect(isMfaProtectedRequest('POST', '/api/sites/s-1/hostnames')).toBe(true);
+
+    expect(isMfaProtectedRequest('GET', '/api/billing/subscription')).toBe(false);
+    expect(isMfaProtectedRequest('GET', '/api/sites/s-1/hostnames')).toBe(false);
+    expect(isMfaProtectedRequest('POST', '/api/sites/s-1/deploy')).toBe(false);
+  });
+});
+
+describe('authMiddleware MFA policy', () => {
+  function createApp() {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', authMiddleware);
+    app.post('/api/billing/portal', (c) => c.json({ ok: true }));
+    app.post('/api/sites/:id/deploy', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  function queueSession(session: Record<string, unknown>, requireMfa = 0) {
+    mockQueryOne
+      .mockResolvedValueOnce({
+        id: 'sess-1',
+        user_id: 'user-1',
+        expires_at: new Date(Date.now() + 60_000).toISOString(),
+        mfa_enabled: 0,
+        mfa_verified_at: null,
+        ...session,
+      })
+      .mockResolvedValueOnce({
+        org_id: 'org-1',
+        role: 'owner',
+        billing_admin: 1,
+        require_mfa: requireMfa,
+      });
+  }
+
+  const post = (app: ReturnType<typeof createApp>, path: string) =>
+    app.request(path, { method: 'POST', headers: { Authorization: 'Bearer tok' } }, env);
+
+  it('lets sessions through when neither the org nor the user needs MFA', async () => {
+    queueSession({});
+    expect((await post(createApp(), '/api/billing/portal')).status).toBe(200);
+  });
+
+  it('blocks billing changes from unverified sessions under the org policy', async () => {
+    queueSession({}, 1);
+    const res = await post(createApp(), '/api/billing/portal');
+    const body = (await res.json()) as { error: { code: string } };
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe('MFA_REQUIRED');
+  });
+
+  it('blocks enrolled users until the session is verified', async () => {
+    queueSession({ mfa_enabled: 1 });
+    expect((await post(createApp(), '/api/billing/portal')).status).toBe(403);
+
+    queueSession({ mfa_enabled: 1, mfa_verified_at: '2026-03-01T12:00:00.000Z' }, 1);
+    expect((await post(createApp(), '/api/billing/portal')).status).toBe(200);
+  });
+
+  it('leaves other mutations alone', async () => {
+    queueSession({}, 1);
+    expect((await post(createApp(), '/api/sites/s-1/deploy')).status).toBe(200);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('POST /api/auth/mfa/verify', () => {
+  function createApp(vars: Partial<Variables> = {}) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (vars.userId) c.set('userId', vars.userId);
+      if (vars.sessionId) c.set('sessionId', vars.sessionId);
+      if (vars.orgId) c.set('orgId', vars.orgId);
+      await next();
+    });
+    app.route('/', api);
+    return app;
+  }
+
+  const verify = (app: ReturnType<typeof createApp>, code: string) =>
+    app.request(
+      '/api/auth/mfa/verify',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      },
+      env,
+    );
+
+  it('requires a session', async () => {
+    expect((await verify(createApp(), '123456')).status).toBe(401);
+  });
+
+  it('marks the session verified and audits the method', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    const app = createApp({ userId: 'user-1', sessionId: 'sess-1', orgId: 'org-1' });
+
+    const res = await verify(app, await generateTotp(RFC_SECRET));
+
+    expect(res.status).toBe(200);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      db,
+      'sessions',
+      { mfa_verified_at: expect.any(String) },
+      'id = ?',
+      ['sess-1'],
+    );
+    expect(mockAudit).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        action: 'auth.mfa_verified',
+        metadata_json: expect.objectContaining({ method: 'totp' }),
+      }),
+    );
+  });
+
+  it('audits failed attempts without verifying the session', async () => {
+    mockQueryOne.mockResolvedValueOnce(await activeRow());
+    const app = createApp({ userId: 'user-1', sessionId: 'sess-1' });
+
+    const res = await verify(app, '000000');
+
+    expect(res.status).toBe(401);
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockAudit).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ action: 'auth.mfa_verify_failed', org_id: 'system' }),
+    );
+  });
+});
@@ -0,0 +1,299 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../lib/sentry.js', () => ({
+  captureError: jest.fn(),
+  captureMessage: jest.fn(),
+  createSentry: jest.fn(),
+}));
+
+jest.mock('../lib/posthog.js', () => ({
+  capture: jest.fn(),
+  trackAuth: jest.fn(),
+  trackSite: jest.fn(),
+  trackError: jest.fn(),
+}));
+
+import { Hono } from 'hono';
+import { AUTH, sha256Hex } from '@project-sites/shared';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { api } from '../routes/api.js';
+import { dbExecute, dbInsert, dbQueryOne, dbUpdate } from '../services/db.js';
+import {
+  createPhoneOtp,
+  findOrCreateUser,
+  linkPhoneToUser,
+  verifyPhoneOtp,
+} from '../services/auth.js';
+import { consoleSmsSender, getSmsSender, type SmsSender } from '../services/sms.js';
+
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockInsert = dbInsert as jest.Mock;
+const mockUpdate = dbUpdate as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+
+const db = {} as D1Database;
+const env = { DB: db, ENVIRONMENT: 'test' } as unknown as Env;
+const PHONE = '+14155551234';
+const ctx = {
+  waitUntil: jest.fn(),
+  passThroughOnException: jest.fn(),
+} as unknown as ExecutionContext;
+
+function recordingSender(): SmsSender & { sent: { to: string; body: string }[] } {
+  const sent: { to: string; body: string }[] = [];
+  return {
+    name: 'test',
+    sent,
+    async send(to, body) {
+      sent.push({ to, body });
+    },
+  };
+}
+
+async function liveOtp(code: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'otp-1',
+    otp_hash: await sha256Hex(`${PHONE}:${code}`),
+    attempts: 0,
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+let warn: jest.SpyInstance;
+beforeEach(() => {
+  jest.clearAllMocks();
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => warn.mockRestore());
+
+// ---------------------------------------------------------------------------
+// getSmsSender
+// ---------------------------------------------------------------------------
+describe('getSmsSender', () => {
+  it('uses Twilio when all credentials are set', () => {
+    const sender = getSmsSender({
+      ...env,
+      TWILIO_ACCOUNT_SID: 'AC123',
+      TWILIO_AUTH_TOKEN: 'secret',
+      TWILIO_PHONE_NUMBER: '+15550001111',
+    } as Env);
+    expect(sender.name).toBe('twilio');
+  });
+
+  it('logs instead of sending outside production', () => {
+    expect(getSmsSender(env)).toBe(consoleSmsSender);
+  });
+
+  it('refuses to log codes in production', () => {
+    expect(() => getSmsSender({ ...env, ENVIRONMENT: 'production' } as Env)).toThrow(
+      'Text message sign-in is not configured',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createPhoneOtp
+// ---------------------------------------------------------------------------
+describe('createPhoneOtp', () => {
+  it('texts the code and stores only its hash', async () => {
+    const sender = recordingSender();
+    const { code } = await createPhoneOtp(db, env, { phone: PHONE }, sender);
+
+    expect(code).toMatch(new RegExp(`^\\d{${AUTH.OTP_LENGTH}}$`));
+    expect(sender.sent).toEqual([{ to: PHONE, body: expect.stringContaining(code) }]);
+
+    const [, table, row] = mockInsert.mock.calls[0]!;
+    expect(table).toBe('phone_otps');
+    expect(row.otp_hash).toBe(await sha256Hex(`${PHONE}:${code}`));
+    expect(JSON.stringify(row)).not.toContain(`"${code}"`);
+  });
+
+  it('retires outstanding codes for the phone', async () => {
+    await createPhoneOtp(db, env, { phone: PHONE }, recordingSender());
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('SET deleted_at = ?');
+    expect(params![2]).toBe(PHONE);
+  });
+
+  it('enforces the resend cooldown', async () => {
+    mockQueryOne.mockResolvedValueOnce({ created_at: new Date().toISOString() });
+    const sender = recordingSender();
+    await expect(createPhoneOtp(db, env, { phone: PHONE }, sender)).rejects.toThrow(
+      'A code was just sent',
+    );
+    expect(sender.sent).toHaveLength(0);
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('retires the code when the text cannot be delivered', async () => {
+    const sender: SmsSender = {
+      name: 'broken',
+      send: jest.fn().mockRejectedValue(new Error('Twilio error 400')),
+    };
+    await expect(createPhoneOtp(db, env, { phone: PHONE }, sender)).rejects.toThrow(
+      'We could not text that number',
+    );
+    const insertedId = mockInsert.mock.calls[0]![2].id;
+    expect(mockUpdate).toHaveBeenCalledWith(
+      db,
+      'phone_otps',
+      { deleted_at: expect.any(String) },
+      'id = ?',
+      [insertedId],
+    );
+  });
+
+  it('rejects numbers that are not E.164', async () => {
+    await expect(
+      createPhoneOtp(db, env, { phone: '415-555-1234' }, recordingSender()),
+    ).rejects.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// verifyPhoneOtp
+// ---------------------------------------------------------------------------
+describe('verifyPhoneOtp', () => {
+  it('marks the code verified exactly once', async () => {
+    mockQueryOne.mockResolvedValueOnce(await liveOtp('123456'));
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '123456' })).resolves.toEqual({
+      phone: PHONE,
+    });
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('SET verified = 1');
+    expect(sql).toContain('verified = 0 AND attempts < ?');
+    expect(params!.slice(1)).toEqual(['otp-1', AUTH.OTP_MAX_ATTEMPTS]);
+  });
+
+  it('fails when a concurrent request already used the code', async () => {
+    mockQueryOne.mockResolvedValueOnce(await liveOtp('123456'));
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '123456' })).rejects.toThrow(
+      'Invalid or expired code',
+    );
+  });
+
+  it('counts a wrong guess and reports the attempts left', async () => {
+    mockQueryOne.mockResolvedValueOnce(await liveOtp('123456'));
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '654321' })).rejects.toThrow(
+      `Incorrect code. ${AUTH.OTP_MAX_ATTEMPTS - 1} attempts left.`,
+    );
+    expect(mockExecute.mock.calls[0]![1]).toContain('attempts = attempts + 1');
+  });
+
+  it('locks the code once the attempts are used up', async () => {
+    mockQueryOne.mockResolvedValueOnce(
+      await liveOtp('123456', { attempts: AUTH.OTP_MAX_ATTEMPTS }),
+    );
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '123456' })).rejects.toThrow(
+      'Too many attempts',
+    );
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired and missing codes', async () => {
+    mockQueryOne.mockResolvedValueOnce(
+      await liveOtp('123456', { expires_at: new Date(Date.now() - 1000).toISOString() }),
+    );
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '123456' })).rejects.toThrow(
+      'Invalid or expired code',
+    );
+    await expect(verifyPhoneOtp(db, { phone: PHONE, code: '123456' })).rejects.toThrow(
+      'Invalid or expired code',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Account linking
+// ---------------------------------------------------------------------------
+describe('findOrCreateUser with a phone', () => {
+  it('signs in to the account that owns the verified phone', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce({ id: 'user-1', email: 'owner@example.com' })
+      .mockResolvedValueOnce({ org_id: 'org-1' });
+
+    const result = await findOrCreateUser(db, { phone: PHONE });
+
+    expect(mockQueryOne.mock.calls[0]![1]).toContain('WHERE phone = ?');
+    expect(result).toEqual({ user_id: 'user-1', org_id: 'org-1', is_new: false });
+  });
+
+  it('creates a phone-only user when no account matches', async () => {
+    const result = await findOrCreateUser(db, { phone: PHONE });
+    expect(result.is_new).toBe(true);
+    expect(mockInsert).toHaveBeenCalledWith(
+      db,
+      'users',
+      expect.objectContaining({ email: null, phone: PHONE }),
+    );
+  });
+});
+
+describe('linkPhoneToUser', () => {
+  it('attaches the phone to the signed-in user', async () => {
+    await linkPhoneToUser(db, 'user-1', PHONE);
+    expect(mockUpdate).toHaveBeenCalledWith(db, 'users', { phone: PHONE }, 'id = ?', ['user-1']);
+  });
+
+  it('refuses a phone owned by another account', async () => {
+    mockQueryOne.mockResolvedValueOnce({ id: 'user-2' });
+    await expect(linkPhoneToUser(db, 'user-1', PHONE)).rejects.toThrow(
+      'already linked to another account',
+    );
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('POST /api/auth/phone/verify', () => {
+  function createApp(userId?: string) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      await next();
+    });
+    app.route('/', api);
+    return app;
+  }
+
+  function verify(app: Hono<{ Bindings: Env; Variables: Variables }>, code: string) {
+    return app.request(
+      '/api/auth/phone/verify',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: PHONE, code }),
+      },
+      env,
+      ctx,
+    );
+  }
+
+  it('returns 401 for a wrong code', async () => {
+    mockQueryOne.mockResolvedValueOnce(await liveOtp('123456'));
+    const res = await verify(createApp(), '000000');
+    expect(res.status).toBe(401);
+  });
+
+  it('links the phone instead of starting a session when signed in', async () => {
+    mockQueryOne.mockResolvedValueOnce(await liveOtp('123456'));
+    const res = await verify(createApp('user-1'), '123456');
+    const body = (await res.json()) as { data: Record<string, unknown> };
+
+    expect(res.status).toBe(200);
+    expect(body.data).toEqual({ phone: PHONE, user_id: 'user-1', linked: true });
+    expect(mockInsert).not.toHaveBeenCalledWith(db, 'sessions', expect.anything());
+  });
+});
@@ -217,8 +217,8 @@ describe('prompt eval: registry integrity', () => {
 
   it('registers the correct number of prompt specs (including variants)', () => {
     const allSpecs = listAll();
-    // 5 legacy + 8 v2 workflow prompts = 13 total
-    expect(allSpecs.length).toBe(13);
+    // 5 legacy + 8 v2 workflow prompts + 1 translation prompt = 14 total
+    expect(allSpecs.length).toBe(14);
   });
 
   it('every registered prompt has valid template placeholders', () => {
@@ -297,7 +297,7 @@ describe('Billing Service Error Paths', () => {
 
   describe('handleSubscriptionUpdated', () => {
     it('returns early with no DB update when org_id missing from metadata', async () => {
-      const result = await handleSubscriptionUpdated(mockDb, {
+      const result = await handleSubscriptionUpdated(mockDb, mockEnv, {
         id: 'sub_1',
         status: 'active',
         cancel_at_period_end: false,
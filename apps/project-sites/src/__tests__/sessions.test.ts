@@ -0,0 +1,244 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { api } from '../routes/api.js';
+import { writeAuditLog } from '../services/audit.js';
+import { dbExecute, dbQuery } from '../services/db.js';
+import {
+  describeUserAgent,
+  maskIpAddress,
+  revokeAllUserSessions,
+  revokeOtherSessions,
+  revokeUserSession,
+} from '../services/auth.js';
+import { assertCanForceSignOut } from '../services/team.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockAudit = writeAuditLog as jest.Mock;
+
+const db = {} as D1Database;
+const env = { DB: db, ENVIRONMENT: 'test' } as unknown as Env;
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0';
+const FIREFOX_ANDROID = 'Mozilla/5.0 (Android 14; Mobile; rv:127.0) Gecko/127.0 Firefox/127.0';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Display helpers
+// ---------------------------------------------------------------------------
+describe('describeUserAgent', () => {
+  it('names the browser and platform', () => {
+    expect(describeUserAgent(CHROME_MAC)).toBe('Chrome on macOS');
+    expect(describeUserAgent(SAFARI_IPHONE)).toBe('Safari on iOS');
+    expect(describeUserAgent(EDGE_WINDOWS)).toBe('Edge on Windows');
+    expect(describeUserAgent(FIREFOX_ANDROID)).toBe('Firefox on Android');
+  });
+
+  it('falls back for missing or unrecognised agents', () => {
+    expect(describeUserAgent(null)).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.5.0')).toBe('Unknown device');
+  });
+});
+
+describe('maskIpAddress', () => {
+  it('hides the host part of IPv4 and IPv6 addresses', () => {
+    expect(maskIpAddress('203.0.113.42')).toBe('203.0.113.x');
+    expect(maskIpAddress('2001:db8:85a3:0:0:8a2e:370:7334')).toBe('2001:db8:85a3::…');
+  });
+
+  it('returns null when there is nothing to show', () => {
+    expect(maskIpAddress(null)).toBeNull();
+    expect(maskIpAddress('not-an-ip')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Revocation
+// ---------------------------------------------------------------------------
+describe('revokeUserSession', () => {
+  it("only touches the user's own live session", async () => {
+    await expect(revokeUserSession(db, 'user-1', 'sess-2')).resolves.toBe(true);
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('WHERE id = ? AND user_id = ? AND deleted_at IS NULL');
+    expect(params!.slice(2)).toEqual(['sess-2', 'user-1']);
+  });
+
+  it('reports false when nothing matched', async () => {
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(revokeUserSession(db, 'user-1', 'someone-elses')).resolves.toBe(false);
+  });
+});
+
+describe('revokeOtherSessions', () => {
+  it('keeps the current session', async () => {
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 3 });
+    await expect(revokeOtherSessions(db, 'user-1', 'sess-current')).resolves.toBe(3);
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('user_id = ? AND id != ?');
+    expect(params!.slice(2)).toEqual(['user-1', 'sess-current']);
+  });
+});
+
+describe('revokeAllUserSessions', () => {
+  it('revokes every live session of the user', async () => {
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 2 });
+    await expect(revokeAllUserSessions(db, 'user-2')).resolves.toBe(2);
+    expect(mockExecute.mock.calls[0]![2]!.slice(2)).toEqual(['user-2']);
+  });
+});
+
+describe('assertCanForceSignOut', () => {
+  const admin = { userId: 'u-admin', role: 'admin' };
+
+  it('lets owners and admins sign out members at or below their role', () => {
+    expect(() => assertCanForceSignOut(admin, { userId: 'u-2', role: 'member' })).not.toThrow();
+    expect(() =>
+      assertCanForceSignOut({ userId: 'u-o', role: 'owner' }, { userId: 'u-2', role: 'admin' }),
+    ).not.toThrow();
+  });
+
+  it('blocks members, self sign-out and the owner', () => {
+    expect(() =>
+      assertCanForceSignOut({ userId: 'u-m', role: 'member' }, { userId: 'u-2', role: 'viewer' }),
+    ).toThrow('Only owners and admins');
+    expect(() => assertCanForceSignOut(admin, { userId: 'u-admin', role: 'admin' })).toThrow(
+      'Sessions list',
+    );
+    expect(() => assertCanForceSignOut(admin, { userId: 'u-o', role: 'owner' })).toThrow(
+      'The owner cannot be signed out',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('session routes', () => {
+  function createApp(userId?: string, sessionId?: string) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (userId) c.set('userId', userId);
+      if (sessionId) c.set('sessionId', sessionId);
+      await next();
+    });
+    app.route('/', api);
+    return app;
+  }
+
+  it('requires a session', async () => {
+    const res = await createApp().request('/api/auth/sessions', {}, env);
+    expect(res.status).toBe(401);
+  });
+
+  it('lists sessions with a device summary, masked IP and the current flag', async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [
+        {
+          id: 'sess-1',
+          device_info: CHROME_MAC,
+          ip_address: '198.51.100.7',
+          last_active_at: '2026-10-18T10:00:00.000Z',
+          created_at: '2026-10-01T10:00:00.000Z',
+        },
+        {
+          id: 'sess-2',
+          device_info: null,
+          ip_address: null,
+          last_active_at: '2026-10-10T10:00:00.000Z',
+          created_at: '2026-10-10T09:00:00.000Z',
+        },
+      ],
+      error: null,
+    });
+
+    const res = await createApp('user-1', 'sess-1').request('/api/auth/sessions', {}, env);
+    const body = (await res.json()) as { data: Array<Record<string, unknown>> };
+
+    expect(res.status).toBe(200);
+    expect(body.data).toEqual([
+      {
+        id: 'sess-1',
+        device: 'Chrome on macOS',
+        ip_hint: '198.51.100.x',
+        created_at: '2026-10-01T10:00:00.000Z',
+        last_active_at: '2026-10-18T10:00:00.000Z',
+        current: true,
+      },
+      {
+        id: 'sess-2',
+        device: 'Unknown device',
+        ip_hint: null,
+        created_at: '2026-10-10T09:00:00.000Z',
+        last_active_at: '2026-10-10T10:00:00.000Z',
+        current: false,
+      },
+    ]);
+    expect(JSON.stringify(body)).not.toContain(CHROME_MAC);
+  });
+
+  it('revokes one of the caller’s sessions and audits it', async () => {
+    const res = await createApp('user-1', 'sess-1').request(
+      '/api/auth/sessions/sess-2',
+      { method: 'DELETE' },
+      env,
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ data: { revoked: true, current: false } });
+    expect(mockAudit).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        action: 'auth.session_revoked',
+        actor_id: 'user-1',
+        metadata_json: { session_id: 'sess-2' },
+      }),
+    );
+  });
+
+  it('returns 404 for a session the caller does not own', async () => {
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    const res = await createApp('user-1', 'sess-1').request(
+      '/api/auth/sessions/sess-other',
+      { method: 'DELETE' },
+      env,
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it('signs out every other session', async () => {
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 4 });
+    const res = await createApp('user-1', 'sess-1').request(
+      '/api/auth/sessions/revoke-others',
+      { method: 'POST' },
+      env,
+    );
+    expect(await res.json()).toEqual({ data: { revoked: 4 } });
+    expect(mockExecute.mock.calls[0]![2]).toEqual([
+      expect.any(String),
+      expect.any(String),
+      'user-1',
+      'sess-1',
+    ]);
+  });
+});
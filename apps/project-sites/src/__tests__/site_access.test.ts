@@ -0,0 +1,289 @@
+jest.mock('../services/db.js', () => ({
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+}));
+jest.mock('../services/notifications.js', () => ({
+  notifySiteAccessLink: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { dbQueryOne } from '../services/db.js';
+import { notifySiteAccessLink } from '../services/notifications.js';
+import {
+  ACCESS_COOKIE,
+  ACCESS_PATH,
+  accessFromRow,
+  hashAccessPassword,
+  markPrivate,
+  renderAccessPage,
+  signAccessCookie,
+  signAccessGrant,
+  siteAccessGate,
+  verifyAccessCookie,
+  verifyAccessGrant,
+  verifyAccessPassword,
+  type SiteAccess,
+} from '../services/site_access.js';
+import type { ResolvedSite } from '../services/site_serving.js';
+
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockNotify = notifySiteAccessLink as jest.MockedFunction<typeof notifySiteAccessLink>;
+
+const HOST = 'vitos.projectsites.dev';
+const SECRET = 'a'.repeat(64);
+
+const env = {
+  DB: {} as D1Database,
+  CACHE_KV: {
+    get: jest.fn().mockResolvedValue(null),
+    put: jest.fn().mockResolvedValue(undefined),
+  },
+  SITES_BUCKET: { get: jest.fn().mockResolvedValue(null) },
+} as any;
+
+const siteWith = (access?: SiteAccess): ResolvedSite => ({
+  site_id: 'site-1',
+  slug: 'vitos',
+  org_id: 'org-1',
+  current_build_version: 'v1',
+  plan: 'paid',
+  ...(access ? { access } : {}),
+});
+
+/** Answer the secrets query with `hash`/`SECRET` and the members query with `member`. */
+const stubRows = (hash: string | null, member: { id: string } | null = null) =>
+  mockQueryOne.mockImplementation(async (_db, sql) =>
+    sql.includes('access_secret')
+      ? ({ access_password_hash: hash, access_secret: SECRET } as never)
+      : (member as never),
+  );
+
+const form = (path: string, fields: Record<string, string>, cookie?: string) =>
+  new Request(`https://${HOST}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: new URLSearchParams(fields).toString(),
+  });
+
+describe('access passwords', () => {
+  it('round-trips a PBKDF2 hash with a random salt', async () => {
+    const hash = await hashAccessPassword('opensesame');
+    expect(hash).toMatch(/^pbkdf2\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await hashAccessPassword('opensesame')).not.toBe(hash);
+    expect(await verifyAccessPassword('opensesame', hash)).toBe(true);
+    expect(await verifyAccessPassword('OpenSesame', hash)).toBe(false);
+  });
+
+  it('rejects malformed hashes', async () => {
+    expect(await verifyAccessPassword('x', 'plaintext')).toBe(false);
+    expect(await verifyAccessPassword('x', 'pbkdf2$9999999$00$00')).toBe(false);
+  });
+});
+
+describe('access cookies and grants', () => {
+  const now = Date.UTC(2026, 9, 18);
+
+  it('are bound to the host and expire', async () => {
+    const cookie = await signAccessCookie(SECRET, HOST, now);
+    expect(await verifyAccessCookie(SECRET, HOST, cookie, now)).toBe(true);
+    expect(await verifyAccessCookie(SECRET, 'other.projectsites.dev', cookie, now)).toBe(false);
+    expect(await verifyAccessCookie('b'.repeat(64), HOST, cookie, now)).toBe(false);
+    expect(await verifyAccessCookie(SECRET, HOST, cookie, now + 8 * 86_400_000)).toBe(false);
+  });
+
+  it('expires email grants after 15 minutes', async () => {
+    const grant = await signAccessGrant(SECRET, HOST, 'user-1', now);
+    expect(await verifyAccessGrant(SECRET, HOST, grant, now + 14 * 60_000)).toBe(true);
+    expect(await verifyAccessGrant(SECRET, HOST, grant, now + 16 * 60_000)).toBe(false);
+    expect(await verifyAccessGrant(SECRET, HOST, grant.replace('user-1', 'user-2'), now)).toBe(
+      false,
+    );
+  });
+});
+
+describe('accessFromRow', () => {
+  it('is undefined for public rows', () => {
+    expect(accessFromRow({ visibility: 'public' })).toBeUndefined();
+    expect(accessFromRow({ visibility: null })).toBeUndefined();
+  });
+
+  it('carries only the visibility and snapshot for gated rows', () => {
+    expect(accessFromRow({ visibility: 'members' })).toEqual({ visibility: 'members' });
+    expect(accessFromRow({ visibility: 'password' }, 'snap-1')).toEqual({
+      visibility: 'password',
+      snapshot_id: 'snap-1',
+    });
+  });
+});
+
+describe('renderAccessPage', () => {
+  const brand = {
+    name: '<b>Vitos</b>',
+    logo_url: null,
+    primary_color: '#112233',
+    font_heading: null,
+    font_body: null,
+  };
+
+  it('shows a password form that posts back with the return path', () => {
+    const html = renderAccessPage(brand, { visibility: 'password', next: '/menu?x="1"' });
+    expect(html).toContain(`action="${ACCESS_PATH}"`);
+    expect(html).toContain('name="password"');
+    expect(html).toContain('value="/menu?x=&quot;1&quot;"');
+    expect(html).toContain('&lt;b&gt;Vitos&lt;/b&gt;');
+    expect(html).toContain('#112233');
+    expect(html).toContain('content="noindex"');
+  });
+
+  it('shows the members email form and the sent state', () => {
+    expect(renderAccessPage(brand, { visibility: 'members', next: '/' })).toContain('name="email"');
+    const sent = renderAccessPage(brand, { visibility: 'members', next: '/', sent: true });
+    expect(sent).toContain('Check your email');
+    expect(sent).not.toContain('<form');
+  });
+});
+
+describe('markPrivate', () => {
+  it('adds noindex and makes cache headers private', () => {
+    const res = markPrivate(
+      new Response('ok', { headers: { 'Cache-Control': 'public, max-age=60, must-revalidate' } }),
+    );
+    expect(res.headers.get('X-Robots-Tag')).toBe('noindex');
+    expect(res.headers.get('Cache-Control')).toBe('private, max-age=60, must-revalidate');
+  });
+});
+
+describe('siteAccessGate', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('lets public sites through', async () => {
+    expect(await siteAccessGate(env, siteWith(), new Request(`https://${HOST}/`))).toBeNull();
+  });
+
+  describe('password', () => {
+    const access: SiteAccess = { visibility: 'password' };
+    let hash: string;
+    beforeAll(async () => {
+      hash = await hashAccessPassword('opensesame');
+    });
+    beforeEach(() => stubRows(hash));
+
+    it('shows the interstitial to visitors without a cookie', async () => {
+      const res = await siteAccessGate(env, siteWith(access), new Request(`https://${HOST}/menu`));
+      const queries = mockQueryOne.mock.calls.map((call) => call[1]);
+      expect(queries.some((sql) => sql.includes('access_secret'))).toBe(false);
+      expect(res!.status).toBe(401);
+      expect(res!.headers.get('X-Robots-Tag')).toBe('noindex');
+      expect(res!.headers.get('Cache-Control')).toBe('no-store');
+      const html = await res!.text();
+      expect(html).toContain('password protected');
+      expect(html).toContain('value="/menu"');
+    });
+
+    it('sets a host-only cookie for the right password', async () => {
+      const res = await siteAccessGate(
+        env,
+        siteWith(access),
+        form(ACCESS_PATH, { password: 'opensesame', next: '/menu' }),
+      );
+      expect(res!.status).toBe(303);
+      expect(res!.headers.get('Location')).toBe('/menu');
+      const cookie = res!.headers.get('Set-Cookie')!;
+      expect(cookie).toMatch(new RegExp(`^${ACCESS_COOKIE}=\\d+\\.[0-9a-f]{64};`));
+      expect(cookie).toContain('HttpOnly; Secure; SameSite=Lax');
+      expect(cookie).not.toContain('Domain=');
+    });
+
+    it('rejects a wrong password and off-site return paths', async () => {
+      const wrong = await siteAccessGate(
+        env,
+        siteWith(access),
+        form(ACCESS_PATH, { password: 'nope', next: '/' }),
+      );
+      expect(wrong!.status).toBe(401);
+      expect(await wrong!.text()).toContain('not correct');
+
+      const offsite = await siteAccessGate(
+        env,
+        siteWith(access),
+        form(ACCESS_PATH, { password: 'opensesame', next: '//evil.example' }),
+      );
+      expect(offsite!.headers.get('Location')).toBe('/');
+    });
+
+    it('passes visitors with a valid cookie', async () => {
+      const cookie = await signAccessCookie(SECRET, HOST);
+      const req = new Request(`https://${HOST}/menu`, {
+        headers: { Cookie: `other=1; ${ACCESS_COOKIE}=${cookie}` },
+      });
+      expect(await siteAccessGate(env, siteWith(access), req)).toBeNull();
+      expect(mockQueryOne.mock.calls[0]![1]).toContain('FROM sites WHERE id = ?');
+      expect(mockQueryOne.mock.calls[0]![2]).toEqual(['site-1']);
+    });
+
+    it("reads a snapshot's own secrets from its row", async () => {
+      const cookie = await signAccessCookie(SECRET, HOST);
+      const req = new Request(`https://${HOST}/`, {
+        headers: { Cookie: `${ACCESS_COOKIE}=${cookie}` },
+      });
+      const snapshot = siteWith({ visibility: 'password', snapshot_id: 'snap-1' });
+      expect(await siteAccessGate(env, snapshot, req)).toBeNull();
+      expect(mockQueryOne.mock.calls[0]![1]).toContain('FROM site_snapshots WHERE id = ?');
+      expect(mockQueryOne.mock.calls[0]![2]).toEqual(['snap-1']);
+    });
+  });
+
+  describe('members', () => {
+    const access: SiteAccess = { visibility: 'members' };
+    beforeEach(() => stubRows(null));
+
+    it('emails a sign-in link to org members', async () => {
+      stubRows(null, { id: 'user-1' });
+      const res = await siteAccessGate(
+        env,
+        siteWith(access),
+        form(ACCESS_PATH, { email: 'Owner@Vitos.example', next: '/staff' }),
+      );
+      expect(res!.status).toBe(200);
+      expect(await res!.text()).toContain('Check your email');
+      expect(mockQueryOne.mock.calls[0]![2]).toEqual(['owner@vitos.example', 'org-1']);
+      expect(mockQueryOne.mock.calls[1]![2]).toEqual(['site-1']);
+      const { url } = mockNotify.mock.calls[0]![1];
+      expect(url).toContain(`https://${HOST}${ACCESS_PATH}?grant=user-1.`);
+      expect(url).toContain('next=%2Fstaff');
+    });
+
+    it('gives non-members the same answer without sending email', async () => {
+      const res = await siteAccessGate(
+        env,
+        siteWith(access),
+        form(ACCESS_PATH, { email: 'stranger@example.com' }),
+      );
+      expect(await res!.text()).toContain('Check your email');
+      expect(mockNotify).not.toHaveBeenCalled();
+    });
+
+    it('exchanges a valid grant for a cookie', async () => {
+      const grant = await signAccessGrant(SECRET, HOST, 'user-1');
+      const res = await siteAccessGate(
+        env,
+        siteWith(access),
+        new Request(`https://${HOST}${ACCESS_PATH}?grant=${grant}&next=%2Fstaff`),
+      );
+      expect(res!.status).toBe(303);
+      expect(res!.headers.get('Location')).toBe('/staff');
+      expect(res!.headers.get('Set-Cookie')).toContain(`${ACCESS_COOKIE}=`);
+    });
+
+    it('does not accept a grant for a password-protected site', async () => {
+      const grant = await signAccessGrant(SECRET, HOST, 'user-1');
+      const res = await siteAccessGate(
+        env,
+        siteWith({ visibility: 'password' }),
+        new Request(`https://${HOST}${ACCESS_PATH}?grant=${grant}`),
+      );
+      expect(res!.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,707 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+  dbUpdate: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { api } from '../routes/api.js';
+import { writeAuditLog } from '../services/audit.js';
+import { dbExecute, dbQueryOne } from '../services/db.js';
+import {
+  commitChanges,
+  commitOnBase,
+  createBranch,
+  createSnapshot,
+  deleteBranch,
+  getCurrentBranch,
+  getHead,
+  getHistory,
+  listBranches,
+  mergeBranch,
+  readBranchFile,
+  switchBranch,
+} from '../services/git.js';
+import {
+  liveCommit,
+  parsePreviewLabel,
+  previewUrl,
+  publishCommit,
+  syncMainWithLive,
+} from '../services/site_branches.js';
+import { resolveSite, serveSiteFromR2 } from '../services/site_serving.js';
+
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockAudit = writeAuditLog as jest.Mock;
+
+const SLUG = 'joes-pizza';
+const SITE_ID = '22222222-2222-4222-8222-222222222222';
+const ORG = '11111111-1111-4111-8111-111111111111';
+
+/** In-memory R2 bucket: string bodies, prefix listing, multi-key delete. */
+function createBucket() {
+  const store = new Map<string, { body: string; contentType?: string }>();
+  const bucket = {
+    put: jest.fn(
+      async (key: string, body: string, options?: { httpMetadata?: { contentType?: string } }) => {
+        store.set(key, { body, contentType: options?.httpMetadata?.contentType });
+        return { key } as unknown as R2Object;
+      },
+    ),
+    get: jest.fn(async (key: string) => {
+      const item = store.get(key);
+      if (!item) return null;
+      return {
+        key,
+        body: item.body,
+        size: item.body.length,
+        httpMetadata: { contentType: item.contentType },
+        text: async () => item.body,
+        json: async () => JSON.parse(item.body),
+      } as unknown as R2ObjectBody;
+    }),
+    head: jest.fn(async (key: string) => (store.has(key) ? ({ key } as R2Object) : null)),
+    delete: jest.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) store.delete(key);
+    }),
+    list: jest.fn(async (options?: { prefix?: string }) => ({
+      objects: [...store.keys()]
+        .filter((key) => key.startsWith(options?.prefix ?? ''))
+        .map((key) => ({ key, size: store.get(key)!.body.length })),
+      truncated: false,
+    })),
+    store,
+  };
+  return bucket as typeof bucket & R2Bucket;
+}
+
+let bucket: ReturnType<typeof createBucket>;
+let kv: { get: jest.Mock; put: jest.Mock; delete: jest.Mock };
+let env: Env;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  bucket = createBucket();
+  kv = {
+    get: jest.fn().mockResolvedValue(null),
+    put: jest.fn().mockResolvedValue(undefined),
+    delete: jest.fn().mockResolvedValue(undefined),
+  };
+  env = {
+    DB: {} as D1Database,
+    SITES_BUCKET: bucket,
+    CACHE_KV: kv,
+    ENVIRONMENT: 'test',
+  } as unknown as Env;
+});
+
+async function seedMain(files = [{ name: 'index.html', content: '<h1>Live</h1>' }]) {
+  return createSnapshot(bucket, SLUG, files, 'Initial', 'test', 'v1');
+}
+
+// ---------------------------------------------------------------------------
+// Git branches
+// ---------------------------------------------------------------------------
+describe('branches', () => {
+  it('creates a branch at the tip of main and lists it', async () => {
+    const tip = await seedMain();
+    expect(await createBranch(bucket, SLUG, 'redesign')).toBe(tip);
+
+    const branches = await listBranches(bucket, SLUG);
+    expect(branches).toEqual([
+      { name: 'main', commitId: tip, current: true },
+      { name: 'redesign', commitId: tip, current: false },
+    ]);
+    await expect(createBranch(bucket, SLUG, 'redesign')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(createBranch(bucket, SLUG, 'x', 'missing')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('commits to a branch without moving main', async () => {
+    const tip = await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+
+    await commitChanges(
+      bucket,
+      SLUG,
+      'redesign',
+      { write: [{ name: 'about.html', content: 'About' }] },
+      'Add about',
+    );
+
+    expect(await getHead(bucket, SLUG)).toBe(tip);
+    const history = await getHistory(bucket, SLUG, 20, 'redesign');
+    expect(history.map((h) => h.message)).toEqual(['Add about', 'Initial']);
+    // The edit is not the v1 build, so it must not claim to be
+    expect(history[0]!.buildVersion).toBeUndefined();
+    expect(await (await readBranchFile(bucket, SLUG, 'redesign', 'about.html'))!.text()).toBe(
+      'About',
+    );
+    expect(await readBranchFile(bucket, SLUG, 'main', 'about.html')).toBeNull();
+  });
+
+  it('switches and falls back to main when the current branch is deleted', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await switchBranch(bucket, SLUG, 'redesign');
+    expect(await getCurrentBranch(bucket, SLUG)).toBe('redesign');
+
+    await deleteBranch(bucket, SLUG, 'redesign');
+    expect(await getCurrentBranch(bucket, SLUG)).toBe('main');
+    await expect(deleteBranch(bucket, SLUG, 'main')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(switchBranch(bucket, SLUG, 'gone')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('fast-forwards main and reports an already merged branch', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    const branchTip = await commitChanges(
+      bucket,
+      SLUG,
+      'redesign',
+      { write: [{ name: 'index.html', content: '<h1>New</h1>' }] },
+      'Redesign',
+    );
+
+    expect(await mergeBranch(bucket, SLUG, 'redesign')).toEqual({
+      commitId: branchTip,
+      fastForward: true,
+    });
+    expect(await getHead(bucket, SLUG)).toBe(branchTip);
+    expect(await mergeBranch(bucket, SLUG, 'redesign')).toEqual({
+      commitId: branchTip,
+      fastForward: false,
+    });
+  });
+
+  it('refuses to merge diverged branches', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await commitChanges(bucket, SLUG, 'redesign', { remove: ['index.html'] }, 'Remove');
+    await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'index.html', content: 'hotfix' }] },
+      'Hotfix',
+    );
+
+    await expect(mergeBranch(bucket, SLUG, 'redesign')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Live site
+// ---------------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Edits against a base commit
+// ---------------------------------------------------------------------------
+describe('commitOnBase', () => {
+  const PAGE =
+    '<h1>Joe’s Pizza</h1>\n<p>Open 11-9</p>\n<p>Call 555-0100</p>\n<footer>2025</footer>\n';
+
+  async function seedPage() {
+    return seedMain([
+      { name: 'index.html', content: PAGE },
+      { name: 'menu.html', content: 'Margherita\n' },
+    ]);
+  }
+
+  async function fileAt(branch: string, name: string) {
+    const obj = await readBranchFile(bucket, SLUG, branch, name);
+    return obj ? obj.text() : null;
+  }
+
+  it('commits straight on top when the base is still the tip', async () => {
+    const base = await seedPage();
+    const result = await commitOnBase(
+      bucket,
+      SLUG,
+      'main',
+      base,
+      { write: [{ name: 'menu.html', content: 'Marinara\n' }] },
+      'Edit menu',
+    );
+    expect(result).toMatchObject({ headId: base, merged: [], conflicts: [] });
+    expect(await getHead(bucket, SLUG)).toBe(result.commitId);
+    expect(await fileAt('main', 'menu.html')).toBe('Marinara\n');
+  });
+
+  it('merges edits to different lines with what was committed since', async () => {
+    const base = await seedPage();
+    const other = await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'index.html', content: PAGE.replace('11-9', '10-10') }] },
+      'Hours',
+    );
+
+    const result = await commitOnBase(
+      bucket,
+      SLUG,
+      'main',
+      base,
+      {
+        write: [
+          { name: 'index.html', content: PAGE.replace('2025', '2026') },
+          { name: 'menu.html', content: 'Marinara\n' },
+        ],
+      },
+      'Footer',
+    );
+
+    expect(result.headId).toBe(other);
+    expect(result.merged.map((f) => f.name)).toEqual(['index.html']);
+    expect(await fileAt('main', 'index.html')).toBe(
+      PAGE.replace('11-9', '10-10').replace('2025', '2026'),
+    );
+    expect(await fileAt('main', 'menu.html')).toBe('Marinara\n');
+  });
+
+  it('returns conflicts without committing anything', async () => {
+    const base = await seedPage();
+    const other = await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'index.html', content: PAGE.replace('11-9', '10-10') }] },
+      'Hours',
+    );
+
+    const result = await commitOnBase(
+      bucket,
+      SLUG,
+      'main',
+      base,
+      {
+        write: [
+          { name: 'index.html', content: PAGE.replace('11-9', 'noon-8') },
+          { name: 'menu.html', content: 'Marinara\n' },
+        ],
+      },
+      'Hours again',
+    );
+
+    expect(result.commitId).toBeNull();
+    expect(result.conflicts).toEqual([
+      {
+        name: 'index.html',
+        content: expect.stringContaining('<<<<<<< head'),
+        hunks: [
+          {
+            baseStart: 2,
+            base: ['<p>Open 11-9</p>'],
+            head: ['<p>Open 10-10</p>'],
+            incoming: ['<p>Open noon-8</p>'],
+          },
+        ],
+      },
+    ]);
+    expect(await getHead(bucket, SLUG)).toBe(other);
+    expect(await fileAt('main', 'menu.html')).toBe('Margherita\n');
+  });
+
+  it('only deletes files nobody changed since the base', async () => {
+    const base = await seedPage();
+    await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'menu.html', content: 'Margherita\nMarinara\n' }] },
+      'Menu',
+    );
+
+    const blocked = await commitOnBase(
+      bucket,
+      SLUG,
+      'main',
+      base,
+      { remove: ['menu.html'] },
+      'Drop menu',
+    );
+    expect(blocked.conflicts[0]).toMatchObject({
+      name: 'menu.html',
+      hunks: [{ head: ['Margherita', 'Marinara'], incoming: [] }],
+    });
+
+    const clean = await commitOnBase(
+      bucket,
+      SLUG,
+      'main',
+      base,
+      { remove: ['index.html'] },
+      'Drop index',
+    );
+    expect(clean.commitId).not.toBeNull();
+    expect(await fileAt('main', 'index.html')).toBeNull();
+  });
+
+  it('rejects a base outside the branch history', async () => {
+    await seedPage();
+    await expect(
+      commitOnBase(
+        bucket,
+        SLUG,
+        'main',
+        '33333333-3333-4333-8333-333333333333',
+        { write: [{ name: 'menu.html', content: 'x' }] },
+        'Edit',
+      ),
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('parsePreviewLabel', () => {
+  it('splits at the first separator', () => {
+    expect(parsePreviewLabel('redesign--joes-pizza')).toEqual({
+      branch: 'redesign',
+      slug: 'joes-pizza',
+    });
+    expect(parsePreviewLabel('joes-pizza')).toBeNull();
+    expect(parsePreviewLabel('--joes-pizza')).toBeNull();
+    expect(previewUrl('redesign', SLUG)).toBe('https://redesign--joes-pizza.projectsites.dev');
+  });
+});
+
+describe('syncMainWithLive', () => {
+  it('imports the live version once, text files only', async () => {
+    bucket.store.set(`sites/${SLUG}/v2/index.html`, { body: '<h1>Live</h1>' });
+    bucket.store.set(`sites/${SLUG}/v2/logo.png`, { body: 'PNG' });
+    bucket.store.set(`sites/${SLUG}/v2/_meta/chat.json`, { body: '{}' });
+
+    const tip = await syncMainWithLive(bucket, SLUG, 'v2');
+    const history = await getHistory(bucket, SLUG);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ sha: tip, fileCount: 1, buildVersion: 'v2' });
+
+    expect(await syncMainWithLive(bucket, SLUG, 'v2')).toBe(tip);
+  });
+
+  it('tracks the _redirects and _headers rule files', async () => {
+    bucket.store.set(`sites/${SLUG}/v2/_redirects`, { body: '/old /new 301' });
+    bucket.store.set(`sites/${SLUG}/v2/_headers`, { body: '/*\n  X-Frame-Options: DENY' });
+
+    await syncMainWithLive(bucket, SLUG, 'v2');
+    const redirects = await readBranchFile(bucket, SLUG, 'main', '_redirects');
+    expect(await redirects!.text()).toBe('/old /new 301');
+    expect(await readBranchFile(bucket, SLUG, 'main', '_headers')).not.toBeNull();
+  });
+});
+
+describe('liveCommit', () => {
+  it('reports the tip only while main is in step, without committing', async () => {
+    const tip = await seedMain();
+    bucket.store.set(`sites/${SLUG}/v2/index.html`, { body: '<h1>Rebuilt</h1>' });
+
+    expect(await liveCommit(bucket, SLUG, 'v1')).toBe(tip);
+    expect(await liveCommit(bucket, SLUG, 'v2')).toBeNull();
+    expect(await getHistory(bucket, SLUG)).toHaveLength(1);
+  });
+});
+
+describe('publishCommit', () => {
+  it('writes a new version with the live binaries and records the commit', async () => {
+    const tip = await seedMain([{ name: 'index.html', content: '<h1>New</h1>' }]);
+    bucket.store.set(`sites/${SLUG}/v1/index.html`, { body: '<h1>Old</h1>' });
+    bucket.store.set(`sites/${SLUG}/v1/logo.png`, { body: 'PNG' });
+
+    const { version } = await publishCommit(
+      env,
+      { id: SITE_ID, slug: SLUG, org_id: ORG, current_build_version: 'v1' },
+      tip,
+    );
+
+    expect(bucket.store.get(`sites/${SLUG}/${version}/index.html`)!.body).toBe('<h1>New</h1>');
+    expect(bucket.store.get(`sites/${SLUG}/${version}/logo.png`)!.body).toBe('PNG');
+    const manifest = JSON.parse(bucket.store.get(`sites/${SLUG}/_manifest.json`)!.body);
+    expect(manifest).toMatchObject({ current_version: version, commit_id: tip });
+    const publish = mockExecute.mock.calls.find(([, sql]) => sql.startsWith('UPDATE sites'));
+    expect(publish![2]).toEqual([version, SITE_ID]);
+    const charged = mockExecute.mock.calls.filter(([, sql]) => sql.includes('org_storage_usage'));
+    expect(charged.map((call) => call[2]![0])).toEqual(charged.map(() => ORG));
+    expect(kv.delete).toHaveBeenCalledWith(`host:${SLUG}.projectsites.dev`);
+
+    // The published commit counts as in sync with the live version
+    expect(await syncMainWithLive(bucket, SLUG, version)).toBe(tip);
+  });
+
+  it('keeps the committed rule files over the live copies', async () => {
+    const tip = await seedMain([
+      { name: 'index.html', content: '<h1>New</h1>' },
+      { name: '_redirects', content: '/menu /carta 302' },
+    ]);
+    bucket.store.set(`sites/${SLUG}/v1/_redirects`, { body: '/menu /old-menu 301' });
+
+    const { version } = await publishCommit(
+      env,
+      { id: SITE_ID, slug: SLUG, org_id: ORG, current_build_version: 'v1' },
+      tip,
+    );
+
+    expect(bucket.store.get(`sites/${SLUG}/${version}/_redirects`)!.body).toBe('/menu /carta 302');
+    const writes = bucket.put.mock.calls.filter(([key]) => key.endsWith(`${version}/_redirects`));
+    expect(writes).toHaveLength(1);
+  });
+
+  it('refuses a version past the storage quota before writing anything', async () => {
+    const tip = await seedMain([{ name: 'index.html', content: '<h1>New</h1>' }]);
+    bucket.store.set(`sites/${SLUG}/v1/logo.png`, { body: 'PNG' });
+    mockQueryOne.mockImplementation(async (_db: unknown, sql: string) =>
+      sql.includes('FROM org_storage_usage') ? { bytes_used: 1e12, reconciled_at: null } : null,
+    );
+    const before = bucket.put.mock.calls.length;
+
+    await expect(
+      publishCommit(
+        env,
+        { id: SITE_ID, slug: SLUG, org_id: ORG, current_build_version: 'v1' },
+        tip,
+      ),
+    ).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    expect(bucket.put.mock.calls).toHaveLength(before);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Preview serving
+// ---------------------------------------------------------------------------
+describe('branch previews', () => {
+  const siteRow = { id: SITE_ID, slug: SLUG, org_id: ORG, current_build_version: 'v1' };
+
+  it('resolves {branch}--{slug} for existing branches only', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    mockQueryOne.mockImplementation(async (_db: unknown, sql: string, params: unknown[]) =>
+      sql.includes('FROM sites') && params[0] === SLUG ? siteRow : null,
+    );
+
+    const site = await resolveSite(env, env.DB, 'redesign--joes-pizza.projectsites.dev');
+    expect(site).toMatchObject({ slug: SLUG, branch: 'redesign', current_build_version: 'v1' });
+
+    expect(await resolveSite(env, env.DB, 'nope--joes-pizza.projectsites.dev')).toBeNull();
+  });
+
+  it('serves branch files and falls back to the live version, uncached', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await commitChanges(
+      bucket,
+      SLUG,
+      'redesign',
+      { write: [{ name: 'index.html', content: '<html><body>Preview</body></html>' }] },
+      'Preview',
+    );
+    bucket.store.set(`sites/${SLUG}/v1/logo.png`, { body: 'PNG' });
+
+    const site = { site_id: SITE_ID, slug: SLUG, current_build_version: 'v1', plan: 'paid' };
+    const page = await serveSiteFromR2(env, { ...site, branch: 'redesign' }, '/');
+    expect(await page.text()).toContain('Preview');
+    expect(page.headers.get('Cache-Control')).toBe('no-store');
+    expect(page.headers.get('X-Robots-Tag')).toBe('noindex');
+
+    const logo = await serveSiteFromR2(env, { ...site, branch: 'redesign' }, '/logo.png');
+    expect(logo.status).toBe(200);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('branch routes', () => {
+  function createApp() {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      c.set('orgId', ORG);
+      c.set('userId', 'user-1');
+      await next();
+    });
+    app.route('/', api);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockQueryOne.mockResolvedValue({
+      id: SITE_ID,
+      slug: SLUG,
+      org_id: ORG,
+      current_build_version: 'v1',
+    });
+  });
+
+  it('creates a branch from the live site', async () => {
+    bucket.store.set(`sites/${SLUG}/v1/index.html`, { body: '<h1>Live</h1>' });
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/git/branches`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'redesign' }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.data.preview_url).toBe('https://redesign--joes-pizza.projectsites.dev');
+    expect(await getHead(bucket, SLUG, 'redesign')).toBe(await getHead(bucket, SLUG));
+    expect(mockAudit).toHaveBeenCalledWith(
+      env.DB,
+      expect.objectContaining({ action: 'site.branch_created' }),
+    );
+  });
+
+  it('commits file saves to the current branch instead of the live site', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await switchBranch(bucket, SLUG, 'redesign');
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/files/about.html`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: 'About us' }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).data).toMatchObject({ branch: 'redesign', updated: true });
+    expect(bucket.store.has(`sites/${SLUG}/about.html`)).toBe(false);
+    expect(await (await readBranchFile(bucket, SLUG, 'redesign', 'about.html'))!.text()).toBe(
+      'About us',
+    );
+  });
+
+  it('publishes main when a branch is merged', async () => {
+    await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await commitChanges(
+      bucket,
+      SLUG,
+      'redesign',
+      { write: [{ name: 'index.html', content: '<h1>New</h1>' }] },
+      'Redesign',
+    );
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/git/branches/redesign/merge`,
+      { method: 'POST' },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    expect(data.fast_forward).toBe(true);
+    expect(bucket.store.get(`sites/${SLUG}/${data.version}/index.html`)!.body).toBe('<h1>New</h1>');
+  });
+
+  it('leaves main at the live commit when publishing the merge fails', async () => {
+    const live = await seedMain();
+    await createBranch(bucket, SLUG, 'redesign');
+    await commitChanges(
+      bucket,
+      SLUG,
+      'redesign',
+      { write: [{ name: 'index.html', content: '<h1>New</h1>' }] },
+      'Redesign',
+    );
+    mockQueryOne.mockImplementation(async (_db: unknown, sql: string) =>
+      sql.includes('FROM org_storage_usage')
+        ? { bytes_used: 1e12, reconciled_at: null }
+        : { id: SITE_ID, slug: SLUG, org_id: ORG, current_build_version: 'v1' },
+    );
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/git/branches/redesign/merge`,
+      { method: 'POST' },
+      env,
+    );
+
+    expect(res.status).toBe(413);
+    expect(await getHead(bucket, SLUG)).toBe(live);
+  });
+
+  it('merges a stale file save into main and publishes it', async () => {
+    const base = await seedMain([{ name: 'index.html', content: 'Hours\nPhone\nFooter\n' }]);
+    await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'index.html', content: 'New hours\nPhone\nFooter\n' }] },
+      'Hours',
+    );
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/files/index.html`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: 'Hours\nPhone\nNew footer\n', base_commit: base }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    expect(data).toMatchObject({ branch: 'main', merged: ['index.html'] });
+    expect(bucket.store.get(`sites/${SLUG}/${data.version}/index.html`)!.body).toBe(
+      'New hours\nPhone\nNew footer\n',
+    );
+  });
+
+  it('returns conflict hunks for a stale bolt publish', async () => {
+    const base = await seedMain([{ name: 'index.html', content: 'Hours\nPhone\n' }]);
+    const head = await commitChanges(
+      bucket,
+      SLUG,
+      'main',
+      { write: [{ name: 'index.html', content: 'New hours\nPhone\n' }] },
+      'Hours',
+    );
+
+    const res = await createApp().request(
+      `/api/sites/${SITE_ID}/publish-bolt`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          files: [{ path: 'index.html', content: 'Other hours\nPhone\n' }],
+          base_commit: base,
+        }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(409);
+    const { error } = await res.json();
+    expect(error.code).toBe('CONFLICT');
+    expect(error.details).toMatchObject({
+      head_commit: head,
+      merged: [],
+      conflicts: [
+        {
+          file: 'index.html',
+          hunks: [
+            { base_start: 1, base: ['Hours'], head: ['New hours'], incoming: ['Other hours'] },
+          ],
+        },
+      ],
+    });
+    expect(await getHead(bucket, SLUG)).toBe(head);
+  });
+});
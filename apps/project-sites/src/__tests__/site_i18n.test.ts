@@ -0,0 +1,188 @@
+import {
+  hreflangLinks,
+  loadSiteLanguages,
+  localizeSitemap,
+  negotiateLanguage,
+  routeLanguage,
+  splitLanguagePath,
+} from '../services/site_i18n.js';
+import { serveSiteFromR2 } from '../services/site_serving.js';
+
+const MANIFEST = { default: 'en', languages: ['es', 'fr'] };
+
+function createEnv(files: Record<string, string> = {}) {
+  const kv = new Map<string, string>();
+  return {
+    SITES_BUCKET: {
+      get: jest.fn(async (key: string) => {
+        const content = files[key];
+        if (content === undefined) return null;
+        return {
+          key,
+          size: content.length,
+          etag: 'abc',
+          httpEtag: '"abc"',
+          body: new Response(content).body,
+          text: async () => content,
+          json: async () => JSON.parse(content),
+        };
+      }),
+      head: jest.fn(async (key: string) => (files[key] !== undefined ? { key } : null)),
+    },
+    CACHE_KV: {
+      get: jest.fn(async (key: string) => (kv.has(key) ? JSON.parse(kv.get(key)!) : null)),
+      put: jest.fn(async (key: string, value: string) => void kv.set(key, value)),
+      delete: jest.fn(async () => {}),
+    },
+  } as any;
+}
+
+describe('loadSiteLanguages', () => {
+  it('reads the manifest once and caches it, including "none"', async () => {
+    const env = createEnv({
+      'sites/vitos/v1/_meta/i18n.json': JSON.stringify({ default: 'en', languages: ['es', 'xx1'] }),
+    });
+    expect(await loadSiteLanguages(env, { slug: 'vitos' }, 'v1')).toEqual({
+      default: 'en',
+      languages: ['es'],
+    });
+    await loadSiteLanguages(env, { slug: 'vitos' }, 'v1');
+    expect(env.SITES_BUCKET.get).toHaveBeenCalledTimes(1);
+
+    expect(await loadSiteLanguages(env, { slug: 'vitos' }, 'v2')).toBeNull();
+    expect(env.CACHE_KV.put).toHaveBeenLastCalledWith(
+      'site_i18n:vitos:v2',
+      JSON.stringify({ default: 'en', languages: [] }),
+      { expirationTtl: 86_400 },
+    );
+  });
+
+  it('serves branch previews untranslated', async () => {
+    const env = createEnv();
+    expect(await loadSiteLanguages(env, { slug: 'vitos', branch: 'menu' }, 'v1')).toBeNull();
+    expect(env.SITES_BUCKET.get).not.toHaveBeenCalled();
+  });
+});
+
+describe('language routing', () => {
+  it('splits known language prefixes only', () => {
+    expect(splitLanguagePath('/es/about', MANIFEST)).toEqual({ lang: 'es', path: '/about' });
+    expect(splitLanguagePath('/es', MANIFEST)).toEqual({ lang: 'es', path: '/' });
+    expect(splitLanguagePath('/de/about', MANIFEST)).toBeNull();
+    expect(splitLanguagePath('/esx', MANIFEST)).toBeNull();
+  });
+
+  it('negotiates by quality, ignoring regions', () => {
+    expect(negotiateLanguage('fr;q=0.5, es-MX, en;q=0.8', ['en', 'es', 'fr'])).toBe('es');
+    expect(negotiateLanguage('de, fr;q=0', ['en', 'fr'])).toBeNull();
+    expect(negotiateLanguage(null, ['en'])).toBeNull();
+  });
+
+  it('redirects unprefixed pages to the browser language', () => {
+    const routed = routeLanguage(
+      MANIFEST,
+      '/about',
+      '?x=1',
+      new Headers({ 'Accept-Language': 'es-ES,es;q=0.9' }),
+    );
+    expect('redirect' in routed && routed.redirect.headers.get('Location')).toBe('/es/about?x=1');
+    expect('redirect' in routed && routed.redirect.headers.get('Vary')).toBe(
+      'Accept-Language, Cookie',
+    );
+  });
+
+  it('lets the language cookie win and never redirects files', () => {
+    const headers = new Headers({ 'Accept-Language': 'es', Cookie: 'a=1; __ps_lang=en' });
+    expect(routeLanguage(MANIFEST, '/about', '', headers)).toEqual({ lang: null, path: '/about' });
+    expect(
+      routeLanguage(MANIFEST, '/styles.css', '', new Headers({ 'Accept-Language': 'es' })),
+    ).toEqual({ lang: null, path: '/styles.css' });
+  });
+
+  it('sends /en/ back to the unprefixed page and remembers the choice', () => {
+    const routed = routeLanguage(MANIFEST, '/en/menu', '', new Headers());
+    expect('redirect' in routed && routed.redirect.headers.get('Location')).toBe('/menu');
+    expect('redirect' in routed && routed.redirect.headers.get('Set-Cookie')).toContain(
+      '__ps_lang=en',
+    );
+  });
+});
+
+describe('hreflangLinks / localizeSitemap', () => {
+  it('lists every language plus x-default', () => {
+    const links = hreflangLinks('https://vitos.com', '/menu', MANIFEST);
+    expect(links).toContain('hreflang="en" href="https://vitos.com/menu"');
+    expect(links).toContain('hreflang="es" href="https://vitos.com/es/menu"');
+    expect(links).toContain('hreflang="x-default" href="https://vitos.com/menu"');
+  });
+
+  it('repeats each URL per language with alternates', () => {
+    const xml = `<?xml version="1.0"?><urlset><url>
+      <loc>https://vitos.com/menu</loc>
+      <lastmod>2026-10-01</lastmod>
+    </url><url><loc>/relative</loc></url></urlset>`;
+
+    const all = localizeSitemap(xml, MANIFEST, null);
+    expect(all).toContain('xmlns:xhtml="http://www.w3.org/1999/xhtml"');
+    expect(all.match(/<url>/g)).toHaveLength(3);
+    expect(all).toContain('<loc>https://vitos.com/fr/menu</loc>');
+    expect(all).toContain('<lastmod>2026-10-01</lastmod>');
+    expect(all).not.toContain('relative');
+
+    const spanish = localizeSitemap(xml, MANIFEST, 'es');
+    expect(spanish.match(/<url>/g)).toHaveLength(1);
+    expect(spanish).toContain('<loc>https://vitos.com/es/menu</loc>');
+    expect(spanish).toContain('hreflang="fr" href="https://vitos.com/fr/menu"');
+  });
+});
+
+describe('serveSiteFromR2 with translations', () => {
+  const site = { site_id: 'site-1', slug: 'vitos', current_build_version: 'v1', plan: 'paid' };
+  const files = {
+    'sites/vitos/v1/_meta/i18n.json': JSON.stringify(MANIFEST),
+    'sites/vitos/v1/index.html': '<html><head></head><body>Welcome</body></html>',
+    'sites/vitos/v1/es/index.html': '<html lang="es"><head></head><body>Bienvenidos</body></html>',
+    'sites/vitos/v1/styles.css': 'body{}',
+    'sites/vitos/v1/_redirects': '/old  /menu  301\n',
+    'sites/vitos/v1/sitemap.xml': '<urlset><url><loc>https://vitos.com/</loc></url></urlset>',
+  };
+  const headers = (h: Record<string, string> = {}) => new Headers({ host: 'vitos.com', ...h });
+
+  it('serves the translated page with hreflang alternates', async () => {
+    const res = await serveSiteFromR2(createEnv(files), site, '/es/', '', headers());
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Language')).toBe('es');
+    expect(res.headers.get('Vary')).toBeNull();
+    const html = await res.text();
+    expect(html).toContain('Bienvenidos');
+    expect(html).toContain('<link rel="alternate" hreflang="fr" href="https://vitos.com/fr/">');
+  });
+
+  it('falls back to shared files and keeps visitors in their language on redirects', async () => {
+    const env = createEnv(files);
+    const css = await serveSiteFromR2(env, site, '/fr/styles.css', '', headers());
+    expect(await css.text()).toBe('body{}');
+
+    const moved = await serveSiteFromR2(env, site, '/es/old', '', headers());
+    expect(moved.status).toBe(301);
+    expect(moved.headers.get('Location')).toBe('/es/menu');
+  });
+
+  it('varies unprefixed pages on language and never serves _meta', async () => {
+    const env = createEnv(files);
+    const res = await serveSiteFromR2(env, site, '/', '', headers());
+    expect(res.headers.get('Content-Language')).toBe('en');
+    expect(res.headers.get('Vary')).toBe('Accept-Language, Cookie');
+    expect(res.headers.get('ETag')).toBe('W/"abc-paid-es.fr"');
+
+    expect((await serveSiteFromR2(env, site, '/es/_meta/i18n.json', '', headers())).status).toBe(
+      404,
+    );
+  });
+
+  it('localizes the sitemap', async () => {
+    const res = await serveSiteFromR2(createEnv(files), site, '/sitemap.xml', '', headers());
+    expect(res.headers.get('Content-Type')).toBe('application/xml; charset=utf-8');
+    expect(await res.text()).toContain('<loc>https://vitos.com/es/</loc>');
+  });
+});
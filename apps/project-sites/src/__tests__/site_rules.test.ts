@@ -0,0 +1,133 @@
+import {
+  MAX_RULES,
+  compileSiteRules,
+  matchHeaders,
+  matchRedirect,
+  parseHeaders,
+  parseRedirects,
+} from '../services/site_rules';
+
+describe('parseRedirects', () => {
+  it('parses rules, skipping comments and blank lines', () => {
+    const { rules, errors } = parseRedirects(
+      '# legacy URLs\n\n/old-menu.php  /menu\n/app/*  /app/index.html  200\n/legacy  /new  308!\n',
+    );
+    expect(errors).toEqual([]);
+    expect(rules.map((r) => [r.from, r.to, r.status, r.force])).toEqual([
+      ['/old-menu.php', '/menu', 301, false],
+      ['/app/*', '/app/index.html', 200, false],
+      ['/legacy', '/new', 308, true],
+    ]);
+  });
+
+  it('reports bad lines by number and keeps the good ones', () => {
+    const { rules, errors } = parseRedirects(
+      '/ok  /fine\n/only-one\n/a  /b  999\nrelative  /b\n/c  /d  302  extra\n',
+    );
+    expect(rules).toHaveLength(1);
+    expect(errors.map((e) => e.line)).toEqual([2, 3, 4, 5]);
+    expect(errors[1].message).toContain('999');
+  });
+
+  it('only allows external targets for redirects', () => {
+    expect(parseRedirects('/shop/*  https://shop.example/:splat  302').errors).toEqual([]);
+    expect(parseRedirects('/shop/*  https://shop.example/:splat  200').errors[0].message).toContain(
+      'needs a path',
+    );
+  });
+
+  it('rejects a mid-path splat and undefined placeholders', () => {
+    expect(parseRedirects('/a/*/b  /c').errors[0].message).toContain('only allowed at the end');
+    expect(parseRedirects('/blog/:slug  /news/:year').errors[0].message).toContain(':year');
+    expect(parseRedirects('/:id/:id  /x').errors[0].message).toContain('used twice');
+  });
+
+  it(`caps a file at ${MAX_RULES} rules`, () => {
+    const text = Array.from({ length: MAX_RULES + 1 }, (_, i) => `/r${i}  /t`).join('\n');
+    const { rules, errors } = parseRedirects(text);
+    expect(rules).toHaveLength(MAX_RULES);
+    expect(errors[0].message).toContain(`${MAX_RULES}`);
+  });
+});
+
+describe('matchRedirect', () => {
+  const { rules } = parseRedirects(
+    [
+      '/blog/:year/:slug  /news/:slug  302',
+      '/shop/*  https://shop.example/:splat  301',
+      '/app/*  /app/index.html  200',
+      '/search  /find?q=all  302',
+    ].join('\n'),
+  );
+
+  it('fills placeholders and splats', () => {
+    expect(matchRedirect(rules, '/blog/2024/opening')).toEqual({
+      type: 'redirect',
+      status: 302,
+      location: '/news/opening',
+      force: false,
+    });
+    expect(matchRedirect(rules, '/shop/mugs/blue')).toMatchObject({
+      location: 'https://shop.example/mugs/blue',
+    });
+  });
+
+  it('keeps the query string unless the target sets one', () => {
+    expect(matchRedirect(rules, '/blog/2024/opening', '?ref=x')).toMatchObject({
+      location: '/news/opening?ref=x',
+    });
+    expect(matchRedirect(rules, '/search', '?ref=x')).toMatchObject({ location: '/find?q=all' });
+  });
+
+  it('returns rewrites as a path to serve', () => {
+    expect(matchRedirect(rules, '/app/settings')).toEqual({
+      type: 'rewrite',
+      status: 200,
+      path: '/app/index.html',
+      force: false,
+    });
+  });
+
+  it('matches with or without a trailing slash', () => {
+    const exact = parseRedirects('/about  /team').rules;
+    expect(matchRedirect(exact, '/about/')).not.toBeNull();
+    expect(matchRedirect(exact, '/about-us')).toBeNull();
+  });
+
+  it('treats regex characters in paths literally', () => {
+    const dotted = parseRedirects('/old-menu.php  /menu').rules;
+    expect(matchRedirect(dotted, '/old-menuXphp')).toBeNull();
+  });
+});
+
+describe('parseHeaders / matchHeaders', () => {
+  it('applies every matching block and joins repeated headers', () => {
+    const { rules, errors } = parseHeaders(
+      '/*\n  X-Frame-Options: DENY\n  Link: </a.css>; rel=preload\n/assets/*\n  Cache-Control: public, max-age=31536000\n  link: </b.js>; rel=preload\n',
+    );
+    expect(errors).toEqual([]);
+
+    const headers = matchHeaders(rules, '/assets/app.js');
+    expect(headers.get('X-Frame-Options')).toBe('DENY');
+    expect(headers.get('Cache-Control')).toBe('public, max-age=31536000');
+    expect(headers.get('Link')).toBe('</a.css>; rel=preload, </b.js>; rel=preload');
+    expect(matchHeaders(rules, '/index.html').has('Cache-Control')).toBe(false);
+  });
+
+  it('rejects reserved and malformed headers', () => {
+    const { rules, errors } = parseHeaders(
+      '  X-Orphan: 1\n/*\n  Set-Cookie: a=b\n  not a header\n  X-Ok: yes\n',
+    );
+    expect(errors.map((e) => e.line)).toEqual([1, 3, 4]);
+    expect(rules[0].headers).toEqual([['X-Ok', 'yes']]);
+  });
+});
+
+describe('compileSiteRules', () => {
+  it('treats missing files as empty and round-trips through JSON', () => {
+    const rules = compileSiteRules('/a  /b', null);
+    expect(rules.headers).toEqual([]);
+    const restored = JSON.parse(JSON.stringify(rules));
+    expect(matchRedirect(restored.redirects, '/a')).toMatchObject({ location: '/b' });
+  });
+});
@@ -84,6 +84,7 @@ describe('serveSiteFromR2', () => {
             size: content.length,
           };
         }),
+        head: jest.fn(async (key: string) => (files[key] ? { key } : null)),
       },
       CACHE_KV: {
         get: jest.fn(async () => null),
@@ -202,4 +203,81 @@ describe('serveSiteFromR2', () => {
     expect(response.headers.get('Cache-Control')).toContain('public');
     expect(response.headers.get('X-Site-Slug')).toBe('my-biz');
   });
+
+  describe('_redirects and _headers', () => {
+    it('redirects with placeholders and keeps the query string', async () => {
+      const env = createMockEnv({
+        'sites/my-biz/v1/_redirects': '/blog/:year/:slug  /news/:slug  302\n',
+      });
+
+      const response = await serveSiteFromR2(env, baseSite, '/blog/2024/opening', '?ref=x');
+      expect(response.status).toBe(302);
+      expect(response.headers.get('Location')).toBe('/news/opening?ref=x');
+    });
+
+    it('skips a rule when a file exists at the path, unless forced', async () => {
+      const files = {
+        'sites/my-biz/v1/menu.html': '<html><body>Menu</body></html>',
+        'sites/my-biz/v1/_redirects': '/menu.html  /food  301\n',
+      };
+      const shadowed = await serveSiteFromR2(createMockEnv(files), baseSite, '/menu.html');
+      expect(shadowed.status).toBe(200);
+
+      const forced = await serveSiteFromR2(
+        createMockEnv({ ...files, 'sites/my-biz/v1/_redirects': '/menu.html  /food  301!\n' }),
+        baseSite,
+        '/menu.html',
+      );
+      expect(forced.status).toBe(301);
+      expect(forced.headers.get('Location')).toBe('/food');
+    });
+
+    it('serves a rewrite target at the requested URL with the rule status', async () => {
+      const env = createMockEnv({
+        'sites/my-biz/v1/gone.html': '<html><body>Gone</body></html>',
+        'sites/my-biz/v1/_redirects': '/old/*  /gone.html  410\n',
+      });
+
+      const response = await serveSiteFromR2(env, baseSite, '/old/page');
+      expect(response.status).toBe(410);
+      expect(await response.text()).toContain('Gone');
+    });
+
+    it('adds _headers for matching paths', async () => {
+      const env = createMockEnv({
+        'sites/my-biz/v1/style.css': 'body {}',
+        'sites/my-biz/v1/_headers': '/*\n  X-Frame-Options: DENY\n/*.css\n  X-Test: css\n',
+      });
+
+      const response = await serveSiteFromR2(env, baseSite, '/style.css');
+      expect(response.headers.get('X-Frame-Options')).toBe('DENY');
+      expect(response.headers.get('X-Test')).toBeNull();
+    });
+
+    it('never serves the rule files themselves', async () => {
+      const env = createMockEnv({ 'sites/my-biz/v1/_redirects': '/a  /b\n' });
+
+      const response = await serveSiteFromR2(env, baseSite, '/_redirects');
+      expect(response.status).toBe(404);
+    });
+
+    it('compiles once per version and reuses the KV copy', async () => {
+      const env = createMockEnv({ 'sites/my-biz/v1/_redirects': '/a  /b\n' });
+      await serveSiteFromR2(env, baseSite, '/a');
+      expect(env.CACHE_KV.put).toHaveBeenCalledWith(
+        'site_rules:my-biz:v1',
+        expect.stringContaining('"to":"/b"'),
+        { expirationTtl: 86_400 },
+      );
+
+      const cache = new Map(
+        (env.CACHE_KV.put as jest.Mock).mock.calls.map(([key, value]) => [key, JSON.parse(value)]),
+      );
+      (env.CACHE_KV.get as jest.Mock).mockImplementation(async (key: string) => cache.get(key));
+      (env.SITES_BUCKET.get as jest.Mock).mockClear();
+      const response = await serveSiteFromR2(env, baseSite, '/a');
+      expect(response.status).toBe(301);
+      expect(env.SITES_BUCKET.get).not.toHaveBeenCalled();
+    });
+  });
 });
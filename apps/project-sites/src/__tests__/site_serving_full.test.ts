@@ -4,7 +4,12 @@ jest.mock('../services/db.js', () => ({
 }));
 
 import { dbQuery, dbQueryOne } from '../services/db.js';
-import { resolveSite, serveSiteFromR2 } from '../services/site_serving.js';
+import {
+  isHashedAssetPath,
+  parseRangeHeader,
+  resolveSite,
+  serveSiteFromR2,
+} from '../services/site_serving.js';
 import { DOMAINS } from '@project-sites/shared';
 
 const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
@@ -27,10 +32,12 @@ const createMockR2Object = (content: string) => ({
   }),
   text: jest.fn().mockResolvedValue(content),
   arrayBuffer: jest.fn().mockResolvedValue(new TextEncoder().encode(content).buffer),
+  size: new TextEncoder().encode(content).byteLength,
 });
 
 const createMockR2 = () => ({
   get: jest.fn().mockResolvedValue(null),
+  head: jest.fn().mockResolvedValue(null),
   put: jest.fn(),
 });
 
@@ -143,6 +150,21 @@ describe('resolveSite', () => {
     });
   });
 
+  it('carries the redirect target of a paired apex / www hostname', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce({
+        site_id: 'site-custom',
+        org_id: 'org-custom',
+        redirect_to: 'vitos.com',
+      })
+      .mockResolvedValueOnce({ slug: 'custom-slug', current_build_version: 'v3' })
+      .mockResolvedValueOnce({ plan: 'paid', status: 'active' });
+
+    const result = await resolveSite(env as any, db, 'www.vitos.com');
+
+    expect(result!.redirect_to).toBe('vitos.com');
+  });
+
   it('returns plan=paid when subscription is paid and active', async () => {
     mockQueryOne
       .mockResolvedValueOnce({
@@ -220,6 +242,81 @@ describe('resolveSite', () => {
     expect(cachedJson.plan).toBe('paid');
   });
 
+  it('flags sites in maintenance mode', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce({
+        id: 'site-m',
+        slug: 'paused-site',
+        org_id: 'org-m',
+        current_build_version: 'v1',
+        maintenance_mode: 1,
+      })
+      .mockResolvedValueOnce(null);
+
+    const result = await resolveSite(env as any, db, `paused-site${DOMAINS.SITES_SUFFIX}`);
+
+    expect(result!.maintenance).toBe(true);
+    expect(mockQueryOne.mock.calls[0]![1]).toContain('maintenance_mode');
+  });
+
+  it('carries access settings for non-public sites', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce({
+        id: 'site-p',
+        slug: 'private-site',
+        org_id: 'org-p',
+        current_build_version: 'v1',
+        maintenance_mode: 0,
+        visibility: 'members',
+      })
+      .mockResolvedValueOnce(null);
+
+    const result = await resolveSite(env as any, db, `private-site${DOMAINS.SITES_SUFFIX}`);
+
+    expect(result!.access).toEqual({ visibility: 'members' });
+    expect(mockQueryOne.mock.calls[0]![1]).not.toContain('access_secret');
+  });
+
+  it("lets a snapshot's own visibility override the site's", async () => {
+    const siteRow = {
+      id: 'site-s',
+      slug: 'shop',
+      org_id: 'org-s',
+      current_build_version: 'v2',
+      maintenance_mode: 0,
+      visibility: 'members',
+    };
+    mockQueryOne
+      .mockResolvedValueOnce(null) // exact slug "shop-draft"
+      .mockResolvedValueOnce(siteRow)
+      .mockResolvedValueOnce({ id: 'snap-d', build_version: 'v1', visibility: 'public' })
+      .mockResolvedValueOnce(null);
+
+    const result = await resolveSite(env as any, db, `shop-draft${DOMAINS.SITES_SUFFIX}`);
+
+    expect(result!.current_build_version).toBe('v1');
+    expect(result!.access).toBeUndefined();
+  });
+
+  it("points a gated snapshot's access at the snapshot row", async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(null) // exact slug "shop-draft"
+      .mockResolvedValueOnce({
+        id: 'site-s',
+        slug: 'shop',
+        org_id: 'org-s',
+        current_build_version: 'v2',
+        maintenance_mode: 0,
+        visibility: null,
+      })
+      .mockResolvedValueOnce({ id: 'snap-d', build_version: 'v1', visibility: 'password' })
+      .mockResolvedValueOnce(null);
+
+    const result = await resolveSite(env as any, db, `shop-draft${DOMAINS.SITES_SUFFIX}`);
+
+    expect(result!.access).toEqual({ visibility: 'password', snapshot_id: 'snap-d' });
+  });
+
   it('returns null for unknown custom domain', async () => {
     // hostnames lookup returns null
     mockQueryOne.mockResolvedValueOnce(null);
@@ -287,6 +384,24 @@ describe('serveSiteFromR2', () => {
     expect(response.headers.get('Content-Type')).toBe('application/javascript');
   });
 
+  it('sets Content-Length for raw files and for HTML after injection', async () => {
+    const jsContent = 'console.log("héllo");';
+    (env.SITES_BUCKET.get as jest.Mock).mockResolvedValue(createMockR2Object(jsContent));
+    const site = makeSite({ plan: 'free' });
+
+    const js = await serveSiteFromR2(env as any, site, '/app.js');
+    expect(js.headers.get('Content-Length')).toBe(
+      String(new TextEncoder().encode(jsContent).byteLength),
+    );
+
+    (env.SITES_BUCKET.get as jest.Mock).mockResolvedValue(createMockR2Object(SAMPLE_HTML));
+    const html = await serveSiteFromR2(env as any, site, '/page.html');
+    const body = await html.text();
+    expect(html.headers.get('Content-Length')).toBe(
+      String(new TextEncoder().encode(body).byteLength),
+    );
+  });
+
   it('returns file from R2 with correct content type for .png', async () => {
     const r2Obj = createMockR2Object('PNG_BINARY_DATA');
     (env.SITES_BUCKET.get as jest.Mock).mockResolvedValue(r2Obj);
@@ -300,13 +415,17 @@ describe('serveSiteFromR2', () => {
 
   it('falls back to index.html for paths without extensions (SPA)', async () => {
     const indexHtml = createMockR2Object(SAMPLE_HTML);
-    // serveSiteFromR2 tries several R2 keys before SPA fallback:
+    // serveSiteFromR2 reads _meta/i18n.json, _redirects and _headers on a
+    // cold cache, then tries several R2 keys before SPA fallback:
     // 1. /sites/.../about/team        (primary)
     // 2. /sites/.../about/team/index.html (directory index)
     // 3. /sites/.../about/team.html   (.html extension)
     // 4. /sites/.../about-team.html   (flat-name fallback)
     // 5. /sites/.../index.html        (SPA catch-all) <-- this is the match
     (env.SITES_BUCKET.get as jest.Mock)
+      .mockResolvedValueOnce(null) // _meta/i18n.json
+      .mockResolvedValueOnce(null) // _redirects
+      .mockResolvedValueOnce(null) // _headers
       .mockResolvedValueOnce(null)
       .mockResolvedValueOnce(null)
       .mockResolvedValueOnce(null)
@@ -329,7 +448,7 @@ describe('serveSiteFromR2', () => {
 
     expect(response.status).toBe(404);
     const body = await response.text();
-    expect(body).toBe('Not Found');
+    expect(body).toContain('Page not found');
   });
 
   it('returns 404 when SPA fallback also not found', async () => {
@@ -423,7 +542,7 @@ describe('serveSiteFromR2', () => {
     const site = makeSite({ slug: 'header-test', plan: 'paid' });
     const response = await serveSiteFromR2(env as any, site, '/page.html');
 
-    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=3600');
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60, must-revalidate');
     expect(response.headers.get('X-Site-Slug')).toBe('header-test');
   });
 
@@ -464,6 +583,9 @@ describe('serveSiteFromR2', () => {
   it('injects top bar for SPA fallback on unpaid sites', async () => {
     const indexHtml = createMockR2Object(SAMPLE_HTML);
     (env.SITES_BUCKET.get as jest.Mock)
+      .mockResolvedValueOnce(null) // _meta/i18n.json
+      .mockResolvedValueOnce(null) // _redirects
+      .mockResolvedValueOnce(null) // _headers
       .mockResolvedValueOnce(null)
       .mockResolvedValueOnce(indexHtml);
 
@@ -589,3 +711,361 @@ describe('serveSiteFromR2 — served-site analytics policy', () => {
     expect(html).toContain('1500');
   });
 });
+
+// ---------------------------------------------------------------------------
+// serveSiteFromR2 — conditional GET, ranges and cache policy
+// ---------------------------------------------------------------------------
+
+describe('serveSiteFromR2 — conditional and range requests', () => {
+  const UPLOADED = new Date('2026-03-04T05:06:07.890Z');
+  const VIDEO = 'abcdefghijklmnopqrstuvwxyz';
+  let env: ReturnType<typeof createMockEnv>;
+
+  /** Serve `files` from the mock bucket with R2 metadata and ranged reads. */
+  const storeFiles = (files: Record<string, string>) => {
+    (env.SITES_BUCKET.get as jest.Mock).mockImplementation(
+      async (key: string, opts?: { range?: { offset: number; length: number } }) => {
+        const content = files[key];
+        if (content === undefined) return null;
+        const { offset = 0, length = content.length } = opts?.range ?? {};
+        return {
+          ...createMockR2Object(content.slice(offset, offset + length)),
+          key,
+          size: content.length,
+          etag: 'abc123',
+          httpEtag: '"abc123"',
+          uploaded: UPLOADED,
+        };
+      },
+    );
+  };
+
+  const request = (headers: Record<string, string>) => new Headers(headers);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    env = createMockEnv();
+    storeFiles({
+      'sites/my-site/v1/video.mp4': VIDEO,
+      'sites/my-site/v1/index.html': SAMPLE_HTML,
+    });
+  });
+
+  it('sends ETag, Last-Modified and Accept-Ranges', async () => {
+    const response = await serveSiteFromR2(env as any, makeSite(), '/video.mp4');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"abc123"');
+    expect(response.headers.get('Last-Modified')).toBe(UPLOADED.toUTCString());
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('Content-Type')).toBe('video/mp4');
+  });
+
+  it('returns 304 without a body when If-None-Match matches', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ 'If-None-Match': '"other", W/"abc123"' }),
+    );
+
+    expect(response.status).toBe(304);
+    expect(response.body).toBeNull();
+    expect(response.headers.get('ETag')).toBe('"abc123"');
+    expect(response.headers.get('Content-Length')).toBeNull();
+  });
+
+  it('compares If-Modified-Since at whole-second precision', async () => {
+    const current = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ 'If-Modified-Since': UPLOADED.toUTCString() }),
+    );
+    expect(current.status).toBe(304);
+
+    const stale = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ 'If-Modified-Since': new Date(UPLOADED.getTime() - 60_000).toUTCString() }),
+    );
+    expect(stale.status).toBe(200);
+  });
+
+  it('ignores If-Modified-Since when If-None-Match does not match', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ 'If-None-Match': '"old"', 'If-Modified-Since': new Date().toUTCString() }),
+    );
+    expect(response.status).toBe(200);
+  });
+
+  it('gives HTML a weak ETag that changes with the plan', async () => {
+    const free = await serveSiteFromR2(env as any, makeSite({ plan: 'free' }), '/');
+    const paid = await serveSiteFromR2(env as any, makeSite({ plan: 'paid' }), '/');
+
+    expect(free.headers.get('ETag')).toBe('W/"abc123-free"');
+    expect(paid.headers.get('ETag')).toBe('W/"abc123-paid"');
+    expect(paid.headers.get('Cache-Control')).toBe('public, max-age=60, must-revalidate');
+
+    const revalidated = await serveSiteFromR2(
+      env as any,
+      makeSite({ plan: 'free' }),
+      '/',
+      '',
+      request({ 'If-None-Match': 'W/"abc123-free"' }),
+    );
+    expect(revalidated.status).toBe(304);
+  });
+
+  it('serves a single range with a ranged R2 read', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=2-5' }),
+    );
+
+    expect(response.status).toBe(206);
+    expect(await response.text()).toBe('cdef');
+    expect(response.headers.get('Content-Range')).toBe('bytes 2-5/26');
+    expect(response.headers.get('Content-Length')).toBe('4');
+    expect(env.SITES_BUCKET.get).toHaveBeenLastCalledWith('sites/my-site/v1/video.mp4', {
+      range: { offset: 2, length: 4 },
+    });
+  });
+
+  it('serves open-ended and suffix ranges', async () => {
+    const tail = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=-3' }),
+    );
+    expect(await tail.text()).toBe('xyz');
+    expect(tail.headers.get('Content-Range')).toBe('bytes 23-25/26');
+
+    const rest = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=20-' }),
+    );
+    expect(await rest.text()).toBe('uvwxyz');
+  });
+
+  it('serves several ranges as multipart/byteranges', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=0-1, 24-' }),
+    );
+
+    expect(response.status).toBe(206);
+    const boundary = /boundary=(\w+)/.exec(response.headers.get('Content-Type') ?? '')?.[1];
+    expect(boundary).toBeDefined();
+
+    const body = await response.text();
+    expect(body).toBe(
+      `--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 0-1/26\r\n\r\nab\r\n` +
+        `--${boundary}\r\nContent-Type: video/mp4\r\nContent-Range: bytes 24-25/26\r\n\r\nyz\r\n` +
+        `--${boundary}--\r\n`,
+    );
+    expect(response.headers.get('Content-Length')).toBe(String(body.length));
+  });
+
+  it('returns 416 when no range is satisfiable', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=100-' }),
+    );
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */26');
+  });
+
+  it('sends the whole file when If-Range no longer matches', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite(),
+      '/video.mp4',
+      '',
+      request({ Range: 'bytes=2-5', 'If-Range': '"old"' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(VIDEO);
+  });
+
+  it('ignores Range for HTML, whose bytes are rewritten on the way out', async () => {
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite({ plan: 'paid' }),
+      '/',
+      '',
+      request({ Range: 'bytes=0-3' }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<h1>Hello</h1>');
+  });
+
+  it('caches content-hashed assets as immutable', async () => {
+    storeFiles({
+      'sites/my-site/v1/assets/index-3fA9c2b1.js': 'x',
+      'sites/my-site/v1/logo.png': 'y',
+    });
+
+    const hashed = await serveSiteFromR2(env as any, makeSite(), '/assets/index-3fA9c2b1.js');
+    const plain = await serveSiteFromR2(env as any, makeSite(), '/logo.png');
+
+    expect(hashed.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+    expect(plain.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=3600');
+  });
+
+  it('never caches branch previews, even for hashed assets', async () => {
+    (env.CACHE_KV.get as jest.Mock).mockResolvedValue({ redirects: [], headers: [] });
+    storeFiles({ 'sites/my-site/v1/assets/index-3fA9c2b1.js': 'x' });
+
+    const response = await serveSiteFromR2(
+      env as any,
+      makeSite({ branch: 'redesign' }),
+      '/assets/index-3fA9c2b1.js',
+    );
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+});
+
+describe('isHashedAssetPath', () => {
+  it.each([
+    ['/assets/index-3fA9c2b1.js', true],
+    ['/static/css/main.5e1b77a0.css', true],
+    ['/hero-background.jpg', false],
+    ['/about.html', false],
+    ['/team-2024.png', false],
+    ['/assets/index-B-x1Qa_z.js', true],
+    ['/_next/static/chunks/main-0a1b2c3d4e5f6a7b.js', true],
+    ['/menu-summer2024.pdf', false],
+    ['/img/photo-Img12345.jpg', false],
+    ['/assets/summer-menu2024.pdf', false],
+    ['/report-20240101.pdf', false],
+  ])('%s → %s', (path, expected) => {
+    expect(isHashedAssetPath(path)).toBe(expected);
+  });
+});
+
+describe('parseRangeHeader', () => {
+  it('clamps ends and drops unsatisfiable ranges', () => {
+    expect(parseRangeHeader('bytes=0-99, 200-300', 100)).toEqual([{ start: 0, end: 99 }]);
+    expect(parseRangeHeader('bytes=150-', 100)).toEqual([]);
+  });
+
+  it('ignores malformed headers and too many ranges', () => {
+    expect(parseRangeHeader(null, 100)).toBeNull();
+    expect(parseRangeHeader('items=0-1', 100)).toBeNull();
+    expect(parseRangeHeader('bytes=5-1', 100)).toBeNull();
+    const many = Array.from({ length: 17 }, (_, i) => `${i}-${i}`).join(',');
+    expect(parseRangeHeader(`bytes=${many}`, 100)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// serveSiteFromR2 — error pages
+// ---------------------------------------------------------------------------
+
+describe('serveSiteFromR2 — error pages', () => {
+  let env: ReturnType<typeof createMockEnv>;
+
+  const storeFiles = (files: Record<string, string>) => {
+    (env.SITES_BUCKET.get as jest.Mock).mockImplementation(async (key: string) =>
+      files[key] === undefined ? null : createMockR2Object(files[key]!),
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    env = createMockEnv();
+  });
+
+  it("serves the build's 404.html with status 404", async () => {
+    storeFiles({ 'sites/my-site/v1/404.html': '<html><body>Lost? Try the menu.</body></html>' });
+
+    const response = await serveSiteFromR2(env as any, makeSite(), '/nope.css');
+
+    expect(response.status).toBe(404);
+    const html = await response.text();
+    expect(html).toContain('Lost? Try the menu.');
+    expect(html).toContain('ps-bar');
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60');
+    expect(response.headers.get('ETag')).toBeNull();
+  });
+
+  it('falls back to the branded template from brand_config and the sitemap', async () => {
+    mockQueryOne.mockResolvedValueOnce({
+      business_name: 'My Site',
+      data_json: JSON.stringify({ business_name: 'Joe Pizza', primary_color: '#cc0000' }),
+    });
+    storeFiles({
+      'sites/my-site/v1/sitemap.xml':
+        '<urlset><url><loc>https://x.example/</loc></url><url><loc>https://x.example/menu</loc></url></urlset>',
+    });
+
+    const response = await serveSiteFromR2(env as any, makeSite(), '/nope.css');
+
+    expect(response.status).toBe(404);
+    const html = await response.text();
+    expect(html).toContain('Joe Pizza');
+    expect(html).toContain('#cc0000');
+    expect(html).toContain('<a href="/menu">Menu</a>');
+    expect(env.CACHE_KV.put).toHaveBeenCalledWith(
+      'error_page:my-site:v1',
+      expect.any(String),
+      expect.anything(),
+    );
+  });
+
+  it('answers 410 for pages a _redirects rule marks as deleted', async () => {
+    storeFiles({ 'sites/my-site/v1/_redirects': '/specials/*  /410.html  410\n' });
+
+    const template = await serveSiteFromR2(env as any, makeSite(), '/specials/summer');
+    expect(template.status).toBe(410);
+    expect(await template.text()).toContain('This page has been removed');
+
+    storeFiles({
+      'sites/my-site/v1/_redirects': '/specials/*  /410.html  410\n',
+      'sites/my-site/v1/410.html': '<html><body>Specials are over</body></html>',
+    });
+    const custom = await serveSiteFromR2(env as any, makeSite(), '/specials/summer');
+    expect(custom.status).toBe(410);
+    expect(await custom.text()).toContain('Specials are over');
+  });
+
+  it('answers every path with 503 while in maintenance mode', async () => {
+    storeFiles({
+      'sites/my-site/v1/index.html': SAMPLE_HTML,
+      'sites/my-site/v1/503.html': '<html><body>Back soon</body></html>',
+    });
+
+    const response = await serveSiteFromR2(env as any, makeSite({ maintenance: true }), '/');
+
+    expect(response.status).toBe(503);
+    expect(await response.text()).toContain('Back soon');
+    expect(response.headers.get('Retry-After')).toBe('300');
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+});
@@ -0,0 +1,409 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+}));
+
+jest.mock('../services/ai_workflows.js', () => ({
+  runPrompt: jest.fn(),
+  extractJsonFromText: (text: string) => JSON.parse(text),
+}));
+
+import { dbExecute, dbInsert, dbQuery, dbQueryOne } from '../services/db.js';
+import { runPrompt } from '../services/ai_workflows.js';
+import {
+  addSiteLanguage,
+  deleteTranslationOverride,
+  extractSegments,
+  localizeHtml,
+  runDueTranslations,
+  setTranslationOverride,
+  type SiteLanguageRow,
+} from '../services/site_translation.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockInsert = dbInsert as jest.MockedFunction<typeof dbInsert>;
+const mockRunPrompt = runPrompt as jest.MockedFunction<typeof runPrompt>;
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Vito's Pizza &amp; Pasta</title>
+  <meta name="description" content="Fresh pizza in Austin">
+  <link rel="canonical" href="https://vitos.com/menu">
+  <style>.a > .b { content: "Hello"; }</style>
+</head>
+<body>
+  <!-- Hero copy -->
+  <h1 class="hero">Fresh pizza, <em>every day</em></h1>
+  <img src="/assets/logo.png" alt="Our oven">
+  <a href="/menu">See the menu</a> <a href="/assets/menu.pdf">PDF</a>
+  <p translate="no">Vito's</p><code>npm start</code>
+  <script>const greeting = "Hello";</script>
+  <p>Vito's</p><p>info@vitos.com</p><p>2026</p>
+  <input type="submit" value="Order now">
+</body>
+</html>`;
+
+function languageRow(overrides: Partial<SiteLanguageRow> = {}): SiteLanguageRow {
+  return {
+    id: 'lang-1',
+    site_id: 'site-1',
+    org_id: 'org-1',
+    lang: 'es',
+    status: 'pending',
+    source_version: null,
+    build_version: null,
+    segments: 0,
+    translated: 0,
+    error: null,
+    failures: 0,
+    retry_at: null,
+    created_by: 'user-1',
+    translated_at: null,
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const job = (overrides: Partial<SiteLanguageRow> = {}) => ({
+  ...languageRow(overrides),
+  slug: 'vitos',
+  business_name: "Vito's",
+  current_build_version: 'v2',
+});
+
+function createEnv(files: Record<string, string>) {
+  const store = new Map(Object.entries(files));
+  const object = (key: string) => {
+    const content = store.get(key)!;
+    return {
+      key,
+      size: content.length,
+      text: async () => content,
+      json: async () => JSON.parse(content),
+    };
+  };
+  return {
+    store,
+    DB: {} as D1Database,
+    CACHE_KV: { delete: jest.fn().mockResolvedValue(undefined) },
+    SITES_BUCKET: {
+      get: jest.fn(async (key: string) => (store.has(key) ? object(key) : null)),
+      put: jest.fn(async (key: string, value: string) => void store.set(key, value)),
+      list: jest.fn(async ({ prefix }: { prefix: string }) => ({
+        objects: [...store.keys()].filter((k) => k.startsWith(prefix)).map(object),
+        truncated: false,
+      })),
+      delete: jest.fn(async (keys: string[]) => keys.forEach((k) => store.delete(k))),
+    },
+  } as any;
+}
+
+/** Answer every prompt call by prefixing each segment with `ES:`. */
+function translateAll() {
+  mockRunPrompt.mockImplementation(async (_env, _id, _version, inputs) => ({
+    output: JSON.stringify(
+      (JSON.parse(inputs.segments_json as string) as string[]).map((s) => `ES:${s}`),
+    ),
+  })) as never;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockQuery.mockResolvedValue({ data: [], error: null });
+  mockExecute.mockResolvedValue({ error: null, changes: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// extractSegments / localizeHtml
+// ---------------------------------------------------------------------------
+describe('extractSegments', () => {
+  it('collects copy and leaves markup, code and brand names alone', () => {
+    expect(extractSegments(PAGE, ["Vito's"])).toEqual([
+      "Vito's Pizza & Pasta",
+      'Fresh pizza in Austin',
+      'Fresh pizza,',
+      'every day',
+      'Our oven',
+      'See the menu',
+      'PDF',
+      'Order now',
+    ]);
+  });
+});
+
+describe('localizeHtml', () => {
+  const dictionary = new Map([
+    ["Vito's Pizza & Pasta", "Pizza y pasta de Vito's"],
+    ['Fresh pizza in Austin', 'Pizza fresca en Austin'],
+    ['Fresh pizza,', 'Pizza fresca,'],
+    ['every day', 'todos los días'],
+    ['Our oven', 'Nuestro horno'],
+    ['See the menu', 'Ver el menú'],
+    ['Order now', 'Pide "ya"'],
+  ]);
+
+  it('swaps copy in place and moves page links under the language', () => {
+    const html = localizeHtml(PAGE, 'es', dictionary);
+
+    expect(html).toContain('<html lang="es">');
+    expect(html).toContain("<title>Pizza y pasta de Vito's</title>");
+    expect(html).toContain('content="Pizza fresca en Austin"');
+    expect(html).toContain('<link rel="canonical" href="https://vitos.com/es/menu">');
+    expect(html).toContain('<h1 class="hero">Pizza fresca, <em>todos los días</em></h1>');
+    expect(html).toContain('alt="Nuestro horno"');
+    expect(html).toContain('<a href="/es/menu">Ver el menú</a>');
+    expect(html).toContain('<a href="/assets/menu.pdf">PDF</a>');
+    expect(html).toContain('value="Pide &quot;ya&quot;"');
+    expect(html).toContain('<!-- Hero copy -->');
+    expect(html).toContain('<style>.a > .b { content: "Hello"; }</style>');
+    expect(html).toContain('const greeting = "Hello";');
+  });
+
+  it('marks right-to-left languages', () => {
+    expect(localizeHtml('<html lang="en"><body>Hi</body></html>', 'ar', new Map())).toBe(
+      '<html dir="rtl" lang="ar"><body>Hi</body></html>',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runDueTranslations
+// ---------------------------------------------------------------------------
+describe('runDueTranslations', () => {
+  const files = {
+    'sites/vitos/v2/index.html':
+      "<html><body><h1>Welcome to Vito's</h1><p>Hot pizza</p></body></html>",
+    'sites/vitos/v2/about/index.html':
+      '<html><body><p>Hot pizza</p><p>Since 1990</p></body></html>',
+    'sites/vitos/v2/styles.css': 'body{}',
+  };
+
+  it('translates the live version, writes the tree and publishes the manifest', async () => {
+    const env = createEnv(files);
+    translateAll();
+    mockQuery
+      .mockResolvedValueOnce({ data: [job()], error: null }) // due
+      .mockResolvedValueOnce({ data: [], error: null }) // overrides
+      .mockResolvedValueOnce({ data: [{ lang: 'es' }], error: null }); // ready languages
+
+    const result = await runDueTranslations(env, NOW);
+
+    expect(result).toEqual({ translated: 1, failed: 0, deferred: 0 });
+    expect(mockRunPrompt).toHaveBeenCalledTimes(1);
+    expect(mockRunPrompt.mock.calls[0]![3]).toMatchObject({
+      language: 'Spanish',
+      language_code: 'es',
+      brand_terms: "Vito's",
+    });
+    expect(env.store.get('sites/vitos/v2/es/about/index.html')).toBe(
+      '<html lang="es"><body><p>ES:Hot pizza</p><p>ES:Since 1990</p></body></html>',
+    );
+    expect(env.store.has('sites/vitos/v2/es/styles.css')).toBe(false);
+    expect(JSON.parse(env.store.get('sites/vitos/v2/_meta/i18n.json'))).toEqual({
+      default: 'en',
+      languages: ['es'],
+    });
+    expect(env.CACHE_KV.delete).toHaveBeenCalledWith('site_i18n:vitos:v2');
+    const ready = mockExecute.mock.calls.find(([, sql]) => sql.includes("THEN 'ready'"));
+    expect(ready![2]).toEqual(['v2', 3, 3, expect.any(String), expect.any(String), 'lang-1']);
+  });
+
+  it("reuses the previous version's memory and applies overrides", async () => {
+    const env = createEnv({
+      ...files,
+      'sites/vitos/v1/_meta/i18n/es.json': JSON.stringify({
+        lang: 'es',
+        translations: {
+          'Hot pizza': 'Pizza caliente',
+          "Welcome to Vito's": "Bienvenidos a Vito's",
+        },
+      }),
+    });
+    translateAll();
+    mockQuery
+      .mockResolvedValueOnce({ data: [job({ status: 'ready', build_version: 'v1' })], error: null })
+      .mockResolvedValueOnce({
+        data: [{ source_text: 'Hot pizza', text: 'Pizza recién hecha' }],
+        error: null,
+      });
+
+    await runDueTranslations(env, NOW);
+
+    expect(JSON.parse(mockRunPrompt.mock.calls[0]![3].segments_json as string)).toEqual([
+      'Since 1990',
+    ]);
+    expect(env.store.get('sites/vitos/v2/es/index.html')).toContain('<p>Pizza recién hecha</p>');
+    // Overrides stay out of the memory
+    expect(JSON.parse(env.store.get('sites/vitos/v2/_meta/i18n/es.json')).translations).toEqual({
+      "Welcome to Vito's": "Bienvenidos a Vito's",
+      'Hot pizza': 'Pizza caliente',
+      'Since 1990': 'ES:Since 1990',
+    });
+  });
+
+  it('keeps the source when a translation drops the brand name', async () => {
+    const env = createEnv(files);
+    mockRunPrompt.mockResolvedValue({
+      output: JSON.stringify(['Bienvenidos', 'Pizza caliente', 'Desde 1990']),
+    } as never);
+    mockQuery.mockResolvedValueOnce({ data: [job()], error: null });
+
+    await runDueTranslations(env, NOW);
+
+    expect(env.store.get('sites/vitos/v2/es/index.html')).toContain("<h1>Welcome to Vito's</h1>");
+  });
+
+  it('splits a batch whose reply has the wrong length', async () => {
+    const env = createEnv(files);
+    mockRunPrompt.mockResolvedValueOnce({ output: '["uno"]' } as never);
+    translateAll();
+    mockQuery.mockResolvedValueOnce({ data: [job()], error: null });
+
+    const result = await runDueTranslations(env, NOW);
+
+    expect(result.translated).toBe(1);
+    expect(mockRunPrompt).toHaveBeenCalledTimes(3);
+  });
+
+  it('marks the language failed without touching rows re-queued meanwhile', async () => {
+    const env = createEnv(files);
+    mockRunPrompt.mockRejectedValue(new Error('model unavailable'));
+    mockQuery.mockResolvedValueOnce({ data: [job()], error: null });
+
+    const result = await runDueTranslations(env, NOW);
+
+    expect(result.failed).toBe(1);
+    const failed = mockExecute.mock.calls.find(([, sql]) => sql.includes("THEN 'failed'"));
+    expect(failed![1]).toContain('ELSE status END');
+    expect(failed![2]![0]).toBe('model unavailable');
+    expect(env.store.has('sites/vitos/v2/es/index.html')).toBe(false);
+  });
+
+  it('saves the batches translated before a failure and schedules a retry', async () => {
+    const env = createEnv({
+      'sites/vitos/v2/index.html': `<html><body>${Array.from(
+        { length: 41 },
+        (_, i) => `<p>Dish ${i}</p>`,
+      ).join('')}</body></html>`,
+    });
+    translateAll();
+    mockRunPrompt
+      .mockImplementationOnce(mockRunPrompt.getMockImplementation()!)
+      .mockRejectedValueOnce(new Error('model unavailable'));
+    mockQuery.mockResolvedValueOnce({
+      data: [job({ status: 'failed', source_version: 'v2', failures: 1 })],
+      error: null,
+    });
+
+    const result = await runDueTranslations(env, NOW);
+
+    expect(result.failed).toBe(1);
+    const memory = JSON.parse(env.store.get('sites/vitos/v2/_meta/i18n/es.json'));
+    expect(Object.keys(memory.translations)).toHaveLength(40);
+    const failed = mockExecute.mock.calls.find(([, sql]) => sql.includes("THEN 'failed'"));
+    expect(failed![2]!.slice(1, 3)).toEqual([2, expect.any(String)]);
+    const retryAt = Date.parse(failed![2]![2] as string);
+    expect(retryAt - Date.parse(failed![2]![3] as string)).toBe(30 * 60_000);
+    expect(mockQuery.mock.calls[0]![1]).toContain('sl.retry_at <= ?');
+  });
+
+  it('stops retrying after the last failure', async () => {
+    mockRunPrompt.mockRejectedValue(new Error('model unavailable'));
+    mockQuery.mockResolvedValueOnce({
+      data: [job({ status: 'failed', source_version: 'v2', failures: 4 })],
+      error: null,
+    });
+
+    await runDueTranslations(createEnv(files), NOW);
+
+    const failed = mockExecute.mock.calls.find(([, sql]) => sql.includes("THEN 'failed'"));
+    expect(failed![2]!.slice(1, 3)).toEqual([5, null]);
+  });
+
+  it('skips rows another run already claimed', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [job()], error: null });
+    mockExecute
+      .mockResolvedValueOnce({ error: null, changes: 0 }) // stuck sweep
+      .mockResolvedValueOnce({ error: null, changes: 0 }); // claim
+
+    const result = await runDueTranslations(createEnv(files), NOW);
+
+    expect(result).toEqual({ translated: 0, failed: 0, deferred: 0 });
+    expect(mockRunPrompt).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Owner API
+// ---------------------------------------------------------------------------
+describe('addSiteLanguage', () => {
+  const site = { id: 'site-1', org_id: 'org-1' };
+
+  it('adds a pending language', async () => {
+    mockQueryOne.mockResolvedValueOnce(null).mockResolvedValueOnce({ cnt: 1 });
+    const { language, created } = await addSiteLanguage(
+      {} as D1Database,
+      site,
+      'fr',
+      'user-1',
+      NOW,
+    );
+    expect(created).toBe(true);
+    expect(language).toMatchObject({ lang: 'fr', status: 'pending' });
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.anything(),
+      'site_languages',
+      expect.objectContaining({ site_id: 'site-1', lang: 'fr', created_by: 'user-1' }),
+    );
+  });
+
+  it('re-queues an existing language and caps new ones', async () => {
+    mockQueryOne.mockResolvedValueOnce(languageRow({ status: 'failed', error: 'boom' }));
+    const again = await addSiteLanguage({} as D1Database, site, 'es', null, NOW);
+    expect(again).toMatchObject({ created: false, language: { status: 'pending', error: null } });
+    expect(mockInsert).not.toHaveBeenCalled();
+
+    mockQueryOne.mockResolvedValueOnce(null).mockResolvedValueOnce({ cnt: 5 });
+    await expect(addSiteLanguage({} as D1Database, site, 'de', null, NOW)).rejects.toThrow(
+      'at most 5',
+    );
+  });
+});
+
+describe('translation overrides', () => {
+  it('upserts the override keyed by the normalised source and re-queues', async () => {
+    mockQueryOne.mockResolvedValueOnce(languageRow()).mockResolvedValueOnce({ text: 'Antes' });
+
+    const saved = await setTranslationOverride(
+      {} as D1Database,
+      'site-1',
+      'es',
+      { source: '  Hot   pizza ', text: 'Pizza recién hecha' },
+      'user-1',
+      NOW,
+    );
+
+    expect(saved).toEqual({ source: 'Hot pizza', text: 'Pizza recién hecha', previous: 'Antes' });
+    expect(mockExecute.mock.calls[0]![1]).toContain('ON CONFLICT (site_id, lang, source_text)');
+    expect(mockExecute.mock.calls[1]![1]).toContain("status = 'pending'");
+  });
+
+  it('404s on an unknown language or override', async () => {
+    await expect(
+      setTranslationOverride({} as D1Database, 'site-1', 'de', { source: 'a', text: 'b' }, null),
+    ).rejects.toThrow('Language not found');
+
+    mockQueryOne.mockResolvedValueOnce(languageRow());
+    await expect(
+      deleteTranslationOverride({} as D1Database, 'site-1', 'es', 'Hot pizza', NOW),
+    ).rejects.toThrow('Override not found');
+  });
+});
@@ -0,0 +1,497 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { storage } from '../routes/storage.js';
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import {
+  STORAGE_GC_CURSOR_KEY,
+  STORAGE_GC_MARKER_KEY,
+  STORAGE_GC_PENDING_KEY,
+  buildStorageGcReport,
+  isBuildVersion,
+  planSiteGc,
+  runStorageGc,
+  type GcSite,
+} from '../services/storage_gc.js';
+
+const mockQuery = dbQuery as jest.Mock;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+
+const SLUG = 'joes-pizza';
+const ROOT = `sites/${SLUG}/`;
+const SITE_ID = '22222222-2222-4222-8222-222222222222';
+const ORG = '11111111-1111-4111-8111-111111111111';
+const DAY = 86_400_000;
+const NOW = new Date('2026-10-18T03:00:00.000Z');
+
+/** In-memory R2 bucket whose objects remember when they were uploaded. */
+function createBucket() {
+  const store = new Map<string, { body: string; uploaded: number }>();
+  const bucket = {
+    get: jest.fn(async (key: string) => {
+      const item = store.get(key);
+      if (!item) return null;
+      return {
+        key,
+        text: async () => item.body,
+        json: async () => JSON.parse(item.body),
+      } as unknown as R2ObjectBody;
+    }),
+    head: jest.fn(async (key: string) => (store.has(key) ? ({ key } as R2Object) : null)),
+    put: jest.fn(async (key: string, body: string) => {
+      store.set(key, { body, uploaded: NOW.getTime() });
+      return { key } as R2Object;
+    }),
+    delete: jest.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) store.delete(key);
+    }),
+    list: jest.fn(async (options?: { prefix?: string }) => ({
+      objects: [...store.entries()]
+        .filter(([key]) => key.startsWith(options?.prefix ?? ''))
+        .map(([key, item]) => ({ key, size: item.body.length, uploaded: new Date(item.uploaded) })),
+      truncated: false,
+    })),
+    store,
+  };
+  return bucket as typeof bucket & R2Bucket;
+}
+
+let bucket: ReturnType<typeof createBucket>;
+let kvStore: Map<string, string>;
+let env: Env;
+let snapshots: string[];
+let rollbacks: string[];
+let scheduledCommits: string[];
+
+/** Store `body` at `sites/{slug}/{rel}`, uploaded `daysAgo` before NOW. */
+function put(rel: string, body: string, daysAgo = 10): void {
+  bucket.store.set(`${ROOT}${rel}`, { body, uploaded: NOW.getTime() - daysAgo * DAY });
+}
+
+/** A linear `main` history of `count` commits, oldest first, each with its own blob. */
+function seedHistory(count: number): string[] {
+  const ids: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const id = `c${i}`;
+    put(`git/objects/h${i}`, `<p>edit ${i}</p>`);
+    put(
+      `git/commits/${id}.json`,
+      JSON.stringify({
+        id,
+        message: `edit ${i}`,
+        timestamp: new Date(NOW.getTime() - 10 * DAY).toISOString(),
+        author: 'owner',
+        parentId: i > 1 ? `c${i - 1}` : null,
+        files: [{ name: 'index.html', size: 10 }],
+        tree: { 'index.html': `h${i}` },
+      }),
+    );
+    ids.push(id);
+  }
+  put('git/HEAD', ids[ids.length - 1]!);
+  return ids;
+}
+
+function site(overrides: Partial<GcSite> = {}): GcSite {
+  return {
+    id: SITE_ID,
+    org_id: ORG,
+    slug: SLUG,
+    plan: 'free',
+    current_build_version: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  bucket = createBucket();
+  kvStore = new Map();
+  snapshots = [];
+  rollbacks = [];
+  scheduledCommits = [];
+  env = {
+    DB: {} as D1Database,
+    SITES_BUCKET: bucket,
+    CACHE_KV: {
+      get: jest.fn(async (key: string, type?: string) => {
+        const value = kvStore.get(key) ?? null;
+        return value && type === 'json' ? JSON.parse(value) : value;
+      }),
+      put: jest.fn(async (key: string, value: string) => void kvStore.set(key, value)),
+      delete: jest.fn(async (key: string) => void kvStore.delete(key)),
+      list: jest.fn(async ({ prefix }: { prefix: string }) => ({
+        keys: [...kvStore.keys()].filter((k) => k.startsWith(prefix)).map((name) => ({ name })),
+        list_complete: true,
+      })),
+    },
+    PLATFORM_ADMIN_EMAILS: 'ops@projectsites.dev',
+    ENVIRONMENT: 'test',
+  } as unknown as Env;
+  mockQuery.mockImplementation(async (_db: unknown, sql: string) => {
+    if (sql.includes('FROM site_snapshots')) {
+      return { data: snapshots.map((build_version) => ({ build_version })), error: null };
+    }
+    if (sql.includes('FROM site_version_schedules')) {
+      return {
+        data: [
+          ...rollbacks.map((target) => ({ target_type: 'version', target })),
+          ...scheduledCommits.map((target) => ({ target_type: 'commit', target })),
+        ],
+        error: null,
+      };
+    }
+    if (sql.includes('FROM sites')) {
+      return { data: [site({ current_build_version: 'v10' })], error: null };
+    }
+    return { data: [], error: null };
+  });
+});
+
+describe('isBuildVersion', () => {
+  it('recognises editor and build version names only', () => {
+    expect(isBuildVersion('v1760000000000')).toBe(true);
+    expect(isBuildVersion('2026-04-12T15-30-22-145Z')).toBe(true);
+    expect(isBuildVersion('git')).toBe(false);
+    expect(isBuildVersion('assets')).toBe(false);
+    expect(isBuildVersion('research.json')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+describe('planSiteGc', () => {
+  it('keeps the newest versions, the live one and named snapshots', async () => {
+    for (let i = 1; i <= 10; i++) put(`v${i}/index.html`, `<h1>${i}</h1>`, 20 - i);
+    put('_manifest.json', JSON.stringify({ current_version: 'v3' }));
+    put('research.json', '{}');
+    snapshots = ['v4'];
+
+    const { summary, objects } = await planSiteGc(env, site({ current_build_version: 'v2' }), NOW);
+
+    expect(summary.versions.sort()).toEqual(['v1', 'v5']);
+    expect(objects.map((o) => o.key).sort()).toEqual([
+      `${ROOT}v1/index.html`,
+      `${ROOT}v5/index.html`,
+    ]);
+    expect(summary.bytes).toBe('<h1>1</h1>'.length + '<h1>5</h1>'.length);
+    expect(mockQuery.mock.calls[0]![1]).toContain('auto = 0');
+  });
+
+  it('keeps versions a pending rollback will switch back to', async () => {
+    for (let i = 1; i <= 10; i++) put(`v${i}/index.html`, 'x', 20 - i);
+    rollbacks = ['v1'];
+
+    const { summary } = await planSiteGc(env, site({ current_build_version: 'v10' }), NOW);
+
+    expect(summary.versions).not.toContain('v1');
+    expect(mockQuery.mock.calls[1]![1]).toContain("target_type IN ('version', 'commit')");
+  });
+
+  it('keeps commits a pending schedule will publish, with their blobs and trees', async () => {
+    seedHistory(53);
+    put('git/trees/c1/index.html', '<p>legacy</p>');
+    scheduledCommits = ['c1'];
+
+    const { summary, objects } = await planSiteGc(env, site(), NOW);
+
+    expect(summary).toMatchObject({ commits: 2, blobs: 2, trees: 0 });
+    const keys = objects.map((o) => o.key);
+    expect(keys).not.toContain(`${ROOT}git/commits/c1.json`);
+    expect(keys).not.toContain(`${ROOT}git/objects/h1`);
+    expect(keys).toContain(`${ROOT}git/commits/c2.json`);
+  });
+
+  it('keeps more versions on paid and anything inside the grace period', async () => {
+    for (let i = 1; i <= 8; i++) put(`v${i}/index.html`, 'x', i < 8 ? 1 : 10);
+    expect((await planSiteGc(env, site(), NOW)).summary.versions).toHaveLength(1);
+    expect((await planSiteGc(env, site({ plan: 'paid' }), NOW)).summary.versions).toEqual([]);
+  });
+
+  it('refuses to plan when snapshots cannot be read', async () => {
+    put('v1/index.html', 'x');
+    mockQuery.mockResolvedValueOnce({ data: [], error: 'D1 unavailable' });
+    await expect(planSiteGc(env, site(), NOW)).rejects.toThrow('Failed to load snapshots');
+  });
+
+  it('prunes commits and blobs past the retained history of every branch', async () => {
+    seedHistory(53);
+    put('git/trees/c1/index.html', '<p>legacy</p>');
+
+    const { summary, objects } = await planSiteGc(env, site(), NOW);
+    expect(summary).toMatchObject({ commits: 3, blobs: 3, trees: 1 });
+    expect(objects.map((o) => o.key)).toEqual(
+      expect.arrayContaining([`${ROOT}git/commits/c3.json`, `${ROOT}git/objects/h3`]),
+    );
+    expect(objects.map((o) => o.key)).not.toContain(`${ROOT}git/commits/c4.json`);
+
+    put('git/refs/heads/draft', 'c2');
+    const withBranch = await planSiteGc(env, site(), NOW);
+    expect(withBranch.summary).toMatchObject({ commits: 1, blobs: 1, trees: 0 });
+  });
+
+  it('keeps assets a kept version, kept commit or the build context mentions', async () => {
+    put('v1/index.html', '<img src="/assets/generated/hero.png">');
+    put('v1/about.html', '<img src="https://joes-pizza.projectsites.dev/assets/My%20Logo.png">');
+    seedHistory(1);
+    put('git/objects/h1', '<link href="/assets/discovered/menu.css">');
+    put(
+      'assets/_build-context.json',
+      JSON.stringify({ assets: [{ key: `${ROOT}assets/logo.svg` }] }),
+    );
+    for (const name of ['generated/hero.png', 'My Logo.png', 'discovered/menu.css', 'logo.svg']) {
+      put(`assets/${name}`, 'img');
+    }
+    put('assets/generated/old.png', 'img');
+    put('assets/uploads/fresh.png', 'img', 0);
+
+    const { summary } = await planSiteGc(env, site({ current_build_version: 'v1' }), NOW);
+    expect(summary.assets).toEqual(['generated/old.png']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Report and cron
+// ---------------------------------------------------------------------------
+describe('buildStorageGcReport', () => {
+  it('rolls sites up per org and leaves out sites with nothing to free', async () => {
+    for (let i = 1; i <= 7; i++) put(`v${i}/index.html`, 'page', 20 - i);
+    mockQuery.mockImplementation(async (_db: unknown, sql: string) => {
+      if (sql.includes('FROM sites')) {
+        return {
+          data: [
+            site({ current_build_version: 'v7' }),
+            site({ id: 'other', slug: 'empty-site', current_build_version: null }),
+          ],
+          error: null,
+        };
+      }
+      return { data: [], error: null };
+    });
+
+    const report = await buildStorageGcReport(env, { orgId: ORG, now: NOW });
+    expect(report.sites.map((s) => s.slug)).toEqual([SLUG]);
+    expect(report.orgs).toEqual([{ org_id: ORG, sites: 1, objects: 2, bytes: 8 }]);
+    expect(report).toMatchObject({ objects: 2, bytes: 8, failed: 0 });
+    expect(mockQuery.mock.calls[0]![2]).toEqual([ORG]);
+  });
+});
+
+describe('runStorageGc', () => {
+  beforeEach(() => {
+    for (let i = 1; i <= 10; i++) put(`v${i}/index.html`, 'page', 20 - i);
+  });
+
+  it('only reports on the first run and deletes on the next day', async () => {
+    const first = await runStorageGc(env, NOW);
+    expect(first).toMatchObject({ orgs: 1, deleted: 0, pending: 5, complete: true });
+    expect(bucket.delete).not.toHaveBeenCalled();
+    expect(kvStore.get(STORAGE_GC_MARKER_KEY)).toBe('2026-10-18');
+    expect(await runStorageGc(env, new Date(NOW.getTime() + 3_600_000))).toBeNull();
+
+    // v6 falls out of the newest five once v11 is published
+    put('v11/index.html', 'page', 3);
+    const next = new Date(NOW.getTime() + DAY);
+    const second = await runStorageGc(env, next);
+
+    expect(second).toMatchObject({ sites: 1, deleted: 5, pending: 1, failed: 0 });
+    expect(bucket.store.has(`${ROOT}v1/index.html`)).toBe(false);
+    expect(bucket.store.has(`${ROOT}v6/index.html`)).toBe(true);
+    const [, sql, params] = mockExecute.mock.calls[0]!;
+    expect(sql).toContain('auto = 1');
+    expect(params!.slice(2)).toEqual([SITE_ID, 'v5', 'v4', 'v3', 'v2', 'v1']);
+    expect(JSON.parse(kvStore.get(`${STORAGE_GC_PENDING_KEY}:${ORG}`)!).sites[SITE_ID]).toEqual({
+      versions: ['v6'],
+      keys: [`${ROOT}v6/index.html`],
+    });
+  });
+
+  it('resumes from the KV cursor and only marks the day done after the last batch', async () => {
+    const base = mockQuery.getMockImplementation()!;
+    const orgs = Array.from({ length: 20 }, (_, i) => `org-${String(i).padStart(2, '0')}`);
+    mockQuery.mockImplementation(async (db: unknown, sql: string, params?: unknown[]) => {
+      if (sql.includes('DISTINCT org_id')) {
+        const after = params![0] as string;
+        return { data: orgs.filter((id) => id > after).map((org_id) => ({ org_id })), error: null };
+      }
+      if (sql.includes('FROM sites')) return { data: [], error: null };
+      return base(db, sql, params);
+    });
+
+    const first = await runStorageGc(env, NOW);
+    expect(first).toMatchObject({ orgs: 20, complete: false });
+    expect(kvStore.get(STORAGE_GC_CURSOR_KEY)).toBe('org-19');
+    expect(kvStore.has(STORAGE_GC_MARKER_KEY)).toBe(false);
+
+    const second = await runStorageGc(env, new Date(NOW.getTime() + 60_000));
+    expect(second).toMatchObject({ orgs: 0, complete: true });
+    expect(kvStore.get(STORAGE_GC_MARKER_KEY)).toBe('2026-10-18');
+    expect(kvStore.has(STORAGE_GC_CURSOR_KEY)).toBe(false);
+  });
+
+  it('keeps a planned blob that a commit reuses before the delete', async () => {
+    seedHistory(53);
+    await runStorageGc(env, NOW);
+
+    // The next run's plan still sees h3 as unreachable; then a commit lands
+    const list = bucket.list.getMockImplementation()!;
+    bucket.list.mockImplementation(async (options?: { prefix?: string }) => {
+      if (options?.prefix === `${ROOT}git/commits/`) {
+        put(
+          'git/commits/c54.json',
+          JSON.stringify({
+            id: 'c54',
+            message: 'revert',
+            timestamp: new Date(NOW.getTime() + DAY).toISOString(),
+            author: 'owner',
+            parentId: 'c53',
+            files: [{ name: 'index.html', size: 10 }],
+            tree: { 'index.html': 'h3' },
+          }),
+          -1,
+        );
+      }
+      return list(options);
+    });
+    await runStorageGc(env, new Date(NOW.getTime() + DAY));
+
+    expect(bucket.store.has(`${ROOT}git/objects/h1`)).toBe(false);
+    expect(bucket.store.has(`${ROOT}git/objects/h3`)).toBe(true);
+    expect(
+      JSON.parse(kvStore.get(`${STORAGE_GC_PENDING_KEY}:${ORG}`)!).sites[SITE_ID].keys,
+    ).toContain(`${ROOT}git/objects/h3`);
+  });
+
+  it('does not delete a plan made minutes earlier, across midnight', async () => {
+    await runStorageGc(env, new Date('2026-10-17T23:45:00.000Z'));
+    const result = await runStorageGc(env, new Date('2026-10-18T00:15:00.000Z'));
+    expect(result).toMatchObject({ deleted: 0, pending: 5 });
+    expect(bucket.delete).not.toHaveBeenCalled();
+  });
+
+  it('keeps objects that became referenced since they were planned', async () => {
+    await runStorageGc(env, NOW);
+    snapshots = ['v1'];
+    const result = await runStorageGc(env, new Date(NOW.getTime() + DAY));
+    expect(result).toMatchObject({ deleted: 4 });
+    expect(bucket.store.has(`${ROOT}v1/index.html`)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('storage routes', () => {
+  function createApp(vars: { userId?: string; orgId?: string } = {}) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      if (vars.userId) c.set('userId', vars.userId);
+      if (vars.orgId) c.set('orgId', vars.orgId);
+      await next();
+    });
+    app.route('/', storage);
+    return app;
+  }
+
+  beforeEach(() => {
+    // The routes plan against the wall clock
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    for (let i = 1; i <= 7; i++) put(`v${i}/index.html`, 'page', 20 - i);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports the caller’s org to owners and admins only', async () => {
+    mockQueryOne.mockResolvedValueOnce({ role: 'member' });
+    const denied = await createApp({ userId: 'user-1', orgId: ORG }).request(
+      '/api/storage/gc-report',
+      {},
+      env,
+    );
+    expect(denied.status).toBe(403);
+
+    mockQueryOne.mockResolvedValueOnce({ role: 'owner' });
+    const res = await createApp({ userId: 'user-1', orgId: ORG }).request(
+      '/api/storage/gc-report',
+      {},
+      env,
+    );
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { data: { sites: { versions: string[] }[] } };
+    expect(body.data.sites[0]!.versions.sort()).toEqual(['v1', 'v2']);
+    expect(bucket.delete).not.toHaveBeenCalled();
+  });
+
+  it('gives platform admins the cross-org report with the pending plan', async () => {
+    await runStorageGc(env, NOW);
+    mockQueryOne.mockResolvedValueOnce({ email: 'ops@projectsites.dev' });
+    const res = await createApp({ userId: 'user-1' }).request(
+      '/api/admin/storage/gc-report',
+      {},
+      env,
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      data: {
+        report: { objects: 2 },
+        pending: { generated_at: NOW.toISOString(), sites: 1, objects: 2 },
+      },
+    });
+  });
+
+  it('converts legacy git history in batches for platform admins', async () => {
+    put(
+      'git/commits/c1.json',
+      JSON.stringify({
+        id: 'c1',
+        message: 'legacy',
+        timestamp: NOW.toISOString(),
+        author: 'owner',
+        parentId: null,
+        files: [{ name: 'index.html', size: 13 }],
+      }),
+    );
+    put('git/trees/c1/index.html', '<p>legacy</p>');
+    mockQueryOne.mockResolvedValueOnce({ email: 'ops@projectsites.dev' });
+    mockQuery.mockResolvedValueOnce({ data: [{ id: SITE_ID, slug: SLUG }], error: null });
+
+    const res = await createApp({ userId: 'user-1' }).request(
+      '/api/admin/storage/migrate-git',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ limit: 1 }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      data: { sites: 1, migrated: 1, skipped: 0, failed: [], next_cursor: SITE_ID },
+    });
+    expect(bucket.store.has(`${ROOT}git/trees/c1/index.html`)).toBe(false);
+    expect(JSON.parse(bucket.store.get(`${ROOT}git/commits/c1.json`)!.body).tree).toBeDefined();
+    expect(mockQuery.mock.calls[0]![2]).toEqual(['', 1]);
+  });
+
+  it('keeps the cross-org report to platform admins', async () => {
+    mockQueryOne.mockResolvedValueOnce({ email: 'owner@example.com' });
+    const res = await createApp({ userId: 'user-1', orgId: ORG }).request(
+      '/api/admin/storage/gc-report',
+      {},
+      env,
+    );
+    expect(res.status).toBe(403);
+  });
+});
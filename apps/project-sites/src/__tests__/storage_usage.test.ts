@@ -0,0 +1,405 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+jest.mock('../services/billing.js', () => ({
+  getOrgEntitlements: jest.fn(),
+}));
+
+import { Hono } from 'hono';
+import { AppError, getEntitlements } from '@project-sites/shared';
+import type { Env, Variables } from '../types/env.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { storage } from '../routes/storage.js';
+import { dbExecute, dbQuery, dbQueryOne } from '../services/db.js';
+import { getOrgEntitlements } from '../services/billing.js';
+import {
+  STORAGE_USAGE_CURSOR_KEY,
+  STORAGE_USAGE_MARKER_KEY,
+  assertStorageAvailable,
+  bodyByteLength,
+  getStorageUsage,
+  meteredBucket,
+  recordPrefixUsage,
+  recordStorageDelta,
+  reconcileStorageUsage,
+} from '../services/storage_usage.js';
+
+const mockQuery = dbQuery as jest.Mock;
+const mockQueryOne = dbQueryOne as jest.Mock;
+const mockExecute = dbExecute as jest.Mock;
+const mockEntitlements = getOrgEntitlements as jest.Mock;
+
+const ORG = '11111111-1111-4111-8111-111111111111';
+const OTHER_ORG = '33333333-3333-4333-8333-333333333333';
+const MB = 1024 * 1024;
+const NOW = new Date('2026-10-19T03:00:00.000Z');
+
+/** In-memory R2 bucket storing bodies as strings. */
+function createBucket() {
+  const store = new Map<string, string>();
+  const object = (key: string) => ({ key, size: store.get(key)!.length }) as R2Object;
+  const bucket = {
+    head: jest.fn(async (key: string) => (store.has(key) ? object(key) : null)),
+    get: jest.fn(async (key: string) =>
+      store.has(key)
+        ? ({ key, text: async () => store.get(key) } as unknown as R2ObjectBody)
+        : null,
+    ),
+    put: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return object(key);
+    }),
+    delete: jest.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) store.delete(key);
+    }),
+    list: jest.fn(async (options?: { prefix?: string }) => ({
+      objects: [...store.entries()]
+        .filter(([key]) => key.startsWith(options?.prefix ?? ''))
+        .map(([key, body]) => ({ key, size: body.length })),
+      truncated: false,
+    })),
+    store,
+  };
+  return bucket as typeof bucket & R2Bucket;
+}
+
+let bucket: ReturnType<typeof createBucket>;
+let counters: Map<string, number>;
+let kvStore: Map<string, string>;
+let env: Env;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  bucket = createBucket();
+  counters = new Map();
+  kvStore = new Map();
+  env = {
+    DB: {} as D1Database,
+    SITES_BUCKET: bucket,
+    CACHE_KV: {
+      get: jest.fn(async (key: string) => kvStore.get(key) ?? null),
+      put: jest.fn(async (key: string, value: string) => void kvStore.set(key, value)),
+      delete: jest.fn(async (key: string) => void kvStore.delete(key)),
+    },
+    ENVIRONMENT: 'test',
+  } as unknown as Env;
+
+  mockEntitlements.mockImplementation(async (_db: unknown, orgId: string) =>
+    getEntitlements(orgId, 'free'),
+  );
+  mockQueryOne.mockImplementation(async (_db: unknown, _sql: string, params: string[]) =>
+    counters.has(params[0]!) ? { bytes_used: counters.get(params[0]!), reconciled_at: null } : null,
+  );
+  // Apply counter writes the way SQLite would
+  mockExecute.mockImplementation(async (_db: unknown, sql: string, params: unknown[]) => {
+    const orgId = params[0] as string;
+    if (sql.includes('reconciled_at')) {
+      counters.set(orgId, params[1] as number);
+    } else {
+      counters.set(orgId, Math.max(0, (counters.get(orgId) ?? 0) + (params[1] as number)));
+    }
+    return { error: null, changes: 1 };
+  });
+});
+
+describe('getStorageUsage', () => {
+  it('reports the running counter against the plan quota', async () => {
+    counters.set(ORG, 5 * MB);
+    mockEntitlements.mockResolvedValueOnce(getEntitlements(ORG, 'starter'));
+
+    const usage = await getStorageUsage(env.DB, ORG);
+
+    expect(usage).toEqual({
+      org_id: ORG,
+      tier: 'starter',
+      used_bytes: 5 * MB,
+      limit_bytes: 250 * MB,
+      reconciled_at: null,
+    });
+  });
+
+  it('starts orgs with no counter at zero', async () => {
+    const usage = await getStorageUsage(env.DB, ORG);
+    expect(usage.used_bytes).toBe(0);
+    expect(usage.limit_bytes).toBe(100 * MB);
+  });
+});
+
+describe('assertStorageAvailable', () => {
+  it('allows writes that fit', async () => {
+    counters.set(ORG, 99 * MB);
+    await expect(assertStorageAvailable(env.DB, ORG, MB)).resolves.toMatchObject({
+      used_bytes: 99 * MB,
+    });
+  });
+
+  it('refuses writes past the quota with QUOTA_EXCEEDED', async () => {
+    counters.set(ORG, 99 * MB);
+
+    const err = await assertStorageAvailable(env.DB, ORG, MB + 1).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(AppError);
+    expect((err as AppError).code).toBe('QUOTA_EXCEEDED');
+    expect((err as AppError).statusCode).toBe(413);
+    expect((err as AppError).details).toEqual({
+      tier: 'free',
+      used_bytes: 99 * MB,
+      limit_bytes: 100 * MB,
+      requested_bytes: MB + 1,
+    });
+  });
+});
+
+describe('recordStorageDelta', () => {
+  it('upserts the counter without going below zero', async () => {
+    await recordStorageDelta(env.DB, ORG, 500);
+    await recordStorageDelta(env.DB, ORG, -800);
+
+    expect(counters.get(ORG)).toBe(0);
+    expect(mockExecute.mock.calls[0]![1]).toContain('ON CONFLICT(org_id)');
+  });
+
+  it('skips zero deltas', async () => {
+    await recordStorageDelta(env.DB, ORG, 0);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+describe('bodyByteLength', () => {
+  it('measures strings as UTF-8', () => {
+    expect(bodyByteLength('héllo')).toBe(6);
+  });
+
+  it('measures buffers and blobs', () => {
+    expect(bodyByteLength(new ArrayBuffer(12))).toBe(12);
+    expect(bodyByteLength(new Uint8Array(7))).toBe(7);
+    expect(bodyByteLength(new Blob(['abc']))).toBe(3);
+    expect(bodyByteLength(null)).toBe(0);
+  });
+
+  it('returns null for streams', () => {
+    expect(bodyByteLength(new ReadableStream())).toBeNull();
+  });
+});
+
+describe('meteredBucket', () => {
+  it('charges new objects to the org', async () => {
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await metered.put('sites/a/index.html', 'x'.repeat(300));
+
+    expect(bucket.store.get('sites/a/index.html')).toHaveLength(300);
+    expect(counters.get(ORG)).toBe(300);
+  });
+
+  it('charges overwrites only for what they add or free', async () => {
+    bucket.store.set('sites/a/index.html', 'x'.repeat(300));
+    counters.set(ORG, 300);
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await metered.put('sites/a/index.html', 'x'.repeat(100));
+
+    expect(counters.get(ORG)).toBe(100);
+  });
+
+  it('refuses a put past the quota without writing it', async () => {
+    counters.set(ORG, 100 * MB - 10);
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await expect(metered.put('sites/a/big.html', 'x'.repeat(11))).rejects.toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+    });
+    expect(bucket.put).not.toHaveBeenCalled();
+    expect(counters.get(ORG)).toBe(100 * MB - 10);
+  });
+
+  it('lets shrinking writes through when already over the quota', async () => {
+    bucket.store.set('sites/a/index.html', 'x'.repeat(50));
+    counters.set(ORG, 200 * MB);
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await metered.put('sites/a/index.html', 'x'.repeat(20));
+
+    expect(counters.get(ORG)).toBe(200 * MB - 30);
+  });
+
+  it('checks concurrent puts as a whole', async () => {
+    counters.set(ORG, 100 * MB - 15);
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    const results = await Promise.allSettled([
+      metered.put('sites/a/one.html', 'x'.repeat(10)),
+      metered.put('sites/a/two.html', 'x'.repeat(10)),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(counters.get(ORG)).toBe(100 * MB - 5);
+  });
+
+  it('credits deleted objects back', async () => {
+    bucket.store.set('sites/a/one.html', 'x'.repeat(40));
+    bucket.store.set('sites/a/two.html', 'x'.repeat(60));
+    counters.set(ORG, 100);
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await metered.delete(['sites/a/one.html', 'sites/a/two.html', 'sites/a/missing.html']);
+
+    expect(bucket.store.size).toBe(0);
+    expect(counters.get(ORG)).toBe(0);
+  });
+
+  it('passes reads straight through', async () => {
+    bucket.store.set('sites/a/index.html', '<p>hi</p>');
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    const object = await metered.get('sites/a/index.html');
+
+    expect(await object!.text()).toBe('<p>hi</p>');
+    expect(mockQueryOne).not.toHaveBeenCalled();
+  });
+
+  it('keeps the write when the counter update fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockExecute.mockRejectedValueOnce(new Error('D1 unavailable'));
+    const metered = meteredBucket(bucket, env.DB, ORG);
+
+    await metered.put('sites/a/index.html', 'abc');
+
+    expect(bucket.store.has('sites/a/index.html')).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to record storage usage'));
+    warn.mockRestore();
+  });
+});
+
+describe('recordPrefixUsage', () => {
+  it('charges everything under the prefix', async () => {
+    bucket.store.set('sites/a/v1/index.html', 'x'.repeat(70));
+    bucket.store.set('sites/a/v1/style.css', 'x'.repeat(30));
+    bucket.store.set('sites/a/v0/index.html', 'x'.repeat(500));
+
+    await expect(recordPrefixUsage(env, ORG, 'sites/a/v1/')).resolves.toBe(100);
+    expect(counters.get(ORG)).toBe(100);
+  });
+});
+
+describe('reconcileStorageUsage', () => {
+  beforeEach(() => {
+    bucket.store.set('sites/a/v1/index.html', 'x'.repeat(70));
+    bucket.store.set('sites/b/v1/index.html', 'x'.repeat(30));
+    bucket.store.set('uploads/u1/logo/logo.png', 'x'.repeat(900));
+    const sites = [
+      { org_id: ORG, slug: 'a' },
+      { org_id: ORG, slug: 'b' },
+    ];
+    mockQuery.mockImplementation(async (_db: unknown, sql: string, params: unknown[]) => {
+      if (sql.includes('UNION')) {
+        const [after, limit] = params as [string, number];
+        const ids = [...new Set([...sites.map((s) => s.org_id), ...counters.keys()])]
+          .filter((id) => id > after)
+          .sort()
+          .slice(0, limit);
+        return { data: ids.map((org_id) => ({ org_id })), error: null };
+      }
+      if (sql.includes('FROM sites')) {
+        return { data: sites.filter((s) => params.includes(s.org_id)), error: null };
+      }
+      return {
+        data: [...counters]
+          .filter(([org_id]) => params.includes(org_id))
+          .map(([org_id, bytes_used]) => ({ org_id, bytes_used })),
+        error: null,
+      };
+    });
+  });
+
+  it('overwrites counters with what R2 holds under each site', async () => {
+    counters.set(ORG, 5_000);
+    counters.set(OTHER_ORG, 1_234);
+
+    const result = await reconcileStorageUsage(env, NOW);
+
+    expect(result).toEqual({
+      orgs: 2,
+      bytes: 100,
+      drift: 4_900 + 1_234,
+      failed: 0,
+      complete: true,
+    });
+    expect(counters.get(ORG)).toBe(100);
+    expect(counters.get(OTHER_ORG)).toBe(0);
+    expect(kvStore.get(STORAGE_USAGE_MARKER_KEY)).toBe('2026-10-19');
+  });
+
+  it('pages through orgs and marks the day only when the pass completes', async () => {
+    const orgs = Array.from({ length: 60 }, (_, i) => `org-${String(i).padStart(2, '0')}`);
+    for (const id of orgs) counters.set(id, 10);
+
+    const first = await reconcileStorageUsage(env, NOW);
+    expect(first).toMatchObject({ orgs: 50, complete: false });
+    // ORG sorts first, so the batch ends one short of org-49
+    expect(counters.get(ORG)).toBe(100);
+    expect(kvStore.get(STORAGE_USAGE_CURSOR_KEY)).toBe('org-48');
+    expect(kvStore.has(STORAGE_USAGE_MARKER_KEY)).toBe(false);
+    expect(counters.get('org-48')).toBe(0);
+    expect(counters.get('org-49')).toBe(10);
+
+    const second = await reconcileStorageUsage(env, NOW);
+    expect(second).toMatchObject({ orgs: 11, complete: true });
+    expect(counters.get('org-59')).toBe(0);
+    expect(kvStore.has(STORAGE_USAGE_CURSOR_KEY)).toBe(false);
+    expect(kvStore.get(STORAGE_USAGE_MARKER_KEY)).toBe('2026-10-19');
+  });
+
+  it('runs once a day', async () => {
+    kvStore.set(STORAGE_USAGE_MARKER_KEY, '2026-10-19');
+    await expect(reconcileStorageUsage(env, NOW)).resolves.toBeNull();
+    expect(bucket.list).not.toHaveBeenCalled();
+  });
+
+  it('keeps the running counter of an org whose listing fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    counters.set(ORG, 5_000);
+    bucket.list.mockRejectedValueOnce(new Error('R2 unavailable'));
+
+    const result = await reconcileStorageUsage(env, NOW);
+
+    expect(result).toMatchObject({ orgs: 0, failed: 1 });
+    expect(counters.get(ORG)).toBe(5_000);
+    warn.mockRestore();
+  });
+});
+
+describe('GET /api/storage/usage', () => {
+  function makeApp(orgId: string | null) {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.onError(errorHandler);
+    app.use('*', async (c, next) => {
+      c.set('requestId', 'req-1');
+      if (orgId) {
+        c.set('orgId', orgId);
+        c.set('userId', 'user-1');
+      }
+      await next();
+    });
+    app.route('/', storage);
+    return app;
+  }
+
+  it('returns the org usage and quota', async () => {
+    counters.set(ORG, 42 * MB);
+
+    const res = await makeApp(ORG).request('/api/storage/usage', {}, env);
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { data: { used_bytes: number; limit_bytes: number } };
+    expect(body.data).toMatchObject({ used_bytes: 42 * MB, limit_bytes: 100 * MB });
+  });
+
+  it('requires a session', async () => {
+    const res = await makeApp(null).request('/api/storage/usage', {}, env);
+    expect(res.status).toBe(401);
+  });
+});
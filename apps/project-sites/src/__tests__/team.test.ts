@@ -0,0 +1,258 @@
+jest.mock('../services/db.js', () => ({
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+}));
+
+import { Hono } from 'hono';
+import { aiAdmin } from '../routes/ai_admin.js';
+import { dbExecute, dbQueryOne } from '../services/db.js';
+import {
+  acceptInvite,
+  assertCanChangeRole,
+  assertCanInvite,
+  assertCanRemove,
+  issueInviteToken,
+  transferOwnership,
+  type TeamInviteRow,
+} from '../services/team.js';
+import type { Env, Variables } from '../types/env.js';
+
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const db = {} as D1Database;
+
+function invite(overrides: Partial<TeamInviteRow> = {}): TeamInviteRow {
+  return {
+    id: 'inv-1',
+    org_id: 'org-1',
+    email: 'new@example.com',
+    role: 'member',
+    invite_token: 'a'.repeat(64),
+    invited_by_user_id: 'owner-1',
+    accepted_at: null,
+    expires_at: new Date(Date.now() + 86400_000).toISOString(),
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// RBAC guards
+// ---------------------------------------------------------------------------
+describe('assertCanInvite', () => {
+  it('lets owners and admins invite at or below their own role', () => {
+    expect(() => assertCanInvite('owner', 'admin')).not.toThrow();
+    expect(() => assertCanInvite('admin', 'viewer')).not.toThrow();
+  });
+
+  it('rejects members, non-members and escalation', () => {
+    expect(() => assertCanInvite('member', 'viewer')).toThrow('Only owners and admins can invite');
+    expect(() => assertCanInvite(undefined, 'viewer')).toThrow('Not a member');
+    expect(() => assertCanInvite('admin', 'owner')).toThrow('Ownership can only be transferred');
+  });
+});
+
+describe('assertCanChangeRole', () => {
+  const admin = { userId: 'u-admin', role: 'admin' };
+
+  it('allows an admin to demote a member', () => {
+    expect(() =>
+      assertCanChangeRole(admin, { userId: 'u-2', role: 'member' }, 'viewer'),
+    ).not.toThrow();
+  });
+
+  it('blocks self-changes, owner changes and promotion above the actor', () => {
+    expect(() =>
+      assertCanChangeRole(admin, { userId: 'u-admin', role: 'admin' }, 'member'),
+    ).toThrow('your own role');
+    expect(() => assertCanChangeRole(admin, { userId: 'u-1', role: 'owner' }, 'admin')).toThrow(
+      'ownership transfer',
+    );
+    expect(() =>
+      assertCanChangeRole(
+        { userId: 'u-m', role: 'member' },
+        { userId: 'u-2', role: 'viewer' },
+        'member',
+      ),
+    ).toThrow('Only owners and admins');
+  });
+});
+
+describe('assertCanRemove', () => {
+  it('only lets the owner remove, and never the owner', () => {
+    expect(() =>
+      assertCanRemove({ userId: 'o', role: 'owner' }, { userId: 'm', role: 'admin' }),
+    ).not.toThrow();
+    expect(() =>
+      assertCanRemove({ userId: 'a', role: 'admin' }, { userId: 'm', role: 'member' }),
+    ).toThrow('Only the owner');
+    expect(() =>
+      assertCanRemove({ userId: 'o', role: 'owner' }, { userId: 'o', role: 'owner' }),
+    ).toThrow('Transfer ownership');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// acceptInvite
+// ---------------------------------------------------------------------------
+describe('acceptInvite', () => {
+  const input = { token: 'a'.repeat(64), userId: 'user-9', email: 'New@Example.com' };
+
+  it('claims the invite, then inserts a membership with the invited role', async () => {
+    mockQueryOne.mockResolvedValueOnce(invite()).mockResolvedValueOnce(null);
+    const result = await acceptInvite(db, input);
+
+    expect(result.alreadyMember).toBe(false);
+    expect(mockExecute.mock.calls[0]![1]).toContain('WHERE id = ? AND accepted_at IS NULL');
+    const [, insertSql, insertParams] = mockExecute.mock.calls[1]!;
+    expect(insertSql).toContain('INSERT INTO memberships');
+    expect(insertParams!.slice(1, 4)).toEqual(['org-1', 'user-9', 'member']);
+  });
+
+  it('revives a previously removed membership', async () => {
+    mockQueryOne
+      .mockResolvedValueOnce(invite({ role: 'admin' }))
+      .mockResolvedValueOnce({ id: 'mem-1', deleted_at: '2026-01-05T00:00:00.000Z' });
+    await acceptInvite(db, input);
+    const [, sql, params] = mockExecute.mock.calls[1]!;
+    expect(sql).toContain('deleted_at = NULL');
+    expect(params).toEqual(['admin', expect.any(String), 'mem-1']);
+  });
+
+  it('lets only one of two concurrent accepts through', async () => {
+    mockQueryOne.mockResolvedValueOnce(invite());
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(acceptInvite(db, input)).rejects.toThrow('already been accepted');
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the claim when the membership cannot be written', async () => {
+    mockQueryOne.mockResolvedValueOnce(invite()).mockResolvedValueOnce(null);
+    mockExecute
+      .mockResolvedValueOnce({ error: null, changes: 1 })
+      .mockResolvedValueOnce({ error: 'UNIQUE constraint failed', changes: 0 });
+    await expect(acceptInvite(db, input)).rejects.toThrow('Failed to add membership');
+    expect(mockExecute.mock.calls[2]![1]).toContain('SET accepted_at = NULL');
+  });
+
+  it('rejects expired, accepted and mismatched invites', async () => {
+    mockQueryOne.mockResolvedValueOnce(invite({ expires_at: '2020-01-01T00:00:00.000Z' }));
+    await expect(acceptInvite(db, input)).rejects.toThrow('Invite has expired');
+
+    mockQueryOne.mockResolvedValueOnce(invite({ accepted_at: '2026-01-02T00:00:00.000Z' }));
+    await expect(acceptInvite(db, input)).rejects.toThrow('already been accepted');
+
+    mockQueryOne.mockResolvedValueOnce(invite());
+    await expect(acceptInvite(db, { ...input, email: 'other@example.com' })).rejects.toThrow(
+      'sent to new@example.com',
+    );
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// transferOwnership
+// ---------------------------------------------------------------------------
+describe('transferOwnership', () => {
+  const base = { orgId: 'org-1', actorId: 'owner-1', actorRole: 'owner', targetUserId: 'user-2' };
+
+  /** D1 stub recording each prepared statement; `changes` is what the batch reports. */
+  function d1Stub(changes: number) {
+    const statements: { sql: string; params: unknown[] }[] = [];
+    const batchDb = {
+      prepare: jest.fn((sql: string) => ({
+        bind: (...params: unknown[]) => {
+          statements.push({ sql, params });
+          return { sql, params };
+        },
+      })),
+      batch: jest.fn(async (stmts: unknown[]) => stmts.map(() => ({ meta: { changes } }))),
+    };
+    return { db: batchDb as unknown as D1Database, batchDb, statements };
+  }
+
+  it('promotes the target and demotes the previous owner to admin in one batch', async () => {
+    mockQueryOne.mockResolvedValueOnce({ role: 'member' });
+    const { db: d1, batchDb, statements } = d1Stub(1);
+    await transferOwnership(d1, base);
+
+    expect(batchDb.batch).toHaveBeenCalledTimes(1);
+    expect(statements[0]!.sql).toContain("SET role = 'owner'");
+    expect(statements[0]!.params).toEqual([
+      expect.any(String),
+      'org-1',
+      'user-2',
+      'org-1',
+      'owner-1',
+    ]);
+    expect(statements[1]!.sql).toContain("SET role = 'admin'");
+    expect(statements[1]!.params).toEqual([
+      expect.any(String),
+      'org-1',
+      'owner-1',
+      'org-1',
+      'user-2',
+    ]);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict when ownership moved in the meantime', async () => {
+    mockQueryOne.mockResolvedValueOnce({ role: 'member' });
+    await expect(transferOwnership(d1Stub(0).db, base)).rejects.toThrow('Ownership changed');
+  });
+
+  it('is owner-only and requires a current member', async () => {
+    await expect(transferOwnership(db, { ...base, actorRole: 'admin' })).rejects.toThrow(
+      'Only the owner',
+    );
+    await expect(transferOwnership(db, base)).rejects.toThrow('Member not found');
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
+
+describe('issueInviteToken', () => {
+  it('issues a 64-char token valid for seven days', () => {
+    const now = Date.UTC(2026, 0, 1);
+    const { token, expires_at } = issueInviteToken(now);
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(expires_at).toBe('2026-01-08T00:00:00.000Z');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+describe('POST /api/team/invites/accept', () => {
+  it('asks phone-only accounts to add an email before accepting', async () => {
+    const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+    app.use('*', async (c, next) => {
+      c.set('userId', 'user-1');
+      await next();
+    });
+    app.route('/', aiAdmin);
+    const env = {
+      DB: { prepare: () => ({ bind: () => ({ first: async () => ({ email: null }) }) }) },
+    } as unknown as Env;
+
+    const res = await app.request(
+      '/api/team/invites/accept',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: 'a'.repeat(64) }),
+      },
+      env,
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: { message: 'Add an email address to your account to accept this invite' },
+    });
+    expect(mockQueryOne).not.toHaveBeenCalled();
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
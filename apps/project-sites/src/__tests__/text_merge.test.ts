@@ -0,0 +1,99 @@
+import { mergeText } from '../services/text_merge.js';
+
+const BASE = [
+  '<h1>Joe’s Pizza</h1>',
+  '<p>Open 11-9</p>',
+  '<p>Call 555-0100</p>',
+  '<footer>2025</footer>',
+  '',
+].join('\n');
+
+function edit(text: string, from: string, to: string): string {
+  return text.replace(from, to);
+}
+
+describe('mergeText', () => {
+  it('takes whichever side changed when only one did', () => {
+    const changed = edit(BASE, 'Open 11-9', 'Open 10-10');
+    expect(mergeText(BASE, changed, BASE)).toEqual({ content: changed, conflicts: [] });
+    expect(mergeText(BASE, BASE, changed)).toEqual({ content: changed, conflicts: [] });
+  });
+
+  it('combines edits to different lines', () => {
+    const head = edit(BASE, 'Open 11-9', 'Open 10-10');
+    const incoming = edit(BASE, '2025', '2026');
+    const result = mergeText(BASE, head, incoming);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(edit(head, '2025', '2026'));
+  });
+
+  it('keeps identical edits once', () => {
+    const both = edit(BASE, 'Call 555-0100', 'Call 555-0199');
+    expect(mergeText(BASE, both, both).content).toBe(both);
+
+    const head = edit(both, 'Joe’s Pizza', 'Joe’s Pizzeria');
+    const result = mergeText(BASE, head, both);
+    expect(result).toEqual({ content: head, conflicts: [] });
+  });
+
+  it('merges insertions at different places', () => {
+    const head = edit(BASE, '<p>Open 11-9</p>\n', '<p>Open 11-9</p>\n<p>Closed Mondays</p>\n');
+    const incoming = `<!doctype html>\n${BASE}`;
+    const result = mergeText(BASE, head, incoming);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(`<!doctype html>\n${head}`);
+  });
+
+  it('reports overlapping edits as hunks and marks them in the content', () => {
+    const head = edit(BASE, 'Open 11-9', 'Open 10-10');
+    const incoming = edit(edit(BASE, 'Open 11-9', 'Open noon-8'), '2025', '2026');
+    const result = mergeText(BASE, head, incoming);
+
+    expect(result.conflicts).toEqual([
+      {
+        baseStart: 2,
+        base: ['<p>Open 11-9</p>'],
+        head: ['<p>Open 10-10</p>'],
+        incoming: ['<p>Open noon-8</p>'],
+      },
+    ]);
+    expect(result.content).toBe(
+      [
+        '<h1>Joe’s Pizza</h1>',
+        '<<<<<<< head',
+        '<p>Open 10-10</p>',
+        '=======',
+        '<p>Open noon-8</p>',
+        '>>>>>>> incoming',
+        '<p>Call 555-0100</p>',
+        '<footer>2026</footer>',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('treats edits to neighbouring lines as a conflict', () => {
+    const head = edit(BASE, 'Open 11-9', 'Open 10-10');
+    const incoming = edit(BASE, 'Call 555-0100', 'Call 555-0199');
+    const [hunk] = mergeText(BASE, head, incoming).conflicts;
+    expect(hunk).toEqual({
+      baseStart: 2,
+      base: ['<p>Open 11-9</p>', '<p>Call 555-0100</p>'],
+      head: ['<p>Open 10-10</p>', '<p>Call 555-0100</p>'],
+      incoming: ['<p>Open 11-9</p>', '<p>Call 555-0199</p>'],
+    });
+  });
+
+  it('conflicts when one side empties a file the other edited', () => {
+    const incoming = edit(BASE, '2025', '2026');
+    const result = mergeText(BASE, '', incoming);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]!.head).toEqual([]);
+    expect(result.conflicts[0]!.incoming).toEqual(incoming.trimEnd().split('\n'));
+  });
+
+  it('puts markers on their own line when the last line has no newline', () => {
+    const result = mergeText('a', 'b', 'c');
+    expect(result.content).toBe('<<<<<<< head\nb\n=======\nc\n>>>>>>> incoming\n');
+  });
+});
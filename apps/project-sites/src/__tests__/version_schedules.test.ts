@@ -0,0 +1,288 @@
+jest.mock('../services/db.js', () => ({
+  dbQuery: jest.fn().mockResolvedValue({ data: [], error: null }),
+  dbQueryOne: jest.fn().mockResolvedValue(null),
+  dbExecute: jest.fn().mockResolvedValue({ error: null, changes: 1 }),
+  dbInsert: jest.fn().mockResolvedValue({ error: null }),
+}));
+
+jest.mock('../services/audit.js', () => ({
+  writeAuditLog: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../services/git.js', () => ({
+  getCommit: jest.fn().mockResolvedValue(null),
+}));
+
+jest.mock('../services/site_branches.js', () => ({
+  publishCommit: jest.fn().mockResolvedValue({ version: 'v999', files: 3 }),
+}));
+
+jest.mock('../services/notifications.js', () => ({
+  notifyVersionSwitch: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { dbExecute, dbInsert, dbQuery, dbQueryOne } from '../services/db.js';
+import { writeAuditLog } from '../services/audit.js';
+import { getCommit } from '../services/git.js';
+import { publishCommit } from '../services/site_branches.js';
+import { notifyVersionSwitch } from '../services/notifications.js';
+import {
+  cancelVersionSchedule,
+  createVersionSchedule,
+  normalizeScheduleTimes,
+  rescheduleVersionSchedule,
+  runDueVersionSwitches,
+  type VersionSchedule,
+} from '../services/version_schedules.js';
+
+const mockQuery = dbQuery as jest.MockedFunction<typeof dbQuery>;
+const mockQueryOne = dbQueryOne as jest.MockedFunction<typeof dbQueryOne>;
+const mockExecute = dbExecute as jest.MockedFunction<typeof dbExecute>;
+const mockInsert = dbInsert as jest.MockedFunction<typeof dbInsert>;
+const mockAudit = writeAuditLog as jest.MockedFunction<typeof writeAuditLog>;
+const mockGetCommit = getCommit as jest.MockedFunction<typeof getCommit>;
+const mockPublishCommit = publishCommit as jest.MockedFunction<typeof publishCommit>;
+const mockNotify = notifyVersionSwitch as jest.MockedFunction<typeof notifyVersionSwitch>;
+
+const NOW = new Date('2026-12-23T12:00:00.000Z');
+const SITE = { id: 'site-1', org_id: 'org-1', slug: 'vitos' };
+const SITE_ROW = { ...SITE, business_name: "Vito's", current_build_version: 'v100' };
+
+const createEnv = () =>
+  ({
+    DB: {} as D1Database,
+    CACHE_KV: { delete: jest.fn().mockResolvedValue(undefined) },
+    SITES_BUCKET: {
+      head: jest.fn().mockResolvedValue({ size: 10 }),
+      put: jest.fn().mockResolvedValue(undefined),
+    },
+  }) as any;
+
+function schedule(overrides: Partial<VersionSchedule> = {}): VersionSchedule {
+  return {
+    id: 'sched-1',
+    site_id: 'site-1',
+    org_id: 'org-1',
+    target_type: 'snapshot',
+    target: 'holiday',
+    run_at: '2026-12-24T05:00:00.000Z',
+    revert_at: null,
+    parent_id: null,
+    status: 'pending',
+    previous_version: null,
+    result_version: null,
+    error: null,
+    created_by: 'user-1',
+    executed_at: null,
+    created_at: '2026-12-01T00:00:00.000Z',
+    updated_at: '2026-12-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockExecute.mockResolvedValue({ error: null, changes: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// normalizeScheduleTimes
+// ---------------------------------------------------------------------------
+describe('normalizeScheduleTimes', () => {
+  it('converts offsets to UTC', () => {
+    expect(
+      normalizeScheduleTimes('2026-12-24T00:00:00-05:00', '2027-01-02T00:00:00-05:00', NOW),
+    ).toEqual({ run_at: '2026-12-24T05:00:00.000Z', revert_at: '2027-01-02T05:00:00.000Z' });
+  });
+
+  it('rejects past, far-future and out-of-order times', () => {
+    expect(() => normalizeScheduleTimes('2026-12-01T00:00:00Z', null, NOW)).toThrow(
+      'run_at must be in the future',
+    );
+    expect(() => normalizeScheduleTimes('2028-06-01T00:00:00Z', null, NOW)).toThrow('a year');
+    expect(() =>
+      normalizeScheduleTimes('2026-12-24T00:00:00Z', '2026-12-24T00:00:00Z', NOW),
+    ).toThrow('revert_at must be after run_at');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createVersionSchedule / reschedule / cancel
+// ---------------------------------------------------------------------------
+describe('createVersionSchedule', () => {
+  const input = {
+    target_type: 'snapshot' as const,
+    target: 'holiday',
+    run_at: '2026-12-24T00:00:00-05:00',
+    revert_at: '2027-01-02T00:00:00-05:00',
+  };
+
+  it('stores a pending switch for an existing snapshot', async () => {
+    mockQueryOne.mockResolvedValueOnce({ id: 'snap-1' }).mockResolvedValueOnce({ cnt: 0 });
+
+    const created = await createVersionSchedule(createEnv(), SITE, input, 'user-1', NOW);
+
+    expect(created).toMatchObject({
+      status: 'pending',
+      run_at: '2026-12-24T05:00:00.000Z',
+      revert_at: '2027-01-02T05:00:00.000Z',
+    });
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.anything(),
+      'site_version_schedules',
+      expect.objectContaining({ target: 'holiday', created_by: 'user-1', org_id: 'org-1' }),
+    );
+  });
+
+  it('404s on a missing snapshot or commit', async () => {
+    await expect(createVersionSchedule(createEnv(), SITE, input, null, NOW)).rejects.toThrow(
+      'Snapshot not found',
+    );
+    await expect(
+      createVersionSchedule(
+        createEnv(),
+        SITE,
+        { ...input, target_type: 'commit', target: 'abc' },
+        null,
+        NOW,
+      ),
+    ).rejects.toThrow('Commit not found');
+    expect(mockGetCommit).toHaveBeenCalledWith(expect.anything(), 'vitos', 'abc');
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('caps pending switches per site', async () => {
+    mockQueryOne.mockResolvedValueOnce({ id: 'snap-1' }).mockResolvedValueOnce({ cnt: 50 });
+    await expect(createVersionSchedule(createEnv(), SITE, input, null, NOW)).rejects.toThrow(
+      'at most 50',
+    );
+  });
+});
+
+describe('rescheduleVersionSchedule / cancelVersionSchedule', () => {
+  it('moves a pending switch and keeps its rollback unless told otherwise', async () => {
+    mockQueryOne.mockResolvedValueOnce(schedule({ revert_at: '2027-01-02T05:00:00.000Z' }));
+
+    const { after } = await rescheduleVersionSchedule(
+      {} as D1Database,
+      'site-1',
+      'sched-1',
+      { run_at: '2026-12-25T05:00:00Z' },
+      NOW,
+    );
+
+    expect(after.run_at).toBe('2026-12-25T05:00:00.000Z');
+    expect(after.revert_at).toBe('2027-01-02T05:00:00.000Z');
+    expect(mockExecute.mock.calls[0]![1]).toContain("status = 'pending'");
+  });
+
+  it('only changes pending switches', async () => {
+    mockQueryOne.mockResolvedValueOnce(schedule({ status: 'done' }));
+    await expect(cancelVersionSchedule({} as D1Database, 'site-1', 'sched-1', NOW)).rejects.toThrow(
+      'already done',
+    );
+    await expect(cancelVersionSchedule({} as D1Database, 'site-1', 'missing', NOW)).rejects.toThrow(
+      'Schedule not found',
+    );
+  });
+
+  it('loses the race to a cron run that already claimed the row', async () => {
+    mockQueryOne.mockResolvedValueOnce(schedule());
+    mockExecute.mockResolvedValueOnce({ error: null, changes: 0 });
+    await expect(cancelVersionSchedule({} as D1Database, 'site-1', 'sched-1', NOW)).rejects.toThrow(
+      'already started',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runDueVersionSwitches
+// ---------------------------------------------------------------------------
+describe('runDueVersionSwitches', () => {
+  it('flips to the snapshot version, queues the rollback, audits and emails', async () => {
+    const env = createEnv();
+    mockQuery.mockResolvedValueOnce({
+      data: [schedule({ revert_at: '2027-01-02T05:00:00.000Z' })],
+      error: null,
+    });
+    mockQueryOne
+      .mockResolvedValueOnce(SITE_ROW) // site
+      .mockResolvedValueOnce({ build_version: 'v50' }) // snapshot
+      .mockResolvedValueOnce({ email: 'vito@example.com' }); // creator
+
+    const result = await runDueVersionSwitches(env, NOW);
+
+    expect(result).toEqual({ switched: 1, failed: 0, deferred: 0 });
+    expect(env.SITES_BUCKET.head).toHaveBeenCalledWith('sites/vitos/v50/index.html');
+    expect(JSON.parse(env.SITES_BUCKET.put.mock.calls[0][1]).current_version).toBe('v50');
+    expect(env.CACHE_KV.delete).toHaveBeenCalledWith('host:vitos.projectsites.dev');
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.anything(),
+      'site_version_schedules',
+      expect.objectContaining({
+        target_type: 'version',
+        target: 'v100',
+        run_at: '2027-01-02T05:00:00.000Z',
+        parent_id: 'sched-1',
+      }),
+    );
+    expect(mockAudit).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: 'site.version_switched',
+        metadata_json: expect.objectContaining({ previous_version: 'v100', version: 'v50' }),
+      }),
+    );
+    expect(mockNotify).toHaveBeenCalledWith(
+      env,
+      expect.objectContaining({ email: 'vito@example.com', error: null }),
+    );
+  });
+
+  it('publishes commit targets through publishCommit', async () => {
+    mockQuery.mockResolvedValueOnce({
+      data: [schedule({ target_type: 'commit', target: 'abcdef1234' })],
+      error: null,
+    });
+    mockQueryOne.mockResolvedValueOnce(SITE_ROW);
+
+    await runDueVersionSwitches(createEnv(), NOW);
+
+    expect(mockPublishCommit).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'site-1' }),
+      'abcdef1234',
+    );
+  });
+
+  it('marks the switch failed when the target is gone, leaving the site alone', async () => {
+    const env = createEnv();
+    mockQuery.mockResolvedValueOnce({ data: [schedule()], error: null });
+    mockQueryOne.mockResolvedValueOnce(SITE_ROW); // snapshot lookup returns null
+
+    const result = await runDueVersionSwitches(env, NOW);
+
+    expect(result.failed).toBe(1);
+    expect(env.SITES_BUCKET.put).not.toHaveBeenCalled();
+    const failed = mockExecute.mock.calls.find(
+      ([, sql]) => sql.includes("status = 'failed'") && sql.includes('WHERE id = ?'),
+    );
+    expect(failed![2]![1]).toContain('no longer exists');
+    expect(mockAudit).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: 'site.version_switch_failed' }),
+    );
+  });
+
+  it('skips rows another run already claimed', async () => {
+    mockQuery.mockResolvedValueOnce({ data: [schedule()], error: null });
+    mockExecute
+      .mockResolvedValueOnce({ error: null, changes: 0 }) // stuck sweep
+      .mockResolvedValueOnce({ error: null, changes: 0 }); // claim
+
+    const result = await runDueVersionSwitches(createEnv(), NOW);
+
+    expect(result).toEqual({ switched: 0, failed: 0, deferred: 0 });
+    expect(mockQueryOne).not.toHaveBeenCalled();
+  });
+});
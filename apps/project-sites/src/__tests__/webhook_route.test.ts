@@ -18,6 +18,8 @@ jest.mock('../services/billing.js', () => ({
   handleSubscriptionUpdated: jest.fn(),
   handleSubscriptionDeleted: jest.fn(),
   handlePaymentFailed: jest.fn(),
+  handleInvoicePaid: jest.fn(),
+  grantIncludedCredits: jest.fn(),
 }));
 
 jest.mock('../services/audit.js', () => ({
@@ -64,6 +66,9 @@ const mockSubscriptionDeleted = billingService.handleSubscriptionDeleted as jest
 const mockPaymentFailed = billingService.handlePaymentFailed as jest.MockedFunction<
   typeof billingService.handlePaymentFailed
 >;
+const mockInvoicePaid = billingService.handleInvoicePaid as jest.MockedFunction<
+  typeof billingService.handleInvoicePaid
+>;
 const mockAuditLog = auditService.writeAuditLog as jest.MockedFunction<
   typeof auditService.writeAuditLog
 >;
@@ -258,6 +263,7 @@ describe('POST /webhooks/stripe - event processing', () => {
     expect(res.status).toBe(200);
     expect(mockSubscriptionUpdated).toHaveBeenCalledTimes(1);
     expect(mockSubscriptionUpdated).toHaveBeenCalledWith(
+      expect.anything(),
       expect.anything(),
       expect.objectContaining({
         id: 'sub_123',
@@ -307,14 +313,33 @@ describe('POST /webhooks/stripe - event processing', () => {
     );
   });
 
-  it('invoice.paid is a no-op and returns 200', async () => {
+  it('invoice.paid calls handleInvoicePaid to reset dunning', async () => {
     const app = createApp();
-    const event = makeStripeEvent('invoice.paid', { id: 'inv_123' });
+    const event = makeStripeEvent('invoice.paid', {
+      id: 'inv_123',
+      customer: 'cus_test',
+      subscription: 'sub_test',
+      subscription_details: { metadata: { org_id: 'org-5', tier: 'pro', interval: 'month' } },
+    });
     const res = await postWebhook(app, event);
     const body = await res.json();
 
     expect(res.status).toBe(200);
     expect(body.received).toBe(true);
+    expect(mockInvoicePaid).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ customer: 'cus_test', subscription: 'sub_test' }),
+    );
+    expect(billingService.grantIncludedCredits).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      {
+        id: 'inv_123',
+        customer: 'cus_test',
+        billing_reason: null,
+        subscription_details: { metadata: { org_id: 'org-5', tier: 'pro', interval: 'month' } },
+      },
+    );
     expect(mockCheckoutCompleted).not.toHaveBeenCalled();
     expect(mockSubscriptionUpdated).not.toHaveBeenCalled();
     expect(mockSubscriptionDeleted).not.toHaveBeenCalled();
@@ -44,7 +44,11 @@ import { forms } from './routes/forms.js';
 import { aiAdmin } from './routes/ai_admin.js';
 import { aiEndpointsPublic } from './routes/ai_endpoints_public.js';
 import { mcpOauth } from './routes/mcp_oauth.js';
+import { flags } from './routes/flags.js';
+import { storage } from './routes/storage.js';
+import { ACCESS_PATH, markPrivate, siteAccessGate } from './services/site_access.js';
 import { resolveSite, serveSiteFromR2 } from './services/site_serving.js';
+import { recordEvent } from './services/cf_analytics.js';
 import { dbUpdate } from './services/db.js';
 import { registerAllPrompts } from './services/ai_workflows.js';
 import { DOMAINS } from '@project-sites/shared';
@@ -111,7 +115,7 @@ app.use(
       return '';
     },
     allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+    allowHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-Org-Id'],
     credentials: true,
     maxAge: 86400,
   }),
@@ -123,6 +127,22 @@ app.use(
   '/api/auth/magic-link',
   rateLimitMiddleware({ maxRequests: 5, windowSeconds: 300, prefix: 'rl:magic' }),
 );
+app.use(
+  '/api/auth/phone',
+  rateLimitMiddleware({ maxRequests: 5, windowSeconds: 300, prefix: 'rl:phone' }),
+);
+app.use(
+  '/api/auth/phone/verify',
+  rateLimitMiddleware({ maxRequests: 10, windowSeconds: 300, prefix: 'rl:phone-verify' }),
+);
+app.use(
+  '/api/auth/mfa/*',
+  rateLimitMiddleware({ maxRequests: 10, windowSeconds: 300, prefix: 'rl:mfa' }),
+);
+app.use(
+  '/api/team/invites/magic-link',
+  rateLimitMiddleware({ maxRequests: 5, windowSeconds: 300, prefix: 'rl:invite' }),
+);
 app.use(
   '/api/search/businesses',
   rateLimitMiddleware({ maxRequests: 30, windowSeconds: 60, prefix: 'rl:search' }),
@@ -136,6 +156,16 @@ app.use(
   rateLimitMiddleware({ maxRequests: 30, windowSeconds: 60, prefix: 'rl:forms' }),
 );
 app.use('/api/ai/*', rateLimitMiddleware({ maxRequests: 20, windowSeconds: 60, prefix: 'rl:ai' }));
+// Site password and members sign-in form, served on every site hostname
+app.post(
+  ACCESS_PATH,
+  rateLimitMiddleware({
+    maxRequests: 10,
+    windowSeconds: 300,
+    prefix: 'rl:access',
+    perHost: true,
+  }),
+);
 
 // Auth middleware for API routes (sets userId/orgId if valid session)
 app.use('/api/*', authMiddleware);
@@ -152,6 +182,8 @@ app.route('/', forms); // Public form ingest + auth-gated submissions/integratio
 app.route('/', aiEndpointsPublic); // Public /api/ai/:slug/:endpoint dispatcher
 app.route('/', mcpOauth); // MCP OAuth start + callback (MailChimp/Stripe/Resend/HubSpot)
 app.route('/', aiAdmin); // Form submissions, AI logs, chat, endpoints, credits, alerts, team
+app.route('/', flags); // Feature flag evaluation + platform-admin flag management
+app.route('/', storage); // Storage GC dry-run reports + quota usage
 app.route('/', api);
 app.route('/', webhooks);
 
@@ -207,7 +239,13 @@ app.post('/api/internal/build-status', async (c) => {
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
   if (sig !== expected) return c.json({ error: 'invalid signature' }, 401);
-  let payload: { jobId?: string; status?: string; step?: string };
+  let payload: {
+    jobId?: string;
+    status?: string;
+    step?: string;
+    slug?: string;
+    logTail?: string[];
+  };
   try {
     payload = JSON.parse(body);
   } catch {
@@ -217,6 +255,15 @@ app.post('/api/internal/build-status', async (c) => {
   if (!jobId || typeof jobId !== 'string') return c.json({ error: 'missing jobId' }, 400);
   const record = JSON.stringify({ ...payload, lastUpdate: Date.now() });
   await c.env.CACHE_KV.put(`build:${jobId}`, record, { expirationTtl: 3600 });
+  // Container output between workflow heartbeats → live waiting-page log.
+  if (payload.status === 'running' && typeof payload.slug === 'string') {
+    const { recordBuildLog } = await import('./services/build_stream.js');
+    await recordBuildLog(c.env.DB, {
+      slug: payload.slug,
+      step: payload.step ?? null,
+      logTail: Array.isArray(payload.logTail) ? payload.logTail : null,
+    });
+  }
   return c.json({ ok: true });
 });
 
@@ -336,6 +383,21 @@ app.all('*', async (c) => {
     });
   }
 
+  // The other half of an apex / www pair sends visitors to the primary
+  if (site.redirect_to) {
+    return new Response(null, {
+      status: 301,
+      headers: {
+        Location: `https://${site.redirect_to}${path}${url.search}`,
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  }
+
+  // Password-protected and members-only sites and snapshots
+  const denied = await siteAccessGate(c.env, site, c.req.raw);
+  if (denied) return denied;
+
   // Check for ?chat query param (requires auth gate)
   if (url.searchParams.has('chat')) {
     // TODO: Implement chat overlay auth gate
@@ -349,11 +411,27 @@ app.all('*', async (c) => {
   }
 
   // Serve static site from R2
-  return serveSiteFromR2(c.env, site, path);
+  const served = await serveSiteFromR2(c.env, site, path, url.search, c.req.raw.headers);
+  const res = site.access ? markPrivate(served) : served;
+  // Bytes served feed site_cost_daily.bandwidth_bytes (services/cost_rollup.ts).
+  recordEvent(c.env, {
+    event: 'site_serve',
+    routePath: path,
+    siteId: site.site_id,
+    orgId: site.org_id,
+    userAgent: c.req.header('user-agent'),
+    referrer: c.req.header('referer'),
+    country: c.req.header('cf-ipcountry'),
+    bytes: Number(res.headers.get('Content-Length') ?? 0),
+  });
+  return res;
 });
 
 // ─── Queue Consumer ──────────────────────────────────────────
 
+/** Cron trigger (wrangler.toml) that only runs version switches and site translations. */
+const FIVE_MINUTE_CRON = '*/5 * * * *';
+
 export default {
   fetch: app.fetch,
 
@@ -462,7 +540,14 @@ export default {
    * Scheduled handler for periodic tasks (cron triggers).
    *
    * Runs:
+   * - Scheduled version switches (every trigger, including the 5-minute one)
+   * - Site translations (5-minute trigger only)
+   * - Check custom domain ownership TXT records, then request certificates
    * - Verify pending custom hostnames via Cloudflare API
+   * - Health-sweep active custom domains (DNS, SSL expiry, reachability)
+   * - Connect domain transfers the registry has approved
+   * - Unstick builds stuck for > 30 minutes
+   * - Advance dunning for past_due subscriptions (reminders, day-60 downgrade)
    * - Log results for observability
    */
   async scheduled(_event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
@@ -475,6 +560,89 @@ export default {
       }),
     );
 
+    try {
+      const { runDueVersionSwitches } = await import('./services/version_schedules.js');
+      const result = await runDueVersionSwitches(env);
+
+      if (result.switched || result.failed) {
+        console.warn(
+          JSON.stringify({
+            level: 'info',
+            service: 'cron',
+            message: 'Scheduled version switches complete',
+            switched: result.switched,
+            failed: result.failed,
+            deferred: result.deferred,
+          }),
+        );
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Scheduled version switches failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
+    // The 5-minute trigger only runs version switches and translations;
+    // everything below is half-hourly
+    if (_event.cron === FIVE_MINUTE_CRON) {
+      try {
+        const { runDueTranslations } = await import('./services/site_translation.js');
+        const result = await runDueTranslations(env);
+
+        if (result.translated || result.failed || result.deferred) {
+          console.warn(
+            JSON.stringify({
+              level: 'info',
+              service: 'cron',
+              message: 'Site translations complete',
+              translated: result.translated,
+              failed: result.failed,
+              deferred: result.deferred,
+            }),
+          );
+        }
+      } catch (err) {
+        console.warn(
+          JSON.stringify({
+            level: 'error',
+            service: 'cron',
+            message: 'Site translations failed',
+            error: err instanceof Error ? err.message : String(err),
+          }),
+        );
+      }
+      return;
+    }
+
+    try {
+      const { verifyOwnershipChallenges } = await import('./services/domains.js');
+      const result = await verifyOwnershipChallenges(env.DB, env);
+
+      console.warn(
+        JSON.stringify({
+          level: 'info',
+          service: 'cron',
+          message: 'Domain ownership checks complete',
+          verified: result.verified,
+          expired: result.expired,
+        }),
+      );
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Domain ownership checks failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
     try {
       const { verifyPendingHostnames } = await import('./services/domains.js');
       const result = await verifyPendingHostnames(env.DB, env);
@@ -499,6 +667,56 @@ export default {
       );
     }
 
+    try {
+      const { sweepHostnameHealth } = await import('./services/domain_health.js');
+      const result = await sweepHostnameHealth(env.DB, env);
+
+      console.warn(
+        JSON.stringify({
+          level: 'info',
+          service: 'cron',
+          message: 'Domain health sweep complete',
+          checked: result.checked,
+          degraded: result.degraded,
+          recovered: result.recovered,
+        }),
+      );
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Domain health sweep failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
+    try {
+      const { syncPendingTransfers } = await import('./services/domain_registration.js');
+      const result = await syncPendingTransfers(env.DB, env);
+
+      if (result.completed > 0) {
+        console.warn(
+          JSON.stringify({
+            level: 'info',
+            service: 'cron',
+            message: 'Domain transfers connected',
+            completed: result.completed,
+          }),
+        );
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Domain transfer sync failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
     // Unstick stuck builds — any site in 'building' status for > 30 minutes gets marked as 'error'
     try {
       const { dbQuery, dbExecute } = await import('./services/db.js');
@@ -547,5 +765,118 @@ export default {
         }),
       );
     }
+
+    try {
+      const { advanceDunning } = await import('./services/dunning.js');
+      const result = await advanceDunning(env);
+
+      console.warn(
+        JSON.stringify({
+          level: 'info',
+          service: 'cron',
+          message: 'Dunning walk complete',
+          reminded: result.reminded,
+          downgraded: result.downgraded,
+          failed: result.failed,
+        }),
+      );
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Dunning walk failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
+    try {
+      const { runNightlyCostRollup } = await import('./services/cost_rollup.js');
+      const result = await runNightlyCostRollup(env);
+
+      if (result) {
+        console.warn(
+          JSON.stringify({
+            level: 'info',
+            service: 'cron',
+            message: 'Site cost rollup complete',
+            from: result.from,
+            to: result.to,
+            rows: result.rows,
+            failed: result.failed,
+          }),
+        );
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Site cost rollup failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
+    try {
+      const { runStorageGc } = await import('./services/storage_gc.js');
+      const result = await runStorageGc(env);
+
+      if (result) {
+        console.warn(
+          JSON.stringify({
+            level: 'info',
+            service: 'cron',
+            message: 'Storage GC ran',
+            orgs: result.orgs,
+            sites: result.sites,
+            deleted: result.deleted,
+            bytes: result.bytes,
+            pending: result.pending,
+            failed: result.failed,
+            complete: result.complete,
+          }),
+        );
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Storage GC failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+
+    try {
+      const { reconcileStorageUsage } = await import('./services/storage_usage.js');
+      const result = await reconcileStorageUsage(env);
+
+      if (result) {
+        console.warn(
+          JSON.stringify({
+            level: 'info',
+            service: 'cron',
+            message: 'Storage usage reconciled',
+            orgs: result.orgs,
+            bytes: result.bytes,
+            drift: result.drift,
+            failed: result.failed,
+            complete: result.complete,
+          }),
+        );
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cron',
+          message: 'Storage usage reconciliation failed',
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
   },
 };
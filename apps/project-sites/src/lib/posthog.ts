@@ -65,7 +65,7 @@ export function capture(env: Env, ctx: ExecutionContext, event: PostHogEvent): v
 export function trackAuth(
   env: Env,
   ctx: ExecutionContext,
-  method: 'magic_link' | 'google_oauth' | 'github_oauth',
+  method: 'magic_link' | 'phone_otp' | 'google_oauth' | 'github_oauth',
   step: 'requested' | 'verified' | 'failed',
   distinctId: string,
   extra?: Record<string, unknown>,
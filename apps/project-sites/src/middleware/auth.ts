@@ -3,21 +3,51 @@
  * @description Bearer-token authentication middleware for Hono.
  *
  * Extracts a session token from the `Authorization: Bearer <token>` header,
- * validates it against D1, and populates `c.set('userId')` and `c.set('orgId')`
- * on the Hono context. If no token is present or the session is invalid, the
+ * validates it against D1, and populates `userId`, `orgId`, `userRole` and
+ * `billingAdmin` on the Hono context.
+ *
+ * Users who belong to several orgs (e.g. after accepting a team invite) pick
+ * the active one with an `X-Org-Id` header; it is honoured only when they hold
+ * a live membership there. Without it, the earliest membership wins. If no token is present or the session is invalid, the
  * request continues without auth context -- individual routes decide whether
  * authentication is required.
  *
+ * Two-factor enforcement happens here too: billing and domain mutations
+ * ({@link isMfaProtectedRequest}) need an MFA-verified session when the org
+ * has `require_mfa` on or the user has enrolled. Such requests fail with
+ * 403 `MFA_REQUIRED`.
+ *
  * @packageDocumentation
  */
 
 import type { MiddlewareHandler } from 'hono';
+import { mfaRequired } from '@project-sites/shared';
 import type { Env, Variables } from '../types/env.js';
 import { getSession } from '../services/auth.js';
 import { dbQueryOne } from '../services/db.js';
 
+interface MembershipContext {
+  org_id: string;
+  role: string;
+  billing_admin: number;
+  require_mfa: number | null;
+}
+
+/** Path prefixes whose mutations (anything but GET/HEAD/OPTIONS) need MFA. */
+const MFA_PROTECTED_PREFIXES = ['/api/billing/', '/api/domains/', '/api/admin/domains/'];
+
 /**
- * Auth middleware that optionally populates userId and orgId on the Hono context.
+ * Whether a request changes billing or domain state: Stripe checkout/portal,
+ * credit top-ups, domain purchase and every custom-hostname change.
+ */
+export function isMfaProtectedRequest(method: string, path: string): boolean {
+  if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') return false;
+  if (MFA_PROTECTED_PREFIXES.some((prefix) => path.startsWith(prefix))) return true;
+  return /^\/api\/sites\/[^/]+\/hostnames(\/|$)/.test(path);
+}
+
+/**
+ * Auth middleware that optionally populates userId, orgId and role on the Hono context.
  *
  * Does **not** reject unauthenticated requests -- routes that require auth
  * should check `c.get('userId')` and throw `unauthorized()` themselves.
@@ -42,16 +72,42 @@ export const authMiddleware: MiddlewareHandler<{
 
       if (session) {
         c.set('userId', session.user_id);
+        c.set('sessionId', session.id);
+        c.set('mfaEnabled', session.mfa_enabled);
+        c.set('mfaVerified', session.mfa_verified);
 
-        // Look up the user's primary org
-        const membership = await dbQueryOne<{ org_id: string }>(
+        // Requested org first, then the user's primary (earliest) org
+        const requestedOrg = c.req.header('X-Org-Id');
+        const membership = await dbQueryOne<MembershipContext>(
           c.env.DB,
-          'SELECT m.org_id FROM memberships m WHERE m.user_id = ? AND m.deleted_at IS NULL LIMIT 1',
-          [session.user_id],
+          requestedOrg
+            ? `SELECT m.org_id, m.role, m.billing_admin, o.require_mfa FROM memberships m
+               LEFT JOIN orgs o ON o.id = m.org_id
+               WHERE m.user_id = ? AND m.deleted_at IS NULL
+               ORDER BY (m.org_id = ?) DESC, m.created_at ASC LIMIT 1`
+            : `SELECT m.org_id, m.role, m.billing_admin, o.require_mfa FROM memberships m
+               LEFT JOIN orgs o ON o.id = m.org_id
+               WHERE m.user_id = ? AND m.deleted_at IS NULL
+               ORDER BY m.created_at ASC LIMIT 1`,
+          requestedOrg ? [session.user_id, requestedOrg] : [session.user_id],
         );
 
         if (membership) {
           c.set('orgId', membership.org_id);
+          c.set('userRole', membership.role);
+          c.set('billingAdmin', membership.billing_admin === 1);
+        }
+
+        if (
+          !session.mfa_verified &&
+          (session.mfa_enabled || membership?.require_mfa === 1) &&
+          isMfaProtectedRequest(c.req.method, c.req.path)
+        ) {
+          throw mfaRequired(
+            session.mfa_enabled
+              ? 'Verify your authentication code to make billing or domain changes'
+              : 'Your organization requires two-factor authentication for billing and domain changes. Enable it in your account settings.',
+          );
         }
       }
     }
@@ -22,6 +22,8 @@ interface RateLimitOptions {
   windowSeconds: number;
   /** KV key prefix for this limiter */
   prefix: string;
+  /** Count each hostname separately, for endpoints served on every site */
+  perHost?: boolean;
 }
 
 /**
@@ -41,7 +43,9 @@ export function rateLimitMiddleware(opts: RateLimitOptions): MiddlewareHandler<{
       c.req.header('x-forwarded-for')?.split(',')[0]?.trim() ||
       'unknown';
 
-    const key = `${opts.prefix}:${ip}`;
+    const key = opts.perHost
+      ? `${opts.prefix}:${new URL(c.req.url).hostname}:${ip}`
+      : `${opts.prefix}:${ip}`;
 
     try {
       const current = await c.env.CACHE_KV.get(key);
@@ -684,6 +684,20 @@ export const MultiPageSiteOutput = z.object({
 });
 export type MultiPageSiteOutput = z.infer<typeof MultiPageSiteOutput>;
 
+// ── Translate Site Copy ──────────────────────────────────────
+
+export const TranslateSiteCopyInput = z.object({
+  language: z.string().min(1, 'language is required'),
+  language_code: z.string().regex(/^[a-z]{2}$/, 'language_code must be a 2-letter code'),
+  segments_json: z.string().min(2, 'segments_json is required'),
+  brand_terms: z.string().optional().default(''),
+});
+export type TranslateSiteCopyInput = z.infer<typeof TranslateSiteCopyInput>;
+
+/** One translation per input segment, in order. */
+export const TranslateSiteCopyOutput = z.array(z.string());
+export type TranslateSiteCopyOutput = z.infer<typeof TranslateSiteCopyOutput>;
+
 // ── Schema Registry ───────────────────────────────────────────
 
 /** Map of schema name → { input, output } Zod schemas */
@@ -708,6 +722,8 @@ export const PROMPT_SCHEMAS: Record<string, { input: z.ZodType; output?: z.ZodTy
   // Headless pipeline prompts
   plan_site_structure: { input: SiteStructurePlanInput, output: SiteStructurePlanOutput },
   generate_multipage_site: { input: MultiPageSiteInput, output: MultiPageSiteOutput },
+  // Site translation
+  translate_site_copy: { input: TranslateSiteCopyInput, output: TranslateSiteCopyOutput },
 };
 
 /**
@@ -4,8 +4,10 @@
  * CRUD, AI credits (balance, ledger, topup checkout), spend alerts, team
  * invites/members, per-site cost breakdown. Mounted by index.ts.
  *
- * Every route requires an authenticated org context. Public endpoints (form
- * ingest, /api/ai/:slug/:endpoint) live in their own files.
+ * Every route requires an authenticated org context, except the team invite
+ * lookup + magic-link routes the accept page calls before sign-in. Other
+ * public endpoints (form ingest, /api/ai/:slug/:endpoint) live in their own
+ * files.
  */
 import { Hono } from 'hono';
 import type { Context } from 'hono';
@@ -15,6 +17,39 @@ import { allProviders } from '../services/mcp_client.js';
 import { DEFAULT_ROUTER_PROMPT, DEFAULT_CHAT_SYSTEM_PROMPT } from '../services/form_router.js';
 import { uploadUserWorker, deleteUserWorker, SUPPORTED_LANGUAGES, isWfpConfigured } from '../services/wfp_dispatch.js';
 import { recordEvent, loadOverview } from '../services/cf_analytics.js';
+import { ZodError } from 'zod';
+import {
+  AppError,
+  DOMAINS,
+  acceptTeamInviteSchema,
+  checkPermission,
+  createTeamInviteSchema,
+  forbidden,
+  mfaRequired,
+  siteCostBackfillSchema,
+  transferOwnershipSchema,
+  updateMembershipSchema,
+  updateMfaPolicySchema,
+  type Role,
+} from '@project-sites/shared';
+import { createMagicLink, revokeAllUserSessions } from '../services/auth.js';
+import { writeAuditLog } from '../services/audit.js';
+import { notifyTeamInvite } from '../services/notifications.js';
+import {
+  acceptInvite,
+  assertCanChangeRole,
+  assertCanForceSignOut,
+  assertCanInvite,
+  assertCanManageInvites,
+  assertCanRemove,
+  findInviteByToken,
+  getMembershipRole,
+  issueInviteToken,
+  transferOwnership,
+} from '../services/team.js';
+import { errorHandler } from '../middleware/error_handler.js';
+import { rollupSiteCosts } from '../services/cost_rollup.js';
+import { setOrgMfaPolicy } from '../services/mfa.js';
 
 export const aiAdmin = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -33,6 +68,8 @@ class HTTPError extends Error {
 
 aiAdmin.onError((err, c) => {
   if (err instanceof HTTPError) return c.json({ error: { message: err.message } }, err.status as 400);
+  // Shared AppErrors (RBAC guards) and zod validation use the app-wide shape.
+  if (err instanceof AppError || err instanceof ZodError) return errorHandler(err, c);
   return c.json({ error: { message: err.message || 'internal error' } }, 500);
 });
 
@@ -269,7 +306,7 @@ aiAdmin.get('/api/sites/:siteId/ai-endpoints', async (c) => {
   await siteOwned(c, orgId, siteId);
   const rows = await c.env.DB.prepare(
     `SELECT id, endpoint_slug, display_name, description, kind, method, worker_language,
-            wfp_script_name, enabled, created_at, updated_at
+            wfp_script_name, api_key_id, enabled, created_at, updated_at
      FROM ai_endpoints WHERE site_id = ? ORDER BY created_at DESC`,
   )
     .bind(siteId)
@@ -281,6 +318,19 @@ aiAdmin.get('/api/sites/:siteId/ai-endpoints', async (c) => {
   });
 });
 
+/** A BYO-model endpoint key must be an enabled openai/anthropic vault key on the same site. */
+async function assertEndpointKey(c: Ctx, siteId: string, keyId: string): Promise<void> {
+  const key = await c.env.DB.prepare(
+    `SELECT provider FROM form_api_keys WHERE id = ? AND site_id = ? AND enabled = 1 AND deleted_at IS NULL`,
+  )
+    .bind(keyId, siteId)
+    .first<{ provider: string }>();
+  if (!key) throw new HTTPError(400, 'api_key_id not found or disabled');
+  if (key.provider !== 'openai' && key.provider !== 'anthropic') {
+    throw new HTTPError(400, 'api_key_id must reference an openai or anthropic key');
+  }
+}
+
 aiAdmin.post('/api/sites/:siteId/ai-endpoints', async (c) => {
   const { orgId } = need(c);
   const siteId = c.req.param('siteId');
@@ -295,6 +345,7 @@ aiAdmin.post('/api/sites/:siteId/ai-endpoints', async (c) => {
     worker_language?: string;
     worker_code?: string;
     mcp_tools?: string[];
+    api_key_id?: string | null;
   };
   const slug = body.endpoint_slug?.trim().toLowerCase().replace(/[^a-z0-9-]/g, '-');
   if (!slug || !body.display_name) throw new HTTPError(400, 'endpoint_slug + display_name required');
@@ -302,6 +353,10 @@ aiAdmin.post('/api/sites/:siteId/ai-endpoints', async (c) => {
   if (body.kind === 'worker' && !isWfpConfigured(c.env)) {
     throw new HTTPError(503, 'Workers for Platforms not configured on this account');
   }
+  if (body.api_key_id) {
+    if (body.kind !== 'prompt') throw new HTTPError(400, 'api_key_id only applies to prompt endpoints');
+    await assertEndpointKey(c, siteId, body.api_key_id);
+  }
   const id = crypto.randomUUID();
   let wfpScriptName: string | null = null;
   if (body.kind === 'worker') {
@@ -316,8 +371,9 @@ aiAdmin.post('/api/sites/:siteId/ai-endpoints', async (c) => {
   }
   await c.env.DB.prepare(
     `INSERT INTO ai_endpoints (id, org_id, site_id, endpoint_slug, display_name, description,
-       kind, method, prompt_template, worker_language, worker_code, wfp_script_name, mcp_tools_json)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       kind, method, prompt_template, worker_language, worker_code, wfp_script_name, mcp_tools_json,
+       api_key_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   )
     .bind(
       id,
@@ -333,6 +389,7 @@ aiAdmin.post('/api/sites/:siteId/ai-endpoints', async (c) => {
       body.worker_code ?? null,
       wfpScriptName,
       body.mcp_tools ? JSON.stringify(body.mcp_tools) : null,
+      body.api_key_id ?? null,
     )
     .run();
   return c.json({ data: { id, endpoint_slug: slug, url: `https://projectsites.dev/api/ai/${site.slug}/${slug}` } }, 201);
@@ -361,7 +418,11 @@ aiAdmin.put('/api/sites/:siteId/ai-endpoints/:endpointId', async (c) => {
     if (!up.ok) throw new HTTPError(502, `WFP upload failed: ${up.error}`);
     wfpScriptName = up.scriptName;
   }
-  const cols = ['display_name', 'description', 'method', 'prompt_template', 'worker_language', 'worker_code', 'enabled'].filter((k) => k in body);
+  if (body['api_key_id']) {
+    if (existing.kind !== 'prompt') throw new HTTPError(400, 'api_key_id only applies to prompt endpoints');
+    await assertEndpointKey(c, siteId, body['api_key_id'] as string);
+  }
+  const cols = ['display_name', 'description', 'method', 'prompt_template', 'worker_language', 'worker_code', 'enabled', 'api_key_id'].filter((k) => k in body);
   const set = [...cols.map((k) => `${k} = ?`), `wfp_script_name = ?`, `updated_at = datetime('now')`].join(', ');
   await c.env.DB.prepare(`UPDATE ai_endpoints SET ${set} WHERE id = ?`)
     .bind(...cols.map((k) => body[k]), wfpScriptName, c.req.param('endpointId'))
@@ -506,6 +567,28 @@ aiAdmin.get('/api/billing/site-costs', async (c) => {
   });
 });
 
+// Recompute site_cost_daily for this org over a day range (e.g. after a
+// price change, or for days before the nightly rollup existed).
+aiAdmin.post('/api/billing/site-costs/backfill', async (c) => {
+  const { orgId, userId } = need(c);
+  const role = c.get('userRole') as Role | undefined;
+  if (!role || !checkPermission(role, 'billing:write', c.get('billingAdmin') ?? false)) {
+    throw forbidden('Only owners and billing admins can backfill site costs');
+  }
+  const { from, to } = siteCostBackfillSchema.parse(await c.req.json());
+  const result = await rollupSiteCosts(c.env, { from, to, orgId });
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'billing.site_costs_backfilled',
+    target_type: 'org',
+    target_id: orgId,
+    metadata_json: { from, to, ...result },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { from, to, ...result } });
+});
+
 /* ────────────────────────── MCP connections (list + disconnect) ────────────────────────── */
 
 aiAdmin.get('/api/sites/:siteId/mcp/connections', async (c) => {
@@ -546,9 +629,9 @@ aiAdmin.delete('/api/sites/:siteId/mcp/connections/:id', async (c) => {
 aiAdmin.get('/api/team', async (c) => {
   const { orgId } = need(c);
   const members = await c.env.DB.prepare(
-    `SELECT u.id, u.email, u.name, m.role, m.created_at
+    `SELECT u.id, u.email, u.display_name, m.role, m.created_at
      FROM memberships m JOIN users u ON u.id = m.user_id
-     WHERE m.org_id = ? ORDER BY m.created_at ASC`,
+     WHERE m.org_id = ? AND m.deleted_at IS NULL ORDER BY m.created_at ASC`,
   )
     .bind(orgId)
     .all();
@@ -558,56 +641,330 @@ aiAdmin.get('/api/team', async (c) => {
   )
     .bind(orgId)
     .all();
-  return c.json({ data: { members: members.results ?? [], invites: invites.results ?? [] } });
+  const org = await c.env.DB.prepare('SELECT require_mfa FROM orgs WHERE id = ?')
+    .bind(orgId)
+    .first<{ require_mfa: number }>();
+  return c.json({
+    data: {
+      members: members.results ?? [],
+      invites: invites.results ?? [],
+      my_role: c.get('userRole') ?? null,
+      require_mfa: org?.require_mfa === 1,
+    },
+  });
 });
 
 aiAdmin.post('/api/team/invites', async (c) => {
   const { orgId, userId } = need(c);
-  const { email, role } = (await c.req.json()) as { email: string; role: 'owner' | 'editor' | 'viewer' };
-  if (!email || !role) throw new HTTPError(400, 'email + role required');
+  const { email, role } = createTeamInviteSchema.parse(await c.req.json());
+  assertCanInvite(c.get('userRole'), role);
+
+  const member = await c.env.DB.prepare(
+    `SELECT 1 FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.deleted_at IS NULL AND lower(u.email) = ?`,
+  )
+    .bind(orgId, email)
+    .first();
+  if (member) throw new HTTPError(409, `${email} is already a member`);
+
   const id = crypto.randomUUID();
-  const token = crypto.randomUUID().replace(/-/g, '');
-  const expires = new Date(Date.now() + 14 * 86400 * 1000).toISOString();
+  const { token, expires_at } = issueInviteToken();
   await c.env.DB.prepare(
     `INSERT INTO team_invites (id, org_id, email, role, invite_token, invited_by_user_id, expires_at)
      VALUES (?, ?, ?, ?, ?, ?, ?)`,
   )
-    .bind(id, orgId, email, role, token, userId, expires)
+    .bind(id, orgId, email, role, token, userId, expires_at)
     .run();
-  if (c.env.RESEND_API_KEY) {
-    await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${c.env.RESEND_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: 'team@projectsites.dev',
-        to: [email],
-        subject: 'You’ve been invited to a Project Sites team',
-        text: `You were invited as ${role}. Accept here: https://projectsites.dev/admin/accept-invite?token=${token}`,
-      }),
-    }).catch(() => {});
-  }
-  return c.json({ data: { id, token } }, 201);
+  const emailed = await sendInviteEmail(c, { orgId, userId, email, role, token, expires_at });
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.invite_created',
+    target_type: 'team_invite',
+    target_id: id,
+    metadata_json: { email, role },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { id, token, expires_at, emailed } }, 201);
+});
+
+aiAdmin.post('/api/team/invites/:id/resend', async (c) => {
+  const { orgId, userId } = need(c);
+  const invite = await c.env.DB.prepare(
+    `SELECT id, email, role, accepted_at FROM team_invites WHERE id = ? AND org_id = ?`,
+  )
+    .bind(c.req.param('id'), orgId)
+    .first<{ id: string; email: string; role: Role; accepted_at: string | null }>();
+  if (!invite) throw new HTTPError(404, 'Invite not found');
+  if (invite.accepted_at) throw new HTTPError(409, 'Invite has already been accepted');
+  assertCanInvite(c.get('userRole'), invite.role);
+
+  // A fresh token invalidates the link in the previous email.
+  const { token, expires_at } = issueInviteToken();
+  await c.env.DB.prepare(`UPDATE team_invites SET invite_token = ?, expires_at = ? WHERE id = ?`)
+    .bind(token, expires_at, invite.id)
+    .run();
+  const emailed = await sendInviteEmail(c, {
+    orgId,
+    userId,
+    email: invite.email,
+    role: invite.role,
+    token,
+    expires_at,
+  });
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.invite_resent',
+    target_type: 'team_invite',
+    target_id: invite.id,
+    metadata_json: { email: invite.email },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { id: invite.id, expires_at, emailed } });
 });
 
 aiAdmin.delete('/api/team/invites/:id', async (c) => {
-  const { orgId } = need(c);
-  await c.env.DB.prepare(`DELETE FROM team_invites WHERE id = ? AND org_id = ?`)
+  const { orgId, userId } = need(c);
+  assertCanManageInvites(c.get('userRole'));
+  const res = await c.env.DB.prepare(
+    `DELETE FROM team_invites WHERE id = ? AND org_id = ? AND accepted_at IS NULL`,
+  )
     .bind(c.req.param('id'), orgId)
     .run();
+  if (res.meta.changes) {
+    await writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: userId,
+      action: 'team.invite_revoked',
+      target_type: 'team_invite',
+      target_id: c.req.param('id'),
+      request_id: c.get('requestId'),
+    });
+  }
   return c.json({ data: { revoked: true } });
 });
 
+// Public — the accept page shows who invited you before you sign in.
+aiAdmin.get('/api/team/invites/lookup', async (c) => {
+  const { token } = acceptTeamInviteSchema.parse({ token: c.req.query('token') ?? '' });
+  const invite = await findInviteByToken(c.env.DB, token);
+  if (!invite) throw new HTTPError(404, 'Invite not found');
+  const org = await c.env.DB.prepare(`SELECT name FROM orgs WHERE id = ?`)
+    .bind(invite.org_id)
+    .first<{ name: string }>();
+  return c.json({
+    data: {
+      org_name: org?.name ?? 'a Project Sites team',
+      email: invite.email,
+      role: invite.role,
+      expires_at: invite.expires_at,
+      expired: new Date(invite.expires_at).getTime() < Date.now(),
+      accepted: !!invite.accepted_at,
+    },
+  });
+});
+
+// Public — emails a magic link that signs the invitee in (creating the
+// account if needed) and lands them back on the accept page.
+aiAdmin.post('/api/team/invites/magic-link', async (c) => {
+  const { token } = acceptTeamInviteSchema.parse(await c.req.json());
+  const invite = await findInviteByToken(c.env.DB, token);
+  if (!invite || invite.accepted_at || new Date(invite.expires_at).getTime() < Date.now()) {
+    throw new HTTPError(404, 'Invite not found or no longer valid');
+  }
+  const { expires_at } = await createMagicLink(c.env.DB, c.env, {
+    email: invite.email,
+    redirect_url: `https://${DOMAINS.SITES_BASE}/admin/accept-invite?invite=${encodeURIComponent(token)}`,
+  });
+  return c.json({ data: { sent: true, email: invite.email, expires_at } });
+});
+
+aiAdmin.post('/api/team/invites/accept', async (c) => {
+  const userId = c.get('userId');
+  if (!userId) throw new HTTPError(401, 'Authentication required');
+  const { token } = acceptTeamInviteSchema.parse(await c.req.json());
+  const user = await c.env.DB.prepare(`SELECT email FROM users WHERE id = ? AND deleted_at IS NULL`)
+    .bind(userId)
+    .first<{ email: string | null }>();
+  if (!user) throw new HTTPError(401, 'Authentication required');
+  // Phone-only accounts have no email to match the invite against
+  if (!user.email) throw new HTTPError(400, 'Add an email address to your account to accept this invite');
+
+  const { invite, alreadyMember } = await acceptInvite(c.env.DB, {
+    token,
+    userId,
+    email: user.email,
+  });
+  await writeAuditLog(c.env.DB, {
+    org_id: invite.org_id,
+    actor_id: userId,
+    action: 'team.invite_accepted',
+    target_type: 'team_invite',
+    target_id: invite.id,
+    metadata_json: { email: invite.email, role: invite.role, already_member: alreadyMember },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { org_id: invite.org_id, role: invite.role, already_member: alreadyMember } });
+});
+
+aiAdmin.patch('/api/team/members/:userId', async (c) => {
+  const { orgId, userId } = need(c);
+  const targetId = c.req.param('userId');
+  const { role } = updateMembershipSchema.parse(await c.req.json());
+  if (!role) throw new HTTPError(400, 'role required');
+  const targetRole = await getMembershipRole(c.env.DB, orgId, targetId);
+  if (!targetRole) throw new HTTPError(404, 'Member not found');
+  assertCanChangeRole(
+    { userId, role: c.get('userRole') },
+    { userId: targetId, role: targetRole },
+    role,
+  );
+
+  await c.env.DB.prepare(
+    `UPDATE memberships SET role = ?, updated_at = datetime('now')
+     WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL`,
+  )
+    .bind(role, orgId, targetId)
+    .run();
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.member_role_changed',
+    target_type: 'user',
+    target_id: targetId,
+    metadata_json: { from: targetRole, to: role },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { user_id: targetId, role } });
+});
+
+aiAdmin.post('/api/team/transfer-ownership', async (c) => {
+  const { orgId, userId } = need(c);
+  const { user_id } = transferOwnershipSchema.parse(await c.req.json());
+  await transferOwnership(c.env.DB, {
+    orgId,
+    actorId: userId,
+    actorRole: c.get('userRole'),
+    targetUserId: user_id,
+  });
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.ownership_transferred',
+    target_type: 'user',
+    target_id: user_id,
+    metadata_json: { previous_owner: userId },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { owner_id: user_id, previous_owner_role: 'admin' } });
+});
+
+// Org-wide two-factor requirement for billing and domain changes (enforced
+// in middleware/auth.ts). Owner only, from a session that passed MFA itself,
+// so an owner can't turn it on without being able to satisfy it.
+aiAdmin.put('/api/team/mfa-policy', async (c) => {
+  const { orgId, userId } = need(c);
+  if (c.get('userRole') !== 'owner') throw forbidden('Only the owner can change the two-factor policy');
+  if (!c.get('mfaVerified')) {
+    throw mfaRequired('Enable two-factor authentication and verify this session first');
+  }
+  const { require_mfa } = updateMfaPolicySchema.parse(await c.req.json());
+  await setOrgMfaPolicy(c.env.DB, orgId, require_mfa);
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'org.mfa_policy_updated',
+    target_type: 'org',
+    target_id: orgId,
+    metadata_json: { require_mfa },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { require_mfa } });
+});
+
+// Forced sign-out: revokes every session the member has (all orgs — sessions
+// aren't org-scoped). Membership is untouched; they can sign straight back in.
+aiAdmin.post('/api/team/members/:userId/sign-out', async (c) => {
+  const { orgId, userId } = need(c);
+  const targetId = c.req.param('userId');
+  const targetRole = await getMembershipRole(c.env.DB, orgId, targetId);
+  if (!targetRole) throw new HTTPError(404, 'Member not found');
+  assertCanForceSignOut({ userId, role: c.get('userRole') }, { userId: targetId, role: targetRole });
+
+  const revoked = await revokeAllUserSessions(c.env.DB, targetId);
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.member_signed_out',
+    target_type: 'user',
+    target_id: targetId,
+    metadata_json: { role: targetRole, sessions_revoked: revoked },
+    request_id: c.get('requestId'),
+  });
+  return c.json({ data: { user_id: targetId, sessions_revoked: revoked } });
+});
+
 aiAdmin.delete('/api/team/members/:userId', async (c) => {
-  const { orgId } = need(c);
-  await c.env.DB.prepare(`DELETE FROM memberships WHERE user_id = ? AND org_id = ?`)
-    .bind(c.req.param('userId'), orgId)
+  const { orgId, userId } = need(c);
+  const targetId = c.req.param('userId');
+  const targetRole = await getMembershipRole(c.env.DB, orgId, targetId);
+  if (!targetRole) throw new HTTPError(404, 'Member not found');
+  assertCanRemove({ userId, role: c.get('userRole') }, { userId: targetId, role: targetRole });
+
+  await c.env.DB.prepare(
+    `UPDATE memberships SET deleted_at = datetime('now'), updated_at = datetime('now')
+     WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL`,
+  )
+    .bind(orgId, targetId)
     .run();
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: userId,
+    action: 'team.member_removed',
+    target_type: 'user',
+    target_id: targetId,
+    metadata_json: { role: targetRole },
+    request_id: c.get('requestId'),
+  });
   return c.json({ data: { removed: true } });
 });
 
+/** Email an invite link. Returns false (and logs) when delivery fails. */
+async function sendInviteEmail(
+  c: Ctx,
+  opts: { orgId: string; userId: string; email: string; role: Role; token: string; expires_at: string },
+): Promise<boolean> {
+  const [org, inviter] = await Promise.all([
+    c.env.DB.prepare(`SELECT name FROM orgs WHERE id = ?`).bind(opts.orgId).first<{ name: string }>(),
+    c.env.DB.prepare(`SELECT email, display_name FROM users WHERE id = ?`)
+      .bind(opts.userId)
+      .first<{ email: string; display_name: string | null }>(),
+  ]);
+  try {
+    await notifyTeamInvite(c.env, {
+      email: opts.email,
+      orgName: org?.name ?? 'your team',
+      role: opts.role,
+      invitedBy: inviter?.display_name || inviter?.email || null,
+      token: opts.token,
+      expiresAt: opts.expires_at,
+    });
+    return true;
+  } catch (err) {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'team',
+        message: 'Invite email failed',
+        org_id: opts.orgId,
+        error: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    return false;
+  }
+}
+
 /* ────────────────────────── Audit Log (ag-grid friendly) ────────────────────────── */
 
 /* ────────────────────────── Cloudflare Analytics ────────────────────────── */
@@ -5,7 +5,9 @@
  *
  * Each endpoint is either:
  *   • kind='prompt'  → we run the saved prompt + request payload through
- *                      Workers AI (Llama 3.1) with the connected MCP tool
+ *                      Workers AI (Llama 3.1) — or the customer's own
+ *                      OpenAI/Anthropic key from the form_api_keys vault when
+ *                      `api_key_id` is set — with the connected MCP tool
  *                      list available; the LLM picks a tool, we execute it,
  *                      and the JSON envelope is returned to the caller.
  *   • kind='worker'  → we dispatch the request to a user-Worker uploaded
@@ -22,6 +24,8 @@ import { writeAiLog, estTokens } from '../services/ai_logger.js';
 import { debitCredits, getBalance, maybeFireAlerts } from '../services/credits.js';
 import { loadAvailableTools, executeTool } from '../services/mcp_client.js';
 import { dispatchToUserWorker } from '../services/wfp_dispatch.js';
+import { recordApiKeyUse, resolveApiKey } from '../services/form_api_keys.js';
+import { callLLMWithKey } from '../services/external_llm.js';
 
 export const aiEndpointsPublic = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -35,13 +39,14 @@ interface EndpointRow {
   prompt_template: string | null;
   worker_language: string | null;
   wfp_script_name: string | null;
+  api_key_id: string | null;
   enabled: number;
 }
 
 async function loadEndpoint(env: Env, siteSlug: string, endpointSlug: string): Promise<EndpointRow | null> {
   const row = await env.DB.prepare(
     `SELECT e.id, e.org_id, e.site_id, e.endpoint_slug, e.kind, e.method,
-            e.prompt_template, e.worker_language, e.wfp_script_name, e.enabled
+            e.prompt_template, e.worker_language, e.wfp_script_name, e.api_key_id, e.enabled
      FROM ai_endpoints e JOIN sites s ON s.id = e.site_id
      WHERE s.slug = ? AND e.endpoint_slug = ? AND e.enabled = 1 AND s.deleted_at IS NULL`,
   )
@@ -106,7 +111,7 @@ async function handle(c: Ctx): Promise<Response> {
     : '';
   const prompt = `${systemPrompt}${toolBlock}\n\nReturn JSON only. No markdown fences.`;
   const userMsg = JSON.stringify({ method: c.req.method, query, body });
-  const model = '@cf/meta/llama-3.1-8b-instruct';
+  let model = '@cf/meta/llama-3.1-8b-instruct';
   const started = Date.now();
   let outText = '';
   let parsed: unknown = null;
@@ -114,14 +119,41 @@ async function handle(c: Ctx): Promise<Response> {
   let status: 'ok' | 'error' = 'ok';
   let errorMessage: string | undefined;
   try {
-    const ai = (await c.env.AI.run(model as Parameters<typeof c.env.AI.run>[0], {
-      messages: [
-        { role: 'system', content: prompt },
-        { role: 'user', content: userMsg },
-      ],
-      max_tokens: 350,
-    })) as { response?: string };
-    outText = (ai.response ?? '').trim();
+    if (ep.api_key_id) {
+      // Customer-owned key from the vault; the model error (if any) is
+      // recorded on the key so the dashboard can surface a bad credential.
+      let keyError: string | null = null;
+      let resolved = false;
+      try {
+        const key = await resolveApiKey(c.env, ep.site_id, ep.api_key_id, ['openai', 'anthropic']);
+        resolved = true;
+        const llm = await callLLMWithKey(key.provider as 'openai' | 'anthropic', key.secret, {
+          system: prompt,
+          user: userMsg,
+          maxTokens: 350,
+          model: typeof key.config['model'] === 'string' ? key.config['model'] : undefined,
+        });
+        model = `${llm.provider}:${llm.model_used}`;
+        outText = llm.output.trim();
+      } catch (err) {
+        keyError = err instanceof Error ? err.message : String(err);
+        throw err;
+      } finally {
+        // A key that did not resolve for this site is not charged a use
+        if (resolved) {
+          c.executionCtx.waitUntil(recordApiKeyUse(c.env.DB, ep.site_id, ep.api_key_id, keyError));
+        }
+      }
+    } else {
+      const ai = (await c.env.AI.run(model as Parameters<typeof c.env.AI.run>[0], {
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: userMsg },
+        ],
+        max_tokens: 350,
+      })) as { response?: string };
+      outText = (ai.response ?? '').trim();
+    }
     try {
       parsed = JSON.parse(outText.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/i, ''));
     } catch {
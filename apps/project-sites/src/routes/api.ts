@@ -21,9 +21,20 @@
  * | POST   | `/api/auth/magic-link`            | Request a magic-link email (Resend → SendGrid fallback) |
  * | GET    | `/api/auth/magic-link/verify`     | Verify token via email click → 302 redirect to homepage with session token |
  * | POST   | `/api/auth/magic-link/verify`     | Verify token programmatically → JSON session response |
+ * | POST   | `/api/auth/phone`                 | Text a one-time sign-in code (Twilio; logged outside production) |
+ * | POST   | `/api/auth/phone/verify`          | Verify code → JSON session, or link the phone when signed in |
  * | GET    | `/api/auth/google`                | Start Google OAuth flow (302 to Google consent) |
  * | GET    | `/api/auth/google/callback`       | Google OAuth callback → create/find user → 302 with session token |
  * | GET    | `/api/auth/me`                    | Read current session → user + org |
+ * | GET    | `/api/auth/mfa`                   | Two-factor status for the caller |
+ * | POST   | `/api/auth/mfa/enroll`            | Start TOTP enrollment → secret + `otpauth://` URI |
+ * | POST   | `/api/auth/mfa/confirm`           | Activate TOTP with a first code → recovery codes |
+ * | POST   | `/api/auth/mfa/verify`            | Second sign-in step → session `mfa_verified` |
+ * | POST   | `/api/auth/mfa/disable`           | Turn two-factor off (code required) |
+ * | POST   | `/api/auth/mfa/recovery-codes`    | Replace recovery codes (code required) |
+ * | GET    | `/api/auth/sessions`              | List the caller's signed-in devices |
+ * | DELETE | `/api/auth/sessions/:id`          | Sign out one of the caller's sessions |
+ * | POST   | `/api/auth/sessions/revoke-others` | Sign out every session except this one |
  *
  * ### Sites (Bearer required)
  * | Method | Path | Purpose |
@@ -34,9 +45,22 @@
  * | DELETE | `/api/sites/:id`                  | Soft-delete site (sets `deleted_at`) |
  * | GET    | `/api/sites/:id/workflow`         | Read workflow instance status |
  * | GET    | `/api/sites/:id/logs`             | Read audit log slice for a site |
+ * | GET    | `/api/sites/:id/build/live`       | SSE stream of live build progress + container log tail |
  * | POST   | `/api/sites/:id/reset`            | Re-trigger workflow (used by failed-pipeline retry) |
  * | POST   | `/api/sites/:id/deploy`           | Deploy a zip bundle to R2 |
  * | POST   | `/api/sites/:id/publish-bolt`     | Publish from bolt.diy editor |
+ * | GET    | `/api/sites/:siteId/access`       | Read site + snapshot visibility |
+ * | PUT    | `/api/sites/:siteId/access`       | Set visibility (public / password / members) and password |
+ * | GET    | `/api/sites/:siteId/schedules`    | List scheduled version switches |
+ * | POST   | `/api/sites/:siteId/schedules`    | Schedule a switch to a snapshot or commit (optional rollback) |
+ * | PATCH  | `/api/sites/:siteId/schedules/:scheduleId` | Reschedule a pending switch |
+ * | DELETE | `/api/sites/:siteId/schedules/:scheduleId` | Cancel a pending switch |
+ * | GET    | `/api/sites/:siteId/languages`    | List translated languages and their status |
+ * | POST   | `/api/sites/:siteId/languages`    | Add (or re-translate) a language |
+ * | DELETE | `/api/sites/:siteId/languages/:lang` | Remove a language |
+ * | GET    | `/api/sites/:siteId/languages/:lang/strings` | Source strings with translations and overrides |
+ * | PUT    | `/api/sites/:siteId/languages/:lang/strings` | Override one translated string |
+ * | DELETE | `/api/sites/:siteId/languages/:lang/strings` | Drop an override |
  * | GET    | `/api/slug/check`                 | Slug-availability probe |
  * | GET    | `/api/sites/by-slug/:slug/build-context` | Container-build context payload |
  * | GET    | `/api/sites/by-slug/:slug/chat`   | Chat synthesis context for inline edits |
@@ -49,18 +73,35 @@
  * | POST   | `/api/billing/embedded-checkout`  | Stripe Checkout session (embedded UI) |
  * | GET    | `/api/billing/subscription`       | Read org subscription |
  * | GET    | `/api/billing/entitlements`       | Read tier-derived entitlements |
+ * | POST   | `/api/billing/plan`               | Change tier / interval (prorated) |
  * | POST   | `/api/billing/portal`             | Stripe customer billing-portal link |
  *
  * ### Hostnames (Bearer required, CF for SaaS)
  * | Method | Path | Purpose |
  * | ------ | ---- | ------- |
  * | GET    | `/api/sites/:siteId/hostnames`    | List provisioned hostnames |
- * | POST   | `/api/sites/:siteId/hostnames`    | Provision a custom hostname (CF for SaaS API) |
+ * | POST   | `/api/sites/:siteId/hostnames`    | Provision a hostname (custom domains await a TXT challenge) |
+ * | GET    | `/api/sites/:siteId/hostnames/:hostnameId/dns` | DNS records to create, per DNS provider |
+ * | POST   | `/api/sites/:siteId/hostnames/:hostnameId/verify` | Check the ownership TXT record now |
  * | PUT    | `/api/sites/:siteId/hostnames/:hostnameId/primary` | Set primary hostname |
  * | POST   | `/api/sites/:siteId/hostnames/reset-primary` | Reset to default `{slug}.projectsites.dev` |
  * | DELETE | `/api/sites/:siteId/hostnames/:hostnameId` | Delete hostname |
  * | POST   | `/api/sites/:siteId/hostnames/:hostnameId/unsubscribe` | Unsubscribe hostname |
  *
+ * ### Site branches (Bearer required)
+ * | Method | Path | Purpose |
+ * | ------ | ---- | ------- |
+ * | GET    | `/api/sites/:siteId/git/branches` | List branches with preview URLs |
+ * | POST   | `/api/sites/:siteId/git/base` | Catch `main` up with the live site; its commit is the `base_commit` |
+ * | POST   | `/api/sites/:siteId/git/branches` | Create a branch (from the live site by default) |
+ * | POST   | `/api/sites/:siteId/git/branches/:name/switch` | Send editor saves + AI edits to a branch |
+ * | POST   | `/api/sites/:siteId/git/branches/:name/merge` | Fast-forward merge; into `main` publishes |
+ * | DELETE | `/api/sites/:siteId/git/branches/:name` | Delete a branch |
+ *
+ * File saves and bolt publishes that send `base_commit` (from `files-export`
+ * or `GET /files/:path`) are three-way merged with anything committed since;
+ * overlapping edits come back as a 409 with conflict hunks.
+ *
  * ### AI helpers + admin (Bearer required)
  * | Method | Path | Purpose |
  * | ------ | ---- | ------- |
@@ -68,7 +109,11 @@
  * | POST   | `/api/contact-form/:slug`         | Submit contact form for a published site |
  * | GET    | `/api/audit-logs`                 | List org audit logs |
  * | GET    | `/api/domains/search`             | Search available registrable domains |
- * | POST   | `/api/domains/purchase`           | Purchase a registrable domain |
+ * | POST   | `/api/domains/purchase`           | Buy a domain (registrar + Stripe checkout) |
+ * | POST   | `/api/domains/transfer`           | Transfer a domain in (registrar + Stripe checkout) |
+ * | GET    | `/api/domains/registered`         | List domains registered through us |
+ * | PATCH  | `/api/domains/registered/:domainId` | Toggle auto-renew / WHOIS privacy |
+ * | POST   | `/api/domains/registered/:domainId/renew` | Renew a registered domain |
  * | GET    | `/api/admin/domains`              | Admin: list all org domains |
  * | POST   | `/api/publish/bolt`               | Publish a bolt.diy build |
  *
@@ -106,25 +151,53 @@
 
 import { Hono } from 'hono';
 import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import type { Env, Variables } from '../types/env.js';
 import { dbInsert, dbQuery, dbQueryOne } from '../services/db.js';
 import {
   createSiteSchema,
   createCheckoutSessionSchema,
   createEmbeddedCheckoutSchema,
+  changePlanSchema,
   createMagicLinkSchema,
   verifyMagicLinkSchema,
+  createPhoneOtpSchema,
+  verifyPhoneOtpSchema,
+  confirmMfaSchema,
+  mfaChallengeSchema,
   createHostnameSchema,
+  branchNameSchema,
+  createBranchSchema,
+  mergeBranchSchema,
+  updateSiteAccessSchema,
+  createVersionScheduleSchema,
+  rescheduleVersionScheduleSchema,
+  addSiteLanguageSchema,
+  translationOverrideSchema,
+  deleteTranslationOverrideSchema,
+  purchaseDomainSchema,
+  transferDomainSchema,
+  renewDomainSchema,
+  updateRegisteredDomainSchema,
+  uuidSchema,
   DOMAINS,
+  DEFAULT_SITE_LANGUAGE,
+  SITE_LANGUAGES,
   badRequest,
+  checkPermission,
+  conflict,
   notFound,
   forbidden,
   unauthorized,
+  type Role,
 } from '@project-sites/shared';
 import { budgetTierSchema, type BudgetTier } from '@project-sites/shared/schemas';
 import * as authService from '../services/auth.js';
+import * as mfaService from '../services/mfa.js';
 import * as billingService from '../services/billing.js';
 import * as domainService from '../services/domains.js';
+import * as domainRegistration from '../services/domain_registration.js';
+import { listHealthHistory } from '../services/domain_health.js';
 import * as auditService from '../services/audit.js';
 import * as contactService from '../services/contact.js';
 import { classifyError } from '../services/retry.js';
@@ -132,11 +205,19 @@ import * as posthog from '../lib/posthog.js';
 import { captureError } from '../lib/sentry.js';
 import { fetchSheetData, fetchSheetMeta } from '../services/google_sheets.js';
 import { migrateExternalAssets } from '../services/asset_migration.js';
+import { buildStreamEventId, loadBuildStream } from '../services/build_stream.js';
+import { assertStorageAvailable, meteredBucket } from '../services/storage_usage.js';
+import type { GitFile } from '../services/git.js';
 
 const api = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // ─── Auth Routes ─────────────────────────────────────────────
 
+/** `[device_info, ip_address]` recorded on a new session for the sessions list. */
+function sessionClient(c: Context<{ Bindings: Env; Variables: Variables }>): [string?, string?] {
+  return [c.req.header('User-Agent')?.slice(0, 512), c.req.header('CF-Connecting-IP')];
+}
+
 /**
  * Request a magic-link email — primary passwordless auth path.
  *
@@ -240,7 +321,7 @@ api.get('/api/auth/magic-link/verify', async (c) => {
     const result = await authService.verifyMagicLink(c.env.DB, validated);
 
     const user = await authService.findOrCreateUser(c.env.DB, { email: result.email });
-    const session = await authService.createSession(c.env.DB, user.user_id);
+    const session = await authService.createSession(c.env.DB, user.user_id, ...sessionClient(c));
 
     await auditService.writeAuditLog(c.env.DB, {
       org_id: user.org_id,
@@ -317,7 +398,7 @@ api.post('/api/auth/magic-link/verify', async (c) => {
   const result = await authService.verifyMagicLink(c.env.DB, validated);
 
   const user = await authService.findOrCreateUser(c.env.DB, { email: result.email });
-  const session = await authService.createSession(c.env.DB, user.user_id);
+  const session = await authService.createSession(c.env.DB, user.user_id, ...sessionClient(c));
 
   await auditService.writeAuditLog(c.env.DB, {
     org_id: user.org_id,
@@ -342,6 +423,123 @@ api.post('/api/auth/magic-link/verify', async (c) => {
       email: result.email,
       user_id: user.user_id,
       org_id: user.org_id,
+      mfa_required: session.mfa_required,
+    },
+  });
+});
+
+/**
+ * Text a one-time sign-in code to a phone number.
+ *
+ * @route POST /api/auth/phone
+ * @public Anonymous funnel — possession of the phone gates further access.
+ *
+ * @body `{ phone: string }` — E.164, validated by `createPhoneOtpSchema`.
+ *
+ * @returns `{ data: { expires_at: ISO string } }` — does NOT leak whether
+ *   the phone belongs to an existing user.
+ *
+ * @throws VALIDATION_ERROR 400 on a malformed phone.
+ * @throws BAD_REQUEST 400 when a code was sent under a minute ago, the
+ *   number cannot be texted, or SMS is not configured in production.
+ *
+ * @remarks
+ * Rate limited per IP in `src/index.ts` on top of the per-phone cooldown in
+ * `authService.createPhoneOtp`. Audit rows store the phone as the target,
+ * scoped to `org_id: 'system'` like magic links.
+ *
+ * @see {@link ../services/auth.ts | authService.createPhoneOtp}
+ */
+api.post('/api/auth/phone', async (c) => {
+  const body = await c.req.json();
+  const validated = createPhoneOtpSchema.parse(body);
+  const result = await authService.createPhoneOtp(c.env.DB, c.env, validated);
+  posthog.trackAuth(c.env, c.executionCtx, 'phone_otp', 'requested', validated.phone);
+
+  auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: 'system',
+      actor_id: null,
+      action: 'auth.phone_otp_requested',
+      target_type: 'auth',
+      target_id: validated.phone,
+      metadata_json: {
+        expires_at: result.expires_at,
+        message: 'Sign-in code texted to ' + validated.phone,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: { expires_at: result.expires_at } });
+});
+
+/**
+ * Verify a phone sign-in code.
+ *
+ * @route POST /api/auth/phone/verify
+ * @public The code IS the credential. With a Bearer session the verified
+ *   phone is linked to the signed-in user instead of starting a new session.
+ *
+ * @body `{ phone: string, code: string }` — validated by `verifyPhoneOtpSchema`.
+ *
+ * @returns Signed out: `{ data: { token, phone, user_id, org_id } }` for the
+ *   user who owns the phone (created on first sign-in).
+ *   Signed in: `{ data: { phone, user_id, linked: true } }`.
+ *
+ * @throws VALIDATION_ERROR 400 on a malformed body.
+ * @throws UNAUTHORIZED 401 on a wrong, expired or used-up code; the message
+ *   says how many attempts remain.
+ * @throws CONFLICT 409 when linking a phone another account already owns.
+ */
+api.post('/api/auth/phone/verify', async (c) => {
+  const body = await c.req.json();
+  const validated = verifyPhoneOtpSchema.parse(body);
+
+  let result: { phone: string };
+  try {
+    result = await authService.verifyPhoneOtp(c.env.DB, validated);
+  } catch (err) {
+    posthog.trackAuth(c.env, c.executionCtx, 'phone_otp', 'failed', validated.phone);
+    throw err;
+  }
+
+  const userId = c.get('userId');
+  if (userId) {
+    await authService.linkPhoneToUser(c.env.DB, userId, result.phone);
+    await auditService.writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId') ?? 'system',
+      actor_id: userId,
+      action: 'auth.phone_linked',
+      target_type: 'user',
+      target_id: userId,
+      metadata_json: { method: 'phone_otp' },
+      request_id: c.get('requestId'),
+    });
+    return c.json({ data: { phone: result.phone, user_id: userId, linked: true } });
+  }
+
+  const user = await authService.findOrCreateUser(c.env.DB, { phone: result.phone });
+  const session = await authService.createSession(c.env.DB, user.user_id, ...sessionClient(c));
+
+  await auditService.writeAuditLog(c.env.DB, {
+    org_id: user.org_id,
+    actor_id: user.user_id,
+    action: 'auth.phone_otp_verified',
+    target_type: 'user',
+    target_id: user.user_id,
+    metadata_json: { method: 'phone_otp', is_new: user.is_new },
+    request_id: c.get('requestId'),
+  });
+  posthog.trackAuth(c.env, c.executionCtx, 'phone_otp', 'verified', user.user_id);
+
+  return c.json({
+    data: {
+      token: session.token,
+      phone: result.phone,
+      user_id: user.user_id,
+      org_id: user.org_id,
+      mfa_required: session.mfa_required,
     },
   });
 });
@@ -428,7 +626,7 @@ api.get('/api/auth/google/callback', async (c) => {
     display_name: result.display_name ?? undefined,
     avatar_url: result.avatar_url ?? undefined,
   });
-  const session = await authService.createSession(c.env.DB, user.user_id);
+  const session = await authService.createSession(c.env.DB, user.user_id, ...sessionClient(c));
 
   await auditService.writeAuditLog(c.env.DB, {
     org_id: user.org_id,
@@ -542,7 +740,7 @@ api.get('/api/auth/github/callback', async (c) => {
     display_name: result.display_name ?? undefined,
     avatar_url: result.avatar_url ?? undefined,
   });
-  const session = await authService.createSession(c.env.DB, user.user_id);
+  const session = await authService.createSession(c.env.DB, user.user_id, ...sessionClient(c));
 
   await auditService.writeAuditLog(c.env.DB, {
     org_id: user.org_id,
@@ -581,7 +779,7 @@ api.get('/api/auth/github/callback', async (c) => {
  * @auth Bearer token required — caller MUST have a resolved `userId` in the
  *   {@link Variables} bag (set by the `auth` middleware). Anonymous callers fail with
  *   401 `UNAUTHORIZED` before touching D1.
- * @returns `{ data: { user_id, org_id, email, display_name } }` — the canonical
+ * @returns `{ data: { user_id, org_id, email, display_name, mfa_enabled, mfa_verified } }` — the canonical
  *   "who am I?" envelope used by the Angular shell on bootstrap (see
  *   `AppComponent.restoreSession()`) and by the homepage SPA to decide between the
  *   `signin` and `details` screens.
@@ -597,7 +795,7 @@ api.get('/api/auth/github/callback', async (c) => {
  * Authorization: Bearer <session_token>
  *
  * 200 OK
- * { "data": { "user_id": "usr_...", "org_id": "org_...", "email": "hey@megabyte.space", "display_name": "Brian" } }
+ * { "data": { "user_id": "usr_...", "org_id": "org_...", "email": "hey@megabyte.space", "display_name": "Brian", "mfa_enabled": false, "mfa_verified": false } }
  * ```
  */
 api.get('/api/auth/me', async (c) => {
@@ -613,10 +811,273 @@ api.get('/api/auth/me', async (c) => {
   if (!user) throw unauthorized('User not found');
 
   return c.json({
-    data: { user_id: userId, org_id: orgId, email: user.email, display_name: user.display_name },
+    data: {
+      user_id: userId,
+      org_id: orgId,
+      email: user.email,
+      display_name: user.display_name,
+      mfa_enabled: c.get('mfaEnabled') ?? false,
+      mfa_verified: c.get('mfaVerified') ?? false,
+    },
+  });
+});
+
+// ─── Two-Factor Authentication ──────────────────────────────
+
+/** Caller identity for MFA and session routes; every one needs a live session. */
+function sessionCaller(c: Context<{ Bindings: Env; Variables: Variables }>): {
+  userId: string;
+  sessionId: string;
+} {
+  const userId = c.get('userId');
+  const sessionId = c.get('sessionId');
+  if (!userId || !sessionId) throw unauthorized('Must be authenticated');
+  return { userId, sessionId };
+}
+
+/** Best-effort audit row for an MFA event on the caller's own account. */
+function auditMfa(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  userId: string,
+  action: string,
+  metadata: Record<string, unknown> = {},
+): Promise<void> {
+  return auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId') ?? 'system',
+      actor_id: userId,
+      action,
+      target_type: 'user',
+      target_id: userId,
+      metadata_json: { method: 'totp', ...metadata },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+}
+
+/**
+ * @route GET /api/auth/mfa
+ * @auth Bearer token required.
+ * @returns `{ data: { enabled, pending, confirmed_at, recovery_codes_remaining, session_verified } }`.
+ */
+api.get('/api/auth/mfa', async (c) => {
+  const { userId } = sessionCaller(c);
+  const status = await mfaService.getMfaStatus(c.env.DB, userId);
+  return c.json({ data: { ...status, session_verified: c.get('mfaVerified') ?? false } });
+});
+
+/**
+ * Start TOTP enrollment.
+ *
+ * @route POST /api/auth/mfa/enroll
+ * @auth Bearer token required.
+ * @returns `{ data: { secret, otpauth_uri } }` — the only time the secret is
+ *   readable; render `otpauth_uri` as a QR code.
+ * @throws CONFLICT 409 when two-factor is already enabled.
+ * @remarks Restarting a pending enrollment replaces its secret. Nothing is
+ *   enforced until `POST /api/auth/mfa/confirm` succeeds.
+ */
+api.post('/api/auth/mfa/enroll', async (c) => {
+  const { userId } = sessionCaller(c);
+  const user = await dbQueryOne<{ email: string | null; phone: string | null }>(
+    c.env.DB,
+    'SELECT email, phone FROM users WHERE id = ? AND deleted_at IS NULL',
+    [userId],
+  );
+  if (!user) throw unauthorized('User not found');
+
+  const result = await mfaService.enrollTotp(
+    c.env.DB,
+    c.env,
+    userId,
+    user.email ?? user.phone ?? userId,
+  );
+  await auditMfa(c, userId, 'auth.mfa_enroll_started');
+  return c.json({ data: result });
+});
+
+/**
+ * Activate TOTP with the first code from the authenticator app.
+ *
+ * @route POST /api/auth/mfa/confirm
+ * @auth Bearer token required.
+ * @body `{ code }` — six digits, validated by `confirmMfaSchema`.
+ * @returns `{ data: { enabled: true, recovery_codes } }` — shown once.
+ * @throws BAD_REQUEST 400 without a pending enrollment.
+ * @throws UNAUTHORIZED 401 when the code does not match.
+ * @remarks The confirming session counts as MFA-verified.
+ */
+api.post('/api/auth/mfa/confirm', async (c) => {
+  const { userId, sessionId } = sessionCaller(c);
+  const { code } = confirmMfaSchema.parse(await c.req.json());
+
+  let result: { recovery_codes: string[] };
+  try {
+    result = await mfaService.confirmTotp(c.env.DB, c.env, userId, code);
+  } catch (err) {
+    await auditMfa(c, userId, 'auth.mfa_confirm_failed');
+    throw err;
+  }
+  await authService.markSessionMfaVerified(c.env.DB, sessionId);
+  await auditMfa(c, userId, 'auth.mfa_enabled');
+  return c.json({ data: { enabled: true, recovery_codes: result.recovery_codes } });
+});
+
+/**
+ * Second sign-in step: mark the current session MFA-verified.
+ *
+ * @route POST /api/auth/mfa/verify
+ * @auth Bearer token required (the session returned with `mfa_required: true`).
+ * @body `{ code }` — authenticator code or recovery code (`mfaChallengeSchema`).
+ * @returns `{ data: { verified: true, method } }`.
+ * @throws UNAUTHORIZED 401 on a wrong, replayed or spent code.
+ */
+api.post('/api/auth/mfa/verify', async (c) => {
+  const { userId, sessionId } = sessionCaller(c);
+  const { code } = mfaChallengeSchema.parse(await c.req.json());
+
+  let result: { method: 'totp' | 'recovery_code' };
+  try {
+    result = await mfaService.verifyMfaCode(c.env.DB, c.env, userId, code);
+  } catch (err) {
+    await auditMfa(c, userId, 'auth.mfa_verify_failed');
+    throw err;
+  }
+  await authService.markSessionMfaVerified(c.env.DB, sessionId);
+  await auditMfa(c, userId, 'auth.mfa_verified', { method: result.method });
+  return c.json({ data: { verified: true, method: result.method } });
+});
+
+/**
+ * Turn two-factor off.
+ *
+ * @route POST /api/auth/mfa/disable
+ * @auth Bearer token required.
+ * @body `{ code }` — a current authenticator or recovery code.
+ * @returns `{ data: { enabled: false } }`.
+ * @throws UNAUTHORIZED 401 on a wrong code.
+ * @remarks Members of orgs with `require_mfa` lose billing and domain
+ *   access until they enroll again.
+ */
+api.post('/api/auth/mfa/disable', async (c) => {
+  const { userId } = sessionCaller(c);
+  const { code } = mfaChallengeSchema.parse(await c.req.json());
+
+  try {
+    await mfaService.verifyMfaCode(c.env.DB, c.env, userId, code);
+  } catch (err) {
+    await auditMfa(c, userId, 'auth.mfa_disable_failed');
+    throw err;
+  }
+  await mfaService.disableMfa(c.env.DB, userId);
+  await auditMfa(c, userId, 'auth.mfa_disabled');
+  return c.json({ data: { enabled: false } });
+});
+
+/**
+ * Replace all recovery codes.
+ *
+ * @route POST /api/auth/mfa/recovery-codes
+ * @auth Bearer token required.
+ * @body `{ code }` — a current authenticator or recovery code.
+ * @returns `{ data: { recovery_codes } }` — shown once; old codes stop working.
+ * @throws UNAUTHORIZED 401 on a wrong code.
+ */
+api.post('/api/auth/mfa/recovery-codes', async (c) => {
+  const { userId } = sessionCaller(c);
+  const { code } = mfaChallengeSchema.parse(await c.req.json());
+
+  try {
+    await mfaService.verifyMfaCode(c.env.DB, c.env, userId, code);
+  } catch (err) {
+    await auditMfa(c, userId, 'auth.mfa_recovery_codes_failed');
+    throw err;
+  }
+  const result = await mfaService.regenerateRecoveryCodes(c.env.DB, userId);
+  await auditMfa(c, userId, 'auth.mfa_recovery_codes_regenerated');
+  return c.json({ data: result });
+});
+
+// ─── Sessions ────────────────────────────────────────────────
+
+/** Best-effort audit row for a session revoked by its own user. */
+function auditSessionRevoke(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  userId: string,
+  action: string,
+  metadata: Record<string, unknown>,
+): Promise<void> {
+  return auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId') ?? 'system',
+      actor_id: userId,
+      action,
+      target_type: 'user',
+      target_id: userId,
+      metadata_json: metadata,
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+}
+
+/**
+ * List the caller's active sessions ("where you're signed in").
+ *
+ * @route GET /api/auth/sessions
+ * @auth Bearer token required.
+ * @returns `{ data: [{ id, device, ip_hint, created_at, last_active_at, current }] }`,
+ *   most recently active first.
+ * @remarks `device` is summarised from the stored User-Agent and `ip_hint`
+ *   is masked; the raw values never leave the Worker.
+ */
+api.get('/api/auth/sessions', async (c) => {
+  const { userId, sessionId } = sessionCaller(c);
+  const sessions = await authService.getUserSessions(c.env.DB, userId);
+  return c.json({
+    data: sessions.map((s) => ({
+      id: s.id,
+      device: authService.describeUserAgent(s.device_info),
+      ip_hint: authService.maskIpAddress(s.ip_address),
+      created_at: s.created_at,
+      last_active_at: s.last_active_at,
+      current: s.id === sessionId,
+    })),
   });
 });
 
+/**
+ * Sign out one of the caller's sessions, e.g. a forgotten shared computer.
+ *
+ * @route DELETE /api/auth/sessions/:id
+ * @auth Bearer token required.
+ * @returns `{ data: { revoked: true, current } }` — `current` is true when the
+ *   caller signed out the session making the request.
+ * @throws NOT_FOUND 404 when the session is not one of the caller's live sessions.
+ */
+api.delete('/api/auth/sessions/:id', async (c) => {
+  const { userId, sessionId } = sessionCaller(c);
+  const targetId = c.req.param('id');
+  const revoked = await authService.revokeUserSession(c.env.DB, userId, targetId);
+  if (!revoked) throw notFound('Session not found');
+
+  await auditSessionRevoke(c, userId, 'auth.session_revoked', { session_id: targetId });
+  return c.json({ data: { revoked: true, current: targetId === sessionId } });
+});
+
+/**
+ * Sign out everywhere except the session making the request.
+ *
+ * @route POST /api/auth/sessions/revoke-others
+ * @auth Bearer token required.
+ * @returns `{ data: { revoked: number } }`.
+ */
+api.post('/api/auth/sessions/revoke-others', async (c) => {
+  const { userId, sessionId } = sessionCaller(c);
+  const revoked = await authService.revokeOtherSessions(c.env.DB, userId, sessionId);
+  await auditSessionRevoke(c, userId, 'auth.sessions_revoked_others', { revoked });
+  return c.json({ data: { revoked } });
+});
+
 // ─── Sites Routes ────────────────────────────────────────────
 
 /**
@@ -1076,7 +1537,7 @@ api.get('/api/sites/:id/workflow', async (c) => {
  *
  * @route POST /api/billing/checkout
  * @auth Bearer — `userId` AND `orgId` MUST resolve from session
- * @body createCheckoutSessionSchema — `{ site_id?, success_url, cancel_url, budget_tier, org_id? }`
+ * @body createCheckoutSessionSchema — `{ site_id?, success_url, cancel_url, budget_tier, tier?, interval?, org_id? }`
  * @returns 200 OK `{ data: { session_id, url } }` — caller redirects browser to `url`
  * @throws {AppError} `UNAUTHORIZED` — session missing userId or orgId.
  * @throws {AppError} `FORBIDDEN` — `validated.org_id` provided but does not match session orgId
@@ -1128,6 +1589,8 @@ api.post('/api/billing/checkout', async (c) => {
     successUrl: validated.success_url,
     cancelUrl: validated.cancel_url,
     budgetTier: validated.budget_tier,
+    tier: validated.tier,
+    interval: validated.interval,
   });
 
   // Audit: billing checkout session created
@@ -1163,7 +1626,7 @@ api.post('/api/billing/checkout', async (c) => {
  *
  * @route POST /api/billing/embedded-checkout
  * @auth Bearer — `userId` AND `orgId` MUST resolve from session
- * @body createEmbeddedCheckoutSchema — `{ site_id?, return_url, budget_tier, org_id? }`
+ * @body createEmbeddedCheckoutSchema — `{ site_id?, return_url, budget_tier, tier?, interval?, org_id? }`
  * @returns 200 OK `{ data: { client_secret, publishable_key } }` — caller mounts Stripe.js
  *   `EmbeddedCheckout` element with these credentials. `publishable_key` injected from
  *   `c.env.STRIPE_PUBLISHABLE_KEY` so frontend doesn't need its own copy.
@@ -1206,6 +1669,8 @@ api.post('/api/billing/embedded-checkout', async (c) => {
     customerEmail: userRow?.email || '',
     returnUrl: validated.return_url,
     budgetTier: validated.budget_tier,
+    tier: validated.tier,
+    interval: validated.interval,
   });
 
   auditService
@@ -1275,8 +1740,9 @@ api.get('/api/billing/subscription', async (c) => {
  * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
  *
  * @remarks
- * Free tier returns a hardcoded baseline. Paid tiers (Patron $50/mo) unlock unlimited
- * edits + AI chat + custom domains. Always check this BEFORE rendering paid-only UI in
+ * Free tier returns a hardcoded baseline. Paid tiers (Starter / Pro / Agency, see
+ * `TIER_CATALOGUE`) unlock custom domains and scale storage, included AI credits and
+ * team seats. Always check this BEFORE rendering paid-only UI in
  * frontend — never assume entitlements from local cache, as they can change mid-session
  * via Stripe webhook → subscription update.
  *
@@ -1290,6 +1756,57 @@ api.get('/api/billing/entitlements', async (c) => {
   return c.json({ data: entitlements });
 });
 
+/**
+ * Move the authenticated org's subscription to another tier or billing interval.
+ *
+ * @route POST /api/billing/plan
+ * @auth Bearer — `orgId` MUST resolve from session; owner or billing admin (`billing:write`)
+ * @body changePlanSchema — `{ tier: 'starter' | 'pro' | 'agency', interval: 'month' | 'year' }`
+ * @returns 200 OK `{ data: { previous, current, changed } }`
+ * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
+ * @throws {AppError} `FORBIDDEN` — caller lacks `billing:write`.
+ * @throws {AppError} `BAD_REQUEST` — no active paid subscription (use checkout), or Stripe refused.
+ * @throws {AppError} `CONFLICT` — downgrade while over the target tier's domain or seat limits.
+ *
+ * @remarks
+ * Stripe prorates the switch: the unused part of the current period is credited and the
+ * new price charged for the remainder on the next invoice. Asking for the current tier
+ * and interval is a no-op (`changed: false`). Audit log fires `billing.plan_changed`.
+ *
+ * @see {@link billingService.changeSubscriptionPlan}
+ */
+api.post('/api/billing/plan', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const role = c.get('userRole') as Role | undefined;
+  if (!role || !checkPermission(role, 'billing:write', c.get('billingAdmin') ?? false)) {
+    throw forbidden('Only owners and billing admins can change the plan');
+  }
+
+  const target = changePlanSchema.parse(await c.req.json());
+  const result = await billingService.changeSubscriptionPlan(c.env.DB, c.env, orgId, target);
+
+  if (result.changed) {
+    auditService
+      .writeAuditLog(c.env.DB, {
+        org_id: orgId,
+        actor_id: c.get('userId') ?? null,
+        action: 'billing.plan_changed',
+        target_type: 'billing',
+        target_id: orgId,
+        metadata_json: {
+          from: result.previous,
+          to: result.current,
+          message: `Plan changed to ${result.current.tier} (${result.current.interval}ly)`,
+        },
+        request_id: c.get('requestId'),
+      })
+      .catch(() => {});
+  }
+
+  return c.json({ data: result });
+});
+
 // ─── Hostname Routes ─────────────────────────────────────────
 
 /**
@@ -1330,13 +1847,12 @@ api.get('/api/sites/:siteId/hostnames', async (c) => {
  * @param siteId - Immutable site UUID (path param)
  * @body createHostnameSchema — `{ hostname, type: 'free_subdomain' | 'custom_cname' }`
  *   (site_id auto-injected from path before parse)
- * @returns 201 Created `{ data: { hostname, ... } }`
+ * @returns 201 Created `{ data: { hostname, ... } }` — custom domains also carry
+ *   `paired_hostname`, `verification` (the TXT challenge) and `dns` (every record to create)
  * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
  * @throws {AppError} `FORBIDDEN` — `type=custom_cname` but org lacks paid-plan
  *   entitlement `topBarHidden` (custom domains gated to Patron tier).
- * @throws {AppError} `BAD_REQUEST` — `type=custom_cname` but the hostname's CNAME record
- *   does not point to `DOMAINS.SITES_BASE` (`projectsites.dev`). Error includes the
- *   exact DNS instructions to fix.
+ * @throws {AppError} `CONFLICT` — domain limit reached, or the hostname is taken.
  * @throws {ZodError} — body fails `createHostnameSchema`.
  *
  * @remarks
@@ -1344,16 +1860,17 @@ api.get('/api/sites/:siteId/hostnames', async (c) => {
  * provisioned via `domainService.provisionFreeDomain`. No CF4SaaS call — these are wildcard-
  * routed at the Worker layer via D1 lookup.
  *
- * **Custom CNAME flow:** (1) entitlement gate (paid plan), (2) live DNS CNAME check via
- * `domainService.checkCnameTarget` — protects against orphan hostnames stuck in
- * `pending_validation` because the customer never configured DNS, (3) CF4SaaS hostname
- * provisioned via `domainService.provisionCustomDomain` (TLS cert auto-issued).
+ * **Custom domain flow:** (1) entitlement gate (paid plan), (2) `domainService.provisionCustomDomain`
+ * stores the hostname `pending` with a TXT ownership challenge, plus its apex / www partner
+ * (which 301s to it), (3) the response carries DNS instructions for the customer's DNS
+ * provider. The CF4SaaS hostname (and TLS cert) is only created once the cron or
+ * `POST …/verify` sees the TXT record, so nobody can claim a domain they don't control.
  *
  * Audit log + PostHog `hostname.provisioned` event fire AFTER provisioning succeeds.
  *
  * @see {@link domainService.provisionFreeDomain}
  * @see {@link domainService.provisionCustomDomain}
- * @see {@link domainService.checkCnameTarget}
+ * @see {@link domainService.getHostnameDnsInstructions}
  * @see {@link https://developers.cloudflare.com/cloudflare-for-platforms/cloudflare-for-saas/ CF for SaaS}
  */
 api.post('/api/sites/:siteId/hostnames', async (c) => {
@@ -1364,7 +1881,7 @@ api.post('/api/sites/:siteId/hostnames', async (c) => {
 
   const validated = createHostnameSchema.parse({ ...body, site_id: siteId });
 
-  let result;
+  let result: Record<string, unknown> & { hostname: string };
   if (validated.type === 'free_subdomain') {
     // Extract slug from hostname
     const slug = validated.hostname.split('.')[0]!;
@@ -1380,20 +1897,14 @@ api.post('/api/sites/:siteId/hostnames', async (c) => {
       throw forbidden('Custom domains require a paid plan');
     }
 
-    // Validate CNAME points to projectsites.dev
-    const cnameTarget = await domainService.checkCnameTarget(validated.hostname);
-    if (!cnameTarget || cnameTarget !== DOMAINS.SITES_BASE) {
-      throw badRequest(
-        `The domain "${validated.hostname}" does not have a CNAME record pointing to ${DOMAINS.SITES_BASE}. ` +
-          `Please add a CNAME record for "${validated.hostname}" pointing to "${DOMAINS.SITES_BASE}" in your DNS settings, then try again.`,
-      );
-    }
-
-    result = await domainService.provisionCustomDomain(c.env.DB, c.env, {
+    const custom = await domainService.provisionCustomDomain(c.env.DB, c.env, {
       org_id: orgId,
       site_id: siteId,
       hostname: validated.hostname,
+      max_custom_domains: entitlements.maxCustomDomains,
     });
+    const { dns } = await domainService.getHostnameDnsInstructions(c.env.DB, siteId, custom.id);
+    result = { ...custom, dns };
   }
 
   // Log audit
@@ -1545,34 +2056,35 @@ api.delete('/api/sites/:id', async (c) => {
   return c.json({ data: { deleted: true, subscription_canceled: subscriptionCanceled } });
 });
 
-// ─── Set Primary Hostname ────────────────────────────────────
+// ─── Custom Domain Ownership ────────────────────────────────
 
 /**
- * Mark a hostname as the site's primary (canonical) hostname for SEO + share-link UX.
+ * DNS records a custom domain needs: the ownership TXT record, then routing records for
+ * the hostname and its apex / www partner, in the form the customer's DNS provider uses.
  *
- * @route PUT /api/sites/:siteId/hostnames/:hostnameId/primary
- * @auth Bearer — `orgId` MUST resolve; cross-org write denied via D1 ownership check
+ * @route GET /api/sites/:siteId/hostnames/:hostnameId/dns
+ * @auth Bearer — `orgId` MUST resolve; cross-org read denied via D1 ownership check
  * @param siteId - Immutable site UUID (path param)
  * @param hostnameId - Hostname row UUID (path param)
- * @returns 200 OK `{ data: { primary: true } }`
+ * @returns 200 OK `{ data: { hostname, verified, dns: { provider, records, notes } } }`
  * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
- * @throws {AppError} `NOT_FOUND` — site doesn't exist OR belongs to another org.
+ * @throws {AppError} `NOT_FOUND` — site or hostname missing / cross-org.
+ * @throws {AppError} `BAD_REQUEST` — hostname has no ownership challenge (free subdomain,
+ *   or a custom domain added before challenges existed).
  *
  * @remarks
- * Atomically clears `is_primary` on all other hostnames for this site, then sets
- * `is_primary = 1` on the target row. Drives `<link rel="canonical">` injection at
- * serve-time + the "share this site" UI in the dashboard.
+ * The provider is detected from the apex's NS records. Apex hostnames get an ALIAS /
+ * ANAME record where the provider supports one, a flattened CNAME on Cloudflare, and
+ * A records otherwise.
  *
- * @see {@link domainService.setPrimaryHostname}
+ * @see {@link domainService.getHostnameDnsInstructions}
  */
-api.put('/api/sites/:siteId/hostnames/:hostnameId/primary', async (c) => {
+api.get('/api/sites/:siteId/hostnames/:hostnameId/dns', async (c) => {
   const orgId = c.get('orgId');
   if (!orgId) throw unauthorized('Must be authenticated');
 
   const siteId = c.req.param('siteId');
-  const hostnameId = c.req.param('hostnameId');
 
-  // Verify ownership
   const site = await dbQueryOne<Record<string, unknown>>(
     c.env.DB,
     'SELECT id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
@@ -1580,51 +2092,41 @@ api.put('/api/sites/:siteId/hostnames/:hostnameId/primary', async (c) => {
   );
   if (!site) throw notFound('Site not found');
 
-  await domainService.setPrimaryHostname(c.env.DB, siteId, hostnameId);
-
-  await auditService.writeAuditLog(c.env.DB, {
-    org_id: orgId,
-    actor_id: c.get('userId') ?? null,
-    action: 'hostname.set_primary',
-    target_type: 'hostname',
-    target_id: hostnameId,
-    metadata_json: {
-      site_id: siteId,
-      hostname_id: hostnameId,
-      message: 'Primary domain changed for this site',
-    },
-    request_id: c.get('requestId'),
-  });
-
-  return c.json({ data: { primary: true } });
+  const result = await domainService.getHostnameDnsInstructions(
+    c.env.DB,
+    siteId,
+    c.req.param('hostnameId'),
+  );
+  return c.json({ data: result });
 });
 
-// ─── Reset Primary to Default Subdomain ─────────────────────
-
 /**
- * Clear `is_primary` on ALL hostnames for a site — falls back to the default
- * `{slug}.projectsites.dev` subdomain as the canonical URL.
+ * Check a custom domain's ownership TXT record now instead of waiting for the cron.
  *
- * @route POST /api/sites/:siteId/hostnames/reset-primary
+ * @route POST /api/sites/:siteId/hostnames/:hostnameId/verify
  * @auth Bearer — `orgId` MUST resolve; cross-org write denied via D1 ownership check
  * @param siteId - Immutable site UUID (path param)
- * @returns 200 OK `{ data: { reset: true } }`
+ * @param hostnameId - Hostname row UUID (path param)
+ * @returns 200 OK `{ data: { verified, challenge: { name, value }, found: string[] } }` —
+ *   `found` lists the TXT values currently published at `challenge.name`
  * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
- * @throws {AppError} `NOT_FOUND` — site doesn't exist OR belongs to another org.
+ * @throws {AppError} `NOT_FOUND` — site or hostname missing / cross-org.
+ * @throws {AppError} `BAD_REQUEST` — hostname has no ownership challenge.
  *
  * @remarks
- * After this call, the site's canonical URL resolves to the default free subdomain
- * (e.g., `vito.projectsites.dev`). Used when a customer removes their custom domain or
- * wants to switch primary back to the platform-hosted hostname. Direct UPDATE on
- * `hostnames` (no service helper) — atomic single-statement, no race condition.
+ * On success the CF4SaaS hostname is created for the hostname and its partner; the
+ * regular half-hourly `verifyPendingHostnames` cron then picks up SSL activation.
+ * Audit log fires `hostname.ownership_verified` on the first successful check.
+ *
+ * @see {@link domainService.verifyHostnameOwnership}
  */
-api.post('/api/sites/:siteId/hostnames/reset-primary', async (c) => {
+api.post('/api/sites/:siteId/hostnames/:hostnameId/verify', async (c) => {
   const orgId = c.get('orgId');
   if (!orgId) throw unauthorized('Must be authenticated');
 
   const siteId = c.req.param('siteId');
+  const hostnameId = c.req.param('hostnameId');
 
-  // Verify ownership
   const site = await dbQueryOne<Record<string, unknown>>(
     c.env.DB,
     'SELECT id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
@@ -1632,23 +2134,137 @@ api.post('/api/sites/:siteId/hostnames/reset-primary', async (c) => {
   );
   if (!site) throw notFound('Site not found');
 
-  // Clear is_primary on all hostnames for this site
-  await c.env.DB.prepare('UPDATE hostnames SET is_primary = 0 WHERE site_id = ?')
-    .bind(siteId)
-    .run();
-
-  await auditService.writeAuditLog(c.env.DB, {
-    org_id: orgId,
-    actor_id: c.get('userId') ?? null,
-    action: 'hostname.reset_primary',
-    target_type: 'site',
-    target_id: siteId,
-    metadata_json: { site_id: siteId, message: 'Primary domain reset to default subdomain' },
-    request_id: c.get('requestId'),
-  });
+  const result = await domainService.verifyHostnameOwnership(c.env.DB, c.env, siteId, hostnameId);
 
-  return c.json({ data: { primary_reset: true } });
-});
+  if (result.verified && result.found.length > 0) {
+    auditService
+      .writeAuditLog(c.env.DB, {
+        org_id: orgId,
+        actor_id: c.get('userId') ?? null,
+        action: 'hostname.ownership_verified',
+        target_type: 'hostname',
+        target_id: hostnameId,
+        metadata_json: {
+          site_id: siteId,
+          record: result.challenge.name,
+          message: 'Domain ownership verified via ' + result.challenge.name,
+        },
+        request_id: c.get('requestId'),
+      })
+      .catch(() => {});
+  }
+
+  return c.json({ data: result });
+});
+
+// ─── Set Primary Hostname ────────────────────────────────────
+
+/**
+ * Mark a hostname as the site's primary (canonical) hostname for SEO + share-link UX.
+ *
+ * @route PUT /api/sites/:siteId/hostnames/:hostnameId/primary
+ * @auth Bearer — `orgId` MUST resolve; cross-org write denied via D1 ownership check
+ * @param siteId - Immutable site UUID (path param)
+ * @param hostnameId - Hostname row UUID (path param)
+ * @returns 200 OK `{ data: { primary: true } }`
+ * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
+ * @throws {AppError} `NOT_FOUND` — site doesn't exist OR belongs to another org.
+ *
+ * @remarks
+ * Atomically clears `is_primary` on all other hostnames for this site, then sets
+ * `is_primary = 1` on the target row. Drives `<link rel="canonical">` injection at
+ * serve-time + the "share this site" UI in the dashboard. Picking the redirecting half
+ * of an apex / www pair flips the 301, and both `host:` KV keys are invalidated.
+ *
+ * @see {@link domainService.setPrimaryHostname}
+ */
+api.put('/api/sites/:siteId/hostnames/:hostnameId/primary', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  const siteId = c.req.param('siteId');
+  const hostnameId = c.req.param('hostnameId');
+
+  // Verify ownership
+  const site = await dbQueryOne<Record<string, unknown>>(
+    c.env.DB,
+    'SELECT id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  const swapped = await domainService.setPrimaryHostname(c.env.DB, siteId, hostnameId);
+  for (const name of swapped) {
+    await c.env.CACHE_KV.delete(`host:${name}`).catch(() => {});
+  }
+
+  await auditService.writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: c.get('userId') ?? null,
+    action: 'hostname.set_primary',
+    target_type: 'hostname',
+    target_id: hostnameId,
+    metadata_json: {
+      site_id: siteId,
+      hostname_id: hostnameId,
+      message: 'Primary domain changed for this site',
+    },
+    request_id: c.get('requestId'),
+  });
+
+  return c.json({ data: { primary: true } });
+});
+
+// ─── Reset Primary to Default Subdomain ─────────────────────
+
+/**
+ * Clear `is_primary` on ALL hostnames for a site — falls back to the default
+ * `{slug}.projectsites.dev` subdomain as the canonical URL.
+ *
+ * @route POST /api/sites/:siteId/hostnames/reset-primary
+ * @auth Bearer — `orgId` MUST resolve; cross-org write denied via D1 ownership check
+ * @param siteId - Immutable site UUID (path param)
+ * @returns 200 OK `{ data: { reset: true } }`
+ * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
+ * @throws {AppError} `NOT_FOUND` — site doesn't exist OR belongs to another org.
+ *
+ * @remarks
+ * After this call, the site's canonical URL resolves to the default free subdomain
+ * (e.g., `vito.projectsites.dev`). Used when a customer removes their custom domain or
+ * wants to switch primary back to the platform-hosted hostname. Direct UPDATE on
+ * `hostnames` (no service helper) — atomic single-statement, no race condition.
+ */
+api.post('/api/sites/:siteId/hostnames/reset-primary', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  const siteId = c.req.param('siteId');
+
+  // Verify ownership
+  const site = await dbQueryOne<Record<string, unknown>>(
+    c.env.DB,
+    'SELECT id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  // Clear is_primary on all hostnames for this site
+  await c.env.DB.prepare('UPDATE hostnames SET is_primary = 0 WHERE site_id = ?')
+    .bind(siteId)
+    .run();
+
+  await auditService.writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: c.get('userId') ?? null,
+    action: 'hostname.reset_primary',
+    target_type: 'site',
+    target_id: siteId,
+    metadata_json: { site_id: siteId, message: 'Primary domain reset to default subdomain' },
+    request_id: c.get('requestId'),
+  });
+
+  return c.json({ data: { primary_reset: true } });
+});
 
 // ─── Delete Hostname ────────────────────────────────────────
 
@@ -1668,6 +2284,7 @@ api.post('/api/sites/:siteId/hostnames/reset-primary', async (c) => {
  * **Hard DELETE on hostnames** (vs soft-delete on sites) — hostnames have no audit-history
  * value beyond the `audit_logs` row written here. KV cache key `host:<hostname>` is
  * deleted so the next request to that hostname misses cache + falls to D1 (returns 404).
+ * An apex / www partner that redirected here stops redirecting and serves the site itself.
  *
  * Audit log fires `hostname.deleted`.
  */
@@ -1694,9 +2311,12 @@ api.delete('/api/sites/:siteId/hostnames/:hostnameId', async (c) => {
   if (!hostname) throw notFound('Hostname not found');
 
   await c.env.DB.prepare('DELETE FROM hostnames WHERE id = ?').bind(hostnameId).run();
+  const unpaired = await domainService.unpairHostname(c.env.DB, siteId, hostname.hostname);
 
   // Invalidate KV cache
-  await c.env.CACHE_KV.delete(`host:${hostname.hostname}`).catch(() => {});
+  for (const name of [hostname.hostname, ...unpaired]) {
+    await c.env.CACHE_KV.delete(`host:${name}`).catch(() => {});
+  }
 
   await auditService.writeAuditLog(c.env.DB, {
     org_id: orgId,
@@ -1767,9 +2387,12 @@ api.post('/api/sites/:siteId/hostnames/:hostnameId/unsubscribe', async (c) => {
   await c.env.DB.prepare("UPDATE hostnames SET deleted_at = datetime('now') WHERE id = ?")
     .bind(hostnameId)
     .run();
+  const unpaired = await domainService.unpairHostname(c.env.DB, siteId, hostname.hostname);
 
   // Invalidate KV cache
-  await c.env.CACHE_KV.delete(`host:${hostname.hostname}`).catch(() => {});
+  for (const name of [hostname.hostname, ...unpaired]) {
+    await c.env.CACHE_KV.delete(`host:${name}`).catch(() => {});
+  }
 
   // Log the unsubscribe action
   await auditService.writeAuditLog(c.env.DB, {
@@ -1933,6 +2556,70 @@ api.get('/api/sites/:id/logs', async (c) => {
   return c.json({ data: result.data });
 });
 
+/** How often the live build stream re-reads `build_stream_state`. */
+const BUILD_STREAM_POLL_MS = 2_000;
+/** Each connection closes after this long; the client reconnects. */
+const BUILD_STREAM_WINDOW_MS = 60_000;
+
+/**
+ * Server-sent events for the waiting page: phase, step, percent and the
+ * container's log tail for the site's current build.
+ *
+ * @route GET /api/sites/:id/build/live
+ * @auth Bearer — `orgId` MUST resolve
+ * @param id — site UUID (path param)
+ * @header Last-Event-ID — optional; also accepted as `?last_event_id=`
+ * @returns 200 `text/event-stream`:
+ *   - `progress` — `BuildStreamSnapshot` JSON, sent only when it changes
+ *   - `end` — `published` | `error`; the build is over, do not reconnect
+ * @throws {AppError} `UNAUTHORIZED` — session missing orgId.
+ * @throws {AppError} `NOT_FOUND` — site missing or not owned by caller's org.
+ *
+ * @remarks
+ * Connections are short-lived (~60s) so a worker restart or deploy only
+ * costs one reconnect; the `retry` hint and `Last-Event-ID` make resuming
+ * cheap. When `build_stream_state` is missing or stale, snapshots are
+ * rebuilt from the `workflow.*` audit entries (`source: 'audit'`).
+ *
+ * @see {@link loadBuildStream}
+ */
+api.get('/api/sites/:id/build/live', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  const site = await dbQueryOne<{ id: string; org_id: string; status: string }>(
+    c.env.DB,
+    'SELECT id, org_id, status FROM sites WHERE id = ? AND org_id = ?',
+    [c.req.param('id'), orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  let lastId = c.req.header('Last-Event-ID') ?? c.req.query('last_event_id') ?? null;
+
+  return streamSSE(c, async (stream) => {
+    const deadline = Date.now() + BUILD_STREAM_WINDOW_MS;
+    while (!stream.aborted) {
+      const snapshot = await loadBuildStream(c.env.DB, site);
+      const id = buildStreamEventId(snapshot);
+      if (id !== lastId) {
+        await stream.writeSSE({
+          id,
+          event: 'progress',
+          data: JSON.stringify(snapshot),
+          retry: 3_000,
+        });
+        lastId = id;
+      }
+      if (snapshot.terminal_status) {
+        await stream.writeSSE({ event: 'end', data: snapshot.terminal_status });
+        return;
+      }
+      if (Date.now() >= deadline) return;
+      await stream.sleep(BUILD_STREAM_POLL_MS);
+    }
+  });
+});
+
 // ─── Bolt Publish Route ─────────────────────────────────────
 
 /**
@@ -2006,6 +2693,7 @@ api.post('/api/publish/bolt', async (c) => {
   if (!files || !Array.isArray(files) || files.length === 0) {
     throw badRequest('No files provided');
   }
+  await assertValidSiteRules(files);
 
   // Determine slug
   let slug: string;
@@ -2123,6 +2811,45 @@ api.post('/api/publish/bolt', async (c) => {
   );
 });
 
+/** Build-root files compiled into serving rules (see `services/site_rules.ts`). */
+const SITE_RULE_FILES = ['_redirects', '_headers'];
+
+/**
+ * Reject a publish whose `_redirects` or `_headers` would not parse, so a
+ * typo fails the upload instead of silently dropping rules at serve time.
+ * Paths are relative to the build root; other files are ignored.
+ *
+ * @throws {AppError} 400 with `details.violations` listing each bad line.
+ */
+async function assertValidSiteRules(files: { path: string; content: string }[]): Promise<void> {
+  const ruleFiles = files
+    .map((f) => ({ path: f.path.replace(/^\/+/, ''), content: f.content }))
+    .filter((f) => SITE_RULE_FILES.includes(f.path) && typeof f.content === 'string');
+  if (ruleFiles.length === 0) return;
+
+  const { validateSiteRules } = await import('../services/build_validators.js');
+  const violations = validateSiteRules(
+    ruleFiles.map((f) => ({
+      path: f.path,
+      text: f.content,
+      size: new TextEncoder().encode(f.content).byteLength,
+    })),
+  );
+  if (violations.length > 0) {
+    throw badRequest(violations[0]!.message, {
+      violations: violations.map((v) => ({ code: v.code, file: v.file, message: v.message })),
+    });
+  }
+}
+
+/** Drop a version's cached compiled rules after its rule file is edited in place. */
+async function invalidateSiteRules(env: Env, fullKey: string): Promise<void> {
+  const match = /^sites\/([^/]+)\/([^/]+)\/(?:_redirects|_headers)$/.exec(fullKey);
+  if (!match) return;
+  const { siteRulesCacheKey } = await import('../services/site_serving.js');
+  await env.CACHE_KV.delete(siteRulesCacheKey(match[1]!, match[2]!)).catch(() => {});
+}
+
 /**
  * Generate a slug from chat export data.
  * Uses the chat description (project title) with simple slugification.
@@ -2652,11 +3379,12 @@ api.get('/api/sites/by-slug/:slug/research.json', async (c) => {
  * @route PATCH /api/sites/:id
  * @auth Bearer orgId
  * @param id - Site UUID. Cross-org guard: `WHERE id = ? AND org_id = ? AND deleted_at IS NULL`.
- * @body { business_name?: string, slug?: string } — both fields optional.
- *   `business_name` is trimmed and capped at 200 chars. `slug` is normalized
+ * @body { business_name?: string, slug?: string, maintenance_mode?: boolean } —
+ *   all fields optional. `business_name` is trimmed and capped at 200 chars. `slug` is normalized
  *   (lowercase, `[^a-z0-9-]` → `-`, collapse repeats, strip leading/trailing `-`,
- *   100-char cap). When both fields are missing/empty, response is the no-op
- *   `{ data: { updated: false } }`.
+ *   100-char cap). `maintenance_mode` makes every page of the live site answer
+ *   503 (see `serveErrorPage` in `services/site_serving.ts`). When all fields
+ *   are missing/empty, response is the no-op `{ data: { updated: false } }`.
  * @returns 200 OK `{ data: { updated: true, business_name?, slug? } }` on
  *   successful write, or `{ data: { updated: false } }` when nothing changed
  *   (e.g. slug normalized to the same value the site already has).
@@ -2722,6 +3450,7 @@ api.patch('/api/sites/:id', async (c) => {
   const body = (await c.req.json()) as {
     business_name?: string;
     slug?: string;
+    maintenance_mode?: boolean;
   };
 
   // Verify ownership
@@ -2740,6 +3469,11 @@ api.patch('/api/sites/:id', async (c) => {
     params.push(body.business_name.trim().slice(0, 200));
   }
 
+  if (typeof body.maintenance_mode === 'boolean') {
+    updates.push('maintenance_mode = ?');
+    params.push(body.maintenance_mode ? 1 : 0);
+  }
+
   if (body.slug && body.slug.trim()) {
     const newSlug = body.slug
       .trim()
@@ -2922,6 +3656,26 @@ api.patch('/api/sites/:id', async (c) => {
     .bind(...params)
     .run();
 
+  if (typeof body.maintenance_mode === 'boolean') {
+    // Custom-domain host entries expire on their own within 60 s
+    await c.env.CACHE_KV.delete(`host:${site.slug}${DOMAINS.SITES_SUFFIX}`).catch(() => {});
+    await auditService
+      .writeAuditLog(c.env.DB, {
+        org_id: orgId,
+        actor_id: c.get('userId') ?? null,
+        action: body.maintenance_mode ? 'site.maintenance_enabled' : 'site.maintenance_disabled',
+        target_type: 'site',
+        target_id: siteId,
+        metadata_json: {
+          message: body.maintenance_mode
+            ? 'Maintenance mode turned on'
+            : 'Maintenance mode turned off',
+        },
+        request_id: c.get('requestId'),
+      })
+      .catch(() => {});
+  }
+
   // Write specific audit logs for slug and name changes
   if (body.slug && body.slug.trim()) {
     const newSlug = body.slug
@@ -3365,6 +4119,8 @@ api.post('/api/sites/:id/reset', async (c) => {
  *    Snapshot names get a 4-char base36 collision suffix when they clash
  *    with an existing snapshot on the same site. Snapshot creation is
  *    non-blocking — failures log a warning but don't fail the deploy.
+ *    The row is marked `auto`, so it lapses when the storage GC prunes
+ *    the version.
  * 7. KV cache `host:{slug}{DOMAINS.SITES_SUFFIX}` is invalidated so the next
  *    request fetches the new manifest from R2.
  *
@@ -3435,6 +4191,13 @@ api.post('/api/sites/:id/deploy', async (c) => {
   const version = `v${Date.now()}`;
   const uploadedFiles: string[] = [];
 
+  const ruleFiles: { path: string; content: string }[] = [];
+  for (const name of SITE_RULE_FILES) {
+    const entry = zip.file(distPath === '/' ? name : `${distPath}${name}`);
+    if (entry) ruleFiles.push({ path: name, content: await entry.async('string') });
+  }
+  await assertValidSiteRules(ruleFiles);
+
   // Upload files from the dist directory within the ZIP
   const entries = Object.entries(zip.files);
   for (const [path, file] of entries) {
@@ -3536,6 +4299,7 @@ api.post('/api/sites/:id/deploy', async (c) => {
       build_version: version,
       description: `AI Edit — ${uploadedFiles.length} files updated`,
       created_by: c.get('userId') || null,
+      auto: 1,
     });
   } catch (snapErr) {
     console.warn('[publish] Snapshot creation failed (non-blocking):', snapErr);
@@ -3580,16 +4344,35 @@ api.post('/api/sites/:id/deploy', async (c) => {
  *   `org_id = ?` predicate so a forbidden-vs-not-found error split would be
  *   possible, but we collapse both to 404 to avoid leaking site existence).
  * @body application/json `{ files: { path: string, content: string }[],
- *   chat?: { messages, description?, exportDate? }, slug?: string }`.
+ *   chat?: { messages, description?, exportDate? }, slug?: string, branch?: string,
+ *   base_commit?: string }`.
  *   Files are plain text content (bolt.diy editor is text-only — binaries
  *   bypass the editor and never reach this route). Optional `slug` lets a
  *   bolt session rebrand the site on publish; defaults to the persisted
  *   slug when omitted.
  * @returns 200 OK `{ data: { slug, version, files_uploaded, url } }` with
  *   `url` set to the public `https://{slug}{DOMAINS.SITES_SUFFIX}` deep link.
+ *   When the edit goes to a branch (`branch`, or the site's current branch,
+ *   is not `main`) the files are committed to it instead of published, and
+ *   the response is `{ data: { slug, branch, commit_id, files_committed, url } }`
+ *   with `url` the branch preview.
+ *   With `base_commit` (the `commit_id` from `files-export` the editor
+ *   booted with) the files are committed through git on any branch, `main`
+ *   included, and merged line by line with anything committed since; files
+ *   missing from `files` are kept. The response is
+ *   `{ data: { slug, branch, commit_id, merged, version, files_committed, url } }`,
+ *   where `version` is the published build for `main` and `null` otherwise.
  * @throws UNAUTHORIZED — missing `orgId` in session context.
- * @throws BAD_REQUEST — `files` array missing, not an array, or empty.
+ * @throws BAD_REQUEST — `files` array missing, not an array, or empty;
+ *   `base_commit` not in the branch's history; or `slug` differs from the
+ *   site's slug on a `base_commit` publish.
+ * @throws CONFLICT — with `base_commit`, when someone else changed the same
+ *   lines since. Nothing is written; `error.details` carries `head_commit`
+ *   and `conflicts: [{ file, hunks: [{ base_start, base, head, incoming }] }]`.
  * @throws NOT_FOUND — site missing / cross-org mismatch / soft-deleted.
+ * @throws QUOTA_EXCEEDED — 413 when the files would take the org past its
+ *   storage quota; nothing is uploaded. `error.details` has `tier`,
+ *   `used_bytes`, `limit_bytes` and `requested_bytes`.
  *
  * @remarks
  * Authenticated counterpart to the anonymous `POST /api/publish/bolt` route
@@ -3653,24 +4436,126 @@ api.post('/api/sites/:id/publish-bolt', async (c) => {
     files,
     chat,
     slug: providedSlug,
+    branch: requestedBranch,
+    base_commit: baseCommit,
   } = body as {
     files: { path: string; content: string }[];
     chat?: { messages: unknown[]; description?: string; exportDate?: string };
     slug?: string;
+    branch?: string;
+    base_commit?: string;
   };
 
   if (!files || !Array.isArray(files) || files.length === 0) {
     throw badRequest('No files provided');
   }
+  await assertValidSiteRules(files);
 
   // Verify site belongs to org
-  const site = await dbQueryOne<{ id: string; slug: string; org_id: string }>(
+  const site = await dbQueryOne<{
+    id: string;
+    slug: string;
+    org_id: string;
+    current_build_version: string | null;
+  }>(
     c.env.DB,
-    'SELECT id, slug, org_id FROM sites WHERE id = ? AND deleted_at IS NULL',
+    'SELECT id, slug, org_id, current_build_version FROM sites WHERE id = ? AND deleted_at IS NULL',
     [siteId],
   );
   if (!site || site.org_id !== orgId) throw notFound('Site not found');
 
+  const branch = await resolveEditBranch(c, site.slug, requestedBranch);
+
+  // Edits that name their base are merged with anything committed since
+  if (baseCommit) {
+    if (providedSlug && providedSlug !== site.slug) {
+      throw badRequest('A publish with base_commit cannot rename the site');
+    }
+    const { previewUrl } = await import('../services/site_branches.js');
+    const result = await commitEditOnBase(
+      c,
+      site,
+      branch,
+      baseCommit,
+      { write: files.map((f) => ({ name: f.path, content: f.content })) },
+      chat?.description?.slice(0, 200) || 'AI edit',
+    );
+    if (result.version && chat && chat.messages) {
+      await c.env.SITES_BUCKET.put(
+        `sites/${site.slug}/${result.version}/_meta/chat.json`,
+        JSON.stringify(chat, null, 2),
+        { httpMetadata: { contentType: 'application/json' } },
+      );
+    }
+
+    await auditService.writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: branch ? 'site.branch_committed' : 'site.published_from_bolt_embedded',
+      target_type: 'site',
+      target_id: siteId,
+      metadata_json: {
+        branch: result.branch,
+        commit_id: result.commitId,
+        base_commit: baseCommit,
+        merged: result.merged,
+        version: result.version,
+        file_count: files.length,
+      },
+      request_id: c.get('requestId'),
+    });
+
+    return c.json({
+      data: {
+        slug: site.slug,
+        branch: result.branch,
+        commit_id: result.commitId,
+        merged: result.merged,
+        version: result.version,
+        files_committed: files.length,
+        url: branch ? previewUrl(branch, site.slug) : `https://${site.slug}${DOMAINS.SITES_SUFFIX}`,
+      },
+    });
+  }
+
+  // AI edits on a branch become a commit there, previewed until merged
+  if (branch) {
+    const { createSnapshot, getHead } = await import('../services/git.js');
+    const { previewUrl } = await import('../services/site_branches.js');
+    if (!(await getHead(c.env.SITES_BUCKET, site.slug, branch))) {
+      throw notFound(`Branch not found: ${branch}`);
+    }
+    const commitId = await createSnapshot(
+      meteredBucket(c.env.SITES_BUCKET, c.env.DB, orgId),
+      site.slug,
+      files.map((f) => ({ name: f.path, content: f.content })),
+      chat?.description?.slice(0, 200) || 'AI edit',
+      c.get('userId') ?? 'ProjectSites AI',
+      undefined,
+      branch,
+    );
+
+    await auditService.writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.branch_committed',
+      target_type: 'site',
+      target_id: siteId,
+      metadata_json: { branch, commit_id: commitId, file_count: files.length },
+      request_id: c.get('requestId'),
+    });
+
+    return c.json({
+      data: {
+        slug: site.slug,
+        branch,
+        commit_id: commitId,
+        files_committed: files.length,
+        url: previewUrl(branch, site.slug),
+      },
+    });
+  }
+
   const slug = providedSlug || site.slug;
   const version = new Date().toISOString().replace(/[:.]/g, '-');
 
@@ -3695,11 +4580,18 @@ api.post('/api/sites/:id/publish-bolt', async (c) => {
     webmanifest: 'application/manifest+json',
   };
 
-  // Upload all files to R2
+  // Upload all files to R2, refusing the publish whole if it cannot fit
+  const encoder = new TextEncoder();
+  await assertStorageAvailable(
+    c.env.DB,
+    orgId,
+    files.reduce((sum, f) => sum + encoder.encode(f.content).byteLength, 0),
+  );
+  const bucket = meteredBucket(c.env.SITES_BUCKET, c.env.DB, orgId);
   const uploads: Promise<R2Object>[] = files.map((f) => {
     const ext = f.path.split('.').pop()?.toLowerCase() ?? '';
     const contentType = mimeTypes[ext] ?? 'application/octet-stream';
-    return c.env.SITES_BUCKET.put(`sites/${slug}/${version}/${f.path}`, f.content, {
+    return bucket.put(`sites/${slug}/${version}/${f.path}`, f.content, {
       httpMetadata: { contentType },
     });
   });
@@ -3707,17 +4599,15 @@ api.post('/api/sites/:id/publish-bolt', async (c) => {
   // Store chat export if provided
   if (chat && chat.messages) {
     uploads.push(
-      c.env.SITES_BUCKET.put(
-        `sites/${slug}/${version}/_meta/chat.json`,
-        JSON.stringify(chat, null, 2),
-        { httpMetadata: { contentType: 'application/json' } },
-      ),
+      bucket.put(`sites/${slug}/${version}/_meta/chat.json`, JSON.stringify(chat, null, 2), {
+        httpMetadata: { contentType: 'application/json' },
+      }),
     );
   }
 
   // Write/update manifest
   uploads.push(
-    c.env.SITES_BUCKET.put(
+    bucket.put(
       `sites/${slug}/_manifest.json`,
       JSON.stringify({
         current_version: version,
@@ -3969,61 +4859,56 @@ api.get('/api/domains/search', async (c) => {
   return c.json({ data: results });
 });
 
-// ─── Domain Purchase (Stripe subscription) ───────────────────
+// ─── Domain Registration (Registrar + Stripe checkout) ─────
+
+/** Billing email for a checkout: the caller's, or empty to let Stripe ask. */
+async function currentUserEmail(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+): Promise<string> {
+  const user = await dbQueryOne<{ email: string }>(
+    c.env.DB,
+    'SELECT email FROM users WHERE id = ? AND deleted_at IS NULL',
+    [c.get('userId') ?? ''],
+  );
+  return user?.email ?? '';
+}
 
 /**
- * Initiate a Stripe checkout session for a $15/yr custom-domain
- * registration tied to an existing site. The actual domain provisioning
- * happens asynchronously in the `customer.subscription.created` webhook
- * (see `routes/webhooks.ts`).
+ * Buy a domain for a site. The registrar confirms availability and price,
+ * then the customer pays through Stripe Checkout; the webhook registers the
+ * domain and connects it (DNS and SSL) with no further action.
  *
  * @route POST /api/domains/purchase
- * @auth Bearer orgId required — cross-org site ownership enforced via
- *   `org_id = ?` predicate (uses standard 404-on-mismatch — purchase
- *   attempts against other orgs' sites surface as "Site not found").
- * @body application/json `{ domain: string, site_id: string,
- *   success_url: string, cancel_url: string }`. Both URLs must be
- *   absolute (Stripe rejects relative paths). The domain string is
- *   passed through verbatim — caller is responsible for prior
- *   availability verification via `/api/domains/search`.
- * @returns 200 OK `{ data: { checkout_url, session_id } }`. Client
- *   should redirect to `checkout_url` (full Stripe Checkout page, not
- *   embedded). On success-url callback, the webhook eventually creates
- *   a `hostnames` row and starts CF for SaaS provisioning.
+ * @auth Bearer orgId required — the site must belong to the org (404 otherwise).
+ * @body application/json {@link purchaseDomainSchema}: `{ domain, site_id,
+ *   years?, contact, whois_privacy?, auto_renew?, success_url, cancel_url }`.
+ *   `contact` is the registrant (WHOIS) contact; privacy defaults on.
+ * @returns 200 OK `{ data: { order_id, registered_domain_id, domain,
+ *   amount_cents, checkout_url, session_id } }` — redirect to `checkout_url`.
  * @throws UNAUTHORIZED — missing/invalid Bearer token.
- * @throws BAD_REQUEST — `domain` or `site_id` missing; Stripe API
- *   rejected the checkout creation (passed through with status text).
+ * @throws BAD_REQUEST — invalid body, a subdomain, or no registrar in this
+ *   environment.
  * @throws NOT_FOUND — `site_id` doesn't exist or belongs to another org.
+ * @throws CONFLICT — domain taken, attached to another site, or the org is
+ *   out of custom domains.
  *
  * @remarks
- * Stripe price configuration uses `price_data` inline (no pre-created
- * Price object) so the catalog stays clean — every domain is a unique
- * one-off product. Annual interval at $15.00 (1500 cents). The
- * `metadata` block carries `org_id`, `site_id`, `domain`, and
- * `type: 'domain_purchase'` so the webhook handler can distinguish
- * domain checkouts from plan upgrades without inspecting line items.
- *
- * Customer email is best-effort — lookup against `users` by `userId`,
- * defaults to empty string when missing (Stripe will then prompt the
- * user for email during checkout). No 404 surface on missing user
- * since the route's auth layer guarantees a valid session.
- *
- * Audit log entry `domain.purchase_initiated` is fire-and-forget
- * (`.catch(() => {})`) — Stripe checkout already created so we
- * don't surface audit failures to the user. The webhook handler
- * writes the corresponding `domain.purchase_completed` on subscription
- * activation.
- *
- * @see Webhook: `routes/webhooks.ts` → `customer.subscription.created`
- *   with `metadata.type === 'domain_purchase'`.
- * @see {@link https://stripe.com/docs/api/checkout/sessions/create Stripe Checkout}
+ * The checkout charges the first year at the registration price and any
+ * further years at the renewal price. Orgs not yet on Pro buy Pro in the
+ * same checkout (custom domains need it). Audit log fires
+ * `domain.purchase_initiated`; the webhook writes `domain.registered` or
+ * `domain.order_failed` (the charge is refunded), and `domain.connect_failed`
+ * when a registered domain could not be pointed at the site yet.
+ *
+ * @see {@link domainRegistration.startDomainPurchase}
+ * @see {@link domainRegistration.completeDomainOrder}
  *
  * @example
  * ```bash
  * curl -X POST https://projectsites.dev/api/domains/purchase \
  *   -H "Authorization: Bearer $TOKEN" \
  *   -H "Content-Type: application/json" \
- *   -d '{"domain":"vitossalon.com","site_id":"site_abc",
+ *   -d '{"domain":"vitossalon.com","site_id":"…","contact":{…},
  *        "success_url":"https://app.example/done",
  *        "cancel_url":"https://app.example/cancel"}'
  * # { "data": { "checkout_url": "https://checkout.stripe.com/c/pay/cs_...", ... } }
@@ -4033,88 +4918,207 @@ api.post('/api/domains/purchase', async (c) => {
   const orgId = c.get('orgId');
   if (!orgId) throw unauthorized('Must be authenticated');
 
-  const body = (await c.req.json()) as {
-    domain: string;
-    site_id: string;
-    success_url: string;
-    cancel_url: string;
-  };
-
-  if (!body.domain || !body.site_id) {
-    throw badRequest('domain and site_id are required');
-  }
-
-  // Verify site ownership
-  const site = await dbQueryOne<{ id: string; org_id: string }>(
-    c.env.DB,
-    'SELECT id, org_id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
-    [body.site_id, orgId],
-  );
-  if (!site) throw notFound('Site not found');
+  const input = purchaseDomainSchema.parse(await c.req.json());
+  const registrar = domainRegistration.getRegistrar(c.env);
+  const result = await domainRegistration.startDomainPurchase(c.env.DB, c.env, registrar, {
+    ...input,
+    org_id: orgId,
+    customer_email: await currentUserEmail(c),
+  });
 
-  // Create a Stripe checkout for domain subscription
-  const userId = c.get('userId') || '';
-  const user = await dbQueryOne<{ email: string }>(
-    c.env.DB,
-    'SELECT email FROM users WHERE id = ?',
-    [userId],
-  );
+  auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: 'domain.purchase_initiated',
+      target_type: 'domain',
+      target_id: result.registered_domain_id,
+      metadata_json: {
+        domain: input.domain,
+        site_id: input.site_id,
+        years: input.years,
+        amount_cents: result.amount_cents,
+        stripe_session_id: result.session_id,
+        message: 'Domain purchase started for ' + input.domain + ' — Stripe checkout created',
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
 
-  const stripeRes = await fetch('https://api.stripe.com/v1/checkout/sessions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${btoa(c.env.STRIPE_SECRET_KEY + ':')}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      mode: 'subscription',
-      success_url: body.success_url,
-      cancel_url: body.cancel_url,
-      customer_email: user?.email || '',
-      'line_items[0][price_data][currency]': 'usd',
-      'line_items[0][price_data][recurring][interval]': 'year',
-      'line_items[0][price_data][unit_amount]': '1500', // $15/yr default
-      'line_items[0][price_data][product_data][name]': `Domain: ${body.domain}`,
-      'line_items[0][price_data][product_data][description]': `Annual domain registration for ${body.domain}`,
-      'line_items[0][quantity]': '1',
-      'metadata[org_id]': orgId,
-      'metadata[site_id]': body.site_id,
-      'metadata[domain]': body.domain,
-      'metadata[type]': 'domain_purchase',
-    }),
+  return c.json({ data: result });
+});
+
+/**
+ * Transfer a domain registered elsewhere to us and connect it to a site.
+ *
+ * @route POST /api/domains/transfer
+ * @auth Bearer orgId required — the site must belong to the org (404 otherwise).
+ * @body application/json {@link transferDomainSchema}: `{ domain, site_id,
+ *   auth_code, contact, whois_privacy?, auto_renew?, success_url, cancel_url }`.
+ * @returns 200 OK `{ data: { order_id, registered_domain_id, domain,
+ *   amount_cents, checkout_url, session_id } }`.
+ * @throws UNAUTHORIZED — missing/invalid Bearer token.
+ * @throws BAD_REQUEST — invalid body, unsupported TLD, or the domain is not
+ *   registered anywhere yet (buy it instead).
+ * @throws NOT_FOUND — site missing / cross-org.
+ * @throws CONFLICT — attached to another site or already held by us.
+ *
+ * @remarks
+ * After payment the auth code is submitted and discarded. The registry
+ * usually takes days to approve; the cron's `syncPendingTransfers` connects
+ * the domain once it does. A domain the site already serves keeps working
+ * throughout.
+ *
+ * @see {@link domainRegistration.startDomainTransfer}
+ */
+api.post('/api/domains/transfer', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  const input = transferDomainSchema.parse(await c.req.json());
+  const registrar = domainRegistration.getRegistrar(c.env);
+  const result = await domainRegistration.startDomainTransfer(c.env.DB, c.env, registrar, {
+    ...input,
+    org_id: orgId,
+    customer_email: await currentUserEmail(c),
   });
 
-  if (!stripeRes.ok) {
-    const errData = await stripeRes.text();
-    throw badRequest('Failed to create checkout: ' + errData);
-  }
+  auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: 'domain.transfer_initiated',
+      target_type: 'domain',
+      target_id: result.registered_domain_id,
+      metadata_json: {
+        domain: input.domain,
+        site_id: input.site_id,
+        amount_cents: result.amount_cents,
+        stripe_session_id: result.session_id,
+        message: 'Domain transfer started for ' + input.domain + ' — Stripe checkout created',
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: result });
+});
+
+/**
+ * List the domains the org bought or transferred in through us.
+ *
+ * @route GET /api/domains/registered
+ * @auth Bearer orgId required.
+ * @returns 200 OK `{ data: Array<{ id, domain, site_id, registrar, status,
+ *   expires_at, auto_renew, whois_privacy, created_at }> }`, newest first.
+ *   Checkouts that were never paid are left out.
+ * @throws UNAUTHORIZED — missing/invalid Bearer token.
+ */
+api.get('/api/domains/registered', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  return c.json({ data: await domainRegistration.listRegisteredDomains(c.env.DB, orgId) });
+});
+
+/**
+ * Toggle auto-renew and / or WHOIS privacy of a registered domain, at the
+ * registrar and in D1.
+ *
+ * @route PATCH /api/domains/registered/:domainId
+ * @auth Bearer orgId required.
+ * @param domainId - `registered_domains` row UUID (path param)
+ * @body application/json `{ auto_renew?: boolean, whois_privacy?: boolean }` (at least one)
+ * @returns 200 OK `{ data: RegisteredDomain }` with the new settings.
+ * @throws UNAUTHORIZED — missing/invalid Bearer token.
+ * @throws NOT_FOUND — domain missing / cross-org.
+ * @throws BAD_REQUEST — invalid body, or the domain is not active yet.
+ *
+ * @see {@link domainRegistration.updateRegisteredDomain}
+ */
+api.patch('/api/domains/registered/:domainId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
 
-  const session = (await stripeRes.json()) as { url: string; id: string };
+  const settings = updateRegisteredDomainSchema.parse(await c.req.json());
+  const result = await domainRegistration.updateRegisteredDomain(
+    c.env.DB,
+    domainRegistration.getRegistrar(c.env),
+    orgId,
+    c.req.param('domainId'),
+    settings,
+  );
 
-  // Audit: domain purchase checkout initiated
   auditService
     .writeAuditLog(c.env.DB, {
       org_id: orgId,
       actor_id: c.get('userId') ?? null,
-      action: 'domain.purchase_initiated',
+      action: 'domain.settings_updated',
       target_type: 'domain',
-      target_id: body.site_id,
+      target_id: result.id,
       metadata_json: {
-        domain: body.domain,
-        site_id: body.site_id,
-        stripe_session_id: session.id,
-        message: 'Domain purchase started for ' + body.domain + ' — Stripe checkout created',
+        domain: result.domain,
+        ...settings,
+        message: 'Domain settings updated for ' + result.domain,
       },
       request_id: c.get('requestId'),
     })
     .catch(() => {});
 
-  return c.json({
-    data: {
-      checkout_url: session.url,
-      session_id: session.id,
+  return c.json({ data: result });
+});
+
+/**
+ * Renew a registered domain for more years, paid through Stripe Checkout.
+ *
+ * @route POST /api/domains/registered/:domainId/renew
+ * @auth Bearer orgId required.
+ * @param domainId - `registered_domains` row UUID (path param)
+ * @body application/json `{ years?: number (1-10, default 1), success_url, cancel_url }`
+ * @returns 200 OK `{ data: { order_id, registered_domain_id, domain,
+ *   amount_cents, checkout_url, session_id } }`.
+ * @throws UNAUTHORIZED — missing/invalid Bearer token.
+ * @throws NOT_FOUND — domain missing / cross-org.
+ * @throws BAD_REQUEST — invalid body, or the domain is not active.
+ *
+ * @see {@link domainRegistration.startDomainRenewal}
+ */
+api.post('/api/domains/registered/:domainId/renew', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+
+  const input = renewDomainSchema.parse(await c.req.json());
+  const result = await domainRegistration.startDomainRenewal(
+    c.env.DB,
+    c.env,
+    domainRegistration.getRegistrar(c.env),
+    {
+      ...input,
+      org_id: orgId,
+      registered_domain_id: c.req.param('domainId'),
+      customer_email: await currentUserEmail(c),
     },
-  });
+  );
+
+  auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: 'domain.renewal_initiated',
+      target_type: 'domain',
+      target_id: result.registered_domain_id,
+      metadata_json: {
+        domain: result.domain,
+        years: input.years,
+        amount_cents: result.amount_cents,
+        stripe_session_id: result.session_id,
+        message: 'Domain renewal started for ' + result.domain + ' — Stripe checkout created',
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: result });
 });
 
 // ─── Admin Domain Management Routes ─────────────────────────
@@ -4196,15 +5200,18 @@ api.get('/api/admin/domains', async (c) => {
 
 /**
  * Aggregate counts of hostnames attached to the caller's org, bucketed
- * by `status` and `type`. Powers the dashboard summary cards on the
- * frontend domain-management page.
+ * by `status`, `type` and `health_status`, plus the latest health-sweep
+ * checks. Powers the dashboard summary cards on the frontend
+ * domain-management page.
  *
  * @route GET /api/admin/domains/summary
  * @auth Bearer orgId required — query scoped via `WHERE org_id = ?`.
  * @returns 200 OK `{ data: { total, by_status: { active, pending,
- *   verification_failed }, by_type: { free_subdomain, custom_cname } } }`.
+ *   verification_failed }, by_type: { free_subdomain, custom_cname },
+ *   by_health: { healthy, degraded }, health_history: HostnameHealthEntry[] } }`.
  *   Every count guaranteed to be a number (zero-coalesced from D1's
- *   nullable `SUM(...)` result).
+ *   nullable `SUM(...)` result). `health_history` holds the 50 most recent
+ *   checks across the org, newest first.
  * @throws UNAUTHORIZED — missing/invalid Bearer token.
  *
  * @remarks
@@ -4213,6 +5220,8 @@ api.get('/api/admin/domains', async (c) => {
  * rows excluded via `deleted_at IS NULL`. The result schema is
  * deliberately flat-with-nesting so the frontend can render either
  * the top-line total or the breakdown grid without re-shaping.
+ *
+ * @see {@link sweepHostnameHealth} for how checks are recorded.
  */
 api.get('/api/admin/domains/summary', async (c) => {
   const orgId = c.get('orgId');
@@ -4226,11 +5235,14 @@ api.get('/api/admin/domains/summary', async (c) => {
       SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
       SUM(CASE WHEN status = 'verification_failed' THEN 1 ELSE 0 END) as failed,
       SUM(CASE WHEN type = 'free_subdomain' THEN 1 ELSE 0 END) as free_subdomain,
-      SUM(CASE WHEN type = 'custom_cname' THEN 1 ELSE 0 END) as custom_cname
+      SUM(CASE WHEN type = 'custom_cname' THEN 1 ELSE 0 END) as custom_cname,
+      SUM(CASE WHEN health_status = 'healthy' THEN 1 ELSE 0 END) as healthy,
+      SUM(CASE WHEN health_status = 'degraded' THEN 1 ELSE 0 END) as degraded
     FROM hostnames
     WHERE org_id = ? AND deleted_at IS NULL`,
     [orgId],
   );
+  const healthHistory = await listHealthHistory(c.env.DB, orgId);
 
   const stats = data[0] ?? {
     total: 0,
@@ -4239,6 +5251,8 @@ api.get('/api/admin/domains/summary', async (c) => {
     failed: 0,
     free_subdomain: 0,
     custom_cname: 0,
+    healthy: 0,
+    degraded: 0,
   };
 
   return c.json({
@@ -4253,6 +5267,11 @@ api.get('/api/admin/domains/summary', async (c) => {
         free_subdomain: stats.free_subdomain ?? 0,
         custom_cname: stats.custom_cname ?? 0,
       },
+      by_health: {
+        healthy: stats.healthy ?? 0,
+        degraded: stats.degraded ?? 0,
+      },
+      health_history: healthHistory,
     },
   });
 });
@@ -4453,7 +5472,9 @@ api.post('/api/admin/domains/:hostnameId/verify', async (c) => {
  * @param hostnameId - UUID of the `hostnames` row to inspect.
  * @returns 200 OK `{ data: { hostname, type, db_status, cf_status,
  *   ssl_status, dns_configured, cname_target, verification_errors,
- *   last_verified_at } }`. `dns_configured` is the boolean
+ *   last_verified_at, health_status, history } }`. `health_status` and
+ *   `history` (last 20 checks) come from the scheduled health sweep
+ *   (`services/domain_health.ts`). `dns_configured` is the boolean
  *   `cname_target != null` — useful for the "Pending DNS configuration"
  *   alert in the frontend. `cf_status` falls back to `"unknown"` when
  *   `cf_custom_hostname_id` is missing or the CF API errors.
@@ -4487,9 +5508,10 @@ api.get('/api/admin/domains/:hostnameId/health', async (c) => {
     status: string;
     ssl_status: string;
     last_verified_at: string;
+    health_status: string | null;
   }>(
     c.env.DB,
-    'SELECT id, hostname, cf_custom_hostname_id, org_id, site_id, type, status, ssl_status, last_verified_at FROM hostnames WHERE id = ? AND deleted_at IS NULL',
+    'SELECT id, hostname, cf_custom_hostname_id, org_id, site_id, type, status, ssl_status, last_verified_at, health_status FROM hostnames WHERE id = ? AND deleted_at IS NULL',
     [hostnameId],
   );
 
@@ -4526,6 +5548,7 @@ api.get('/api/admin/domains/:hostnameId/health', async (c) => {
     });
 
   await Promise.all([cfPromise, dnsPromise]);
+  const history = await listHealthHistory(c.env.DB, orgId, 20, hostnameId);
 
   return c.json({
     data: {
@@ -4538,6 +5561,8 @@ api.get('/api/admin/domains/:hostnameId/health', async (c) => {
       cname_target: cnameTarget,
       verification_errors: verificationErrors,
       last_verified_at: hostname.last_verified_at,
+      health_status: hostname.health_status ?? null,
+      history,
     },
   });
 });
@@ -4935,9 +5960,12 @@ api.get('/api/sites/:id/files', async (c) => {
  *
  * @route GET /api/sites/:id/files-export
  * @auth Bearer orgId required — cross-org access collapses to 404.
- * @returns 200 OK `{ data: { files: Record<string, string>, prefix, version } }`.
+ * @returns 200 OK `{ data: { files: Record<string, string>, prefix, version, commit_id } }`.
  *   Keys are paths relative to the site prefix; values are UTF-8
- *   decoded text content.
+ *   decoded text content. `commit_id` is the live site's commit — pass it
+ *   back as `base_commit` when publishing so concurrent edits are merged.
+ *   It is `null` while `main` is behind the live version; `POST
+ *   /api/sites/:siteId/git/base` catches it up.
  * @throws UNAUTHORIZED — missing Bearer token.
  * @throws NOT_FOUND — site missing / cross-org / soft-deleted.
  *
@@ -5004,7 +6032,15 @@ api.get('/api/sites/:id/files-export', async (c) => {
       }),
   );
 
-  return c.json({ data: { files, prefix, version: version || null } });
+  // The commit these files are at, for the editor to send back as `base_commit`
+  const { liveCommit } = await import('../services/site_branches.js');
+  const commitId = await liveCommit(
+    c.env.SITES_BUCKET,
+    site.slug,
+    site.current_build_version,
+  ).catch(() => null);
+
+  return c.json({ data: { files, prefix, version: version || null, commit_id: commitId } });
 });
 
 /**
@@ -5018,10 +6054,12 @@ api.get('/api/sites/:id/files-export', async (c) => {
  *   everything after `/files/`, including slashes). Passed through
  *   `sanitizeFilePath()` before any R2 access — see that helper for
  *   the traversal-defense matrix.
- * @returns 200 OK `{ data: { key, content, size, content_type } }`.
+ * @returns 200 OK `{ data: { key, content, size, content_type, commit_id } }`.
  *   `content` always UTF-8 decoded (text-mode); binary files come
  *   back garbled — callers are expected to filter by extension
- *   client-side using the listing endpoint.
+ *   client-side using the listing endpoint. `commit_id` is the live
+ *   site's commit, to send back as `base_commit` when saving, or `null`
+ *   while `main` is behind the live version.
  * @throws UNAUTHORIZED — missing Bearer token.
  * @throws BAD_REQUEST — empty path.
  * @throws FORBIDDEN — path failed sanitization OR resolved key
@@ -5049,9 +6087,9 @@ api.get('/api/sites/:id/files/:path{.+}', async (c) => {
   const filePath = sanitizeFilePath(rawPath);
   if (!filePath) throw forbidden('Invalid file path');
 
-  const site = await dbQueryOne<{ slug: string }>(
+  const site = await dbQueryOne<{ slug: string; current_build_version: string | null }>(
     c.env.DB,
-    'SELECT slug FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    'SELECT slug, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
     [siteId, orgId],
   );
   if (!site) throw notFound('Site not found');
@@ -5066,12 +6104,20 @@ api.get('/api/sites/:id/files/:path{.+}', async (c) => {
   if (!object) throw notFound('File not found');
 
   const content = await object.text();
+  const { liveCommit } = await import('../services/site_branches.js');
+  const commitId = await liveCommit(
+    c.env.SITES_BUCKET,
+    site.slug,
+    site.current_build_version,
+  ).catch(() => null);
+
   return c.json({
     data: {
       key: fullKey,
       content,
       size: object.size,
       content_type: object.httpMetadata?.contentType ?? null,
+      commit_id: commitId,
     },
   });
 });
@@ -5085,15 +6131,31 @@ api.get('/api/sites/:id/files/:path{.+}', async (c) => {
  * @route PUT /api/sites/:id/files/:path{.+}
  * @auth Bearer orgId required — cross-org access collapses to 404.
  * @param path - Path-rest match, sanitized + prefix-guarded (see GET).
- * @body application/json `{ content: string, content_type?: string }`.
+ * @queryParam branch - Optional branch to commit to; defaults to the site's
+ *   current branch. On any branch but `main` the file is committed to the
+ *   branch (path relative to the site root, e.g. `about.html`) and the
+ *   response is `{ data: { key, size, updated: true, branch, commit_id, merged, version } }`.
+ * @body application/json `{ content: string, content_type?: string, base_commit?: string }`.
+ *   `base_commit` is the `commit_id` the editor loaded the file at. With it
+ *   the save is committed through git on any branch, `main` included:
+ *   changes committed since are three-way merged in (`merged` lists the
+ *   files that needed it), and a `main` save is published (`version`).
  *   When `content_type` omitted, derived from extension:
  *   `.html` → `text/html`, `.json` → `application/json`, `.css` →
  *   `text/css`, `.js` → `application/javascript`, else `text/plain`.
  * @returns 200 OK `{ data: { key, size, updated: true } }`.
  * @throws UNAUTHORIZED — missing Bearer token.
- * @throws BAD_REQUEST — empty path OR non-string `content`.
+ * @throws BAD_REQUEST — empty path OR non-string `content` OR `base_commit`
+ *   not in the branch's history.
  * @throws FORBIDDEN — path failed sanitization OR escaped site prefix.
  * @throws NOT_FOUND — site missing / cross-org / soft-deleted.
+ * @throws CONFLICT — someone else changed the same lines since `base_commit`;
+ *   `error.details` has `head_commit` and `conflicts: [{ file, hunks }]`.
+ *   Nothing is written — resolve the hunks and save again with
+ *   `base_commit: head_commit`.
+ * @throws QUOTA_EXCEEDED — 413 when the save would take the org past its
+ *   storage quota; `error.details` has `tier`, `used_bytes`, `limit_bytes`
+ *   and `requested_bytes`. Saves that shrink a file always go through.
  *
  * @remarks
  * Side effects beyond the R2 write:
@@ -5121,9 +6183,14 @@ api.put('/api/sites/:id/files/:path{.+}', async (c) => {
   const filePath = sanitizeFilePath(rawPath);
   if (!filePath) throw forbidden('Invalid file path');
 
-  const site = await dbQueryOne<{ slug: string }>(
+  const site = await dbQueryOne<{
+    id: string;
+    slug: string;
+    org_id: string;
+    current_build_version: string | null;
+  }>(
     c.env.DB,
-    'SELECT slug FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    'SELECT id, slug, org_id, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
     [siteId, orgId],
   );
   if (!site) throw notFound('Site not found');
@@ -5133,8 +6200,78 @@ api.put('/api/sites/:id/files/:path{.+}', async (c) => {
     throw forbidden('Access denied to this file path');
   }
 
-  const body = (await c.req.json()) as { content: string; content_type?: string };
+  const body = (await c.req.json()) as {
+    content: string;
+    content_type?: string;
+    base_commit?: string;
+  };
   if (typeof body.content !== 'string') throw badRequest('Content must be a string');
+  await assertValidSiteRules([{ path: filePath.split('/').pop()!, content: body.content }]);
+
+  const bucket = meteredBucket(c.env.SITES_BUCKET, c.env.DB, orgId);
+  const branch = await resolveEditBranch(c, site.slug, c.req.query('branch'));
+  if (branch || body.base_commit) {
+    if (filePath.startsWith('sites/')) {
+      throw badRequest('Branch edits take a path relative to the site root');
+    }
+    const { commitChanges, readBranchFile, DEFAULT_BRANCH } = await import('../services/git.js');
+    const target = branch ?? DEFAULT_BRANCH;
+    const isNew = !(await readBranchFile(c.env.SITES_BUCKET, site.slug, target, filePath));
+    const changes = { write: [{ name: filePath, content: body.content }] };
+    const message = (isNew ? 'Create ' : 'Update ') + filePath;
+
+    let commitId: string;
+    let merged: string[] = [];
+    let version: string | null = null;
+    if (body.base_commit) {
+      ({ commitId, merged, version } = await commitEditOnBase(
+        c,
+        site,
+        branch,
+        body.base_commit,
+        changes,
+        message,
+      ));
+    } else {
+      commitId = await commitChanges(
+        bucket,
+        site.slug,
+        target,
+        changes,
+        message,
+        c.get('userId') ?? 'unknown',
+      );
+    }
+
+    await auditService.writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: isNew ? 'file.created' : 'file.updated',
+      target_type: 'site',
+      target_id: siteId,
+      metadata_json: {
+        key: filePath,
+        branch: target,
+        commit_id: commitId,
+        merged: merged.length > 0,
+        size: body.content.length,
+        message: (isNew ? 'File created on ' : 'File updated on ') + target + ': ' + filePath,
+      },
+      request_id: c.get('requestId'),
+    });
+
+    return c.json({
+      data: {
+        key: filePath,
+        size: body.content.length,
+        updated: true,
+        branch: target,
+        commit_id: commitId,
+        merged,
+        version,
+      },
+    });
+  }
 
   const contentType =
     body.content_type ||
@@ -5152,12 +6289,13 @@ api.put('/api/sites/:id/files/:path{.+}', async (c) => {
   const existingFile = await c.env.SITES_BUCKET.head(fullKey);
   const isNewFile = !existingFile;
 
-  await c.env.SITES_BUCKET.put(fullKey, body.content, {
+  await bucket.put(fullKey, body.content, {
     httpMetadata: { contentType },
   });
 
   // Invalidate KV cache
   await c.env.CACHE_KV.delete(`host:${site.slug}${DOMAINS.SITES_SUFFIX}`).catch(() => {});
+  await invalidateSiteRules(c.env, fullKey);
 
   // Extract just the filename from the full key for display
   const fileName = fullKey.split('/').pop() || fullKey;
@@ -5192,6 +6330,11 @@ api.put('/api/sites/:id/files/:path{.+}', async (c) => {
  * @route DELETE /api/sites/:id/files/:path{.+}
  * @auth Bearer orgId required — cross-org access collapses to 404.
  * @param path - Path-rest match, sanitized + prefix-guarded.
+ * @queryParam branch - Optional branch; as for PUT, a branch other than
+ *   `main` gets a commit removing the file instead of an R2 delete.
+ * @queryParam base_commit - Optional commit the deletion was made against;
+ *   as for PUT it is merged with changes made since and `main` is
+ *   published. Deleting a file someone else edited since is a CONFLICT.
  * @returns 200 OK `{ data: { key, deleted: true } }`.
  * @throws UNAUTHORIZED — missing Bearer token.
  * @throws BAD_REQUEST — empty path.
@@ -5221,9 +6364,14 @@ api.delete('/api/sites/:id/files/:path{.+}', async (c) => {
   const filePath = sanitizeFilePath(rawPath);
   if (!filePath) throw forbidden('Invalid file path');
 
-  const site = await dbQueryOne<{ slug: string }>(
+  const site = await dbQueryOne<{
+    id: string;
+    slug: string;
+    org_id: string;
+    current_build_version: string | null;
+  }>(
     c.env.DB,
-    'SELECT slug FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    'SELECT id, slug, org_id, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
     [siteId, orgId],
   );
   if (!site) throw notFound('Site not found');
@@ -5233,10 +6381,68 @@ api.delete('/api/sites/:id/files/:path{.+}', async (c) => {
     throw forbidden('Access denied to this file path');
   }
 
-  await c.env.SITES_BUCKET.delete(fullKey);
+  const bucket = meteredBucket(c.env.SITES_BUCKET, c.env.DB, orgId);
+  const branch = await resolveEditBranch(c, site.slug, c.req.query('branch'));
+  const baseCommit = c.req.query('base_commit');
+  if (branch || baseCommit) {
+    if (filePath.startsWith('sites/')) {
+      throw badRequest('Branch edits take a path relative to the site root');
+    }
+    const { commitChanges, readBranchFile, DEFAULT_BRANCH } = await import('../services/git.js');
+    const target = branch ?? DEFAULT_BRANCH;
+    const changes = { remove: [filePath] };
+    const message = 'Delete ' + filePath;
+
+    let commitId: string;
+    let version: string | null = null;
+    if (baseCommit) {
+      ({ commitId, version } = await commitEditOnBase(
+        c,
+        site,
+        branch,
+        baseCommit,
+        changes,
+        message,
+      ));
+    } else {
+      if (!(await readBranchFile(c.env.SITES_BUCKET, site.slug, target, filePath))) {
+        throw notFound('File not found');
+      }
+      commitId = await commitChanges(
+        bucket,
+        site.slug,
+        target,
+        changes,
+        message,
+        c.get('userId') ?? 'unknown',
+      );
+    }
+
+    await auditService.writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: 'file.deleted',
+      target_type: 'site',
+      target_id: siteId,
+      metadata_json: {
+        key: filePath,
+        branch: target,
+        commit_id: commitId,
+        message: 'File deleted on ' + target + ': ' + filePath,
+      },
+      request_id: c.get('requestId'),
+    });
+
+    return c.json({
+      data: { key: filePath, deleted: true, branch: target, commit_id: commitId, version },
+    });
+  }
+
+  await bucket.delete(fullKey);
 
   // Invalidate KV cache
   await c.env.CACHE_KV.delete(`host:${site.slug}${DOMAINS.SITES_SUFFIX}`).catch(() => {});
+  await invalidateSiteRules(c.env, fullKey);
 
   const fileName = fullKey.split('/').pop() || fullKey;
 
@@ -5497,108 +6703,312 @@ api.delete('/api/sites/:siteId/snapshots/:snapshotId', async (c) => {
   return c.json({ data: { deleted: true } });
 });
 
-// ── Git-based Snapshot System ─────────────────────────────────────
-
 /**
- * Revert a site to an earlier R2 git snapshot, creating a forward-rolling
- * "revert commit" rather than rewriting history. The original commits
- * remain intact in the chain — undoing the revert is itself a revert.
- *
- * @route POST /api/sites/:siteId/snapshots/revert
- * @auth Bearer token (org-scoped)
- *
- * @body {{ commit_id: string }} - SHA-like commit identifier from
- *   `GET /api/sites/:siteId/git/history`. Trimmed and required.
- *
- * @returns 200 with `{ data: { commit_id, version, files_restored,
- *   snapshot_id } }`. `commit_id` is the NEW revert-commit SHA (not the
- *   target). `version` is the new R2 path component (`v${Date.now()}`).
- *   `snapshot_id` is the D1 row tagged `revert-{first-8-chars}`.
- *
- * @remarks
- * Four-stage flow (all stages must succeed or partial state is left for
- * the next call to clean up):
- * 1. **Git revert** — `revertToSnapshot()` reads the target commit's
- *    file blobs from R2, computes the forward-rolling revert commit, and
- *    writes the new commit object to R2 git history.
- * 2. **R2 publish** — `Promise.all(r2.put())` uploads every reverted file
- *    to `sites/{slug}/{version}/{filename}` with derived content-types.
- *    Latency = slowest file (parallel writes).
- * 3. **Manifest + D1 pointer flip** — write `_manifest.json` with the new
- *    version + ISO timestamp, then atomic D1 UPDATE flipping
- *    `current_build_version` and setting `status='published'`. Once D1
- *    commits, public traffic immediately serves the reverted version on
- *    next KV miss (cache TTL 60s).
- * 4. **D1 snapshot row + audit log** — insert `site_snapshots` row tagged
- *    `revert-{first-8-chars-of-target-commit}` so the revert is itself
- *    listable + revertable.
- *
- * Cache invalidation: best-effort KV delete on `host:{slug}{SITES_SUFFIX}`
- * (silently swallowed via `.catch(() => {})`). Worst case: 60s of stale
- * served pages before TTL expiry.
- *
- * No locking — concurrent reverts on the same site will both succeed but
- * the second-committer wins the D1 pointer race. Acceptable because (a)
- * revert is a rare/manual operation and (b) the losing commit is still
- * in R2 git history and listable as a snapshot.
- *
- * @throws {AppError} 400 BAD_REQUEST — `commit_id` missing or empty.
- * @throws {AppError} 401 UNAUTHORIZED — missing/invalid Bearer.
- * @throws {AppError} 404 NOT_FOUND — site does not exist in caller's org.
- * @throws {Error} - Bubbles from `revertToSnapshot()` when target commit
- *   doesn't exist in R2 git history. R2 .put() errors during stage 2 leave
- *   partial files at `sites/{slug}/{version}/` — these get orphaned but
- *   are harmless because the manifest is written only after all uploads
- *   succeed.
- *
- * @example
- * ```bash
- * # 1. List history to find target commit
- * curl -H "Authorization: Bearer $TOKEN" \
- *   https://projectsites.dev/api/sites/$SITE_ID/git/history
- * # → [{ id: "a1b2c3d4...", message: "...", timestamp: "..." }, ...]
+ * Read who can view a site and each of its snapshots. Password hashes and
+ * cookie secrets never leave the worker; `has_password` says whether one is set.
  *
- * # 2. Revert to chosen commit
- * curl -X POST -H "Authorization: Bearer $TOKEN" \
- *   -H "Content-Type: application/json" \
- *   -d '{ "commit_id": "a1b2c3d4..." }' \
- *   https://projectsites.dev/api/sites/$SITE_ID/snapshots/revert
- * # → { data: { commit_id: "newSHA...", version: "v1735012345678",
- * #            files_restored: 42, snapshot_id: "uuid..." } }
- * ```
+ * @route GET /api/sites/:siteId/access
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 `{ data: { visibility, has_password, snapshots: [{ id,
+ *   snapshot_name, visibility, has_password }] } }`. A snapshot `visibility`
+ *   of `null` inherits the site's.
+ * @throws NOT_FOUND — site missing or owned by another org.
  */
-api.post('/api/sites/:siteId/snapshots/revert', async (c) => {
+api.get('/api/sites/:siteId/access', async (c) => {
   const orgId = c.get('orgId');
-  const userId = c.get('userId');
   if (!orgId) throw unauthorized('Must be authenticated');
   const siteId = c.req.param('siteId');
-  const body = (await c.req.json()) as { commit_id: string };
-
-  if (!body.commit_id?.trim()) {
-    throw badRequest('commit_id is required');
-  }
 
-  // Verify site ownership
-  const { dbQueryOne: dbq1 } = await import('../services/db.js');
-  const site = await dbq1<{ slug: string; current_build_version: string | null }>(
+  const site = await dbQueryOne<{ visibility: string | null; access_password_hash: string | null }>(
     c.env.DB,
-    'SELECT slug, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    'SELECT visibility, access_password_hash FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
     [siteId, orgId],
   );
   if (!site) throw notFound('Site not found');
 
-  // Perform the revert via git service
-  const { revertToSnapshot } = await import('../services/git.js');
-  const result = await revertToSnapshot(
-    c.env.SITES_BUCKET,
-    site.slug,
-    body.commit_id.trim(),
-    userId ?? 'unknown',
+  const { data: snapshots } = await dbQuery<{
+    id: string;
+    snapshot_name: string;
+    visibility: string | null;
+    access_password_hash: string | null;
+  }>(
+    c.env.DB,
+    `SELECT id, snapshot_name, visibility, access_password_hash FROM site_snapshots
+     WHERE site_id = ? AND deleted_at IS NULL ORDER BY created_at DESC`,
+    [siteId],
   );
 
-  // Deploy reverted files to a new R2 version path
-  const version = `v${Date.now()}`;
-  const uploadPromises = result.files.map((f) =>
+  return c.json({
+    data: {
+      visibility: site.visibility ?? 'public',
+      has_password: Boolean(site.access_password_hash),
+      snapshots: snapshots.map((s) => ({
+        id: s.id,
+        snapshot_name: s.snapshot_name,
+        visibility: s.visibility,
+        has_password: Boolean(s.access_password_hash),
+      })),
+    },
+  });
+});
+
+/**
+ * Change who can view a site, or one of its snapshots.
+ *
+ * @route PUT /api/sites/:siteId/access
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ visibility: 'public' | 'password' | 'members' |
+ *   'inherit', password?: string, snapshot_id?: string }`. A password (8–128
+ *   chars) is required when switching to `password`; when the target is
+ *   already password-protected, omitting it keeps the current one. `inherit`
+ *   is for snapshots only.
+ * @returns 200 `{ data: { visibility, has_password, snapshot_id } }`.
+ * @throws BAD_REQUEST — invalid body, missing password, or `inherit` on the site.
+ * @throws NOT_FOUND — site or snapshot missing.
+ *
+ * @remarks
+ * Every save replaces the target's `access_secret`, signing out visitors who
+ * had access. Password changes and visibility changes are audited
+ * (`site.password_changed`, `site.visibility_changed`); the password itself
+ * is only stored as a PBKDF2 hash. Host cache entries for the site and its
+ * inheriting snapshots are dropped; custom-domain entries expire within 60 s.
+ */
+api.put('/api/sites/:siteId/access', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const siteId = c.req.param('siteId');
+  const input = updateSiteAccessSchema.parse(await c.req.json());
+
+  const site = await dbQueryOne<{
+    slug: string;
+    visibility: string | null;
+    access_password_hash: string | null;
+  }>(
+    c.env.DB,
+    'SELECT slug, visibility, access_password_hash FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  let snapshot: {
+    id: string;
+    snapshot_name: string;
+    visibility: string | null;
+    access_password_hash: string | null;
+  } | null = null;
+  if (input.snapshot_id) {
+    snapshot = await dbQueryOne(
+      c.env.DB,
+      'SELECT id, snapshot_name, visibility, access_password_hash FROM site_snapshots WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+      [input.snapshot_id, siteId],
+    );
+    if (!snapshot) throw notFound('Snapshot not found');
+  } else if (input.visibility === 'inherit') {
+    throw badRequest('Only snapshots can inherit the site visibility');
+  }
+
+  const target = snapshot ?? site;
+  const previous = target.visibility ?? (snapshot ? 'inherit' : 'public');
+  if (input.password && input.visibility !== 'password') {
+    throw badRequest('A password can only be set with password visibility');
+  }
+  if (
+    input.visibility === 'password' &&
+    !input.password &&
+    !(previous === 'password' && target.access_password_hash)
+  ) {
+    throw badRequest('A password is required to password-protect the site');
+  }
+
+  const { hashAccessPassword } = await import('../services/site_access.js');
+  const { randomHex } = await import('@project-sites/shared');
+  const gated = input.visibility === 'password' || input.visibility === 'members';
+  const passwordHash =
+    input.visibility !== 'password'
+      ? null
+      : input.password
+        ? await hashAccessPassword(input.password)
+        : target.access_password_hash;
+
+  await c.env.DB.prepare(
+    `UPDATE ${snapshot ? 'site_snapshots' : 'sites'}
+     SET visibility = ?, access_password_hash = ?, access_secret = ?, updated_at = datetime('now')
+     WHERE id = ?`,
+  )
+    .bind(
+      input.visibility === 'inherit' ? null : input.visibility,
+      passwordHash,
+      // A fresh secret invalidates every access cookie issued so far
+      gated ? randomHex(32) : null,
+      snapshot ? snapshot.id : siteId,
+    )
+    .run();
+
+  const hosts = snapshot
+    ? [`${site.slug}-${snapshot.snapshot_name}`]
+    : [
+        site.slug,
+        ...(
+          await dbQuery<{ snapshot_name: string }>(
+            c.env.DB,
+            'SELECT snapshot_name FROM site_snapshots WHERE site_id = ? AND visibility IS NULL AND deleted_at IS NULL',
+            [siteId],
+          )
+        ).data.map((s) => `${site.slug}-${s.snapshot_name}`),
+      ];
+  await Promise.all(
+    hosts.map((host) =>
+      c.env.CACHE_KV.delete(`host:${host}${DOMAINS.SITES_SUFFIX}`).catch(() => {}),
+    ),
+  );
+
+  const where = snapshot ? ` for snapshot "${snapshot.snapshot_name}"` : '';
+  if (previous !== input.visibility) {
+    await auditService
+      .writeAuditLog(c.env.DB, {
+        org_id: orgId,
+        actor_id: c.get('userId') ?? null,
+        action: 'site.visibility_changed',
+        target_type: 'site',
+        target_id: siteId,
+        metadata_json: {
+          from: previous,
+          to: input.visibility,
+          snapshot_id: snapshot?.id ?? null,
+          message: `Visibility changed from ${previous} to ${input.visibility}${where}`,
+        },
+        request_id: c.get('requestId'),
+      })
+      .catch(() => {});
+  }
+  if (input.password) {
+    await auditService
+      .writeAuditLog(c.env.DB, {
+        org_id: orgId,
+        actor_id: c.get('userId') ?? null,
+        action: 'site.password_changed',
+        target_type: 'site',
+        target_id: siteId,
+        metadata_json: {
+          snapshot_id: snapshot?.id ?? null,
+          message: `Site password ${target.access_password_hash ? 'changed' : 'set'}${where}`,
+        },
+        request_id: c.get('requestId'),
+      })
+      .catch(() => {});
+  }
+
+  return c.json({
+    data: {
+      visibility: input.visibility,
+      has_password: Boolean(passwordHash),
+      snapshot_id: snapshot?.id ?? null,
+    },
+  });
+});
+
+// ── Git-based Snapshot System ─────────────────────────────────────
+
+/**
+ * Revert a site to an earlier R2 git snapshot, creating a forward-rolling
+ * "revert commit" rather than rewriting history. The original commits
+ * remain intact in the chain — undoing the revert is itself a revert.
+ *
+ * @route POST /api/sites/:siteId/snapshots/revert
+ * @auth Bearer token (org-scoped)
+ *
+ * @body {{ commit_id: string }} - SHA-like commit identifier from
+ *   `GET /api/sites/:siteId/git/history`. Trimmed and required.
+ *
+ * @returns 200 with `{ data: { commit_id, version, files_restored,
+ *   snapshot_id } }`. `commit_id` is the NEW revert-commit SHA (not the
+ *   target). `version` is the new R2 path component (`v${Date.now()}`).
+ *   `snapshot_id` is the D1 row tagged `revert-{first-8-chars}`.
+ *
+ * @remarks
+ * Four-stage flow (all stages must succeed or partial state is left for
+ * the next call to clean up):
+ * 1. **Git revert** — `revertToSnapshot()` reads the target commit's
+ *    file blobs from R2, computes the forward-rolling revert commit, and
+ *    writes the new commit object to R2 git history.
+ * 2. **R2 publish** — `Promise.all(r2.put())` uploads every reverted file
+ *    to `sites/{slug}/{version}/{filename}` with derived content-types.
+ *    Latency = slowest file (parallel writes).
+ * 3. **Manifest + D1 pointer flip** — write `_manifest.json` with the new
+ *    version + ISO timestamp, then atomic D1 UPDATE flipping
+ *    `current_build_version` and setting `status='published'`. Once D1
+ *    commits, public traffic immediately serves the reverted version on
+ *    next KV miss (cache TTL 60s).
+ * 4. **D1 snapshot row + audit log** — insert `site_snapshots` row tagged
+ *    `revert-{first-8-chars-of-target-commit}` so the revert is itself
+ *    listable + revertable.
+ *
+ * Cache invalidation: best-effort KV delete on `host:{slug}{SITES_SUFFIX}`
+ * (silently swallowed via `.catch(() => {})`). Worst case: 60s of stale
+ * served pages before TTL expiry.
+ *
+ * No locking — concurrent reverts on the same site will both succeed but
+ * the second-committer wins the D1 pointer race. Acceptable because (a)
+ * revert is a rare/manual operation and (b) the losing commit is still
+ * in R2 git history and listable as a snapshot.
+ *
+ * @throws {AppError} 400 BAD_REQUEST — `commit_id` missing or empty.
+ * @throws {AppError} 401 UNAUTHORIZED — missing/invalid Bearer.
+ * @throws {AppError} 404 NOT_FOUND — site does not exist in caller's org.
+ * @throws {Error} - Bubbles from `revertToSnapshot()` when target commit
+ *   doesn't exist in R2 git history. R2 .put() errors during stage 2 leave
+ *   partial files at `sites/{slug}/{version}/` — these get orphaned but
+ *   are harmless because the manifest is written only after all uploads
+ *   succeed.
+ *
+ * @example
+ * ```bash
+ * # 1. List history to find target commit
+ * curl -H "Authorization: Bearer $TOKEN" \
+ *   https://projectsites.dev/api/sites/$SITE_ID/git/history
+ * # → [{ id: "a1b2c3d4...", message: "...", timestamp: "..." }, ...]
+ *
+ * # 2. Revert to chosen commit
+ * curl -X POST -H "Authorization: Bearer $TOKEN" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{ "commit_id": "a1b2c3d4..." }' \
+ *   https://projectsites.dev/api/sites/$SITE_ID/snapshots/revert
+ * # → { data: { commit_id: "newSHA...", version: "v1735012345678",
+ * #            files_restored: 42, snapshot_id: "uuid..." } }
+ * ```
+ */
+api.post('/api/sites/:siteId/snapshots/revert', async (c) => {
+  const orgId = c.get('orgId');
+  const userId = c.get('userId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const siteId = c.req.param('siteId');
+  const body = (await c.req.json()) as { commit_id: string };
+
+  if (!body.commit_id?.trim()) {
+    throw badRequest('commit_id is required');
+  }
+
+  // Verify site ownership
+  const { dbQueryOne: dbq1 } = await import('../services/db.js');
+  const site = await dbq1<{ slug: string; current_build_version: string | null }>(
+    c.env.DB,
+    'SELECT slug, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  // Perform the revert via git service
+  const { revertToSnapshot } = await import('../services/git.js');
+  const result = await revertToSnapshot(
+    c.env.SITES_BUCKET,
+    site.slug,
+    body.commit_id.trim(),
+    userId ?? 'unknown',
+  );
+
+  // Deploy reverted files to a new R2 version path
+  const version = `v${Date.now()}`;
+  const uploadPromises = result.files.map((f) =>
     c.env.SITES_BUCKET.put(`sites/${site.slug}/${version}/${f.name}`, f.content, {
       httpMetadata: { contentType: guessContentTypeForRevert(f.name) },
     }),
@@ -5632,6 +7042,7 @@ api.post('/api/sites/:siteId/snapshots/revert', async (c) => {
     build_version: version,
     description: `Reverted to commit ${body.commit_id.substring(0, 8)}`,
     created_by: userId || null,
+    auto: 1,
   });
 
   // Invalidate KV cache
@@ -5849,6 +7260,708 @@ api.get('/api/sites/:siteId/git/commits/:commitId', async (c) => {
   return c.json({ data: commit });
 });
 
+// ── Scheduled Version Switches ─────────────────────────────────────
+
+const SCHEDULE_STATUSES = ['pending', 'running', 'done', 'failed', 'canceled'] as const;
+
+/** Org-scoped site row for the schedule and translation routes. */
+async function loadScheduleSite(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  siteId: string,
+): Promise<{ id: string; org_id: string; slug: string }> {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await dbQueryOne<{ id: string; org_id: string; slug: string }>(
+    c.env.DB,
+    'SELECT id, org_id, slug FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+  return site;
+}
+
+/**
+ * List a site's scheduled version switches: pending ones first, soonest
+ * first, then the history (done, failed, canceled).
+ *
+ * @route GET /api/sites/:siteId/schedules
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @query status - Optional filter: `pending`, `running`, `done`, `failed`
+ *   or `canceled`.
+ * @returns 200 `{ data: VersionSchedule[] }`. Rollbacks queued by a switch
+ *   with `revert_at` appear as `target_type: 'version'` rows whose
+ *   `parent_id` is the switch.
+ */
+api.get('/api/sites/:siteId/schedules', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const status = c.req.query('status');
+  if (status && !(SCHEDULE_STATUSES as readonly string[]).includes(status)) {
+    throw badRequest(`status must be one of ${SCHEDULE_STATUSES.join(', ')}`);
+  }
+  const { listVersionSchedules } = await import('../services/version_schedules.js');
+  const schedules = await listVersionSchedules(
+    c.env.DB,
+    site.id,
+    status as (typeof SCHEDULE_STATUSES)[number] | undefined,
+  );
+  return c.json({ data: schedules });
+});
+
+/**
+ * Schedule the live site to switch to a named snapshot or git commit, and
+ * optionally switch back later. The cron runs due switches every 5 minutes.
+ *
+ * @route POST /api/sites/:siteId/schedules
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ target_type: 'snapshot' | 'commit', target,
+ *   run_at, revert_at? }`. Times are ISO 8601 with an offset, at most a year
+ *   ahead; `revert_at` must be after `run_at`.
+ * @returns 201 `{ data: VersionSchedule }`.
+ * @throws BAD_REQUEST — invalid times or 50 switches already pending.
+ * @throws NOT_FOUND — site, snapshot or commit missing.
+ *
+ * @example
+ * ```bash
+ * # Holiday menu at midnight, back to the regular site on Jan 2
+ * curl -X POST -H "Authorization: Bearer $TOKEN" \
+ *   -d '{"target_type":"snapshot","target":"holiday","run_at":"2026-12-24T00:00:00-05:00","revert_at":"2027-01-02T00:00:00-05:00"}' \
+ *   https://projectsites.dev/api/sites/$SITE_ID/schedules
+ * ```
+ */
+api.post('/api/sites/:siteId/schedules', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const input = createVersionScheduleSchema.parse(await c.req.json());
+  const { createVersionSchedule } = await import('../services/version_schedules.js');
+  const schedule = await createVersionSchedule(c.env, site, input, c.get('userId') ?? null);
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.version_switch_scheduled',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        schedule_id: schedule.id,
+        target_type: schedule.target_type,
+        target: schedule.target,
+        run_at: schedule.run_at,
+        revert_at: schedule.revert_at,
+        message: `Switch to ${schedule.target_type} ${schedule.target} scheduled for ${schedule.run_at}`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: schedule }, 201);
+});
+
+/**
+ * Move a pending switch, or change / drop its rollback time.
+ *
+ * @route PATCH /api/sites/:siteId/schedules/:scheduleId
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ run_at?, revert_at? }` — `revert_at: null`
+ *   drops the rollback.
+ * @returns 200 `{ data: VersionSchedule }`.
+ * @throws BAD_REQUEST — invalid times, or the switch is no longer pending.
+ * @throws NOT_FOUND — site or schedule missing.
+ */
+api.patch('/api/sites/:siteId/schedules/:scheduleId', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const input = rescheduleVersionScheduleSchema.parse(await c.req.json());
+  const { rescheduleVersionSchedule } = await import('../services/version_schedules.js');
+  const { before, after } = await rescheduleVersionSchedule(
+    c.env.DB,
+    site.id,
+    c.req.param('scheduleId'),
+    input,
+  );
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.version_switch_rescheduled',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        schedule_id: after.id,
+        from: { run_at: before.run_at, revert_at: before.revert_at },
+        to: { run_at: after.run_at, revert_at: after.revert_at },
+        message: `Switch to ${after.target_type} ${after.target} moved to ${after.run_at}`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: after });
+});
+
+/**
+ * Cancel a pending switch. Switches that already ran are undone by
+ * scheduling (or running) another switch, not by canceling.
+ *
+ * @route DELETE /api/sites/:siteId/schedules/:scheduleId
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 `{ data: VersionSchedule }` with `status: 'canceled'`.
+ * @throws BAD_REQUEST — the switch is no longer pending.
+ * @throws NOT_FOUND — site or schedule missing.
+ */
+api.delete('/api/sites/:siteId/schedules/:scheduleId', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { cancelVersionSchedule } = await import('../services/version_schedules.js');
+  const schedule = await cancelVersionSchedule(c.env.DB, site.id, c.req.param('scheduleId'));
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.version_switch_canceled',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        schedule_id: schedule.id,
+        target_type: schedule.target_type,
+        target: schedule.target,
+        run_at: schedule.run_at,
+        message: `Canceled the switch to ${schedule.target_type} ${schedule.target}`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: schedule });
+});
+
+// ── Site Translations ──────────────────────────────────────────────
+
+/**
+ * List the languages a site is translated into, with each one's progress.
+ *
+ * @route GET /api/sites/:siteId/languages
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 `{ data: { default_language, languages: SiteLanguageRow[],
+ *   available } }` — `available` maps each supported code to its name.
+ *   A language is live once `build_version` equals the site's live version.
+ */
+api.get('/api/sites/:siteId/languages', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { listSiteLanguages } = await import('../services/site_translation.js');
+  const languages = await listSiteLanguages(c.env.DB, site.id);
+  return c.json({
+    data: { default_language: DEFAULT_SITE_LANGUAGE, languages, available: SITE_LANGUAGES },
+  });
+});
+
+/**
+ * Translate the site into another language. The cron translates the live
+ * version within a few minutes and keeps it translated as new versions are
+ * published. Posting an existing language translates it again.
+ *
+ * @route POST /api/sites/:siteId/languages
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ language }` — a key of `SITE_LANGUAGES`.
+ * @returns 202 `{ data: SiteLanguageRow }` with `status: 'pending'`.
+ * @throws BAD_REQUEST — unsupported language, or the site already has 5.
+ * @throws NOT_FOUND — site missing.
+ */
+api.post('/api/sites/:siteId/languages', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { language: lang } = addSiteLanguageSchema.parse(await c.req.json());
+  const { addSiteLanguage } = await import('../services/site_translation.js');
+  const { language, created } = await addSiteLanguage(
+    c.env.DB,
+    site,
+    lang,
+    c.get('userId') ?? null,
+  );
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.language_added',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        language: lang,
+        created,
+        message: created
+          ? `Added ${SITE_LANGUAGES[lang]} translation`
+          : `Queued ${SITE_LANGUAGES[lang]} translation again`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: language }, 202);
+});
+
+/**
+ * Stop serving a language and delete its overrides.
+ *
+ * @route DELETE /api/sites/:siteId/languages/:lang
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 `{ data: SiteLanguageRow }` — the removed row.
+ * @throws NOT_FOUND — site or language missing.
+ */
+api.delete('/api/sites/:siteId/languages/:lang', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { removeSiteLanguage } = await import('../services/site_translation.js');
+  const language = await removeSiteLanguage(c.env, site, c.req.param('lang'));
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.language_removed',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        language: language.lang,
+        message: `Removed ${SITE_LANGUAGES[language.lang] ?? language.lang} translation`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: language });
+});
+
+/**
+ * Every translatable string of the site with its machine translation and
+ * the owner's override, for reviewing a language.
+ *
+ * @route GET /api/sites/:siteId/languages/:lang/strings
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 `{ data: Array<{ source, translation, override }> }`.
+ *   `translation` is null for overrides of strings not translated yet.
+ * @throws NOT_FOUND — site or language missing.
+ */
+api.get('/api/sites/:siteId/languages/:lang/strings', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { listTranslationStrings } = await import('../services/site_translation.js');
+  const strings = await listTranslationStrings(c.env, site, c.req.param('lang'));
+  return c.json({ data: strings });
+});
+
+/**
+ * Replace the machine translation of one string. Pages are re-rendered on
+ * the next cron run without calling the model.
+ *
+ * @route PUT /api/sites/:siteId/languages/:lang/strings
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ source, text }` — `source` is the English
+ *   string as listed by `GET …/strings`.
+ * @returns 200 `{ data: { source, text } }`.
+ * @throws NOT_FOUND — site or language missing.
+ */
+api.put('/api/sites/:siteId/languages/:lang/strings', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const input = translationOverrideSchema.parse(await c.req.json());
+  const { setTranslationOverride } = await import('../services/site_translation.js');
+  const lang = c.req.param('lang');
+  const { source, text, previous } = await setTranslationOverride(
+    c.env.DB,
+    site.id,
+    lang,
+    input,
+    c.get('userId') ?? null,
+  );
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.translation_overridden',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        language: lang,
+        source,
+        text,
+        previous,
+        message: `Overrode the ${lang} translation of "${source.slice(0, 80)}"`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: { source, text } });
+});
+
+/**
+ * Drop an override so the machine translation is served again.
+ *
+ * @route DELETE /api/sites/:siteId/languages/:lang/strings
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body application/json `{ source }`.
+ * @returns 200 `{ data: { source, text } }` — the removed override.
+ * @throws NOT_FOUND — site, language or override missing.
+ */
+api.delete('/api/sites/:siteId/languages/:lang/strings', async (c) => {
+  const site = await loadScheduleSite(c, c.req.param('siteId'));
+  const { source: sourceText } = deleteTranslationOverrideSchema.parse(await c.req.json());
+  const { deleteTranslationOverride } = await import('../services/site_translation.js');
+  const lang = c.req.param('lang');
+  const removed = await deleteTranslationOverride(c.env.DB, site.id, lang, sourceText);
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: site.org_id,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.translation_override_removed',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        language: lang,
+        source: removed.source,
+        message: `Removed the ${lang} override of "${removed.source.slice(0, 80)}"`,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: removed });
+});
+
+// ── Site Branches ──────────────────────────────────────────────────
+
+/** Org-scoped site row for the branch routes. */
+async function loadBranchSite(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  siteId: string,
+): Promise<{ id: string; slug: string; org_id: string; current_build_version: string | null }> {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await dbQueryOne<{
+    id: string;
+    slug: string;
+    org_id: string;
+    current_build_version: string | null;
+  }>(
+    c.env.DB,
+    'SELECT id, slug, org_id, current_build_version FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+  return site;
+}
+
+/**
+ * Branch an edit goes to: `requested` when given, otherwise the site's
+ * current branch (see `POST /git/branches/:name/switch`).
+ *
+ * @returns `null` for `main` — the edit is written to the live site as before.
+ */
+async function resolveEditBranch(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  slug: string,
+  requested: string | undefined,
+): Promise<string | null> {
+  const { getCurrentBranch, DEFAULT_BRANCH } = await import('../services/git.js');
+  const branch = requested
+    ? branchNameSchema.parse(requested)
+    : await getCurrentBranch(c.env.SITES_BUCKET, slug);
+  return branch === DEFAULT_BRANCH ? null : branch;
+}
+
+/**
+ * Commit an edit made against `baseCommit` to `branch`, or to `main` when
+ * `branch` is `null`. Anything committed since the base is three-way merged
+ * in (`services/git.commitOnBase`). `main` is brought up to date with the
+ * live site first and the merged result is published.
+ *
+ * @throws CONFLICT — overlapping edits. Nothing is written; `details` has
+ *   `head_commit` (the base to resolve against), per-file `conflicts` with
+ *   `{ base_start, base, head, incoming }` line hunks and the marked-up
+ *   `content`, and the cleanly `merged` files to resubmit with the fixes.
+ *   The hunks appear in `content` in order, one marker block each.
+ * @throws BAD_REQUEST — `baseCommit` is not in the branch's history.
+ * @throws QUOTA_EXCEEDED — the commit would take the org past its storage quota.
+ */
+async function commitEditOnBase(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  site: { id: string; slug: string; org_id: string; current_build_version: string | null },
+  branch: string | null,
+  baseCommit: string,
+  changes: { write?: GitFile[]; remove?: string[] },
+  message: string,
+): Promise<{ branch: string; commitId: string; merged: string[]; version: string | null }> {
+  const { commitOnBase, DEFAULT_BRANCH } = await import('../services/git.js');
+  const { publishCommit, syncMainWithLive } = await import('../services/site_branches.js');
+
+  if (!branch) {
+    await syncMainWithLive(c.env.SITES_BUCKET, site.slug, site.current_build_version);
+  }
+  const target = branch ?? DEFAULT_BRANCH;
+  const result = await commitOnBase(
+    meteredBucket(c.env.SITES_BUCKET, c.env.DB, site.org_id),
+    site.slug,
+    target,
+    uuidSchema.parse(baseCommit),
+    changes,
+    message,
+    c.get('userId') ?? 'unknown',
+  );
+  if (!result.commitId) {
+    throw conflict('Edit conflicts with changes made since it was loaded', {
+      head_commit: result.headId,
+      merged: result.merged.map((f) => ({ file: f.name, content: f.content })),
+      conflicts: result.conflicts.map((f) => ({
+        file: f.name,
+        content: f.content,
+        hunks: f.hunks.map((h) => ({
+          base_start: h.baseStart,
+          base: h.base,
+          head: h.head,
+          incoming: h.incoming,
+        })),
+      })),
+    });
+  }
+
+  const version = branch ? null : (await publishCommit(c.env, site, result.commitId)).version;
+  return {
+    branch: target,
+    commitId: result.commitId,
+    merged: result.merged.map((f) => f.name),
+    version,
+  };
+}
+
+/**
+ * List a site's branches. `main` is the live site and always comes first;
+ * every other branch carries the URL it is previewed at.
+ *
+ * @route GET /api/sites/:siteId/git/branches
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 OK `{ data: Array<{ name, commit_id, current, preview_url }> }`.
+ *   `preview_url` is `null` for `main` (it is served at the site's own
+ *   hostnames); `commit_id` is `null` while `main` has no commits.
+ */
+api.get('/api/sites/:siteId/git/branches', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const { listBranches, DEFAULT_BRANCH } = await import('../services/git.js');
+  const { previewUrl } = await import('../services/site_branches.js');
+
+  const branches = await listBranches(c.env.SITES_BUCKET, site.slug);
+  return c.json({
+    data: branches.map((b) => ({
+      name: b.name,
+      commit_id: b.commitId,
+      current: b.current,
+      preview_url: b.name === DEFAULT_BRANCH ? null : previewUrl(b.name, site.slug),
+    })),
+  });
+});
+
+/**
+ * Start an edit session: bring `main` up to date with the live build
+ * version (importing it as a commit after a rebuild or ZIP deploy) and
+ * return the commit the live site is at, for the editor to send back as
+ * `base_commit` with its next save or publish.
+ *
+ * A POST because the import writes a commit; the file GET routes only
+ * report the commit when `main` is already in step.
+ *
+ * @route POST /api/sites/:siteId/git/base
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 OK `{ data: { commit_id } }`; `commit_id` is `null` for a
+ *   site that has never been published.
+ */
+api.post('/api/sites/:siteId/git/base', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const { syncMainWithLive } = await import('../services/site_branches.js');
+
+  const commitId = await syncMainWithLive(
+    c.env.SITES_BUCKET,
+    site.slug,
+    site.current_build_version,
+  );
+  return c.json({ data: { commit_id: commitId } });
+});
+
+/**
+ * Create a branch for work in progress. Branching from `main` first
+ * imports the live build version if the git history is behind it, so the
+ * branch always starts from what visitors see.
+ *
+ * @route POST /api/sites/:siteId/git/branches
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body `{ name, from? }` — `createBranchSchema`; `from` defaults to `main`.
+ * @returns 201 Created `{ data: { name, commit_id, preview_url } }`.
+ * @throws CONFLICT — a branch with that name exists.
+ * @throws NOT_FOUND — site missing, or `from` has no commits (e.g. the site
+ *   has never been published).
+ *
+ * @remarks
+ * The preview at `{name}--{slug}.projectsites.dev` works immediately — no
+ * files are copied; the branch shares blobs with its source until edited.
+ */
+api.post('/api/sites/:siteId/git/branches', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const input = createBranchSchema.parse(await c.req.json());
+  const { createBranch, DEFAULT_BRANCH } = await import('../services/git.js');
+  const { previewUrl, syncMainWithLive } = await import('../services/site_branches.js');
+
+  const from = input.from ?? DEFAULT_BRANCH;
+  if (from === DEFAULT_BRANCH) {
+    await syncMainWithLive(c.env.SITES_BUCKET, site.slug, site.current_build_version);
+  }
+  const commitId = await createBranch(c.env.SITES_BUCKET, site.slug, input.name, from);
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId')!,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.branch_created',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: { branch: input.name, from, commit_id: commitId },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json(
+    {
+      data: {
+        name: input.name,
+        commit_id: commitId,
+        preview_url: previewUrl(input.name, site.slug),
+      },
+    },
+    201,
+  );
+});
+
+/**
+ * Make a branch the site's current branch. Editor saves
+ * (`PUT/DELETE /api/sites/:id/files/:path`) and AI edits
+ * (`POST /api/sites/:id/publish-bolt`) that do not name a branch go here.
+ * Switching to `main` restores direct edits to the live site.
+ *
+ * @route POST /api/sites/:siteId/git/branches/:name/switch
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 OK `{ data: { current: name } }`.
+ * @throws NOT_FOUND — site or branch missing.
+ */
+api.post('/api/sites/:siteId/git/branches/:name/switch', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const name = branchNameSchema.parse(c.req.param('name'));
+  const { switchBranch } = await import('../services/git.js');
+
+  await switchBranch(c.env.SITES_BUCKET, site.slug, name);
+  return c.json({ data: { current: name } });
+});
+
+/**
+ * Fast-forward merge a branch. Merging into `main` (the default) publishes
+ * the branch tip as a new build version, so the reviewed preview becomes
+ * the live site.
+ *
+ * @route POST /api/sites/:siteId/git/branches/:name/merge
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @body `{ into? }` — `mergeBranchSchema`; defaults to `main`.
+ * @returns 200 OK `{ data: { commit_id, fast_forward, version } }`.
+ *   `fast_forward: false` means the target already had every commit and
+ *   nothing changed; `version` is the new build version when `main` was
+ *   published, otherwise `null`.
+ * @throws CONFLICT — the target has commits the branch does not (for
+ *   `main`, the live site was rebuilt or edited after the branch was cut).
+ * @throws NOT_FOUND — site or branch missing.
+ *
+ * @remarks
+ * The branch is kept after merging so its preview URL keeps working;
+ * delete it explicitly when done.
+ */
+api.post('/api/sites/:siteId/git/branches/:name/merge', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const name = branchNameSchema.parse(c.req.param('name'));
+  const input = mergeBranchSchema.parse(await c.req.json().catch(() => ({})));
+  const { mergeBranch, DEFAULT_BRANCH } = await import('../services/git.js');
+  const { publishCommit, syncMainWithLive } = await import('../services/site_branches.js');
+
+  const into = input.into ?? DEFAULT_BRANCH;
+  if (name === into) throw badRequest('Cannot merge a branch into itself');
+  if (into === DEFAULT_BRANCH) {
+    await syncMainWithLive(c.env.SITES_BUCKET, site.slug, site.current_build_version);
+  }
+
+  // Publish before `main` moves so a failed publish leaves it at the live commit
+  let version: string | null = null;
+  const result = await mergeBranch(
+    c.env.SITES_BUCKET,
+    site.slug,
+    name,
+    into,
+    into === DEFAULT_BRANCH
+      ? async (commitId) => {
+          version = (await publishCommit(c.env, site, commitId)).version;
+        }
+      : undefined,
+  );
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId')!,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.branch_merged',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: {
+        branch: name,
+        into,
+        commit_id: result.commitId,
+        fast_forward: result.fastForward,
+        version,
+      },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({
+    data: { commit_id: result.commitId, fast_forward: result.fastForward, version },
+  });
+});
+
+/**
+ * Delete a branch. Its preview hostname stops resolving (within the 60 s
+ * hostname cache) and edits fall back to `main` if it was current.
+ *
+ * @route DELETE /api/sites/:siteId/git/branches/:name
+ * @auth Bearer orgId required — cross-org access collapses to 404.
+ * @returns 200 OK `{ data: { deleted: true } }`.
+ * @throws BAD_REQUEST — `main` cannot be deleted.
+ * @throws NOT_FOUND — site or branch missing.
+ */
+api.delete('/api/sites/:siteId/git/branches/:name', async (c) => {
+  const site = await loadBranchSite(c, c.req.param('siteId'));
+  const name = branchNameSchema.parse(c.req.param('name'));
+  const { deleteBranch } = await import('../services/git.js');
+  const { PREVIEW_SEPARATOR } = await import('../services/site_branches.js');
+
+  await deleteBranch(c.env.SITES_BUCKET, site.slug, name);
+  await c.env.CACHE_KV.delete(
+    `host:${name}${PREVIEW_SEPARATOR}${site.slug}${DOMAINS.SITES_SUFFIX}`,
+  ).catch(() => {});
+
+  await auditService
+    .writeAuditLog(c.env.DB, {
+      org_id: c.get('orgId')!,
+      actor_id: c.get('userId') ?? null,
+      action: 'site.branch_deleted',
+      target_type: 'site',
+      target_id: site.id,
+      metadata_json: { branch: name },
+      request_id: c.get('requestId'),
+    })
+    .catch(() => {});
+
+  return c.json({ data: { deleted: true } });
+});
+
 // ─── Google Sheets Data Routes ──────────────────────────────
 
 /**
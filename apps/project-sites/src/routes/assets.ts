@@ -8,6 +8,7 @@
 
 import { Hono } from 'hono';
 import type { Env, Variables } from '../types/env.js';
+import { assertStorageAvailable, meteredBucket } from '../services/storage_usage.js';
 
 const assets = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -21,6 +22,10 @@ const assets = new Hono<{ Bindings: Env; Variables: Variables }>();
  *
  * Stores to R2 at `uploads/{upload_id}/{filename}`.
  * Returns `upload_id` and asset metadata.
+ *
+ * Uploads count against the org's storage quota (`services/storage_usage.ts`).
+ * A form whose files would take the org past it is refused whole with 413
+ * `QUOTA_EXCEEDED` before anything is stored.
  */
 assets.post('/api/assets/upload', async (c) => {
   const orgId = c.get('orgId');
@@ -29,6 +34,7 @@ assets.post('/api/assets/upload', async (c) => {
   }
 
   const uploadId = crypto.randomUUID();
+  const bucket = meteredBucket(c.env.SITES_BUCKET, c.env.DB, orgId);
   const formData = await c.req.formData();
   const uploadedAssets: { key: string; name: string; size: number; type: string; url: string }[] =
     [];
@@ -46,6 +52,16 @@ assets.post('/api/assets/upload', async (c) => {
   const maxFileSize = 10 * 1024 * 1024; // 10MB per file
   const maxFiles = 25;
 
+  // Refuse the whole form up front rather than part-way through it
+  let formBytes = 0;
+  for (const [, value] of formData) {
+    if (typeof value === 'object' && value !== null && 'size' in value) {
+      const size = (value as File).size;
+      if (size <= maxFileSize) formBytes += size;
+    }
+  }
+  await assertStorageAvailable(c.env.DB, orgId, formBytes);
+
   const processFile = async (file: File, category: string): Promise<void> => {
     if (uploadedAssets.length >= maxFiles) return;
     if (file.size > maxFileSize) return;
@@ -56,9 +72,9 @@ assets.post('/api/assets/upload', async (c) => {
     const key = `uploads/${uploadId}/${category}/${safeName}`;
 
     const arrayBuffer = await file.arrayBuffer();
-    await c.env.SITES_BUCKET.put(key, arrayBuffer, {
+    await bucket.put(key, arrayBuffer, {
       httpMetadata: { contentType: file.type || 'application/octet-stream' },
-      customMetadata: { originalName: file.name, category, uploadId },
+      customMetadata: { originalName: file.name, category, uploadId, orgId },
     });
 
     uploadedAssets.push({
@@ -0,0 +1,183 @@
+/**
+ * @module routes/flags
+ * @description Feature flag evaluation for the Angular app and flag
+ * management for platform operators.
+ *
+ * ## Route Map
+ *
+ * | Method | Path                                   | Auth?          | Description                              |
+ * | ------ | -------------------------------------- | -------------- | ---------------------------------------- |
+ * | GET    | `/api/flags`                           | Optional       | `{ flag: boolean }` for the caller's org |
+ * | GET    | `/api/admin/flags`                     | Platform admin | Every flag with rules and org overrides  |
+ * | PUT    | `/api/admin/flags/:name`               | Platform admin | Create or replace a flag                 |
+ * | DELETE | `/api/admin/flags/:name`               | Platform admin | Delete a flag and its overrides          |
+ * | PUT    | `/api/admin/flags/:name/orgs/:orgId`   | Platform admin | Force the flag on/off for one org        |
+ * | DELETE | `/api/admin/flags/:name/orgs/:orgId`   | Platform admin | Remove an org override                   |
+ *
+ * Platform admins are listed in `PLATFORM_ADMIN_EMAILS`; org roles do not
+ * grant access because a flag affects every org. Evaluation rules live in
+ * `services/feature_flags.ts`.
+ *
+ * @packageDocumentation
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import {
+  flagNameSchema,
+  forbidden,
+  notFound,
+  setFlagOverrideSchema,
+  unauthorized,
+  upsertFeatureFlagSchema,
+  uuidSchema,
+} from '@project-sites/shared';
+import type { Env, Variables } from '../types/env.js';
+import { dbQueryOne } from '../services/db.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  clearFlagOverride,
+  deleteFlag,
+  evaluateFlagsForOrg,
+  isPlatformAdmin,
+  loadFlags,
+  setFlagOverride,
+  upsertFlag,
+} from '../services/feature_flags.js';
+
+const flags = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+type Ctx = Context<{ Bindings: Env; Variables: Variables }>;
+
+// ─── Evaluation ──────────────────────────────────────────────
+
+/**
+ * @route GET /api/flags
+ * @auth Optional — anonymous callers only see flags rolled out to everyone.
+ * @returns `{ data: { [flag]: boolean } }` for the caller's org.
+ */
+flags.get('/api/flags', async (c) => {
+  const data = await evaluateFlagsForOrg(c.env, c.get('orgId'));
+  c.header('Cache-Control', 'private, max-age=60');
+  return c.json({ data });
+});
+
+// ─── Administration ──────────────────────────────────────────
+
+/** Resolve the caller and require a platform operator. */
+async function requirePlatformAdmin(c: Ctx): Promise<string> {
+  const userId = c.get('userId');
+  if (!userId) throw unauthorized('Must be authenticated');
+  const user = await dbQueryOne<{ email: string | null }>(
+    c.env.DB,
+    'SELECT email FROM users WHERE id = ? AND deleted_at IS NULL',
+    [userId],
+  );
+  if (!isPlatformAdmin(c.env, user?.email)) {
+    throw forbidden('Feature flags are managed by platform admins');
+  }
+  return userId;
+}
+
+/** Best-effort audit row for a flag change, filed under the operator's org. */
+function auditFlag(
+  c: Ctx,
+  userId: string,
+  action: string,
+  flagName: string,
+  metadata: Record<string, unknown> = {},
+): Promise<void> {
+  return writeAuditLog(c.env.DB, {
+    org_id: c.get('orgId') ?? 'system',
+    actor_id: userId,
+    action,
+    target_type: 'feature_flag',
+    metadata_json: { flag: flagName, ...metadata },
+    request_id: c.get('requestId'),
+  }).catch(() => {});
+}
+
+/**
+ * @route GET /api/admin/flags
+ * @auth Platform admin.
+ * @returns `{ data: FeatureFlag[] }` sorted by name, overrides included.
+ */
+flags.get('/api/admin/flags', async (c) => {
+  await requirePlatformAdmin(c);
+  const all = await loadFlags(c.env);
+  return c.json({ data: Object.values(all).sort((a, b) => a.name.localeCompare(b.name)) });
+});
+
+/**
+ * @route PUT /api/admin/flags/:name
+ * @auth Platform admin.
+ * @body `{ enabled, rollout_percentage?, plans?, description? }` — `upsertFeatureFlagSchema`.
+ * @returns `{ data: { name, ...rules } }`.
+ * @remarks Replaces the rules wholesale; org overrides survive.
+ */
+flags.put('/api/admin/flags/:name', async (c) => {
+  const userId = await requirePlatformAdmin(c);
+  const name = flagNameSchema.parse(c.req.param('name'));
+  const input = upsertFeatureFlagSchema.parse(await c.req.json());
+  await upsertFlag(c.env, name, input);
+  await auditFlag(c, userId, 'flag.updated', name, input);
+  return c.json({ data: { name, ...input } });
+});
+
+/**
+ * @route DELETE /api/admin/flags/:name
+ * @auth Platform admin.
+ * @returns `{ data: { deleted: true } }`.
+ * @throws NOT_FOUND 404 for an unknown flag.
+ */
+flags.delete('/api/admin/flags/:name', async (c) => {
+  const userId = await requirePlatformAdmin(c);
+  const name = flagNameSchema.parse(c.req.param('name'));
+  if (!(await deleteFlag(c.env, name))) throw notFound('Flag not found');
+  await auditFlag(c, userId, 'flag.deleted', name);
+  return c.json({ data: { deleted: true } });
+});
+
+/**
+ * @route PUT /api/admin/flags/:name/orgs/:orgId
+ * @auth Platform admin.
+ * @body `{ enabled }` — `true` adds the org to the allow-list, `false` excludes it.
+ * @returns `{ data: { name, org_id, enabled } }`.
+ * @throws NOT_FOUND 404 when the flag or org does not exist.
+ */
+flags.put('/api/admin/flags/:name/orgs/:orgId', async (c) => {
+  const userId = await requirePlatformAdmin(c);
+  const name = flagNameSchema.parse(c.req.param('name'));
+  const orgId = uuidSchema.parse(c.req.param('orgId'));
+  const { enabled } = setFlagOverrideSchema.parse(await c.req.json());
+
+  const all = await loadFlags(c.env);
+  if (!all[name]) throw notFound('Flag not found');
+  const org = await dbQueryOne<{ id: string }>(
+    c.env.DB,
+    'SELECT id FROM orgs WHERE id = ? AND deleted_at IS NULL',
+    [orgId],
+  );
+  if (!org) throw notFound('Organization not found');
+
+  await setFlagOverride(c.env, name, orgId, enabled);
+  await auditFlag(c, userId, 'flag.org_override_set', name, { org_id: orgId, enabled });
+  return c.json({ data: { name, org_id: orgId, enabled } });
+});
+
+/**
+ * @route DELETE /api/admin/flags/:name/orgs/:orgId
+ * @auth Platform admin.
+ * @returns `{ data: { cleared: true } }` — the org falls back to the flag's rules.
+ * @throws NOT_FOUND 404 when the org had no override.
+ */
+flags.delete('/api/admin/flags/:name/orgs/:orgId', async (c) => {
+  const userId = await requirePlatformAdmin(c);
+  const name = flagNameSchema.parse(c.req.param('name'));
+  const orgId = uuidSchema.parse(c.req.param('orgId'));
+  if (!(await clearFlagOverride(c.env, name, orgId))) throw notFound('Override not found');
+  await auditFlag(c, userId, 'flag.org_override_cleared', name, { org_id: orgId });
+  return c.json({ data: { cleared: true } });
+});
+
+export { flags };
@@ -9,11 +9,15 @@
  *    `X-Site-Slug` header. We capture the submission to D1 and fan out to
  *    every active newsletter integration on that site.
  *
- * 2. **Auth-gated CRUD** — `/api/sites/:siteId/{forms,integrations}`
+ * 2. **Auth-gated CRUD** — `/api/sites/:siteId/{forms,integrations,form-rules,form-api-keys}`
  *    Used by the Dashboard E-mail tab to list submissions, connect/disconnect
- *    providers, and toggle integrations.
+ *    providers, and toggle integrations, and by the Forms section to manage
+ *    AI form rules (including dry runs against past submissions) and the
+ *    encrypted credential vault those rules draw from.
  *
- * Provider-specific dispatch lives in `services/newsletter_dispatch.ts`.
+ * Provider-specific dispatch lives in `services/newsletter_dispatch.ts`; the
+ * rules engine lives in `services/form_rules.ts`; the vault lives in
+ * `services/form_api_keys.ts`.
  */
 
 import { Hono } from 'hono';
@@ -25,11 +29,38 @@ import {
   createIntegrationSchema,
   updateIntegrationSchema,
   formSubmissionInputSchema,
+  createFormRuleSchema,
+  updateFormRuleSchema,
+  formRuleDryRunSchema,
+  createFormApiKeySchema,
+  updateFormApiKeySchema,
+  rotateFormApiKeySchema,
   DOMAINS,
 } from '@project-sites/shared';
 import type { Env, Variables } from '../types/env.js';
 import { dbExecute, dbInsert, dbQuery, dbQueryOne } from '../services/db.js';
-import { dispatchToIntegrations, type IntegrationRow } from '../services/newsletter_dispatch.js';
+import {
+  applyVaultCredentials,
+  dispatchToIntegrations,
+  recordVaultUsage,
+  type IntegrationRow,
+} from '../services/newsletter_dispatch.js';
+import {
+  evaluateRule,
+  runFormRules,
+  toFormRuleRecord,
+  type FormRuleRow,
+} from '../services/form_rules.js';
+import {
+  previewApiKey,
+  resolveApiKey,
+  sealApiKey,
+  testApiKey,
+  toFormApiKeyRecord,
+  validateApiKeySecret,
+  type FormApiKeyRow,
+} from '../services/form_api_keys.js';
+import { writeAuditLog } from '../services/audit.js';
 
 const forms = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -39,9 +70,14 @@ forms.post('/api/v1/forms/submit', async (c) => {
   const slug = c.req.header('x-site-slug') ?? c.req.query('slug');
   if (!slug) throw badRequest('Missing X-Site-Slug header');
 
-  const site = await dbQueryOne<{ id: string; org_id: string; slug: string }>(
+  const site = await dbQueryOne<{
+    id: string;
+    org_id: string;
+    slug: string;
+    business_name: string | null;
+  }>(
     c.env.DB,
-    'SELECT id, org_id, slug FROM sites WHERE slug = ? AND deleted_at IS NULL',
+    'SELECT id, org_id, slug, business_name FROM sites WHERE slug = ? AND deleted_at IS NULL',
     [slug],
   );
   if (!site) throw notFound('Site not found');
@@ -89,7 +125,8 @@ forms.post('/api/v1/forms/submit', async (c) => {
     [site.id],
   );
 
-  const dispatchResults = await dispatchToIntegrations(
+  const vault = await applyVaultCredentials(c.env, integrationsResult.data);
+  const dispatched = await dispatchToIntegrations(
     {
       site_id: site.id,
       site_slug: site.slug,
@@ -101,8 +138,10 @@ forms.post('/api/v1/forms/submit', async (c) => {
       user_agent: userAgent ?? undefined,
       submitted_at: submittedAt,
     },
-    integrationsResult.data,
+    vault.rows,
   );
+  const dispatchResults = [...dispatched, ...vault.failures];
+  c.executionCtx.waitUntil(recordVaultUsage(c.env.DB, site.id, vault.keyIds, dispatchResults));
 
   const successful = dispatchResults.filter((r) => r.ok);
   const failures = dispatchResults.filter((r) => !r.ok);
@@ -130,6 +169,33 @@ forms.post('/api/v1/forms/submit', async (c) => {
     created_at: submittedAt,
   });
 
+  // ── AI Form Rules ──
+  // Evaluate every enabled rule for this form (priority order) and execute
+  // the actions each one plans. One form_rule_evaluations row per rule.
+  c.executionCtx.waitUntil(
+    runFormRules(c.env, {
+      id: submissionId,
+      site_id: site.id,
+      org_id: site.org_id,
+      site_slug: site.slug,
+      business_name: site.business_name ?? site.slug,
+      form_name: validated.form_name,
+      email: validated.email ?? null,
+      fields: validated.fields,
+      submitted_at: submittedAt,
+    }).catch((err) => {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'forms',
+          message: 'Form rules failed',
+          submission_id: submissionId,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }),
+  );
+
   // ── AI Form Router ──
   // Run the customer's single router prompt over this submission. The LLM
   // picks one MCP tool (Mailchimp/Stripe/Resend/HubSpot) or "noop"; the
@@ -472,6 +538,407 @@ forms.delete('/api/sites/:siteId/integrations/:id', async (c) => {
   return c.json({ data: { deleted: true } });
 });
 
+// ─── Form Rules (AI engine) ──────────────────────────────────
+
+async function loadOwnedRule(db: D1Database, siteId: string, ruleId: string): Promise<FormRuleRow> {
+  const rule = await dbQueryOne<FormRuleRow>(
+    db,
+    'SELECT * FROM form_rules WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+    [ruleId, siteId],
+  );
+  if (!rule) throw notFound('Form rule not found');
+  return rule;
+}
+
+forms.get('/api/sites/:siteId/form-rules', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const result = await dbQuery<FormRuleRow>(
+    c.env.DB,
+    `SELECT * FROM form_rules
+     WHERE site_id = ? AND deleted_at IS NULL
+     ORDER BY priority ASC, created_at ASC`,
+    [site.id],
+  );
+  return c.json({ data: result.data.map(toFormRuleRecord) });
+});
+
+forms.post('/api/sites/:siteId/form-rules', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = createFormRuleSchema.parse(body);
+
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const row: Record<string, unknown> = {
+    id,
+    site_id: site.id,
+    org_id: orgId,
+    name: validated.name,
+    description: validated.description ?? null,
+    prompt: validated.prompt,
+    enabled: validated.enabled ? 1 : 0,
+    priority: validated.priority,
+    trigger_form_name: validated.trigger_form_name ?? null,
+    created_at: now,
+    updated_at: now,
+  };
+  // Leave model unset so the column default applies.
+  if (validated.model) row['model'] = validated.model;
+  const { error } = await dbInsert(c.env.DB, 'form_rules', row);
+  if (error) throw badRequest(`Failed to create form rule: ${error}`);
+
+  return c.json({ data: toFormRuleRecord(await loadOwnedRule(c.env.DB, site.id, id)) }, 201);
+});
+
+forms.get('/api/sites/:siteId/form-rules/:ruleId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const rule = await loadOwnedRule(c.env.DB, site.id, c.req.param('ruleId'));
+  return c.json({ data: toFormRuleRecord(rule) });
+});
+
+forms.patch('/api/sites/:siteId/form-rules/:ruleId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const rule = await loadOwnedRule(c.env.DB, site.id, c.req.param('ruleId'));
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = updateFormRuleSchema.parse(body);
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (validated.name !== undefined) updates['name'] = validated.name;
+  if (validated.description !== undefined) updates['description'] = validated.description;
+  if (validated.prompt !== undefined) updates['prompt'] = validated.prompt;
+  if (validated.model !== undefined) updates['model'] = validated.model;
+  if (validated.enabled !== undefined) updates['enabled'] = validated.enabled ? 1 : 0;
+  if (validated.priority !== undefined) updates['priority'] = validated.priority;
+  if (validated.trigger_form_name !== undefined) {
+    updates['trigger_form_name'] = validated.trigger_form_name;
+  }
+
+  const keys = Object.keys(updates);
+  const setClause = keys.map((k) => `${k} = ?`).join(', ');
+  const values = keys.map((k) => updates[k]);
+  await dbExecute(c.env.DB, `UPDATE form_rules SET ${setClause} WHERE id = ?`, [
+    ...values,
+    rule.id,
+  ]);
+
+  return c.json({ data: toFormRuleRecord(await loadOwnedRule(c.env.DB, site.id, rule.id)) });
+});
+
+forms.delete('/api/sites/:siteId/form-rules/:ruleId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const result = await dbExecute(
+    c.env.DB,
+    "UPDATE form_rules SET deleted_at = datetime('now'), enabled = 0 WHERE id = ? AND site_id = ? AND deleted_at IS NULL",
+    [c.req.param('ruleId'), site.id],
+  );
+  if (result.changes === 0) throw notFound('Form rule not found');
+  return c.json({ data: { deleted: true } });
+});
+
+forms.get('/api/sites/:siteId/form-rules/:ruleId/evaluations', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const rule = await loadOwnedRule(c.env.DB, site.id, c.req.param('ruleId'));
+
+  const limit = Math.min(Math.max(Number(c.req.query('limit') ?? 50), 1), 200);
+  const result = await dbQuery<{
+    id: string;
+    rule_id: string;
+    submission_id: string;
+    site_id: string;
+    org_id: string;
+    status: string;
+    actions_planned: number;
+    actions_executed: number;
+    actions_failed: number;
+    actions_json: string | null;
+    reasoning: string | null;
+    error: string | null;
+    duration_ms: number | null;
+    created_at: string;
+  }>(
+    c.env.DB,
+    `SELECT * FROM form_rule_evaluations
+     WHERE rule_id = ?
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [rule.id, limit],
+  );
+
+  return c.json({ data: result.data });
+});
+
+/**
+ * Dry-run a rule against a stored submission. Calls the model (and debits a
+ * credit) but never executes actions or records an evaluation, so it is safe
+ * to use on a disabled rule before switching it on.
+ */
+forms.post('/api/sites/:siteId/form-rules/:ruleId/dry-run', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const rule = await loadOwnedRule(c.env.DB, site.id, c.req.param('ruleId'));
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = formRuleDryRunSchema.parse(body);
+
+  const submission = await dbQueryOne<{
+    id: string;
+    form_name: string;
+    email: string | null;
+    payload: string;
+    created_at: string;
+  }>(
+    c.env.DB,
+    'SELECT id, form_name, email, payload, created_at FROM form_submissions WHERE id = ? AND site_id = ?',
+    [validated.submission_id, site.id],
+  );
+  if (!submission) throw notFound('Submission not found');
+
+  const siteRow = await dbQueryOne<{ business_name: string | null }>(
+    c.env.DB,
+    'SELECT business_name FROM sites WHERE id = ?',
+    [site.id],
+  );
+
+  const evaluation = await evaluateRule(
+    c.env,
+    rule,
+    {
+      id: submission.id,
+      site_id: site.id,
+      org_id: orgId,
+      site_slug: site.slug,
+      business_name: siteRow?.business_name ?? site.slug,
+      form_name: submission.form_name,
+      email: submission.email,
+      fields: safeJson<Record<string, unknown>>(submission.payload, {}),
+      submitted_at: submission.created_at,
+    },
+    { dryRun: true },
+  );
+
+  return c.json({
+    data: {
+      ...evaluation,
+      matches_trigger:
+        rule.trigger_form_name === null || rule.trigger_form_name === submission.form_name,
+    },
+  });
+});
+
+// ─── Form API keys (encrypted vault) ─────────────────────────
+// Secrets go in once (create/rotate) and never come back out: every response
+// carries api_key_preview only.
+
+async function loadOwnedApiKey(db: D1Database, siteId: string, keyId: string): Promise<FormApiKeyRow> {
+  const row = await dbQueryOne<FormApiKeyRow>(
+    db,
+    'SELECT * FROM form_api_keys WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+    [keyId, siteId],
+  );
+  if (!row) throw notFound('API key not found');
+  return row;
+}
+
+forms.get('/api/sites/:siteId/form-api-keys', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const result = await dbQuery<FormApiKeyRow>(
+    c.env.DB,
+    `SELECT * FROM form_api_keys
+     WHERE site_id = ? AND deleted_at IS NULL
+     ORDER BY created_at DESC`,
+    [site.id],
+  );
+  return c.json({ data: result.data.map(toFormApiKeyRecord) });
+});
+
+forms.post('/api/sites/:siteId/form-api-keys', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = createFormApiKeySchema.parse(body);
+  const problem = validateApiKeySecret(validated.provider, validated.api_key);
+  if (problem) throw badRequest(problem);
+
+  const id = crypto.randomUUID();
+  const sealed = await sealApiKey(c.env, validated.api_key);
+  const { error } = await dbInsert(c.env.DB, 'form_api_keys', {
+    id,
+    site_id: site.id,
+    org_id: orgId,
+    provider: validated.provider,
+    label: validated.label,
+    ...sealed,
+    config: validated.config ? JSON.stringify(validated.config) : null,
+    enabled: validated.enabled ? 1 : 0,
+  });
+  if (error) throw badRequest(`Failed to store API key: ${error}`);
+
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: c.get('userId') ?? null,
+    action: 'form_api_key.created',
+    target_type: 'form_api_key',
+    target_id: id,
+    metadata_json: { site_id: site.id, provider: validated.provider, label: validated.label },
+    request_id: c.get('requestId'),
+  });
+
+  return c.json({ data: toFormApiKeyRecord(await loadOwnedApiKey(c.env.DB, site.id, id)) }, 201);
+});
+
+forms.patch('/api/sites/:siteId/form-api-keys/:keyId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const existing = await loadOwnedApiKey(c.env.DB, site.id, c.req.param('keyId'));
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = updateFormApiKeySchema.parse(body);
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (validated.label !== undefined) updates['label'] = validated.label;
+  if (validated.config !== undefined) updates['config'] = JSON.stringify(validated.config);
+  if (validated.enabled !== undefined) updates['enabled'] = validated.enabled ? 1 : 0;
+  if (validated.api_key !== undefined) {
+    const problem = validateApiKeySecret(existing.provider, validated.api_key);
+    if (problem) throw badRequest(problem);
+    Object.assign(updates, await sealApiKey(c.env, validated.api_key), { last_error: null });
+  }
+
+  const keys = Object.keys(updates);
+  const setClause = keys.map((k) => `${k} = ?`).join(', ');
+  const values = keys.map((k) => updates[k]);
+  await dbExecute(c.env.DB, `UPDATE form_api_keys SET ${setClause} WHERE id = ?`, [
+    ...values,
+    existing.id,
+  ]);
+
+  if (validated.api_key !== undefined || validated.enabled !== undefined) {
+    await writeAuditLog(c.env.DB, {
+      org_id: orgId,
+      actor_id: c.get('userId') ?? null,
+      action: validated.api_key !== undefined ? 'form_api_key.rotated' : 'form_api_key.updated',
+      target_type: 'form_api_key',
+      target_id: existing.id,
+      metadata_json: { site_id: site.id, enabled: validated.enabled },
+      request_id: c.get('requestId'),
+    });
+  }
+
+  return c.json({ data: toFormApiKeyRecord(await loadOwnedApiKey(c.env.DB, site.id, existing.id)) });
+});
+
+/** Replace the secret behind a key ID; consumers referencing the ID keep working. */
+forms.post('/api/sites/:siteId/form-api-keys/:keyId/rotate', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const existing = await loadOwnedApiKey(c.env.DB, site.id, c.req.param('keyId'));
+
+  const body = await c.req.json().catch(() => ({}));
+  const validated = rotateFormApiKeySchema.parse(body);
+  const problem = validateApiKeySecret(existing.provider, validated.api_key);
+  if (problem) throw badRequest(problem);
+
+  const sealed = await sealApiKey(c.env, validated.api_key);
+  await dbExecute(
+    c.env.DB,
+    `UPDATE form_api_keys
+     SET api_key_encrypted = ?, api_key_preview = ?, last_error = NULL, updated_at = ?
+     WHERE id = ?`,
+    [sealed.api_key_encrypted, sealed.api_key_preview, new Date().toISOString(), existing.id],
+  );
+
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: c.get('userId') ?? null,
+    action: 'form_api_key.rotated',
+    target_type: 'form_api_key',
+    target_id: existing.id,
+    metadata_json: {
+      site_id: site.id,
+      previous_preview: existing.api_key_preview,
+      preview: previewApiKey(validated.api_key),
+    },
+    request_id: c.get('requestId'),
+  });
+
+  return c.json({ data: toFormApiKeyRecord(await loadOwnedApiKey(c.env.DB, site.id, existing.id)) });
+});
+
+/**
+ * Check the stored secret against its provider. The outcome lands in
+ * `last_error` (cleared on success) but does not count as a use.
+ */
+forms.post('/api/sites/:siteId/form-api-keys/:keyId/test', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+  const existing = await loadOwnedApiKey(c.env.DB, site.id, c.req.param('keyId'));
+  if (existing.enabled !== 1) throw badRequest('API key is disabled');
+
+  const key = await resolveApiKey(c.env, site.id, existing.id).catch((err: Error) => {
+    throw badRequest(err.message);
+  });
+  const result = await testApiKey(key.provider, key.secret, key.config);
+
+  await dbExecute(
+    c.env.DB,
+    'UPDATE form_api_keys SET last_error = ?, updated_at = ? WHERE id = ?',
+    [result.error ? result.error.slice(0, 1024) : null, new Date().toISOString(), existing.id],
+  );
+
+  return c.json({ data: { id: existing.id, provider: existing.provider, ...result } });
+});
+
+forms.delete('/api/sites/:siteId/form-api-keys/:keyId', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  const site = await loadOwnedSite(c, orgId);
+
+  const keyId = c.req.param('keyId');
+  const result = await dbExecute(
+    c.env.DB,
+    "UPDATE form_api_keys SET deleted_at = datetime('now'), enabled = 0 WHERE id = ? AND site_id = ? AND deleted_at IS NULL",
+    [keyId, site.id],
+  );
+  if (result.changes === 0) throw notFound('API key not found');
+
+  await writeAuditLog(c.env.DB, {
+    org_id: orgId,
+    actor_id: c.get('userId') ?? null,
+    action: 'form_api_key.deleted',
+    target_type: 'form_api_key',
+    target_id: keyId,
+    metadata_json: { site_id: site.id },
+    request_id: c.get('requestId'),
+  });
+
+  return c.json({ data: { deleted: true } });
+});
+
 // ── helpers ──────────────────────────────────────────────────
 
 function previewKey(key: string): string {
@@ -0,0 +1,152 @@
+/**
+ * @module routes/storage
+ * @description Storage usage against the org's quota
+ * (`services/storage_usage.ts`), and dry-run reports for the storage GC
+ * (`services/storage_gc.ts`): which old build versions, git history and
+ * orphaned assets would be freed, before the nightly job deletes anything.
+ *
+ * ## Route Map
+ *
+ * | Method | Path                             | Auth?          | Description                                  |
+ * | ------ | -------------------------------- | -------------- | -------------------------------------------- |
+ * | GET    | `/api/storage/usage`             | Org member     | Bytes used against the plan's storage quota  |
+ * | GET    | `/api/storage/gc-report`         | Owner/admin    | Reclaimable storage for the caller's org     |
+ * | GET    | `/api/admin/storage/gc-report`   | Platform admin | Every org (or `?org_id=`), plus pending plan |
+ * | POST   | `/api/admin/storage/migrate-git` | Platform admin | Convert a batch of legacy git histories      |
+ *
+ * The GC reports plan from a fresh R2 listing, so they are slow on large orgs.
+ *
+ * @packageDocumentation
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { badRequest, forbidden, unauthorized, uuidSchema } from '@project-sites/shared';
+import type { Env, Variables } from '../types/env.js';
+import { dbQueryOne } from '../services/db.js';
+import { isPlatformAdmin } from '../services/feature_flags.js';
+import { getMembershipRole } from '../services/team.js';
+import {
+  GIT_MIGRATION_BATCH,
+  buildStorageGcReport,
+  loadPendingGc,
+  migrateLegacyGit,
+} from '../services/storage_gc.js';
+import { getStorageUsage } from '../services/storage_usage.js';
+
+const storage = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+type Ctx = Context<{ Bindings: Env; Variables: Variables }>;
+
+/**
+ * @route GET /api/storage/usage
+ * @auth Any member of the caller's org.
+ * @returns `{ data: { org_id, tier, used_bytes, limit_bytes, reconciled_at } }`.
+ *   `used_bytes` is the running counter, reconciled with R2 nightly.
+ */
+storage.get('/api/storage/usage', async (c) => {
+  const orgId = c.get('orgId');
+  if (!orgId) throw unauthorized('Must be authenticated');
+  return c.json({ data: await getStorageUsage(c.env.DB, orgId) });
+});
+
+/**
+ * @route GET /api/storage/gc-report
+ * @auth Org owner or admin.
+ * @returns `{ data: StorageGcReport }` limited to the caller's org.
+ */
+storage.get('/api/storage/gc-report', async (c) => {
+  const userId = c.get('userId');
+  const orgId = c.get('orgId');
+  if (!userId || !orgId) throw unauthorized('Must be authenticated');
+  const role = await getMembershipRole(c.env.DB, orgId, userId);
+  if (role !== 'owner' && role !== 'admin') {
+    throw forbidden('Only owners and admins can view storage reports');
+  }
+
+  const report = await buildStorageGcReport(c.env, { orgId });
+  return c.json({ data: report });
+});
+
+/** Resolve the caller and require a platform operator. */
+async function requirePlatformAdmin(c: Ctx): Promise<void> {
+  const userId = c.get('userId');
+  if (!userId) throw unauthorized('Must be authenticated');
+  const user = await dbQueryOne<{ email: string | null }>(
+    c.env.DB,
+    'SELECT email FROM users WHERE id = ? AND deleted_at IS NULL',
+    [userId],
+  );
+  if (!isPlatformAdmin(c.env, user?.email)) {
+    throw forbidden('Storage across orgs is for platform admins');
+  }
+}
+
+/**
+ * @route GET /api/admin/storage/gc-report
+ * @auth Platform admin.
+ * @query org_id - Optional; limit the report to one org.
+ * @returns `{ data: { report, pending } }` — `pending` is what the next run
+ *   will delete if it is still unreferenced: `{ generated_at, sites, objects }`,
+ *   or `null` before the first run.
+ */
+storage.get('/api/admin/storage/gc-report', async (c) => {
+  await requirePlatformAdmin(c);
+  const orgParam = c.req.query('org_id');
+  const orgId = orgParam ? uuidSchema.parse(orgParam) : undefined;
+
+  const report = await buildStorageGcReport(c.env, { orgId });
+  const pending = await loadPendingGc(c.env, orgId);
+  const scheduled = pending ? Object.values(pending.sites) : [];
+
+  return c.json({
+    data: {
+      report,
+      pending: pending
+        ? {
+            generated_at: pending.generated_at,
+            sites: scheduled.length,
+            objects: scheduled.reduce((sum, s) => sum + s.keys.length, 0),
+          }
+        : null,
+    },
+  });
+});
+
+/**
+ * Convert the next batch of sites' legacy tree-per-commit git history to
+ * content-addressed blobs (`services/storage_gc.migrateLegacyGit`). Call
+ * again with the returned cursor until it is `null`; re-running from the
+ * start is safe.
+ *
+ * @route POST /api/admin/storage/migrate-git
+ * @auth Platform admin.
+ * @body `{ cursor?, limit? }` — `cursor` from the previous call; `limit`
+ *   sites per call, 1–100 (default {@link GIT_MIGRATION_BATCH}).
+ * @returns `{ data: { sites, migrated, skipped, failed, next_cursor } }`.
+ * @throws BAD_REQUEST — malformed cursor or limit.
+ */
+storage.post('/api/admin/storage/migrate-git', async (c) => {
+  await requirePlatformAdmin(c);
+  const body = (await c.req.json().catch(() => ({}))) as { cursor?: unknown; limit?: unknown };
+  const cursor = body.cursor == null ? undefined : uuidSchema.parse(body.cursor);
+  const limit = body.limit ?? GIT_MIGRATION_BATCH;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw badRequest('limit must be an integer from 1 to 100');
+  }
+
+  const batch = await migrateLegacyGit(c.env, { cursor, limit });
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'storage',
+      message: 'Legacy git migration batch',
+      user_id: c.get('userId'),
+      ...batch,
+      failed: batch.failed.length,
+    }),
+  );
+  return c.json({ data: batch });
+});
+
+export { storage };
@@ -23,10 +23,12 @@
  * | Event Type                       | Handler                        | Effect                      |
  * | -------------------------------- | ------------------------------ | --------------------------- |
  * | `checkout.session.completed`     | `handleCheckoutCompleted`      | Upgrade to paid plan        |
- * | `customer.subscription.updated`  | `handleSubscriptionUpdated`    | Sync status & period        |
+ * |                                  | `completeDomainOrder`          | Register / transfer / renew the ordered domain (`metadata.domain_order_id`) |
+ * | `customer.subscription.updated`  | `handleSubscriptionUpdated`    | Sync status, period & tier  |
  * | `customer.subscription.deleted`  | `handleSubscriptionDeleted`    | Downgrade to free           |
  * | `invoice.payment_failed`         | `handlePaymentFailed`          | Mark as past_due            |
- * | `invoice.paid`                   | (no-op)                        | Backup for checkout         |
+ * | `invoice.paid`                   | `handleInvoicePaid`            | Reset dunning, restore plan |
+ * |                                  | `grantIncludedCredits`         | Tier's AI credits           |
  *
  * @packageDocumentation
  */
@@ -40,6 +42,7 @@ import {
   markWebhookProcessed,
 } from '../services/webhook.js';
 import * as billingService from '../services/billing.js';
+import { completeDomainOrder, getRegistrar } from '../services/domain_registration.js';
 import * as auditService from '../services/audit.js';
 import { sha256Hex, badRequest } from '@project-sites/shared';
 
@@ -108,22 +111,36 @@ webhooks.post('/webhooks/stripe', async (c) => {
     const obj = event.data.object;
 
     switch (event.type) {
-      case 'checkout.session.completed':
+      case 'checkout.session.completed': {
+        const metadata = obj.metadata as {
+          org_id?: string;
+          site_id?: string;
+          type?: string;
+          domain_order_id?: string;
+        };
         await billingService.handleCheckoutCompleted(db, c.env, {
           customer: obj.customer as string,
-          subscription: obj.subscription as string,
-          metadata: obj.metadata as { org_id?: string; site_id?: string },
+          subscription: (obj.subscription as string | null) ?? null,
+          metadata,
         });
+        if (metadata?.type === 'domain_purchase' && metadata.domain_order_id) {
+          await completeDomainOrder(db, c.env, getRegistrar(c.env), {
+            order_id: metadata.domain_order_id,
+            stripe_session_id: obj.id as string,
+          });
+        }
         break;
+      }
 
       case 'customer.subscription.updated':
-        await billingService.handleSubscriptionUpdated(db, {
+        await billingService.handleSubscriptionUpdated(db, c.env, {
           id: obj.id as string,
           status: obj.status as string,
           cancel_at_period_end: obj.cancel_at_period_end as boolean,
           current_period_start: obj.current_period_start as number,
           current_period_end: obj.current_period_end as number,
-          metadata: obj.metadata as { org_id?: string },
+          items: obj.items as { data: Array<{ price: { id: string } }> } | undefined,
+          metadata: obj.metadata as { org_id?: string; tier?: string; interval?: string },
         });
         break;
 
@@ -142,7 +159,20 @@ webhooks.post('/webhooks/stripe', async (c) => {
         break;
 
       case 'invoice.paid':
-        // Backup for checkout completed
+        await billingService.handleInvoicePaid(db, {
+          customer: obj.customer as string,
+          subscription: (obj.subscription as string | null) ?? null,
+          metadata: obj.metadata as { org_id?: string },
+        });
+        await billingService.grantIncludedCredits(db, c.env, {
+          id: obj.id as string,
+          customer: obj.customer as string,
+          billing_reason: (obj.billing_reason as string | null) ?? null,
+          subscription_details:
+            (obj.subscription_details as {
+              metadata?: { org_id?: string; tier?: string; interval?: string } | null;
+            } | null) ?? null,
+        });
         break;
 
       default:
@@ -1044,4 +1044,44 @@ export function registerAllPrompts(): void {
       user: 'Business: {{business_name}}\n\nHTML:\n{{html_content}}\n\nScore this website.',
     },
   ]);
+
+  // ── Site Translation ─────────────────────────────────────────
+
+  registry.register({
+    id: 'translate_site_copy',
+    version: 1,
+    description: 'Translate text segments of a published site, keeping brand names and markup',
+    models: defaultModels,
+    params: { temperature: 0.2, maxTokens: 4096 },
+    inputs: {
+      required: ['language', 'language_code', 'segments_json'],
+      optional: ['brand_terms'],
+    },
+    outputs: { format: 'json', schema: 'TranslateSiteCopyOutput' },
+    notes: {
+      brand: 'Brand terms must appear unchanged',
+      length: 'Output array has exactly one entry per input segment',
+    },
+    system: [
+      'You are a professional website localizer for small local businesses.',
+      'Translate each text segment of a website into the target language.',
+      '',
+      'Rules:',
+      '- Return a JSON array of strings with exactly one translation per input segment, in order.',
+      '- Keep every brand term exactly as written; never translate or transliterate it.',
+      '- Keep numbers, prices, phone numbers, email addresses, URLs and times unchanged.',
+      '- Keep the tone, and keep short labels (buttons, menu items) short.',
+      '- Segments are plain text; do not add HTML, quotes or notes.',
+      '- If a segment should not change (a name, an address), return it as is.',
+    ].join('\n'),
+    user: [
+      'Target language: {{language}} ({{language_code}})',
+      'Brand terms: {{brand_terms}}',
+      '',
+      'Segments (JSON array):',
+      '{{segments_json}}',
+      '',
+      'Return only the JSON array of translations.',
+    ].join('\n'),
+  });
 }
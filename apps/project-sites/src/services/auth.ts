@@ -2,12 +2,14 @@
  * @module auth
  * @description Passwordless authentication service for Project Sites.
  *
- * Supports two sign-in methods:
+ * Supports these sign-in methods:
  *
  * | Method       | Flow                                        | Table          |
  * | ------------ | ------------------------------------------- | -------------- |
  * | Magic Link   | Email → click link → verify token hash      | `magic_links`  |
+ * | Phone OTP    | SMS code → verify hash (attempt-limited)    | `phone_otps`   |
  * | Google OAuth | Redirect → consent → exchange code → user   | `oauth_states` |
+ * | GitHub OAuth | Redirect → consent → exchange code → user   | `oauth_states` |
  *
  * Sessions are stored in the `sessions` table with SHA-256 hashed tokens.
  * All database access uses Cloudflare D1 via parameterized SQL.
@@ -35,12 +37,20 @@ import {
   sha256Hex,
   type CreateMagicLink,
   type VerifyMagicLink,
+  type CreatePhoneOtp,
+  type VerifyPhoneOtp,
   createMagicLinkSchema,
   verifyMagicLinkSchema,
+  createPhoneOtpSchema,
+  verifyPhoneOtpSchema,
+  generateOtp,
+  timingSafeEqual,
   unauthorized,
   badRequest,
+  conflict,
 } from '@project-sites/shared';
 import { dbQuery, dbInsert, dbUpdate, dbExecute, dbQueryOne } from './db.js';
+import { getSmsSender, type SmsSender } from './sms.js';
 import type { Env } from '../types/env.js';
 
 /**
@@ -388,6 +398,228 @@ export async function verifyMagicLink(
   return { email: link.email, redirect_url: link.redirect_url };
 }
 
+/** `+14155551234` → `+1•••••••234`, for logs. */
+function maskPhone(phone: string): string {
+  return phone.slice(0, 2) + '•'.repeat(Math.max(phone.length - 5, 0)) + phone.slice(-3);
+}
+
+/** OTPs are hashed with the phone so equal codes never share a hash. */
+function hashPhoneOtp(phone: string, code: string): Promise<string> {
+  return sha256Hex(`${phone}:${code}`);
+}
+
+/**
+ * Text a one-time sign-in code to a phone number.
+ *
+ * Only the newest code for a phone is valid: requesting a new one retires
+ * any outstanding code. Requests for the same phone are limited to one per
+ * `AUTH.OTP_RESEND_COOLDOWN_SECONDS`.
+ *
+ * @param db     - D1Database binding.
+ * @param env    - Worker environment (selects the SMS sender).
+ * @param input  - Must include `phone` in E.164 format.
+ * @param sender - Override the sender (tests, alternative providers).
+ * @returns The plaintext code (for tests) and expiry timestamp.
+ * @throws {badRequest} If a code was requested too recently or SMS is not configured.
+ *
+ * @example
+ * ```ts
+ * const { expires_at } = await createPhoneOtp(env.DB, env, { phone: '+14155551234' });
+ * ```
+ */
+export async function createPhoneOtp(
+  db: D1Database,
+  env: Env,
+  input: CreatePhoneOtp,
+  sender: SmsSender = getSmsSender(env),
+): Promise<{ code: string; expires_at: string }> {
+  const { phone } = createPhoneOtpSchema.parse(input);
+
+  const latest = await dbQueryOne<{ created_at: string }>(
+    db,
+    `SELECT created_at FROM phone_otps
+     WHERE phone = ? AND verified = 0 AND deleted_at IS NULL
+     ORDER BY created_at DESC LIMIT 1`,
+    [phone],
+  );
+  if (
+    latest &&
+    Date.now() - new Date(latest.created_at).getTime() < AUTH.OTP_RESEND_COOLDOWN_SECONDS * 1000
+  ) {
+    throw badRequest('A code was just sent. Please wait a minute before requesting another.');
+  }
+
+  const now = new Date().toISOString();
+  await dbExecute(
+    db,
+    'UPDATE phone_otps SET deleted_at = ?, updated_at = ? WHERE phone = ? AND verified = 0 AND deleted_at IS NULL',
+    [now, now, phone],
+  );
+
+  const id = crypto.randomUUID();
+  const code = generateOtp(AUTH.OTP_LENGTH);
+  const expiresAt = new Date(Date.now() + AUTH.OTP_EXPIRY_MINUTES * 60 * 1000).toISOString();
+
+  await dbInsert(db, 'phone_otps', {
+    id,
+    phone,
+    otp_hash: await hashPhoneOtp(phone, code),
+    attempts: 0,
+    expires_at: expiresAt,
+    verified: 0,
+    deleted_at: null,
+  });
+
+  try {
+    await sender.send(
+      phone,
+      `Your Project Sites sign-in code is ${code}. It expires in ${AUTH.OTP_EXPIRY_MINUTES} minutes.`,
+    );
+  } catch (err) {
+    // Retire the undeliverable code so the cooldown doesn't block a retry.
+    await dbUpdate(db, 'phone_otps', { deleted_at: new Date().toISOString() }, 'id = ?', [id]);
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'auth',
+        message: 'Phone OTP delivery failed',
+        phone: maskPhone(phone),
+        sender: sender.name,
+        error: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    throw badRequest('We could not text that number. Please check it and try again.');
+  }
+
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'auth',
+      message: 'Phone OTP sent',
+      phone: maskPhone(phone),
+      sender: sender.name,
+      expires_at: expiresAt,
+    }),
+  );
+  return { code, expires_at: expiresAt };
+}
+
+/**
+ * Verify a phone sign-in code.
+ *
+ * Checks the newest outstanding code for the phone. Each wrong guess burns
+ * one of `AUTH.OTP_MAX_ATTEMPTS`; once they are used up the code is dead and
+ * a new one must be requested. A code verifies at most once.
+ *
+ * @param db    - D1Database binding.
+ * @param input - `phone` (E.164) and the `code` from the text message.
+ * @returns The verified phone number.
+ * @throws {unauthorized} If the code is wrong, expired, used up or already used.
+ *
+ * @example
+ * ```ts
+ * const { phone } = await verifyPhoneOtp(env.DB, { phone: '+14155551234', code: '123456' });
+ * ```
+ */
+export async function verifyPhoneOtp(
+  db: D1Database,
+  input: VerifyPhoneOtp,
+): Promise<{ phone: string }> {
+  const { phone, code } = verifyPhoneOtpSchema.parse(input);
+
+  const otp = await dbQueryOne<{
+    id: string;
+    otp_hash: string;
+    attempts: number;
+    expires_at: string;
+  }>(
+    db,
+    `SELECT id, otp_hash, attempts, expires_at FROM phone_otps
+     WHERE phone = ? AND verified = 0 AND deleted_at IS NULL
+     ORDER BY created_at DESC LIMIT 1`,
+    [phone],
+  );
+
+  if (!otp || new Date(otp.expires_at) < new Date()) {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'auth',
+        message: 'Phone OTP verification failed: no live code',
+        phone: maskPhone(phone),
+      }),
+    );
+    throw unauthorized('Invalid or expired code');
+  }
+  if (otp.attempts >= AUTH.OTP_MAX_ATTEMPTS) {
+    throw unauthorized('Too many attempts. Please request a new code.');
+  }
+
+  const now = new Date().toISOString();
+  if (!timingSafeEqual(await hashPhoneOtp(phone, code), otp.otp_hash)) {
+    // Conditional increment so concurrent guesses cannot exceed the limit.
+    const { changes } = await dbExecute(
+      db,
+      'UPDATE phone_otps SET attempts = attempts + 1, updated_at = ? WHERE id = ? AND attempts < ?',
+      [now, otp.id, AUTH.OTP_MAX_ATTEMPTS],
+    );
+    const remaining = AUTH.OTP_MAX_ATTEMPTS - otp.attempts - 1;
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'auth',
+        message: 'Phone OTP verification failed: wrong code',
+        phone: maskPhone(phone),
+        remaining,
+      }),
+    );
+    throw unauthorized(
+      changes && remaining > 0
+        ? `Incorrect code. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left.`
+        : 'Too many attempts. Please request a new code.',
+    );
+  }
+
+  const { changes } = await dbExecute(
+    db,
+    'UPDATE phone_otps SET verified = 1, updated_at = ? WHERE id = ? AND verified = 0 AND attempts < ?',
+    [now, otp.id, AUTH.OTP_MAX_ATTEMPTS],
+  );
+  if (!changes) throw unauthorized('Invalid or expired code');
+
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'auth',
+      message: 'Phone OTP verified',
+      phone: maskPhone(phone),
+    }),
+  );
+  return { phone };
+}
+
+/**
+ * Attach a verified phone to a signed-in user so later phone sign-ins land
+ * on the same account.
+ *
+ * @throws {conflict} If another user already owns the phone.
+ */
+export async function linkPhoneToUser(
+  db: D1Database,
+  userId: string,
+  phone: string,
+): Promise<void> {
+  const owner = await dbQueryOne<{ id: string }>(
+    db,
+    'SELECT id FROM users WHERE phone = ? AND deleted_at IS NULL',
+    [phone],
+  );
+  if (owner && owner.id !== userId) {
+    throw conflict('This phone number is already linked to another account');
+  }
+  await dbUpdate(db, 'users', { phone }, 'id = ?', [userId]);
+}
+
 /**
  * Create a Google OAuth state token for CSRF protection.
  *
@@ -758,11 +990,15 @@ export async function handleGitHubOAuthCallback(
  * Generates a random token, stores its SHA-256 hash in D1. The plaintext
  * token is returned to the client (typically as a cookie or Bearer header).
  *
+ * Sessions start without the second factor. When the user has two-factor
+ * enabled, `mfa_required` tells the client to follow up with
+ * `POST /api/auth/mfa/verify` ({@link markSessionMfaVerified}).
+ *
  * @param db         - D1Database binding.
  * @param userId     - Authenticated user's ID.
  * @param deviceInfo - Optional device/browser fingerprint.
  * @param ipAddress  - Optional client IP address.
- * @returns Plaintext token and expiry.
+ * @returns Plaintext token, expiry and whether a second factor is pending.
  *
  * @example
  * ```ts
@@ -775,7 +1011,7 @@ export async function createSession(
   userId: string,
   deviceInfo?: string,
   ipAddress?: string,
-): Promise<{ token: string; expires_at: string }> {
+): Promise<{ token: string; expires_at: string; mfa_required: boolean }> {
   const token = randomHex(32);
   const tokenHash = await sha256Hex(token);
   const expiresAt = new Date(
@@ -790,9 +1026,16 @@ export async function createSession(
     ip_address: ipAddress ?? null,
     expires_at: expiresAt,
     last_active_at: new Date().toISOString(),
+    mfa_verified_at: null,
     deleted_at: null,
   });
 
+  const mfa = await dbQueryOne<{ status: string }>(
+    db,
+    "SELECT status FROM user_mfa WHERE user_id = ? AND status = 'active'",
+    [userId],
+  );
+
   console.warn(
     JSON.stringify({
       level: 'info',
@@ -800,15 +1043,18 @@ export async function createSession(
       message: 'Session created',
       user_id: userId,
       expires_at: expiresAt,
+      mfa_required: !!mfa,
     }),
   );
-  return { token, expires_at: expiresAt };
+  return { token, expires_at: expiresAt, mfa_required: !!mfa };
 }
 
 /**
  * Retrieve a session by its plaintext token.
  *
  * Hashes the token, looks it up, validates expiry, and bumps `last_active_at`.
+ * `mfa_enabled` reports whether the user has two-factor on; `mfa_verified`
+ * whether this session has passed it.
  *
  * @param db    - D1Database binding.
  * @param token - Plaintext session token from the client.
@@ -827,12 +1073,22 @@ export async function getSession(
   id: string;
   user_id: string;
   expires_at: string;
+  mfa_enabled: boolean;
+  mfa_verified: boolean;
 } | null> {
   const tokenHash = await sha256Hex(token);
 
-  const session = await dbQueryOne<{ id: string; user_id: string; expires_at: string }>(
+  const session = await dbQueryOne<{
+    id: string;
+    user_id: string;
+    expires_at: string;
+    mfa_verified_at: string | null;
+    mfa_enabled: number;
+  }>(
     db,
-    'SELECT id, user_id, expires_at FROM sessions WHERE token_hash = ? AND deleted_at IS NULL',
+    `SELECT s.id, s.user_id, s.expires_at, s.mfa_verified_at,
+       EXISTS (SELECT 1 FROM user_mfa f WHERE f.user_id = s.user_id AND f.status = 'active') AS mfa_enabled
+     FROM sessions s WHERE s.token_hash = ? AND s.deleted_at IS NULL`,
     [tokenHash],
   );
 
@@ -847,7 +1103,26 @@ export async function getSession(
     session.id,
   ]);
 
-  return session;
+  return {
+    id: session.id,
+    user_id: session.user_id,
+    expires_at: session.expires_at,
+    mfa_enabled: session.mfa_enabled === 1,
+    mfa_verified: !!session.mfa_verified_at,
+  };
+}
+
+/**
+ * Record that a session passed the second factor. Call only after
+ * `verifyMfaCode` (or a fresh TOTP confirmation) succeeds.
+ *
+ * @param db        - D1Database binding.
+ * @param sessionId - The session that presented the code.
+ */
+export async function markSessionMfaVerified(db: D1Database, sessionId: string): Promise<void> {
+  await dbUpdate(db, 'sessions', { mfa_verified_at: new Date().toISOString() }, 'id = ?', [
+    sessionId,
+  ]);
 }
 
 /**
@@ -883,30 +1158,136 @@ export async function revokeSession(db: D1Database, sessionId: string): Promise<
  * @example
  * ```ts
  * const sessions = await getUserSessions(env.DB, userId);
- * // [{ id, device_info, last_active_at, created_at }, ...]
+ * // [{ id, device_info, ip_address, last_active_at, created_at }, ...]
  * ```
  */
 export async function getUserSessions(
   db: D1Database,
   userId: string,
 ): Promise<
-  Array<{ id: string; device_info: string | null; last_active_at: string; created_at: string }>
+  Array<{
+    id: string;
+    device_info: string | null;
+    ip_address: string | null;
+    last_active_at: string;
+    created_at: string;
+  }>
 > {
   const now = new Date().toISOString();
   const { data } = await dbQuery<{
     id: string;
     device_info: string | null;
+    ip_address: string | null;
     last_active_at: string;
     created_at: string;
   }>(
     db,
-    'SELECT id, device_info, last_active_at, created_at FROM sessions WHERE user_id = ? AND deleted_at IS NULL AND expires_at > ? ORDER BY last_active_at DESC',
+    'SELECT id, device_info, ip_address, last_active_at, created_at FROM sessions WHERE user_id = ? AND deleted_at IS NULL AND expires_at > ? ORDER BY last_active_at DESC',
     [userId, now],
   );
 
   return data;
 }
 
+/**
+ * Revoke one of `userId`'s own sessions. Scoped to the user so a session ID
+ * belonging to someone else is indistinguishable from a missing one.
+ *
+ * @returns `true` when a live session was revoked.
+ */
+export async function revokeUserSession(
+  db: D1Database,
+  userId: string,
+  sessionId: string,
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    db,
+    'UPDATE sessions SET deleted_at = ?, updated_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL',
+    [now, now, sessionId, userId],
+  );
+  return changes > 0;
+}
+
+/**
+ * Revoke every session of `userId` except `keepSessionId` ("sign out
+ * everywhere else").
+ *
+ * @returns Number of sessions revoked.
+ */
+export async function revokeOtherSessions(
+  db: D1Database,
+  userId: string,
+  keepSessionId: string,
+): Promise<number> {
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    db,
+    'UPDATE sessions SET deleted_at = ?, updated_at = ? WHERE user_id = ? AND id != ? AND deleted_at IS NULL',
+    [now, now, userId, keepSessionId],
+  );
+  return changes;
+}
+
+/**
+ * Revoke every session of `userId` — used for an admin-forced sign-out.
+ *
+ * @returns Number of sessions revoked.
+ */
+export async function revokeAllUserSessions(db: D1Database, userId: string): Promise<number> {
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    db,
+    'UPDATE sessions SET deleted_at = ?, updated_at = ? WHERE user_id = ? AND deleted_at IS NULL',
+    [now, now, userId],
+  );
+  return changes;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short human label for a stored `User-Agent`, e.g. `"Chrome on macOS"`.
+ * Unknown agents come back as `"Unknown device"`.
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * Coarse hint of a session's IP for display: the last IPv4 octet or all but
+ * the first three IPv6 groups are masked (`203.0.113.x`, `2001:db8:85a3::…`).
+ */
+export function maskIpAddress(ip: string | null | undefined): string | null {
+  if (!ip) return null;
+  if (ip.includes(':')) {
+    const groups = ip.split(':').filter(Boolean).slice(0, 3);
+    return `${groups.join(':')}::…`;
+  }
+  const octets = ip.split('.');
+  if (octets.length !== 4) return null;
+  return `${octets.slice(0, 3).join('.')}.x`;
+}
+
 /**
  * Find an existing user by email or phone, or create a new user with an org and membership.
  *
@@ -914,7 +1295,7 @@ export async function getUserSessions(
  * with the user as `owner` and `billing_admin`.
  *
  * @param db   - D1Database binding.
- * @param opts - Lookup/creation parameters. `email` is required.
+ * @param opts - Lookup/creation parameters. `email` or a verified `phone`.
  * @returns The user's ID, org ID, and whether the user was newly created.
  *
  * @example
@@ -927,9 +1308,9 @@ export async function getUserSessions(
  */
 export async function findOrCreateUser(
   db: D1Database,
-  opts: { email?: string; display_name?: string; avatar_url?: string },
+  opts: { email?: string; phone?: string; display_name?: string; avatar_url?: string },
 ): Promise<{ user_id: string; org_id: string; is_new: boolean }> {
-  // Look up existing user by email
+  // Look up existing user by email, then by (verified) phone
   let existingUser: { id: string; email: string | null } | null = null;
 
   if (opts.email) {
@@ -940,6 +1321,14 @@ export async function findOrCreateUser(
     );
   }
 
+  if (!existingUser && opts.phone) {
+    existingUser = await dbQueryOne<{ id: string; email: string | null }>(
+      db,
+      'SELECT id, email FROM users WHERE phone = ? AND deleted_at IS NULL ORDER BY created_at ASC LIMIT 1',
+      [opts.phone],
+    );
+  }
+
   if (existingUser) {
     // Find their org
     const membership = await dbQueryOne<{ org_id: string }>(
@@ -978,7 +1367,7 @@ export async function findOrCreateUser(
   await dbInsert(db, 'users', {
     id: userId,
     email: opts.email ?? null,
-    phone: null,
+    phone: opts.phone ?? null,
     display_name: opts.display_name ?? null,
     avatar_url: opts.avatar_url ?? null,
     deleted_at: null,
@@ -986,7 +1375,7 @@ export async function findOrCreateUser(
 
   await dbInsert(db, 'orgs', {
     id: orgId,
-    name: opts.email ?? 'Personal',
+    name: opts.email ?? opts.phone ?? 'Personal',
     slug,
     deleted_at: null,
   });
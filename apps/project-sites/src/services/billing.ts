@@ -12,6 +12,7 @@
  * | --------------- | --------------------------------------------------------------------------- | ------------------------------ |
  * | `subscriptions` | `id`, `org_id`, `stripe_customer_id`, `stripe_subscription_id`              | One row per org subscription    |
  * |                 | `plan` (`free` / `paid`), `status` (`active` / `past_due` / `canceled`)     | Current billing state           |
+ * |                 | `tier` (`starter` / `pro` / `agency`), `billing_interval`, `stripe_price_id` | Which catalogue price is billed |
  * |                 | `cancel_at_period_end` (0/1), `dunning_stage`, `retention_offer_applied`    | Cancellation & dunning flags    |
  * |                 | `current_period_start`, `current_period_end`, `last_payment_at`             | Billing period timestamps       |
  * |                 | `last_payment_failed_at`, `created_at`, `updated_at`, `deleted_at`          | Audit & soft-delete timestamps  |
@@ -19,12 +20,28 @@
  * ## Stripe Event Flow
  *
  * ```
- * checkout.session.completed  -> handleCheckoutCompleted   -> plan='paid', status='active'
- * customer.subscription.updated -> handleSubscriptionUpdated -> sync status & period
+ * checkout.session.completed  -> handleCheckoutCompleted   -> plan='paid', status='active', tier
+ * customer.subscription.updated -> handleSubscriptionUpdated -> sync status, period & tier
  * customer.subscription.deleted -> handleSubscriptionDeleted -> plan='free', status='canceled'
  * invoice.payment_failed       -> handlePaymentFailed       -> status='past_due'
+ * invoice.paid                 -> handleInvoicePaid         -> status='active', dunning reset
+ *                              -> grantIncludedCredits      -> tier's AI credits for the period
  * ```
  *
+ * ## Tiers
+ *
+ * Paid plans come in the tiers of `TIER_CATALOGUE`, billed monthly or
+ * yearly. A tier's Stripe price is read from `STRIPE_PRICE_<TIER>_<MONTHLY|ANNUAL>`;
+ * without one, checkout sends the catalogue list price inline. Either way
+ * the subscription's metadata carries `tier` and `interval`, so
+ * {@link handleSubscriptionUpdated} can map any price back to its tier.
+ * Subscriptions from before tiers have `tier = NULL` and are treated as Pro.
+ * {@link changeSubscriptionPlan} moves between tiers with Stripe prorating
+ * the difference.
+ *
+ * While `past_due`, the cron-driven dunning walk in {@link dunning} sends
+ * reminders on `DUNNING.REMINDER_DAYS` and downgrades on `DUNNING.DOWNGRADE_DAY`.
+ *
  * ## Boolean Convention
  *
  * D1 (SQLite) uses integer `0` / `1` for boolean columns. All boolean fields
@@ -33,9 +50,24 @@
  * @packageDocumentation
  */
 
-import { PRICING, type Entitlements, getEntitlements, badRequest } from '@project-sites/shared';
+import {
+  BILLING_INTERVALS,
+  ENTITLEMENTS,
+  PLAN_TIERS,
+  PRICING,
+  TIER_CATALOGUE,
+  type BillingInterval,
+  type Entitlements,
+  type PlanTier,
+  getEntitlements,
+  badRequest,
+  conflict,
+} from '@project-sites/shared';
 import type { BudgetTier } from '@project-sites/shared/schemas';
 import { dbQueryOne, dbInsert, dbUpdate } from './db.js';
+import { writeAuditLog } from './audit.js';
+import { grantCredits } from './credits.js';
+import { DUNNING_DOWNGRADED_STAGE } from './dunning.js';
 import type { Env } from '../types/env.js';
 
 /**
@@ -130,12 +162,124 @@ export async function getOrCreateStripeCustomer(
   return { stripe_customer_id: customer.id };
 }
 
+/** Env vars holding each tier's live Stripe price, by billing interval. */
+const TIER_PRICE_ENV: Record<PlanTier, Record<BillingInterval, keyof Env>> = {
+  starter: { month: 'STRIPE_PRICE_STARTER_MONTHLY', year: 'STRIPE_PRICE_STARTER_ANNUAL' },
+  pro: { month: 'STRIPE_PRICE_PRO_MONTHLY', year: 'STRIPE_PRICE_PRO_ANNUAL' },
+  agency: { month: 'STRIPE_PRICE_AGENCY_MONTHLY', year: 'STRIPE_PRICE_AGENCY_ANNUAL' },
+};
+
+/** A tier and the interval it is billed on. */
+export interface TierPrice {
+  tier: PlanTier;
+  interval: BillingInterval;
+}
+
+function isPlanTier(value: unknown): value is PlanTier {
+  return PLAN_TIERS.includes(value as PlanTier);
+}
+
+function isBillingInterval(value: unknown): value is BillingInterval {
+  return BILLING_INTERVALS.includes(value as BillingInterval);
+}
+
+/** Catalogue list price of a tier, in `PRICING.CURRENCY` cents. */
+export function tierPriceCents({ tier, interval }: TierPrice): number {
+  const entry = TIER_CATALOGUE[tier];
+  return interval === 'year' ? entry.annual_cents : entry.monthly_cents;
+}
+
+/**
+ * Map a Stripe price to the tier it bills. Configured price IDs win; a
+ * catalogue price sent inline is recognised by the `tier` / `interval`
+ * metadata checkout and plan changes put on the subscription.
+ *
+ * @param env      - Worker environment holding the `STRIPE_PRICE_*` IDs.
+ * @param price    - The subscription item's price (`id`, `recurring.interval`).
+ * @param metadata - The subscription's metadata.
+ * @returns The tier and interval, or `null` for a price we do not sell.
+ */
+export function tierForStripePrice(
+  env: Env,
+  price: { id: string; recurring?: { interval?: string } | null } | null | undefined,
+  metadata?: { tier?: string; interval?: string },
+): TierPrice | null {
+  if (price) {
+    for (const tier of PLAN_TIERS) {
+      for (const interval of BILLING_INTERVALS) {
+        if (env[TIER_PRICE_ENV[tier][interval]] === price.id) return { tier, interval };
+      }
+    }
+  }
+  if (!isPlanTier(metadata?.tier)) return null;
+  const interval = price?.recurring?.interval ?? metadata?.interval;
+  return { tier: metadata.tier, interval: isBillingInterval(interval) ? interval : 'month' };
+}
+
+/**
+ * Append the line item for a tier at `line_items[item]`: its configured
+ * Stripe price, or the catalogue list price inline.
+ */
+function appendTierLineItem(
+  params: URLSearchParams,
+  env: Env,
+  item: number,
+  { tier, interval }: TierPrice,
+): void {
+  const priceId = env[TIER_PRICE_ENV[tier][interval]] as string | undefined;
+  if (priceId) {
+    params.append(`line_items[${item}][price]`, priceId);
+  } else {
+    params.append(`line_items[${item}][price_data][currency]`, PRICING.CURRENCY);
+    params.append(
+      `line_items[${item}][price_data][unit_amount]`,
+      String(tierPriceCents({ tier, interval })),
+    );
+    params.append(`line_items[${item}][price_data][recurring][interval]`, interval);
+    params.append(
+      `line_items[${item}][price_data][product_data][name]`,
+      `Project Sites ${TIER_CATALOGUE[tier].name}`,
+    );
+    params.append(
+      `line_items[${item}][price_data][product_data][description]`,
+      TIER_CATALOGUE[tier].description,
+    );
+  }
+  params.append(`line_items[${item}][quantity]`, '1');
+}
+
+/** Tag the checkout and the subscription it creates with the org and tier. */
+function appendTierMetadata(params: URLSearchParams, orgId: string, plan: TierPrice): void {
+  params.append('metadata[tier]', plan.tier);
+  params.append('metadata[interval]', plan.interval);
+  params.append('subscription_data[metadata][org_id]', orgId);
+  params.append('subscription_data[metadata][tier]', plan.tier);
+  params.append('subscription_data[metadata][interval]', plan.interval);
+}
+
+/** A domain order to charge for in a checkout session. */
+export interface DomainCharge {
+  order_id: string;
+  domain: string;
+  /** Shown under the line item, e.g. `Registration, 2 years`. */
+  description: string;
+  amount_cents: number;
+}
+
 /**
  * Create a Stripe Checkout session optimised for Stripe Link.
  *
  * Resolves (or creates) the org's Stripe customer, then builds a Checkout
- * session with card + Link payment methods, a single Pro line-item, and
- * optional promotion codes.
+ * session with card + Link payment methods, a single line-item for the
+ * chosen tier and interval (Pro monthly by default), and optional promotion
+ * codes.
+ *
+ * With `opts.domain` the session also charges for a domain order (see
+ * {@link services/domain_registration}) as a one-off line item. Custom
+ * domains need a paid plan, so an org without one buys both in one
+ * checkout; an org already paying gets a `payment` session for the domain
+ * alone. The metadata carries `type: 'domain_purchase'` and
+ * `domain_order_id` for the webhook.
  *
  * @param db   - The D1Database binding from `env.DB`.
  * @param env  - Worker environment containing `STRIPE_SECRET_KEY`.
@@ -165,6 +309,9 @@ export async function createCheckoutSession(
     successUrl: string;
     cancelUrl: string;
     budgetTier?: BudgetTier;
+    tier?: PlanTier;
+    interval?: BillingInterval;
+    domain?: DomainCharge;
   },
 ): Promise<{ checkout_url: string; session_id: string }> {
   const { stripe_customer_id } = await getOrCreateStripeCustomer(
@@ -174,24 +321,42 @@ export async function createCheckoutSession(
     opts.customerEmail,
   );
 
+  // A domain on its own only when the org already pays for a plan
+  const includePlan = !opts.domain || (await getOrgEntitlements(db, opts.orgId)).plan !== 'paid';
+
   const params = new URLSearchParams({
-    mode: 'subscription',
+    mode: includePlan ? 'subscription' : 'payment',
     customer: stripe_customer_id,
     success_url: opts.successUrl,
     cancel_url: opts.cancelUrl,
     'payment_method_types[0]': 'card',
     'payment_method_types[1]': 'link',
-    'line_items[0][price_data][currency]': PRICING.CURRENCY,
-    'line_items[0][price_data][unit_amount]': String(PRICING.MONTHLY_CENTS),
-    'line_items[0][price_data][recurring][interval]': 'month',
-    'line_items[0][price_data][product_data][name]': 'Project Sites Pro',
-    'line_items[0][price_data][product_data][description]':
-      'Remove top bar, custom domains, analytics',
-    'line_items[0][quantity]': '1',
     allow_promotion_codes: 'true',
     billing_address_collection: 'auto',
   });
 
+  let item = 0;
+  if (includePlan) {
+    const plan: TierPrice = { tier: opts.tier ?? 'pro', interval: opts.interval ?? 'month' };
+    appendTierLineItem(params, env, item, plan);
+    appendTierMetadata(params, opts.orgId, plan);
+    item++;
+  }
+
+  if (opts.domain) {
+    params.append(`line_items[${item}][price_data][currency]`, PRICING.CURRENCY);
+    params.append(`line_items[${item}][price_data][unit_amount]`, String(opts.domain.amount_cents));
+    params.append(`line_items[${item}][price_data][product_data][name]`, opts.domain.domain);
+    params.append(
+      `line_items[${item}][price_data][product_data][description]`,
+      opts.domain.description,
+    );
+    params.append(`line_items[${item}][quantity]`, '1');
+    params.append('metadata[type]', 'domain_purchase');
+    params.append('metadata[domain]', opts.domain.domain);
+    params.append('metadata[domain_order_id]', opts.domain.order_id);
+  }
+
   if (opts.siteId) {
     params.append('metadata[site_id]', opts.siteId);
   }
@@ -249,6 +414,8 @@ export async function createEmbeddedCheckoutSession(
     customerEmail: string;
     returnUrl: string;
     budgetTier?: BudgetTier;
+    tier?: PlanTier;
+    interval?: BillingInterval;
   },
 ): Promise<{ client_secret: string; session_id: string }> {
   const { stripe_customer_id } = await getOrCreateStripeCustomer(
@@ -265,17 +432,14 @@ export async function createEmbeddedCheckoutSession(
     return_url: opts.returnUrl,
     'payment_method_types[0]': 'card',
     'payment_method_types[1]': 'link',
-    'line_items[0][price_data][currency]': PRICING.CURRENCY,
-    'line_items[0][price_data][unit_amount]': String(PRICING.MONTHLY_CENTS),
-    'line_items[0][price_data][recurring][interval]': 'month',
-    'line_items[0][price_data][product_data][name]': 'Project Sites Pro',
-    'line_items[0][price_data][product_data][description]':
-      'Remove top bar, custom domains, analytics',
-    'line_items[0][quantity]': '1',
     allow_promotion_codes: 'true',
     billing_address_collection: 'auto',
   });
 
+  const plan: TierPrice = { tier: opts.tier ?? 'pro', interval: opts.interval ?? 'month' };
+  appendTierLineItem(params, env, 0, plan);
+  appendTierMetadata(params, opts.orgId, plan);
+
   if (opts.siteId) {
     params.append('metadata[site_id]', opts.siteId);
   }
@@ -322,8 +486,12 @@ export async function createEmbeddedCheckoutSession(
  * Handle the `checkout.session.completed` Stripe webhook event.
  *
  * Updates the organisation's subscription row to `plan = 'paid'` and
- * `status = 'active'`, records the Stripe subscription ID and payment
- * timestamp, then fires the optional external sale webhook.
+ * `status = 'active'`, records the Stripe subscription ID, the tier and
+ * interval bought (from the session metadata) and the payment timestamp,
+ * then fires the optional external sale webhook.
+ *
+ * Domain-only checkouts (`payment` mode, no subscription) leave the plan
+ * alone; the webhook route completes their domain order separately.
  *
  * @param db    - The D1Database binding from `env.DB`.
  * @param env   - Worker environment (Stripe key, webhook config).
@@ -343,8 +511,14 @@ export async function handleCheckoutCompleted(
   env: Env,
   event: {
     customer: string;
-    subscription: string;
-    metadata?: { org_id?: string; site_id?: string };
+    subscription: string | null;
+    metadata?: {
+      org_id?: string;
+      site_id?: string;
+      type?: string;
+      tier?: string;
+      interval?: string;
+    };
   },
 ): Promise<void> {
   const orgId = event.metadata?.org_id;
@@ -360,6 +534,20 @@ export async function handleCheckoutCompleted(
     throw badRequest('Missing org_id in checkout metadata');
   }
 
+  if (!event.subscription) {
+    console.warn(
+      JSON.stringify({
+        level: 'info',
+        service: 'billing',
+        message: 'One-off checkout completed — plan unchanged',
+        org_id: orgId,
+        type: event.metadata?.type ?? null,
+      }),
+    );
+    return;
+  }
+
+  const bought = tierForStripePrice(env, null, event.metadata);
   console.warn(
     JSON.stringify({
       level: 'info',
@@ -367,6 +555,7 @@ export async function handleCheckoutCompleted(
       message: 'Checkout completed — upgrading to paid',
       org_id: orgId,
       subscription: event.subscription,
+      tier: bought?.tier ?? null,
     }),
   );
 
@@ -379,6 +568,7 @@ export async function handleCheckoutCompleted(
       status: 'active',
       dunning_stage: 0,
       last_payment_at: new Date().toISOString(),
+      ...(bought ? { tier: bought.tier, billing_interval: bought.interval } : {}),
     },
     'org_id = ?',
     [orgId],
@@ -406,6 +596,7 @@ export async function handleCheckoutCompleted(
       site_id: event.metadata?.site_id ?? null,
       stripe_customer_id: event.customer,
       stripe_subscription_id: event.subscription,
+      amount_cents: tierPriceCents(bought ?? { tier: 'pro', interval: 'month' }),
     });
   }
 }
@@ -413,15 +604,18 @@ export async function handleCheckoutCompleted(
 /**
  * Handle the `customer.subscription.updated` Stripe webhook event.
  *
- * Syncs the subscription status, cancellation flag, and billing period
- * timestamps from Stripe into the local `subscriptions` row.
+ * Syncs the subscription status, cancellation flag, billing period
+ * timestamps and price from Stripe into the local `subscriptions` row. The
+ * price is mapped to a tier with {@link tierForStripePrice}; a price we do
+ * not sell leaves the recorded tier alone.
  *
  * @param db    - The D1Database binding from `env.DB`.
+ * @param env   - Worker environment holding the `STRIPE_PRICE_*` IDs.
  * @param event - Parsed Stripe subscription object with period timestamps (Unix seconds).
  *
  * @example
  * ```ts
- * await handleSubscriptionUpdated(env.DB, {
+ * await handleSubscriptionUpdated(env.DB, env, {
  *   id: 'sub_xxx',
  *   status: 'active',
  *   cancel_at_period_end: false,
@@ -433,18 +627,22 @@ export async function handleCheckoutCompleted(
  */
 export async function handleSubscriptionUpdated(
   db: D1Database,
+  env: Env,
   event: {
     id: string;
     status: string;
     cancel_at_period_end: boolean;
     current_period_start: number;
     current_period_end: number;
-    metadata?: { org_id?: string };
+    items?: { data: Array<{ price: { id: string; recurring?: { interval?: string } | null } }> };
+    metadata?: { org_id?: string; tier?: string; interval?: string };
   },
 ): Promise<void> {
   const orgId = event.metadata?.org_id;
   if (!orgId) return;
 
+  const price = event.items?.data[0]?.price;
+  const plan = tierForStripePrice(env, price, event.metadata);
   console.warn(
     JSON.stringify({
       level: 'info',
@@ -453,6 +651,7 @@ export async function handleSubscriptionUpdated(
       org_id: orgId,
       status: event.status,
       cancel_at_period_end: event.cancel_at_period_end,
+      tier: plan?.tier ?? null,
     }),
   );
 
@@ -464,6 +663,8 @@ export async function handleSubscriptionUpdated(
       cancel_at_period_end: event.cancel_at_period_end ? 1 : 0,
       current_period_start: new Date(event.current_period_start * 1000).toISOString(),
       current_period_end: new Date(event.current_period_end * 1000).toISOString(),
+      ...(price ? { stripe_price_id: price.id } : {}),
+      ...(plan ? { tier: plan.tier, billing_interval: plan.interval } : {}),
     },
     'org_id = ?',
     [orgId],
@@ -474,7 +675,7 @@ export async function handleSubscriptionUpdated(
  * Handle the `customer.subscription.deleted` Stripe webhook event (cancellation).
  *
  * Downgrades the organisation to the free plan and clears the Stripe
- * subscription ID.
+ * subscription ID and tier.
  *
  * @param db    - The D1Database binding from `env.DB`.
  * @param event - Parsed Stripe subscription object with metadata.
@@ -511,6 +712,8 @@ export async function handleSubscriptionDeleted(
       plan: 'free',
       status: 'canceled',
       stripe_subscription_id: null,
+      tier: null,
+      billing_interval: null,
     },
     'org_id = ?',
     [orgId],
@@ -523,8 +726,9 @@ export async function handleSubscriptionDeleted(
 /**
  * Handle the `invoice.payment_failed` Stripe webhook event.
  *
- * Marks the subscription as `past_due` and records the failure timestamp
- * for dunning-flow tracking.
+ * Marks the subscription as `past_due` and records the failure timestamp.
+ * The first failure of an episode also stamps `past_due_since`, which anchors
+ * the dunning schedule; Stripe's retries only move `last_payment_failed_at`.
  *
  * @param db    - The D1Database binding from `env.DB`.
  * @param event - Parsed Stripe invoice event with subscription and metadata.
@@ -554,25 +758,214 @@ export async function handlePaymentFailed(
     }),
   );
 
+  const now = new Date().toISOString();
   await dbUpdate(
     db,
     'subscriptions',
     {
       status: 'past_due',
-      last_payment_failed_at: new Date().toISOString(),
+      last_payment_failed_at: now,
     },
     'org_id = ?',
     [orgId],
   );
+  await dbUpdate(
+    db,
+    'subscriptions',
+    { past_due_since: now },
+    'org_id = ? AND past_due_since IS NULL',
+    [orgId],
+  );
+}
+
+/**
+ * Handle the `invoice.paid` Stripe webhook event.
+ *
+ * Ends any dunning episode: the subscription returns to `active` with
+ * `dunning_stage = 0`. If dunning had already downgraded the org, the plan
+ * and the sites it downgraded are restored to `paid` (detached custom
+ * domains must be re-added). Invoices rarely carry metadata, so the org is
+ * resolved from `metadata.org_id` or, failing that, the Stripe customer.
+ *
+ * @param db    - The D1Database binding from `env.DB`.
+ * @param event - Parsed Stripe invoice with customer and optional metadata.
+ * @returns Whether a dunning episode was reset.
+ *
+ * @example
+ * ```ts
+ * await handleInvoicePaid(env.DB, { customer: 'cus_xxx', subscription: 'sub_xxx' });
+ * ```
+ */
+export async function handleInvoicePaid(
+  db: D1Database,
+  event: { customer: string; subscription?: string | null; metadata?: { org_id?: string } },
+): Promise<{ reset: boolean }> {
+  const sub = await dbQueryOne<{
+    id: string;
+    org_id: string;
+    status: string;
+    dunning_stage: number;
+  }>(
+    db,
+    event.metadata?.org_id
+      ? 'SELECT id, org_id, status, dunning_stage FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL'
+      : 'SELECT id, org_id, status, dunning_stage FROM subscriptions WHERE stripe_customer_id = ? AND deleted_at IS NULL',
+    [event.metadata?.org_id ?? event.customer],
+  );
+  if (!sub || (sub.status !== 'past_due' && sub.dunning_stage === 0)) return { reset: false };
+
+  const wasDowngraded = sub.dunning_stage >= DUNNING_DOWNGRADED_STAGE;
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'billing',
+      message: 'Invoice paid — resetting dunning',
+      org_id: sub.org_id,
+      dunning_stage: sub.dunning_stage,
+      restored: wasDowngraded,
+    }),
+  );
+
+  await dbUpdate(
+    db,
+    'subscriptions',
+    {
+      status: 'active',
+      dunning_stage: 0,
+      past_due_since: null,
+      last_payment_at: new Date().toISOString(),
+      ...(wasDowngraded ? { plan: 'paid' } : {}),
+    },
+    'id = ?',
+    [sub.id],
+  );
+  if (wasDowngraded) {
+    await dbUpdate(
+      db,
+      'sites',
+      { plan: 'paid', dunning_downgraded: 0 },
+      'org_id = ? AND dunning_downgraded = 1',
+      [sub.org_id],
+    );
+  }
+
+  await writeAuditLog(db, {
+    org_id: sub.org_id,
+    actor_id: null,
+    action: 'billing.dunning_reset',
+    target_type: 'subscription',
+    target_id: sub.id,
+    metadata_json: { previous_stage: sub.dunning_stage, restored_plan: wasDowngraded },
+  });
+  return { reset: true };
+}
+
+/** Invoices that open a billing period (as opposed to prorations and one-offs). */
+const PERIOD_INVOICE_REASONS = ['subscription_create', 'subscription_cycle'];
+
+/**
+ * Grant the AI credits a tier includes, on the `invoice.paid` that opens a
+ * billing period. Annual invoices grant twelve months at once, including
+ * the `subscription_update` invoice Stripe raises when a monthly plan moves
+ * to yearly and a new annual period starts. Other proration invoices from
+ * plan changes grant nothing; the new allowance starts with the next period.
+ *
+ * The org, tier and interval come from the subscription metadata Stripe
+ * copies onto the invoice (`subscription_details.metadata`), so a first
+ * invoice paid before `checkout.session.completed` has marked the org paid
+ * still grants. Invoices without it fall back to the local subscription
+ * row found by customer. Grants go through {@link grantCredits} and do not
+ * count as purchased credits.
+ *
+ * @param db    - The D1Database binding from `env.DB`.
+ * @param env   - Worker environment (the credit ledger lives in `env.DB`).
+ * @param event - Parsed Stripe invoice with its id, customer, `billing_reason`
+ *   and subscription metadata.
+ * @returns Credits granted (0 when the invoice does not open a period).
+ *
+ * @example
+ * ```ts
+ * await grantIncludedCredits(env.DB, env, {
+ *   id: 'in_xxx', customer: 'cus_xxx', billing_reason: 'subscription_cycle',
+ *   subscription_details: { metadata: { org_id: 'org-uuid', tier: 'pro', interval: 'month' } },
+ * });
+ * ```
+ */
+export async function grantIncludedCredits(
+  db: D1Database,
+  env: Env,
+  event: {
+    id: string;
+    customer: string;
+    billing_reason?: string | null;
+    subscription_details?: {
+      metadata?: { org_id?: string; tier?: string; interval?: string } | null;
+    } | null;
+  },
+): Promise<{ granted: number }> {
+  const reason = event.billing_reason;
+  if (!reason || (!PERIOD_INVOICE_REASONS.includes(reason) && reason !== 'subscription_update')) {
+    return { granted: 0 };
+  }
+
+  const metadata = event.subscription_details?.metadata ?? undefined;
+  let plan = tierForStripePrice(env, null, metadata);
+  let orgId = plan ? metadata?.org_id : undefined;
+  if (!plan || !orgId) {
+    const sub = await dbQueryOne<{
+      org_id: string;
+      plan: string;
+      tier: string | null;
+      billing_interval: string | null;
+    }>(
+      db,
+      'SELECT org_id, plan, tier, billing_interval FROM subscriptions WHERE stripe_customer_id = ? AND deleted_at IS NULL',
+      [event.customer],
+    );
+    if (!sub || sub.plan !== 'paid') return { granted: 0 };
+    orgId = sub.org_id;
+    plan = {
+      tier: isPlanTier(sub.tier) ? sub.tier : 'pro',
+      interval: isBillingInterval(sub.billing_interval) ? sub.billing_interval : 'month',
+    };
+  }
+
+  // Interval changes invoice straight away: a move to yearly opens a new annual
+  // allowance, a move to monthly is still covered by the annual grant
+  if (reason === 'subscription_update' && plan.interval !== 'year') return { granted: 0 };
+
+  const months = plan.interval === 'year' ? 12 : 1;
+  const granted = ENTITLEMENTS[plan.tier].aiCreditsPerMonth * months;
+  if (granted === 0) return { granted };
+
+  await grantCredits(env, {
+    orgId,
+    amount: granted,
+    stripeInvoiceId: event.id,
+    reason: `plan_${plan.tier}`,
+  });
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'billing',
+      message: 'Included AI credits granted',
+      org_id: orgId,
+      tier: plan.tier,
+      credits: granted,
+      invoice: event.id,
+    }),
+  );
+  return { granted };
 }
 
 /**
  * Get organisation entitlements based on subscription state.
  *
  * Looks up the current subscription for the org and returns the full
- * entitlements object. An org is considered `paid` only when both
- * `plan = 'paid'` **and** `status = 'active'`; all other states
- * fall back to the `free` tier.
+ * entitlements object for its tier. An org is considered `paid` only when
+ * both `plan = 'paid'` **and** `status = 'active'`; all other states
+ * fall back to the `free` tier. Paid rows without a tier (subscriptions
+ * from before tiers) resolve to Pro.
  *
  * @param db    - The D1Database binding from `env.DB`.
  * @param orgId - Organisation UUID.
@@ -585,9 +978,9 @@ export async function handlePaymentFailed(
  * ```
  */
 export async function getOrgEntitlements(db: D1Database, orgId: string): Promise<Entitlements> {
-  const sub = await dbQueryOne<{ plan: string; status: string }>(
+  const sub = await dbQueryOne<{ plan: string; status: string; tier: string | null }>(
     db,
-    'SELECT plan, status FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
+    'SELECT plan, status, tier FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
     [orgId],
   );
 
@@ -595,14 +988,14 @@ export async function getOrgEntitlements(db: D1Database, orgId: string): Promise
     return getEntitlements(orgId, 'free');
   }
 
-  return getEntitlements(orgId, 'paid');
+  return getEntitlements(orgId, isPlanTier(sub.tier) ? sub.tier : 'paid');
 }
 
 /**
  * Get full subscription details for an organisation.
  *
- * Returns the plan, status, Stripe identifiers, cancellation flag, and
- * current billing-period end date. Returns `null` when the org has no
+ * Returns the plan, tier, billing interval, status, Stripe identifiers,
+ * cancellation flag, and current billing-period end date. Returns `null` when the org has no
  * active (non-deleted) subscription row.
  *
  * @param db    - The D1Database binding from `env.DB`.
@@ -622,6 +1015,8 @@ export async function getOrgSubscription(
   orgId: string,
 ): Promise<{
   plan: string;
+  tier: PlanTier | null;
+  billing_interval: BillingInterval | null;
   status: string;
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
@@ -630,6 +1025,8 @@ export async function getOrgSubscription(
 } | null> {
   const row = await dbQueryOne<{
     plan: string;
+    tier: PlanTier | null;
+    billing_interval: BillingInterval | null;
     status: string;
     stripe_customer_id: string | null;
     stripe_subscription_id: string | null;
@@ -637,7 +1034,7 @@ export async function getOrgSubscription(
     current_period_end: string | null;
   }>(
     db,
-    'SELECT plan, status, stripe_customer_id, stripe_subscription_id, cancel_at_period_end, current_period_end FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
+    'SELECT plan, tier, billing_interval, status, stripe_customer_id, stripe_subscription_id, cancel_at_period_end, current_period_end FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
     [orgId],
   );
 
@@ -646,6 +1043,8 @@ export async function getOrgSubscription(
   // Convert D1 integer boolean (0/1) back to JS boolean for the public API
   return {
     plan: row.plan,
+    tier: row.tier ?? null,
+    billing_interval: row.billing_interval ?? null,
     status: row.status,
     stripe_customer_id: row.stripe_customer_id,
     stripe_subscription_id: row.stripe_subscription_id,
@@ -654,6 +1053,167 @@ export async function getOrgSubscription(
   };
 }
 
+/**
+ * Move an org's subscription to another tier or billing interval.
+ *
+ * Swaps the price on the subscription's item through the Stripe
+ * subscription update API with `proration_behavior=create_prorations`, so
+ * an upgrade is charged and a downgrade credited for the rest of the
+ * period on the next invoice. The new `tier` / `interval` metadata goes on
+ * the subscription in the same call, and the local row is updated straight
+ * away rather than waiting for `customer.subscription.updated`.
+ *
+ * A downgrade is refused while the org uses more custom domains or team
+ * seats than the target tier allows.
+ *
+ * @param db     - The D1Database binding from `env.DB`.
+ * @param env    - Worker environment containing `STRIPE_SECRET_KEY`.
+ * @param orgId  - Organisation UUID.
+ * @param target - The tier and interval to move to.
+ * @returns The previous and the new tier and interval.
+ * @throws {badRequest} Without an active paid subscription, or when Stripe refuses.
+ * @throws {conflict} When the org is over the target tier's limits.
+ *
+ * @example
+ * ```ts
+ * await changeSubscriptionPlan(env.DB, env, orgId, { tier: 'agency', interval: 'year' });
+ * ```
+ */
+export async function changeSubscriptionPlan(
+  db: D1Database,
+  env: Env,
+  orgId: string,
+  target: TierPrice,
+): Promise<{ previous: TierPrice; current: TierPrice; changed: boolean }> {
+  const sub = await dbQueryOne<{
+    id: string;
+    plan: string;
+    status: string;
+    stripe_subscription_id: string | null;
+    tier: string | null;
+    billing_interval: string | null;
+  }>(
+    db,
+    'SELECT id, plan, status, stripe_subscription_id, tier, billing_interval FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
+    [orgId],
+  );
+  if (!sub?.stripe_subscription_id || sub.plan !== 'paid') {
+    throw badRequest('No paid subscription to change. Start a checkout instead.');
+  }
+  if (sub.status !== 'active') {
+    throw badRequest('Settle the outstanding invoice before changing plans');
+  }
+
+  const previous: TierPrice = {
+    tier: isPlanTier(sub.tier) ? sub.tier : 'pro',
+    interval: isBillingInterval(sub.billing_interval) ? sub.billing_interval : 'month',
+  };
+  if (previous.tier === target.tier && previous.interval === target.interval) {
+    return { previous, current: previous, changed: false };
+  }
+
+  const limits = ENTITLEMENTS[target.tier];
+  const tierName = TIER_CATALOGUE[target.tier].name;
+  const domains = await dbQueryOne<{ count: number }>(
+    db,
+    'SELECT COUNT(*) AS count FROM hostnames WHERE org_id = ? AND type = ? AND redirect_to IS NULL AND deleted_at IS NULL',
+    [orgId, 'custom_cname'],
+  );
+  const extraDomains = (domains?.count ?? 0) - limits.maxCustomDomains;
+  if (extraDomains > 0) {
+    throw conflict(
+      `Remove ${extraDomains} custom domain${extraDomains === 1 ? '' : 's'} before moving to ${tierName}`,
+    );
+  }
+  const seats = await dbQueryOne<{ count: number }>(
+    db,
+    'SELECT COUNT(*) AS count FROM memberships WHERE org_id = ? AND deleted_at IS NULL',
+    [orgId],
+  );
+  const extraSeats = (seats?.count ?? 0) - limits.teamSeats;
+  if (extraSeats > 0) {
+    throw conflict(
+      `Remove ${extraSeats} team member${extraSeats === 1 ? '' : 's'} before moving to ${tierName}`,
+    );
+  }
+
+  const headers = {
+    Authorization: `Bearer ${env.STRIPE_SECRET_KEY}`,
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  const url = `https://api.stripe.com/v1/subscriptions/${encodeURIComponent(sub.stripe_subscription_id)}`;
+
+  // The item id (and, for inline prices, the product) come from Stripe
+  const current = await fetch(url, { headers });
+  if (!current.ok) {
+    throw badRequest(`Failed to load Stripe subscription: ${await current.text()}`);
+  }
+  const stripeSub = (await current.json()) as {
+    items: { data: Array<{ id: string; price: { id: string; product: string } }> };
+  };
+  const item = stripeSub.items.data[0];
+  if (!item) throw badRequest('Stripe subscription has no items');
+
+  const params = new URLSearchParams({
+    'items[0][id]': item.id,
+    proration_behavior: 'create_prorations',
+    'metadata[org_id]': orgId,
+    'metadata[tier]': target.tier,
+    'metadata[interval]': target.interval,
+  });
+  const priceId = env[TIER_PRICE_ENV[target.tier][target.interval]] as string | undefined;
+  if (priceId) {
+    params.append('items[0][price]', priceId);
+  } else {
+    params.append('items[0][price_data][currency]', PRICING.CURRENCY);
+    params.append('items[0][price_data][product]', item.price.product);
+    params.append('items[0][price_data][unit_amount]', String(tierPriceCents(target)));
+    params.append('items[0][price_data][recurring][interval]', target.interval);
+  }
+
+  const response = await fetch(url, { method: 'POST', headers, body: params });
+  if (!response.ok) {
+    const err = await response.text();
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'billing',
+        message: 'Stripe plan change failed',
+        org_id: orgId,
+        status: response.status,
+      }),
+    );
+    throw badRequest(`Failed to change plan: ${err}`);
+  }
+
+  const updated = (await response.json()) as {
+    items: { data: Array<{ price: { id: string } }> };
+  };
+  await dbUpdate(
+    db,
+    'subscriptions',
+    {
+      tier: target.tier,
+      billing_interval: target.interval,
+      stripe_price_id: updated.items.data[0]?.price.id ?? null,
+    },
+    'id = ?',
+    [sub.id],
+  );
+
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'billing',
+      message: 'Plan changed',
+      org_id: orgId,
+      from: previous,
+      to: target,
+    }),
+  );
+  return { previous, current: target, changed: true };
+}
+
 /**
  * Create a Stripe Billing Portal session.
  *
@@ -714,6 +1274,87 @@ export async function createBillingPortalSession(
   return { portal_url: session.url };
 }
 
+/**
+ * Refund part of a Checkout payment, such as a domain the registrar refused.
+ *
+ * A `payment` session is refunded through its payment intent; a
+ * `subscription` session through the payment of its first invoice.
+ *
+ * @param env         - Worker environment containing `STRIPE_SECRET_KEY`.
+ * @param sessionId   - The Checkout session ID (`cs_xxx`).
+ * @param amountCents - Amount to refund, at most what the session charged.
+ * @param metadata    - Key/value pairs stored on the Stripe refund.
+ * @returns The Stripe refund ID (`re_xxx`).
+ * @throws BAD_REQUEST — Stripe refused the lookup or the refund, or the
+ *   session has no payment to refund.
+ *
+ * @example
+ * ```ts
+ * const refundId = await refundCheckoutCharge(env, 'cs_xxx', 1299, {
+ *   domain_order_id: orderId,
+ * });
+ * ```
+ */
+export async function refundCheckoutCharge(
+  env: Env,
+  sessionId: string,
+  amountCents: number,
+  metadata: Record<string, string> = {},
+): Promise<string> {
+  const headers = { Authorization: `Bearer ${env.STRIPE_SECRET_KEY}` };
+  const lookup = await fetch(
+    `https://api.stripe.com/v1/checkout/sessions/${encodeURIComponent(sessionId)}?expand[]=invoice`,
+    { headers },
+  );
+  if (!lookup.ok) {
+    throw badRequest(`Failed to look up Stripe checkout: ${await lookup.text()}`);
+  }
+  const session = (await lookup.json()) as {
+    payment_intent: string | null;
+    invoice: { payment_intent: string | null } | null;
+  };
+  const paymentIntent = session.payment_intent ?? session.invoice?.payment_intent ?? null;
+  if (!paymentIntent) throw badRequest(`Checkout ${sessionId} has no payment to refund`);
+
+  const params = new URLSearchParams({
+    payment_intent: paymentIntent,
+    amount: String(amountCents),
+  });
+  for (const [key, value] of Object.entries(metadata)) params.append(`metadata[${key}]`, value);
+
+  const response = await fetch('https://api.stripe.com/v1/refunds', {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params,
+  });
+  if (!response.ok) {
+    const err = await response.text();
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'billing',
+        message: 'Stripe refund failed',
+        session_id: sessionId,
+        status: response.status,
+      }),
+    );
+    throw badRequest(`Failed to refund Stripe payment: ${err}`);
+  }
+
+  const refund = (await response.json()) as { id: string };
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'billing',
+      message: 'Checkout charge refunded',
+      session_id: sessionId,
+      refund_id: refund.id,
+      amount_cents: amountCents,
+    }),
+  );
+  return refund.id;
+}
+
 /**
  * Call the optional external sale webhook with retry and exponential backoff.
  *
@@ -733,6 +1374,7 @@ export async function createBillingPortalSession(
  *   site_id: 'site-uuid',
  *   stripe_customer_id: 'cus_xxx',
  *   stripe_subscription_id: 'sub_xxx',
+ *   amount_cents: 5000,
  * });
  * ```
  */
@@ -743,6 +1385,7 @@ async function callSaleWebhook(
     site_id: string | null;
     stripe_customer_id: string;
     stripe_subscription_id: string;
+    amount_cents: number;
   },
 ): Promise<void> {
   if (!env.SALE_WEBHOOK_URL || !env.SALE_WEBHOOK_SECRET) return;
@@ -750,7 +1393,6 @@ async function callSaleWebhook(
   const body = JSON.stringify({
     ...payload,
     plan: 'paid',
-    amount_cents: PRICING.MONTHLY_CENTS,
     currency: PRICING.CURRENCY,
     timestamp: new Date().toISOString(),
     request_id: crypto.randomUUID(),
@@ -0,0 +1,375 @@
+/**
+ * @module build_stream
+ * @description Live build progress for the waiting page.
+ *
+ * `build_stream_state` (migration 0010) holds one row per site: the phase,
+ * step, percent and container log tail of its latest build. Writers:
+ *
+ * | Writer                                   | Columns                                   |
+ * | ---------------------------------------- | ----------------------------------------- |
+ * | `SiteGenerationWorkflow` (each `step.do`) | `phase`, `step`, `percent`, `log_tail`     |
+ * | `/api/internal/build-status` callback    | `step`, `log_tail` while `building`        |
+ * | Workflow terminal paths                  | `terminal_at`, `terminal_status`          |
+ *
+ * `GET /api/sites/:id/build/live` streams {@link loadBuildStream} snapshots
+ * as server-sent events. The row is only a cache: `audit_logs` stays the
+ * source of truth, and a missing or stale row (worker or container restart,
+ * builds that predate this table) is rebuilt from the `workflow.*` audit
+ * entries by {@link snapshotFromAudit}.
+ *
+ * All writers are best-effort and never throw — progress must not fail a build.
+ *
+ * @packageDocumentation
+ */
+
+import { dbExecute, dbQuery, dbQueryOne } from './db.js';
+
+/** Coarse build phases, in pipeline order. */
+export const BUILD_PHASES = [
+  'starting',
+  'assets',
+  'building',
+  'finalizing',
+  'validating',
+  'inspecting',
+  'benchmarking',
+  'notifying',
+  'published',
+  'error',
+] as const;
+export type BuildPhase = (typeof BUILD_PHASES)[number];
+
+/** Percent shown when a phase begins. `building` advances within its band. */
+const PHASE_PERCENT: Record<Exclude<BuildPhase, 'error'>, number> = {
+  starting: 2,
+  assets: 5,
+  building: 10,
+  finalizing: 85,
+  validating: 88,
+  inspecting: 91,
+  benchmarking: 94,
+  notifying: 98,
+  published: 100,
+};
+
+/** Lines of container output kept in `log_tail`. */
+export const LOG_TAIL_LINES = 30;
+
+/** A non-terminal row older than this is treated as orphaned. */
+const STALE_MS = 10 * 60_000;
+
+/** What the SSE stream sends for one site. */
+export interface BuildStreamSnapshot {
+  site_id: string;
+  build_id: string | null;
+  phase: BuildPhase;
+  step: string | null;
+  percent: number;
+  log_lines: string[];
+  started_at: string | null;
+  updated_at: string | null;
+  terminal_status: 'published' | 'error' | null;
+  /** `live` = `build_stream_state`; `audit` = rebuilt from `audit_logs`. */
+  source: 'live' | 'audit';
+}
+
+interface BuildStreamRow {
+  site_id: string;
+  build_id: string;
+  phase: string;
+  step: string | null;
+  percent: number;
+  log_tail: string | null;
+  started_at: string;
+  updated_at: string;
+  terminal_status: string | null;
+}
+
+/**
+ * Percent for the container's `step` while `building`. Claude Code fills
+ * 10–60% over its first ~15 minutes; the npm build and R2 upload that follow
+ * are fixed points.
+ */
+export function buildingPercent(step: string | null | undefined, elapsedSeconds = 0): number {
+  switch (step) {
+    case 'npm-build':
+      return 65;
+    case 'r2-upload':
+      return 75;
+    case 'collecting':
+    case 'done':
+      return 80;
+    default:
+      return 10 + Math.round(Math.min(Math.max(elapsedSeconds, 0) / 900, 1) * 50);
+  }
+}
+
+/** Keep the last {@link LOG_TAIL_LINES} non-empty lines. */
+export function trimLogTail(lines: string | string[] | null | undefined): string | null {
+  if (!lines) return null;
+  const all = (Array.isArray(lines) ? lines : lines.split('\n'))
+    .map((l) => l.replace(/\s+$/, '').slice(0, 300))
+    .filter(Boolean);
+  return all.length ? all.slice(-LOG_TAIL_LINES).join('\n') : null;
+}
+
+// ─── Writers ─────────────────────────────────────────────────
+
+/**
+ * Record that build `buildId` of `siteId` reached `phase`. A new `buildId`
+ * resets the row. Within a build nothing moves backwards: a write with a
+ * lower percent than the row (e.g. a workflow replay re-running an earlier
+ * write) or after the build finished only refreshes the log tail.
+ */
+export async function recordBuildProgress(
+  db: D1Database,
+  input: {
+    siteId: string;
+    buildId: string;
+    phase: Exclude<BuildPhase, 'published' | 'error'>;
+    step?: string | null;
+    percent?: number;
+    logTail?: string | string[] | null;
+  },
+): Promise<void> {
+  const now = new Date().toISOString();
+  const percent = Math.min(Math.round(input.percent ?? PHASE_PERCENT[input.phase]), 99);
+  // SQLite evaluates every SET expression against the pre-update row.
+  const same = 'build_stream_state.build_id = excluded.build_id';
+  const keep = `${same} AND (build_stream_state.terminal_at IS NOT NULL OR excluded.percent < build_stream_state.percent)`;
+  const { error } = await dbExecute(
+    db,
+    `INSERT INTO build_stream_state
+       (site_id, build_id, phase, step, percent, log_tail, started_at, updated_at, terminal_at, terminal_status)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL)
+     ON CONFLICT(site_id) DO UPDATE SET
+       phase = CASE WHEN ${keep} THEN build_stream_state.phase ELSE excluded.phase END,
+       step = CASE WHEN ${keep} THEN build_stream_state.step ELSE excluded.step END,
+       percent = CASE WHEN ${same} THEN MAX(build_stream_state.percent, excluded.percent) ELSE excluded.percent END,
+       log_tail = CASE WHEN ${same} THEN COALESCE(excluded.log_tail, build_stream_state.log_tail) ELSE excluded.log_tail END,
+       started_at = CASE WHEN ${same} THEN build_stream_state.started_at ELSE excluded.started_at END,
+       terminal_at = CASE WHEN ${same} THEN build_stream_state.terminal_at ELSE NULL END,
+       terminal_status = CASE WHEN ${same} THEN build_stream_state.terminal_status ELSE NULL END,
+       build_id = excluded.build_id,
+       updated_at = excluded.updated_at`,
+    [
+      input.siteId,
+      input.buildId,
+      input.phase,
+      input.step ?? null,
+      percent,
+      trimLogTail(input.logTail),
+      now,
+      now,
+    ],
+  );
+  if (error) warn('Failed to record build progress', input.siteId, error);
+}
+
+/** Mark build `buildId` finished. A later build's row is left alone. */
+export async function finishBuildStream(
+  db: D1Database,
+  input: { siteId: string; buildId: string; status: 'published' | 'error'; step?: string | null },
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await dbExecute(
+    db,
+    `UPDATE build_stream_state
+     SET phase = ?, step = COALESCE(?, step), percent = CASE WHEN ? = 'published' THEN 100 ELSE percent END,
+         terminal_at = ?, terminal_status = ?, updated_at = ?
+     WHERE site_id = ? AND build_id = ?`,
+    [
+      input.status,
+      input.step ?? null,
+      input.status,
+      now,
+      input.status,
+      now,
+      input.siteId,
+      input.buildId,
+    ],
+  );
+  if (error) warn('Failed to finish build stream', input.siteId, error);
+}
+
+/**
+ * Container status callback: refresh the step and log tail of the site's
+ * in-flight build. Only touches rows still `building`, so a late callback
+ * cannot rewind a build the workflow has moved past.
+ */
+export async function recordBuildLog(
+  db: D1Database,
+  input: { slug: string; step?: string | null; logTail?: string | string[] | null },
+): Promise<void> {
+  const logTail = trimLogTail(input.logTail);
+  if (!logTail && !input.step) return;
+  const { error } = await dbExecute(
+    db,
+    `UPDATE build_stream_state
+     SET step = COALESCE(?, step), log_tail = COALESCE(?, log_tail), updated_at = ?
+     WHERE site_id = (SELECT id FROM sites WHERE slug = ? AND deleted_at IS NULL)
+       AND phase = 'building' AND terminal_at IS NULL`,
+    [input.step ?? null, logTail, new Date().toISOString(), input.slug],
+  );
+  if (error) warn('Failed to record build log', input.slug, error);
+}
+
+// ─── Readers ─────────────────────────────────────────────────
+
+/** Audit action → phase, for the `workflow.*` entries the workflow writes. */
+const AUDIT_PHASES: Record<string, BuildPhase> = {
+  'workflow.started': 'starting',
+  'workflow.build_started': 'building',
+  'workflow.heartbeat': 'building',
+  'workflow.build_complete': 'validating',
+  'workflow.build_validation': 'inspecting',
+  'workflow.build_validation_error': 'inspecting',
+  'workflow.visual_inspection': 'benchmarking',
+  'workflow.benchmark': 'benchmarking',
+  'workflow.benchmark_error': 'notifying',
+  'workflow.retrospective_generated': 'notifying',
+  'workflow.retrospective_skipped': 'notifying',
+  'workflow.complete': 'published',
+  'workflow.minimal_done': 'published',
+  'workflow.build_error': 'error',
+  'workflow.timeout': 'error',
+  'workflow.upload_failed': 'error',
+  'workflow.kv_no_status': 'error',
+  'workflow.container_unknown_job': 'error',
+  'workflow.container_stale': 'error',
+};
+
+/**
+ * Rebuild a snapshot from audit entries (newest first, as returned by
+ * `getSiteAuditLogs`). Only entries since the latest `workflow.started`
+ * count; their messages stand in for the log tail.
+ */
+export function snapshotFromAudit(
+  siteId: string,
+  entries: { action: string; metadata_json?: unknown; created_at: string }[],
+): BuildStreamSnapshot | null {
+  const run: { action: string; meta: Record<string, unknown>; created_at: string }[] = [];
+  for (const e of entries) {
+    if (!e.action.startsWith('workflow.')) continue;
+    run.push({ action: e.action, meta: parseMeta(e.metadata_json), created_at: e.created_at });
+    if (e.action === 'workflow.started') break;
+  }
+  const latest = run.find((e) => AUDIT_PHASES[e.action]);
+  if (!latest) return null;
+
+  const phase = AUDIT_PHASES[latest.action]!;
+  const step = typeof latest.meta['step'] === 'string' ? (latest.meta['step'] as string) : null;
+  // A failed build keeps the progress it had reached before the error.
+  const reached = run.find((e) => AUDIT_PHASES[e.action] && AUDIT_PHASES[e.action] !== 'error');
+  const percentOf = (e: (typeof run)[number] | undefined): number => {
+    const p = e ? AUDIT_PHASES[e.action]! : 'starting';
+    if (p === 'error') return 0;
+    if (p === 'building') {
+      const s = typeof e?.meta['step'] === 'string' ? (e.meta['step'] as string) : null;
+      return buildingPercent(s, Number(e?.meta['elapsed_seconds'] ?? 0));
+    }
+    return PHASE_PERCENT[p];
+  };
+  const percent = percentOf(phase === 'error' ? reached : latest);
+  const started = run[run.length - 1]!;
+
+  return {
+    site_id: siteId,
+    build_id: null,
+    phase,
+    step,
+    percent,
+    log_lines: run
+      .map((e) => (typeof e.meta['message'] === 'string' ? (e.meta['message'] as string) : null))
+      .filter((m): m is string => !!m)
+      .slice(0, LOG_TAIL_LINES)
+      .reverse(),
+    started_at: started.action === 'workflow.started' ? started.created_at : null,
+    updated_at: latest.created_at,
+    terminal_status: phase === 'published' || phase === 'error' ? phase : null,
+    source: 'audit',
+  };
+}
+
+/**
+ * Current progress for `siteId`: the live row when it is fresh or terminal,
+ * otherwise the audit-log reconstruction, otherwise the bare site status.
+ */
+export async function loadBuildStream(
+  db: D1Database,
+  site: { id: string; org_id: string; status: string },
+  now = Date.now(),
+): Promise<BuildStreamSnapshot> {
+  const row = await dbQueryOne<BuildStreamRow>(
+    db,
+    `SELECT site_id, build_id, phase, step, percent, log_tail, started_at, updated_at, terminal_status
+     FROM build_stream_state WHERE site_id = ?`,
+    [site.id],
+  );
+  if (row && (row.terminal_status || now - Date.parse(row.updated_at) < STALE_MS)) {
+    return {
+      site_id: row.site_id,
+      build_id: row.build_id,
+      phase: (BUILD_PHASES as readonly string[]).includes(row.phase)
+        ? (row.phase as BuildPhase)
+        : 'building',
+      step: row.step,
+      percent: row.percent,
+      log_lines: row.log_tail ? row.log_tail.split('\n') : [],
+      started_at: row.started_at,
+      updated_at: row.updated_at,
+      terminal_status:
+        row.terminal_status === 'published' || row.terminal_status === 'error'
+          ? row.terminal_status
+          : null,
+      source: 'live',
+    };
+  }
+
+  const { data } = await dbQuery<{ action: string; metadata_json: unknown; created_at: string }>(
+    db,
+    `SELECT action, metadata_json, created_at FROM audit_logs
+     WHERE org_id = ? AND target_id = ? AND action LIKE 'workflow.%'
+     ORDER BY created_at DESC LIMIT 100`,
+    [site.org_id, site.id],
+  );
+  const fromAudit = snapshotFromAudit(site.id, data);
+  if (fromAudit) return { ...fromAudit, build_id: row?.build_id ?? null };
+
+  const terminal = site.status === 'published' || site.status === 'error' ? site.status : null;
+  return {
+    site_id: site.id,
+    build_id: row?.build_id ?? null,
+    phase: terminal ?? 'starting',
+    step: null,
+    percent: terminal === 'published' ? 100 : 0,
+    log_lines: [],
+    started_at: null,
+    updated_at: null,
+    terminal_status: terminal,
+    source: 'audit',
+  };
+}
+
+/**
+ * SSE event id for a snapshot. Clients echo it back as `Last-Event-ID` on
+ * reconnect so an unchanged snapshot is not sent twice.
+ */
+export function buildStreamEventId(snapshot: BuildStreamSnapshot): string {
+  return `${snapshot.build_id ?? 'audit'}:${snapshot.updated_at ?? '0'}:${snapshot.phase}`;
+}
+
+function parseMeta(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  if (typeof raw !== 'string') return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function warn(message: string, subject: string, error: string): void {
+  console.warn(JSON.stringify({ level: 'warn', service: 'build_stream', message, subject, error }));
+}
@@ -14,6 +14,8 @@
  * @see ~/.agentskills/06-build-and-slice-loop/web-manifest-system.md
  */
 
+import { MAX_RULES_FILE_BYTES, parseHeaders, parseRedirects } from './site_rules.js';
+
 export type Severity = 'error' | 'warn' | 'info';
 
 export interface Violation {
@@ -98,8 +100,12 @@ const TEXT_EXTENSIONS = [
   '.webmanifest',
 ];
 
+/** Extensionless text files the serving layer reads. */
+const RULE_FILES = ['_redirects', '_headers'];
+
 const isHtml = (p: string) => HTML_EXTENSIONS.some((e) => p.toLowerCase().endsWith(e));
-const isText = (p: string) => TEXT_EXTENSIONS.some((e) => p.toLowerCase().endsWith(e));
+const isText = (p: string) =>
+  TEXT_EXTENSIONS.some((e) => p.toLowerCase().endsWith(e)) || RULE_FILES.includes(p);
 const isPng = (p: string) => p.toLowerCase().endsWith('.png');
 const isFavicon = (p: string) => /favicon|apple-touch-icon|icon-\d+x\d+/i.test(p);
 const isOgImage = (p: string) => /og-image|opengraph|social-card/i.test(p);
@@ -440,6 +446,34 @@ export const validateRequiredFiles = (files: BuildFile[]): Violation[] => {
     }));
 };
 
+/** `_redirects` / `_headers` — every line must parse, or the publish is rejected. */
+export const validateSiteRules = (files: BuildFile[]): Violation[] => {
+  const out: Violation[] = [];
+  for (const file of files) {
+    if (!RULE_FILES.includes(file.path)) continue;
+    if (file.size > MAX_RULES_FILE_BYTES || file.text === undefined) {
+      out.push({
+        code: 'rules.too_large',
+        severity: 'error',
+        message: `${file.path} must be text under ${MAX_RULES_FILE_BYTES / 1024}KB`,
+        file: file.path,
+      });
+      continue;
+    }
+    const { errors } =
+      file.path === '_redirects' ? parseRedirects(file.text) : parseHeaders(file.text);
+    for (const error of errors) {
+      out.push({
+        code: file.path === '_redirects' ? 'rules.redirect_invalid' : 'rules.header_invalid',
+        severity: 'error',
+        message: error.line ? `${file.path} line ${error.line}: ${error.message}` : error.message,
+        file: file.path,
+      });
+    }
+  }
+  return out;
+};
+
 /**
  * Fail builds that under-recreate the source sitemap.
  *
@@ -490,6 +524,7 @@ export const validateBuild = (
     ...validateBannedWords(files),
     ...validateJsBundleSize(files),
     ...validateLightboxPresence(files),
+    ...validateSiteRules(files),
     ...(typeof opts.sourceRouteCount === 'number'
       ? validateRouteCount(files, opts.sourceRouteCount)
       : []),
@@ -511,8 +546,9 @@ export const validateBuild = (
  *
  * @remarks
  * Used by site-generation workflow after the container's HMAC callback confirms upload.
- * Decodes text-ish files (HTML/JS/CSS/JSON/XML/SVG/TXT) with TextDecoder; binary files
- * (PNG/JPG/WebP/etc.) are returned with `text: undefined` and only their byte size.
+ * Decodes text-ish files (HTML/JS/CSS/JSON/XML/SVG/TXT, `_redirects`/`_headers`) with
+ * TextDecoder; binary files (PNG/JPG/WebP/etc.) are returned with `text: undefined` and only
+ * their byte size.
  */
 export const loadBuildFromR2 = async (bucket: R2Bucket, prefix: string): Promise<BuildFile[]> => {
   const files: BuildFile[] = [];
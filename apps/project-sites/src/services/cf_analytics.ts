@@ -15,6 +15,7 @@
  *   blobs[6] = country (CF-IPCountry)
  *   doubles[0] = 1 (count) — useful so SUM() gives event count
  *   doubles[1] = latency_ms (when relevant; otherwise 0)
+ *   doubles[2] = response bytes ('site_serve'; otherwise 0) — feeds the site cost rollup
  *   indexes[0] = sampling key (org_id) — Analytics Engine samples within an index
  */
 import type { Env } from '../types/env.js';
@@ -39,6 +40,7 @@ export function recordEvent(
     referrer?: string | null;
     country?: string | null;
     latencyMs?: number;
+    bytes?: number;
   },
 ): void {
   if (!env.ANALYTICS) return;
@@ -52,7 +54,7 @@ export function recordEvent(
       ev.referrer ? safeHost(ev.referrer) : '-',
       ev.country ?? '-',
     ],
-    doubles: [1, ev.latencyMs ?? 0],
+    doubles: [1, ev.latencyMs ?? 0, ev.bytes ?? 0],
     indexes: [ev.orgId ?? 'anonymous'],
   });
 }
@@ -128,3 +130,29 @@ export async function loadOverview(env: Env, orgId: string): Promise<OverviewSer
     last_hour_visits: Number(lastHour?.[0]?.['visits'] ?? 0),
   };
 }
+
+/**
+ * Bytes served per site per UTC day for `[from, to]` (inclusive, YYYY-MM-DD),
+ * from the `site_serve` events. Keyed `${site_id}|${day}`.
+ */
+export async function loadSiteBandwidth(
+  env: Env,
+  from: string,
+  to: string,
+): Promise<Map<string, number>> {
+  const ds = 'projectsites_admin_v1';
+  if (![from, to].every((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))) throw new Error('Expected YYYY-MM-DD days');
+  const end = new Date(Date.parse(to) + 86_400_000).toISOString().slice(0, 10);
+  const rows = await querySql(
+    env,
+    `SELECT blob3 AS site_id, toStartOfDay(timestamp) AS day, SUM(_sample_interval * double3) AS bytes
+     FROM ${ds}
+     WHERE blob1 = 'site_serve' AND timestamp >= toDateTime('${from} 00:00:00') AND timestamp < toDateTime('${end} 00:00:00')
+     GROUP BY site_id, day`,
+  );
+  const out = new Map<string, number>();
+  for (const r of rows) {
+    out.set(`${String(r['site_id'])}|${String(r['day']).slice(0, 10)}`, Number(r['bytes'] ?? 0));
+  }
+  return out;
+}
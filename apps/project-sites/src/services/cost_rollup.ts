@@ -0,0 +1,280 @@
+/**
+ * @module cost_rollup
+ * @description Per-site, per-day usage rollup into `site_cost_daily`, which
+ * backs `GET /api/billing/site-costs`.
+ *
+ * | Column                     | Source                                                           |
+ * | -------------------------- | ---------------------------------------------------------------- |
+ * | `ai_credits`               | Net site spend in `ai_credits_ledger` (debits minus refunds)     |
+ * | `ai_calls`                 | `ai_form_logs` traces that reached a model (not `rate_limited`)  |
+ * | `bandwidth_bytes`          | `site_serve` events in Analytics Engine (`doubles[2]`)           |
+ * | `storage_bytes`            | R2 objects under `sites/{slug}/` uploaded by the end of the day  |
+ * | `estimated_cost_micro_usd` | The above, priced with {@link resolveCostPrices}                 |
+ *
+ * Rows are upserted on `(site_id, day)`, so re-running a day or a whole
+ * backfill range is safe. Storage for past days is reconstructed from the
+ * current R2 listing: objects deleted since then are not counted.
+ *
+ * The cron calls {@link runNightlyCostRollup}; the billing page can backfill
+ * a range through `POST /api/billing/site-costs/backfill`.
+ *
+ * @packageDocumentation
+ */
+
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQuery } from './db.js';
+import { loadSiteBandwidth } from './cf_analytics.js';
+
+const DAY_MS = 86_400_000;
+const GIB = 1024 ** 3;
+
+/** KV key holding the last day the nightly rollup completed. */
+export const COST_ROLLUP_MARKER_KEY = 'cost_rollup:last_day';
+
+/** How many missed days the nightly run catches up on before giving up. */
+const MAX_CATCH_UP_DAYS = 7;
+
+/** Unit prices in micro-USD (1 USD = 1,000,000). */
+export interface CostPrices {
+  /** Per AI credit spent. */
+  aiCredit: number;
+  /** Per AI call, on top of its credits (logging, tool dispatch). */
+  aiCall: number;
+  /** Per GiB served. */
+  bandwidthGb: number;
+  /** Per GiB stored for a month; each day is charged 1/30 of it. */
+  storageGbMonth: number;
+}
+
+/** Defaults, overridable per key through `SITE_COST_PRICES`. */
+export const DEFAULT_COST_PRICES: CostPrices = {
+  aiCredit: 1_000,
+  aiCall: 100,
+  bandwidthGb: 10_000,
+  storageGbMonth: 15_000,
+};
+
+/** One `site_cost_daily` row before pricing. */
+export interface SiteDayUsage {
+  ai_credits: number;
+  ai_calls: number;
+  bandwidth_bytes: number;
+  storage_bytes: number;
+}
+
+/**
+ * Merge the `SITE_COST_PRICES` JSON over {@link DEFAULT_COST_PRICES}.
+ * Unknown keys and non-numeric or negative values are ignored; malformed
+ * JSON falls back to the defaults with a warning.
+ */
+export function resolveCostPrices(env: Pick<Env, 'SITE_COST_PRICES'>): CostPrices {
+  const prices = { ...DEFAULT_COST_PRICES };
+  if (!env.SITE_COST_PRICES) return prices;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(env.SITE_COST_PRICES);
+  } catch {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'cost_rollup',
+        message: 'SITE_COST_PRICES is not valid JSON; using defaults',
+      }),
+    );
+    return prices;
+  }
+  if (!overrides || typeof overrides !== 'object') return prices;
+
+  for (const key of Object.keys(prices) as (keyof CostPrices)[]) {
+    const value = (overrides as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) prices[key] = value;
+  }
+  return prices;
+}
+
+/** Price one site-day. Never negative, even when refunds outweigh spend. */
+export function estimateCostMicroUsd(usage: SiteDayUsage, prices: CostPrices): number {
+  const cost =
+    usage.ai_credits * prices.aiCredit +
+    usage.ai_calls * prices.aiCall +
+    (usage.bandwidth_bytes / GIB) * prices.bandwidthGb +
+    (usage.storage_bytes / GIB) * (prices.storageGbMonth / 30);
+  return Math.max(0, Math.round(cost));
+}
+
+/** Every `YYYY-MM-DD` from `from` to `to`, inclusive. */
+export function daysInRange(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+    days.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+function addDays(day: string, n: number): string {
+  return new Date(Date.parse(day) + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Recompute `site_cost_daily` for every site (or only `orgId`'s) over
+ * `[from, to]`. Each site's R2 prefix is listed once for the whole range.
+ *
+ * Throws if the D1 aggregates fail, so a broken query never overwrites good
+ * rows with zeros. Bandwidth is best effort: without Analytics Engine
+ * credentials it is recorded as 0. Per-site storage failures are logged,
+ * counted in `failed` and skipped.
+ */
+export async function rollupSiteCosts(
+  env: Env,
+  opts: { from: string; to: string; orgId?: string },
+): Promise<{ days: number; rows: number; failed: number }> {
+  const days = daysInRange(opts.from, opts.to);
+  const start = opts.from;
+  const end = addDays(opts.to, 1);
+  const orgFilter = opts.orgId ? ' AND org_id = ?' : '';
+  const orgParam = opts.orgId ? [opts.orgId] : [];
+
+  const sites = await dbQuery<{ id: string; org_id: string; slug: string }>(
+    env.DB,
+    `SELECT id, org_id, slug FROM sites
+     WHERE (deleted_at IS NULL OR deleted_at >= ?)${orgFilter}`,
+    [start, ...orgParam],
+  );
+  if (sites.error) throw new Error(`Failed to load sites: ${sites.error}`);
+
+  const credits = await dbQuery<{ site_id: string; day: string; credits: number }>(
+    env.DB,
+    `SELECT site_id, substr(created_at, 1, 10) AS day, SUM(-delta) AS credits
+     FROM ai_credits_ledger
+     WHERE site_id IS NOT NULL AND reason != 'topup' AND created_at >= ? AND created_at < ?${orgFilter}
+     GROUP BY site_id, day`,
+    [start, end, ...orgParam],
+  );
+  if (credits.error) throw new Error(`Failed to aggregate AI credits: ${credits.error}`);
+
+  const calls = await dbQuery<{ site_id: string; day: string; calls: number }>(
+    env.DB,
+    `SELECT site_id, substr(created_at, 1, 10) AS day, COUNT(*) AS calls
+     FROM ai_form_logs
+     WHERE status != 'rate_limited' AND created_at >= ? AND created_at < ?${orgFilter}
+     GROUP BY site_id, day`,
+    [start, end, ...orgParam],
+  );
+  if (calls.error) throw new Error(`Failed to aggregate AI calls: ${calls.error}`);
+
+  const bandwidth = await loadSiteBandwidth(env, opts.from, opts.to).catch((err) => {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'cost_rollup',
+        message: 'Bandwidth unavailable; recording 0',
+        error: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    return new Map<string, number>();
+  });
+
+  const creditsByKey = new Map(
+    credits.data.map((r) => [`${r.site_id}|${r.day}`, Number(r.credits)]),
+  );
+  const callsByKey = new Map(calls.data.map((r) => [`${r.site_id}|${r.day}`, Number(r.calls)]));
+  const prices = resolveCostPrices(env);
+  const result = { days: days.length, rows: 0, failed: 0 };
+
+  for (const site of sites.data) {
+    let objects: { size: number; uploaded: number }[];
+    try {
+      objects = await listSiteObjects(env.SITES_BUCKET, site.slug);
+    } catch (err) {
+      result.failed++;
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'cost_rollup',
+          message: 'Failed to list site storage',
+          site_id: site.id,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+      continue;
+    }
+
+    for (const day of days) {
+      const key = `${site.id}|${day}`;
+      const dayEnd = Date.parse(addDays(day, 1));
+      const usage: SiteDayUsage = {
+        ai_credits: creditsByKey.get(key) ?? 0,
+        ai_calls: callsByKey.get(key) ?? 0,
+        bandwidth_bytes: Math.round(bandwidth.get(key) ?? 0),
+        storage_bytes: objects.reduce((sum, o) => (o.uploaded < dayEnd ? sum + o.size : sum), 0),
+      };
+      if (!usage.ai_credits && !usage.ai_calls && !usage.bandwidth_bytes && !usage.storage_bytes) {
+        continue;
+      }
+
+      await dbExecute(
+        env.DB,
+        `INSERT INTO site_cost_daily
+           (site_id, org_id, day, ai_credits, ai_calls, bandwidth_bytes, storage_bytes, estimated_cost_micro_usd)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(site_id, day) DO UPDATE SET
+           org_id = excluded.org_id, ai_credits = excluded.ai_credits, ai_calls = excluded.ai_calls,
+           bandwidth_bytes = excluded.bandwidth_bytes, storage_bytes = excluded.storage_bytes,
+           estimated_cost_micro_usd = excluded.estimated_cost_micro_usd`,
+        [
+          site.id,
+          site.org_id,
+          day,
+          usage.ai_credits,
+          usage.ai_calls,
+          usage.bandwidth_bytes,
+          usage.storage_bytes,
+          estimateCostMicroUsd(usage, prices),
+        ],
+      );
+      result.rows++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Cron entry point: roll up every day since the last completed run, through
+ * yesterday (UTC). Runs at most once per day however often the cron fires;
+ * after an outage it catches up on at most {@link MAX_CATCH_UP_DAYS} days.
+ *
+ * @returns The rollup result, or `null` when yesterday is already done.
+ */
+export async function runNightlyCostRollup(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{ from: string; to: string; days: number; rows: number; failed: number } | null> {
+  const yesterday = addDays(now.toISOString().slice(0, 10), -1);
+  const last = await env.CACHE_KV.get(COST_ROLLUP_MARKER_KEY);
+  if (last && last >= yesterday) return null;
+
+  const earliest = addDays(yesterday, -(MAX_CATCH_UP_DAYS - 1));
+  const next = last ? addDays(last, 1) : yesterday;
+  const from = next > earliest ? next : earliest;
+  const result = await rollupSiteCosts(env, { from, to: yesterday });
+
+  // Only advance the marker on a clean run so the next tick retries failures.
+  if (result.failed === 0) await env.CACHE_KV.put(COST_ROLLUP_MARKER_KEY, yesterday);
+  return { from, to: yesterday, ...result };
+}
+
+async function listSiteObjects(
+  bucket: R2Bucket,
+  slug: string,
+): Promise<{ size: number; uploaded: number }[]> {
+  const objects: { size: number; uploaded: number }[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: `sites/${slug}/`, cursor });
+    for (const o of page.objects) objects.push({ size: o.size, uploaded: o.uploaded.getTime() });
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return objects;
+}
@@ -63,6 +63,30 @@ export async function topupCredits(
   return getBalance(env, opts.orgId);
 }
 
+/**
+ * Credit a plan's included allowance: the balance and a ledger row, but not
+ * `lifetime_purchased`, which counts only credits the org paid for.
+ */
+export async function grantCredits(
+  env: Env,
+  opts: { orgId: string; amount: number; stripeInvoiceId?: string; reason: string },
+): Promise<number> {
+  const id = crypto.randomUUID();
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO ai_credits_balance (org_id, balance, updated_at)
+       VALUES (?, ?, datetime('now'))
+       ON CONFLICT(org_id) DO UPDATE SET
+         balance = balance + ?, updated_at = datetime('now')`,
+    ).bind(opts.orgId, opts.amount, opts.amount),
+    env.DB.prepare(
+      `INSERT INTO ai_credits_ledger (id, org_id, delta, reason, stripe_session_id)
+       VALUES (?, ?, ?, ?, ?)`,
+    ).bind(id, opts.orgId, opts.amount, opts.reason, opts.stripeInvoiceId ?? null),
+  ]);
+  return getBalance(env, opts.orgId);
+}
+
 export interface SpendAlertRow {
   id: string;
   name: string;
@@ -0,0 +1,347 @@
+/**
+ * @module domain_dns
+ * @description DNS lookups and customer-facing DNS instructions for custom
+ * domains.
+ *
+ * Ownership is proved with a TXT record before any certificate is requested:
+ *
+ * | Record | Name                                  | Value                              |
+ * | ------ | ------------------------------------- | ---------------------------------- |
+ * | TXT    | `_projectsites-challenge.example.com` | `projectsites-verification={token}` |
+ *
+ * `www.example.com` and `example.com` share one challenge on the apex, so
+ * a pair is verified together.
+ *
+ * Routing depends on where the name sits. Subdomains (`www`, `shop`) get a
+ * CNAME to `projectsites.dev`. An apex cannot hold a CNAME, so it gets
+ * whatever the customer's DNS host supports, detected from its NS records:
+ * an ALIAS / ANAME record, Cloudflare's flattened CNAME, or plain A records
+ * copied from `projectsites.dev`.
+ *
+ * Every lookup goes through a {@link DnsResolver}; production uses
+ * Cloudflare's DNS-over-HTTPS endpoint and tests pass a fake.
+ *
+ * @packageDocumentation
+ */
+
+import { DOMAINS } from '@project-sites/shared';
+
+/** DNS record types the domain flows look up, with their wire codes. */
+const RECORD_TYPES = { A: 1, NS: 2, CNAME: 5, TXT: 16, AAAA: 28 } as const;
+
+export type DnsRecordType = keyof typeof RECORD_TYPES;
+
+/**
+ * Looks up DNS records. Implementations return record data without the
+ * trailing dot (TXT strings unquoted and joined), and `[]` when the name
+ * has no such records or the lookup fails.
+ */
+export interface DnsResolver {
+  resolve(name: string, type: DnsRecordType): Promise<string[]>;
+}
+
+/** Join the quoted character-strings of a TXT record. */
+function parseTxt(data: string): string {
+  const parts = [...data.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) =>
+    m[1]!.replace(/\\(.)/g, '$1'),
+  );
+  return parts.length ? parts.join('') : data;
+}
+
+/** {@link DnsResolver} backed by Cloudflare's DNS-over-HTTPS JSON API. */
+export const dohResolver: DnsResolver = {
+  async resolve(name, type) {
+    try {
+      const resp = await fetch(
+        `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(name)}&type=${type}`,
+        { headers: { accept: 'application/dns-json' } },
+      );
+      if (!resp.ok) return [];
+
+      const data = (await resp.json()) as { Answer?: Array<{ type: number; data: string }> };
+      return (data.Answer ?? [])
+        .filter((a) => a.type === RECORD_TYPES[type])
+        .map((a) => (type === 'TXT' ? parseTxt(a.data) : a.data.replace(/\.$/, '')));
+    } catch {
+      return [];
+    }
+  },
+};
+
+// ── Names ────────────────────────────────────────────────────
+
+/** Public suffixes with two labels, so `shop.co.uk` is an apex. */
+const TWO_LABEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'me.uk',
+  'ltd.uk',
+  'plc.uk',
+  'com.au',
+  'net.au',
+  'org.au',
+  'co.nz',
+  'org.nz',
+  'co.za',
+  'com.br',
+  'com.mx',
+  'co.jp',
+  'co.in',
+  'co.kr',
+  'com.sg',
+  'com.hk',
+  'co.il',
+  'com.tr',
+  'com.ar',
+]);
+
+/**
+ * Split `hostname` into its registrable domain and the host label a DNS
+ * panel shows for it (`@` for the apex itself).
+ *
+ * @example
+ * ```ts
+ * splitHostname('www.vitos.co.uk'); // { apex: 'vitos.co.uk', host: 'www' }
+ * ```
+ */
+export function splitHostname(hostname: string): { apex: string; host: string } {
+  const labels = hostname.toLowerCase().split('.');
+  const suffixLabels = TWO_LABEL_SUFFIXES.has(labels.slice(-2).join('.')) ? 2 : 1;
+  const apexLabels = Math.min(labels.length, suffixLabels + 1);
+  return {
+    apex: labels.slice(-apexLabels).join('.'),
+    host: labels.length > apexLabels ? labels.slice(0, -apexLabels).join('.') : '@',
+  };
+}
+
+/** Whether `hostname` is a registrable domain rather than a subdomain. */
+export function isApexDomain(hostname: string): boolean {
+  return splitHostname(hostname).host === '@';
+}
+
+/**
+ * The other half of an apex / `www` pair: `example.com` ↔ `www.example.com`.
+ * Other subdomains have no pair.
+ */
+export function pairedHostname(hostname: string): string | null {
+  const { apex, host } = splitHostname(hostname);
+  if (host === '@') return `www.${apex}`;
+  if (host === 'www') return apex;
+  return null;
+}
+
+// ── Ownership challenge ──────────────────────────────────────
+
+/** Label the ownership TXT record lives under. */
+export const OWNERSHIP_CHALLENGE_LABEL = '_projectsites-challenge';
+
+/** A TXT record proving control of a hostname. */
+export interface OwnershipChallenge {
+  /** Fully-qualified record name. */
+  name: string;
+  value: string;
+}
+
+/** A new random challenge token. */
+export function createChallengeToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * The TXT record proving control of `hostname`. A `www` hostname uses the
+ * apex's record, so both halves of a pair are proved at once.
+ */
+export function ownershipChallenge(hostname: string, token: string): OwnershipChallenge {
+  const { apex, host } = splitHostname(hostname);
+  const owner = host === 'www' ? apex : hostname.toLowerCase();
+  return {
+    name: `${OWNERSHIP_CHALLENGE_LABEL}.${owner}`,
+    value: `projectsites-verification=${token}`,
+  };
+}
+
+/**
+ * Look up the challenge record of `hostname`.
+ *
+ * @returns Whether the expected value is published, and every TXT value
+ *   found at the name (to show the customer what is there instead).
+ */
+export async function checkOwnershipChallenge(
+  hostname: string,
+  token: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<{ verified: boolean; challenge: OwnershipChallenge; found: string[] }> {
+  const challenge = ownershipChallenge(hostname, token);
+  const found = await resolver.resolve(challenge.name, 'TXT');
+  return { verified: found.some((v) => v.trim() === challenge.value), challenge, found };
+}
+
+// ── Routing instructions ─────────────────────────────────────
+
+/** How a DNS host can point an apex at us. */
+type ApexMethod = 'alias' | 'cname' | 'a';
+
+/** A DNS host recognised from its nameservers. */
+export interface DnsProvider {
+  id: string;
+  name: string;
+  /** Matches one of the zone's NS records. */
+  nameservers: RegExp;
+  apex: ApexMethod;
+  /** Record type the provider's panel uses for apex aliases. */
+  aliasType?: 'ALIAS' | 'ANAME';
+}
+
+/** DNS hosts with provider-specific apex instructions. */
+export const DNS_PROVIDERS: readonly DnsProvider[] = [
+  { id: 'cloudflare', name: 'Cloudflare', nameservers: /\.ns\.cloudflare\.com$/, apex: 'cname' },
+  {
+    id: 'namecheap',
+    name: 'Namecheap',
+    nameservers: /\.registrar-servers\.com$/,
+    apex: 'alias',
+    aliasType: 'ALIAS',
+  },
+  { id: 'godaddy', name: 'GoDaddy', nameservers: /\.domaincontrol\.com$/, apex: 'a' },
+  { id: 'route53', name: 'Amazon Route 53', nameservers: /\.awsdns-\d+\./, apex: 'a' },
+  {
+    id: 'squarespace',
+    name: 'Squarespace Domains',
+    nameservers: /\.(googledomains|squarespacedns)\.com$/,
+    apex: 'a',
+  },
+  {
+    id: 'porkbun',
+    name: 'Porkbun',
+    nameservers: /\.porkbun\.com$/,
+    apex: 'alias',
+    aliasType: 'ALIAS',
+  },
+  {
+    id: 'dnsimple',
+    name: 'DNSimple',
+    nameservers: /\.dnsimple\.com$/,
+    apex: 'alias',
+    aliasType: 'ALIAS',
+  },
+  {
+    id: 'dnsmadeeasy',
+    name: 'DNS Made Easy',
+    nameservers: /\.dnsmadeeasy\.com$/,
+    apex: 'alias',
+    aliasType: 'ANAME',
+  },
+  { id: 'gandi', name: 'Gandi', nameservers: /\.gandi\.net$/, apex: 'alias', aliasType: 'ALIAS' },
+  { id: 'hover', name: 'Hover', nameservers: /\.hover\.com$/, apex: 'a' },
+];
+
+/** Used when the nameservers match no known provider. */
+const GENERIC_PROVIDER: DnsProvider = {
+  id: 'other',
+  name: 'your DNS provider',
+  nameservers: /$^/,
+  apex: 'a',
+};
+
+/** The DNS host serving `apex`, from its NS records. */
+export async function detectDnsProvider(
+  apex: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<DnsProvider> {
+  const nameservers = (await resolver.resolve(apex, 'NS')).map((ns) => ns.toLowerCase());
+  return (
+    DNS_PROVIDERS.find((p) => nameservers.some((ns) => p.nameservers.test(ns))) ?? GENERIC_PROVIDER
+  );
+}
+
+/** One record the customer has to create. */
+export interface DnsRecordInstruction {
+  type: 'TXT' | 'CNAME' | 'A' | 'ALIAS' | 'ANAME';
+  /** Name as DNS panels show it, relative to the apex (`@`, `www`). */
+  host: string;
+  /** Fully-qualified name. */
+  name: string;
+  value: string;
+  purpose: 'ownership' | 'routing';
+}
+
+/** Everything the customer needs to set up one hostname (and its pair). */
+export interface DnsInstructions {
+  provider: { id: string; name: string };
+  records: DnsRecordInstruction[];
+  notes: string[];
+}
+
+/**
+ * Records that verify and route `hostnames` (one hostname, or an apex /
+ * `www` pair sharing `token`), written for the DNS host that serves them.
+ */
+export async function buildDnsInstructions(
+  hostnames: string[],
+  token: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<DnsInstructions> {
+  const primary = hostnames[0]!;
+  const { apex } = splitHostname(primary);
+  const provider = await detectDnsProvider(apex, resolver);
+  const relative = (name: string) =>
+    name === apex ? '@' : name.slice(0, -(apex.length + 1)) || '@';
+
+  const challenge = ownershipChallenge(primary, token);
+  const records: DnsRecordInstruction[] = [
+    {
+      type: 'TXT',
+      host: relative(challenge.name),
+      name: challenge.name,
+      value: challenge.value,
+      purpose: 'ownership',
+    },
+  ];
+  const notes: string[] = [];
+
+  for (const hostname of hostnames) {
+    const host = relative(hostname);
+    if (!isApexDomain(hostname)) {
+      records.push({
+        type: 'CNAME',
+        host,
+        name: hostname,
+        value: DOMAINS.SITES_BASE,
+        purpose: 'routing',
+      });
+      continue;
+    }
+
+    if (provider.apex === 'cname') {
+      records.push({
+        type: 'CNAME',
+        host,
+        name: hostname,
+        value: DOMAINS.SITES_BASE,
+        purpose: 'routing',
+      });
+      notes.push(`${provider.name} flattens a CNAME on ${hostname} automatically.`);
+    } else if (provider.apex === 'alias') {
+      records.push({
+        type: provider.aliasType ?? 'ALIAS',
+        host,
+        name: hostname,
+        value: DOMAINS.SITES_BASE,
+        purpose: 'routing',
+      });
+    } else {
+      const addresses = await resolver.resolve(DOMAINS.SITES_BASE, 'A');
+      for (const address of addresses) {
+        records.push({ type: 'A', host, name: hostname, value: address, purpose: 'routing' });
+      }
+      notes.push(
+        addresses.length
+          ? `${provider.name} cannot alias ${hostname}; remove any other A or AAAA records on it.`
+          : `Could not look up the addresses for ${hostname}; try again in a few minutes.`,
+      );
+    }
+  }
+
+  notes.push('DNS changes can take up to an hour to be seen. We check every 30 minutes.');
+  return { provider: { id: provider.id, name: provider.name }, records, notes };
+}
@@ -0,0 +1,412 @@
+/**
+ * @module domain_health
+ * @description Continuous health monitoring for active custom domains.
+ *
+ * Once a custom domain is active nothing else looks at it, so a customer
+ * moving DNS elsewhere or a stalled certificate renewal would go unnoticed.
+ * The half-hourly cron calls {@link sweepHostnameHealth}, which checks a
+ * batch of active custom hostnames (oldest check first) for:
+ *
+ * | Problem        | Meaning                                                      |
+ * | -------------- | ------------------------------------------------------------ |
+ * | `dns_moved`    | CNAME / A records no longer lead to `projectsites.dev`       |
+ * | `ssl_inactive` | Cloudflare reports the certificate is not active             |
+ * | `ssl_expiring` | The certificate expires within {@link SSL_EXPIRY_WARNING_DAYS} days |
+ * | `unreachable`  | `HEAD https://{hostname}/` failed or answered 5xx             |
+ *
+ * Every check is written to `hostname_health_checks`. A hostname with a
+ * problem on {@link DEGRADE_AFTER_FAILURES} checks in a row is flipped to
+ * `health_status = 'degraded'` (it keeps serving) and the org owner gets one
+ * email per degradation, with a fix for each problem; a single failed check
+ * is usually a resolver or origin blip. Failing and degraded hostnames are
+ * rechecked on every run so confirmation and recovery show up quickly;
+ * healthy ones every {@link RECHECK_HOURS} hours.
+ *
+ * @packageDocumentation
+ */
+
+import { DOMAINS } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { writeAuditLog } from './audit.js';
+import { dbExecute, dbInsert, dbQuery, dbQueryOne, dbUpdate } from './db.js';
+import { dohResolver, isApexDomain, type DnsResolver } from './domain_dns.js';
+import { checkHostnameStatus } from './domains.js';
+import { notifyDomainDegraded } from './notifications.js';
+
+export type HostnameHealth = 'healthy' | 'degraded';
+export type HealthProblem = 'dns_moved' | 'ssl_inactive' | 'ssl_expiring' | 'unreachable';
+
+/** Hostnames checked per cron run; each check costs up to five subrequests. */
+const SWEEP_BATCH = 25;
+
+/** Failed checks in a row before a hostname is degraded and the owner emailed. */
+const DEGRADE_AFTER_FAILURES = 2;
+
+/** How often a healthy hostname is rechecked. */
+const RECHECK_HOURS = 6;
+
+/** Warn when the certificate expires sooner than this. */
+const SSL_EXPIRY_WARNING_DAYS = 14;
+
+/** History kept in `hostname_health_checks`. */
+const HISTORY_DAYS = 30;
+
+/** Timeout for the HTTPS reachability probe. */
+const PROBE_TIMEOUT_MS = 10_000;
+
+/** An active custom hostname due for a check. */
+interface SweepRow {
+  id: string;
+  org_id: string;
+  site_id: string;
+  hostname: string;
+  cf_custom_hostname_id: string | null;
+  health_status: HostnameHealth | null;
+  degraded_at: string | null;
+  /** Failed checks in a row. */
+  health_failures: number;
+}
+
+/** What one check saw; mirrors a `hostname_health_checks` row. */
+export interface HostnameHealthCheck {
+  health_status: HostnameHealth;
+  /** CNAME target, or the A records, the hostname resolves to. */
+  dns_target: string | null;
+  ssl_status: string | null;
+  ssl_expires_at: string | null;
+  /** Status of the HTTPS probe; null when it didn't answer. */
+  http_status: number | null;
+  problems: HealthProblem[];
+}
+
+/** Where the hostname's DNS leads, and whether that is us. */
+async function checkDns(
+  hostname: string,
+  resolver: DnsResolver,
+  ourAddresses: string[],
+): Promise<{ target: string | null; ok: boolean }> {
+  const [cname] = await resolver.resolve(hostname, 'CNAME');
+  if (cname) return { target: cname, ok: cname === DOMAINS.SITES_BASE };
+
+  // Apex domains (ALIAS, flattened CNAME or A records) resolve to our addresses
+  const addresses = await resolver.resolve(hostname, 'A');
+  if (addresses.length === 0) return { target: null, ok: false };
+  return {
+    target: addresses.join(', '),
+    ok: ourAddresses.length > 0 && addresses.every((a) => ourAddresses.includes(a)),
+  };
+}
+
+/** HTTP status of `HEAD https://{hostname}/`, or null if it didn't answer. */
+async function probeHttps(hostname: string): Promise<number | null> {
+  try {
+    const res = await fetch(`https://${hostname}/`, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    return res.status;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check one active custom hostname's DNS, certificate and reachability.
+ * A Cloudflare API failure leaves the SSL fields null rather than counting
+ * as a problem, so an API outage doesn't degrade every domain.
+ *
+ * @param env          - Worker environment.
+ * @param row          - The hostname and its Cloudflare hostname ID.
+ * @param resolver     - DNS resolver (tests pass a fake).
+ * @param ourAddresses - A records of `projectsites.dev`, for apex domains.
+ * @param now          - Current time, for certificate expiry.
+ */
+export async function checkHostnameHealth(
+  env: Env,
+  row: { hostname: string; cf_custom_hostname_id: string | null },
+  resolver: DnsResolver,
+  ourAddresses: string[],
+  now: Date = new Date(),
+): Promise<HostnameHealthCheck> {
+  const [dns, ssl, httpStatus] = await Promise.all([
+    checkDns(row.hostname, resolver, ourAddresses),
+    row.cf_custom_hostname_id
+      ? checkHostnameStatus(env, row.cf_custom_hostname_id).catch(() => null)
+      : Promise.resolve(null),
+    probeHttps(row.hostname),
+  ]);
+
+  const problems: HealthProblem[] = [];
+  if (!dns.ok) problems.push('dns_moved');
+  if (ssl && ssl.ssl_status !== 'active') problems.push('ssl_inactive');
+  if (
+    ssl?.ssl_expires_at &&
+    Date.parse(ssl.ssl_expires_at) < now.getTime() + SSL_EXPIRY_WARNING_DAYS * 86_400_000
+  ) {
+    problems.push('ssl_expiring');
+  }
+  if (httpStatus === null || httpStatus >= 500) problems.push('unreachable');
+
+  return {
+    health_status: problems.length ? 'degraded' : 'healthy',
+    dns_target: dns.target,
+    ssl_status: ssl?.ssl_status ?? null,
+    ssl_expires_at: ssl?.ssl_expires_at ?? null,
+    http_status: httpStatus,
+    problems,
+  };
+}
+
+/** Title, specifics and fix for each problem, as the owner's email shows them. */
+export function describeHealthProblems(
+  hostname: string,
+  check: HostnameHealthCheck,
+): Array<{ title: string; detail: string; fix: string }> {
+  const routing = isApexDomain(hostname)
+    ? `Point <strong>${hostname}</strong> back at ${DOMAINS.SITES_BASE} with an ALIAS or ANAME record (or the A records shown in your dashboard), and remove any other A or AAAA records on it.`
+    : `Set the CNAME record for <strong>${hostname}</strong> back to ${DOMAINS.SITES_BASE}.`;
+
+  return check.problems.map((problem) => {
+    switch (problem) {
+      case 'dns_moved':
+        return {
+          title: 'DNS no longer points to Project Sites',
+          detail: check.dns_target
+            ? `${hostname} now resolves to ${check.dns_target}.`
+            : `${hostname} has no DNS records.`,
+          fix: routing,
+        };
+      case 'ssl_inactive':
+        return {
+          title: 'The SSL certificate is not active',
+          detail: `Certificate status: ${check.ssl_status}.`,
+          fix: `Certificates are validated over DNS and HTTP. ${routing} If you have CAA records, allow letsencrypt.org and pki.goog.`,
+        };
+      case 'ssl_expiring':
+        return {
+          title: 'The SSL certificate is about to expire',
+          detail: `It expires on ${new Date(check.ssl_expires_at!).toUTCString()} and has not renewed.`,
+          fix: `Renewal is automatic once DNS is right. ${routing} Then press Verify next to the domain in your dashboard.`,
+        };
+      case 'unreachable':
+        return {
+          title: 'The site does not load on this domain',
+          detail:
+            check.http_status === null
+              ? `https://${hostname}/ did not answer.`
+              : `https://${hostname}/ answered with HTTP ${check.http_status}.`,
+          fix: `Make sure no other DNS records, proxies or firewall rules at your DNS provider sit in front of ${hostname}. ${routing}`,
+        };
+    }
+  });
+}
+
+/** Email the org owner about a newly degraded hostname. Never throws. */
+async function notifyOwner(env: Env, row: SweepRow, check: HostnameHealthCheck): Promise<void> {
+  try {
+    const owner = await dbQueryOne<{ email: string }>(
+      env.DB,
+      `SELECT u.email FROM memberships m JOIN users u ON u.id = m.user_id
+       WHERE m.org_id = ? AND m.role = 'owner' AND m.deleted_at IS NULL LIMIT 1`,
+      [row.org_id],
+    );
+    if (!owner?.email) return;
+
+    const site = await dbQueryOne<{ slug: string; business_name: string | null }>(
+      env.DB,
+      'SELECT slug, business_name FROM sites WHERE id = ? AND deleted_at IS NULL',
+      [row.site_id],
+    );
+    await notifyDomainDegraded(env, {
+      email: owner.email,
+      hostname: row.hostname,
+      siteName: site?.business_name || site?.slug || 'your site',
+      problems: describeHealthProblems(row.hostname, check),
+    });
+  } catch (err) {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'domain_health',
+        message: 'Failed to send domain degraded email',
+        hostname: row.hostname,
+        error: String(err),
+      }),
+    );
+  }
+}
+
+/**
+ * Check a batch of active custom hostnames, record the results, and flip
+ * their health (scheduled cron job). A hostname is degraded once
+ * {@link DEGRADE_AFTER_FAILURES} checks in a row fail, and owners are
+ * emailed then; recovery is audited.
+ *
+ * @param db       - D1Database binding.
+ * @param env      - Worker environment.
+ * @param resolver - DNS resolver (tests pass a fake).
+ * @param now      - Current time.
+ * @returns Hostnames checked, newly degraded, and recovered.
+ */
+export async function sweepHostnameHealth(
+  db: D1Database,
+  env: Env,
+  resolver: DnsResolver = dohResolver,
+  now: Date = new Date(),
+): Promise<{ checked: number; degraded: number; recovered: number }> {
+  const checkedAt = now.toISOString();
+
+  await dbExecute(db, 'DELETE FROM hostname_health_checks WHERE checked_at < ?', [
+    new Date(now.getTime() - HISTORY_DAYS * 86_400_000).toISOString(),
+  ]);
+
+  const { data: rows } = await dbQuery<SweepRow>(
+    db,
+    `SELECT id, org_id, site_id, hostname, cf_custom_hostname_id, health_status, degraded_at,
+       health_failures
+     FROM hostnames
+     WHERE status = 'active' AND type = 'custom_cname' AND deleted_at IS NULL
+       AND (health_checked_at IS NULL OR health_checked_at < ?
+         OR health_status = 'degraded' OR health_failures > 0)
+     ORDER BY health_checked_at ASC LIMIT ?`,
+    [new Date(now.getTime() - RECHECK_HOURS * 3_600_000).toISOString(), SWEEP_BATCH],
+  );
+  if (rows.length === 0) return { checked: 0, degraded: 0, recovered: 0 };
+
+  const ourAddresses = await resolver.resolve(DOMAINS.SITES_BASE, 'A');
+  let checked = 0;
+  let degraded = 0;
+  let recovered = 0;
+
+  for (const row of rows) {
+    try {
+      const check = await checkHostnameHealth(env, row, resolver, ourAddresses, now);
+      const failing = check.health_status === 'degraded';
+      const failures = failing ? row.health_failures + 1 : 0;
+      const isDegraded =
+        failing && (row.degraded_at !== null || failures >= DEGRADE_AFTER_FAILURES);
+
+      await dbInsert(db, 'hostname_health_checks', {
+        id: crypto.randomUUID(),
+        hostname_id: row.id,
+        org_id: row.org_id,
+        hostname: row.hostname,
+        health_status: check.health_status,
+        dns_target: check.dns_target,
+        ssl_status: check.ssl_status,
+        ssl_expires_at: check.ssl_expires_at,
+        http_status: check.http_status,
+        problems: JSON.stringify(check.problems),
+        checked_at: checkedAt,
+      });
+      await dbUpdate(
+        db,
+        'hostnames',
+        {
+          health_status: isDegraded ? 'degraded' : 'healthy',
+          health_checked_at: checkedAt,
+          degraded_at: isDegraded ? (row.degraded_at ?? checkedAt) : null,
+          health_failures: failures,
+        },
+        'id = ?',
+        [row.id],
+      );
+      checked++;
+
+      if (isDegraded && !row.degraded_at) {
+        degraded++;
+        console.warn(
+          JSON.stringify({
+            level: 'warn',
+            service: 'domain_health',
+            message: 'Hostname degraded',
+            hostname: row.hostname,
+            problems: check.problems,
+          }),
+        );
+        writeAuditLog(db, {
+          org_id: row.org_id,
+          actor_id: null,
+          action: 'hostname.degraded',
+          target_type: 'hostname',
+          target_id: row.id,
+          metadata_json: {
+            hostname: row.hostname,
+            problems: check.problems,
+            message:
+              'Domain health degraded: ' + row.hostname + ' (' + check.problems.join(', ') + ')',
+          },
+        }).catch(() => {});
+        await notifyOwner(env, row, check);
+      } else if (!failing && row.degraded_at) {
+        recovered++;
+        writeAuditLog(db, {
+          org_id: row.org_id,
+          actor_id: null,
+          action: 'hostname.recovered',
+          target_type: 'hostname',
+          target_id: row.id,
+          metadata_json: {
+            hostname: row.hostname,
+            degraded_at: row.degraded_at,
+            message: 'Domain health recovered: ' + row.hostname,
+          },
+        }).catch(() => {});
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'domain_health',
+          message: 'Hostname health check error',
+          hostname: row.hostname,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+
+  return { checked, degraded, recovered };
+}
+
+/** A recorded check, as the admin domain summary shows it. */
+export interface HostnameHealthEntry extends HostnameHealthCheck {
+  hostname_id: string;
+  hostname: string;
+  checked_at: string;
+}
+
+/**
+ * Most recent health checks across an org's hostnames, newest first.
+ *
+ * @param db         - D1Database binding.
+ * @param orgId      - The organization.
+ * @param limit      - Maximum entries.
+ * @param hostnameId - Only this hostname's checks, when given.
+ */
+export async function listHealthHistory(
+  db: D1Database,
+  orgId: string,
+  limit = 50,
+  hostnameId?: string,
+): Promise<HostnameHealthEntry[]> {
+  const { data } = await dbQuery<Omit<HostnameHealthEntry, 'problems'> & { problems: string }>(
+    db,
+    `SELECT hostname_id, hostname, health_status, dns_target, ssl_status, ssl_expires_at,
+       http_status, problems, checked_at
+     FROM hostname_health_checks
+     WHERE org_id = ?${hostnameId ? ' AND hostname_id = ?' : ''}
+     ORDER BY checked_at DESC LIMIT ?`,
+    hostnameId ? [orgId, hostnameId, limit] : [orgId, limit],
+  );
+  return data.map((row) => {
+    let problems: HealthProblem[] = [];
+    try {
+      problems = JSON.parse(row.problems) as HealthProblem[];
+    } catch {
+      /* keep empty */
+    }
+    return { ...row, problems };
+  });
+}
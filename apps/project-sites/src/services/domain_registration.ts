@@ -0,0 +1,892 @@
+/**
+ * @module domain_registration
+ * @description Buying, transferring and renewing domains through a
+ * {@link Registrar}, paid for with Stripe Checkout.
+ *
+ * ## Order Flow
+ *
+ * ```
+ * startDomainPurchase / startDomainTransfer / startDomainRenewal
+ *   → Registrar: availability + price
+ *   → D1: INSERT registered_domains (awaiting_payment), domain_orders
+ *   → billing.createCheckoutSession with the domain charge
+ *
+ * checkout.session.completed (metadata.domain_order_id)
+ *   → completeDomainOrder
+ *   → Registrar: register | transferIn | renew   (refused → Stripe refund)
+ *   → Registrar: zone records pointing at projectsites.dev
+ *   → domains.provisionCustomDomain with ownership_proved (SSL requested now)
+ *
+ * Cron: syncPendingTransfers connects transfers once the registry approves
+ * them, and retries domains whose connection failed (connect_error)
+ * ```
+ *
+ * The customer never touches DNS: we hold the zone, so ownership is proved
+ * by the registration itself.
+ *
+ * {@link getRegistrar} picks the registrar. Only the in-memory sandbox
+ * (services/registrar_sandbox.ts) exists so far; it is used outside
+ * production, and production refuses orders until a live registrar is
+ * configured.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  DOMAINS,
+  ENTITLEMENTS,
+  badRequest,
+  conflict,
+  notFound,
+  type PurchaseDomain,
+  type RegistrantContact,
+  type RenewDomain,
+  type TransferDomain,
+  type UpdateRegisteredDomain,
+} from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { writeAuditLog } from './audit.js';
+import { createCheckoutSession, getOrgEntitlements, refundCheckoutCharge } from './billing.js';
+import { dbInsert, dbQuery, dbQueryOne, dbUpdate } from './db.js';
+import { OWNERSHIP_CHALLENGE_LABEL, isApexDomain, ownershipChallenge } from './domain_dns.js';
+import {
+  provisionCustomDomain,
+  type Registrar,
+  type RegistrarDnsRecord,
+  type RegistrarDomain,
+} from './domains.js';
+import { createSandboxRegistrar, type SandboxRegistrar } from './registrar_sandbox.js';
+
+export type RegisteredDomainStatus =
+  | 'awaiting_payment'
+  | 'registering'
+  | 'active'
+  | 'transfer_pending'
+  | 'failed'
+  | 'expired';
+export type DomainOrderAction = 'register' | 'transfer' | 'renew';
+
+/** Pending transfers asked about per cron run. */
+const TRANSFER_SYNC_BATCH = 25;
+
+/** A domain we hold (or are acquiring) at the registrar. */
+export interface RegisteredDomain {
+  id: string;
+  domain: string;
+  site_id: string | null;
+  registrar: string;
+  status: RegisteredDomainStatus;
+  expires_at: string | null;
+  auto_renew: boolean;
+  whois_privacy: boolean;
+  /** Why pointing the domain at its site failed; retried by the cron. */
+  connect_error: string | null;
+  created_at: string;
+}
+
+interface RegisteredDomainRow extends Omit<RegisteredDomain, 'auto_renew' | 'whois_privacy'> {
+  org_id: string;
+  auto_renew: number;
+  whois_privacy: number;
+  registrant_json: string;
+}
+
+interface DomainOrderRow {
+  id: string;
+  org_id: string;
+  registered_domain_id: string;
+  domain: string;
+  action: DomainOrderAction;
+  years: number;
+  amount_cents: number;
+  status: 'awaiting_payment' | 'paid' | 'completed' | 'failed';
+  stripe_session_id: string | null;
+  auth_code: string | null;
+}
+
+/** What the customer is sent to pay. */
+export interface DomainCheckout {
+  order_id: string;
+  registered_domain_id: string;
+  domain: string;
+  amount_cents: number;
+  checkout_url: string;
+  session_id: string;
+}
+
+let sandbox: SandboxRegistrar | null = null;
+
+/**
+ * The registrar for this environment: the in-memory sandbox outside
+ * production (kept for the life of the isolate).
+ *
+ * @throws {AppError} `BAD_REQUEST` — production, where no live registrar is wired up yet.
+ */
+export function getRegistrar(env: Env): Registrar {
+  if (env.ENVIRONMENT !== 'production') {
+    sandbox ??= createSandboxRegistrar();
+    return sandbox;
+  }
+
+  console.warn(
+    JSON.stringify({
+      level: 'warn',
+      service: 'domain_registration',
+      message: 'No domain registrar configured',
+    }),
+  );
+  throw badRequest('Buying domains is not available yet. Connect a domain you own instead.');
+}
+
+const SELECT_REGISTERED =
+  'SELECT id, org_id, site_id, domain, registrar, status, expires_at, auto_renew, whois_privacy, connect_error, registrant_json, created_at FROM registered_domains';
+
+function toRegisteredDomain(row: RegisteredDomainRow): RegisteredDomain {
+  return {
+    id: row.id,
+    domain: row.domain,
+    site_id: row.site_id,
+    registrar: row.registrar,
+    status: row.status,
+    expires_at: row.expires_at,
+    auto_renew: row.auto_renew === 1,
+    whois_privacy: row.whois_privacy === 1,
+    connect_error: row.connect_error ?? null,
+    created_at: row.created_at,
+  };
+}
+
+function plural(years: number): string {
+  return years === 1 ? '1 year' : `${years} years`;
+}
+
+/**
+ * Records pointing a domain (and its `www`) at us, plus the ownership
+ * challenge when the hostname is still waiting on one.
+ */
+export function registrarDnsRecords(
+  domain: string,
+  verificationToken: string | null = null,
+): RegistrarDnsRecord[] {
+  const records: RegistrarDnsRecord[] = [];
+  if (verificationToken) {
+    records.push({
+      type: 'TXT',
+      host: OWNERSHIP_CHALLENGE_LABEL,
+      value: ownershipChallenge(domain, verificationToken).value,
+    });
+  }
+  records.push(
+    { type: 'ALIAS', host: '@', value: DOMAINS.SITES_BASE },
+    { type: 'CNAME', host: 'www', value: DOMAINS.SITES_BASE },
+  );
+  return records;
+}
+
+/**
+ * Check the domain can be attached to this site before anyone pays: it is
+ * not another site's hostname, not already held by us, and the org has a
+ * custom-domain slot left. Clears abandoned checkouts for the same name.
+ */
+async function assertDomainAttachable(
+  db: D1Database,
+  orgId: string,
+  siteId: string,
+  domain: string,
+): Promise<void> {
+  if (!isApexDomain(domain)) {
+    throw badRequest(
+      `${domain} is a subdomain. Buy or transfer the domain itself, e.g. example.com`,
+    );
+  }
+
+  const site = await dbQueryOne<{ id: string }>(
+    db,
+    'SELECT id FROM sites WHERE id = ? AND org_id = ? AND deleted_at IS NULL',
+    [siteId, orgId],
+  );
+  if (!site) throw notFound('Site not found');
+
+  const hostname = await dbQueryOne<{ site_id: string }>(
+    db,
+    'SELECT site_id FROM hostnames WHERE hostname = ? AND deleted_at IS NULL',
+    [domain],
+  );
+  if (hostname && hostname.site_id !== siteId) {
+    throw conflict(`${domain} is already connected to another site`);
+  }
+
+  const held = await dbQueryOne<{ id: string; status: RegisteredDomainStatus }>(
+    db,
+    'SELECT id, status FROM registered_domains WHERE domain = ? AND deleted_at IS NULL',
+    [domain],
+  );
+  if (held && held.status !== 'awaiting_payment' && held.status !== 'failed') {
+    throw conflict(`${domain} is already registered through Project Sites`);
+  }
+  if (held) {
+    await dbUpdate(db, 'registered_domains', { deleted_at: new Date().toISOString() }, 'id = ?', [
+      held.id,
+    ]);
+  }
+
+  if (!hostname) {
+    const { data: used } = await dbQuery<{ id: string }>(
+      db,
+      'SELECT id FROM hostnames WHERE org_id = ? AND type = ? AND redirect_to IS NULL AND deleted_at IS NULL',
+      [orgId, 'custom_cname'],
+    );
+    // An org without a plan buys Pro in the same checkout
+    const entitlements = await getOrgEntitlements(db, orgId);
+    const limit =
+      entitlements.plan === 'paid'
+        ? entitlements.maxCustomDomains
+        : ENTITLEMENTS.pro.maxCustomDomains;
+    if (used.length >= limit) {
+      throw conflict(`Maximum custom domains (${limit}) reached`);
+    }
+  }
+}
+
+/** Insert the order and open its checkout. */
+async function openOrder(
+  db: D1Database,
+  env: Env,
+  opts: {
+    org_id: string;
+    registered_domain_id: string;
+    site_id: string | null;
+    domain: string;
+    action: DomainOrderAction;
+    years: number;
+    amount_cents: number;
+    description: string;
+    auth_code?: string;
+    customer_email: string;
+    success_url: string;
+    cancel_url: string;
+  },
+): Promise<DomainCheckout> {
+  const orderId = crypto.randomUUID();
+  const { error } = await dbInsert(db, 'domain_orders', {
+    id: orderId,
+    org_id: opts.org_id,
+    registered_domain_id: opts.registered_domain_id,
+    domain: opts.domain,
+    action: opts.action,
+    years: opts.years,
+    amount_cents: opts.amount_cents,
+    status: 'awaiting_payment',
+    stripe_session_id: null,
+    auth_code: opts.auth_code ?? null,
+    error: null,
+  });
+  if (error) throw badRequest(`Failed to create domain order: ${error}`);
+
+  const checkout = await createCheckoutSession(db, env, {
+    orgId: opts.org_id,
+    siteId: opts.site_id ?? undefined,
+    customerEmail: opts.customer_email,
+    successUrl: opts.success_url,
+    cancelUrl: opts.cancel_url,
+    domain: {
+      order_id: orderId,
+      domain: opts.domain,
+      description: opts.description,
+      amount_cents: opts.amount_cents,
+    },
+  });
+  await dbUpdate(db, 'domain_orders', { stripe_session_id: checkout.session_id }, 'id = ?', [
+    orderId,
+  ]);
+
+  return {
+    order_id: orderId,
+    registered_domain_id: opts.registered_domain_id,
+    domain: opts.domain,
+    amount_cents: opts.amount_cents,
+    ...checkout,
+  };
+}
+
+/** Insert the registered_domains row a new registration or transfer fills in. */
+async function insertRegisteredDomain(
+  db: D1Database,
+  registrar: Registrar,
+  orgId: string,
+  input: {
+    domain: string;
+    site_id: string;
+    contact: RegistrantContact;
+    whois_privacy: boolean;
+    auto_renew: boolean;
+  },
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const { error } = await dbInsert(db, 'registered_domains', {
+    id,
+    org_id: orgId,
+    site_id: input.site_id,
+    domain: input.domain,
+    registrar: registrar.name,
+    status: 'awaiting_payment',
+    expires_at: null,
+    auto_renew: input.auto_renew ? 1 : 0,
+    whois_privacy: input.whois_privacy ? 1 : 0,
+    registrant_json: JSON.stringify(input.contact),
+    deleted_at: null,
+  });
+  if (error) throw conflict(`${input.domain} is already being purchased`);
+  return id;
+}
+
+/**
+ * Start buying a domain for a site: check it with the registrar, record the
+ * order and open a checkout charging for it. The first year is charged at
+ * the registration price, further years at the renewal price.
+ *
+ * @throws {conflict} If the domain is taken or the org is out of custom domains.
+ * @throws {badRequest} If the name is a subdomain.
+ * @throws {notFound} If the site is not the org's.
+ */
+export async function startDomainPurchase(
+  db: D1Database,
+  env: Env,
+  registrar: Registrar,
+  opts: PurchaseDomain & { org_id: string; customer_email: string },
+): Promise<DomainCheckout> {
+  await assertDomainAttachable(db, opts.org_id, opts.site_id, opts.domain);
+
+  const quote = await registrar.checkAvailability(opts.domain);
+  if (!quote.available) throw conflict(`${opts.domain} is not available`);
+
+  const amount = quote.register_cents + quote.renew_cents * (opts.years - 1);
+  const domainId = await insertRegisteredDomain(db, registrar, opts.org_id, opts);
+
+  return openOrder(db, env, {
+    org_id: opts.org_id,
+    registered_domain_id: domainId,
+    site_id: opts.site_id,
+    domain: opts.domain,
+    action: 'register',
+    years: opts.years,
+    amount_cents: amount,
+    description: `Registration, ${plural(opts.years)}`,
+    customer_email: opts.customer_email,
+    success_url: opts.success_url,
+    cancel_url: opts.cancel_url,
+  });
+}
+
+/**
+ * Start transferring a domain registered elsewhere. The auth code is held
+ * with the order until payment, then submitted and discarded.
+ *
+ * @throws {badRequest} If the TLD is not offered or the domain is unregistered.
+ */
+export async function startDomainTransfer(
+  db: D1Database,
+  env: Env,
+  registrar: Registrar,
+  opts: TransferDomain & { org_id: string; customer_email: string },
+): Promise<DomainCheckout> {
+  await assertDomainAttachable(db, opts.org_id, opts.site_id, opts.domain);
+
+  const tld = opts.domain.slice(opts.domain.indexOf('.') + 1);
+  const pricing = await registrar.getPricing(tld);
+  if (!pricing) throw badRequest(`.${tld} domains cannot be transferred to us yet`);
+
+  const quote = await registrar.checkAvailability(opts.domain);
+  if (quote.available) {
+    throw badRequest(`${opts.domain} is not registered yet. Buy it instead of transferring it`);
+  }
+
+  const domainId = await insertRegisteredDomain(db, registrar, opts.org_id, opts);
+
+  return openOrder(db, env, {
+    org_id: opts.org_id,
+    registered_domain_id: domainId,
+    site_id: opts.site_id,
+    domain: opts.domain,
+    action: 'transfer',
+    years: 1,
+    amount_cents: pricing.transfer_cents,
+    description: 'Transfer, includes 1 year',
+    auth_code: opts.auth_code,
+    customer_email: opts.customer_email,
+    success_url: opts.success_url,
+    cancel_url: opts.cancel_url,
+  });
+}
+
+/**
+ * Start renewing a domain we hold, at its renewal price.
+ *
+ * @throws {notFound} If the org does not hold the domain.
+ * @throws {badRequest} If the domain is not active.
+ */
+export async function startDomainRenewal(
+  db: D1Database,
+  env: Env,
+  registrar: Registrar,
+  opts: RenewDomain & { org_id: string; registered_domain_id: string; customer_email: string },
+): Promise<DomainCheckout> {
+  const row = await dbQueryOne<RegisteredDomainRow>(
+    db,
+    `${SELECT_REGISTERED} WHERE id = ? AND org_id = ? AND deleted_at IS NULL`,
+    [opts.registered_domain_id, opts.org_id],
+  );
+  if (!row) throw notFound('Domain not found');
+  if (row.status !== 'active')
+    throw badRequest(`${row.domain} cannot be renewed while ${row.status}`);
+
+  const quote = await registrar.checkAvailability(row.domain);
+
+  return openOrder(db, env, {
+    org_id: opts.org_id,
+    registered_domain_id: row.id,
+    site_id: row.site_id,
+    domain: row.domain,
+    action: 'renew',
+    years: opts.years,
+    amount_cents: quote.renew_cents * opts.years,
+    description: `Renewal, ${plural(opts.years)}`,
+    customer_email: opts.customer_email,
+    success_url: opts.success_url,
+    cancel_url: opts.cancel_url,
+  });
+}
+
+/**
+ * Point a domain we hold at its site: registrar zone first, then the
+ * hostname (with its www partner) with ownership already proved. A domain
+ * the site had already added keeps its row; its pending challenge goes into
+ * the zone so the regular verification picks it up. Clears a recorded
+ * `connect_error` once it succeeds.
+ */
+async function connectRegisteredDomain(
+  db: D1Database,
+  env: Env,
+  registrar: Registrar,
+  row: RegisteredDomainRow,
+): Promise<void> {
+  if (!row.site_id) return;
+
+  const existing = await dbQueryOne<{ id: string; verification_token: string | null }>(
+    db,
+    'SELECT id, verification_token FROM hostnames WHERE hostname = ? AND site_id = ? AND deleted_at IS NULL',
+    [row.domain, row.site_id],
+  );
+
+  await registrar.setDnsRecords(
+    row.domain,
+    registrarDnsRecords(row.domain, existing?.verification_token ?? null),
+  );
+
+  if (!existing) {
+    const entitlements = await getOrgEntitlements(db, row.org_id);
+    await provisionCustomDomain(db, env, {
+      org_id: row.org_id,
+      site_id: row.site_id,
+      hostname: row.domain,
+      ownership_proved: true,
+      max_custom_domains: entitlements.maxCustomDomains,
+    });
+  }
+  if (row.connect_error) {
+    await dbUpdate(db, 'registered_domains', { connect_error: null }, 'id = ?', [row.id]);
+  }
+}
+
+/** Record the registrar's view of a domain on its row. */
+async function saveRegistrarState(
+  db: D1Database,
+  id: string,
+  state: RegistrarDomain,
+): Promise<void> {
+  await dbUpdate(
+    db,
+    'registered_domains',
+    {
+      status: state.status,
+      expires_at: state.expires_at,
+      auto_renew: state.auto_renew ? 1 : 0,
+      whois_privacy: state.whois_privacy ? 1 : 0,
+    },
+    'id = ?',
+    [id],
+  );
+}
+
+/**
+ * Refund a paid order the registrar could not carry out. An order that
+ * cannot be refunded automatically is flagged `needs_support`.
+ */
+async function refundFailedOrder(
+  env: Env,
+  order: DomainOrderRow,
+  sessionId: string | null,
+): Promise<{ refund_id: string | null; needs_support: 0 | 1 }> {
+  try {
+    if (!sessionId) throw new Error('Order has no checkout session');
+    const refundId = await refundCheckoutCharge(env, sessionId, order.amount_cents, {
+      domain_order_id: order.id,
+      domain: order.domain,
+    });
+    return { refund_id: refundId, needs_support: 0 };
+  } catch (err) {
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'domain_registration',
+        message: 'Domain order refund failed, flagged for support',
+        order_id: order.id,
+        domain: order.domain,
+        error: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    return { refund_id: null, needs_support: 1 };
+  }
+}
+
+/**
+ * Carry out a paid domain order (called from the Stripe webhook). The order
+ * is claimed by moving it out of `awaiting_payment`, so repeat and
+ * concurrent deliveries are ignored.
+ *
+ * Failures are recorded instead of thrown: the customer has paid, so
+ * retrying the webhook would not help.
+ *
+ * - The registrar refusing the order fails it, refunds the charge through
+ *   Stripe (or flags it `needs_support` when that fails) and releases the
+ *   domain row.
+ * - Once the registrar has the domain, it is ours: a failure pointing it at
+ *   the site is kept in `registered_domains.connect_error` for the cron to
+ *   retry, and the order still completes.
+ *
+ * @returns The order's final status, or `null` for an unknown order.
+ */
+export async function completeDomainOrder(
+  db: D1Database,
+  env: Env,
+  registrar: Registrar,
+  opts: { order_id: string; stripe_session_id?: string },
+): Promise<DomainOrderRow['status'] | null> {
+  const order = await dbQueryOne<DomainOrderRow>(
+    db,
+    'SELECT id, org_id, registered_domain_id, domain, action, years, amount_cents, status, stripe_session_id, auth_code FROM domain_orders WHERE id = ?',
+    [opts.order_id],
+  );
+  if (!order) {
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'domain_registration',
+        message: 'Paid checkout for unknown domain order',
+        order_id: opts.order_id,
+      }),
+    );
+    return null;
+  }
+  if (order.status !== 'awaiting_payment') return order.status;
+
+  const claim = await dbUpdate(db, 'domain_orders', { status: 'paid' }, 'id = ? AND status = ?', [
+    order.id,
+    'awaiting_payment',
+  ]);
+  if (claim.changes === 0) {
+    const current = await dbQueryOne<{ status: DomainOrderRow['status'] }>(
+      db,
+      'SELECT status FROM domain_orders WHERE id = ?',
+      [order.id],
+    );
+    return current?.status ?? 'paid';
+  }
+
+  const row = await dbQueryOne<RegisteredDomainRow>(
+    db,
+    `${SELECT_REGISTERED} WHERE id = ? AND deleted_at IS NULL`,
+    [order.registered_domain_id],
+  );
+
+  const fail = async (reason: string): Promise<'failed'> => {
+    const refund = await refundFailedOrder(
+      env,
+      order,
+      order.stripe_session_id ?? opts.stripe_session_id ?? null,
+    );
+    await dbUpdate(
+      db,
+      'domain_orders',
+      { status: 'failed', auth_code: null, error: reason.slice(0, 500), ...refund },
+      'id = ?',
+      [order.id],
+    );
+    if (row && order.action !== 'renew') {
+      await dbUpdate(db, 'registered_domains', { status: 'failed' }, 'id = ?', [row.id]);
+    }
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'domain_registration',
+        message: 'Paid domain order failed',
+        order_id: order.id,
+        domain: order.domain,
+        action: order.action,
+        refund_id: refund.refund_id,
+        needs_support: refund.needs_support === 1,
+        error: reason,
+      }),
+    );
+    writeAuditLog(db, {
+      org_id: order.org_id,
+      actor_id: null,
+      action: 'domain.order_failed',
+      target_type: 'domain',
+      target_id: order.registered_domain_id,
+      metadata_json: {
+        domain: order.domain,
+        order_id: order.id,
+        order_action: order.action,
+        error: reason,
+        refund_id: refund.refund_id,
+        needs_support: refund.needs_support === 1,
+        message:
+          'Domain ' +
+          order.action +
+          ' failed for ' +
+          order.domain +
+          ': ' +
+          reason +
+          (refund.refund_id ? ' (refunded)' : ' (refund needs support)'),
+      },
+    }).catch(() => {});
+    return 'failed';
+  };
+
+  if (!row || (order.action !== 'renew' && row.status !== 'awaiting_payment')) {
+    return fail('Domain record is missing or was replaced by another checkout');
+  }
+
+  let state: RegistrarDomain;
+  try {
+    const contact = JSON.parse(row.registrant_json) as RegistrantContact;
+    if (order.action === 'register') {
+      await dbUpdate(db, 'registered_domains', { status: 'registering' }, 'id = ?', [row.id]);
+      state = await registrar.register({
+        domain: row.domain,
+        years: order.years,
+        contact,
+        whois_privacy: row.whois_privacy === 1,
+        auto_renew: row.auto_renew === 1,
+      });
+    } else if (order.action === 'transfer') {
+      await dbUpdate(db, 'registered_domains', { status: 'registering' }, 'id = ?', [row.id]);
+      state = await registrar.transferIn({
+        domain: row.domain,
+        auth_code: order.auth_code ?? '',
+        contact,
+        whois_privacy: row.whois_privacy === 1,
+        auto_renew: row.auto_renew === 1,
+      });
+    } else {
+      state = await registrar.renew(row.domain, order.years);
+    }
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+  await saveRegistrarState(db, row.id, state);
+
+  if (order.action !== 'renew' && state.status === 'active') {
+    try {
+      await connectRegisteredDomain(db, env, registrar, row);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      await dbUpdate(db, 'registered_domains', { connect_error: reason.slice(0, 500) }, 'id = ?', [
+        row.id,
+      ]);
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'domain_registration',
+          message: 'Registered domain could not be connected',
+          order_id: order.id,
+          domain: order.domain,
+          error: reason,
+        }),
+      );
+      writeAuditLog(db, {
+        org_id: order.org_id,
+        actor_id: null,
+        action: 'domain.connect_failed',
+        target_type: 'domain',
+        target_id: row.id,
+        metadata_json: {
+          domain: order.domain,
+          order_id: order.id,
+          error: reason,
+          message: 'Domain ' + order.domain + ' is registered but not connected yet: ' + reason,
+        },
+      }).catch(() => {});
+    }
+  }
+
+  await dbUpdate(db, 'domain_orders', { status: 'completed', auth_code: null }, 'id = ?', [
+    order.id,
+  ]);
+
+  const done: Record<DomainOrderAction, { action: string; message: string }> = {
+    register: { action: 'domain.registered', message: 'Domain registered and connected: ' },
+    transfer: { action: 'domain.transfer_started', message: 'Domain transfer submitted: ' },
+    renew: { action: 'domain.renewed', message: 'Domain renewed: ' },
+  };
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      service: 'domain_registration',
+      message: 'Domain order completed',
+      order_id: order.id,
+      domain: order.domain,
+      action: order.action,
+    }),
+  );
+  writeAuditLog(db, {
+    org_id: order.org_id,
+    actor_id: null,
+    action: done[order.action].action,
+    target_type: 'domain',
+    target_id: order.registered_domain_id,
+    metadata_json: {
+      domain: order.domain,
+      order_id: order.id,
+      years: order.years,
+      message: done[order.action].message + order.domain,
+    },
+  }).catch(() => {});
+  return 'completed';
+}
+
+/**
+ * Ask the registrar about pending transfers and connect the ones the
+ * registry has approved, and retry connecting active domains whose first
+ * attempt failed (`connect_error`). Called from the cron; the registrar is
+ * only resolved when there is something to ask about.
+ *
+ * @returns How many domains were connected.
+ */
+export async function syncPendingTransfers(
+  db: D1Database,
+  env: Env,
+  registrar?: Registrar,
+): Promise<{ completed: number }> {
+  const { data: rows } = await dbQuery<RegisteredDomainRow>(
+    db,
+    `${SELECT_REGISTERED} WHERE (status = 'transfer_pending' OR (status = 'active' AND connect_error IS NOT NULL)) AND deleted_at IS NULL ORDER BY updated_at ASC LIMIT ?`,
+    [TRANSFER_SYNC_BATCH],
+  );
+  if (rows.length === 0) return { completed: 0 };
+  registrar ??= getRegistrar(env);
+
+  let completed = 0;
+  for (const row of rows) {
+    try {
+      const transfer = row.status === 'transfer_pending';
+      if (transfer) {
+        const state = await registrar.getDomain(row.domain);
+        if (!state || state.status !== 'active') {
+          // Touch the row so the next run starts with other transfers
+          await dbUpdate(db, 'registered_domains', {}, 'id = ?', [row.id]);
+          continue;
+        }
+        await saveRegistrarState(db, row.id, state);
+      }
+      await connectRegisteredDomain(db, env, registrar, row).catch(async (err: unknown) => {
+        // Keep the row in the retry set with the latest reason
+        const reason = err instanceof Error ? err.message : String(err);
+        await dbUpdate(
+          db,
+          'registered_domains',
+          { connect_error: reason.slice(0, 500) },
+          'id = ?',
+          [row.id],
+        );
+        throw err;
+      });
+      completed++;
+      writeAuditLog(db, {
+        org_id: row.org_id,
+        actor_id: null,
+        action: transfer ? 'domain.transfer_completed' : 'domain.connected',
+        target_type: 'domain',
+        target_id: row.id,
+        metadata_json: {
+          domain: row.domain,
+          message: transfer
+            ? 'Domain transfer completed and connected: ' + row.domain
+            : 'Domain connected: ' + row.domain,
+        },
+      }).catch(() => {});
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'warn',
+          service: 'domain_registration',
+          message: 'Transfer sync failed',
+          domain: row.domain,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+  return { completed };
+}
+
+/** The org's registered domains, newest first. */
+export async function listRegisteredDomains(
+  db: D1Database,
+  orgId: string,
+): Promise<RegisteredDomain[]> {
+  const { data } = await dbQuery<RegisteredDomainRow>(
+    db,
+    `${SELECT_REGISTERED} WHERE org_id = ? AND status != 'awaiting_payment' AND deleted_at IS NULL ORDER BY created_at DESC`,
+    [orgId],
+  );
+  return data.map(toRegisteredDomain);
+}
+
+/**
+ * Change auto-renew and / or WHOIS privacy at the registrar, then record it.
+ *
+ * @throws {notFound} If the org does not hold the domain.
+ * @throws {badRequest} If the registrar does not hold it yet.
+ */
+export async function updateRegisteredDomain(
+  db: D1Database,
+  registrar: Registrar,
+  orgId: string,
+  id: string,
+  settings: UpdateRegisteredDomain,
+): Promise<RegisteredDomain> {
+  const row = await dbQueryOne<RegisteredDomainRow>(
+    db,
+    `${SELECT_REGISTERED} WHERE id = ? AND org_id = ? AND deleted_at IS NULL`,
+    [id, orgId],
+  );
+  if (!row) throw notFound('Domain not found');
+  if (row.status !== 'active' && row.status !== 'transfer_pending') {
+    throw badRequest(`${row.domain} cannot be changed while ${row.status}`);
+  }
+
+  const fields: Record<string, number> = {};
+  if (settings.auto_renew !== undefined) {
+    await registrar.setAutoRenew(row.domain, settings.auto_renew);
+    fields.auto_renew = settings.auto_renew ? 1 : 0;
+  }
+  if (settings.whois_privacy !== undefined) {
+    await registrar.setWhoisPrivacy(row.domain, settings.whois_privacy);
+    fields.whois_privacy = settings.whois_privacy ? 1 : 0;
+  }
+  await dbUpdate(db, 'registered_domains', fields, 'id = ?', [row.id]);
+
+  return toRegisteredDomain({ ...row, ...fields });
+}
@@ -3,19 +3,34 @@
  * @description Domain provisioning service using Cloudflare for SaaS.
  *
  * Manages both free subdomains (`slug.projectsites.dev`) and custom
- * CNAME domains for paid plans. Integrates with the Cloudflare Custom
+ * domains for paid plans. Integrates with the Cloudflare Custom
  * Hostnames API for SSL provisioning and verification.
  *
  * ## Hostname Lifecycle
  *
  * ```
- * provisionFreeDomain / provisionCustomDomain
+ * provisionFreeDomain
  *   → CF API: create custom hostname
  *   → D1: INSERT into hostnames (status = pending|active)
- *   → Cron: verifyPendingHostnames checks CF status
+ *
+ * provisionCustomDomain
+ *   → D1: INSERT into hostnames (status = pending, verification_token)
+ *   → D1: INSERT the apex / www partner (redirect_to = the added hostname)
+ *   → Customer publishes the TXT challenge (see services/domain_dns.ts)
+ *   → Cron or POST …/verify: verifyOwnershipChallenges / verifyHostnameOwnership
+ *   → CF API: create custom hostname (SSL is only requested once ownership is proved)
+ *
+ * Cron: verifyPendingHostnames checks CF status
  *   → D1: UPDATE status to active|verification_failed
  * ```
  *
+ * Domains bought through a {@link Registrar} skip the challenge: we control
+ * their DNS, so services/domain_registration.ts provisions them with
+ * `ownership_proved` and SSL is requested straight away.
+ *
+ * A paired hostname answers every request with a 301 to `redirect_to`.
+ * Making it primary swaps the direction.
+ *
  * ## Table: `hostnames`
  *
  * | Column                  | Type   | Description                      |
@@ -28,6 +43,9 @@
  * | `status`                | TEXT   | pending / active / verification_failed |
  * | `cf_custom_hostname_id` | TEXT?  | Cloudflare hostname resource ID  |
  * | `ssl_status`            | TEXT   | pending / active / error         |
+ * | `verification_token`    | TEXT?  | TXT ownership challenge (custom) |
+ * | `ownership_verified_at` | TEXT?  | When the challenge was found     |
+ * | `redirect_to`           | TEXT?  | Apex / www partner to 301 to     |
  *
  * @packageDocumentation
  */
@@ -39,9 +57,25 @@ import {
   notFound,
   conflict,
   type HostnameState,
+  type RegistrantContact,
 } from '@project-sites/shared';
 import { dbQuery, dbQueryOne, dbInsert, dbUpdate } from './db.js';
 import type { Env } from '../types/env.js';
+import {
+  checkOwnershipChallenge,
+  createChallengeToken,
+  buildDnsInstructions,
+  dohResolver,
+  ownershipChallenge,
+  pairedHostname,
+  type DnsInstructions,
+  type DnsRecordInstruction,
+  type DnsResolver,
+  type OwnershipChallenge,
+} from './domain_dns.js';
+
+/** Days a customer has to publish the ownership TXT record. */
+const OWNERSHIP_CHALLENGE_DAYS = 7;
 
 /**
  * Domain provisioner interface for dependency injection / testing.
@@ -68,6 +102,81 @@ export interface DomainProvisioner {
   deprovisionHostname(hostname: string): Promise<void>;
 }
 
+/** Per-year list prices for a TLD, in `PRICING.CURRENCY` cents. */
+export interface DomainPricing {
+  tld: string;
+  register_cents: number;
+  renew_cents: number;
+  transfer_cents: number;
+}
+
+/** Whether a domain can be registered, and what the first year costs. */
+export interface DomainAvailability {
+  domain: string;
+  available: boolean;
+  /** Registry-premium names are priced above the TLD list price. */
+  premium: boolean;
+  register_cents: number;
+  renew_cents: number;
+}
+
+/** A domain as the registrar sees it. */
+export interface RegistrarDomain {
+  domain: string;
+  status: 'active' | 'transfer_pending';
+  expires_at: string | null;
+  auto_renew: boolean;
+  whois_privacy: boolean;
+}
+
+/** A record in the registrar-hosted zone of a domain we registered. */
+export type RegistrarDnsRecord = Pick<DnsRecordInstruction, 'type' | 'host' | 'value'>;
+
+/**
+ * Domain registrar interface: buying, renewing and transferring domains,
+ * plus the registrar-side settings and DNS zone of domains we hold.
+ *
+ * {@link createSandboxRegistrar} (services/registrar_sandbox.ts) keeps
+ * everything in memory for tests and local development.
+ */
+export interface Registrar {
+  readonly name: string;
+
+  checkAvailability(domain: string): Promise<DomainAvailability>;
+
+  /** List prices for a TLD (without the dot), or `null` when not offered. */
+  getPricing(tld: string): Promise<DomainPricing | null>;
+
+  register(opts: {
+    domain: string;
+    years: number;
+    contact: RegistrantContact;
+    whois_privacy: boolean;
+    auto_renew: boolean;
+  }): Promise<RegistrarDomain>;
+
+  renew(domain: string, years: number): Promise<RegistrarDomain>;
+
+  /** Start a transfer-in; most registries leave it `transfer_pending` for days. */
+  transferIn(opts: {
+    domain: string;
+    auth_code: string;
+    contact: RegistrantContact;
+    whois_privacy: boolean;
+    auto_renew: boolean;
+  }): Promise<RegistrarDomain>;
+
+  /** Current state, or `null` when the registrar does not hold the domain. */
+  getDomain(domain: string): Promise<RegistrarDomain | null>;
+
+  setAutoRenew(domain: string, enabled: boolean): Promise<void>;
+
+  setWhoisPrivacy(domain: string, enabled: boolean): Promise<void>;
+
+  /** Replace the domain's zone with these records. */
+  setDnsRecords(domain: string, records: RegistrarDnsRecord[]): Promise<void>;
+}
+
 /**
  * Create a Cloudflare for SaaS custom hostname via the API.
  *
@@ -144,13 +253,19 @@ export async function createCustomHostname(
  *
  * @param env                 - Worker environment.
  * @param cfCustomHostnameId  - Cloudflare hostname resource ID.
- * @returns Current status, SSL status, and any verification errors.
+ * @returns Current status, SSL status, any verification errors, and when the
+ *   earliest-expiring issued certificate expires (null before issuance).
  * @throws {notFound} If the hostname doesn't exist in Cloudflare.
  */
 export async function checkHostnameStatus(
   env: Env,
   cfCustomHostnameId: string,
-): Promise<{ status: string; ssl_status: string; verification_errors: string[] }> {
+): Promise<{
+  status: string;
+  ssl_status: string;
+  verification_errors: string[];
+  ssl_expires_at: string | null;
+}> {
   const response = await fetch(
     `https://api.cloudflare.com/client/v4/zones/${env.CF_ZONE_ID}/custom_hostnames/${cfCustomHostnameId}`,
     {
@@ -166,13 +281,23 @@ export async function checkHostnameStatus(
   }
 
   const data = (await response.json()) as {
-    result: { status: string; ssl: { status: string }; verification_errors?: string[] };
+    result: {
+      status: string;
+      ssl: { status: string; certificates?: Array<{ expires_on?: string }> };
+      verification_errors?: string[];
+    };
   };
 
+  const expiries = (data.result.ssl?.certificates ?? [])
+    .map((cert) => cert.expires_on)
+    .filter((date): date is string => Boolean(date))
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+
   return {
     status: data.result.status,
     ssl_status: data.result.ssl?.status ?? 'unknown',
     verification_errors: data.result.verification_errors ?? [],
+    ssl_expires_at: expiries[0] ?? null,
   };
 }
 
@@ -290,15 +415,26 @@ export async function provisionFreeDomain(
 }
 
 /**
- * Provision a custom CNAME domain for a paid site.
+ * Register a custom domain for a paid site, pending ownership verification.
+ *
+ * Enforces the per-org domain limit from entitlements (`max_custom_domains`,
+ * the org's tier limit; Pro's when omitted) and checks for duplicate
+ * hostnames. Nothing is created in Cloudflare yet: the row holds
+ * a TXT challenge, and the certificate is requested once the customer
+ * publishes it (see {@link verifyHostnameOwnership}).
  *
- * Enforces the per-org domain limit from entitlements and checks for
- * duplicate hostnames before calling the Cloudflare API.
+ * Adding `example.com` also adds `www.example.com` (and vice versa) when
+ * the other name is free. The partner shares the challenge, does not count
+ * towards the domain limit, and redirects to the added hostname.
+ *
+ * With `ownership_proved` (a domain we registered for the customer) the
+ * certificates are requested immediately instead of waiting for the TXT
+ * record.
  *
  * @param db   - D1Database binding.
- * @param env  - Worker environment.
+ * @param env  - Worker environment (Cloudflare credentials for `ownership_proved`).
  * @param opts - Organization, site, and desired hostname.
- * @returns The provisioned hostname and its status.
+ * @returns The hostname, its status, its partner and the TXT challenge.
  * @throws {conflict} If the domain limit is reached or hostname exists.
  *
  * @example
@@ -313,17 +449,31 @@ export async function provisionFreeDomain(
 export async function provisionCustomDomain(
   db: D1Database,
   env: Env,
-  opts: { org_id: string; site_id: string; hostname: string },
-): Promise<{ hostname: string; status: HostnameState; is_primary: boolean }> {
-  // Check domain limit
+  opts: {
+    org_id: string;
+    site_id: string;
+    hostname: string;
+    ownership_proved?: boolean;
+    max_custom_domains?: number;
+  },
+): Promise<{
+  id: string;
+  hostname: string;
+  status: HostnameState;
+  is_primary: boolean;
+  paired_hostname: string | null;
+  verification: OwnershipChallenge;
+}> {
+  // Check domain limit (paired redirects don't count)
   const { data: existingDomains } = await dbQuery<{ id: string }>(
     db,
-    'SELECT id FROM hostnames WHERE org_id = ? AND type = ? AND deleted_at IS NULL',
+    'SELECT id FROM hostnames WHERE org_id = ? AND type = ? AND redirect_to IS NULL AND deleted_at IS NULL',
     [opts.org_id, 'custom_cname'],
   );
 
-  if (existingDomains.length >= ENTITLEMENTS.paid.maxCustomDomains) {
-    throw conflict(`Maximum custom domains (${ENTITLEMENTS.paid.maxCustomDomains}) reached`);
+  const limit = opts.max_custom_domains ?? ENTITLEMENTS.pro.maxCustomDomains;
+  if (existingDomains.length >= limit) {
+    throw conflict(`Maximum custom domains (${limit}) reached`);
   }
 
   // Check if hostname already exists
@@ -346,25 +496,23 @@ export async function provisionCustomDomain(
 
   const isFirstCustomDomain = siteCustomDomains.length === 0;
 
-  // Create CF custom hostname
-  const cfResult = await createCustomHostname(env, opts.hostname);
-
   const hostnameId = crypto.randomUUID();
-
-  // Store in DB
-  await dbInsert(db, 'hostnames', {
-    id: hostnameId,
+  const token = createChallengeToken();
+  const pending = {
     org_id: opts.org_id,
     site_id: opts.site_id,
-    hostname: opts.hostname,
     type: 'custom_cname',
-    status: cfResult.status === 'active' ? 'active' : 'pending',
-    cf_custom_hostname_id: cfResult.cf_id,
-    ssl_status: cfResult.ssl_status,
+    status: 'pending',
+    cf_custom_hostname_id: null,
+    ssl_status: 'pending',
     verification_errors: null,
-    last_verified_at: new Date().toISOString(),
+    verification_token: token,
+    last_verified_at: null,
     deleted_at: null,
-  });
+  };
+
+  // Store in DB; the CF hostname is created once ownership is proved
+  await dbInsert(db, 'hostnames', { ...pending, id: hostnameId, hostname: opts.hostname });
 
   // Auto-set as primary if this is the first custom domain for the site
   if (isFirstCustomDomain) {
@@ -372,24 +520,294 @@ export async function provisionCustomDomain(
     await dbUpdate(db, 'hostnames', { is_primary: 1 }, 'id = ?', [hostnameId]);
   }
 
+  // Pair the apex / www partner when nobody has it yet
+  let partner = pairedHostname(opts.hostname);
+  if (partner) {
+    const taken = await dbQueryOne<{ id: string }>(
+      db,
+      'SELECT id FROM hostnames WHERE hostname = ? AND deleted_at IS NULL',
+      [partner],
+    );
+    const { error } = taken
+      ? { error: 'taken' }
+      : await dbInsert(db, 'hostnames', {
+          ...pending,
+          id: crypto.randomUUID(),
+          hostname: partner,
+          redirect_to: opts.hostname,
+        });
+    if (error) partner = null;
+  }
+
+  if (opts.ownership_proved) {
+    await activateVerifiedHostnames(db, env, opts.site_id, token);
+  }
+
   console.warn(
     JSON.stringify({
       level: 'info',
       service: 'domains',
-      message: 'Custom domain provisioned',
+      message: opts.ownership_proved
+        ? 'Custom domain registered with proved ownership'
+        : 'Custom domain registered, awaiting ownership verification',
       hostname: opts.hostname,
+      paired_hostname: partner,
       org_id: opts.org_id,
       site_id: opts.site_id,
       is_primary: isFirstCustomDomain,
     }),
   );
   return {
+    id: hostnameId,
     hostname: opts.hostname,
-    status: cfResult.status === 'active' ? 'active' : 'pending',
+    status: 'pending',
     is_primary: isFirstCustomDomain,
+    paired_hostname: partner,
+    verification: ownershipChallenge(opts.hostname, token),
   };
 }
 
+/** A custom hostname row awaiting (or past) its ownership challenge. */
+interface ChallengeRow {
+  id: string;
+  site_id: string;
+  hostname: string;
+  verification_token: string;
+  redirect_to: string | null;
+  created_at: string;
+}
+
+/**
+ * Request certificates for every still-unprovisioned hostname sharing a
+ * verified challenge (the hostname and its apex / www partner).
+ *
+ * @returns How many hostnames were handed to Cloudflare.
+ */
+async function activateVerifiedHostnames(
+  db: D1Database,
+  env: Env,
+  siteId: string,
+  token: string,
+): Promise<number> {
+  const { data: rows } = await dbQuery<{ id: string; hostname: string }>(
+    db,
+    'SELECT id, hostname FROM hostnames WHERE site_id = ? AND verification_token = ? AND cf_custom_hostname_id IS NULL AND deleted_at IS NULL',
+    [siteId, token],
+  );
+
+  const now = new Date().toISOString();
+  for (const row of rows) {
+    const cfResult = await createCustomHostname(env, row.hostname);
+    await dbUpdate(
+      db,
+      'hostnames',
+      {
+        status: cfResult.status === 'active' ? 'active' : 'pending',
+        cf_custom_hostname_id: cfResult.cf_id,
+        ssl_status: cfResult.ssl_status,
+        verification_errors: null,
+        ownership_verified_at: now,
+        last_verified_at: now,
+      },
+      'id = ?',
+      [row.id],
+    );
+    console.warn(
+      JSON.stringify({
+        level: 'info',
+        service: 'domains',
+        message: 'Domain ownership verified',
+        hostname: row.hostname,
+        cf_id: cfResult.cf_id,
+      }),
+    );
+  }
+  return rows.length;
+}
+
+/**
+ * The DNS records a custom hostname (and its apex / www partner) needs,
+ * written for the customer's DNS provider.
+ *
+ * @param db         - D1Database binding.
+ * @param siteId     - The site the hostname belongs to.
+ * @param hostnameId - The hostname row.
+ * @param resolver   - DNS resolver (tests pass a fake).
+ * @returns The hostname, whether ownership is verified, and the records.
+ * @throws {notFound} If the hostname doesn't exist for this site.
+ * @throws {badRequest} If the hostname has no ownership challenge.
+ */
+export async function getHostnameDnsInstructions(
+  db: D1Database,
+  siteId: string,
+  hostnameId: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<{ hostname: string; verified: boolean; dns: DnsInstructions }> {
+  const row = await dbQueryOne<{
+    hostname: string;
+    verification_token: string | null;
+    redirect_to: string | null;
+    ownership_verified_at: string | null;
+  }>(
+    db,
+    'SELECT hostname, verification_token, redirect_to, ownership_verified_at FROM hostnames WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+    [hostnameId, siteId],
+  );
+  if (!row) throw notFound('Hostname not found for this site');
+  if (!row.verification_token) throw badRequest('This hostname has no ownership challenge');
+
+  // List the hostname the challenge belongs to first, then its partner
+  const { data: pair } = await dbQuery<{ hostname: string; redirect_to: string | null }>(
+    db,
+    'SELECT hostname, redirect_to FROM hostnames WHERE site_id = ? AND verification_token = ? AND deleted_at IS NULL',
+    [siteId, row.verification_token],
+  );
+  const names = pair
+    .sort((a, b) => Number(a.redirect_to !== null) - Number(b.redirect_to !== null))
+    .map((p) => p.hostname);
+
+  return {
+    hostname: row.hostname,
+    verified: row.ownership_verified_at !== null,
+    dns: await buildDnsInstructions(
+      names.length ? names : [row.hostname],
+      row.verification_token,
+      resolver,
+    ),
+  };
+}
+
+/**
+ * Check a custom hostname's TXT challenge now, and request its certificate
+ * (and its partner's) when the record is there. Also retries hostnames
+ * whose challenge expired.
+ *
+ * @param db         - D1Database binding.
+ * @param env        - Worker environment.
+ * @param siteId     - The site the hostname belongs to.
+ * @param hostnameId - The hostname row.
+ * @param resolver   - DNS resolver (tests pass a fake).
+ * @returns Whether ownership is verified, the expected record, and the TXT
+ *   values found at its name.
+ * @throws {notFound} If the hostname doesn't exist for this site.
+ * @throws {badRequest} If the hostname has no ownership challenge.
+ */
+export async function verifyHostnameOwnership(
+  db: D1Database,
+  env: Env,
+  siteId: string,
+  hostnameId: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<{ verified: boolean; challenge: OwnershipChallenge; found: string[] }> {
+  const row = await dbQueryOne<
+    Omit<ChallengeRow, 'verification_token'> & {
+      verification_token: string | null;
+      ownership_verified_at: string | null;
+    }
+  >(
+    db,
+    'SELECT id, site_id, hostname, verification_token, redirect_to, created_at, ownership_verified_at FROM hostnames WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+    [hostnameId, siteId],
+  );
+  if (!row) throw notFound('Hostname not found for this site');
+  if (!row.verification_token) throw badRequest('This hostname has no ownership challenge');
+
+  // A pair's challenge is published for the hostname the customer added
+  const owner = row.redirect_to ?? row.hostname;
+  if (row.ownership_verified_at) {
+    return {
+      verified: true,
+      challenge: ownershipChallenge(owner, row.verification_token),
+      found: [],
+    };
+  }
+
+  const result = await checkOwnershipChallenge(owner, row.verification_token, resolver);
+  if (result.verified) {
+    await activateVerifiedHostnames(db, env, siteId, row.verification_token);
+  }
+  return result;
+}
+
+/**
+ * Check the TXT challenge of every custom hostname still waiting for one
+ * (scheduled cron job). Verified hostnames get their certificates;
+ * challenges older than {@link OWNERSHIP_CHALLENGE_DAYS} days are marked
+ * `verification_failed`.
+ *
+ * @param db       - D1Database binding.
+ * @param env      - Worker environment.
+ * @param resolver - DNS resolver (tests pass a fake).
+ * @param now      - Current time, for challenge expiry.
+ * @returns Count of hostnames verified and challenges expired.
+ */
+export async function verifyOwnershipChallenges(
+  db: D1Database,
+  env: Env,
+  resolver: DnsResolver = dohResolver,
+  now: Date = new Date(),
+): Promise<{ verified: number; expired: number }> {
+  const { data: rows } = await dbQuery<ChallengeRow>(
+    db,
+    'SELECT id, site_id, hostname, verification_token, redirect_to, created_at FROM hostnames WHERE status = ? AND cf_custom_hostname_id IS NULL AND verification_token IS NOT NULL AND deleted_at IS NULL',
+    ['pending'],
+  );
+
+  // Pairs share a token; check each challenge once, on the added hostname
+  const challenges = new Map<string, ChallengeRow[]>();
+  for (const row of rows) {
+    const group = challenges.get(row.verification_token) ?? [];
+    group.push(row);
+    challenges.set(row.verification_token, group);
+  }
+
+  let verified = 0;
+  let expired = 0;
+  const cutoff = now.getTime() - OWNERSHIP_CHALLENGE_DAYS * 86_400_000;
+
+  for (const [token, group] of challenges) {
+    const first = group[0]!;
+    const owner = first.redirect_to ?? first.hostname;
+    try {
+      const result = await checkOwnershipChallenge(owner, token, resolver);
+      if (result.verified) {
+        verified += await activateVerifiedHostnames(db, env, first.site_id, token);
+        continue;
+      }
+
+      if (Date.parse(first.created_at) < cutoff) {
+        const error = `TXT record ${result.challenge.name} not found within ${OWNERSHIP_CHALLENGE_DAYS} days`;
+        for (const row of group) {
+          await dbUpdate(
+            db,
+            'hostnames',
+            {
+              status: 'verification_failed',
+              verification_errors: JSON.stringify([error]),
+              last_verified_at: now.toISOString(),
+            },
+            'id = ?',
+            [row.id],
+          );
+        }
+        expired += group.length;
+      }
+    } catch (err) {
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'domains',
+          message: 'Ownership verification error',
+          hostname: owner,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+
+  return { verified, expired };
+}
+
 /**
  * Get all hostnames for a site (includes is_primary flag).
  *
@@ -430,22 +848,24 @@ export async function getSiteHostnames(
  * Set a hostname as the primary for its site.
  *
  * Clears primary from all other hostnames on the same site, then sets the
- * specified hostname as primary.
+ * specified hostname as primary. Choosing the redirecting half of an apex /
+ * www pair flips the redirect, so the old primary now points at it.
  *
  * @param db         - D1Database binding.
  * @param siteId     - The site ID.
  * @param hostnameId - The hostname ID to set as primary.
+ * @returns Hostnames whose redirect changed, for cache invalidation.
  * @throws {notFound} If the hostname doesn't exist for this site.
  */
 export async function setPrimaryHostname(
   db: D1Database,
   siteId: string,
   hostnameId: string,
-): Promise<void> {
+): Promise<string[]> {
   // Verify the hostname belongs to this site
-  const hostname = await dbQueryOne<{ id: string }>(
+  const hostname = await dbQueryOne<{ id: string; hostname: string; redirect_to: string | null }>(
     db,
-    'SELECT id FROM hostnames WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
+    'SELECT id, hostname, redirect_to FROM hostnames WHERE id = ? AND site_id = ? AND deleted_at IS NULL',
     [hostnameId, siteId],
   );
 
@@ -453,43 +873,67 @@ export async function setPrimaryHostname(
     throw notFound('Hostname not found for this site');
   }
 
+  if (hostname.redirect_to) {
+    await dbUpdate(db, 'hostnames', { redirect_to: null }, 'id = ?', [hostnameId]);
+    await dbUpdate(
+      db,
+      'hostnames',
+      { redirect_to: hostname.hostname },
+      'site_id = ? AND hostname = ? AND deleted_at IS NULL',
+      [siteId, hostname.redirect_to],
+    );
+  }
+
   // Clear primary from all hostnames on this site
   await dbUpdate(db, 'hostnames', { is_primary: 0 }, 'site_id = ?', [siteId]);
 
   // Set the selected hostname as primary
   await dbUpdate(db, 'hostnames', { is_primary: 1 }, 'id = ?', [hostnameId]);
+
+  return hostname.redirect_to ? [hostname.hostname, hostname.redirect_to] : [];
 }
 
 /**
- * Check if a hostname has a CNAME record pointing to the expected target.
+ * Stop hostnames redirecting to `hostname` (it is being removed), so its
+ * apex / www partner serves the site itself.
  *
- * Uses Cloudflare's DNS over HTTPS resolver to look up CNAME records.
+ * @param db       - D1Database binding.
+ * @param siteId   - The site ID.
+ * @param hostname - The hostname being removed.
+ * @returns The partners that no longer redirect, for cache invalidation.
+ */
+export async function unpairHostname(
+  db: D1Database,
+  siteId: string,
+  hostname: string,
+): Promise<string[]> {
+  const { data } = await dbQuery<{ hostname: string }>(
+    db,
+    'SELECT hostname FROM hostnames WHERE site_id = ? AND redirect_to = ? AND deleted_at IS NULL',
+    [siteId, hostname],
+  );
+  if (data.length > 0) {
+    await dbUpdate(db, 'hostnames', { redirect_to: null }, 'site_id = ? AND redirect_to = ?', [
+      siteId,
+      hostname,
+    ]);
+  }
+  return data.map((row) => row.hostname);
+}
+
+/**
+ * Check if a hostname has a CNAME record pointing to the expected target.
  *
  * @param hostname - The domain to check.
+ * @param resolver - DNS resolver; defaults to Cloudflare's DNS over HTTPS.
  * @returns The CNAME target (without trailing dot), or null if no CNAME found.
  */
-export async function checkCnameTarget(hostname: string): Promise<string | null> {
-  try {
-    const resp = await fetch(
-      `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(hostname)}&type=CNAME`,
-      { headers: { accept: 'application/dns-json' } },
-    );
-
-    if (!resp.ok) return null;
-
-    const data = (await resp.json()) as {
-      Answer?: Array<{ type: number; data: string }>;
-    };
-    const cnameRecord = data.Answer?.find((a) => a.type === 5);
-
-    if (cnameRecord) {
-      return cnameRecord.data.replace(/\.$/, '');
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
+export async function checkCnameTarget(
+  hostname: string,
+  resolver: DnsResolver = dohResolver,
+): Promise<string | null> {
+  const [target] = await resolver.resolve(hostname, 'CNAME');
+  return target ?? null;
 }
 
 /**
@@ -0,0 +1,250 @@
+/**
+ * @module dunning
+ * @description Cron-driven dunning for `past_due` subscriptions.
+ *
+ * `subscriptions.dunning_stage` counts the reminders sent in the current
+ * episode, which starts at `past_due_since` (stamped by `handlePaymentFailed`):
+ *
+ * | Stage | Meaning                                   | Next step                           |
+ * | ----- | ----------------------------------------- | ----------------------------------- |
+ * | 0     | Payment failed, nothing sent yet          | Reminder 0 on day `REMINDER_DAYS[0]` |
+ * | 1–3   | Reminders 0…n-1 sent                      | Reminder n on day `REMINDER_DAYS[n]` |
+ * | 4     | All reminders sent                        | Downgrade on `DOWNGRADE_DAY`        |
+ * | 5     | Downgraded to free ({@link DUNNING_DOWNGRADED_STAGE}) | — (until `invoice.paid`) |
+ *
+ * A run sends at most one email per subscription: if the cron missed a
+ * window, the latest due reminder is sent and the skipped ones are counted
+ * as done. Every step writes an audit entry; `invoice.paid`
+ * (`billing.handleInvoicePaid`) resets the episode.
+ *
+ * @packageDocumentation
+ */
+
+import { DUNNING, ENTITLEMENTS } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQuery, dbQueryOne } from './db.js';
+import { writeAuditLog } from './audit.js';
+import { deleteCustomHostname } from './domains.js';
+import { notifyDunning } from './notifications.js';
+
+/** `dunning_stage` once the org has been downgraded to free. */
+export const DUNNING_DOWNGRADED_STAGE = DUNNING.REMINDER_DAYS.length + 1;
+
+const DAY_MS = 86_400_000;
+
+/** What the walk should do for one subscription on this run. */
+export type DunningStep = { kind: 'remind'; reminder: number } | { kind: 'downgrade' } | null;
+
+/** Past-due subscription row as read by the walk. */
+interface PastDueRow {
+  id: string;
+  org_id: string;
+  dunning_stage: number;
+  past_due_since: string | null;
+  last_payment_failed_at: string | null;
+  org_name: string | null;
+}
+
+/**
+ * Decide the next dunning step for a subscription `daysPastDue` days into its
+ * episode, having already reached `stage`.
+ *
+ * @example
+ * ```ts
+ * nextDunningStep(0, 0);  // { kind: 'remind', reminder: 0 }
+ * nextDunningStep(1, 3);  // null — reminder 1 is due on day 7
+ * nextDunningStep(1, 20); // { kind: 'remind', reminder: 2 } — skips reminder 1
+ * nextDunningStep(4, 60); // { kind: 'downgrade' }
+ * ```
+ */
+export function nextDunningStep(stage: number, daysPastDue: number): DunningStep {
+  if (stage >= DUNNING_DOWNGRADED_STAGE) return null;
+  if (daysPastDue >= DUNNING.DOWNGRADE_DAY) return { kind: 'downgrade' };
+
+  let due = -1;
+  DUNNING.REMINDER_DAYS.forEach((day, i) => {
+    if (day <= daysPastDue) due = i;
+  });
+  return due >= stage ? { kind: 'remind', reminder: due } : null;
+}
+
+/**
+ * Walk every `past_due` subscription and apply its next dunning step.
+ * Never throws; per-subscription failures are logged and retried next run.
+ */
+export async function advanceDunning(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{ reminded: number; downgraded: number; failed: number }> {
+  const result = { reminded: 0, downgraded: 0, failed: 0 };
+  const { data: rows } = await dbQuery<PastDueRow>(
+    env.DB,
+    `SELECT s.id, s.org_id, s.dunning_stage, s.past_due_since, s.last_payment_failed_at, o.name AS org_name
+     FROM subscriptions s LEFT JOIN orgs o ON o.id = s.org_id
+     WHERE s.status = 'past_due' AND s.deleted_at IS NULL AND s.dunning_stage < ?`,
+    [DUNNING_DOWNGRADED_STAGE],
+  );
+
+  for (const row of rows) {
+    const since = row.past_due_since ?? row.last_payment_failed_at;
+    if (!since) continue;
+    const daysPastDue = Math.floor((now.getTime() - new Date(since).getTime()) / DAY_MS);
+    const step = nextDunningStep(row.dunning_stage, daysPastDue);
+    if (!step) continue;
+
+    try {
+      if (step.kind === 'remind') {
+        await sendReminder(env, row, step.reminder, daysPastDue);
+        result.reminded++;
+      } else {
+        await downgradeOrg(env, row, daysPastDue);
+        result.downgraded++;
+      }
+    } catch (err) {
+      result.failed++;
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'dunning',
+          message: 'Dunning step failed',
+          org_id: row.org_id,
+          step: step.kind,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+
+  return result;
+}
+
+async function sendReminder(
+  env: Env,
+  row: PastDueRow,
+  reminder: number,
+  daysPastDue: number,
+): Promise<void> {
+  const email = await ownerEmail(env.DB, row.org_id);
+  if (!email) throw new Error('org has no owner to notify');
+
+  // Email first: a failed send leaves the stage untouched for the next run.
+  await notifyDunning(env, {
+    email,
+    orgName: row.org_name ?? 'your organization',
+    reminder,
+    daysUntilDowngrade: Math.max(DUNNING.DOWNGRADE_DAY - daysPastDue, 0),
+  });
+  await dbExecute(
+    env.DB,
+    'UPDATE subscriptions SET dunning_stage = ?, updated_at = ? WHERE id = ?',
+    [reminder + 1, new Date().toISOString(), row.id],
+  );
+  await writeAuditLog(env.DB, {
+    org_id: row.org_id,
+    actor_id: null,
+    action: 'billing.dunning_reminder_sent',
+    target_type: 'subscription',
+    target_id: row.id,
+    metadata_json: { reminder, days_past_due: daysPastDue, email },
+  });
+}
+
+/**
+ * Move the org to the free plan: sites get the top bar back and custom
+ * domains beyond the free entitlement are detached (oldest kept first).
+ */
+async function downgradeOrg(env: Env, row: PastDueRow, daysPastDue: number): Promise<void> {
+  const now = new Date().toISOString();
+  await dbExecute(
+    env.DB,
+    `UPDATE subscriptions SET plan = 'free', dunning_stage = ?, updated_at = ? WHERE id = ?`,
+    [DUNNING_DOWNGRADED_STAGE, now, row.id],
+  );
+  const sites = await dbExecute(
+    env.DB,
+    `UPDATE sites SET plan = 'free', dunning_downgraded = 1, updated_at = ?
+     WHERE org_id = ? AND plan = 'paid' AND deleted_at IS NULL`,
+    [now, row.org_id],
+  );
+
+  const { data: domains } = await dbQuery<{
+    id: string;
+    site_id: string;
+    hostname: string;
+    cf_custom_hostname_id: string | null;
+  }>(
+    env.DB,
+    `SELECT id, site_id, hostname, cf_custom_hostname_id FROM hostnames
+     WHERE org_id = ? AND type = 'custom_cname' AND deleted_at IS NULL
+     ORDER BY created_at ASC`,
+    [row.org_id],
+  );
+  const detached = domains.slice(ENTITLEMENTS.free.maxCustomDomains);
+  for (const domain of detached) {
+    if (domain.cf_custom_hostname_id) {
+      // Best effort: an orphaned CF hostname is harmless once the row is gone.
+      await deleteCustomHostname(env, domain.cf_custom_hostname_id).catch(() => {});
+    }
+    await dbExecute(
+      env.DB,
+      `UPDATE hostnames SET status = 'deleted', deleted_at = ?, updated_at = ? WHERE id = ?`,
+      [now, now, domain.id],
+    );
+    await env.CACHE_KV.delete(`host:${domain.hostname}`).catch(() => {});
+    await writeAuditLog(env.DB, {
+      org_id: row.org_id,
+      actor_id: null,
+      action: 'hostname.detached',
+      target_type: 'hostname',
+      target_id: domain.id,
+      metadata_json: {
+        hostname: domain.hostname,
+        site_id: domain.site_id,
+        reason: 'dunning_downgrade',
+      },
+    });
+  }
+
+  await writeAuditLog(env.DB, {
+    org_id: row.org_id,
+    actor_id: null,
+    action: 'billing.dunning_downgraded',
+    target_type: 'subscription',
+    target_id: row.id,
+    metadata_json: {
+      days_past_due: daysPastDue,
+      sites_downgraded: sites.changes,
+      hostnames_detached: detached.length,
+    },
+  });
+
+  const email = await ownerEmail(env.DB, row.org_id);
+  if (email) {
+    await notifyDunning(env, {
+      email,
+      orgName: row.org_name ?? 'your organization',
+      reminder: null,
+      daysUntilDowngrade: 0,
+    }).catch((err) => {
+      console.warn(
+        JSON.stringify({
+          level: 'warn',
+          service: 'dunning',
+          message: 'Failed to send downgrade notice',
+          org_id: row.org_id,
+          error: String(err),
+        }),
+      );
+    });
+  }
+}
+
+async function ownerEmail(db: D1Database, orgId: string): Promise<string | null> {
+  const row = await dbQueryOne<{ email: string }>(
+    db,
+    `SELECT u.email FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.role = 'owner' AND m.deleted_at IS NULL LIMIT 1`,
+    [orgId],
+  );
+  return row?.email ?? null;
+}
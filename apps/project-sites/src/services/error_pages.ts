@@ -0,0 +1,222 @@
+/**
+ * @module error_pages
+ * @description Branded error pages for served sites, used when a build has
+ * no `404.html` / `410.html` / `503.html` of its own.
+ *
+ * | Status | When                                                | Title                      |
+ * | ------ | --------------------------------------------------- | -------------------------- |
+ * | 404    | No file, directory index or SPA fallback matches    | Page not found             |
+ * | 410    | A `_redirects` rule with status 410 (deleted pages) | This page has been removed |
+ * | 503    | The site is in maintenance mode                     | We'll be right back        |
+ *
+ * The template takes its name, logo, colour and font from the site's
+ * `brand_config` row in `site_data`, and lists the build's pages from its
+ * `sitemap.xml` behind a small client-side search box. Both are cached in KV
+ * per build version for an hour, so brand edits show up within that window.
+ *
+ * @packageDocumentation
+ */
+
+import type { Env } from '../types/env.js';
+import { dbQueryOne } from './db.js';
+
+/** Statuses the error-page pipeline renders. */
+export const ERROR_PAGE_STATUSES = [404, 410, 503] as const;
+export type ErrorPageStatus = (typeof ERROR_PAGE_STATUSES)[number];
+
+/** Brand fields the template uses; everything is optional. */
+export interface ErrorPageBrand {
+  name: string | null;
+  logo_url: string | null;
+  primary_color: string | null;
+  font_heading: string | null;
+  font_body: string | null;
+}
+
+/** A page linked from the error page. */
+export interface ErrorPageLink {
+  path: string;
+  label: string;
+}
+
+/** Everything the template needs besides the status; plain JSON for KV. */
+export interface ErrorPageContext {
+  brand: ErrorPageBrand;
+  pages: ErrorPageLink[];
+}
+
+/** Pages listed under the search box before the visitor types anything. */
+const TOP_PAGES = 6;
+
+/** Pages searchable from the error page. */
+const MAX_PAGES = 50;
+
+const CONTEXT_TTL_SECONDS = 3_600;
+
+const COPY: Record<ErrorPageStatus, { title: string; message: string }> = {
+  404: {
+    title: 'Page not found',
+    message: "We couldn't find the page you were looking for. It may have moved.",
+  },
+  410: {
+    title: 'This page has been removed',
+    message: 'The page you were looking for is no longer available.',
+  },
+  503: {
+    title: "We'll be right back",
+    message: "We're making some improvements to the site. Please check back shortly.",
+  },
+};
+
+/** KV key for a build version's error-page context. */
+export function errorPageCacheKey(slug: string, version: string): string {
+  return `error_page:${slug}:${version}`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!,
+  );
+
+const str = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/** Keep only values that are safe to put in CSS or a `src` attribute. */
+export function sanitizeBrand(brand: ErrorPageBrand): ErrorPageBrand {
+  const color = brand.primary_color;
+  const font = (name: string | null) => (name && /^[\w\s-]{1,60}$/.test(name) ? name : null);
+  return {
+    name: brand.name ? brand.name.slice(0, 120) : null,
+    logo_url:
+      brand.logo_url && /^(https:\/\/|\/(?!\/))\S+$/.test(brand.logo_url) ? brand.logo_url : null,
+    primary_color: color && /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : null,
+    font_heading: font(brand.font_heading),
+    font_body: font(brand.font_body),
+  };
+}
+
+/** Turn `/services/hair-color` into `Hair Color`. */
+function labelForPath(path: string): string {
+  const last = path
+    .replace(/\/index\.html?$|\.html?$/i, '')
+    .split('/')
+    .filter(Boolean)
+    .pop();
+  if (!last) return 'Home';
+  return decodeURIComponent(last)
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, (ch) => ch.toUpperCase());
+}
+
+/** Page paths from a sitemap, home first, without duplicates or error pages. */
+export function pagesFromSitemap(xml: string): ErrorPageLink[] {
+  const paths = new Set<string>();
+  for (const match of xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)) {
+    let path: string;
+    try {
+      path = new URL(match[1]!.replace(/&amp;/g, '&'), 'https://site.invalid').pathname;
+    } catch {
+      continue;
+    }
+    if (/^\/(?:404|410|500|503|offline)(?:\.html)?$/.test(path)) continue;
+    paths.add(path);
+    if (paths.size >= MAX_PAGES) break;
+  }
+  return [...paths]
+    .sort((a, b) => (a === '/' ? -1 : b === '/' ? 1 : 0))
+    .map((path) => ({ path, label: labelForPath(path) }));
+}
+
+/**
+ * Brand and page list for a site's error pages. Sites without a D1 row
+ * (bolt community publishes) get an unbranded page. Never throws.
+ */
+export async function loadErrorPageContext(
+  env: Env,
+  site: { site_id: string; slug: string },
+  version: string,
+): Promise<ErrorPageContext> {
+  const key = errorPageCacheKey(site.slug, version);
+  try {
+    const cached = await env.CACHE_KV.get<ErrorPageContext>(key, 'json');
+    if (cached) return cached;
+  } catch {
+    /* KV unavailable — build it */
+  }
+
+  const row = await dbQueryOne<{ business_name: string | null; data_json: string | null }>(
+    env.DB,
+    `SELECT s.business_name, d.data_json
+     FROM sites s
+     LEFT JOIN site_data d
+       ON d.site_id = s.id AND d.table_name = 'brand_config' AND d.deleted_at IS NULL
+     WHERE s.id = ?
+     ORDER BY d.sort_order ASC
+     LIMIT 1`,
+    [site.site_id],
+  );
+  let data: Record<string, unknown> = {};
+  try {
+    data = JSON.parse(row?.data_json || '{}') as Record<string, unknown>;
+  } catch {
+    /* malformed brand_config — fall back to defaults */
+  }
+
+  let pages: ErrorPageLink[] = [];
+  try {
+    const sitemap = await env.SITES_BUCKET.get(`sites/${site.slug}/${version}/sitemap.xml`);
+    if (sitemap) pages = pagesFromSitemap(await sitemap.text());
+  } catch {
+    /* no page list */
+  }
+
+  const context: ErrorPageContext = {
+    brand: {
+      name: str(data.business_name) ?? str(data.name) ?? str(row?.business_name),
+      logo_url: str(data.logo_url) ?? str(data.logo),
+      primary_color: str(data.primary_color),
+      font_heading: str(data.font_heading),
+      font_body: str(data.font_body),
+    },
+    pages: pages.length > 0 ? pages : [{ path: '/', label: 'Home' }],
+  };
+  try {
+    await env.CACHE_KV.put(key, JSON.stringify(context), { expirationTtl: CONTEXT_TTL_SECONDS });
+  } catch {
+    /* rebuilt on the next error */
+  }
+  return context;
+}
+
+/**
+ * Render the branded error page. All brand values are escaped or
+ * validated, since `brand_config` is editable by the site owner.
+ */
+export function renderErrorPage(status: ErrorPageStatus, context: ErrorPageContext): string {
+  const brand = sanitizeBrand(context.brand);
+  const { title, message } = COPY[status];
+  const color = brand.primary_color ?? '#2563eb';
+  const headingFont = brand.font_heading ?? brand.font_body;
+  const fonts = [...new Set([brand.font_heading, brand.font_body].filter(Boolean))] as string[];
+  const fontLink = fonts.length
+    ? `<link href="https://fonts.googleapis.com/css2?${fonts
+        .map((f) => `family=${encodeURIComponent(f).replace(/%20/g, '+')}:wght@400;600;700`)
+        .join('&amp;')}&amp;display=swap" rel="stylesheet">`
+    : '';
+  const siteName = brand.name ? escapeHtml(brand.name) : '';
+  const header = brand.logo_url
+    ? `<img class="logo" src="${escapeHtml(brand.logo_url)}" alt="${siteName}">`
+    : siteName
+      ? `<div class="name">${siteName}</div>`
+      : '';
+  const pages = context.pages
+    .slice(0, MAX_PAGES)
+    .map(
+      (page, i) =>
+        `<li${i >= TOP_PAGES ? ' hidden' : ''}><a href="${escapeHtml(page.path)}">${escapeHtml(page.label)}</a></li>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1"><meta name="robots" content="noindex"><title>${title}${siteName ? ` | ${siteName}` : ''}</title>${fontLink}<style>*{margin:0;padding:0;box-sizing:border-box}body{min-height:100vh;display:flex;align-items:center;justify-content:center;background:#f8fafc;color:#0f172a;font-family:${brand.font_body ? `'${brand.font_body}',` : ''}system-ui,-apple-system,sans-serif;padding:2rem}main{max-width:520px;width:100%;text-align:center}.logo{max-height:64px;max-width:220px;margin-bottom:2rem}.name{font-size:1.25rem;font-weight:700;margin-bottom:2rem;color:${color}}.code{font-size:4.5rem;font-weight:700;line-height:1;color:${color}}h1{font-size:1.6rem;margin:.75rem 0${headingFont ? `;font-family:'${headingFont}',system-ui,sans-serif` : ''}}p{color:#475569;line-height:1.6;margin-bottom:1.75rem}input{width:100%;padding:.75rem 1rem;border:1px solid #cbd5e1;border-radius:8px;font:inherit}input:focus{outline:2px solid ${color};border-color:transparent}ul{list-style:none;margin:1.25rem 0 2rem;display:flex;flex-wrap:wrap;gap:.5rem;justify-content:center}li a{display:inline-block;padding:.4rem .9rem;border-radius:999px;background:#fff;border:1px solid #e2e8f0;color:#0f172a;text-decoration:none}li a:hover{border-color:${color};color:${color}}.home{display:inline-block;padding:.75rem 1.75rem;border-radius:8px;background:${color};color:#fff;text-decoration:none;font-weight:600}</style></head><body><main>${header}<div class="code">${status}</div><h1>${title}</h1><p>${message}</p><form role="search" onsubmit="return false"><input id="ps-search" type="search" placeholder="Search this site" aria-label="Search this site" autocomplete="off"></form><ul id="ps-pages">${pages}</ul><a class="home" href="/">Back to home</a></main><script>(function(){var input=document.getElementById('ps-search'),items=[].slice.call(document.querySelectorAll('#ps-pages li'));input.addEventListener('input',function(){var q=input.value.trim().toLowerCase(),shown=0;items.forEach(function(li){var match=q?li.textContent.toLowerCase().indexOf(q)!==-1||li.firstChild.getAttribute('href').toLowerCase().indexOf(q)!==-1:shown<${TOP_PAGES};li.hidden=!match||shown>=${TOP_PAGES};if(!li.hidden)shown++;});});})();</script></body></html>`;
+}
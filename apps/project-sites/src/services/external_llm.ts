@@ -432,6 +432,35 @@ export async function callExternalLLM(
   throw new Error('No LLM provider available — set OPENAI_API_KEY or ANTHROPIC_API_KEY');
 }
 
+/**
+ * Call one provider once with a caller-supplied API key.
+ *
+ * Used for customer-owned keys (AI endpoints backed by the form_api_keys
+ * vault): no retries, no fallback, and no circuit-breaker bookkeeping, so a
+ * bad customer key can never trip the breaker for platform traffic.
+ */
+export async function callLLMWithKey(
+  provider: 'openai' | 'anthropic',
+  apiKey: string,
+  options: ExternalLLMOptions,
+): Promise<ExternalLLMResult> {
+  const model =
+    options.model ?? (provider === 'openai' ? 'gpt-4o-mini' : 'claude-haiku-4-5-20251001');
+  const start = Date.now();
+  const result =
+    provider === 'openai'
+      ? await callOpenAI(apiKey, model, options)
+      : await callAnthropic(apiKey, model, options);
+  return {
+    output: result.text,
+    model_used: model,
+    provider,
+    latency_ms: Date.now() - start,
+    token_count: result.tokens,
+    cost_estimate: estimateCost(model, result.tokens),
+  };
+}
+
 // ─── Vision Call ────────────────────────────────────────────────────────────
 
 /**
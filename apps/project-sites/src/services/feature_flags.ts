@@ -0,0 +1,301 @@
+/**
+ * @module feature_flags
+ * @description Database-backed feature flags for gradual rollout, read from
+ * the `feature_flags` table (migration 0001).
+ *
+ * Each flag has one global row (`org_id IS NULL`) and any number of per-org
+ * override rows. {@link evaluateFlag} applies the rules in this order:
+ *
+ * | Step | Rule                                                            | Result when it applies |
+ * | ---- | --------------------------------------------------------------- | ---------------------- |
+ * | 1    | No global row, or global `enabled = 0` (kill switch)            | off                    |
+ * | 2    | Org override row (allow-list `enabled = 1` / deny `enabled = 0`) | the override           |
+ * | 3    | `plans` set and the org's plan is not listed                     | off                    |
+ * | 4    | {@link rolloutBucket} of flag + org ID `< rollout_percentage`    | on, otherwise off      |
+ *
+ * Anonymous callers have no org, so they only see flags rolled out to 100%
+ * with no plan restriction.
+ *
+ * The whole table is small, so it is cached as one JSON blob in `CACHE_KV`
+ * for {@link FLAG_CACHE_TTL_SECONDS}; every admin write drops the blob.
+ *
+ * @packageDocumentation
+ */
+
+import { type FlagRules, type UpsertFeatureFlag } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQuery, dbQueryOne } from './db.js';
+
+/** KV key for the cached flag table. */
+export const FLAG_CACHE_KEY = 'feature_flags:v1';
+
+/** KV's minimum TTL — flag changes reach every colo within a minute. */
+export const FLAG_CACHE_TTL_SECONDS = 60;
+
+/** Billing plan used for plan targeting. */
+export type FlagPlan = 'free' | 'paid';
+
+/** A flag definition with its org overrides folded in. */
+export interface FeatureFlag {
+  name: string;
+  enabled: boolean;
+  description: string | null;
+  rollout_percentage: number;
+  plans: FlagPlan[] | null;
+  /** `org_id → enabled` for orgs forced on or off. */
+  overrides: Record<string, boolean>;
+  updated_at: string;
+}
+
+/** Who a flag is being evaluated for. */
+export interface FlagContext {
+  orgId?: string | null;
+  plan?: FlagPlan | null;
+}
+
+interface FeatureFlagRow {
+  org_id: string | null;
+  flag_name: string;
+  enabled: number;
+  metadata_json: string | null;
+  updated_at: string;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────
+
+/**
+ * Stable 0-99 bucket for `orgId` under `flagName` (32-bit FNV-1a). Hashing
+ * the flag name too keeps two 10% rollouts from landing on the same orgs.
+ */
+export function rolloutBucket(flagName: string, orgId: string): number {
+  let hash = 0x811c9dc5;
+  for (const ch of `${flagName}:${orgId}`) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/** Decide whether `flag` is on for `ctx`. Pure; see the module table. */
+export function evaluateFlag(flag: FeatureFlag | undefined, ctx: FlagContext): boolean {
+  if (!flag || !flag.enabled) return false;
+
+  const orgId = ctx.orgId ?? null;
+  if (orgId && orgId in flag.overrides) return flag.overrides[orgId]!;
+
+  if (flag.plans && (!ctx.plan || !flag.plans.includes(ctx.plan))) return false;
+
+  if (flag.rollout_percentage >= 100) return true;
+  if (!orgId || flag.rollout_percentage <= 0) return false;
+  return rolloutBucket(flag.name, orgId) < flag.rollout_percentage;
+}
+
+// ─── Loading ─────────────────────────────────────────────────
+
+function parseRules(json: string | null): Partial<FlagRules> {
+  if (!json) return {};
+  try {
+    return JSON.parse(json) as Partial<FlagRules>;
+  } catch {
+    return {};
+  }
+}
+
+/** Fold raw rows into flag definitions. Overrides without a global row are dropped. */
+export function buildFlags(rows: FeatureFlagRow[]): Record<string, FeatureFlag> {
+  const flags: Record<string, FeatureFlag> = {};
+  for (const row of rows) {
+    if (row.org_id !== null) continue;
+    const rules = parseRules(row.metadata_json);
+    flags[row.flag_name] = {
+      name: row.flag_name,
+      enabled: row.enabled === 1,
+      description: rules.description ?? null,
+      rollout_percentage: rules.rollout_percentage ?? 100,
+      plans: rules.plans?.length ? rules.plans : null,
+      overrides: {},
+      updated_at: row.updated_at,
+    };
+  }
+  for (const row of rows) {
+    if (row.org_id === null) continue;
+    const flag = flags[row.flag_name];
+    if (flag) flag.overrides[row.org_id] = row.enabled === 1;
+  }
+  return flags;
+}
+
+/** All live flags, from KV when cached. */
+export async function loadFlags(env: Env): Promise<Record<string, FeatureFlag>> {
+  const cached = await env.CACHE_KV.get<Record<string, FeatureFlag>>(FLAG_CACHE_KEY, 'json').catch(
+    () => null,
+  );
+  if (cached) return cached;
+
+  const { data } = await dbQuery<FeatureFlagRow>(
+    env.DB,
+    'SELECT org_id, flag_name, enabled, metadata_json, updated_at FROM feature_flags WHERE deleted_at IS NULL',
+    [],
+  );
+  const flags = buildFlags(data);
+  await env.CACHE_KV.put(FLAG_CACHE_KEY, JSON.stringify(flags), {
+    expirationTtl: FLAG_CACHE_TTL_SECONDS,
+  }).catch(() => {});
+  return flags;
+}
+
+/** Drop the cached table after a write. */
+export async function invalidateFlagCache(env: Env): Promise<void> {
+  await env.CACHE_KV.delete(FLAG_CACHE_KEY).catch(() => {});
+}
+
+/** The org's plan for targeting — `paid` only while the subscription is active. */
+export async function getOrgPlan(db: D1Database, orgId: string): Promise<FlagPlan> {
+  const sub = await dbQueryOne<{ plan: string; status: string }>(
+    db,
+    'SELECT plan, status FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
+    [orgId],
+  );
+  return sub?.plan === 'paid' && sub.status === 'active' ? 'paid' : 'free';
+}
+
+/** Every flag evaluated for one org (or an anonymous caller). */
+export async function evaluateFlagsForOrg(
+  env: Env,
+  orgId: string | null | undefined,
+): Promise<Record<string, boolean>> {
+  const flags = await loadFlags(env);
+  const plan = orgId ? await getOrgPlan(env.DB, orgId) : null;
+  const result: Record<string, boolean> = {};
+  for (const flag of Object.values(flags)) {
+    result[flag.name] = evaluateFlag(flag, { orgId, plan });
+  }
+  return result;
+}
+
+/**
+ * Gate server-side code on a flag.
+ *
+ * @example
+ * ```ts
+ * if (await isFeatureEnabled(c.env, 'create.new_wizard', orgId)) { ... }
+ * ```
+ */
+export async function isFeatureEnabled(
+  env: Env,
+  flagName: string,
+  orgId: string | null | undefined,
+): Promise<boolean> {
+  const flags = await loadFlags(env);
+  const flag = flags[flagName];
+  if (!flag?.enabled) return false;
+  const plan = orgId && flag.plans ? await getOrgPlan(env.DB, orgId) : null;
+  return evaluateFlag(flag, { orgId, plan });
+}
+
+// ─── Administration ──────────────────────────────────────────
+
+/**
+ * Platform operators who may manage flags: users whose email is listed in
+ * `PLATFORM_ADMIN_EMAILS` (comma-separated). Org roles do not apply — flags
+ * affect every org.
+ */
+export function isPlatformAdmin(env: Env, email: string | null | undefined): boolean {
+  if (!email || !env.PLATFORM_ADMIN_EMAILS) return false;
+  const admins = env.PLATFORM_ADMIN_EMAILS.split(',').map((e) => e.trim().toLowerCase());
+  return admins.includes(email.toLowerCase());
+}
+
+/**
+ * Insert or revive the row for (`orgId`, `flagName`). `org_id` is nullable
+ * and SQLite treats NULLs as distinct in the unique index, so this is a
+ * lookup + update rather than `ON CONFLICT`.
+ */
+async function writeFlagRow(
+  db: D1Database,
+  flagName: string,
+  orgId: string | null,
+  enabled: boolean,
+  metadataJson: string | null,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await dbQueryOne<{ id: string }>(
+    db,
+    'SELECT id FROM feature_flags WHERE flag_name = ? AND org_id IS ?',
+    [flagName, orgId],
+  );
+  if (existing) {
+    await dbExecute(
+      db,
+      `UPDATE feature_flags SET enabled = ?, metadata_json = ?, deleted_at = NULL, updated_at = ?
+       WHERE id = ?`,
+      [enabled ? 1 : 0, metadataJson, now, existing.id],
+    );
+    return;
+  }
+  await dbExecute(
+    db,
+    `INSERT INTO feature_flags (id, org_id, flag_name, enabled, metadata_json, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [crypto.randomUUID(), orgId, flagName, enabled ? 1 : 0, metadataJson, now, now],
+  );
+}
+
+/** Create or replace a flag definition. Existing org overrides are kept. */
+export async function upsertFlag(
+  env: Env,
+  flagName: string,
+  input: UpsertFeatureFlag,
+): Promise<void> {
+  const { enabled, ...rules } = input;
+  await writeFlagRow(env.DB, flagName, null, enabled, JSON.stringify(rules));
+  await invalidateFlagCache(env);
+}
+
+/**
+ * Soft-delete a flag and its overrides.
+ *
+ * @returns `false` when no live flag had that name.
+ */
+export async function deleteFlag(env: Env, flagName: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    env.DB,
+    'UPDATE feature_flags SET deleted_at = ?, updated_at = ? WHERE flag_name = ? AND deleted_at IS NULL',
+    [now, now, flagName],
+  );
+  await invalidateFlagCache(env);
+  return changes > 0;
+}
+
+/** Force `flagName` on or off for one org. The flag must already exist. */
+export async function setFlagOverride(
+  env: Env,
+  flagName: string,
+  orgId: string,
+  enabled: boolean,
+): Promise<void> {
+  await writeFlagRow(env.DB, flagName, orgId, enabled, null);
+  await invalidateFlagCache(env);
+}
+
+/**
+ * Remove an org override so the org falls back to the flag's rules.
+ *
+ * @returns `false` when the org had no override.
+ */
+export async function clearFlagOverride(
+  env: Env,
+  flagName: string,
+  orgId: string,
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    env.DB,
+    `UPDATE feature_flags SET deleted_at = ?, updated_at = ?
+     WHERE flag_name = ? AND org_id = ? AND deleted_at IS NULL`,
+    [now, now, flagName, orgId],
+  );
+  await invalidateFlagCache(env);
+  return changes > 0;
+}
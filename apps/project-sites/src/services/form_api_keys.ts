@@ -0,0 +1,307 @@
+/**
+ * @module services/form_api_keys
+ * @description Site-scoped credential vault backed by `form_api_keys`.
+ *
+ * Secrets are sealed with AES-GCM (`services/ai_crypto.ts`) before they touch
+ * D1 and are only ever decrypted server-side at the moment of use. API
+ * responses expose {@link FormApiKeyRecord}, which carries `api_key_preview`
+ * and never the secret itself.
+ *
+ * Consumers resolve a key by ID with {@link resolveApiKey} and report the
+ * outcome with {@link recordApiKeyUse}, which maintains `use_count`,
+ * `last_used_at` and `last_error`:
+ *
+ * | Consumer                     | Providers                                  |
+ * | ---------------------------- | ------------------------------------------ |
+ * | Form rules (`form_rules.ts`) | webhook / notion / resend-transactional    |
+ * | Newsletter dispatch          | `config.api_key_id` on webhook + resend    |
+ * | AI endpoints (prompt kind)   | `ai_endpoints.api_key_id` → openai / anthropic |
+ */
+
+import type { FormApiKeyProvider, FormApiKeyRecord } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQueryOne } from './db.js';
+import { decrypt, encrypt } from './ai_crypto.js';
+
+/** Raw `form_api_keys` row as stored in D1. */
+export interface FormApiKeyRow {
+  id: string;
+  site_id: string;
+  org_id: string;
+  provider: FormApiKeyProvider;
+  label: string;
+  api_key_encrypted: string;
+  api_key_preview: string;
+  config: string | null;
+  enabled: number;
+  last_used_at: string | null;
+  last_error: string | null;
+  use_count: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/** A decrypted credential, ready to use. Never serialize this. */
+export interface ResolvedApiKey {
+  id: string;
+  provider: FormApiKeyProvider;
+  secret: string;
+  config: Record<string, unknown>;
+}
+
+/** Outcome of a provider "test credential" call. */
+export interface ApiKeyTestResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+const TEST_TIMEOUT_MS = 8000;
+
+// ─── Records ─────────────────────────────────────────────────
+
+/** Mask a secret for display: first and last four characters only. */
+export function previewApiKey(key: string): string {
+  if (key.length <= 8) return `${key.slice(0, 2)}…${key.slice(-2)}`;
+  return `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+/** Map a D1 row to the public {@link FormApiKeyRecord} shape (no secret). */
+export function toFormApiKeyRecord(row: FormApiKeyRow): FormApiKeyRecord {
+  return {
+    id: row.id,
+    site_id: row.site_id,
+    org_id: row.org_id,
+    provider: row.provider,
+    label: row.label,
+    api_key_preview: row.api_key_preview,
+    config: parseConfig(row.config),
+    enabled: row.enabled === 1,
+    last_used_at: row.last_used_at,
+    last_error: row.last_error,
+    use_count: row.use_count,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/** Encrypt a secret and compute its preview, ready for INSERT/UPDATE. */
+export async function sealApiKey(
+  env: Env,
+  secret: string,
+): Promise<{ api_key_encrypted: string; api_key_preview: string }> {
+  return {
+    api_key_encrypted: await encrypt(env, secret),
+    api_key_preview: previewApiKey(secret),
+  };
+}
+
+/** Providers whose secret is a webhook URL rather than a token. */
+const URL_PROVIDERS: readonly FormApiKeyProvider[] = [
+  'slack-webhook',
+  'discord-webhook',
+  'generic-webhook',
+  'zapier',
+  'n8n',
+];
+
+/**
+ * Validate a secret's shape for its provider before it is stored. Returns a
+ * human-readable problem, or `null` when the secret looks usable.
+ */
+export function validateApiKeySecret(provider: FormApiKeyProvider, secret: string): string | null {
+  if (!URL_PROVIDERS.includes(provider)) return null;
+  try {
+    requireHttpsUrl(secret);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// ─── Use ─────────────────────────────────────────────────────
+
+/**
+ * Load and decrypt an enabled key belonging to `siteId`.
+ *
+ * When `accepted` is given, the key's provider must be one of them. Throws a
+ * plain `Error` with a message safe to store in `last_error` or show to the
+ * site owner.
+ */
+export async function resolveApiKey(
+  env: Env,
+  siteId: string,
+  keyId: string,
+  accepted?: readonly FormApiKeyProvider[],
+): Promise<ResolvedApiKey> {
+  const row = await dbQueryOne<
+    Pick<FormApiKeyRow, 'id' | 'provider' | 'api_key_encrypted' | 'config'>
+  >(
+    env.DB,
+    `SELECT id, provider, api_key_encrypted, config FROM form_api_keys
+     WHERE id = ? AND site_id = ? AND enabled = 1 AND deleted_at IS NULL`,
+    [keyId, siteId],
+  );
+  if (!row) throw new Error(`api key ${keyId} not found or disabled`);
+  if (accepted && !accepted.includes(row.provider)) {
+    throw new Error(
+      `api key provider ${row.provider} cannot be used here (expected ${accepted.join(' | ')})`,
+    );
+  }
+  let secret: string;
+  try {
+    secret = await decrypt(env, row.api_key_encrypted);
+  } catch {
+    throw new Error(`api key ${keyId} could not be decrypted`);
+  }
+  return { id: row.id, provider: row.provider, secret, config: parseConfig(row.config) ?? {} };
+}
+
+/**
+ * Record one use of a key that {@link resolveApiKey} returned for `siteId`.
+ * Pass the error message when the upstream call failed, or `null` on success
+ * (which clears `last_error`). Never throws.
+ */
+export async function recordApiKeyUse(
+  db: D1Database,
+  siteId: string,
+  keyId: string,
+  error: string | null,
+): Promise<void> {
+  const now = new Date().toISOString();
+  await dbExecute(
+    db,
+    `UPDATE form_api_keys
+     SET use_count = use_count + 1, last_used_at = ?, last_error = ?, updated_at = ?
+     WHERE id = ? AND site_id = ?`,
+    [now, error ? error.slice(0, 1024) : null, now, keyId, siteId],
+  );
+}
+
+// ─── Test credential ─────────────────────────────────────────
+
+/**
+ * Check a credential against its provider with the cheapest call that proves
+ * the secret works. Read-only where the provider allows it; webhook providers
+ * receive a single `credential.test` message. Never throws.
+ */
+export async function testApiKey(
+  provider: FormApiKeyProvider,
+  secret: string,
+  config: Record<string, unknown> = {},
+): Promise<ApiKeyTestResult> {
+  try {
+    const req = buildTestRequest(provider, secret, config);
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), TEST_TIMEOUT_MS);
+    let res: Response;
+    try {
+      res = await fetch(req.url, { ...req.init, signal: controller.signal });
+    } finally {
+      clearTimeout(t);
+    }
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      return {
+        ok: false,
+        status: res.status,
+        error: `Upstream ${res.status}: ${text.slice(0, 240)}`,
+      };
+    }
+    return { ok: true, status: res.status, error: null };
+  } catch (err) {
+    return { ok: false, status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function buildTestRequest(
+  provider: FormApiKeyProvider,
+  secret: string,
+  config: Record<string, unknown>,
+): { url: string; init: RequestInit } {
+  const bearer = { Authorization: `Bearer ${secret}` };
+  switch (provider) {
+    case 'slack-webhook':
+      return jsonPost(requireHttpsUrl(secret), { text: 'Project Sites credential test ✅' });
+    case 'discord-webhook':
+      // GET on a Discord webhook URL returns its metadata without posting.
+      return { url: requireHttpsUrl(secret), init: { method: 'GET' } };
+    case 'generic-webhook':
+    case 'zapier':
+    case 'n8n':
+      return jsonPost(requireHttpsUrl(secret), {
+        event: 'credential.test',
+        sent_at: new Date().toISOString(),
+      });
+    case 'notion':
+      return {
+        url: 'https://api.notion.com/v1/users/me',
+        init: { headers: { ...bearer, 'Notion-Version': '2022-06-28' } },
+      };
+    case 'resend-transactional':
+      return { url: 'https://api.resend.com/domains', init: { headers: bearer } };
+    case 'openai':
+      return { url: 'https://api.openai.com/v1/models', init: { headers: bearer } };
+    case 'anthropic':
+      return {
+        url: 'https://api.anthropic.com/v1/models',
+        init: { headers: { 'x-api-key': secret, 'anthropic-version': '2023-06-01' } },
+      };
+    case 'workers-ai':
+      return {
+        url: 'https://api.cloudflare.com/client/v4/user/tokens/verify',
+        init: { headers: bearer },
+      };
+    case 'stripe':
+      return { url: 'https://api.stripe.com/v1/balance', init: { headers: bearer } };
+    case 'hubspot':
+      return {
+        url: 'https://api.hubapi.com/crm/v3/objects/contacts?limit=1',
+        init: { headers: bearer },
+      };
+    case 'listmonk': {
+      // Listmonk is self-hosted; the secret is "api_user:token".
+      const base = typeof config['base_url'] === 'string' ? config['base_url'] : '';
+      if (!base) throw new Error('listmonk requires config.base_url');
+      return {
+        url: `${requireHttpsUrl(base).replace(/\/+$/, '')}/api/health`,
+        init: { headers: { Authorization: `token ${secret}` } },
+      };
+    }
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+function jsonPost(url: string, body: unknown): { url: string; init: RequestInit } {
+  return {
+    url,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'projectsites.dev/vault' },
+      body: JSON.stringify(body),
+    },
+  };
+}
+
+function requireHttpsUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error('credential is not a valid URL');
+  }
+  if (url.protocol !== 'https:') throw new Error('credential URL must use https');
+  return url.toString();
+}
+
+function parseConfig(raw: string | null): Record<string, unknown> | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
@@ -4,15 +4,19 @@
  *
  * Implements a simplified git-style version control for site files using R2.
  * Each site gets a commit history stored as JSON metadata in R2, with file
- * contents stored per-commit. This provides version history, diffing, and
- * revert capabilities without requiring a real git implementation.
+ * contents stored once per distinct content as SHA-256 addressed blobs. This
+ * provides version history, diffing, and revert capabilities without
+ * requiring a real git implementation.
  *
  * ## R2 Layout
  *
  * ```
- * sites/{slug}/git/HEAD              → current commit ID (plain text)
- * sites/{slug}/git/commits/{id}.json → commit metadata (parent, message, author, file list)
- * sites/{slug}/git/trees/{id}/       → file contents for that commit
+ * sites/{slug}/git/HEAD              → tip of `main`, the live site (plain text commit ID)
+ * sites/{slug}/git/refs/heads/{name} → tip of every other branch
+ * sites/{slug}/git/BRANCH            → branch that edits go to (absent = `main`)
+ * sites/{slug}/git/commits/{id}.json → commit metadata (parent, message, author, tree manifest)
+ * sites/{slug}/git/objects/{sha256}  → file content, shared by every commit that contains it
+ * sites/{slug}/git/trees/{id}/       → legacy: full file copies for commits made before blobs
  * ```
  *
  * ## Design Decisions
@@ -20,9 +24,20 @@
  * - **JSON over isomorphic-git**: isomorphic-git requires Node.js `fs` semantics
  *   that don't map cleanly to R2's object store API in Cloudflare Workers.
  *   The JSON approach is simpler, more reliable, and sufficient for our needs.
- * - **Full snapshots, not diffs**: Each commit stores a complete copy of all files.
- *   This trades storage for simplicity and fast checkout (no need to reconstruct
- *   from a chain of diffs).
+ * - **Content-addressed snapshots, not diffs**: Each commit records a complete
+ *   `name → sha256` manifest, so checkout never replays a chain of diffs, but a
+ *   blob is only uploaded the first time its content appears. An AI edit that
+ *   touches one page of a 40-file site writes one object, not 40.
+ * - **`main` lives in `HEAD`**: Histories written before branches only have
+ *   `HEAD`, so `main` keeps using it and other branches get `refs/heads/*`.
+ *   Branches only fast-forward ({@link mergeBranch}); there is no merge commit.
+ * - **Edits carry their base**: A write that names the commit it was made
+ *   against goes through {@link commitOnBase}, which line-merges it with
+ *   anything committed since instead of overwriting it. Overlapping edits are
+ *   returned as conflict hunks; nothing is committed until they are resolved.
+ * - **Legacy trees stay readable**: Commits written before blobs have no `tree`
+ *   and are read from `trees/{id}/`. {@link migrateLegacySnapshots} converts a
+ *   site's old commits in place and deletes their tree copies.
  * - **Integrates with existing R2 versioned paths**: The git system stores its own
  *   data alongside the existing `sites/{slug}/{version}/` paths. A commit can
  *   optionally reference the R2 version path it corresponds to.
@@ -48,6 +63,12 @@
  * @packageDocumentation
  */
 
+import { badRequest, conflict, notFound, sha256Hex } from '@project-sites/shared';
+import { mergeText, type ConflictHunk } from './text_merge.js';
+
+/** Branch that holds the live site. */
+export const DEFAULT_BRANCH = 'main';
+
 /**
  * Metadata stored for each commit/snapshot.
  *
@@ -64,6 +85,7 @@
  *   parentId: null,
  *   buildVersion: 'v1705312200000',
  *   files: [{ name: 'index.html', size: 4096 }],
+ *   tree: { 'index.html': '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' },
  * };
  * ```
  */
@@ -82,6 +104,12 @@ export interface CommitMetadata {
   buildVersion?: string;
   /** List of files in this commit with their sizes. */
   files: Array<{ name: string; size: number }>;
+  /**
+   * Tree manifest: file name → SHA-256 of its content, stored at
+   * `objects/{hash}`. Absent on legacy commits whose files live under
+   * `trees/{id}/`.
+   */
+  tree?: Record<string, string>;
 }
 
 /**
@@ -145,6 +173,58 @@ export interface DiffResult {
   unchanged: string[];
 }
 
+/**
+ * A branch and its tip, returned by {@link listBranches}.
+ */
+export interface BranchInfo {
+  /** Branch name (`main` for the live site). */
+  name: string;
+  /** Tip commit ID, or `null` for a `main` with no commits yet. */
+  commitId: string | null;
+  /** Whether edits currently go to this branch (see {@link switchBranch}). */
+  current: boolean;
+}
+
+/**
+ * Result of {@link mergeBranch}.
+ */
+export interface MergeResult {
+  /** Tip of the target branch after the merge. */
+  commitId: string;
+  /** `false` when the target already contained every commit of the source. */
+  fastForward: boolean;
+}
+
+/**
+ * A file that could not be merged automatically, returned by {@link commitOnBase}.
+ */
+export interface FileConflict {
+  /** File path within the commit. */
+  name: string;
+  /** The regions both sides changed. A file deleted on one side is one hunk. */
+  hunks: ConflictHunk[];
+  /** The file with each hunk written out between conflict markers. */
+  content: string;
+}
+
+/**
+ * Result of {@link commitOnBase}.
+ */
+export interface BaseCommitResult {
+  /** The new commit, or `null` when there were conflicts and nothing was written. */
+  commitId: string | null;
+  /** Branch tip the edits were applied to. Resolve conflicts against this commit. */
+  headId: string;
+  /**
+   * Files that were also changed at the tip and merged cleanly, with their
+   * merged content. On conflict, resubmitting these alongside the resolved
+   * files against `headId` keeps both sides' changes.
+   */
+  merged: GitFile[];
+  /** Empty unless the merge failed. */
+  conflicts: FileConflict[];
+}
+
 /**
  * Build the R2 key prefix for a site's git data.
  *
@@ -160,11 +240,120 @@ function gitPrefix(slug: string): string {
   return `sites/${slug}/git/`;
 }
 
+/** R2 key holding a branch's tip commit ID. */
+function refKey(prefix: string, branch: string): string {
+  return branch === DEFAULT_BRANCH ? `${prefix}HEAD` : `${prefix}refs/heads/${branch}`;
+}
+
+/** A branch's tip commit ID, or `null` when the branch does not exist. */
+async function readRef(bucket: R2Bucket, prefix: string, branch: string): Promise<string | null> {
+  try {
+    const obj = await bucket.get(refKey(prefix, branch));
+    if (!obj) return null;
+    return (await obj.text()).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Result of {@link migrateLegacySnapshots}.
+ */
+export interface MigrationResult {
+  /** Commits rewritten with a tree manifest. */
+  migrated: number;
+  /** Commits that already had a manifest. */
+  skipped: number;
+}
+
+/**
+ * Store `content` as a blob unless an identical one already exists.
+ *
+ * @returns The blob's SHA-256 hex digest.
+ */
+async function writeBlob(
+  bucket: R2Bucket,
+  prefix: string,
+  name: string,
+  content: string,
+): Promise<string> {
+  const hash = await sha256Hex(content);
+  const key = `${prefix}objects/${hash}`;
+  if (!(await bucket.head(key))) {
+    await bucket.put(key, content, {
+      httpMetadata: { contentType: guessContentType(name) },
+    });
+  }
+  return hash;
+}
+
+/**
+ * Hash and store every file, uploading each distinct content once.
+ *
+ * @returns The tree manifest (`name → sha256`).
+ */
+async function writeTree(
+  bucket: R2Bucket,
+  prefix: string,
+  files: GitFile[],
+): Promise<Record<string, string>> {
+  const pending = new Map<string, Promise<string>>();
+  const tree: Record<string, string> = {};
+  await Promise.all(
+    files.map(async (f) => {
+      let upload = pending.get(f.content);
+      if (!upload) {
+        upload = writeBlob(bucket, prefix, f.name, f.content);
+        pending.set(f.content, upload);
+      }
+      tree[f.name] = await upload;
+    }),
+  );
+  return tree;
+}
+
+/**
+ * Write a commit on top of `branch` and move the branch to it.
+ *
+ * @returns The new commit ID.
+ */
+async function writeCommit(
+  bucket: R2Bucket,
+  slug: string,
+  fields: Pick<CommitMetadata, 'message' | 'author' | 'buildVersion' | 'files' | 'tree'>,
+  branch: string = DEFAULT_BRANCH,
+): Promise<string> {
+  const prefix = gitPrefix(slug);
+  const id = crypto.randomUUID();
+
+  // The branch tip is the parent; null for the first commit
+  const parentId = await readRef(bucket, prefix, branch);
+
+  const commit: CommitMetadata = {
+    id,
+    message: fields.message,
+    timestamp: new Date().toISOString(),
+    author: fields.author,
+    parentId,
+    buildVersion: fields.buildVersion,
+    files: fields.files,
+    tree: fields.tree,
+  };
+
+  await bucket.put(`${prefix}commits/${id}.json`, JSON.stringify(commit, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  await bucket.put(refKey(prefix, branch), id);
+
+  return id;
+}
+
 /**
  * Create a new snapshot (commit) of site files in R2.
  *
- * Stores file contents under `sites/{slug}/git/trees/{id}/` and commit
- * metadata at `sites/{slug}/git/commits/{id}.json`. Updates HEAD to point
+ * Stores each distinct file content once under `sites/{slug}/git/objects/{sha256}`
+ * and commit metadata, including the `name → sha256` tree manifest, at
+ * `sites/{slug}/git/commits/{id}.json`. Moves the branch (HEAD for `main`)
  * to the new commit.
  *
  * @param bucket - R2 bucket binding.
@@ -173,6 +362,7 @@ function gitPrefix(slug: string): string {
  * @param message - Commit message describing the change.
  * @param author - Author name (defaults to `'ProjectSites AI'`).
  * @param buildVersion - Optional R2 build version this commit corresponds to.
+ * @param branch - Branch to commit to (defaults to `main`).
  * @returns The commit ID (UUID).
  *
  * @throws {Error} If R2 operations fail.
@@ -194,64 +384,34 @@ export async function createSnapshot(
   message: string,
   author: string = 'ProjectSites AI',
   buildVersion?: string,
+  branch: string = DEFAULT_BRANCH,
 ): Promise<string> {
-  const prefix = gitPrefix(slug);
-  const id = crypto.randomUUID();
-
-  // Read current HEAD to set as parent
-  let parentId: string | null = null;
-  try {
-    const headObj = await bucket.get(`${prefix}HEAD`);
-    if (headObj) {
-      parentId = (await headObj.text()).trim() || null;
-    }
-  } catch {
-    // No HEAD yet — this is the first commit
-  }
-
-  // Build commit metadata
-  const commit: CommitMetadata = {
-    id,
-    message,
-    timestamp: new Date().toISOString(),
-    author,
-    parentId,
-    buildVersion,
-    files: files.map((f) => ({ name: f.name, size: f.content.length })),
-  };
-
-  // Store file contents
-  const uploads: Promise<R2Object>[] = [];
-  for (const f of files) {
-    uploads.push(
-      bucket.put(`${prefix}trees/${id}/${f.name}`, f.content, {
-        httpMetadata: { contentType: guessContentType(f.name) },
-      }),
-    );
-  }
-  await Promise.all(uploads);
-
-  // Store commit metadata
-  await bucket.put(`${prefix}commits/${id}.json`, JSON.stringify(commit, null, 2), {
-    httpMetadata: { contentType: 'application/json' },
-  });
-
-  // Update HEAD
-  await bucket.put(`${prefix}HEAD`, id);
-
-  return id;
+  const tree = await writeTree(bucket, gitPrefix(slug), files);
+  return writeCommit(
+    bucket,
+    slug,
+    {
+      message,
+      author,
+      buildVersion,
+      files: files.map((f) => ({ name: f.name, size: f.content.length })),
+      tree,
+    },
+    branch,
+  );
 }
 
 /**
- * Get commit history for a site, walking the parent chain from HEAD.
+ * Get commit history for a site, walking the parent chain from a branch tip.
  *
  * @param bucket - R2 bucket binding.
  * @param slug - Site slug.
  * @param depth - Maximum number of commits to return (defaults to 20).
+ * @param branch - Branch to walk (defaults to `main`).
  * @returns Array of commit summaries, newest first.
  *
  * @remarks
- * Walks the parent chain starting from HEAD. If a commit's metadata
+ * Walks the parent chain starting from the branch tip. If a commit's metadata
  * cannot be read (e.g., corrupted or deleted), the chain stops.
  *
  * @example
@@ -267,21 +427,12 @@ export async function getHistory(
   bucket: R2Bucket,
   slug: string,
   depth: number = 20,
+  branch: string = DEFAULT_BRANCH,
 ): Promise<CommitSummary[]> {
   const prefix = gitPrefix(slug);
   const history: CommitSummary[] = [];
 
-  // Read HEAD
-  let currentId: string | null = null;
-  try {
-    const headObj = await bucket.get(`${prefix}HEAD`);
-    if (headObj) {
-      currentId = (await headObj.text()).trim() || null;
-    }
-  } catch {
-    return [];
-  }
-
+  let currentId = await readRef(bucket, prefix, branch);
   if (!currentId) return [];
 
   // Walk the parent chain
@@ -347,7 +498,8 @@ export async function getCommit(
 /**
  * Checkout (restore) all files from a specific commit.
  *
- * Reads all files stored in the commit's tree and returns them as an array
+ * Reads every blob named in the commit's tree manifest (or, for legacy
+ * commits, the files under `trees/{id}/`) and returns them as an array
  * of `GitFile` objects. Does NOT modify HEAD — use {@link revertToSnapshot}
  * to also update HEAD and create a revert commit.
  *
@@ -383,8 +535,14 @@ export async function checkoutSnapshot(
 
   // Read all files in parallel
   const filePromises = commit.files.map(async (f) => {
+    let key = `${prefix}trees/${commitId}/${f.name}`;
+    if (commit.tree) {
+      const hash = commit.tree[f.name];
+      if (!hash) return null;
+      key = `${prefix}objects/${hash}`;
+    }
     try {
-      const obj = await bucket.get(`${prefix}trees/${commitId}/${f.name}`);
+      const obj = await bucket.get(key);
       if (!obj) return null;
       const content = await obj.text();
       return { name: f.name, content };
@@ -403,7 +561,8 @@ export async function checkoutSnapshot(
  *
  * This is the primary "undo" operation:
  * 1. Reads all files from the target commit.
- * 2. Creates a new commit with those files and a revert message.
+ * 2. Creates a new commit with a revert message. When the target has a tree
+ *    manifest it is reused as-is, so no blobs are uploaded.
  * 3. Updates HEAD to the new commit.
  *
  * @param bucket - R2 bucket binding.
@@ -439,16 +598,33 @@ export async function revertToSnapshot(
   // Get the original commit's message for the revert message
   const originalCommit = await getCommit(bucket, slug, commitId);
   const originalMessage = originalCommit?.message ?? 'unknown';
+  const message = `Revert to: ${originalMessage} (${commitId.substring(0, 8)})`;
 
-  // Create a new commit with the reverted files
-  const newCommitId = await createSnapshot(
-    bucket,
-    slug,
-    files,
-    `Revert to: ${originalMessage} (${commitId.substring(0, 8)})`,
+  // Legacy commits go through createSnapshot so their content lands in objects/
+  if (!originalCommit?.tree) {
+    const newCommitId = await createSnapshot(
+      bucket,
+      slug,
+      files,
+      message,
+      author,
+      originalCommit?.buildVersion,
+    );
+    return { commitId: newCommitId, files };
+  }
+
+  // Only files that were actually read are carried over
+  const restored = new Set(files.map((f) => f.name));
+  const tree: Record<string, string> = {};
+  for (const name of restored) tree[name] = originalCommit.tree[name]!;
+
+  const newCommitId = await writeCommit(bucket, slug, {
+    message,
     author,
-    originalCommit?.buildVersion,
-  );
+    buildVersion: originalCommit.buildVersion,
+    files: originalCommit.files.filter((f) => restored.has(f.name)),
+    tree,
+  });
 
   return { commitId: newCommitId, files };
 }
@@ -456,8 +632,9 @@ export async function revertToSnapshot(
 /**
  * Compare two snapshots and return a diff summary.
  *
- * Compares file lists and contents between two commits to determine
- * which files were added, removed, modified, or unchanged.
+ * Compares the two tree manifests to determine which files were added,
+ * removed, modified, or unchanged. Only legacy commits without a manifest
+ * have their content read (and hashed) to take part in the comparison.
  *
  * @param bucket - R2 bucket binding.
  * @param slug - Site slug.
@@ -481,13 +658,13 @@ export async function diffSnapshots(
   baseCommitId: string,
   targetCommitId: string,
 ): Promise<DiffResult> {
-  const [baseFiles, targetFiles] = await Promise.all([
-    checkoutSnapshot(bucket, slug, baseCommitId),
-    checkoutSnapshot(bucket, slug, targetCommitId),
+  const [baseTree, targetTree] = await Promise.all([
+    readManifest(bucket, slug, baseCommitId),
+    readManifest(bucket, slug, targetCommitId),
   ]);
 
-  const baseMap = new Map(baseFiles.map((f) => [f.name, f.content]));
-  const targetMap = new Map(targetFiles.map((f) => [f.name, f.content]));
+  const baseMap = new Map(Object.entries(baseTree));
+  const targetMap = new Map(Object.entries(targetTree));
 
   const added: string[] = [];
   const removed: string[] = [];
@@ -495,11 +672,11 @@ export async function diffSnapshots(
   const unchanged: string[] = [];
 
   // Check target files against base
-  for (const [name, content] of targetMap) {
-    const baseContent = baseMap.get(name);
-    if (baseContent === undefined) {
+  for (const [name, hash] of targetMap) {
+    const baseHash = baseMap.get(name);
+    if (baseHash === undefined) {
       added.push(name);
-    } else if (baseContent !== content) {
+    } else if (baseHash !== hash) {
       modified.push(name);
     } else {
       unchanged.push(name);
@@ -517,11 +694,92 @@ export async function diffSnapshots(
 }
 
 /**
- * Get the current HEAD commit ID for a site.
+ * The `name → sha256` manifest for a commit, hashing legacy tree files on
+ * the fly when the commit predates manifests.
+ *
+ * @throws {Error} If the commit does not exist.
+ */
+async function readManifest(
+  bucket: R2Bucket,
+  slug: string,
+  commitId: string,
+): Promise<Record<string, string>> {
+  const commit = await getCommit(bucket, slug, commitId);
+  if (!commit) {
+    throw new Error(`Commit not found: ${commitId}`);
+  }
+  if (commit.tree) return commit.tree;
+
+  const files = await checkoutSnapshot(bucket, slug, commitId);
+  const tree: Record<string, string> = {};
+  for (const f of files) tree[f.name] = await sha256Hex(f.content);
+  return tree;
+}
+
+/**
+ * Convert a site's legacy tree-per-commit history to content-addressed blobs.
+ *
+ * For every commit without a tree manifest: uploads its `trees/{id}/` files
+ * as blobs (deduplicated against what is already stored), rewrites the commit
+ * JSON with the manifest, then deletes the tree copies. Commit IDs, parents
+ * and HEAD are untouched, so history and revert links keep working. Safe to
+ * re-run — already migrated commits are skipped.
+ *
+ * @param bucket - R2 bucket binding.
+ * @param slug - Site slug.
+ * @returns How many commits were migrated and skipped.
+ *
+ * @example
+ * ```ts
+ * const { migrated } = await migrateLegacySnapshots(env.SITES_BUCKET, 'my-site');
+ * ```
+ */
+export async function migrateLegacySnapshots(
+  bucket: R2Bucket,
+  slug: string,
+): Promise<MigrationResult> {
+  const prefix = gitPrefix(slug);
+  const result: MigrationResult = { migrated: 0, skipped: 0 };
+
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: `${prefix}commits/`, cursor });
+    for (const obj of page.objects) {
+      const commitId = obj.key.slice(`${prefix}commits/`.length).replace(/\.json$/, '');
+      const commit = await getCommit(bucket, slug, commitId);
+      if (!commit || commit.tree) {
+        result.skipped++;
+        continue;
+      }
+
+      const files = await checkoutSnapshot(bucket, slug, commitId);
+      const present = new Set(files.map((f) => f.name));
+      const migrated: CommitMetadata = {
+        ...commit,
+        files: commit.files.filter((f) => present.has(f.name)),
+        tree: await writeTree(bucket, prefix, files),
+      };
+      await bucket.put(obj.key, JSON.stringify(migrated, null, 2), {
+        httpMetadata: { contentType: 'application/json' },
+      });
+      // Only drop the copies once the manifest that replaces them is stored
+      const legacyKeys = commit.files.map((f) => `${prefix}trees/${commitId}/${f.name}`);
+      if (legacyKeys.length > 0) await bucket.delete(legacyKeys);
+      result.migrated++;
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return result;
+}
+
+/**
+ * Get the tip commit ID of a branch (HEAD for `main`).
  *
  * @param bucket - R2 bucket binding.
  * @param slug - Site slug.
- * @returns The current HEAD commit ID, or `null` if no commits exist.
+ * @param branch - Branch name (defaults to `main`).
+ * @returns The tip commit ID, or `null` if the branch has no commits.
  *
  * @example
  * ```ts
@@ -531,15 +789,359 @@ export async function diffSnapshots(
  * }
  * ```
  */
-export async function getHead(bucket: R2Bucket, slug: string): Promise<string | null> {
+export async function getHead(
+  bucket: R2Bucket,
+  slug: string,
+  branch: string = DEFAULT_BRANCH,
+): Promise<string | null> {
+  return readRef(bucket, gitPrefix(slug), branch);
+}
+
+// ─── Branches ────────────────────────────────────────────────
+
+/**
+ * The branch edits go to, as set by {@link switchBranch}. Falls back to
+ * `main` when none was chosen or the chosen branch has since been deleted.
+ */
+export async function getCurrentBranch(bucket: R2Bucket, slug: string): Promise<string> {
+  const prefix = gitPrefix(slug);
+  let name = '';
   try {
-    const obj = await bucket.get(`${gitPrefix(slug)}HEAD`);
-    if (!obj) return null;
-    const text = (await obj.text()).trim();
-    return text || null;
+    const obj = await bucket.get(`${prefix}BRANCH`);
+    if (obj) name = (await obj.text()).trim();
   } catch {
-    return null;
+    // Unreadable pointer — edits go to main
+  }
+  if (!name || name === DEFAULT_BRANCH) return DEFAULT_BRANCH;
+  return (await readRef(bucket, prefix, name)) ? name : DEFAULT_BRANCH;
+}
+
+/**
+ * List `main` plus every branch under `refs/heads/`, `main` first.
+ */
+export async function listBranches(bucket: R2Bucket, slug: string): Promise<BranchInfo[]> {
+  const prefix = gitPrefix(slug);
+  const current = await getCurrentBranch(bucket, slug);
+  const branches: BranchInfo[] = [
+    {
+      name: DEFAULT_BRANCH,
+      commitId: await readRef(bucket, prefix, DEFAULT_BRANCH),
+      current: current === DEFAULT_BRANCH,
+    },
+  ];
+
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: `${prefix}refs/heads/`, cursor });
+    for (const obj of page.objects) names.push(obj.key.slice(`${prefix}refs/heads/`.length));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  for (const name of names.sort()) {
+    branches.push({
+      name,
+      commitId: await readRef(bucket, prefix, name),
+      current: current === name,
+    });
+  }
+  return branches;
+}
+
+/**
+ * Create a branch pointing at the tip of `from`. No files are copied — the
+ * new branch shares every commit and blob with its source until edited.
+ *
+ * @returns The commit ID the branch starts at.
+ * @throws {AppError} CONFLICT if the branch exists; NOT_FOUND if `from`
+ *   has no commits.
+ */
+export async function createBranch(
+  bucket: R2Bucket,
+  slug: string,
+  name: string,
+  from: string = DEFAULT_BRANCH,
+): Promise<string> {
+  const prefix = gitPrefix(slug);
+  if (name === DEFAULT_BRANCH || (await readRef(bucket, prefix, name))) {
+    throw conflict(`Branch already exists: ${name}`);
+  }
+  const tip = await readRef(bucket, prefix, from);
+  if (!tip) throw notFound(`Branch has no commits: ${from}`);
+
+  await bucket.put(refKey(prefix, name), tip);
+  return tip;
+}
+
+/**
+ * Delete a branch ref. Its commits and blobs stay in R2 (other branches may
+ * share them). Edits fall back to `main` if it was the current branch.
+ *
+ * @throws {AppError} BAD_REQUEST for `main`; NOT_FOUND for an unknown branch.
+ */
+export async function deleteBranch(bucket: R2Bucket, slug: string, name: string): Promise<void> {
+  const prefix = gitPrefix(slug);
+  if (name === DEFAULT_BRANCH) throw badRequest('The main branch cannot be deleted');
+  if (!(await readRef(bucket, prefix, name))) throw notFound(`Branch not found: ${name}`);
+
+  if ((await getCurrentBranch(bucket, slug)) === name) {
+    await bucket.delete(`${prefix}BRANCH`);
+  }
+  await bucket.delete(refKey(prefix, name));
+}
+
+/**
+ * Make `name` the branch that edits go to when the caller does not name one.
+ *
+ * @throws {AppError} NOT_FOUND for an unknown branch.
+ */
+export async function switchBranch(bucket: R2Bucket, slug: string, name: string): Promise<void> {
+  const prefix = gitPrefix(slug);
+  if (name !== DEFAULT_BRANCH && !(await readRef(bucket, prefix, name))) {
+    throw notFound(`Branch not found: ${name}`);
+  }
+  await bucket.put(`${prefix}BRANCH`, name);
+}
+
+/**
+ * Whether `ancestorId` is reachable from `commitId` by following parents
+ * (a commit is its own ancestor). Stops after `limit` commits.
+ */
+export async function isAncestor(
+  bucket: R2Bucket,
+  slug: string,
+  ancestorId: string,
+  commitId: string,
+  limit: number = 1000,
+): Promise<boolean> {
+  let currentId: string | null = commitId;
+  for (let i = 0; currentId && i < limit; i++) {
+    if (currentId === ancestorId) return true;
+    const commit = await getCommit(bucket, slug, currentId);
+    currentId = commit?.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * Fast-forward `into` to the tip of `source`.
+ *
+ * Only succeeds when the tip of `into` is an ancestor of `source`, i.e.
+ * nothing was committed to `into` since the branch was made. No merge
+ * commit is written; `into` simply points at the same commit afterwards.
+ *
+ * @param beforeMove - Runs with the source tip once the merge is known to
+ *   fast-forward, before `into` is moved; if it throws, `into` is left
+ *   where it was. Used to publish `main` before its ref changes.
+ * @throws {AppError} NOT_FOUND if `source` has no commits; CONFLICT when
+ *   the branches have diverged.
+ */
+export async function mergeBranch(
+  bucket: R2Bucket,
+  slug: string,
+  source: string,
+  into: string = DEFAULT_BRANCH,
+  beforeMove?: (commitId: string) => Promise<void>,
+): Promise<MergeResult> {
+  const prefix = gitPrefix(slug);
+  const sourceTip = await readRef(bucket, prefix, source);
+  if (!sourceTip) throw notFound(`Branch not found: ${source}`);
+
+  const targetTip = await readRef(bucket, prefix, into);
+  if (!targetTip && into !== DEFAULT_BRANCH) throw notFound(`Branch not found: ${into}`);
+
+  if (targetTip) {
+    // Already merged: the source tip is in the target's history
+    if (await isAncestor(bucket, slug, sourceTip, targetTip)) {
+      return { commitId: targetTip, fastForward: false };
+    }
+    if (!(await isAncestor(bucket, slug, targetTip, sourceTip))) {
+      throw conflict(`${into} has commits that ${source} does not; merge is not a fast-forward`);
+    }
+  }
+
+  if (beforeMove) await beforeMove(sourceTip);
+  await bucket.put(refKey(prefix, into), sourceTip);
+  return { commitId: sourceTip, fastForward: true };
+}
+
+/**
+ * Commit single-file edits on top of a branch tip: `write` adds or replaces
+ * files, `remove` deletes them. Unchanged files keep their blobs.
+ *
+ * @returns The new commit ID.
+ * @throws {AppError} NOT_FOUND if the branch has no commits.
+ */
+export async function commitChanges(
+  bucket: R2Bucket,
+  slug: string,
+  branch: string,
+  changes: { write?: GitFile[]; remove?: string[] },
+  message: string,
+  author: string = 'ProjectSites AI',
+): Promise<string> {
+  const prefix = gitPrefix(slug);
+  const tipId = await readRef(bucket, prefix, branch);
+  const tip = tipId ? await getCommit(bucket, slug, tipId) : null;
+  if (!tip) throw notFound(`Branch has no commits: ${branch}`);
+
+  // Legacy tips have no manifest yet — store their files as blobs first
+  const tree = tip.tree
+    ? { ...tip.tree }
+    : await writeTree(bucket, prefix, await checkoutSnapshot(bucket, slug, tip.id));
+  const sizes = new Map(tip.files.filter((f) => f.name in tree).map((f) => [f.name, f.size]));
+
+  for (const name of changes.remove ?? []) {
+    delete tree[name];
+    sizes.delete(name);
+  }
+  const written = await writeTree(bucket, prefix, changes.write ?? []);
+  for (const f of changes.write ?? []) {
+    tree[f.name] = written[f.name]!;
+    sizes.set(f.name, f.content.length);
+  }
+
+  // No buildVersion: the edited tree matches no build until it is published
+  return writeCommit(
+    bucket,
+    slug,
+    {
+      message,
+      author,
+      files: [...sizes].map(([name, size]) => ({ name, size })),
+      tree,
+    },
+    branch,
+  );
+}
+
+/**
+ * Commit edits that were made against `baseId` rather than the branch tip.
+ *
+ * When the tip is still `baseId` this is {@link commitChanges}. Otherwise
+ * someone else committed in between, and each written or removed file that
+ * they also changed is three-way merged line by line ({@link mergeText}):
+ * base = the file at `baseId`, head = the file at the tip, incoming = the
+ * edit. A removal merges as an empty file, and a file missing on one side
+ * is empty there. If every file merges cleanly the merged contents are
+ * committed; if any file conflicts nothing is written and the conflicts are
+ * returned for the editor to resolve against `headId`.
+ *
+ * @returns The new commit ID (`null` on conflict), the tip the edits were
+ *   merged with, the files that needed a merge, and any conflicts.
+ * @throws {AppError} NOT_FOUND if the branch has no commits; BAD_REQUEST
+ *   when `baseId` is not in the branch's history.
+ *
+ * @example
+ * ```ts
+ * const result = await commitOnBase(bucket, 'my-site', 'main', baseId, {
+ *   write: [{ name: 'index.html', content: html }],
+ * }, 'Edit index.html', 'editor');
+ * if (result.conflicts.length > 0) return c.json({ error: ... }, 409);
+ * ```
+ */
+export async function commitOnBase(
+  bucket: R2Bucket,
+  slug: string,
+  branch: string,
+  baseId: string,
+  changes: { write?: GitFile[]; remove?: string[] },
+  message: string,
+  author: string = 'ProjectSites AI',
+): Promise<BaseCommitResult> {
+  const prefix = gitPrefix(slug);
+  const tipId = await readRef(bucket, prefix, branch);
+  if (!tipId) throw notFound(`Branch has no commits: ${branch}`);
+
+  if (tipId === baseId) {
+    const commitId = await commitChanges(bucket, slug, branch, changes, message, author);
+    return { commitId, headId: tipId, merged: [], conflicts: [] };
+  }
+  if (!(await isAncestor(bucket, slug, baseId, tipId))) {
+    throw badRequest(`Base commit ${baseId} is not in the history of ${branch}`);
+  }
+
+  const [base, head, baseTree, headTree] = await Promise.all([
+    getCommit(bucket, slug, baseId),
+    getCommit(bucket, slug, tipId),
+    readManifest(bucket, slug, baseId),
+    readManifest(bucket, slug, tipId),
+  ]);
+  const readText = async (commit: CommitMetadata | null, name: string): Promise<string> => {
+    const obj = commit ? await readCommitFile(bucket, prefix, commit, name) : null;
+    return obj ? obj.text() : '';
+  };
+
+  const write: GitFile[] = [];
+  const remove: string[] = [];
+  const merged: GitFile[] = [];
+  const conflicts: FileConflict[] = [];
+  const edits = [
+    ...(changes.write ?? []),
+    ...(changes.remove ?? []).map((name) => ({ name, content: null })),
+  ];
+
+  for (const edit of edits) {
+    // Untouched since the base: the edit applies as-is
+    if (headTree[edit.name] === baseTree[edit.name]) {
+      if (edit.content === null) remove.push(edit.name);
+      else write.push({ name: edit.name, content: edit.content });
+      continue;
+    }
+
+    const [baseText, headText] = await Promise.all([
+      readText(base, edit.name),
+      readText(head, edit.name),
+    ]);
+    const result = mergeText(baseText, headText, edit.content ?? '');
+    if (result.conflicts.length > 0) {
+      conflicts.push({ name: edit.name, hunks: result.conflicts, content: result.content });
+      continue;
+    }
+    merged.push({ name: edit.name, content: result.content });
+    if (result.content === headText) continue;
+    if (result.content === '' && edit.content === null) remove.push(edit.name);
+    else write.push({ name: edit.name, content: result.content });
+  }
+
+  if (conflicts.length > 0) return { commitId: null, headId: tipId, merged, conflicts };
+
+  const commitId = await commitChanges(bucket, slug, branch, { write, remove }, message, author);
+  return { commitId, headId: tipId, merged, conflicts: [] };
+}
+
+/**
+ * Read one file at the tip of a branch, straight from its blob. Used to
+ * serve branch previews without materialising a build version.
+ *
+ * @returns The blob, or `null` when the branch or file does not exist.
+ */
+export async function readBranchFile(
+  bucket: R2Bucket,
+  slug: string,
+  branch: string,
+  name: string,
+): Promise<R2ObjectBody | null> {
+  const prefix = gitPrefix(slug);
+  const tipId = await readRef(bucket, prefix, branch);
+  const tip = tipId ? await getCommit(bucket, slug, tipId) : null;
+  if (!tip) return null;
+  return readCommitFile(bucket, prefix, tip, name);
+}
+
+/** One file of a commit, from its blob or its legacy tree copy. */
+async function readCommitFile(
+  bucket: R2Bucket,
+  prefix: string,
+  commit: CommitMetadata,
+  name: string,
+): Promise<R2ObjectBody | null> {
+  if (!commit.tree) {
+    if (!commit.files.some((f) => f.name === name)) return null;
+    return bucket.get(`${prefix}trees/${commit.id}/${name}`);
   }
+  const hash = commit.tree[name];
+  return hash ? bucket.get(`${prefix}objects/${hash}`) : null;
 }
 
 /**
@@ -549,7 +1151,8 @@ export async function getHead(bucket: R2Bucket, slug: string): Promise<string |
  * @returns The guessed MIME type, defaulting to `application/octet-stream`.
  *
  * @remarks
- * Covers common web file types. Used internally when storing files in R2.
+ * Covers common web file types. Used when storing blobs and when publishing
+ * a commit's files to a build version.
  *
  * @example
  * ```ts
@@ -558,7 +1161,7 @@ export async function getHead(bucket: R2Bucket, slug: string): Promise<string |
  * guessContentType('unknown.xyz'); // 'application/octet-stream'
  * ```
  */
-function guessContentType(filename: string): string {
+export function guessContentType(filename: string): string {
   const ext = filename.split('.').pop()?.toLowerCase();
   const types: Record<string, string> = {
     html: 'text/html',
@@ -0,0 +1,349 @@
+/**
+ * @module services/mfa
+ * @description TOTP multi-factor authentication (RFC 6238) and recovery codes.
+ *
+ * | Table                | Holds                                                   |
+ * | -------------------- | ------------------------------------------------------- |
+ * | `user_mfa`           | AES-GCM encrypted TOTP secret, `pending` → `active`      |
+ * | `mfa_recovery_codes` | SHA-256 hashes of single-use recovery codes              |
+ * | `sessions`           | `mfa_verified_at` once a session passes the second step  |
+ * | `orgs`               | `require_mfa` policy, enforced by `middleware/auth.ts`   |
+ *
+ * Enrollment is two-step: {@link enrollTotp} stores a pending secret and
+ * returns it once for the authenticator app; {@link confirmTotp} activates it
+ * with a first valid code and issues recovery codes. Plaintext secrets and
+ * recovery codes never reach D1 or the logs.
+ */
+
+import { AUTH, badRequest, conflict, sha256Hex, unauthorized } from '@project-sites/shared';
+
+import type { Env } from '../types/env.js';
+import { decrypt, encrypt } from './ai_crypto.js';
+import { dbExecute, dbQueryOne } from './db.js';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** RFC 4648 base32 without padding, as authenticator apps expect. */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/** HOTP (RFC 4226) with HMAC-SHA1, truncated to `AUTH.TOTP_DIGITS`. */
+async function hotp(key: Uint8Array, counter: number): Promise<string> {
+  const msg = new Uint8Array(8);
+  const view = new DataView(msg.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, msg));
+  const offset = mac[mac.length - 1]! & 0x0f;
+  const binary =
+    ((mac[offset]! & 0x7f) << 24) |
+    (mac[offset + 1]! << 16) |
+    (mac[offset + 2]! << 8) |
+    mac[offset + 3]!;
+  return String(binary % 10 ** AUTH.TOTP_DIGITS).padStart(AUTH.TOTP_DIGITS, '0');
+}
+
+/** The TOTP time step for a Unix time in milliseconds. */
+export function totpStep(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / AUTH.TOTP_PERIOD_SECONDS);
+}
+
+/** The code an authenticator shows for `secret` at `timeMs`. */
+export function generateTotp(secret: string, timeMs: number = Date.now()): Promise<string> {
+  return hotp(base32Decode(secret), totpStep(timeMs));
+}
+
+/**
+ * Find the time step `code` belongs to within the drift window, skipping
+ * steps at or before `lastUsedStep` so a code can't be replayed.
+ *
+ * @returns The matching step, or `null`.
+ */
+export async function matchTotpStep(
+  secret: string,
+  code: string,
+  timeMs: number = Date.now(),
+  lastUsedStep = 0,
+): Promise<number | null> {
+  const key = base32Decode(secret);
+  const now = totpStep(timeMs);
+  for (let step = now - AUTH.TOTP_DRIFT_STEPS; step <= now + AUTH.TOTP_DRIFT_STEPS; step++) {
+    if (step <= lastUsedStep) continue;
+    if ((await hotp(key, step)) === code) return step;
+  }
+  return null;
+}
+
+/** `otpauth://` URI for QR codes (Google Authenticator key URI format). */
+export function otpauthUri(secret: string, account: string): string {
+  const issuer = AUTH.TOTP_ISSUER;
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(AUTH.TOTP_DIGITS),
+    period: String(AUTH.TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** Recovery codes are stored without the dash, lowercased. */
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/-/g, '');
+}
+
+function hashRecoveryCode(userId: string, code: string): Promise<string> {
+  return sha256Hex(`${userId}:${normalizeRecoveryCode(code)}`);
+}
+
+/** `xxxxx-xxxxx` from the base32 alphabet (32 symbols, so no modulo bias). */
+function newRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, (b) => BASE32_ALPHABET[b & 31]!.toLowerCase()).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+interface UserMfaRow {
+  totp_secret_encrypted: string;
+  status: 'pending' | 'active';
+  last_used_step: number;
+  confirmed_at: string | null;
+}
+
+function loadUserMfa(db: D1Database, userId: string): Promise<UserMfaRow | null> {
+  return dbQueryOne<UserMfaRow>(
+    db,
+    'SELECT totp_secret_encrypted, status, last_used_step, confirmed_at FROM user_mfa WHERE user_id = ?',
+    [userId],
+  );
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set.
+ *
+ * @returns The plaintext codes — shown to the user once, never stored.
+ */
+async function issueRecoveryCodes(db: D1Database, userId: string): Promise<string[]> {
+  await dbExecute(db, 'DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+
+  const codes = Array.from({ length: AUTH.MFA_RECOVERY_CODE_COUNT }, newRecoveryCode);
+  for (const code of codes) {
+    await dbExecute(
+      db,
+      'INSERT INTO mfa_recovery_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+      [crypto.randomUUID(), userId, await hashRecoveryCode(userId, code)],
+    );
+  }
+  return codes;
+}
+
+/** Two-factor state for the settings screen. */
+export async function getMfaStatus(
+  db: D1Database,
+  userId: string,
+): Promise<{
+  enabled: boolean;
+  pending: boolean;
+  confirmed_at: string | null;
+  recovery_codes_remaining: number;
+}> {
+  const row = await loadUserMfa(db, userId);
+  const remaining = await dbQueryOne<{ n: number }>(
+    db,
+    'SELECT COUNT(*) AS n FROM mfa_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+    [userId],
+  );
+  return {
+    enabled: row?.status === 'active',
+    pending: row?.status === 'pending',
+    confirmed_at: row?.confirmed_at ?? null,
+    recovery_codes_remaining: remaining?.n ?? 0,
+  };
+}
+
+/**
+ * Start (or restart) TOTP enrollment with a new secret.
+ *
+ * @param account - Label shown in the authenticator app (email or phone).
+ * @returns The base32 secret and `otpauth://` URI — only returned here.
+ * @throws {conflict} If two-factor is already active; disable it first.
+ */
+export async function enrollTotp(
+  db: D1Database,
+  env: Env,
+  userId: string,
+  account: string,
+): Promise<{ secret: string; otpauth_uri: string }> {
+  const existing = await loadUserMfa(db, userId);
+  if (existing?.status === 'active') {
+    throw conflict('Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+  const sealed = await encrypt(env, secret);
+  const now = new Date().toISOString();
+  await dbExecute(
+    db,
+    `INSERT INTO user_mfa (user_id, totp_secret_encrypted, status, last_used_step, created_at, updated_at)
+     VALUES (?, ?, 'pending', 0, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       totp_secret_encrypted = excluded.totp_secret_encrypted,
+       last_used_step = 0,
+       updated_at = excluded.updated_at
+     WHERE user_mfa.status = 'pending'`,
+    [userId, sealed, now, now],
+  );
+
+  return { secret, otpauth_uri: otpauthUri(secret, account) };
+}
+
+/**
+ * Activate a pending enrollment with the first code from the authenticator.
+ *
+ * @returns Fresh recovery codes.
+ * @throws {badRequest} If there is no pending enrollment.
+ * @throws {unauthorized} If the code does not match.
+ */
+export async function confirmTotp(
+  db: D1Database,
+  env: Env,
+  userId: string,
+  code: string,
+): Promise<{ recovery_codes: string[] }> {
+  const row = await loadUserMfa(db, userId);
+  if (!row || row.status !== 'pending') {
+    throw badRequest('Start two-factor enrollment before confirming it');
+  }
+
+  const step = await matchTotpStep(await decrypt(env, row.totp_secret_encrypted), code);
+  if (step === null) throw unauthorized('Invalid authentication code');
+
+  const now = new Date().toISOString();
+  const { changes } = await dbExecute(
+    db,
+    `UPDATE user_mfa SET status = 'active', last_used_step = ?, confirmed_at = ?, updated_at = ?
+     WHERE user_id = ? AND status = 'pending'`,
+    [step, now, now, userId],
+  );
+  if (!changes) throw conflict('Two-factor authentication is already enabled');
+
+  return { recovery_codes: await issueRecoveryCodes(db, userId) };
+}
+
+/**
+ * Check a second-factor code: an authenticator code, or failing that an
+ * unused recovery code (which is then spent).
+ *
+ * @throws {unauthorized} If two-factor is not active or the code is invalid.
+ */
+export async function verifyMfaCode(
+  db: D1Database,
+  env: Env,
+  userId: string,
+  code: string,
+): Promise<{ method: 'totp' | 'recovery_code' }> {
+  const row = await loadUserMfa(db, userId);
+  if (!row || row.status !== 'active') {
+    throw unauthorized('Two-factor authentication is not enabled');
+  }
+
+  const now = new Date().toISOString();
+  if (/^\d+$/.test(code)) {
+    const secret = await decrypt(env, row.totp_secret_encrypted);
+    const step = await matchTotpStep(secret, code, Date.now(), row.last_used_step);
+    if (step !== null) {
+      // Conditional so two requests racing with the same code can't both win.
+      const { changes } = await dbExecute(
+        db,
+        'UPDATE user_mfa SET last_used_step = ?, updated_at = ? WHERE user_id = ? AND last_used_step < ?',
+        [step, now, userId, step],
+      );
+      if (changes) return { method: 'totp' };
+    }
+    throw unauthorized('Invalid authentication code');
+  }
+
+  const { changes } = await dbExecute(
+    db,
+    `UPDATE mfa_recovery_codes SET used_at = ?
+     WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`,
+    [now, userId, await hashRecoveryCode(userId, code)],
+  );
+  if (!changes) throw unauthorized('Invalid recovery code');
+  return { method: 'recovery_code' };
+}
+
+/** Turn two-factor off: the secret and recovery codes are deleted outright. */
+export async function disableMfa(db: D1Database, userId: string): Promise<void> {
+  await dbExecute(db, 'DELETE FROM user_mfa WHERE user_id = ?', [userId]);
+  await dbExecute(db, 'DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+}
+
+/**
+ * Replace every recovery code, used or not.
+ *
+ * @throws {badRequest} If two-factor is not active.
+ */
+export async function regenerateRecoveryCodes(
+  db: D1Database,
+  userId: string,
+): Promise<{ recovery_codes: string[] }> {
+  const row = await loadUserMfa(db, userId);
+  if (!row || row.status !== 'active') {
+    throw badRequest('Two-factor authentication is not enabled');
+  }
+  return { recovery_codes: await issueRecoveryCodes(db, userId) };
+}
+
+/** Turn the org-wide two-factor requirement on or off. */
+export async function setOrgMfaPolicy(
+  db: D1Database,
+  orgId: string,
+  requireMfa: boolean,
+): Promise<void> {
+  await dbExecute(db, 'UPDATE orgs SET require_mfa = ?, updated_at = ? WHERE id = ?', [
+    requireMfa ? 1 : 0,
+    new Date().toISOString(),
+    orgId,
+  ]);
+}
@@ -15,9 +15,15 @@
  * | klaviyo    | POST /api/profile-subscription-bulk-create-jobs                |
  * | resend     | POST /audiences/{audience_id}/contacts                         |
  * | webhook    | POST {webhook_url} with the full envelope                      |
+ *
+ * An integration may reference a vault credential (`services/form_api_keys.ts`)
+ * via `config.api_key_id` instead of storing its own secret. See
+ * {@link applyVaultCredentials}.
  */
 
-import type { NewsletterProvider } from '@project-sites/shared';
+import type { FormApiKeyProvider, NewsletterProvider } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { recordApiKeyUse, resolveApiKey } from './form_api_keys.js';
 
 /** Stored integration row shape (same columns as `newsletter_integrations`). */
 export interface IntegrationRow {
@@ -106,6 +112,72 @@ async function dispatchOne(
   }
 }
 
+// ── Vault credentials ────────────────────────────────────────
+
+/** Vault providers each newsletter provider may borrow a secret from. */
+const VAULT_PROVIDERS: Partial<Record<NewsletterProvider, FormApiKeyProvider[]>> = {
+  webhook: ['generic-webhook', 'zapier', 'n8n'],
+  resend: ['resend-transactional'],
+};
+
+/**
+ * Swap in vault secrets for integrations whose config names an `api_key_id`.
+ *
+ * For `webhook` the secret is the webhook URL; for `resend` it is the API key.
+ * Integrations whose key cannot be resolved are not dispatched and come back
+ * as failed results. `keyIds` maps integration ID → vault key ID for the
+ * keys that resolved, so the caller can report usage with {@link recordVaultUsage}.
+ */
+export async function applyVaultCredentials(
+  env: Env,
+  integrations: IntegrationRow[],
+): Promise<{ rows: IntegrationRow[]; failures: DispatchResult[]; keyIds: Map<string, string> }> {
+  const rows: IntegrationRow[] = [];
+  const failures: DispatchResult[] = [];
+  const keyIds = new Map<string, string>();
+
+  for (const row of integrations) {
+    const keyId = parseConfig(row.config)['api_key_id'];
+    if (typeof keyId !== 'string' || !keyId) {
+      rows.push(row);
+      continue;
+    }
+    try {
+      const accepted = VAULT_PROVIDERS[row.provider];
+      if (!accepted) throw new Error(`${row.provider} integrations cannot use vault keys`);
+      const key = await resolveApiKey(env, row.site_id, keyId, accepted);
+      keyIds.set(row.id, keyId);
+      rows.push(
+        row.provider === 'webhook'
+          ? { ...row, webhook_url: key.secret }
+          : { ...row, api_key_encrypted: key.secret },
+      );
+    } catch (err) {
+      failures.push({
+        integration_id: row.id,
+        provider: row.provider,
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { rows, failures, keyIds };
+}
+
+/** Record one vault-key use per dispatched integration of `siteId` that borrowed a key. */
+export async function recordVaultUsage(
+  db: D1Database,
+  siteId: string,
+  keyIds: Map<string, string>,
+  results: DispatchResult[],
+): Promise<void> {
+  for (const result of results) {
+    const keyId = keyIds.get(result.integration_id);
+    if (keyId) await recordApiKeyUse(db, siteId, keyId, result.error);
+  }
+}
+
 function requireEmail(s: DispatchSubmission): string {
   if (!s.email) throw new Error('Provider requires an email field on the submission');
   return s.email;
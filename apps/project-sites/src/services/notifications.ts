@@ -1,6 +1,8 @@
 /**
  * @module services/notifications
- * @description Transactional email notifications for domain verification and site builds.
+ * @description Transactional email notifications for domain verification and health alerts,
+ * site builds, team invites, private-site sign-in links, scheduled version switches and
+ * billing dunning.
  *
  * Uses Resend (primary) or SendGrid (fallback) to deliver notifications.
  */
@@ -198,6 +200,59 @@ export async function notifyDomainVerified(
   });
 }
 
+/**
+ * Tell the site owner a connected domain stopped working properly, with a
+ * fix for each problem the health sweep found. Throws on provider failure;
+ * the sweep logs it and retries on the next run.
+ */
+export async function notifyDomainDegraded(
+  env: Env,
+  opts: {
+    email: string;
+    hostname: string;
+    siteName: string;
+    problems: Array<{ title: string; detail: string; fix: string }>;
+  },
+): Promise<void> {
+  const dashboardUrl = `https://${DOMAINS.SITES_BASE}/admin`;
+  const headline = `${opts.hostname} needs attention`;
+  const items = opts.problems
+    .map(
+      (p) => `
+      <tr><td style="padding:14px 16px;border-bottom:1px solid rgba(0,212,255,0.06);">
+        <div style="color:#f59e0b;font-size:14px;font-weight:700;margin-bottom:4px;">${p.title}</div>
+        <div style="color:#94a3b8;font-size:13px;line-height:1.5;margin-bottom:8px;">${p.detail}</div>
+        <div style="color:#e2e8f0;font-size:13px;line-height:1.5;"><strong>How to fix:</strong> ${p.fix}</div>
+      </td></tr>`,
+    )
+    .join('');
+
+  const html = emailWrap(
+    `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">${headline}</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">
+      Our routine check of <strong style="color:#e2e8f0;">${opts.hostname}</strong>, connected to
+      <strong style="color:#e2e8f0;">${opts.siteName}</strong>, found a problem. Visitors may already be seeing errors.
+    </p>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:rgba(0,0,0,0.2);border-radius:10px;margin-bottom:20px;">${items}
+    </table>
+    <p style="color:#64748b;font-size:12px;line-height:1.5;margin:0 0 20px;">
+      We check again every 30 minutes and will stop warning you once everything looks right.
+    </p>
+    <div style="text-align:center;">
+      <a href="${dashboardUrl}" style="display:inline-block;padding:12px 32px;background:linear-gradient(135deg,#00d4ff,#7c3aed);color:#fff;font-size:14px;font-weight:700;text-decoration:none;border-radius:10px;">Open your dashboard</a>
+    </div>
+  `,
+    headline,
+  );
+
+  await sendEmail(env, {
+    to: opts.email,
+    subject: `Action needed: ${headline}`,
+    html,
+  });
+}
+
 /**
  * Send site build completion notification.
  */
@@ -250,3 +305,173 @@ export async function notifySiteBuilt(
     );
   });
 }
+
+/**
+ * Send a team invite with the accept link. Throws on provider failure so the
+ * caller can tell the inviter the email did not go out.
+ */
+export async function notifyTeamInvite(
+  env: Env,
+  opts: {
+    email: string;
+    orgName: string;
+    role: string;
+    invitedBy: string | null;
+    token: string;
+    expiresAt: string;
+  },
+): Promise<void> {
+  const acceptUrl = `https://${DOMAINS.SITES_BASE}/admin/accept-invite?token=${encodeURIComponent(opts.token)}`;
+  const expires = new Date(opts.expiresAt).toUTCString().slice(0, 16);
+  const html = emailWrap(
+    `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">You're invited</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">
+      ${opts.invitedBy ? `<strong style="color:#e2e8f0;">${opts.invitedBy}</strong> invited you` : 'You were invited'}
+      to join <strong style="color:#e2e8f0;">${opts.orgName}</strong> on Project Sites as
+      <strong style="color:#00d4ff;">${opts.role}</strong>.
+    </p>
+    <div style="text-align:center;margin-bottom:16px;">
+      <a href="${acceptUrl}" style="display:inline-block;padding:12px 32px;background:linear-gradient(135deg,#00d4ff,#7c3aed);color:#fff;font-size:14px;font-weight:700;text-decoration:none;border-radius:10px;">Accept Invite</a>
+    </div>
+    <p style="color:#64748b;font-size:12px;text-align:center;margin:0;">This invite expires on ${expires}.</p>
+  `,
+    `Join ${opts.orgName} on Project Sites`,
+  );
+
+  await sendEmail(env, {
+    to: opts.email,
+    subject: `You've been invited to ${opts.orgName} on Project Sites`,
+    html,
+  });
+}
+
+/**
+ * Send a members-only site's sign-in link. Throws on provider failure; the
+ * gate logs it and still shows "check your email".
+ */
+export async function notifySiteAccessLink(
+  env: Env,
+  opts: { email: string; host: string; url: string },
+): Promise<void> {
+  const html = emailWrap(
+    `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">Sign in to view this site</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">
+      Someone asked for access to <strong style="color:#e2e8f0;">${opts.host}</strong> with this email address.
+    </p>
+    <div style="text-align:center;margin-bottom:16px;">
+      <a href="${opts.url}" style="display:inline-block;padding:12px 32px;background:linear-gradient(135deg,#00d4ff,#7c3aed);color:#fff;font-size:14px;font-weight:700;text-decoration:none;border-radius:10px;">View Site</a>
+    </div>
+    <p style="color:#64748b;font-size:12px;text-align:center;margin:0;">This link expires in 15 minutes. If you didn't ask for it, you can ignore this email.</p>
+  `,
+    `Your sign-in link for ${opts.host}`,
+  );
+
+  await sendEmail(env, {
+    to: opts.email,
+    subject: `Sign in to ${opts.host}`,
+    html,
+  });
+}
+
+/**
+ * Tell the scheduler of a version switch that it went live, or why it did
+ * not. Throws on provider failure; the cron logs it and moves on.
+ */
+export async function notifyVersionSwitch(
+  env: Env,
+  opts: {
+    email: string;
+    siteName: string;
+    siteUrl: string | null;
+    target: string;
+    /** When the queued rollback will run, for successful switches. */
+    revertAt: string | null;
+    error: string | null;
+  },
+): Promise<void> {
+  const revert = opts.revertAt ? new Date(opts.revertAt).toUTCString() : null;
+  const html = emailWrap(
+    opts.error
+      ? `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">Scheduled Switch Failed</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">
+      We couldn't switch <strong style="color:#e2e8f0;">${opts.siteName}</strong> to ${opts.target}.
+      The site is still serving the version it had before.
+    </p>
+    <p style="color:#f87171;font-size:13px;text-align:center;font-family:monospace;margin:0;">${opts.error}</p>
+  `
+      : `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">Scheduled Switch Is Live</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">
+      <strong style="color:#e2e8f0;">${opts.siteName}</strong> now serves ${opts.target}.
+      ${revert ? `It will switch back on <strong style="color:#e2e8f0;">${revert}</strong>.` : ''}
+    </p>
+    ${
+      opts.siteUrl
+        ? `<div style="text-align:center;">
+      <a href="${opts.siteUrl}" style="display:inline-block;padding:12px 32px;background:linear-gradient(135deg,#00d4ff,#7c3aed);color:#fff;font-size:14px;font-weight:700;text-decoration:none;border-radius:10px;">Visit Your Site</a>
+    </div>`
+        : ''
+    }
+  `,
+  );
+
+  await sendEmail(env, {
+    to: opts.email,
+    subject: opts.error
+      ? `Scheduled switch failed: ${opts.siteName}`
+      : `Scheduled switch live: ${opts.siteName}`,
+    html,
+  });
+}
+
+/**
+ * Send a dunning notice for a past-due subscription. `reminder` is the index
+ * into `DUNNING.REMINDER_DAYS`, or `null` for the final downgrade notice.
+ * Throws on provider failure so the dunning walk can retry the stage.
+ */
+export async function notifyDunning(
+  env: Env,
+  opts: {
+    email: string;
+    orgName: string;
+    reminder: number | null;
+    daysUntilDowngrade: number;
+  },
+): Promise<void> {
+  const billingUrl = `https://${DOMAINS.SITES_BASE}/admin/billing`;
+  const downgraded = opts.reminder === null;
+  const headline = downgraded
+    ? 'Your plan was moved to Free'
+    : opts.reminder === 0
+      ? 'Your payment didn’t go through'
+      : `Payment reminder ${opts.reminder} — action needed`;
+  const body = downgraded
+    ? `We couldn't collect payment for <strong style="color:#e2e8f0;">${opts.orgName}</strong>, so it is now on the Free plan.
+       The Project Sites top bar is back on your sites and custom domains were disconnected.
+       Update your card to restore Pro — you'll need to re-add your domains.`
+    : `We couldn't collect payment for <strong style="color:#e2e8f0;">${opts.orgName}</strong>.
+       Update your payment method within <strong style="color:#f59e0b;">${opts.daysUntilDowngrade} days</strong>
+       to keep custom domains and an unbranded site.`;
+
+  const html = emailWrap(
+    `
+    <h2 style="color:#e2e8f0;font-size:20px;font-weight:700;text-align:center;margin:0 0 8px;">${headline}</h2>
+    <p style="color:#94a3b8;font-size:14px;text-align:center;line-height:1.6;margin:0 0 20px;">${body}</p>
+    <div style="text-align:center;">
+      <a href="${billingUrl}" style="display:inline-block;padding:12px 32px;background:linear-gradient(135deg,#00d4ff,#7c3aed);color:#fff;font-size:14px;font-weight:700;text-decoration:none;border-radius:10px;">Update payment method</a>
+    </div>
+  `,
+    headline,
+  );
+
+  await sendEmail(env, {
+    to: opts.email,
+    subject: downgraded
+      ? `${opts.orgName} was moved to the Free plan`
+      : `${headline} (${opts.orgName})`,
+    html,
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * @module services/registrar_sandbox
+ * @description In-memory {@link Registrar} for tests and local development.
+ *
+ * Nothing leaves the worker: registrations, settings and zones live in a
+ * `Map`. Prices are fixed per TLD, labels of three characters or fewer are
+ * premium (ten times list price), and a few well-known names are taken.
+ * Transfers start `transfer_pending` and complete the next time the domain
+ * is looked up, standing in for the registry's approval.
+ *
+ * ```ts
+ * const registrar = createSandboxRegistrar({ taken: ['vitos.com'] });
+ * await registrar.checkAvailability('vitos.com'); // { available: false, ... }
+ * ```
+ */
+
+import { badRequest, conflict, notFound, type RegistrantContact } from '@project-sites/shared';
+
+import type { DomainPricing, Registrar, RegistrarDnsRecord, RegistrarDomain } from './domains.js';
+import { isApexDomain } from './domain_dns.js';
+
+/** Per-year list prices, in cents. */
+const SANDBOX_PRICING: Record<string, Omit<DomainPricing, 'tld'>> = {
+  com: { register_cents: 1500, renew_cents: 1500, transfer_cents: 1500 },
+  net: { register_cents: 1600, renew_cents: 1600, transfer_cents: 1600 },
+  org: { register_cents: 1400, renew_cents: 1400, transfer_cents: 1400 },
+  co: { register_cents: 3000, renew_cents: 3000, transfer_cents: 3000 },
+  io: { register_cents: 4800, renew_cents: 4800, transfer_cents: 4800 },
+  dev: { register_cents: 1600, renew_cents: 1600, transfer_cents: 1600 },
+  app: { register_cents: 1800, renew_cents: 1800, transfer_cents: 1800 },
+  site: { register_cents: 400, renew_cents: 3200, transfer_cents: 3200 },
+};
+
+/** Names that are registered elsewhere (and so can be transferred in). */
+const SANDBOX_TAKEN = ['example.com', 'google.com', 'projectsites.dev'];
+
+const PREMIUM_MULTIPLIER = 10;
+
+interface SandboxDomain extends RegistrarDomain {
+  contact: RegistrantContact | null;
+  records: RegistrarDnsRecord[];
+}
+
+/** Sandbox registrar plus a peek at what it holds, for assertions. */
+export interface SandboxRegistrar extends Registrar {
+  /** Stored state of a domain, including contact and zone. */
+  inspect(domain: string): SandboxDomain | undefined;
+}
+
+function tldOf(domain: string): string {
+  return domain.slice(domain.indexOf('.') + 1);
+}
+
+function addYears(from: string | null, years: number, now: Date): string {
+  const base = from && new Date(from) > now ? new Date(from) : now;
+  const next = new Date(base);
+  next.setUTCFullYear(next.getUTCFullYear() + years);
+  return next.toISOString();
+}
+
+/**
+ * Create an empty sandbox registrar.
+ *
+ * @param opts.taken - Extra names to treat as registered elsewhere.
+ * @param opts.now   - Clock, for deterministic expiry dates in tests.
+ */
+export function createSandboxRegistrar(
+  opts: { taken?: string[]; now?: () => Date } = {},
+): SandboxRegistrar {
+  const now = opts.now ?? (() => new Date());
+  const taken = new Set([...SANDBOX_TAKEN, ...(opts.taken ?? [])]);
+  const domains = new Map<string, SandboxDomain>();
+
+  function held(domain: string): SandboxDomain {
+    const entry = domains.get(domain);
+    if (!entry) throw notFound(`${domain} is not registered with us`);
+    return entry;
+  }
+
+  function view(entry: SandboxDomain): RegistrarDomain {
+    return {
+      domain: entry.domain,
+      status: entry.status,
+      expires_at: entry.expires_at,
+      auto_renew: entry.auto_renew,
+      whois_privacy: entry.whois_privacy,
+    };
+  }
+
+  const registrar: SandboxRegistrar = {
+    name: 'sandbox',
+
+    async getPricing(tld) {
+      const pricing = SANDBOX_PRICING[tld];
+      return pricing ? { tld, ...pricing } : null;
+    },
+
+    async checkAvailability(domain) {
+      const pricing = isApexDomain(domain) ? await registrar.getPricing(tldOf(domain)) : null;
+      const premium = domain.indexOf('.') <= 3;
+      const multiplier = premium ? PREMIUM_MULTIPLIER : 1;
+      return {
+        domain,
+        available: Boolean(pricing) && !taken.has(domain) && !domains.has(domain),
+        premium,
+        register_cents: (pricing?.register_cents ?? 0) * multiplier,
+        renew_cents: (pricing?.renew_cents ?? 0) * multiplier,
+      };
+    },
+
+    async register({ domain, years, contact, whois_privacy, auto_renew }) {
+      const quote = await registrar.checkAvailability(domain);
+      if (!quote.available) throw conflict(`${domain} is not available`);
+      const entry: SandboxDomain = {
+        domain,
+        status: 'active',
+        expires_at: addYears(null, years, now()),
+        auto_renew,
+        whois_privacy,
+        contact,
+        records: [],
+      };
+      domains.set(domain, entry);
+      return view(entry);
+    },
+
+    async renew(domain, years) {
+      const entry = held(domain);
+      entry.expires_at = addYears(entry.expires_at, years, now());
+      return view(entry);
+    },
+
+    async transferIn({ domain, auth_code, contact, whois_privacy, auto_renew }) {
+      if (!taken.has(domain) || domains.has(domain)) {
+        throw badRequest(`${domain} is not registered elsewhere, so it cannot be transferred`);
+      }
+      if (auth_code.length < 6) throw badRequest('The transfer authorization code is invalid');
+      const entry: SandboxDomain = {
+        domain,
+        status: 'transfer_pending',
+        expires_at: null,
+        auto_renew,
+        whois_privacy,
+        contact,
+        records: [],
+      };
+      domains.set(domain, entry);
+      taken.delete(domain);
+      return view(entry);
+    },
+
+    async getDomain(domain) {
+      const entry = domains.get(domain);
+      if (!entry) return null;
+      if (entry.status === 'transfer_pending') {
+        // Transfers add a year, as at real registries
+        entry.status = 'active';
+        entry.expires_at = addYears(null, 1, now());
+      }
+      return view(entry);
+    },
+
+    async setAutoRenew(domain, enabled) {
+      held(domain).auto_renew = enabled;
+    },
+
+    async setWhoisPrivacy(domain, enabled) {
+      held(domain).whois_privacy = enabled;
+    },
+
+    async setDnsRecords(domain, records) {
+      held(domain).records = [...records];
+    },
+
+    inspect(domain) {
+      return domains.get(domain);
+    },
+  };
+
+  return registrar;
+}
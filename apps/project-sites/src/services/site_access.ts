@@ -0,0 +1,414 @@
+/**
+ * @module site_access
+ * @description Visibility gate for served sites and snapshots.
+ *
+ * | Visibility | Who gets in                                                     |
+ * | ---------- | --------------------------------------------------------------- |
+ * | `public`   | Everyone (no gate)                                              |
+ * | `password` | Anyone who enters the site password                             |
+ * | `members`  | Members of the site's org, via a 15-minute link sent by email   |
+ *
+ * Snapshots (`{slug}-{snapshot}` hostnames) have their own setting, or
+ * inherit the site's when theirs is `NULL`. Visitors without access get a
+ * branded interstitial. Signing in sets a host-only `__ps_access` cookie
+ * (`{exp}.{hmac}`) valid for seven days, signed with the site's or
+ * snapshot's `access_secret`. The secret is rotated on every settings
+ * change, which signs everyone out.
+ *
+ * Only the visibility is cached with the resolved site (`host:{hostname}`
+ * in KV); the password hash and secret are read from D1 when a visitor
+ * presents a cookie or uses the sign-in form. POSTs to {@link ACCESS_PATH}
+ * are rate limited per IP and host in `index.ts`.
+ *
+ * Everything served behind the gate is marked `X-Robots-Tag: noindex` and
+ * `private`, so neither crawlers nor shared caches keep a copy.
+ *
+ * @packageDocumentation
+ */
+
+import { hmacSha256, timingSafeEqual } from '@project-sites/shared';
+
+import type { Env } from '../types/env.js';
+import { dbQueryOne } from './db.js';
+import { type ErrorPageBrand, loadErrorPageContext, sanitizeBrand } from './error_pages.js';
+import { notifySiteAccessLink } from './notifications.js';
+import type { ResolvedSite } from './site_serving.js';
+
+/** Visibility settings a site or snapshot can have. */
+export const SITE_VISIBILITIES = ['public', 'password', 'members'] as const;
+export type SiteVisibility = (typeof SITE_VISIBILITIES)[number];
+
+/** Access settings carried on a resolved non-public site. Safe to cache. */
+export interface SiteAccess {
+  visibility: Exclude<SiteVisibility, 'public'>;
+  /** Set when the snapshot's own setting applies; its row holds the secrets. */
+  snapshot_id?: string;
+}
+
+/** Credentials behind a {@link SiteAccess}, loaded by {@link loadAccessSecrets}. */
+export interface SiteAccessSecrets {
+  /** PBKDF2 hash from {@link hashAccessPassword}; set for `password`. */
+  password_hash: string | null;
+  /** HMAC key for access cookies and email grants. */
+  secret: string;
+}
+
+/** Access column shared by `sites` and `site_snapshots`. */
+export interface SiteAccessRow {
+  visibility: string | null;
+}
+
+/** Path the interstitial posts to and email links point at. */
+export const ACCESS_PATH = '/__ps/access';
+
+export const ACCESS_COOKIE = '__ps_access';
+
+const ACCESS_TTL_SECONDS = 7 * 86_400;
+const GRANT_TTL_SECONDS = 15 * 60;
+
+/** The Workers runtime rejects PBKDF2 above 100k iterations. */
+const PBKDF2_ITERATIONS = 100_000;
+
+/** Matches `updateSiteAccessSchema`; longer posts are rejected before hashing. */
+const MAX_PASSWORD_LENGTH = 128;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16)));
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+/** Hash a site password as `pbkdf2$<iterations>$<salt>$<hash>`. */
+export async function hashAccessPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${hash}`;
+}
+
+/** Check a password against a {@link hashAccessPassword} hash. */
+export async function verifyAccessPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+  const iter = Number(iterations);
+  if (!Number.isInteger(iter) || iter < 1 || iter > PBKDF2_ITERATIONS) return false;
+  return timingSafeEqual(await pbkdf2(password, fromHex(salt), iter), hash);
+}
+
+/**
+ * Access settings from a `sites` or `site_snapshots` row, or `undefined`
+ * when the row is public. A snapshot row with `visibility = NULL` should
+ * be passed as the site's row instead; pass `snapshotId` only with the
+ * snapshot's own row.
+ */
+export function accessFromRow(row: SiteAccessRow, snapshotId?: string): SiteAccess | undefined {
+  if (row.visibility !== 'password' && row.visibility !== 'members') return undefined;
+  return { visibility: row.visibility, ...(snapshotId ? { snapshot_id: snapshotId } : {}) };
+}
+
+/**
+ * Read the password hash and secret for a gated site or snapshot. A missing
+ * row yields an empty secret, which no cookie or grant verifies against.
+ */
+export async function loadAccessSecrets(
+  env: Env,
+  site: ResolvedSite,
+  access: SiteAccess,
+): Promise<SiteAccessSecrets> {
+  const row = await dbQueryOne<{
+    access_password_hash: string | null;
+    access_secret: string | null;
+  }>(
+    env.DB,
+    access.snapshot_id
+      ? 'SELECT access_password_hash, access_secret FROM site_snapshots WHERE id = ? AND deleted_at IS NULL'
+      : 'SELECT access_password_hash, access_secret FROM sites WHERE id = ? AND deleted_at IS NULL',
+    [access.snapshot_id ?? site.site_id],
+  );
+  return {
+    password_hash: row?.access_password_hash ?? null,
+    secret: row?.access_secret ?? '',
+  };
+}
+
+/** Cookie value granting access to `host` until `now + 7 days`. */
+export async function signAccessCookie(
+  secret: string,
+  host: string,
+  now = Date.now(),
+): Promise<string> {
+  const exp = Math.floor(now / 1000) + ACCESS_TTL_SECONDS;
+  return `${exp}.${await hmacSha256(secret, `access|${host}|${exp}`)}`;
+}
+
+/** Check a {@link signAccessCookie} value for `host`. */
+export async function verifyAccessCookie(
+  secret: string,
+  host: string,
+  value: string,
+  now = Date.now(),
+): Promise<boolean> {
+  const [exp, sig] = value.split('.');
+  if (!secret || !exp || !sig || Number(exp) * 1000 <= now) return false;
+  return timingSafeEqual(await hmacSha256(secret, `access|${host}|${exp}`), sig);
+}
+
+/** Token for the members email link, valid for 15 minutes. */
+export async function signAccessGrant(
+  secret: string,
+  host: string,
+  userId: string,
+  now = Date.now(),
+): Promise<string> {
+  const exp = Math.floor(now / 1000) + GRANT_TTL_SECONDS;
+  return `${userId}.${exp}.${await hmacSha256(secret, `grant|${host}|${userId}|${exp}`)}`;
+}
+
+/** Check a {@link signAccessGrant} token for `host`. */
+export async function verifyAccessGrant(
+  secret: string,
+  host: string,
+  token: string,
+  now = Date.now(),
+): Promise<boolean> {
+  const [userId, exp, sig] = token.split('.');
+  if (!secret || !userId || !exp || !sig || Number(exp) * 1000 <= now) return false;
+  return timingSafeEqual(await hmacSha256(secret, `grant|${host}|${userId}|${exp}`), sig);
+}
+
+/** Where to send the visitor after signing in; only same-origin paths. */
+function safeNext(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.includes('\\')
+    ? next
+    : '/';
+}
+
+function readCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get('Cookie') ?? '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return null;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!,
+  );
+
+/**
+ * Render the sign-in interstitial in the site's brand. `sent` shows the
+ * "check your email" state of the members form.
+ */
+export function renderAccessPage(
+  brandInput: ErrorPageBrand,
+  options: {
+    visibility: SiteAccess['visibility'];
+    next: string;
+    error?: string;
+    sent?: boolean;
+  },
+): string {
+  const brand = sanitizeBrand(brandInput);
+  const color = brand.primary_color ?? '#2563eb';
+  const siteName = brand.name ? escapeHtml(brand.name) : '';
+  const header = brand.logo_url
+    ? `<img class="logo" src="${escapeHtml(brand.logo_url)}" alt="${siteName}">`
+    : siteName
+      ? `<div class="name">${siteName}</div>`
+      : '';
+  const next = `<input type="hidden" name="next" value="${escapeHtml(options.next)}">`;
+  const error = options.error
+    ? `<p class="error" role="alert">${escapeHtml(options.error)}</p>`
+    : '';
+
+  let title: string;
+  let body: string;
+  if (options.visibility === 'password') {
+    title = 'This site is password protected';
+    body = `<p>Enter the password to continue.</p>${error}<form method="post" action="${ACCESS_PATH}">${next}<input type="password" name="password" placeholder="Password" aria-label="Password" autocomplete="current-password" required autofocus><button type="submit">Continue</button></form>`;
+  } else if (options.sent) {
+    title = 'Check your email';
+    body =
+      '<p>If that address belongs to a member of this site, a sign-in link is on its way. The link works for 15 minutes.</p>';
+  } else {
+    title = 'This site is private';
+    body = `<p>Only team members can view this site. Enter your email and we'll send you a sign-in link.</p>${error}<form method="post" action="${ACCESS_PATH}">${next}<input type="email" name="email" placeholder="you@example.com" aria-label="Email" autocomplete="email" required autofocus><button type="submit">Email me a link</button></form>`;
+  }
+
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width,initial-scale=1"><meta name="robots" content="noindex"><title>${title}${siteName ? ` | ${siteName}` : ''}</title><style>*{margin:0;padding:0;box-sizing:border-box}body{min-height:100vh;display:flex;align-items:center;justify-content:center;background:#f8fafc;color:#0f172a;font-family:${brand.font_body ? `'${brand.font_body}',` : ''}system-ui,-apple-system,sans-serif;padding:2rem}main{max-width:420px;width:100%;text-align:center}.logo{max-height:64px;max-width:220px;margin-bottom:2rem}.name{font-size:1.25rem;font-weight:700;margin-bottom:2rem;color:${color}}h1{font-size:1.5rem;margin-bottom:.75rem}p{color:#475569;line-height:1.6;margin-bottom:1.5rem}.error{color:#b91c1c}input{width:100%;padding:.75rem 1rem;border:1px solid #cbd5e1;border-radius:8px;font:inherit;margin-bottom:.75rem}input:focus{outline:2px solid ${color};border-color:transparent}button{width:100%;padding:.75rem 1rem;border:0;border-radius:8px;background:${color};color:#fff;font:inherit;font-weight:600;cursor:pointer}</style></head><body><main>${header}<h1>${title}</h1>${body}</main></body></html>`;
+}
+
+/** Mark a response served from behind the gate as uncacheable by shared caches and unindexable. */
+export function markPrivate(response: Response): Response {
+  const res = new Response(response.body, response);
+  res.headers.set('X-Robots-Tag', 'noindex');
+  const cacheControl = res.headers.get('Cache-Control');
+  res.headers.set(
+    'Cache-Control',
+    cacheControl ? cacheControl.replace(/\bpublic\b/, 'private') : 'private, no-cache',
+  );
+  return res;
+}
+
+function accessCookieHeader(value: string): string {
+  return `${ACCESS_COOKIE}=${value}; Max-Age=${ACCESS_TTL_SECONDS}; Path=/; HttpOnly; Secure; SameSite=Lax`;
+}
+
+/**
+ * Gate a request to a non-public site. Returns `null` when the visitor may
+ * see the site (or the site is public), otherwise the response to send:
+ * the interstitial, or the result of a sign-in at {@link ACCESS_PATH}.
+ *
+ * @example
+ * ```ts
+ * const denied = await siteAccessGate(env, site, request);
+ * if (denied) return denied;
+ * ```
+ */
+export async function siteAccessGate(
+  env: Env,
+  site: ResolvedSite,
+  request: Request,
+): Promise<Response | null> {
+  const access = site.access;
+  if (!access) return null;
+
+  const url = new URL(request.url);
+  const host = url.hostname;
+
+  const cookie = readCookie(request, ACCESS_COOKIE);
+  let secrets: SiteAccessSecrets | null = null;
+  const loadSecrets = async () => (secrets ??= await loadAccessSecrets(env, site, access));
+  const signedIn = cookie
+    ? await verifyAccessCookie((await loadSecrets()).secret, host, cookie)
+    : false;
+  if (signedIn && url.pathname !== ACCESS_PATH) return null;
+
+  const signIn = async (next: string) =>
+    new Response(null, {
+      status: 303,
+      headers: {
+        Location: next,
+        'Set-Cookie': accessCookieHeader(
+          await signAccessCookie((await loadSecrets()).secret, host),
+        ),
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  const page = async (
+    status: number,
+    options: { next: string; error?: string; sent?: boolean },
+  ) => {
+    const { brand } = await loadErrorPageContext(env, site, site.current_build_version ?? 'none');
+    return new Response(renderAccessPage(brand, { visibility: access.visibility, ...options }), {
+      status,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Robots-Tag': 'noindex',
+      },
+    });
+  };
+
+  if (url.pathname === ACCESS_PATH) {
+    if (request.method === 'GET') {
+      const next = safeNext(url.searchParams.get('next'));
+      if (signedIn) return Response.redirect(new URL(next, url).toString(), 303);
+      const grant = url.searchParams.get('grant');
+      if (
+        access.visibility === 'members' &&
+        grant &&
+        (await verifyAccessGrant((await loadSecrets()).secret, host, grant))
+      ) {
+        return signIn(next);
+      }
+      return page(401, {
+        next,
+        ...(grant ? { error: 'That sign-in link has expired. Request a new one below.' } : {}),
+      });
+    }
+
+    if (request.method === 'POST') {
+      let form: FormData | null = null;
+      try {
+        form = await request.formData();
+      } catch {
+        /* not a form post — show the interstitial */
+      }
+      const next = safeNext(form?.get('next') as string | null);
+
+      if (access.visibility === 'password') {
+        const password = form?.get('password');
+        const passwordHash =
+          typeof password === 'string' && password.length <= MAX_PASSWORD_LENGTH
+            ? (await loadSecrets()).password_hash
+            : null;
+        if (
+          typeof password === 'string' &&
+          passwordHash &&
+          (await verifyAccessPassword(password, passwordHash))
+        ) {
+          return signIn(next);
+        }
+        return page(401, { next, error: 'That password is not correct.' });
+      }
+
+      const email = String(form?.get('email') ?? '')
+        .trim()
+        .toLowerCase();
+      if (!email.includes('@') || email.length > 254) {
+        return page(400, { next, error: 'Enter a valid email address.' });
+      }
+      const member = await dbQueryOne<{ id: string }>(
+        env.DB,
+        `SELECT u.id FROM users u
+         JOIN memberships m ON m.user_id = u.id
+         WHERE lower(u.email) = ? AND m.org_id = ?
+           AND u.deleted_at IS NULL AND m.deleted_at IS NULL
+         LIMIT 1`,
+        [email, site.org_id],
+      );
+      // Same answer either way, so the form can't be used to probe membership
+      if (member) {
+        const grant = await signAccessGrant((await loadSecrets()).secret, host, member.id);
+        const link = `https://${host}${ACCESS_PATH}?grant=${encodeURIComponent(grant)}&next=${encodeURIComponent(next)}`;
+        try {
+          await notifySiteAccessLink(env, { email, host, url: link });
+        } catch (err) {
+          console.warn(
+            JSON.stringify({
+              level: 'error',
+              service: 'site_access',
+              message: 'Failed to send access link',
+              site_id: site.site_id,
+              error: err instanceof Error ? err.message : String(err),
+            }),
+          );
+        }
+      }
+      return page(200, { next, sent: true });
+    }
+  }
+
+  return page(401, { next: safeNext(url.pathname + url.search) });
+}
@@ -0,0 +1,263 @@
+/**
+ * @module services/site_branches
+ * @description Connects the branches in `services/git.ts` to the live site.
+ *
+ * `main` is the published site. Every other branch is work in progress that
+ * is served at its own preview hostname and only reaches the live site when
+ * it is fast-forward merged into `main`.
+ *
+ * ## Hostnames
+ *
+ * | Hostname                              | Serves                                              |
+ * | ------------------------------------- | --------------------------------------------------- |
+ * | `{slug}.projectsites.dev`             | The live build version                              |
+ * | `{branch}--{slug}.projectsites.dev`   | The branch tip, read straight from git blobs        |
+ *
+ * ## Text files only
+ *
+ * Git commits hold text and the `_redirects` / `_headers` rule files
+ * ({@link isGitTrackedFile}). Images, fonts and other binaries stay in the
+ * live build version: previews fall back to it for any path the branch does
+ * not have, and {@link publishCommit} copies them into the new version.
+ *
+ * @packageDocumentation
+ */
+
+import { DOMAINS } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute } from './db.js';
+import { assertStorageAvailable, bodyByteLength, meteredBucket } from './storage_usage.js';
+import {
+  checkoutSnapshot,
+  createSnapshot,
+  getCommit,
+  getHead,
+  guessContentType,
+  type GitFile,
+} from './git.js';
+
+/** Separates the branch from the slug in a preview hostname label. */
+export const PREVIEW_SEPARATOR = '--';
+
+/** Extensions committed to git when importing a live build version. */
+const GIT_TEXT_EXTENSIONS = new Set([
+  'html',
+  'css',
+  'js',
+  'mjs',
+  'json',
+  'txt',
+  'md',
+  'xml',
+  'svg',
+  'webmanifest',
+]);
+
+/** Site rule files, committed to git despite having no extension. */
+const GIT_RULE_FILES = new Set(['_redirects', '_headers']);
+
+/** Live site manifest at `sites/{slug}/_manifest.json`. */
+interface SiteManifest {
+  current_version?: string;
+  /** Commit the version was published from, when it came from git. */
+  commit_id?: string;
+}
+
+/** Public URL for a branch preview. */
+export function previewUrl(branch: string, slug: string): string {
+  return `https://${branch}${PREVIEW_SEPARATOR}${slug}${DOMAINS.SITES_SUFFIX}`;
+}
+
+/**
+ * Split a preview hostname label (`redesign--vitos-salon`) at the first
+ * separator. The branch is not validated — callers check it exists.
+ *
+ * @returns `null` when the label has no separator or an empty side.
+ */
+export function parsePreviewLabel(label: string): { branch: string; slug: string } | null {
+  const at = label.indexOf(PREVIEW_SEPARATOR);
+  if (at <= 0) return null;
+  const branch = label.slice(0, at);
+  const slug = label.slice(at + PREVIEW_SEPARATOR.length);
+  return slug ? { branch, slug } : null;
+}
+
+/** Whether a build-version file belongs in git (text or a rule file, not `_meta/`). */
+export function isGitTrackedFile(name: string): boolean {
+  if (name.startsWith('_meta/')) return false;
+  if (GIT_RULE_FILES.has(name)) return true;
+  return GIT_TEXT_EXTENSIONS.has(name.split('.').pop()?.toLowerCase() ?? '');
+}
+
+/** Every object under a build version, named relative to it. */
+async function listVersionFiles(
+  bucket: R2Bucket,
+  slug: string,
+  version: string,
+): Promise<Array<{ name: string; size: number }>> {
+  const prefix = `sites/${slug}/${version}/`;
+  const files: Array<{ name: string; size: number }> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const obj of page.objects) {
+      files.push({ name: obj.key.slice(prefix.length), size: obj.size ?? 0 });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return files;
+}
+
+async function readSiteManifest(bucket: R2Bucket, slug: string): Promise<SiteManifest | null> {
+  try {
+    const obj = await bucket.get(`sites/${slug}/_manifest.json`);
+    return obj ? await obj.json<SiteManifest>() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether commit `tip` is what `liveVersion` was built or imported from. */
+async function tipMatchesLive(
+  bucket: R2Bucket,
+  slug: string,
+  tip: string,
+  liveVersion: string,
+): Promise<boolean> {
+  const commit = await getCommit(bucket, slug, tip);
+  if (commit?.buildVersion === liveVersion) return true;
+  const manifest = await readSiteManifest(bucket, slug);
+  return manifest?.current_version === liveVersion && manifest.commit_id === tip;
+}
+
+/**
+ * The tip of `main` when it matches the live build version, without
+ * importing anything. For read paths handing out a `base_commit`; writes
+ * bring `main` up to date with {@link syncMainWithLive}.
+ *
+ * @returns `null` when `main` is behind the live site or has no commits.
+ */
+export async function liveCommit(
+  bucket: R2Bucket,
+  slug: string,
+  liveVersion: string | null,
+): Promise<string | null> {
+  const tip = await getHead(bucket, slug);
+  if (!tip || !liveVersion) return tip;
+  return (await tipMatchesLive(bucket, slug, tip, liveVersion)) ? tip : null;
+}
+
+/**
+ * Make sure the tip of `main` matches the live build version before a
+ * branch is cut from it, merged into it or edited on it.
+ *
+ * Builds, ZIP deploys and bolt publishes write build versions without
+ * committing, so when the tip does not correspond to `liveVersion` the
+ * version's text files are imported as a new `main` commit. Unchanged
+ * content reuses its blobs, so re-importing is cheap.
+ *
+ * @returns The tip of `main`, or `null` when there is nothing to import.
+ */
+export async function syncMainWithLive(
+  bucket: R2Bucket,
+  slug: string,
+  liveVersion: string | null,
+): Promise<string | null> {
+  const tip = await getHead(bucket, slug);
+  if (!liveVersion) return tip;
+
+  if (tip && (await tipMatchesLive(bucket, slug, tip, liveVersion))) return tip;
+
+  const names = (await listVersionFiles(bucket, slug, liveVersion))
+    .map((f) => f.name)
+    .filter(isGitTrackedFile);
+  const files: GitFile[] = [];
+  for (const name of names) {
+    const obj = await bucket.get(`sites/${slug}/${liveVersion}/${name}`);
+    if (obj) files.push({ name, content: await obj.text() });
+  }
+  if (files.length === 0) return tip;
+
+  return createSnapshot(
+    bucket,
+    slug,
+    files,
+    `Import live version ${liveVersion}`,
+    'ProjectSites',
+    liveVersion,
+  );
+}
+
+/**
+ * Publish a commit as a new build version and make it live.
+ *
+ * Writes the commit's files to `sites/{slug}/v{now}/`, copies binaries the
+ * commit does not have from the current live version, points
+ * `_manifest.json` and `sites.current_build_version` at the new version,
+ * and drops the cached hostname lookup.
+ *
+ * The new version is charged to the site's org (`services/storage_usage`).
+ *
+ * @throws QUOTA_EXCEEDED — the version would take the org past its storage
+ *   quota. Checked before anything is written.
+ */
+export async function publishCommit(
+  env: Env,
+  site: { id: string; slug: string; org_id: string; current_build_version: string | null },
+  commitId: string,
+): Promise<{ version: string; files: number }> {
+  const bucket = meteredBucket(env.SITES_BUCKET, env.DB, site.org_id);
+  const files = await checkoutSnapshot(bucket, site.slug, commitId);
+  const version = `v${Date.now()}`;
+  const prefix = `sites/${site.slug}/${version}/`;
+
+  const committed = new Set(files.map((f) => f.name));
+  const binaries = site.current_build_version
+    ? (await listVersionFiles(bucket, site.slug, site.current_build_version)).filter(
+        (f) => !f.name.startsWith('_meta/') && !isGitTrackedFile(f.name) && !committed.has(f.name),
+      )
+    : [];
+  await assertStorageAvailable(
+    env.DB,
+    site.org_id,
+    files.reduce((sum, f) => sum + (bodyByteLength(f.content) ?? 0), 0) +
+      binaries.reduce((sum, f) => sum + f.size, 0),
+  );
+
+  const uploads: Promise<unknown>[] = files.map((f) =>
+    bucket.put(`${prefix}${f.name}`, f.content, {
+      httpMetadata: { contentType: guessContentType(f.name) },
+    }),
+  );
+
+  for (const { name } of binaries) {
+    uploads.push(
+      bucket
+        .get(`sites/${site.slug}/${site.current_build_version}/${name}`)
+        .then((obj) =>
+          obj ? bucket.put(`${prefix}${name}`, obj.body, { httpMetadata: obj.httpMetadata }) : null,
+        ),
+    );
+  }
+  await Promise.all(uploads);
+
+  await bucket.put(
+    `sites/${site.slug}/_manifest.json`,
+    JSON.stringify({
+      current_version: version,
+      updated_at: new Date().toISOString(),
+      commit_id: commitId,
+      files: files.map((f) => f.name),
+    }),
+    { httpMetadata: { contentType: 'application/json' } },
+  );
+
+  await dbExecute(
+    env.DB,
+    "UPDATE sites SET current_build_version = ?, status = 'published', updated_at = datetime('now') WHERE id = ?",
+    [version, site.id],
+  );
+  await env.CACHE_KV.delete(`host:${site.slug}${DOMAINS.SITES_SUFFIX}`).catch(() => {});
+
+  return { version, files: files.length };
+}
@@ -0,0 +1,289 @@
+/**
+ * @module site_i18n
+ * @description Serving translated sites: the language comes from the path
+ * or `Accept-Language`, pages carry `hreflang` alternates, and sitemaps are
+ * localized.
+ *
+ * The translation pipeline (`services/site_translation.ts`) writes each
+ * language's HTML under `sites/{slug}/{version}/{lang}/` and lists the
+ * languages in the version's `_meta/i18n.json`. Everything else (CSS, JS,
+ * images) is shared with the default-language build, so `/es/styles.css`
+ * falls back to `/styles.css`.
+ *
+ * | Request                           | Served                                               |
+ * | --------------------------------- | ---------------------------------------------------- |
+ * | `/es/about`                       | `{version}/es/about.html`, else the English file     |
+ * | `/en/about`                       | `302 /about`, remembering the choice in `__ps_lang`  |
+ * | `/about` + `Accept-Language: es`  | `302 /es/about` unless `__ps_lang` says otherwise    |
+ * | `/sitemap.xml`                    | Every language's URLs with `xhtml:link` alternates   |
+ * | `/es/sitemap.xml`                 | The Spanish URLs only                                |
+ *
+ * Branch previews are served untranslated.
+ *
+ * @packageDocumentation
+ */
+
+import type { Env } from '../types/env.js';
+
+/** The `_meta/i18n.json` of a build version. */
+export interface SiteLanguages {
+  /** Language of the build itself, served without a prefix. */
+  default: string;
+  /** Translated languages, each served under `/{lang}/`. */
+  languages: string[];
+}
+
+/** Where a build version lists its translations. */
+export const I18N_MANIFEST_PATH = '_meta/i18n.json';
+
+/** Cookie holding a visitor's explicit language choice. */
+export const LANGUAGE_COOKIE = '__ps_lang';
+
+/** KV key for a build version's {@link SiteLanguages}. */
+export function siteLanguagesCacheKey(slug: string, version: string): string {
+  return `site_i18n:${slug}:${version}`;
+}
+
+/** How long the manifest stays in KV; the pipeline deletes the key on write. */
+const SITE_LANGUAGES_TTL_SECONDS = 86_400;
+
+/**
+ * The translations a build version serves, or `null` when it has none (or
+ * for branch previews). Cached in KV, including the "none" answer, so
+ * untranslated sites cost one KV read per request.
+ */
+export async function loadSiteLanguages(
+  env: Env,
+  site: { slug: string; branch?: string },
+  version: string,
+): Promise<SiteLanguages | null> {
+  if (site.branch) return null;
+
+  const key = siteLanguagesCacheKey(site.slug, version);
+  let manifest: SiteLanguages | null = null;
+  try {
+    manifest = await env.CACHE_KV.get<SiteLanguages>(key, 'json');
+  } catch {
+    /* KV unavailable — read from R2 */
+  }
+
+  if (!manifest) {
+    manifest = { default: 'en', languages: [] };
+    const object = await env.SITES_BUCKET.get(
+      `sites/${site.slug}/${version}/${I18N_MANIFEST_PATH}`,
+    );
+    if (object) {
+      try {
+        const data = (await object.json()) as Partial<SiteLanguages>;
+        manifest = {
+          default: typeof data.default === 'string' ? data.default : 'en',
+          languages: Array.isArray(data.languages)
+            ? data.languages.filter((l) => typeof l === 'string' && /^[a-z]{2}$/.test(l))
+            : [],
+        };
+      } catch {
+        /* malformed manifest — serve untranslated */
+      }
+    }
+    try {
+      await env.CACHE_KV.put(key, JSON.stringify(manifest), {
+        expirationTtl: SITE_LANGUAGES_TTL_SECONDS,
+      });
+    } catch {
+      /* read from R2 again next time */
+    }
+  }
+
+  return manifest.languages.length > 0 ? manifest : null;
+}
+
+/** `path` as served in `lang`: `/about` → `/es/about`, `/` → `/es/`. */
+export function localizePath(path: string, lang: string, defaultLang: string): string {
+  if (lang === defaultLang) return path;
+  return `/${lang}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Split a `/{lang}/…` prefix off `path` when `lang` is the default or a
+ * translated language; `/es` and `/es/` are both the Spanish home page.
+ */
+export function splitLanguagePath(
+  path: string,
+  manifest: SiteLanguages,
+): { lang: string; path: string } | null {
+  const match = path.match(/^\/([a-z]{2})(\/.*)?$/);
+  if (!match) return null;
+  const lang = match[1]!;
+  if (lang !== manifest.default && !manifest.languages.includes(lang)) return null;
+  return { lang, path: match[2] ?? '/' };
+}
+
+/**
+ * The visitor's best match among `available` from an `Accept-Language`
+ * header, by quality then order. Region subtags are ignored (`es-MX` → `es`).
+ */
+export function negotiateLanguage(header: string | null, available: string[]): string | null {
+  if (!header) return null;
+  const ranked = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return {
+        lang: (tag ?? '').trim().toLowerCase().split('-')[0] ?? '',
+        q: q ? Number(q.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter((entry) => entry.lang && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  return ranked.find((entry) => available.includes(entry.lang))?.lang ?? null;
+}
+
+function readCookie(headers: Headers, name: string): string | null {
+  for (const part of (headers.get('Cookie') ?? '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return null;
+}
+
+/** Whether `path` is a page rather than a file (`/about`, `/menu.html`). */
+export function isPagePath(path: string): boolean {
+  const last = path.slice(path.lastIndexOf('/') + 1);
+  return !last.includes('.') || last.endsWith('.html');
+}
+
+/**
+ * Pick the language a request is served in.
+ *
+ * A `/{lang}/` prefix wins. `/{default}/…` redirects to the unprefixed
+ * URL and remembers the choice in a cookie, so the visitor is not sent back
+ * to their browser language. Unprefixed pages redirect to the `__ps_lang`
+ * language, else to the best `Accept-Language` match.
+ *
+ * @returns A redirect, or the language (`null` for the default) and the
+ *   path inside that language's tree.
+ */
+export function routeLanguage(
+  manifest: SiteLanguages,
+  requestPath: string,
+  search: string,
+  requestHeaders: Headers,
+): { redirect: Response } | { lang: string | null; path: string } {
+  const split = splitLanguagePath(requestPath, manifest);
+  if (split && split.lang === manifest.default) {
+    return {
+      redirect: new Response(null, {
+        status: 302,
+        headers: {
+          Location: `${split.path}${search}`,
+          'Set-Cookie': `${LANGUAGE_COOKIE}=${manifest.default}; Path=/; Max-Age=31536000; Secure; SameSite=Lax`,
+          'Cache-Control': 'no-store',
+        },
+      }),
+    };
+  }
+  if (split) return { lang: split.lang, path: split.path };
+
+  if (isPagePath(requestPath)) {
+    const available = [manifest.default, ...manifest.languages];
+    const chosen = readCookie(requestHeaders, LANGUAGE_COOKIE);
+    const wanted =
+      chosen && available.includes(chosen)
+        ? chosen
+        : negotiateLanguage(requestHeaders.get('Accept-Language'), available);
+    if (wanted && wanted !== manifest.default) {
+      return {
+        redirect: new Response(null, {
+          status: 302,
+          headers: {
+            Location: `${localizePath(requestPath, wanted, manifest.default)}${search}`,
+            Vary: 'Accept-Language, Cookie',
+            'Cache-Control': 'no-store',
+          },
+        }),
+      };
+    }
+  }
+  return { lang: null, path: requestPath };
+}
+
+const escapeAttr = (text: string) =>
+  text.replace(/[&<>"]/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[ch]!);
+
+/**
+ * `<link rel="alternate" hreflang>` tags for `path` (unprefixed) in every
+ * language, plus `x-default` pointing at the unprefixed page.
+ */
+export function hreflangLinks(origin: string, path: string, manifest: SiteLanguages): string {
+  const link = (hreflang: string, lang: string) =>
+    `<link rel="alternate" hreflang="${hreflang}" href="${escapeAttr(
+      origin + localizePath(path, lang, manifest.default),
+    )}">`;
+  return [
+    link(manifest.default, manifest.default),
+    ...manifest.languages.map((lang) => link(lang, lang)),
+    link('x-default', manifest.default),
+  ].join('\n');
+}
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Rewrite a build's `sitemap.xml` for its translations. Each `<url>` is
+ * repeated per language (only `lang`'s when given) and lists every
+ * language version as an `xhtml:link` alternate, as search engines expect.
+ * Entries whose `<loc>` is not an absolute URL are left out.
+ */
+export function localizeSitemap(xml: string, manifest: SiteLanguages, lang: string | null): string {
+  const all = [manifest.default, ...manifest.languages];
+  const entries: string[] = [];
+
+  for (const block of xml.match(/<url>[\s\S]*?<\/url>/g) ?? []) {
+    const loc = block.match(/<loc>\s*([\s\S]*?)\s*<\/loc>/)?.[1];
+    if (!loc) continue;
+    let url: URL;
+    try {
+      url = new URL(unescapeXml(loc));
+    } catch {
+      continue;
+    }
+
+    const href = (l: string) =>
+      escapeAttr(url.origin + localizePath(url.pathname, l, manifest.default) + url.search);
+    const rest = block
+      .replace(/^<url>|<\/url>$/g, '')
+      .replace(/<loc>[\s\S]*?<\/loc>/, '')
+      .replace(/<xhtml:link[^>]*\/>/g, '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const alternates = [
+      ...all.map((l) => `<xhtml:link rel="alternate" hreflang="${l}" href="${href(l)}"/>`),
+      `<xhtml:link rel="alternate" hreflang="x-default" href="${href(manifest.default)}"/>`,
+    ];
+
+    for (const l of lang ? [lang] : all) {
+      entries.push(
+        ['  <url>', `    <loc>${href(l)}</loc>`, ...[...rest, ...alternates].map((t) => `    ${t}`)]
+          .concat('  </url>')
+          .join('\n'),
+      );
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,297 @@
+/**
+ * @module site_rules
+ * @description Netlify-style `_redirects` and `_headers` files for published
+ * sites: parsing, validation and request matching.
+ *
+ * ## `_redirects`
+ *
+ * One rule per line: `from to [status][!]`. Blank lines and lines starting
+ * with `#` are ignored; the first matching rule wins.
+ *
+ * ```
+ * /old-menu.php       /menu                  301
+ * /blog/:year/:slug   /news/:slug            302
+ * /shop/*             https://shop.example/:splat
+ * /app/*              /app/index.html        200
+ * /gone/*             /410.html              410
+ * ```
+ *
+ * | Part          | Meaning                                                                 |
+ * | ------------- | ----------------------------------------------------------------------- |
+ * | `:name`       | Matches one path segment; reused in `to` as `:name`                     |
+ * | `*`           | At the end of `from` only; matches the rest, reused in `to` as `:splat` |
+ * | `3xx`         | Redirect (301 when omitted)                                             |
+ * | `200`         | Rewrite: serve `to` at the requested URL                                |
+ * | `404/410/451` | Serve `to` with that status                                             |
+ * | `!`           | Force: apply even when a file exists at the requested path              |
+ *
+ * ## `_headers`
+ *
+ * A path pattern at the start of a line, followed by indented `Name: value`
+ * lines. Every block whose pattern matches applies; values for the same
+ * header from several blocks are joined with `, `.
+ *
+ * ```
+ * /*
+ *   X-Frame-Options: DENY
+ * /assets/*
+ *   Cache-Control: public, max-age=31536000, immutable
+ * ```
+ *
+ * This module has no imports: the build container copies it next to
+ * `build_validators.ts`, which uses it to reject malformed files.
+ *
+ * @packageDocumentation
+ */
+
+/** A parse error, 1-based line number. */
+export interface RuleError {
+  line: number;
+  message: string;
+}
+
+/** A compiled `_redirects` line. */
+export interface RedirectRule {
+  /** The `from` pattern as written. */
+  from: string;
+  to: string;
+  status: number;
+  force: boolean;
+  /** Anchored regex source for `from`. */
+  pattern: string;
+  /** Capture names in order; `splat` for `*`. */
+  params: string[];
+}
+
+/** A compiled `_headers` block. */
+export interface HeaderRule {
+  path: string;
+  pattern: string;
+  headers: [string, string][];
+}
+
+/** Both files compiled; plain JSON so it can be cached in KV. */
+export interface SiteRules {
+  redirects: RedirectRule[];
+  headers: HeaderRule[];
+}
+
+/** What a request resolves to under the redirect rules. */
+export type RedirectMatch =
+  | { type: 'redirect'; status: number; location: string; force: boolean }
+  | { type: 'rewrite'; status: number; path: string; force: boolean };
+
+/** Largest `_redirects` or `_headers` file a site may publish. */
+export const MAX_RULES_FILE_BYTES = 64 * 1024;
+
+/** At most this many rules per file, so matching stays cheap per request. */
+export const MAX_RULES = 1000;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const REWRITE_STATUSES = new Set([200, 404, 410, 451]);
+
+/** RFC 7230 token. */
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/** Headers the platform owns; a site cannot set them. */
+const RESERVED_HEADERS = new Set([
+  'connection',
+  'content-length',
+  'keep-alive',
+  'set-cookie',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+const escapeRegex = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a `from` or header path pattern. Throws a message for the caller
+ * to attach a line number to.
+ */
+function compilePattern(path: string): { pattern: string; params: string[] } {
+  if (!path.startsWith('/')) throw new Error(`Path must start with "/": ${path}`);
+  const star = path.indexOf('*');
+  if (star !== -1 && star !== path.length - 1) {
+    throw new Error(`"*" is only allowed at the end of a path: ${path}`);
+  }
+
+  const params: string[] = [];
+  const body = (star === -1 ? path : path.slice(0, -1))
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return escapeRegex(segment);
+      const name = segment.slice(1);
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || name === 'splat') {
+        throw new Error(`Invalid placeholder "${segment}"`);
+      }
+      if (params.includes(name)) throw new Error(`Placeholder "${segment}" is used twice`);
+      params.push(name);
+      return '([^/]+)';
+    })
+    .join('/');
+
+  if (star !== -1) {
+    params.push('splat');
+    return { pattern: `^${body}(.*)$`, params };
+  }
+  // A trailing slash is optional, as it is for files
+  return { pattern: `^${body.replace(/\/$/, '')}/?$`, params };
+}
+
+/**
+ * Parse a `_redirects` file. Invalid lines are reported and skipped, so a
+ * site that slipped an error past validation still gets its other rules.
+ */
+export function parseRedirects(text: string): { rules: RedirectRule[]; errors: RuleError[] } {
+  const rules: RedirectRule[] = [];
+  const errors: RuleError[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const parts = trimmed.split(/\s+/);
+    if (parts.length < 2) {
+      errors.push({ line, message: 'Expected "from to [status]"' });
+      return;
+    }
+    if (parts.length > 3) {
+      errors.push({ line, message: `Unexpected "${parts.slice(3).join(' ')}"` });
+      return;
+    }
+
+    const [from, to, code] = parts as [string, string, string | undefined];
+    const force = code?.endsWith('!') ?? false;
+    const status = code ? Number(code.replace(/!$/, '')) : 301;
+    if (!REDIRECT_STATUSES.has(status) && !REWRITE_STATUSES.has(status)) {
+      errors.push({ line, message: `Unsupported status "${code}"` });
+      return;
+    }
+
+    const external = /^https?:\/\//i.test(to);
+    if (!external && !to.startsWith('/')) {
+      errors.push({ line, message: `Target must be a path or an http(s) URL: ${to}` });
+      return;
+    }
+    if (external && REWRITE_STATUSES.has(status)) {
+      errors.push({ line, message: `Status ${status} needs a path on this site, not a URL` });
+      return;
+    }
+
+    try {
+      const { pattern, params } = compilePattern(from);
+      const unknown = [...to.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g)]
+        .map((m) => m[1]!)
+        .find((name) => !params.includes(name));
+      if (unknown) throw new Error(`Target uses ":${unknown}", which "from" does not define`);
+      rules.push({ from, to, status, force, pattern, params });
+    } catch (err) {
+      errors.push({ line, message: (err as Error).message });
+    }
+  });
+
+  if (rules.length > MAX_RULES) {
+    errors.push({ line: 0, message: `More than ${MAX_RULES} rules` });
+    rules.length = MAX_RULES;
+  }
+  return { rules, errors };
+}
+
+/** Parse a `_headers` file; invalid lines are reported and skipped. */
+export function parseHeaders(text: string): { rules: HeaderRule[]; errors: RuleError[] } {
+  const rules: HeaderRule[] = [];
+  const errors: RuleError[] = [];
+  let current: HeaderRule | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    if (!/^\s/.test(raw)) {
+      try {
+        current = { path: trimmed, ...compilePattern(trimmed), headers: [] };
+        rules.push(current);
+      } catch (err) {
+        current = null;
+        errors.push({ line, message: (err as Error).message });
+      }
+      return;
+    }
+
+    if (!current) {
+      errors.push({ line, message: 'Header line before any path' });
+      return;
+    }
+    const colon = trimmed.indexOf(':');
+    const name = colon > 0 ? trimmed.slice(0, colon).trim() : '';
+    const value = trimmed.slice(colon + 1).trim();
+    if (!HEADER_NAME.test(name)) {
+      errors.push({ line, message: `Expected "Name: value", got "${trimmed}"` });
+    } else if (RESERVED_HEADERS.has(name.toLowerCase())) {
+      errors.push({ line, message: `${name} cannot be set from _headers` });
+    } else {
+      current.headers.push([name, value]);
+    }
+  });
+
+  const compiled = rules.map(({ path, pattern, headers }) => ({ path, pattern, headers }));
+  if (compiled.length > MAX_RULES) {
+    errors.push({ line: 0, message: `More than ${MAX_RULES} rules` });
+    compiled.length = MAX_RULES;
+  }
+  return { rules: compiled, errors };
+}
+
+/** Compile both files (either may be missing). Errors are dropped here. */
+export function compileSiteRules(redirects: string | null, headers: string | null): SiteRules {
+  return {
+    redirects: redirects ? parseRedirects(redirects).rules : [],
+    headers: headers ? parseHeaders(headers).rules : [],
+  };
+}
+
+/**
+ * First redirect rule matching `path`, with placeholders filled in. The
+ * request's query string is kept unless the target has its own.
+ */
+export function matchRedirect(
+  rules: RedirectRule[],
+  path: string,
+  search = '',
+): RedirectMatch | null {
+  for (const rule of rules) {
+    const match = new RegExp(rule.pattern).exec(path);
+    if (!match) continue;
+
+    const values = new Map(rule.params.map((name, i) => [name, match[i + 1] ?? '']));
+    const target = rule.to.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (whole, name: string) =>
+      values.has(name) ? values.get(name)! : whole,
+    );
+
+    if (REDIRECT_STATUSES.has(rule.status)) {
+      const location = target.includes('?') ? target : `${target}${search}`;
+      return { type: 'redirect', status: rule.status, location, force: rule.force };
+    }
+    return { type: 'rewrite', status: rule.status, path: target.split('?')[0]!, force: rule.force };
+  }
+  return null;
+}
+
+/** Every header `_headers` sets for `path`, repeated names joined with `, `. */
+export function matchHeaders(rules: HeaderRule[], path: string): Map<string, string> {
+  const out = new Map<string, string>();
+  const names = new Map<string, string>();
+  for (const rule of rules) {
+    if (!new RegExp(rule.pattern).test(path)) continue;
+    for (const [name, value] of rule.headers) {
+      const key = name.toLowerCase();
+      const first = names.get(key) ?? name;
+      names.set(key, first);
+      out.set(first, out.has(first) ? `${out.get(first)}, ${value}` : value);
+    }
+  }
+  return out;
+}
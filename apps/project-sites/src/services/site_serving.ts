@@ -11,6 +11,7 @@
  * Request hostname
  *   ├─ KV cache hit → return cached site info
  *   ├─ Subdomain (slug.projectsites.dev) → lookup by slug
+ *   ├─ Branch preview (branch--slug.projectsites.dev) → lookup by slug + git branch
  *   └─ Custom domain → lookup in hostnames table → join sites → join subscriptions
  *       └─ Cache result in KV for 60 s
  * ```
@@ -24,6 +25,25 @@
  * | `sites/{slug}/{version}/privacy.html`     | Privacy policy    |
  * | `sites/{slug}/{version}/terms.html`       | Terms of service  |
  * | `sites/{slug}/{version}/research.json`    | AI research data  |
+ * | `sites/{slug}/{version}/_redirects`       | Redirect rules (see `services/site_rules.ts`) |
+ * | `sites/{slug}/{version}/_headers`         | Response header rules |
+ * | `sites/{slug}/{version}/{lang}/`          | Translated pages (see `services/site_i18n.ts`) |
+ * | `sites/{slug}/{version}/_meta/i18n.json`  | Languages the version is translated into |
+ * | `sites/{slug}/git/`                       | Branches for previews (see `services/git.ts`) |
+ *
+ * ## Caching
+ *
+ * | Response                                  | `Cache-Control`                        |
+ * | ----------------------------------------- | -------------------------------------- |
+ * | HTML                                      | `public, max-age=60, must-revalidate`  |
+ * | Hashed build assets (`index-3fA9c2b1.js`) | `public, max-age=31536000, immutable`  |
+ * | Other build files                         | `public, max-age=300, s-maxage=3600`   |
+ * | Unversioned `sites/{slug}/assets/`        | `public, max-age=86400`                |
+ * | Branch previews                           | `no-store`                             |
+ *
+ * Every file carries an `ETag` and `Last-Modified` from its R2 object, so
+ * revalidation is a `304`. Non-HTML files also answer `Range` requests
+ * (single ranges and `multipart/byteranges`), which video seeking needs.
  *
  * @packageDocumentation
  */
@@ -31,6 +51,41 @@
 import { DOMAINS } from '@project-sites/shared';
 import type { Env } from '../types/env.js';
 import { dbQueryOne } from './db.js';
+import { DEFAULT_BRANCH, getHead, readBranchFile } from './git.js';
+import { parsePreviewLabel } from './site_branches.js';
+import { loadErrorPageContext, renderErrorPage, type ErrorPageStatus } from './error_pages.js';
+import { accessFromRow, type SiteAccess, type SiteAccessRow } from './site_access.js';
+import {
+  hreflangLinks,
+  loadSiteLanguages,
+  localizeSitemap,
+  routeLanguage,
+  type SiteLanguages,
+} from './site_i18n.js';
+import {
+  MAX_RULES_FILE_BYTES,
+  compileSiteRules,
+  matchHeaders,
+  matchRedirect,
+  type SiteRules,
+} from './site_rules.js';
+
+/** A hostname resolved by {@link resolveSite}. */
+export interface ResolvedSite {
+  site_id: string;
+  slug: string;
+  org_id: string;
+  current_build_version: string | null;
+  plan: string;
+  /** Set for `{branch}--{slug}` preview hostnames. */
+  branch?: string;
+  /** Set while the owner has the site in maintenance mode (previews are exempt). */
+  maintenance?: boolean;
+  /** Set when the site or snapshot is not public; see `site_access.ts`. */
+  access?: SiteAccess;
+  /** Set for the redirecting half of an apex / www pair; see `domains.ts`. */
+  redirect_to?: string;
+}
 
 /**
  * Generate the promotional top bar HTML injected into unpaid sites.
@@ -299,9 +354,10 @@ export function generateConversionFlow(slug: string): string {
  * Resolve a hostname to a site record.
  *
  * Uses a two-tier lookup: KV cache (60 s TTL) → D1 database.
- * Supports dot-based subdomains (`slug.projectsites.dev`), legacy dash-based
- * subdomains (`slug-sites.megabyte.space`), and custom CNAME domains
- * (looked up in the `hostnames` table).
+ * Supports dot-based subdomains (`slug.projectsites.dev`), branch previews
+ * (`branch--slug.projectsites.dev`), legacy dash-based subdomains
+ * (`slug-sites.megabyte.space`), and custom CNAME domains (looked up in the
+ * `hostnames` table).
  *
  * @param env      - Worker environment (needs `CACHE_KV`, `DB`).
  * @param db       - D1Database binding.
@@ -320,13 +376,7 @@ export async function resolveSite(
   env: Env,
   db: D1Database,
   hostname: string,
-): Promise<{
-  site_id: string;
-  slug: string;
-  org_id: string;
-  current_build_version: string | null;
-  plan: string;
-} | null> {
+): Promise<ResolvedSite | null> {
   // Fast path: check KV cache
   const cacheKey = `host:${hostname}`;
   const cached = await env.CACHE_KV.get(cacheKey, 'json');
@@ -340,13 +390,7 @@ export async function resolveSite(
         hostname,
       }),
     );
-    return cached as {
-      site_id: string;
-      slug: string;
-      org_id: string;
-      current_build_version: string | null;
-      plan: string;
-    };
+    return cached as ResolvedSite;
   }
 
   // Extract slug from hostname (e.g., slug.projectsites.dev)
@@ -364,20 +408,31 @@ export async function resolveSite(
 
   // Try hostname table lookup first (for custom domains)
   if (!slug) {
-    const hostnameRow = await dbQueryOne<{ site_id: string; org_id: string }>(
+    const hostnameRow = await dbQueryOne<{
+      site_id: string;
+      org_id: string;
+      redirect_to?: string | null;
+    }>(
       db,
-      'SELECT site_id, org_id FROM hostnames WHERE hostname = ? AND status = ? AND deleted_at IS NULL',
+      'SELECT site_id, org_id, redirect_to FROM hostnames WHERE hostname = ? AND status = ? AND deleted_at IS NULL',
       [hostname, 'active'],
     );
 
     if (hostnameRow) {
-      const siteRow = await dbQueryOne<{ slug: string; current_build_version: string | null }>(
+      const siteRow = await dbQueryOne<
+        {
+          slug: string;
+          current_build_version: string | null;
+          maintenance_mode: number | null;
+        } & SiteAccessRow
+      >(
         db,
-        'SELECT slug, current_build_version FROM sites WHERE id = ? AND deleted_at IS NULL',
+        'SELECT slug, current_build_version, maintenance_mode, visibility FROM sites WHERE id = ? AND deleted_at IS NULL',
         [hostnameRow.site_id],
       );
 
       if (siteRow) {
+        const access = accessFromRow(siteRow);
         const subRow = await dbQueryOne<{ plan: string; status: string }>(
           db,
           'SELECT plan, status FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
@@ -392,6 +447,9 @@ export async function resolveSite(
           org_id: hostnameRow.org_id,
           current_build_version: siteRow.current_build_version,
           plan,
+          ...(siteRow.maintenance_mode ? { maintenance: true } : {}),
+          ...(access ? { access } : {}),
+          ...(hostnameRow.redirect_to ? { redirect_to: hostnameRow.redirect_to } : {}),
         };
 
         await env.CACHE_KV.put(cacheKey, JSON.stringify(resolved), { expirationTtl: 60 });
@@ -405,45 +463,76 @@ export async function resolveSite(
   // The snapshot name is separated by the LAST occurrence of a known snapshot pattern
   if (slug) {
     // First try exact slug match
-    let siteRow = await dbQueryOne<{
-      id: string;
-      slug: string;
-      org_id: string;
-      current_build_version: string | null;
-    }>(
+    let siteRow = await dbQueryOne<
+      {
+        id: string;
+        slug: string;
+        org_id: string;
+        current_build_version: string | null;
+        maintenance_mode: number | null;
+      } & SiteAccessRow
+    >(
       db,
-      'SELECT id, slug, org_id, current_build_version FROM sites WHERE slug = ? AND deleted_at IS NULL',
+      'SELECT id, slug, org_id, current_build_version, maintenance_mode, visibility FROM sites WHERE slug = ? AND deleted_at IS NULL',
       [slug],
     );
 
-    // If no exact match, try snapshot resolution: {slug}-{snapshot}
+    // If no exact match, try a branch preview: {branch}--{slug}
+    let branch: string | undefined;
+    const preview = siteRow ? null : parsePreviewLabel(slug);
+    if (preview && preview.branch !== DEFAULT_BRANCH) {
+      const baseRow = await dbQueryOne<
+        {
+          id: string;
+          slug: string;
+          org_id: string;
+          current_build_version: string | null;
+          maintenance_mode: number | null;
+        } & SiteAccessRow
+      >(
+        db,
+        'SELECT id, slug, org_id, current_build_version, maintenance_mode, visibility FROM sites WHERE slug = ? AND deleted_at IS NULL',
+        [preview.slug],
+      );
+      if (baseRow && (await getHead(env.SITES_BUCKET, baseRow.slug, preview.branch))) {
+        siteRow = baseRow;
+        branch = preview.branch;
+      }
+    }
+
+    // Then snapshot resolution: {slug}-{snapshot}
     let snapshotVersion: string | null = null;
+    let snapshotRow: ({ id: string } & SiteAccessRow) | null = null;
     if (!siteRow && slug.includes('-')) {
       // Try progressively shorter prefixes to find the base slug
       const parts = slug.split('-');
       for (let i = parts.length - 1; i >= 1; i--) {
         const candidateSlug = parts.slice(0, i).join('-');
         const candidateSnapshot = parts.slice(i).join('-');
-        const candidateRow = await dbQueryOne<{
-          id: string;
-          slug: string;
-          org_id: string;
-          current_build_version: string | null;
-        }>(
+        const candidateRow = await dbQueryOne<
+          {
+            id: string;
+            slug: string;
+            org_id: string;
+            current_build_version: string | null;
+            maintenance_mode: number | null;
+          } & SiteAccessRow
+        >(
           db,
-          'SELECT id, slug, org_id, current_build_version FROM sites WHERE slug = ? AND deleted_at IS NULL',
+          'SELECT id, slug, org_id, current_build_version, maintenance_mode, visibility FROM sites WHERE slug = ? AND deleted_at IS NULL',
           [candidateSlug],
         );
         if (candidateRow) {
           // Found a base site — now look up the snapshot
-          const snapshot = await dbQueryOne<{ build_version: string }>(
+          const snapshot = await dbQueryOne<{ id: string; build_version: string } & SiteAccessRow>(
             db,
-            'SELECT build_version FROM site_snapshots WHERE site_id = ? AND snapshot_name = ? AND deleted_at IS NULL',
+            'SELECT id, build_version, visibility FROM site_snapshots WHERE site_id = ? AND snapshot_name = ? AND deleted_at IS NULL',
             [candidateRow.id, candidateSnapshot],
           );
           if (snapshot) {
             siteRow = candidateRow;
             snapshotVersion = snapshot.build_version;
+            snapshotRow = snapshot;
             console.warn(
               JSON.stringify({
                 level: 'debug',
@@ -461,6 +550,10 @@ export async function resolveSite(
     }
 
     if (siteRow) {
+      // A snapshot's own setting wins; NULL inherits the site's
+      const access = snapshotRow?.visibility
+        ? accessFromRow(snapshotRow, snapshotRow.id)
+        : accessFromRow(siteRow);
       const subRow = await dbQueryOne<{ plan: string; status: string }>(
         db,
         'SELECT plan, status FROM subscriptions WHERE org_id = ? AND deleted_at IS NULL',
@@ -469,13 +562,16 @@ export async function resolveSite(
 
       const plan = subRow?.plan === 'paid' && subRow.status === 'active' ? 'paid' : 'free';
 
-      const resolved = {
+      const resolved: ResolvedSite = {
         site_id: siteRow.id,
         slug: siteRow.slug,
         org_id: siteRow.org_id,
         // Use snapshot version if resolved, otherwise latest
         current_build_version: snapshotVersion || siteRow.current_build_version,
         plan,
+        ...(branch ? { branch } : {}),
+        ...(siteRow.maintenance_mode && !branch ? { maintenance: true } : {}),
+        ...(access ? { access } : {}),
       };
 
       await env.CACHE_KV.put(cacheKey, JSON.stringify(resolved), { expirationTtl: 60 });
@@ -515,6 +611,80 @@ export async function resolveSite(
   return null;
 }
 
+/** KV key for a build version's compiled `_redirects` / `_headers`. */
+export function siteRulesCacheKey(slug: string, version: string): string {
+  return `site_rules:${slug}:${version}`;
+}
+
+/** How long compiled rules stay in KV. Versions are immutable once published. */
+const SITE_RULES_TTL_SECONDS = 86_400;
+
+/** Paths under a build version that are never served. */
+function isBlockedPath(path: string): boolean {
+  return (
+    path.startsWith('/_meta/') ||
+    path === '/_manifest.json' ||
+    path === '/_redirects' ||
+    path === '/_headers'
+  );
+}
+
+/**
+ * Compiled `_redirects` / `_headers` for what `site` serves. Live versions
+ * are compiled once and cached in KV; branch previews read the branch tip
+ * on every request, since they change with each edit. Missing or oversized
+ * files count as empty.
+ */
+async function loadSiteRules(
+  env: Env,
+  site: { slug: string; branch?: string },
+  version: string,
+): Promise<SiteRules> {
+  const readRules = async (name: string): Promise<string | null> => {
+    let object: R2ObjectBody | null = null;
+    if (site.branch) object = await readBranchFile(env.SITES_BUCKET, site.slug, site.branch, name);
+    object ??= await env.SITES_BUCKET.get(`sites/${site.slug}/${version}/${name}`);
+    if (!object || object.size > MAX_RULES_FILE_BYTES) return null;
+    return object.text();
+  };
+  const compile = async () =>
+    compileSiteRules(await readRules('_redirects'), await readRules('_headers'));
+
+  if (site.branch) return compile();
+
+  const key = siteRulesCacheKey(site.slug, version);
+  try {
+    const cached = await env.CACHE_KV.get<SiteRules>(key, 'json');
+    if (cached) return cached;
+  } catch {
+    /* KV unavailable — compile from R2 */
+  }
+  const rules = await compile();
+  try {
+    await env.CACHE_KV.put(key, JSON.stringify(rules), { expirationTtl: SITE_RULES_TTL_SECONDS });
+  } catch {
+    /* served uncached until the next request */
+  }
+  return rules;
+}
+
+/** Whether a file exists at exactly `path`, as a rule without `!` checks. */
+async function fileExists(
+  env: Env,
+  site: { slug: string; branch?: string },
+  version: string,
+  path: string,
+): Promise<boolean> {
+  const filePath = path.endsWith('/') ? `${path}index.html` : path;
+  if (
+    site.branch &&
+    (await readBranchFile(env.SITES_BUCKET, site.slug, site.branch, filePath.slice(1)))
+  ) {
+    return true;
+  }
+  return !!(await env.SITES_BUCKET.head(`sites/${site.slug}/${version}${filePath}`));
+}
+
 /**
  * Serve a site's static files from R2.
  *
@@ -522,9 +692,31 @@ export async function resolveSite(
  * `index.html` for SPA-style routing. Injects the promotional top bar for
  * HTML responses on the free plan.
  *
- * @param env         - Worker environment (needs `SITES_BUCKET`).
+ * The build's `_redirects` rules are applied first: a matching redirect is
+ * answered without touching the file, and a rewrite serves its target (with
+ * the rule's status) at the requested URL. As on Netlify, a rule without
+ * `!` is skipped when a file exists at the requested path. `_headers` rules
+ * for the requested path are then added to whatever is returned.
+ *
+ * Misses go through {@link serveErrorPage}, as does every request while the
+ * site is in maintenance mode (503).
+ *
+ * When the version has translations, the language is picked first (see
+ * `routeLanguage` in `services/site_i18n.ts`): `/{lang}/…` serves the
+ * translated file where there is one, and rules match the path without the
+ * prefix. HTML carries `hreflang` alternates and `sitemap.xml` lists every
+ * language.
+ *
+ * Branch previews (`site.branch` set) read each path from the branch tip
+ * first and fall back to the live version for files git does not hold
+ * (images, fonts). Preview responses are never cached or indexed.
+ *
+ * @param env         - Worker environment (needs `SITES_BUCKET`, `CACHE_KV`).
  * @param site        - Resolved site info from {@link resolveSite}.
  * @param requestPath - The URL pathname (e.g. `/`, `/about`, `/style.css`).
+ * @param search      - The URL query string (with `?`), kept on redirects.
+ * @param requestHeaders - Incoming headers, for conditional (`If-None-Match`,
+ *   `If-Modified-Since`) and `Range` requests.
  * @returns HTTP Response with correct content-type and caching headers.
  *
  * @example
@@ -539,11 +731,15 @@ export async function serveSiteFromR2(
     slug: string;
     current_build_version: string | null;
     plan: string;
+    branch?: string;
+    maintenance?: boolean;
   },
   requestPath: string,
+  search: string = '',
+  requestHeaders: Headers = new Headers(),
 ): Promise<Response> {
   // Block access to meta files and manifests
-  if (requestPath.startsWith('/_meta/') || requestPath === '/_manifest.json') {
+  if (isBlockedPath(requestPath)) {
     console.warn(
       JSON.stringify({
         level: 'warn',
@@ -566,7 +762,183 @@ export async function serveSiteFromR2(
   }
 
   const version = site.current_build_version;
+  if (site.maintenance) return serveErrorPage(env, site, version, 503);
+
+  // Pick the language; from here on `sitePath` is the path without `/{lang}`
+  const manifest = await loadSiteLanguages(env, site, version);
+  let language: ServedLanguage | undefined;
+  let sitePath = requestPath;
+  if (manifest) {
+    const routed = routeLanguage(manifest, requestPath, search, requestHeaders);
+    if ('redirect' in routed) return routed.redirect;
+    sitePath = routed.path;
+    if (isBlockedPath(sitePath)) return new Response('Not Found', { status: 404 });
+    const host = requestHeaders.get('host');
+    language = {
+      manifest,
+      lang: routed.lang,
+      head: hreflangLinks(
+        host ? `https://${host}` : `https://${site.slug}${DOMAINS.SITES_SUFFIX}`,
+        sitePath,
+        manifest,
+      ),
+    };
+  }
 
+  const rules = await loadSiteRules(env, site, version);
+  const withRuleHeaders = (res: Response): Response => {
+    for (const [name, value] of matchHeaders(rules.headers, sitePath)) {
+      res.headers.set(name, value);
+    }
+    return res;
+  };
+
+  if (language && sitePath === '/sitemap.xml') {
+    const sitemap = await env.SITES_BUCKET.get(`sites/${site.slug}/${version}/sitemap.xml`);
+    if (sitemap) {
+      const xml = localizeSitemap(await sitemap.text(), language.manifest, language.lang);
+      return withRuleHeaders(
+        new Response(xml, {
+          headers: {
+            'Content-Type': 'application/xml; charset=utf-8',
+            'Cache-Control': CACHE_DEFAULT,
+            'X-Site-Slug': site.slug,
+          },
+        }),
+      );
+    }
+  }
+
+  let path = sitePath;
+  let status = 200;
+  const match = matchRedirect(rules.redirects, sitePath, search);
+  if (match && (match.force || !(await fileExists(env, site, version, sitePath)))) {
+    console.warn(
+      JSON.stringify({
+        level: 'info',
+        action: 'serve_rule_match',
+        slug: site.slug,
+        requestPath,
+        status: match.status,
+        target: match.type === 'redirect' ? match.location : match.path,
+      }),
+    );
+    if (match.type === 'redirect') {
+      // Keep visitors in their language when a rule points elsewhere on the site
+      const location =
+        language?.lang && match.location.startsWith('/') && !match.location.startsWith('//')
+          ? `/${language.lang}${match.location}`
+          : match.location;
+      return withRuleHeaders(
+        new Response(null, {
+          status: match.status,
+          headers: {
+            Location: location,
+            'Cache-Control': site.branch ? 'no-store' : 'public, max-age=300',
+          },
+        }),
+      );
+    }
+    if (isBlockedPath(match.path)) return new Response('Not Found', { status: 404 });
+    path = match.path;
+    status = match.status;
+  }
+
+  // A 404/410 rewrite is an error page: no revalidation, and a missing target
+  // falls through to the pipeline with the rule's status
+  const res = await serveVersionFile(
+    env,
+    site,
+    version,
+    path,
+    status === 200 ? requestHeaders : new Headers(),
+    status === 410 ? 410 : 404,
+    language,
+  );
+  if (status !== 200 && res.status === 200) {
+    return withRuleHeaders(new Response(res.body, { status, headers: res.headers }));
+  }
+  return withRuleHeaders(res);
+}
+
+/** The language a request is served in, when the version has translations. */
+interface ServedLanguage {
+  manifest: SiteLanguages;
+  /** Translated language, or `null` for the unprefixed default. */
+  lang: string | null;
+  /** `<link rel="alternate" hreflang>` tags for the requested page. */
+  head: string;
+}
+
+/**
+ * The error-page pipeline: the build's own `{status}.html` (with the usual
+ * injections) when it has one, otherwise the branded template from
+ * `services/error_pages.ts`. Error pages are cached briefly, never for 503.
+ * A translated request gets the translated `{status}.html` when there is one.
+ */
+async function serveErrorPage(
+  env: Env,
+  site: { site_id: string; slug: string; plan: string; branch?: string },
+  version: string,
+  status: ErrorPageStatus,
+  lang: string | null = null,
+): Promise<Response> {
+  const name = `${status}.html`;
+  let object: R2ObjectBody | null = null;
+  if (site.branch) object = await readBranchFile(env.SITES_BUCKET, site.slug, site.branch, name);
+  if (lang) object ??= await env.SITES_BUCKET.get(`sites/${site.slug}/${version}/${lang}/${name}`);
+  object ??= await env.SITES_BUCKET.get(`sites/${site.slug}/${version}/${name}`);
+
+  let res: Response;
+  if (object) {
+    const page = await buildSiteResponse(object, site, 'text/html; charset=utf-8', env);
+    res = new Response(page.body, { status, headers: page.headers });
+    res.headers.delete('ETag');
+    res.headers.delete('Last-Modified');
+  } else {
+    const html = renderErrorPage(status, await loadErrorPageContext(env, site, version));
+    res = new Response(html, {
+      status,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Length': String(new TextEncoder().encode(html).byteLength),
+        'X-Site-Slug': site.slug,
+      },
+    });
+  }
+
+  res.headers.set(
+    'Cache-Control',
+    site.branch || status === 503 ? 'no-store' : 'public, max-age=60',
+  );
+  if (status === 503) res.headers.set('Retry-After', '300');
+  console.warn(
+    JSON.stringify({
+      level: 'info',
+      action: 'serve_error_page',
+      slug: site.slug,
+      status,
+      source: object ? 'build' : 'template',
+    }),
+  );
+  return res;
+}
+
+/**
+ * Look `requestPath` up in the build version (or branch tip), with the
+ * directory index, `.html`, flat-name, `/assets/` and SPA fallbacks. With a
+ * translated `language`, each candidate is tried in its `/{lang}/` tree
+ * before the shared file.
+ */
+async function serveVersionFile(
+  env: Env,
+  site: { site_id: string; slug: string; plan: string; branch?: string },
+  version: string,
+  requestPath: string,
+  requestHeaders: Headers,
+  notFoundStatus: ErrorPageStatus = 404,
+  language?: ServedLanguage,
+): Promise<Response> {
   // Normalize path: resolve directory-style URLs to index.html
   let filePath = requestPath;
   if (filePath === '/') {
@@ -578,6 +950,21 @@ export async function serveSiteFromR2(
 
   const r2Path = `sites/${site.slug}/${version}${filePath}`;
 
+  // Read `path` (leading slash) from the branch tip or the build version
+  const getFile = async (path: string): Promise<R2ObjectBody | null> => {
+    if (site.branch) {
+      const blob = await readBranchFile(env.SITES_BUCKET, site.slug, site.branch, path.slice(1));
+      if (blob) return blob;
+    }
+    if (language?.lang && path.endsWith('.html')) {
+      const translated = await env.SITES_BUCKET.get(
+        `sites/${site.slug}/${version}/${language.lang}${path}`,
+      );
+      if (translated) return translated;
+    }
+    return env.SITES_BUCKET.get(`sites/${site.slug}/${version}${path}`);
+  };
+
   console.warn(
     JSON.stringify({
       level: 'info',
@@ -585,21 +972,20 @@ export async function serveSiteFromR2(
       slug: site.slug,
       version,
       r2Path,
+      ...(site.branch ? { branch: site.branch } : {}),
     }),
   );
 
-  let object = await env.SITES_BUCKET.get(r2Path);
+  let object = await getFile(filePath);
 
   // For paths without extensions (e.g. /about), try directory index then .html extension
   if (!object && !filePath.includes('.')) {
     // /about → try /about/index.html
-    const dirIndexPath = `sites/${site.slug}/${version}${filePath}/index.html`;
-    object = await env.SITES_BUCKET.get(dirIndexPath);
+    object = await getFile(`${filePath}/index.html`);
 
     if (!object) {
       // /about → try /about.html
-      const htmlPath = `sites/${site.slug}/${version}${filePath}.html`;
-      object = await env.SITES_BUCKET.get(htmlPath);
+      object = await getFile(`${filePath}.html`);
     }
   }
 
@@ -608,7 +994,7 @@ export async function serveSiteFromR2(
   if (!object && filePath.includes('/') && !filePath.includes('.')) {
     const flatName = filePath.replace(/^\//, '').replace(/\//g, '-');
     const flatPath = `sites/${site.slug}/${version}/${flatName}.html`;
-    object = await env.SITES_BUCKET.get(flatPath);
+    object = await getFile(`/${flatName}.html`);
     if (object) {
       console.warn(
         JSON.stringify({ level: 'info', action: 'serve_flat_fallback', slug: site.slug, flatPath }),
@@ -632,17 +1018,19 @@ export async function serveSiteFromR2(
             svg: 'image/svg+xml',
             webp: 'image/webp',
             ico: 'image/x-icon',
+            mp4: 'video/mp4',
+            webm: 'video/webm',
           }[ext] || 'application/octet-stream';
-        return new Response(asset.body, {
-          headers: { 'Content-Type': ct, 'Cache-Control': 'public, max-age=86400' },
+        return buildSiteResponse(asset, site, ct, env, {
+          requestHeaders,
+          cacheControl: 'public, max-age=86400',
         });
       }
     }
 
     // Try index.html for SPA fallback (catch-all for client-side routing)
     if (!requestPath.includes('.')) {
-      const fallbackPath = `sites/${site.slug}/${version}/index.html`;
-      const fallback = await env.SITES_BUCKET.get(fallbackPath);
+      const fallback = await getFile('/index.html');
 
       if (fallback) {
         console.warn(
@@ -654,7 +1042,10 @@ export async function serveSiteFromR2(
           }),
         );
 
-        return buildSiteResponse(fallback, site, 'text/html; charset=utf-8', env);
+        return buildSiteResponse(fallback, site, 'text/html; charset=utf-8', env, {
+          requestHeaders,
+          language,
+        });
       }
     }
 
@@ -668,7 +1059,7 @@ export async function serveSiteFromR2(
       }),
     );
 
-    return new Response('Not Found', { status: 404 });
+    return serveErrorPage(env, site, version, notFoundStatus, language?.lang ?? null);
   }
 
   // Use the resolved file path for content-type detection, not the raw request path.
@@ -677,7 +1068,11 @@ export async function serveSiteFromR2(
   const contentType = filePath.includes('.')
     ? getContentType(filePath)
     : 'text/html; charset=utf-8';
-  return buildSiteResponse(object, site, contentType, env);
+  return buildSiteResponse(object, site, contentType, env, {
+    requestHeaders,
+    cacheControl: isHashedAssetPath(filePath) ? CACHE_IMMUTABLE : undefined,
+    language,
+  });
 }
 
 /**
@@ -785,30 +1180,239 @@ html.ps-fonts-ready body{opacity:1;transition:opacity .2s ease-out}
 <script>(function(){var h=document.documentElement,fired=false,r=function(){if(fired)return;fired=true;requestAnimationFrame(function(){requestAnimationFrame(function(){h.classList.add('ps-fonts-ready')})})};if(document.fonts&&document.fonts.ready){document.fonts.ready.then(r);}setTimeout(r,1500);})();</script>`;
 }
 
+/** `Cache-Control` for HTML: short, so a publish shows up within a minute. */
+const CACHE_HTML = 'public, max-age=60, must-revalidate';
+
+/** `Cache-Control` for content-hashed build assets, whose URL changes with their bytes. */
+const CACHE_IMMUTABLE = 'public, max-age=31536000, immutable';
+
+/** `Cache-Control` for every other build file. */
+const CACHE_DEFAULT = 'public, max-age=300, s-maxage=3600';
+
+/** More ranges than this in one request are ignored and the whole file is sent. */
+const MAX_RANGES = 16;
+
+/** Lowercase hex content hash before the extension (webpack, CRA, Next): `main.5e1b77a0.css`. */
+const HEX_HASH_NAME = /[.-]([0-9a-f]{8,20})\.[A-Za-z0-9]+$/;
+
+/** Vite's 8-character base64url hash, in its `/assets/` output only: `index-B-x1Qa9z.js`. */
+const VITE_ASSET_NAME = /^\/assets\/(?:[^/]+\/)*[^/]*-([A-Za-z0-9_-]{8})\.[A-Za-z0-9]+$/;
+
+/**
+ * Whether a file name carries a bundler content hash: 8–20 hex characters
+ * with both letters and digits anywhere (`main.5e1b77a0.css`), or a Vite
+ * base64url hash with an uppercase letter under `/assets/`
+ * (`index-3fA9c2b1.js`). Uploads like `menu-summer2024.pdf` are replaced
+ * in place and must not be cached as immutable.
+ */
+export function isHashedAssetPath(path: string): boolean {
+  const hex = HEX_HASH_NAME.exec(path)?.[1];
+  if (hex && /\d/.test(hex) && /[a-f]/.test(hex)) return true;
+  const vite = VITE_ASSET_NAME.exec(path)?.[1];
+  return !!vite && /[A-Z]/.test(vite);
+}
+
+/**
+ * Whether the client's cached copy is current (RFC 9110 §13.2.2):
+ * `If-None-Match` is compared weakly and, when present, `If-Modified-Since`
+ * is ignored.
+ */
+function isNotModified(requestHeaders: Headers, etag: string, uploaded?: Date): boolean {
+  const ifNoneMatch = requestHeaders.get('If-None-Match');
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag));
+  }
+  const ifModifiedSince = Date.parse(requestHeaders.get('If-Modified-Since') ?? '');
+  // HTTP dates have whole-second precision; R2 timestamps do not
+  return (
+    !!uploaded &&
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(uploaded.getTime() / 1000) * 1000 <= ifModifiedSince
+  );
+}
+
+/** An inclusive byte range. */
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range` header against a file of `size` bytes. Returns `null` when
+ * the header should be ignored (absent, not `bytes=`, malformed, or too many
+ * ranges) and `[]` when no range is satisfiable (416).
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange[] | null {
+  const match = /^bytes=(.+)$/i.exec(header?.trim() ?? '');
+  if (!match) return null;
+  const specs = match[1]!.split(',').map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (!parts[1] && !parts[2])) return null;
+    if (!parts[1]) {
+      // Suffix range: the last N bytes
+      const length = Number(parts[2]);
+      if (length > 0 && size > 0) ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+      continue;
+    }
+    const start = Number(parts[1]);
+    const end = parts[2] ? Number(parts[2]) : Infinity;
+    if (end < start) return null;
+    if (start < size) ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+  return ranges;
+}
+
+/**
+ * Whether a `Range` request may be answered with part of this object: a
+ * conditional `If-Range` must name its current strong ETag or upload date.
+ */
+function rangeStillValid(requestHeaders: Headers, etag?: string, uploaded?: Date): boolean {
+  const ifRange = requestHeaders.get('If-Range')?.trim();
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return ifRange === etag;
+  const date = Date.parse(ifRange);
+  return !!uploaded && !Number.isNaN(date) && Math.floor(uploaded.getTime() / 1000) * 1000 === date;
+}
+
+/**
+ * A `206` for `ranges` of `object`, read with ranged R2 gets so a seek into a
+ * large video never streams the bytes before it. Several ranges are sent as
+ * `multipart/byteranges`.
+ */
+async function buildRangeResponse(
+  env: Env,
+  object: R2ObjectBody,
+  ranges: ByteRange[],
+  contentType: string,
+  headers: Headers,
+): Promise<Response> {
+  await object.body.cancel().catch(() => {});
+  const readRange = (range: ByteRange) =>
+    env.SITES_BUCKET.get(object.key, {
+      range: { offset: range.start, length: range.end - range.start + 1 },
+    });
+
+  if (ranges.length === 1) {
+    const range = ranges[0]!;
+    const part = await readRange(range);
+    if (!part) return new Response('Not Found', { status: 404 });
+    headers.set('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+    headers.set('Content-Length', String(range.end - range.start + 1));
+    return new Response(part.body, { status: 206, headers });
+  }
+
+  const encoder = new TextEncoder();
+  const boundary = crypto.randomUUID().replace(/-/g, '');
+  const partHeads = ranges.map((range) =>
+    encoder.encode(
+      `--${boundary}\r\nContent-Type: ${contentType}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${object.size}\r\n\r\n`,
+    ),
+  );
+  const crlf = encoder.encode('\r\n');
+  const closing = encoder.encode(`--${boundary}--\r\n`);
+  const length =
+    ranges.reduce(
+      (sum, range, i) =>
+        sum + partHeads[i]!.byteLength + range.end - range.start + 1 + crlf.byteLength,
+      0,
+    ) + closing.byteLength;
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const pump = async () => {
+    const writer = writable.getWriter();
+    try {
+      for (const [i, range] of ranges.entries()) {
+        await writer.write(partHeads[i]!);
+        const part = await readRange(range);
+        if (!part) throw new Error(`R2 object ${object.key} disappeared mid-response`);
+        const reader = part.body.getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          await writer.write(chunk.value);
+        }
+        await writer.write(crlf);
+      }
+      await writer.write(closing);
+      await writer.close();
+    } catch (err) {
+      await writer.abort(err);
+    }
+  };
+  void pump();
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', String(length));
+  return new Response(readable, { status: 206, headers });
+}
+
 /**
  * Build an HTTP response for a site file, injecting analytics, error tracking,
- * and the promotional top bar for HTML on free plans.
+ * and the promotional top bar for HTML on free plans. `Content-Length` is
+ * always set so the caller can record bandwidth without buffering the body.
+ *
+ * Conditional requests are answered with a `304` before HTML is rendered.
+ * HTML gets a weak ETag, since its bytes also depend on the plan (top bar);
+ * other files use R2's strong ETag and honour `Range`.
  *
  * @param object      - R2 object body.
  * @param site        - Site metadata (slug, plan).
  * @param contentType - MIME type for the Content-Type header.
  * @param env         - Worker environment for PostHog/Sentry keys.
+ * @param options     - `requestHeaders` for conditional and range requests;
+ *   `cacheControl` overrides the default policy for non-HTML files;
+ *   `language` adds `Content-Language` and `hreflang` links to HTML.
  * @returns Fully formed Response.
  */
 async function buildSiteResponse(
   object: R2ObjectBody,
-  site: { slug: string; plan: string },
+  site: { slug: string; plan: string; branch?: string },
   contentType: string,
   env?: Env,
+  options: { requestHeaders?: Headers; cacheControl?: string; language?: ServedLanguage } = {},
 ): Promise<Response> {
+  const isHtml = contentType.startsWith('text/html');
   const headers = new Headers({
     'Content-Type': contentType,
-    'Cache-Control': 'public, max-age=300, s-maxage=3600',
+    'Cache-Control': isHtml ? CACHE_HTML : (options.cacheControl ?? CACHE_DEFAULT),
     'X-Site-Slug': site.slug,
   });
+  if (site.branch) {
+    // Previews change on every edit and must not compete with the live site in search
+    headers.set('Cache-Control', 'no-store');
+    headers.set('X-Robots-Tag', 'noindex');
+    headers.set('X-Site-Branch', site.branch);
+  }
+
+  const requestHeaders = options.requestHeaders ?? new Headers();
+  const strongEtag = object.httpEtag ?? (object.etag ? `"${object.etag}"` : undefined);
+  const language = isHtml ? options.language : undefined;
+  if (language) {
+    headers.set('Content-Language', language.lang ?? language.manifest.default);
+    // Unprefixed pages redirect by browser language, so caches must key on it
+    if (!language.lang) headers.set('Vary', 'Accept-Language, Cookie');
+  }
+  // The hreflang links change with the language list, so it is part of the tag
+  const variant = [
+    site.plan === 'paid' ? 'paid' : 'free',
+    ...(language ? [language.manifest.languages.join('.')] : []),
+  ].join('-');
+  const etag = strongEtag && isHtml ? `W/"${strongEtag.slice(1, -1)}-${variant}"` : strongEtag;
+  if (etag) headers.set('ETag', etag);
+  if (object.uploaded) headers.set('Last-Modified', object.uploaded.toUTCString());
+
+  if (etag && isNotModified(requestHeaders, etag, object.uploaded)) {
+    await object.body.cancel().catch(() => {});
+    headers.delete('Content-Type');
+    return new Response(null, { status: 304, headers });
+  }
 
   // For HTML responses, inject tracking snippets and top bar
-  if (contentType.startsWith('text/html')) {
+  if (isHtml) {
     let html = await object.text();
 
     // Inject analytics + error tracking before </head> (for all sites, paid and free)
@@ -838,6 +1442,8 @@ async function buildSiteResponse(
       // prevent the Google Fonts swap-flash that shifts hero/headline layout.
       headInjection += generateAntiFoucSnippet();
 
+      if (language) headInjection += `\n${language.head}`;
+
       if (headInjection) {
         html = html.replace(/<\/head>/i, `${headInjection}\n</head>`);
       }
@@ -855,9 +1461,22 @@ async function buildSiteResponse(
       html = html.replace(/(<body[^>]*>)/i, `$1\n${bodyInjection}\n`);
     }
 
+    headers.set('Content-Length', String(new TextEncoder().encode(html).byteLength));
     return new Response(html, { status: 200, headers });
   }
 
+  headers.set('Accept-Ranges', 'bytes');
+  if (env && rangeStillValid(requestHeaders, strongEtag, object.uploaded)) {
+    const ranges = parseRangeHeader(requestHeaders.get('Range'), object.size);
+    if (ranges && ranges.length === 0) {
+      await object.body.cancel().catch(() => {});
+      headers.set('Content-Range', `bytes */${object.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+    if (ranges) return buildRangeResponse(env, object, ranges, contentType, headers);
+  }
+
+  headers.set('Content-Length', String(object.size));
   return new Response(object.body, { status: 200, headers });
 }
 
@@ -888,6 +1507,11 @@ function getContentType(path: string): string {
     xml: 'application/xml',
     txt: 'text/plain',
     webmanifest: 'application/manifest+json',
+    avif: 'image/avif',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mp3: 'audio/mpeg',
+    pdf: 'application/pdf',
   };
   return types[ext ?? ''] ?? 'application/octet-stream';
 }
@@ -0,0 +1,1013 @@
+/**
+ * @module site_translation
+ * @description Translates a site's live build version into other languages.
+ *
+ * For each `site_languages` row, the cron takes every HTML page of the live
+ * version, pulls out its copy, translates what it has not seen before
+ * through the `translate_site_copy` prompt, and writes the localized pages
+ * to `sites/{slug}/{version}/{lang}/`. `services/site_i18n.ts` serves them.
+ *
+ * ## What gets translated
+ *
+ * Text nodes, `alt` / `title` / `placeholder` / `aria-label`, button
+ * values and the description / Open Graph / Twitter `<meta>` copy. Markup
+ * never reaches the model, so tags, classes and scripts come back as they
+ * were. `<script>`, `<style>`, `<code>`, `<pre>`, `<svg>` and anything
+ * marked `translate="no"` or `.notranslate` are left alone. The business
+ * name is passed as a brand term; a translation that drops it is discarded
+ * in favour of the English text.
+ *
+ * Translated pages get `<html lang>` (and `dir="rtl"` where needed), and
+ * their same-site page links, canonical URL and `og:url` move under
+ * `/{lang}/`.
+ *
+ * ## Storage
+ *
+ * | Path                                          | Content                                  |
+ * | --------------------------------------------- | ---------------------------------------- |
+ * | `sites/{slug}/{version}/{lang}/**.html`        | Translated pages                         |
+ * | `sites/{slug}/{version}/_meta/i18n.json`       | Languages the version serves             |
+ * | `sites/{slug}/{version}/_meta/i18n/{lang}.json` | Translation memory (source → machine text) |
+ *
+ * The memory carries over to the next version, so a republish only sends
+ * new or changed copy to the model. Owner overrides
+ * (`site_translation_overrides`) are applied on top when pages are written
+ * and never stored in the memory, so removing one brings the machine text
+ * back. Changing an override re-queues the language; re-rendering needs no
+ * model calls.
+ *
+ * ## Jobs
+ *
+ * A row is due when it is `pending`, or when the live version moved since
+ * its last attempt. The cron claims it (`running`), and a run spends at
+ * most {@link CALLS_PER_RUN} model calls across all sites; a language that
+ * runs out goes back to `pending` with its progress saved in the memory.
+ * A `failed` row keeps the batches translated before the error and is
+ * retried at `retry_at`, backing off from {@link RETRY_BASE_MS}, up to
+ * {@link MAX_FAILURES} runs in a row.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  DEFAULT_SITE_LANGUAGE,
+  SITE_LANGUAGES,
+  badRequest,
+  notFound,
+  type SiteLanguage,
+} from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbInsert, dbQuery, dbQueryOne } from './db.js';
+import { extractJsonFromText, runPrompt } from './ai_workflows.js';
+import { validatePromptOutput } from '../prompts/schemas.js';
+import {
+  I18N_MANIFEST_PATH,
+  isPagePath,
+  localizePath,
+  siteLanguagesCacheKey,
+} from './site_i18n.js';
+
+export type SiteLanguageStatus = 'pending' | 'running' | 'ready' | 'failed';
+
+/** A `site_languages` row. */
+export interface SiteLanguageRow {
+  id: string;
+  site_id: string;
+  org_id: string;
+  lang: SiteLanguage;
+  status: SiteLanguageStatus;
+  /** Version last attempted. */
+  source_version: string | null;
+  /** Version whose `/{lang}/` tree was last written completely. */
+  build_version: string | null;
+  segments: number;
+  translated: number;
+  error: string | null;
+  /** Failed runs in a row on `source_version`. */
+  failures: number;
+  /** When a `failed` row is retried; `null` once the retries are used up. */
+  retry_at: string | null;
+  created_by: string | null;
+  translated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One source string of a language, for the owner's review. */
+export interface TranslationString {
+  source: string;
+  /** Machine translation, or null while the language is still translating. */
+  translation: string | null;
+  override: string | null;
+}
+
+/** Translated languages allowed per site. */
+export const MAX_LANGUAGES_PER_SITE = 5;
+
+/** Model calls one cron run may spend across all sites. */
+export const CALLS_PER_RUN = 30;
+
+/** Languages picked up per cron run. */
+const RUN_BATCH = 10;
+
+/** A `running` row this old was interrupted; it goes back to `pending`. */
+const STUCK_AFTER_MS = 30 * 60_000;
+
+/** A failed row is retried after 15 min, then 30 min, 1 h, 2 h. */
+const RETRY_BASE_MS = 15 * 60_000;
+
+/** Failed runs in a row after which a language waits for a publish or a re-translate. */
+const MAX_FAILURES = 5;
+
+/** Segments and characters sent per model call. */
+const BATCH_SEGMENTS = 40;
+const BATCH_CHARS = 3000;
+
+/** Pages larger than this are not translated. */
+const MAX_PAGE_BYTES = 1024 * 1024;
+
+const DELETE_BATCH = 1000;
+
+// ── HTML ─────────────────────────────────────────────────────
+
+/** Elements whose content is never translated. */
+const SKIP_ELEMENTS = new Set(['code', 'pre', 'kbd', 'samp', 'svg', 'math']);
+
+/** Elements whose content is not markup. */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea']);
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Attributes holding visible or read-aloud copy. */
+const TEXT_ATTRIBUTES = new Set(['alt', 'title', 'placeholder', 'aria-label']);
+
+/** `<meta name|property>` values whose `content` is copy. */
+const TEXT_META = new Set([
+  'description',
+  'og:title',
+  'og:description',
+  'twitter:title',
+  'twitter:description',
+]);
+
+const RTL_LANGUAGES = new Set<string>(['ar']);
+
+/** Links into these stay shared between languages. */
+const SHARED_PATH_PREFIXES = ['/assets/', '/api/', '/__ps/'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  middot: '·',
+  bull: '•',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = /^#x/i.test(entity) ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Escape for a text node, leaving entities the decoder did not know intact. */
+const escapeText = (text: string) =>
+  text
+    .replace(/&(?!#x[0-9a-f]+;|#\d+;|[a-z][a-z0-9]*;)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const escapeAttr = (text: string) => escapeText(text).replace(/"/g, '&quot;');
+
+/** The key a string is translated and overridden under: decoded, whitespace collapsed. */
+export function normalizeSegment(text: string): string {
+  return decodeEntities(text)
+    .replace(/[ \t\r\n\f]+/g, ' ')
+    .trim();
+}
+
+/** Whether a segment is copy worth translating, not a number, URL or brand name. */
+function isTranslatable(segment: string, brandTerms: string[]): boolean {
+  if (!/\p{L}/u.test(segment)) return false;
+  if (/^(https?:\/\/|mailto:|tel:)\S+$/i.test(segment) || /^\S+@\S+\.\S+$/.test(segment)) {
+    return false;
+  }
+  return !brandTerms.some((term) => term.toLowerCase() === segment.toLowerCase());
+}
+
+/** End of the tag starting at `start`, skipping `>` inside quoted values. */
+function tagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+  let afterEquals = false;
+  for (let i = start + 1; i < html.length; i++) {
+    const ch = html[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && afterEquals) {
+      quote = ch;
+    } else if (ch === '>') {
+      return i + 1;
+    }
+    if (ch === '=') afterEquals = true;
+    else if (!/\s/.test(ch)) afterEquals = false;
+  }
+  return html.length;
+}
+
+type Translate = (segment: string) => string | null;
+
+function rewriteText(text: string, translate: Translate): string {
+  const lead = text.match(/^[ \t\r\n\f]*/)![0];
+  const trail = text.slice(lead.length).match(/[ \t\r\n\f]*$/)![0];
+  const core = text.slice(lead.length, text.length - trail.length);
+  if (!core) return text;
+  const translated = translate(normalizeSegment(core));
+  return translated == null ? text : `${lead}${escapeText(translated)}${trail}`;
+}
+
+/** A same-site page link moved under `/{lang}/`; anything else unchanged. */
+function localizeHref(href: string, lang: string): string {
+  if (!href.startsWith('/') || href.startsWith('//')) return href;
+  const path = href.split(/[?#]/)[0]!;
+  if (!isPagePath(path) || SHARED_PATH_PREFIXES.some((p) => path.startsWith(p))) return href;
+  const first = path.split('/')[1] ?? '';
+  if (first === DEFAULT_SITE_LANGUAGE || first in SITE_LANGUAGES) return href;
+  return localizePath(href, lang, DEFAULT_SITE_LANGUAGE);
+}
+
+/** A canonical or `og:url` (absolute or root-relative) moved under `/{lang}/`. */
+function localizeUrl(value: string, lang: string): string {
+  if (value.startsWith('/')) return localizeHref(value, lang);
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return value;
+    url.pathname = localizePath(url.pathname, lang, DEFAULT_SITE_LANGUAGE);
+    return url.toString();
+  } catch {
+    return value;
+  }
+}
+
+const ATTRIBUTE = /(\s)([^\s"'>/=]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+
+function rewriteTag(tag: string, name: string, translate: Translate, lang?: string): string {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(ATTRIBUTE)) {
+    attrs[m[2]!.toLowerCase()] = decodeEntities(m[4] ?? m[5] ?? m[6] ?? '');
+  }
+  const metaKey = (attrs.name ?? attrs.property ?? '').toLowerCase();
+
+  let out = tag.replace(ATTRIBUTE, (full, space: string, attr: string, eq: string, ...values) => {
+    const key = attr.toLowerCase();
+    const value = decodeEntities(values[0] ?? values[1] ?? values[2] ?? '');
+    let next: string | null = null;
+
+    if (
+      TEXT_ATTRIBUTES.has(key) ||
+      (key === 'content' && name === 'meta' && TEXT_META.has(metaKey)) ||
+      (key === 'value' &&
+        name === 'input' &&
+        ['submit', 'button', 'reset'].includes((attrs.type ?? '').toLowerCase()))
+    ) {
+      const segment = normalizeSegment(value);
+      next = segment ? translate(segment) : null;
+    } else if (lang) {
+      if (name === 'html' && key === 'lang') next = lang;
+      else if (name === 'html' && key === 'dir') next = RTL_LANGUAGES.has(lang) ? 'rtl' : value;
+      else if (name === 'a' && key === 'href') next = localizeHref(value, lang);
+      else if (name === 'link' && key === 'href' && attrs.rel?.toLowerCase() === 'canonical') {
+        next = localizeUrl(value, lang);
+      } else if (name === 'meta' && key === 'content' && metaKey === 'og:url') {
+        next = localizeUrl(value, lang);
+      }
+    }
+
+    return next == null || next === value ? full : `${space}${attr}${eq}"${escapeAttr(next)}"`;
+  });
+
+  if (lang && name === 'html') {
+    const extra = [
+      ...('lang' in attrs ? [] : [`lang="${lang}"`]),
+      ...('dir' in attrs || !RTL_LANGUAGES.has(lang) ? [] : ['dir="rtl"']),
+    ];
+    if (extra.length) out = out.replace(/^<html/i, `<html ${extra.join(' ')}`);
+  }
+  return out;
+}
+
+/**
+ * Walk `html`, handing every translatable string to `translate` and
+ * splicing back whatever it returns (`null` keeps the original). With
+ * `lang`, also localizes `<html lang>`, page links and canonical URLs.
+ */
+function rewriteHtml(html: string, translate: Translate, lang?: string): string {
+  const lower = html.toLowerCase();
+  const skip: string[] = [];
+  let out = '';
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    const textEnd = lt === -1 ? html.length : lt;
+    if (textEnd > i) {
+      const text = html.slice(i, textEnd);
+      out += skip.length ? text : rewriteText(text, translate);
+      i = textEnd;
+      continue;
+    }
+
+    if (lower.startsWith('<!--', i)) {
+      const close = html.indexOf('-->', i + 4);
+      const stop = close === -1 ? html.length : close + 3;
+      out += html.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const m = /^<(\/?)([a-zA-Z][\w:-]*)/.exec(html.slice(i, i + 64));
+    if (!m) {
+      // <!DOCTYPE>, <?xml …?> or a stray "<" in text
+      const close = /[!?]/.test(html[i + 1] ?? '') ? html.indexOf('>', i) : -1;
+      const stop = close === -1 ? i + 1 : close + 1;
+      out += html.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const end = tagEnd(html, i);
+    const tag = html.slice(i, end);
+    const name = m[2]!.toLowerCase();
+    i = end;
+
+    if (m[1]) {
+      if (skip[skip.length - 1] === name) skip.pop();
+      out += tag;
+      continue;
+    }
+    if (RAW_TEXT_ELEMENTS.has(name) && !tag.endsWith('/>')) {
+      const close = lower.indexOf(`</${name}`, i);
+      const stop = close === -1 ? html.length : close;
+      out += tag + html.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const opens = !VOID_ELEMENTS.has(name) && !tag.endsWith('/>');
+    if (skip.length) {
+      if (opens && skip[skip.length - 1] === name) skip.push(name);
+      out += tag;
+      continue;
+    }
+    if (
+      opens &&
+      (SKIP_ELEMENTS.has(name) ||
+        /\stranslate\s*=\s*["']?no\b/i.test(tag) ||
+        /\sclass\s*=\s*["'][^"']*\bnotranslate\b/i.test(tag))
+    ) {
+      skip.push(name);
+      out += tag;
+      continue;
+    }
+    out += rewriteTag(tag, name, translate, lang);
+  }
+
+  return out;
+}
+
+/** A page's translatable strings, normalised, in document order without duplicates. */
+export function extractSegments(html: string, brandTerms: string[] = []): string[] {
+  const segments = new Set<string>();
+  rewriteHtml(html, (segment) => {
+    if (isTranslatable(segment, brandTerms)) segments.add(segment);
+    return null;
+  });
+  return [...segments];
+}
+
+/**
+ * `html` with every string found in `translations` replaced and its links
+ * moved under `/{lang}/`. Strings without a translation stay as they are.
+ */
+export function localizeHtml(
+  html: string,
+  lang: string,
+  translations: Map<string, string>,
+): string {
+  return rewriteHtml(html, (segment) => translations.get(segment) ?? null, lang);
+}
+
+// ── Model calls ──────────────────────────────────────────────
+
+/** Split segments into prompt-sized batches. */
+function batchSegments(segments: string[]): string[][] {
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let chars = 0;
+  for (const segment of segments) {
+    if (batch.length && (batch.length >= BATCH_SEGMENTS || chars + segment.length > BATCH_CHARS)) {
+      batches.push(batch);
+      batch = [];
+      chars = 0;
+    }
+    batch.push(segment);
+    chars += segment.length;
+  }
+  if (batch.length) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Translate one batch. A reply with the wrong number of entries is retried
+ * as two halves while the budget lasts; a translation that loses a brand
+ * term falls back to the source text.
+ */
+async function translateBatch(
+  env: Env,
+  lang: SiteLanguage,
+  batch: string[],
+  brandTerms: string[],
+  budget: { calls: number },
+): Promise<Map<string, string>> {
+  if (budget.calls <= 0) return new Map();
+  budget.calls--;
+
+  const result = await runPrompt(env, 'translate_site_copy', 1, {
+    language: SITE_LANGUAGES[lang],
+    language_code: lang,
+    segments_json: JSON.stringify(batch),
+    brand_terms: brandTerms.join(', '),
+  });
+  const translations = validatePromptOutput(
+    'translate_site_copy',
+    extractJsonFromText(result.output),
+  ) as string[];
+
+  if (translations.length !== batch.length) {
+    if (batch.length === 1) {
+      throw new Error(`Expected 1 translation, got ${translations.length}`);
+    }
+    const half = Math.ceil(batch.length / 2);
+    const first = await translateBatch(env, lang, batch.slice(0, half), brandTerms, budget);
+    const second = await translateBatch(env, lang, batch.slice(half), brandTerms, budget);
+    return new Map([...first, ...second]);
+  }
+
+  const out = new Map<string, string>();
+  batch.forEach((source, index) => {
+    const text = normalizeSegment(translations[index]!);
+    const keepsBrand = brandTerms.every((term) => !source.includes(term) || text.includes(term));
+    out.set(source, text && keepsBrand ? text : source);
+  });
+  return out;
+}
+
+// ── Storage ──────────────────────────────────────────────────
+
+function memoryKey(slug: string, version: string, lang: string): string {
+  return `sites/${slug}/${version}/_meta/i18n/${lang}.json`;
+}
+
+async function readMemory(
+  bucket: R2Bucket,
+  slug: string,
+  version: string,
+  lang: string,
+): Promise<Map<string, string>> {
+  const object = await bucket.get(memoryKey(slug, version, lang));
+  if (!object) return new Map();
+  try {
+    const data = (await object.json()) as { translations?: Record<string, unknown> };
+    return new Map(
+      Object.entries(data.translations ?? {}).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string',
+      ),
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+/** HTML pages of a build version, relative to it, skipping translations and `_meta/`. */
+async function listPages(bucket: R2Bucket, slug: string, version: string): Promise<string[]> {
+  const prefix = `sites/${slug}/${version}/`;
+  const pages: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const o of page.objects) {
+      const path = o.key.slice(prefix.length);
+      const top = path.split('/')[0]!;
+      if (!path.endsWith('.html') || o.size > MAX_PAGE_BYTES || path.startsWith('_meta/')) continue;
+      if (path.includes('/') && top in SITE_LANGUAGES) continue;
+      pages.push(path);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return pages;
+}
+
+async function loadOverrides(
+  db: D1Database,
+  siteId: string,
+  lang: string,
+): Promise<Map<string, string>> {
+  const { data } = await dbQuery<{ source_text: string; text: string }>(
+    db,
+    'SELECT source_text, text FROM site_translation_overrides WHERE site_id = ? AND lang = ?',
+    [siteId, lang],
+  );
+  return new Map(data.map((row) => [row.source_text, row.text]));
+}
+
+/**
+ * Rewrite a version's `_meta/i18n.json` from the languages whose tree for
+ * it is complete, and drop the cached copy. Reading D1 rather than the old
+ * manifest keeps concurrent writers from losing each other's languages.
+ */
+async function publishLanguages(
+  env: Env,
+  site: { id: string; slug: string },
+  version: string,
+): Promise<void> {
+  const { data } = await dbQuery<{ lang: string }>(
+    env.DB,
+    'SELECT lang FROM site_languages WHERE site_id = ? AND build_version = ? ORDER BY lang',
+    [site.id, version],
+  );
+  await env.SITES_BUCKET.put(
+    `sites/${site.slug}/${version}/${I18N_MANIFEST_PATH}`,
+    JSON.stringify({ default: DEFAULT_SITE_LANGUAGE, languages: data.map((r) => r.lang) }),
+    { httpMetadata: { contentType: 'application/json' } },
+  );
+  await env.CACHE_KV.delete(siteLanguagesCacheKey(site.slug, version)).catch(() => {});
+}
+
+// ── Jobs ─────────────────────────────────────────────────────
+
+/** A due language with the site fields the pipeline needs. */
+interface TranslationJob extends SiteLanguageRow {
+  slug: string;
+  business_name: string | null;
+  current_build_version: string;
+}
+
+/**
+ * Translate the live version into `job.lang`, spending at most
+ * `budget.calls` model calls. Pages are only written once every string has
+ * a translation; until then the memory holds the progress.
+ */
+async function translateVersion(
+  env: Env,
+  job: TranslationJob,
+  budget: { calls: number },
+): Promise<{ done: boolean; segments: number; translated: number }> {
+  const version = job.current_build_version;
+  const prefix = `sites/${job.slug}/${version}/`;
+  const brandTerms = job.business_name ? [job.business_name] : [];
+
+  const pages = await listPages(env.SITES_BUCKET, job.slug, version);
+  if (pages.length === 0) throw new Error('The live version has no HTML pages');
+
+  const segments = new Set<string>();
+  for (const page of pages) {
+    const object = await env.SITES_BUCKET.get(prefix + page);
+    if (!object) continue;
+    for (const segment of extractSegments(await object.text(), brandTerms)) segments.add(segment);
+  }
+
+  const memory = new Map([
+    ...(job.build_version && job.build_version !== version
+      ? await readMemory(env.SITES_BUCKET, job.slug, job.build_version, job.lang)
+      : []),
+    ...(await readMemory(env.SITES_BUCKET, job.slug, version, job.lang)),
+  ]);
+
+  const saveMemory = async () => {
+    const kept = new Map(
+      [...segments].filter((s) => memory.has(s)).map((s) => [s, memory.get(s)!]),
+    );
+    await env.SITES_BUCKET.put(
+      memoryKey(job.slug, version, job.lang),
+      JSON.stringify({ lang: job.lang, translations: Object.fromEntries(kept) }),
+      { httpMetadata: { contentType: 'application/json' } },
+    );
+    return kept;
+  };
+
+  const missing = [...segments].filter((segment) => !memory.has(segment));
+  try {
+    for (const batch of batchSegments(missing)) {
+      if (budget.calls <= 0) break;
+      for (const [source, text] of await translateBatch(env, job.lang, batch, brandTerms, budget)) {
+        memory.set(source, text);
+      }
+    }
+  } catch (err) {
+    // Keep the batches already paid for, so the retry only sends the rest
+    await saveMemory().catch(() => {});
+    throw err;
+  }
+
+  const kept = await saveMemory();
+  if (kept.size < segments.size) {
+    return { done: false, segments: segments.size, translated: kept.size };
+  }
+
+  const dictionary = new Map([...kept, ...(await loadOverrides(env.DB, job.site_id, job.lang))]);
+  for (const page of pages) {
+    const object = await env.SITES_BUCKET.get(prefix + page);
+    if (!object) continue;
+    await env.SITES_BUCKET.put(
+      `${prefix}${job.lang}/${page}`,
+      localizeHtml(await object.text(), job.lang, dictionary),
+      { httpMetadata: { contentType: 'text/html; charset=utf-8' } },
+    );
+  }
+  return { done: true, segments: segments.size, translated: kept.size };
+}
+
+/**
+ * Cron entry point: translate languages that are pending or behind the live
+ * version, and failed ones whose retry is due, oldest first, within
+ * {@link CALLS_PER_RUN} model calls. Rows left `running` by an interrupted
+ * run are queued again.
+ *
+ * A row re-queued while it runs (an override changed) stays `pending`, so
+ * the next run picks the change up.
+ */
+export async function runDueTranslations(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{ translated: number; failed: number; deferred: number }> {
+  const result = { translated: 0, failed: 0, deferred: 0 };
+
+  await dbExecute(
+    env.DB,
+    `UPDATE site_languages SET status = 'pending', updated_at = ?
+     WHERE status = 'running' AND updated_at < ?`,
+    [now.toISOString(), new Date(now.getTime() - STUCK_AFTER_MS).toISOString()],
+  );
+
+  const { data: due } = await dbQuery<TranslationJob>(
+    env.DB,
+    `SELECT sl.*, s.slug, s.business_name, s.current_build_version
+     FROM site_languages sl JOIN sites s ON s.id = sl.site_id
+     WHERE s.deleted_at IS NULL AND s.current_build_version IS NOT NULL
+       AND (sl.status = 'pending'
+         OR (sl.status IN ('ready', 'failed')
+           AND (sl.source_version IS NULL OR sl.source_version != s.current_build_version))
+         OR (sl.status = 'failed' AND sl.retry_at IS NOT NULL AND sl.retry_at <= ?))
+     ORDER BY sl.updated_at ASC LIMIT ?`,
+    [now.toISOString(), RUN_BATCH],
+  );
+
+  const budget = { calls: CALLS_PER_RUN };
+  for (const job of due) {
+    if (budget.calls <= 0) {
+      result.deferred++;
+      continue;
+    }
+
+    // Claim the row so an overlapping cron run skips it
+    const claim = await dbExecute(
+      env.DB,
+      `UPDATE site_languages SET status = 'running', source_version = ?, updated_at = ?
+       WHERE id = ? AND status = ?`,
+      [job.current_build_version, now.toISOString(), job.id, job.status],
+    );
+    if (claim.changes === 0) continue;
+
+    try {
+      const outcome = await translateVersion(env, job, budget);
+      const finished = new Date().toISOString();
+      if (!outcome.done) {
+        await dbExecute(
+          env.DB,
+          `UPDATE site_languages
+           SET status = CASE status WHEN 'running' THEN 'pending' ELSE status END,
+               segments = ?, translated = ?, updated_at = ?
+           WHERE id = ?`,
+          [outcome.segments, outcome.translated, finished, job.id],
+        );
+        result.deferred++;
+        continue;
+      }
+
+      await dbExecute(
+        env.DB,
+        `UPDATE site_languages
+         SET status = CASE status WHEN 'running' THEN 'ready' ELSE status END,
+             build_version = ?, segments = ?, translated = ?, error = NULL,
+             failures = 0, retry_at = NULL, translated_at = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          job.current_build_version,
+          outcome.segments,
+          outcome.translated,
+          finished,
+          finished,
+          job.id,
+        ],
+      );
+      await publishLanguages(env, { id: job.site_id, slug: job.slug }, job.current_build_version);
+      result.translated++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const failed = new Date();
+      // A new live version starts the count again
+      const failures = (job.source_version === job.current_build_version ? job.failures : 0) + 1;
+      const retryAt =
+        failures < MAX_FAILURES
+          ? new Date(failed.getTime() + RETRY_BASE_MS * 2 ** (failures - 1)).toISOString()
+          : null;
+      await dbExecute(
+        env.DB,
+        `UPDATE site_languages
+         SET status = CASE status WHEN 'running' THEN 'failed' ELSE status END,
+             error = ?, failures = ?, retry_at = ?, updated_at = ?
+         WHERE id = ?`,
+        [message.slice(0, 500), failures, retryAt, failed.toISOString(), job.id],
+      );
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'site_translation',
+          message: 'Translation failed',
+          site_id: job.site_id,
+          lang: job.lang,
+          version: job.current_build_version,
+          error: message,
+          retry_at: retryAt,
+        }),
+      );
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// ── Owner API ────────────────────────────────────────────────
+
+/** A site's languages, in the order they were added. */
+export async function listSiteLanguages(
+  db: D1Database,
+  siteId: string,
+): Promise<SiteLanguageRow[]> {
+  const { data } = await dbQuery<SiteLanguageRow>(
+    db,
+    'SELECT * FROM site_languages WHERE site_id = ? ORDER BY created_at ASC',
+    [siteId],
+  );
+  return data;
+}
+
+async function requireLanguage(
+  db: D1Database,
+  siteId: string,
+  lang: string,
+): Promise<SiteLanguageRow> {
+  const row = await dbQueryOne<SiteLanguageRow>(
+    db,
+    'SELECT * FROM site_languages WHERE site_id = ? AND lang = ?',
+    [siteId, lang],
+  );
+  if (!row) throw notFound('Language not found');
+  return row;
+}
+
+/** Queue a language for the next cron run. */
+async function requeue(db: D1Database, id: string, now: Date): Promise<void> {
+  await dbExecute(
+    db,
+    `UPDATE site_languages SET status = 'pending', error = NULL, failures = 0, retry_at = NULL,
+       updated_at = ? WHERE id = ?`,
+    [now.toISOString(), id],
+  );
+}
+
+/**
+ * Add a language, or queue an existing one to be translated again.
+ *
+ * @throws {AppError} 400 when the site already has
+ *   {@link MAX_LANGUAGES_PER_SITE} languages.
+ */
+export async function addSiteLanguage(
+  db: D1Database,
+  site: { id: string; org_id: string },
+  lang: SiteLanguage,
+  userId: string | null,
+  now: Date = new Date(),
+): Promise<{ language: SiteLanguageRow; created: boolean }> {
+  const existing = await dbQueryOne<SiteLanguageRow>(
+    db,
+    'SELECT * FROM site_languages WHERE site_id = ? AND lang = ?',
+    [site.id, lang],
+  );
+  if (existing) {
+    await requeue(db, existing.id, now);
+    return {
+      language: {
+        ...existing,
+        status: 'pending',
+        error: null,
+        failures: 0,
+        retry_at: null,
+        updated_at: now.toISOString(),
+      },
+      created: false,
+    };
+  }
+
+  const count = await dbQueryOne<{ cnt: number }>(
+    db,
+    'SELECT COUNT(*) AS cnt FROM site_languages WHERE site_id = ?',
+    [site.id],
+  );
+  if ((count?.cnt ?? 0) >= MAX_LANGUAGES_PER_SITE) {
+    throw badRequest(`A site can have at most ${MAX_LANGUAGES_PER_SITE} languages`);
+  }
+
+  const row = {
+    id: crypto.randomUUID(),
+    site_id: site.id,
+    org_id: site.org_id,
+    lang,
+    status: 'pending' as const,
+    created_by: userId,
+  };
+  const { error } = await dbInsert(db, 'site_languages', row);
+  if (error) throw new Error(`Failed to add language: ${error}`);
+  const created = now.toISOString();
+  return {
+    language: {
+      ...row,
+      source_version: null,
+      build_version: null,
+      segments: 0,
+      translated: 0,
+      error: null,
+      failures: 0,
+      retry_at: null,
+      translated_at: null,
+      created_at: created,
+      updated_at: created,
+    },
+    created: true,
+  };
+}
+
+/**
+ * Remove a language and its overrides. The live version stops serving it
+ * at once; older versions keep their trees until the storage GC prunes them.
+ */
+export async function removeSiteLanguage(
+  env: Env,
+  site: { id: string; slug: string },
+  lang: string,
+): Promise<SiteLanguageRow> {
+  const row = await requireLanguage(env.DB, site.id, lang);
+  await dbExecute(env.DB, 'DELETE FROM site_languages WHERE id = ?', [row.id]);
+  await dbExecute(env.DB, 'DELETE FROM site_translation_overrides WHERE site_id = ? AND lang = ?', [
+    site.id,
+    lang,
+  ]);
+
+  const live = await dbQueryOne<{ current_build_version: string | null }>(
+    env.DB,
+    'SELECT current_build_version FROM sites WHERE id = ?',
+    [site.id],
+  );
+  const version = live?.current_build_version;
+  if (version && row.build_version === version) {
+    await publishLanguages(env, site, version);
+    const prefix = `sites/${site.slug}/${version}/${lang}/`;
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await env.SITES_BUCKET.list({ prefix, cursor });
+      keys.push(...page.objects.map((o) => o.key));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+      await env.SITES_BUCKET.delete(keys.slice(i, i + DELETE_BATCH));
+    }
+  }
+  return row;
+}
+
+/**
+ * Every source string of a language with its machine translation and
+ * override, from the last completed translation plus overrides for strings
+ * it does not have (yet).
+ */
+export async function listTranslationStrings(
+  env: Env,
+  site: { id: string; slug: string },
+  lang: string,
+): Promise<TranslationString[]> {
+  const row = await requireLanguage(env.DB, site.id, lang);
+  const memory = row.build_version
+    ? await readMemory(env.SITES_BUCKET, site.slug, row.build_version, lang)
+    : new Map<string, string>();
+  const overrides = await loadOverrides(env.DB, site.id, lang);
+
+  const strings: TranslationString[] = [...memory].map(([source, translation]) => ({
+    source,
+    translation,
+    override: overrides.get(source) ?? null,
+  }));
+  for (const [source, override] of overrides) {
+    if (!memory.has(source)) strings.push({ source, translation: null, override });
+  }
+  return strings;
+}
+
+/** Set the owner's text for one source string and queue a re-render. */
+export async function setTranslationOverride(
+  db: D1Database,
+  siteId: string,
+  lang: string,
+  input: { source: string; text: string },
+  userId: string | null,
+  now: Date = new Date(),
+): Promise<{ source: string; text: string; previous: string | null }> {
+  const row = await requireLanguage(db, siteId, lang);
+  const source = normalizeSegment(input.source);
+  const text = normalizeSegment(input.text);
+  const previous = await dbQueryOne<{ text: string }>(
+    db,
+    'SELECT text FROM site_translation_overrides WHERE site_id = ? AND lang = ? AND source_text = ?',
+    [siteId, lang, source],
+  );
+
+  const { error } = await dbExecute(
+    db,
+    `INSERT INTO site_translation_overrides
+       (id, site_id, lang, source_text, text, created_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (site_id, lang, source_text)
+     DO UPDATE SET text = excluded.text, created_by = excluded.created_by, updated_at = excluded.updated_at`,
+    [crypto.randomUUID(), siteId, lang, source, text, userId, now.toISOString(), now.toISOString()],
+  );
+  if (error) throw new Error(`Failed to save override: ${error}`);
+
+  await requeue(db, row.id, now);
+  return { source, text, previous: previous?.text ?? null };
+}
+
+/** Drop an override, going back to the machine translation. */
+export async function deleteTranslationOverride(
+  db: D1Database,
+  siteId: string,
+  lang: string,
+  sourceText: string,
+  now: Date = new Date(),
+): Promise<{ source: string; text: string }> {
+  const row = await requireLanguage(db, siteId, lang);
+  const source = normalizeSegment(sourceText);
+  const existing = await dbQueryOne<{ text: string }>(
+    db,
+    'SELECT text FROM site_translation_overrides WHERE site_id = ? AND lang = ? AND source_text = ?',
+    [siteId, lang, source],
+  );
+  if (!existing) throw notFound('Override not found');
+
+  await dbExecute(
+    db,
+    'DELETE FROM site_translation_overrides WHERE site_id = ? AND lang = ? AND source_text = ?',
+    [siteId, lang, source],
+  );
+  await requeue(db, row.id, now);
+  return { source, text: existing.text };
+}
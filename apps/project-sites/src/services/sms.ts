@@ -0,0 +1,90 @@
+/**
+ * @module services/sms
+ * @description Outbound SMS for phone sign-in codes.
+ *
+ * Senders are pluggable behind {@link SmsSender}; {@link getSmsSender} picks
+ * one from the environment:
+ *
+ * | Sender    | Used when                                                          |
+ * | --------- | ------------------------------------------------------------------ |
+ * | `twilio`  | `TWILIO_ACCOUNT_SID`, `TWILIO_AUTH_TOKEN` and `TWILIO_PHONE_NUMBER` set |
+ * | `console` | No Twilio credentials outside production — logs the message        |
+ *
+ * Production without credentials throws instead of falling back, so a
+ * misconfigured deploy never writes sign-in codes to the logs.
+ */
+
+import { badRequest } from '@project-sites/shared';
+
+import type { Env } from '../types/env.js';
+
+/** Anything that can deliver a text message to an E.164 number. */
+export interface SmsSender {
+  readonly name: string;
+  send(to: string, body: string): Promise<void>;
+}
+
+/** Twilio Programmable Messaging (REST, form-encoded). */
+export function createTwilioSender(accountSid: string, authToken: string, from: string): SmsSender {
+  return {
+    name: 'twilio',
+    async send(to, body) {
+      const res = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            To: to,
+            // `MG…` is a messaging service, anything else a sender number.
+            [from.startsWith('MG') ? 'MessagingServiceSid' : 'From']: from,
+            Body: body,
+          }).toString(),
+        },
+      );
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`Twilio error ${res.status}: ${text}`);
+      }
+    },
+  };
+}
+
+/** Local development: log the message instead of sending it. */
+export const consoleSmsSender: SmsSender = {
+  name: 'console',
+  async send(to, body) {
+    console.warn(
+      JSON.stringify({ level: 'info', service: 'sms', message: 'SMS (not sent)', to, body }),
+    );
+  },
+};
+
+/**
+ * Pick the sender for this environment.
+ *
+ * @throws {AppError} `BAD_REQUEST` — production without Twilio credentials.
+ */
+export function getSmsSender(env: Env): SmsSender {
+  if (env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_PHONE_NUMBER) {
+    return createTwilioSender(
+      env.TWILIO_ACCOUNT_SID,
+      env.TWILIO_AUTH_TOKEN,
+      env.TWILIO_PHONE_NUMBER,
+    );
+  }
+  if (env.ENVIRONMENT !== 'production') return consoleSmsSender;
+
+  console.warn(
+    JSON.stringify({
+      level: 'warn',
+      service: 'sms',
+      message:
+        'No SMS provider configured (TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN/TWILIO_PHONE_NUMBER)',
+    }),
+  );
+  throw badRequest('Text message sign-in is not configured. Please use email instead.');
+}
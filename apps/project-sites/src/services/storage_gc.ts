@@ -0,0 +1,703 @@
+/**
+ * @module storage_gc
+ * @description Retention and garbage collection for everything a site keeps
+ * under `sites/{slug}/` in R2.
+ *
+ * Every publish writes a fresh `sites/{slug}/{version}/` tree and a git
+ * commit; nothing else ever removes them. Per site, and per plan
+ * ({@link RETENTION}), this module decides what is still needed:
+ *
+ * | Prefix                  | Kept                                                                              |
+ * | ----------------------- | --------------------------------------------------------------------------------- |
+ * | `{version}/`            | The live version, named snapshots, pending rollbacks, the newest `BUILD_VERSIONS` |
+ * | `git/commits/{id}.json` | The newest `COMMITS` along the parent chain of every branch, scheduled commits    |
+ * | `git/objects/{sha}`     | Blobs in the tree of a kept commit                                                |
+ * | `git/trees/{id}/`       | Legacy trees of kept commits                                                      |
+ * | `assets/{path}`         | Paths a kept version, kept commit or `_build-context.json` mentions               |
+ *
+ * The live version is both `current_build_version` and the one in
+ * `_manifest.json`, in case they disagree mid-publish.
+ *
+ * Anything uploaded in the last `RETENTION.GRACE_DAYS` is kept whatever the
+ * rules say, so a publish racing the GC never loses files. Top-level entries
+ * that are not build versions (`_manifest.json`, `research.json`, ...) and
+ * `_`-prefixed assets are never touched. Snapshots created automatically
+ * (`site_snapshots.auto = 1`) do not pin their version; they are
+ * soft-deleted along with it.
+ *
+ * Freed bytes come off the org's storage quota counter (`storage_usage.ts`).
+ *
+ * Sites whose history predates content-addressed blobs keep a full copy of
+ * every commit under `git/trees/`; {@link migrateLegacyGit} (run in batches
+ * from `POST /api/admin/storage/migrate-git`) converts them.
+ *
+ * Deletion is two-phase. {@link runStorageGc} (daily, from the cron) plans
+ * every site, deletes only objects that were also planned on the previous
+ * run, then stores the fresh plan as pending in KV, one entry per org.
+ * Blobs are rechecked against commits made since the run started just
+ * before they go, as a new commit may reuse one.
+ * Everything is therefore reported by {@link buildStorageGcReport} — the dry
+ * run behind the storage routes — at least a day before it goes.
+ *
+ * @packageDocumentation
+ */
+
+import { RETENTION } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQuery } from './db.js';
+import { getCommit, listBranches, migrateLegacySnapshots, type CommitMetadata } from './git.js';
+import { recordStorageDelta } from './storage_usage.js';
+
+const DAY_MS = 86_400_000;
+
+/** KV key holding the last day the GC ran. */
+export const STORAGE_GC_MARKER_KEY = 'storage_gc:last_day';
+
+/** KV key holding the last org collected by an unfinished pass. */
+export const STORAGE_GC_CURSOR_KEY = 'storage_gc:cursor';
+
+/**
+ * Prefix of the KV keys holding each org's plan from the last run,
+ * `storage_gc:pending:{orgId}`; see {@link PendingGc}.
+ */
+export const STORAGE_GC_PENDING_KEY = 'storage_gc:pending';
+
+/** Orgs collected per cron run. */
+const GC_BATCH_ORGS = 20;
+
+/**
+ * Pending plans outlive a few missed days, then lapse so orgs that no longer
+ * have sites do not keep one forever.
+ */
+const PENDING_TTL_SECONDS = 7 * 86_400;
+
+/**
+ * How long a plan must have been pending before its objects may be deleted.
+ * Runs are daily, but two runs either side of midnight are minutes apart.
+ */
+const MIN_PENDING_AGE_MS = 20 * 3_600_000;
+
+/**
+ * Commits uploaded this long before the run started are rechecked before
+ * blobs are deleted, allowing for skew between R2's clock and ours.
+ */
+const RECHECK_SKEW_MS = 5 * 60_000;
+
+/** R2 accepts at most this many keys per `delete()`. */
+const DELETE_BATCH = 1000;
+
+/** Sites converted per {@link migrateLegacyGit} call by default. */
+export const GIT_MIGRATION_BATCH = 25;
+
+/** Files scanned for asset references. */
+const TEXT_FILE = /\.(html?|css|m?js|json|svg|xml|txt|md|webmanifest)$/i;
+
+/** `v{epoch_ms}` (editor publishes) or an ISO timestamp with `:`/`.` → `-` (builds). */
+const BUILD_VERSION = /^(v\d+|\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)$/;
+
+/** A site as the GC sees it. */
+export interface GcSite {
+  id: string;
+  org_id: string;
+  slug: string;
+  plan: 'free' | 'paid';
+  current_build_version: string | null;
+}
+
+/** What would be freed for one site. */
+export interface SiteGcSummary {
+  site_id: string;
+  org_id: string;
+  slug: string;
+  plan: 'free' | 'paid';
+  /** Build versions that would be deleted. */
+  versions: string[];
+  /** Git commits past the retained history. */
+  commits: number;
+  /** Content blobs no retained commit uses. */
+  blobs: number;
+  /** Legacy `trees/{id}/` directories. */
+  trees: number;
+  /** Asset paths (relative to `assets/`) nothing references. */
+  assets: string[];
+  /** R2 objects in all of the above. */
+  objects: number;
+  bytes: number;
+}
+
+/** Rollup of {@link SiteGcSummary} per org. */
+export interface OrgGcSummary {
+  org_id: string;
+  sites: number;
+  objects: number;
+  bytes: number;
+}
+
+/** Result of {@link buildStorageGcReport}. */
+export interface StorageGcReport {
+  generated_at: string;
+  /** Sites with something to free, largest first. */
+  sites: SiteGcSummary[];
+  /** Largest first. */
+  orgs: OrgGcSummary[];
+  objects: number;
+  bytes: number;
+  /** Sites whose plan failed; they are left alone. */
+  failed: number;
+}
+
+/** One site's plan: the summary plus the exact objects behind it. */
+export interface SiteGcPlan {
+  summary: SiteGcSummary;
+  objects: { key: string; size: number }[];
+}
+
+/** An org's plan stored between runs under {@link STORAGE_GC_PENDING_KEY}. */
+export interface PendingGc {
+  generated_at: string;
+  sites: Record<string, { versions: string[]; keys: string[] }>;
+}
+
+/** Result of {@link migrateLegacyGit}. */
+export interface GitMigrationBatch {
+  sites: number;
+  /** Commits rewritten with a tree manifest. */
+  migrated: number;
+  /** Commits that already had one. */
+  skipped: number;
+  /** Sites whose migration threw; re-running retries them. */
+  failed: string[];
+  /** Pass back to continue; `null` once every site has been visited. */
+  next_cursor: string | null;
+}
+
+interface ListedObject {
+  key: string;
+  size: number;
+  uploaded: number;
+}
+
+async function listObjects(bucket: R2Bucket, prefix: string): Promise<ListedObject[]> {
+  const objects: ListedObject[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const o of page.objects) {
+      objects.push({ key: o.key, size: o.size, uploaded: o.uploaded.getTime() });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return objects;
+}
+
+/** Whether a top-level directory under `sites/{slug}/` is a build version. */
+export function isBuildVersion(name: string): boolean {
+  return BUILD_VERSION.test(name);
+}
+
+/**
+ * Commits to keep: the newest `depth` along each branch's parent chain.
+ * Branches share history, so a commit is read once however many reach it.
+ */
+async function retainedCommits(
+  bucket: R2Bucket,
+  slug: string,
+  depth: number,
+): Promise<Map<string, CommitMetadata>> {
+  const kept = new Map<string, CommitMetadata>();
+  for (const branch of await listBranches(bucket, slug)) {
+    let id = branch.commitId;
+    for (let remaining = depth; id && remaining > 0; remaining--) {
+      let commit = kept.get(id) ?? null;
+      if (!commit) {
+        commit = await getCommit(bucket, slug, id);
+        if (!commit) break;
+        kept.set(id, commit);
+      }
+      id = commit.parentId;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Blobs used by commits uploaded since `since`. `writeBlob` reuses any blob
+ * that exists, so a commit made after a site was planned may point at a
+ * blob the plan saw as unreachable.
+ */
+async function blobsCommittedSince(
+  bucket: R2Bucket,
+  slug: string,
+  since: number,
+): Promise<Set<string>> {
+  const prefix = `sites/${slug}/git/commits/`;
+  const used = new Set<string>();
+  for (const o of await listObjects(bucket, prefix)) {
+    if (o.uploaded < since) continue;
+    const commit = await getCommit(bucket, slug, o.key.slice(prefix.length).replace(/\.json$/, ''));
+    for (const hash of Object.values(commit?.tree ?? {})) used.add(hash);
+  }
+  return used;
+}
+
+/**
+ * Work out what can be deleted for one site. Reads only; nothing is
+ * changed.
+ *
+ * @throws If the site's named snapshots cannot be loaded — without them
+ *   every snapshotted version would look unreferenced.
+ */
+export async function planSiteGc(
+  env: Env,
+  site: GcSite,
+  now: Date = new Date(),
+): Promise<SiteGcPlan> {
+  const bucket = env.SITES_BUCKET;
+  const root = `sites/${site.slug}/`;
+  const retention = RETENTION[site.plan] ?? RETENTION.free;
+  const graceStart = now.getTime() - RETENTION.GRACE_DAYS * DAY_MS;
+  const inGrace = (o: ListedObject) => o.uploaded >= graceStart;
+
+  const versions = new Map<string, ListedObject[]>();
+  const commitObjects = new Map<string, ListedObject>();
+  const blobs: ListedObject[] = [];
+  const trees = new Map<string, ListedObject[]>();
+  const assets: ListedObject[] = [];
+
+  for (const o of await listObjects(bucket, root)) {
+    const rel = o.key.slice(root.length);
+    const top = rel.split('/')[0]!;
+    if (rel.startsWith('git/commits/')) {
+      commitObjects.set(rel.slice('git/commits/'.length).replace(/\.json$/, ''), o);
+    } else if (rel.startsWith('git/objects/')) {
+      blobs.push(o);
+    } else if (rel.startsWith('git/trees/')) {
+      const id = rel.split('/')[2]!;
+      trees.set(id, [...(trees.get(id) ?? []), o]);
+    } else if (rel.startsWith('assets/')) {
+      assets.push(o);
+    } else if (rel.includes('/') && isBuildVersion(top)) {
+      versions.set(top, [...(versions.get(top) ?? []), o]);
+    }
+  }
+
+  // ── Build versions ──
+  const snapshots = await dbQuery<{ build_version: string }>(
+    env.DB,
+    `SELECT DISTINCT build_version FROM site_snapshots
+     WHERE site_id = ? AND auto = 0 AND deleted_at IS NULL`,
+    [site.id],
+  );
+  if (snapshots.error) throw new Error(`Failed to load snapshots: ${snapshots.error}`);
+
+  const pinned = new Set(snapshots.data.map((s) => s.build_version));
+  const schedules = await dbQuery<{ target_type: 'version' | 'commit'; target: string }>(
+    env.DB,
+    `SELECT target_type, target FROM site_version_schedules
+     WHERE site_id = ? AND target_type IN ('version', 'commit') AND status = 'pending'`,
+    [site.id],
+  );
+  if (schedules.error) throw new Error(`Failed to load schedules: ${schedules.error}`);
+  const scheduledCommits = new Set<string>();
+  for (const r of schedules.data) {
+    if (r.target_type === 'commit') scheduledCommits.add(r.target);
+    else pinned.add(r.target);
+  }
+  if (site.current_build_version) pinned.add(site.current_build_version);
+  const manifest = await bucket.get(`${root}_manifest.json`).catch(() => null);
+  if (manifest) {
+    const data = await manifest
+      .json<{ current_version?: string }>()
+      .catch(() => ({}) as { current_version?: string });
+    if (data.current_version) pinned.add(data.current_version);
+  }
+
+  const newestFirst = [...versions.entries()]
+    .map(([name, objects]) => ({
+      name,
+      objects,
+      uploaded: Math.max(...objects.map((o) => o.uploaded)),
+    }))
+    .sort((a, b) => b.uploaded - a.uploaded);
+  const keptVersions = newestFirst.filter(
+    (v, i) => i < retention.BUILD_VERSIONS || pinned.has(v.name) || v.uploaded >= graceStart,
+  );
+  const prunedVersions = newestFirst.filter((v) => !keptVersions.includes(v));
+
+  // ── Git ──
+  const keptCommits = await retainedCommits(bucket, site.slug, retention.COMMITS);
+  for (const [id, o] of commitObjects) {
+    if (keptCommits.has(id) || (!inGrace(o) && !scheduledCommits.has(id))) continue;
+    const commit = await getCommit(bucket, site.slug, id);
+    if (commit) keptCommits.set(id, commit);
+  }
+  const prunedCommits = [...commitObjects].filter(([id]) => !keptCommits.has(id));
+  const usedBlobs = new Set<string>();
+  for (const commit of keptCommits.values()) {
+    for (const hash of Object.values(commit.tree ?? {})) usedBlobs.add(hash);
+  }
+  const prunedBlobs = blobs.filter(
+    (o) => !inGrace(o) && !usedBlobs.has(o.key.slice(`${root}git/objects/`.length)),
+  );
+  const prunedTrees = [...trees].filter(
+    ([id, objects]) => !keptCommits.has(id) && !objects.some(inGrace),
+  );
+
+  // ── Assets ──
+  // Anything a kept page could link to: kept versions, kept commits (a
+  // revert republishes them) and the build context the next build reads.
+  const textKeys = new Set<string>([`${root}assets/_build-context.json`]);
+  for (const v of keptVersions) {
+    for (const o of v.objects) if (TEXT_FILE.test(o.key)) textKeys.add(o.key);
+  }
+  for (const [id, commit] of keptCommits) {
+    if (commit.tree) {
+      for (const [name, hash] of Object.entries(commit.tree)) {
+        if (TEXT_FILE.test(name)) textKeys.add(`${root}git/objects/${hash}`);
+      }
+    } else {
+      for (const o of trees.get(id) ?? []) if (TEXT_FILE.test(o.key)) textKeys.add(o.key);
+    }
+  }
+  const candidates = assets.filter((o) => {
+    const rel = o.key.slice(`${root}assets/`.length);
+    return !inGrace(o) && !rel.split('/').some((part) => part.startsWith('_'));
+  });
+  let orphans: ListedObject[] = [];
+  if (candidates.length > 0) {
+    const texts: string[] = [];
+    for (const key of textKeys) {
+      const obj = await bucket.get(key);
+      if (obj) texts.push(await obj.text());
+    }
+    const corpus = texts.join('\n');
+    orphans = candidates.filter((o) => {
+      const rel = o.key.slice(`${root}assets/`.length);
+      return !corpus.includes(`assets/${rel}`) && !corpus.includes(`assets/${encodeURI(rel)}`);
+    });
+  }
+
+  const objects = [
+    ...prunedVersions.flatMap((v) => v.objects),
+    ...prunedCommits.map(([, o]) => o),
+    ...prunedBlobs,
+    ...prunedTrees.flatMap(([, o]) => o),
+    ...orphans,
+  ].map((o) => ({ key: o.key, size: o.size }));
+
+  return {
+    summary: {
+      site_id: site.id,
+      org_id: site.org_id,
+      slug: site.slug,
+      plan: site.plan,
+      versions: prunedVersions.map((v) => v.name),
+      commits: prunedCommits.length,
+      blobs: prunedBlobs.length,
+      trees: prunedTrees.length,
+      assets: orphans.map((o) => o.key.slice(`${root}assets/`.length)),
+      objects: objects.length,
+      bytes: objects.reduce((sum, o) => sum + o.size, 0),
+    },
+    objects,
+  };
+}
+
+/** Plan every live site (or only `orgId`'s), skipping ones that fail. */
+async function planAll(
+  env: Env,
+  now: Date,
+  orgId?: string,
+): Promise<{ plans: SiteGcPlan[]; failed: number }> {
+  const sites = await dbQuery<GcSite>(
+    env.DB,
+    `SELECT id, org_id, slug, plan, current_build_version FROM sites
+     WHERE deleted_at IS NULL AND slug IS NOT NULL${orgId ? ' AND org_id = ?' : ''}`,
+    orgId ? [orgId] : [],
+  );
+  if (sites.error) throw new Error(`Failed to load sites: ${sites.error}`);
+
+  const plans: SiteGcPlan[] = [];
+  let failed = 0;
+  for (const site of sites.data) {
+    try {
+      plans.push(await planSiteGc(env, site, now));
+    } catch (err) {
+      failed++;
+      console.warn(
+        JSON.stringify({
+          level: 'warn',
+          service: 'storage_gc',
+          message: 'Site GC plan failed',
+          siteId: site.id,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+  return { plans, failed };
+}
+
+function summarize(plans: SiteGcPlan[], failed: number, now: Date): StorageGcReport {
+  const sites = plans
+    .map((p) => p.summary)
+    .filter((s) => s.objects > 0)
+    .sort((a, b) => b.bytes - a.bytes);
+  const orgs = new Map<string, OrgGcSummary>();
+  for (const s of sites) {
+    const org = orgs.get(s.org_id) ?? { org_id: s.org_id, sites: 0, objects: 0, bytes: 0 };
+    org.sites++;
+    org.objects += s.objects;
+    org.bytes += s.bytes;
+    orgs.set(s.org_id, org);
+  }
+  return {
+    generated_at: now.toISOString(),
+    sites,
+    orgs: [...orgs.values()].sort((a, b) => b.bytes - a.bytes),
+    objects: sites.reduce((sum, s) => sum + s.objects, 0),
+    bytes: sites.reduce((sum, s) => sum + s.bytes, 0),
+    failed,
+  };
+}
+
+/**
+ * Dry run: what the GC would free right now, per site and per org.
+ * Nothing is deleted.
+ *
+ * @example
+ * ```ts
+ * const report = await buildStorageGcReport(env, { orgId });
+ * console.warn(`${report.bytes} bytes reclaimable across ${report.sites.length} sites`);
+ * ```
+ */
+export async function buildStorageGcReport(
+  env: Env,
+  opts: { orgId?: string; now?: Date } = {},
+): Promise<StorageGcReport> {
+  const now = opts.now ?? new Date();
+  const { plans, failed } = await planAll(env, now, opts.orgId);
+  return summarize(plans, failed, now);
+}
+
+function pendingKey(orgId: string): string {
+  return `${STORAGE_GC_PENDING_KEY}:${orgId}`;
+}
+
+/**
+ * The plan the next run will delete from: `orgId`'s, or every org's merged
+ * under the oldest `generated_at`. `null` before the first run.
+ */
+export async function loadPendingGc(env: Env, orgId?: string): Promise<PendingGc | null> {
+  if (orgId) {
+    return env.CACHE_KV.get<PendingGc>(pendingKey(orgId), 'json').catch(() => null);
+  }
+
+  let merged: PendingGc | null = null;
+  let cursor: string | undefined;
+  do {
+    const page = await env.CACHE_KV.list({ prefix: `${STORAGE_GC_PENDING_KEY}:`, cursor });
+    for (const { name } of page.keys) {
+      const plan = await env.CACHE_KV.get<PendingGc>(name, 'json').catch(() => null);
+      if (!plan) continue;
+      merged ??= { generated_at: plan.generated_at, sites: {} };
+      if (plan.generated_at < merged.generated_at) merged.generated_at = plan.generated_at;
+      Object.assign(merged.sites, plan.sites);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return merged;
+}
+
+/**
+ * Cron entry point, at most once per UTC day. Deletes what both this run
+ * and a previous one at least {@link MIN_PENDING_AGE_MS} older planned,
+ * soft-deletes auto snapshots of the deleted versions, then stores what is
+ * left of this run's plan for the next one.
+ *
+ * Each call takes the next {@link GC_BATCH_ORGS} orgs by id after the KV
+ * cursor, so a pass spans several cron runs. The day's KV marker is only set
+ * once a batch comes up short; until then every run resumes where the last
+ * stopped.
+ *
+ * @returns Counts for the cron log, with `complete` when the pass finished,
+ *   or `null` when today is already done.
+ */
+export async function runStorageGc(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{
+  orgs: number;
+  sites: number;
+  deleted: number;
+  bytes: number;
+  pending: number;
+  failed: number;
+  complete: boolean;
+} | null> {
+  const today = now.toISOString().slice(0, 10);
+  const last = await env.CACHE_KV.get(STORAGE_GC_MARKER_KEY);
+  if (last && last >= today) return null;
+  const cursor = (await env.CACHE_KV.get(STORAGE_GC_CURSOR_KEY)) ?? '';
+
+  const batch = await dbQuery<{ org_id: string }>(
+    env.DB,
+    `SELECT DISTINCT org_id FROM sites
+     WHERE deleted_at IS NULL AND slug IS NOT NULL AND org_id > ?
+     ORDER BY org_id LIMIT ?`,
+    [cursor, GC_BATCH_ORGS],
+  );
+  if (batch.error) throw new Error(`Failed to load orgs: ${batch.error}`);
+  const orgIds = batch.data.map((r) => r.org_id);
+  const result = {
+    orgs: orgIds.length,
+    sites: 0,
+    deleted: 0,
+    bytes: 0,
+    pending: 0,
+    failed: 0,
+    complete: false,
+  };
+
+  for (const orgId of orgIds) {
+    const previous = await loadPendingGc(env, orgId);
+    const approvals =
+      previous && now.getTime() - Date.parse(previous.generated_at) >= MIN_PENDING_AGE_MS
+        ? previous.sites
+        : {};
+    const { plans, failed } = await planAll(env, now, orgId);
+    result.failed += failed;
+    const pending: PendingGc = { generated_at: now.toISOString(), sites: {} };
+
+    for (const { summary, objects } of plans) {
+      const approved = approvals[summary.site_id];
+      const approvedKeys = new Set(approved?.keys ?? []);
+      let doomed = objects.filter((o) => approvedKeys.has(o.key));
+      let deleted = new Set<string>();
+
+      if (doomed.length > 0) {
+        try {
+          const blobRoot = `sites/${summary.slug}/git/objects/`;
+          if (doomed.some((o) => o.key.startsWith(blobRoot))) {
+            const reused = await blobsCommittedSince(
+              env.SITES_BUCKET,
+              summary.slug,
+              now.getTime() - RECHECK_SKEW_MS,
+            );
+            doomed = doomed.filter(
+              (o) => !o.key.startsWith(blobRoot) || !reused.has(o.key.slice(blobRoot.length)),
+            );
+          }
+          for (let i = 0; i < doomed.length; i += DELETE_BATCH) {
+            await env.SITES_BUCKET.delete(doomed.slice(i, i + DELETE_BATCH).map((o) => o.key));
+          }
+          deleted = new Set(doomed.map((o) => o.key));
+          const versions = summary.versions.filter((v) => approved!.versions.includes(v));
+          if (versions.length > 0) {
+            await dbExecute(
+              env.DB,
+              `UPDATE site_snapshots SET deleted_at = ?, updated_at = ?
+               WHERE site_id = ? AND auto = 1 AND deleted_at IS NULL
+               AND build_version IN (${versions.map(() => '?').join(', ')})`,
+              [now.toISOString(), now.toISOString(), summary.site_id, ...versions],
+            );
+          }
+          const freed = doomed.reduce((sum, o) => sum + o.size, 0);
+          // Reconciliation corrects the quota counter if this write is lost
+          await recordStorageDelta(env.DB, summary.org_id, -freed).catch(() => {});
+          result.sites++;
+          result.deleted += doomed.length;
+          result.bytes += freed;
+        } catch (err) {
+          result.failed++;
+          console.warn(
+            JSON.stringify({
+              level: 'warn',
+              service: 'storage_gc',
+              message: 'Site GC delete failed',
+              siteId: summary.site_id,
+              error: err instanceof Error ? err.message : String(err),
+            }),
+          );
+        }
+      }
+
+      const keys = objects.filter((o) => !deleted.has(o.key)).map((o) => o.key);
+      if (keys.length === 0) continue;
+      const versions =
+        deleted.size > 0
+          ? summary.versions.filter((v) => !approved!.versions.includes(v))
+          : summary.versions;
+      pending.sites[summary.site_id] = { versions, keys };
+      result.pending += keys.length;
+    }
+
+    if (Object.keys(pending.sites).length > 0) {
+      await env.CACHE_KV.put(pendingKey(orgId), JSON.stringify(pending), {
+        expirationTtl: PENDING_TTL_SECONDS,
+      });
+    } else if (previous) {
+      await env.CACHE_KV.delete(pendingKey(orgId));
+    }
+  }
+
+  if (orgIds.length < GC_BATCH_ORGS) {
+    await env.CACHE_KV.put(STORAGE_GC_MARKER_KEY, today);
+    await env.CACHE_KV.delete(STORAGE_GC_CURSOR_KEY);
+    result.complete = true;
+  } else {
+    await env.CACHE_KV.put(STORAGE_GC_CURSOR_KEY, orgIds[orgIds.length - 1]!);
+  }
+  return result;
+}
+
+/**
+ * Backfill for `git.migrateLegacySnapshots`: convert the legacy
+ * tree-per-commit history of up to `limit` sites, in id order after
+ * `cursor`, to content-addressed blobs. Safe to re-run; converted commits
+ * are skipped.
+ *
+ * Writes go to the raw bucket: the conversion only shrinks a site, and the
+ * nightly reconciliation brings the quota counters down with it.
+ *
+ * @throws If the sites cannot be listed.
+ */
+export async function migrateLegacyGit(
+  env: Env,
+  opts: { cursor?: string; limit?: number } = {},
+): Promise<GitMigrationBatch> {
+  const limit = opts.limit ?? GIT_MIGRATION_BATCH;
+  const { data: sites, error } = await dbQuery<{ id: string; slug: string }>(
+    env.DB,
+    'SELECT id, slug FROM sites WHERE deleted_at IS NULL AND id > ? ORDER BY id LIMIT ?',
+    [opts.cursor ?? '', limit],
+  );
+  if (error) throw new Error(`Failed to load sites: ${error}`);
+
+  const result: GitMigrationBatch = {
+    sites: sites.length,
+    migrated: 0,
+    skipped: 0,
+    failed: [],
+    next_cursor: sites.length === limit ? sites[sites.length - 1]!.id : null,
+  };
+  for (const site of sites) {
+    try {
+      const { migrated, skipped } = await migrateLegacySnapshots(env.SITES_BUCKET, site.slug);
+      result.migrated += migrated;
+      result.skipped += skipped;
+    } catch (err) {
+      result.failed.push(site.id);
+      console.warn(
+        JSON.stringify({
+          level: 'warn',
+          service: 'storage_gc',
+          message: 'Legacy git migration failed',
+          siteId: site.id,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+  return result;
+}
@@ -0,0 +1,345 @@
+/**
+ * @module storage_usage
+ * @description Per-org storage quotas. Each org may keep up to its plan's
+ * `maxStorageMb` (shared `ENTITLEMENTS`) in R2; writes past it fail with
+ * a typed `QUOTA_EXCEEDED` error.
+ *
+ * Usage is a running byte counter in `org_storage_usage`:
+ *
+ * | Writer                                    | How the counter moves                                  |
+ * | ----------------------------------------- | ------------------------------------------------------ |
+ * | Routes writing through {@link meteredBucket} | Bytes each put adds over what it replaced; deletes subtract |
+ * | Storage GC (`storage_gc.ts`)              | {@link recordStorageDelta} with the bytes it deleted   |
+ * | Container builds (R2 REST, not the worker) | {@link recordPrefixUsage} once the build has uploaded |
+ * | Anything else (AI assets, translations)   | Caught up by {@link reconcileStorageUsage}             |
+ *
+ * {@link reconcileStorageUsage} runs daily from the cron: it lists
+ * `sites/{slug}/` for every live site of every org and overwrites the
+ * counter, a batch of orgs per cron run. Staging uploads under `uploads/{id}/` count until then; the build
+ * copies them into the site, so after reconciliation only the copy counts.
+ *
+ * Quota checks are soft under concurrency: two requests racing past the
+ * limit can both succeed, and the counter only errs for a day.
+ *
+ * @packageDocumentation
+ */
+
+import { quotaExceeded } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { dbExecute, dbQuery, dbQueryOne } from './db.js';
+import { getOrgEntitlements } from './billing.js';
+
+const MB = 1024 * 1024;
+
+/** KV key holding the last day usage was reconciled with R2. */
+export const STORAGE_USAGE_MARKER_KEY = 'storage_usage:last_day';
+
+/** KV key holding the last org reconciled by an unfinished pass. */
+export const STORAGE_USAGE_CURSOR_KEY = 'storage_usage:cursor';
+
+/** Orgs reconciled per cron run. */
+const RECONCILE_BATCH_ORGS = 50;
+
+/** An org's storage against its quota. */
+export interface StorageUsage {
+  org_id: string;
+  /** Plan tier the limit comes from (`free`, `starter`, `pro`, `agency`). */
+  tier: string;
+  used_bytes: number;
+  limit_bytes: number;
+  /** Last reconciliation with R2, or `null` before the first. */
+  reconciled_at: string | null;
+}
+
+/**
+ * Read an org's usage and quota.
+ *
+ * @example
+ * ```ts
+ * const usage = await getStorageUsage(env.DB, orgId);
+ * const percent = usage.used_bytes / usage.limit_bytes;
+ * ```
+ */
+export async function getStorageUsage(db: D1Database, orgId: string): Promise<StorageUsage> {
+  const [row, entitlements] = await Promise.all([
+    dbQueryOne<{ bytes_used: number; reconciled_at: string | null }>(
+      db,
+      'SELECT bytes_used, reconciled_at FROM org_storage_usage WHERE org_id = ?',
+      [orgId],
+    ),
+    getOrgEntitlements(db, orgId),
+  ]);
+  return {
+    org_id: orgId,
+    tier: entitlements.tier,
+    used_bytes: Number(row?.bytes_used ?? 0),
+    limit_bytes: entitlements.maxStorageMb * MB,
+    reconciled_at: row?.reconciled_at ?? null,
+  };
+}
+
+/** The `QUOTA_EXCEEDED` error for a write of `bytes` on top of `usage`. */
+function quotaError(usage: StorageUsage, bytes: number) {
+  const limitMb = Math.round(usage.limit_bytes / MB);
+  return quotaExceeded(`Storage quota exceeded: the ${usage.tier} plan includes ${limitMb} MB`, {
+    tier: usage.tier,
+    used_bytes: usage.used_bytes,
+    limit_bytes: usage.limit_bytes,
+    requested_bytes: bytes,
+  });
+}
+
+/**
+ * Refuse a write of `bytes` that would take the org past its quota. Call it
+ * before multi-object writes so they fail before the first object lands.
+ *
+ * @returns The usage checked against.
+ * @throws QUOTA_EXCEEDED — `details` has `tier`, `used_bytes`, `limit_bytes`
+ *   and `requested_bytes`.
+ */
+export async function assertStorageAvailable(
+  db: D1Database,
+  orgId: string,
+  bytes: number,
+): Promise<StorageUsage> {
+  const usage = await getStorageUsage(db, orgId);
+  if (bytes > 0 && usage.used_bytes + bytes > usage.limit_bytes) {
+    throw quotaError(usage, bytes);
+  }
+  return usage;
+}
+
+/**
+ * Move an org's counter by `delta` bytes (negative for deletes). The counter
+ * never goes below zero.
+ */
+export async function recordStorageDelta(
+  db: D1Database,
+  orgId: string,
+  delta: number,
+): Promise<void> {
+  if (delta === 0) return;
+  await dbExecute(
+    db,
+    `INSERT INTO org_storage_usage (org_id, bytes_used, updated_at) VALUES (?, MAX(0, ?), ?)
+     ON CONFLICT(org_id) DO UPDATE SET
+       bytes_used = MAX(0, org_storage_usage.bytes_used + ?), updated_at = excluded.updated_at`,
+    [orgId, delta, new Date().toISOString(), delta],
+  );
+}
+
+/** Size of an R2 put body, or `null` for streams, whose size is unknown up front. */
+export function bodyByteLength(
+  value: ReadableStream | ArrayBuffer | ArrayBufferView | string | null | Blob,
+): number | null {
+  if (value === null) return 0;
+  if (typeof value === 'string') return new TextEncoder().encode(value).byteLength;
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof Blob) return value.size;
+  return null;
+}
+
+/** Log a counter write that failed after R2 had already changed. */
+function warnUnrecorded(orgId: string, delta: number, err: unknown): void {
+  console.warn(
+    JSON.stringify({
+      level: 'warn',
+      service: 'storage_usage',
+      message: 'Failed to record storage usage',
+      org_id: orgId,
+      delta,
+      error: err instanceof Error ? err.message : String(err),
+    }),
+  );
+}
+
+/**
+ * Wrap `bucket` so puts and deletes are charged to `orgId`.
+ *
+ * A put that grows the org's storage past its quota throws `QUOTA_EXCEEDED`
+ * before anything is written; overwrites only count what they add. Usage
+ * is read once per wrapper and added to locally, so a `Promise.all` of puts
+ * is checked as a whole. Reads pass straight through.
+ *
+ * Costs one `head()` per put and per deleted key, to learn what is replaced.
+ *
+ * @example
+ * ```ts
+ * const bucket = meteredBucket(env.SITES_BUCKET, env.DB, orgId);
+ * await createSnapshot(bucket, slug, files, 'Edit');
+ * ```
+ */
+export function meteredBucket(bucket: R2Bucket, db: D1Database, orgId: string): R2Bucket {
+  let usage: Promise<StorageUsage> | null = null;
+  let added = 0;
+
+  const charge = (delta: number): Promise<void> => {
+    added += delta;
+    return recordStorageDelta(db, orgId, delta).catch((err) => warnUnrecorded(orgId, delta, err));
+  };
+
+  const put: R2Bucket['put'] = async (key, value, options) => {
+    const previous = await bucket.head(key);
+    const incoming = bodyByteLength(value);
+    const growth = (incoming ?? 0) - (previous?.size ?? 0);
+    if (growth > 0) {
+      usage ??= getStorageUsage(db, orgId);
+      const current = await usage;
+      if (current.used_bytes + added + growth > current.limit_bytes) {
+        throw quotaError({ ...current, used_bytes: current.used_bytes + added }, growth);
+      }
+    }
+    // Reserve before awaiting the write, so concurrent puts see each other.
+    added += growth;
+    let object: R2Object | null;
+    try {
+      object = await bucket.put(key, value, options);
+    } finally {
+      added -= growth;
+    }
+    const stored = object ? (object.size ?? incoming ?? 0) : (previous?.size ?? 0);
+    await charge(stored - (previous?.size ?? 0));
+    return object as R2Object;
+  };
+
+  const del: R2Bucket['delete'] = async (keys) => {
+    const list = Array.isArray(keys) ? keys : [keys];
+    const heads = await Promise.all(list.map((k) => bucket.head(k)));
+    await bucket.delete(keys);
+    await charge(-heads.reduce((sum, h) => sum + (h?.size ?? 0), 0));
+  };
+
+  return new Proxy(bucket, {
+    get(target, prop) {
+      if (prop === 'put') return put;
+      if (prop === 'delete') return del;
+      const value = Reflect.get(target, prop) as unknown;
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/** Total size of every object under `prefix`. */
+async function prefixBytes(bucket: R2Bucket, prefix: string): Promise<number> {
+  let bytes = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor, limit: 1000 });
+    for (const o of page.objects) bytes += o.size;
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return bytes;
+}
+
+/**
+ * Charge `orgId` for everything under `prefix`. For writes made outside the
+ * worker, such as a container build uploading `sites/{slug}/{version}/`.
+ *
+ * @returns The bytes charged.
+ */
+export async function recordPrefixUsage(env: Env, orgId: string, prefix: string): Promise<number> {
+  const bytes = await prefixBytes(env.SITES_BUCKET, prefix);
+  await recordStorageDelta(env.DB, orgId, bytes);
+  return bytes;
+}
+
+/**
+ * Overwrite org counters with what R2 actually holds under their live
+ * sites' `sites/{slug}/` prefixes. Orgs with a counter but no sites left go
+ * to zero.
+ *
+ * Each call takes the next {@link RECONCILE_BATCH_ORGS} orgs by id after
+ * the KV cursor, so a pass spans several cron runs. The day's KV marker is
+ * only set once a batch comes up short; until then every run resumes where
+ * the last stopped.
+ *
+ * An org whose listing fails keeps its running counter until the next pass.
+ *
+ * @returns Counts for the cron log, with `complete` when the pass finished,
+ *   or `null` when today is already done.
+ */
+export async function reconcileStorageUsage(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{
+  orgs: number;
+  bytes: number;
+  drift: number;
+  failed: number;
+  complete: boolean;
+} | null> {
+  const today = now.toISOString().slice(0, 10);
+  const last = await env.CACHE_KV.get(STORAGE_USAGE_MARKER_KEY);
+  if (last && last >= today) return null;
+  const cursor = (await env.CACHE_KV.get(STORAGE_USAGE_CURSOR_KEY)) ?? '';
+
+  const { data: batch } = await dbQuery<{ org_id: string }>(
+    env.DB,
+    `SELECT org_id FROM (
+       SELECT org_id FROM sites WHERE deleted_at IS NULL
+       UNION SELECT org_id FROM org_storage_usage
+     ) WHERE org_id > ? ORDER BY org_id LIMIT ?`,
+    [cursor, RECONCILE_BATCH_ORGS],
+  );
+  const orgIds = batch.map((r) => r.org_id);
+  const placeholders = orgIds.map(() => '?').join(', ');
+
+  const slugsByOrg = new Map<string, string[]>(orgIds.map((id) => [id, []]));
+  const counted = new Map<string, number>();
+  if (orgIds.length > 0) {
+    const { data: sites } = await dbQuery<{ org_id: string; slug: string }>(
+      env.DB,
+      `SELECT org_id, slug FROM sites WHERE deleted_at IS NULL AND org_id IN (${placeholders})`,
+      orgIds,
+    );
+    const { data: counters } = await dbQuery<{ org_id: string; bytes_used: number }>(
+      env.DB,
+      `SELECT org_id, bytes_used FROM org_storage_usage WHERE org_id IN (${placeholders})`,
+      orgIds,
+    );
+    for (const s of sites) slugsByOrg.get(s.org_id)?.push(s.slug);
+    for (const r of counters) counted.set(r.org_id, Number(r.bytes_used));
+  }
+
+  const result = { orgs: 0, bytes: 0, drift: 0, failed: 0, complete: false };
+  const stamp = now.toISOString();
+  for (const [orgId, slugs] of slugsByOrg) {
+    let bytes = 0;
+    try {
+      for (const slug of slugs) bytes += await prefixBytes(env.SITES_BUCKET, `sites/${slug}/`);
+    } catch (err) {
+      result.failed++;
+      console.warn(
+        JSON.stringify({
+          level: 'error',
+          service: 'storage_usage',
+          message: 'Failed to list org storage',
+          org_id: orgId,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+      continue;
+    }
+
+    await dbExecute(
+      env.DB,
+      `INSERT INTO org_storage_usage (org_id, bytes_used, reconciled_at, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(org_id) DO UPDATE SET
+         bytes_used = excluded.bytes_used, reconciled_at = excluded.reconciled_at,
+         updated_at = excluded.updated_at`,
+      [orgId, bytes, stamp, stamp],
+    );
+    result.orgs++;
+    result.bytes += bytes;
+    result.drift += Math.abs(bytes - (counted.get(orgId) ?? 0));
+  }
+
+  if (orgIds.length < RECONCILE_BATCH_ORGS) {
+    await env.CACHE_KV.put(STORAGE_USAGE_MARKER_KEY, today);
+    await env.CACHE_KV.delete(STORAGE_USAGE_CURSOR_KEY);
+    result.complete = true;
+  } else {
+    await env.CACHE_KV.put(STORAGE_USAGE_CURSOR_KEY, orgIds[orgIds.length - 1]!);
+  }
+  return result;
+}
@@ -0,0 +1,265 @@
+/**
+ * @module services/team
+ * @description Org membership lifecycle: invites, acceptance, role changes,
+ * ownership transfer and removal.
+ *
+ * Every mutation is gated by the shared RBAC rules
+ * (`packages/shared/src/middleware/rbac.ts`):
+ *
+ * | Mutation            | Permission      | Extra rule                                        |
+ * | ------------------- | --------------- | ------------------------------------------------- |
+ * | Invite / resend     | `member:write`  | Cannot invite above your own role                 |
+ * | Revoke invite       | `member:write`  | —                                                 |
+ * | Change role         | `member:write`  | Not self, not the owner, not above your own role  |
+ * | Remove member       | `member:delete` | Owner cannot be removed (transfer first)          |
+ * | Force sign-out      | `member:write`  | Not self, not the owner, not above your own role  |
+ * | Transfer ownership  | owner only      | Target must be a current member; old owner → admin |
+ *
+ * Guards throw shared `AppError`s (`forbidden`, `badRequest`, `notFound`,
+ * `conflict`); routes let them propagate to the error handler.
+ */
+
+import {
+  badRequest,
+  checkPermission,
+  conflict,
+  forbidden,
+  notFound,
+  randomHex,
+  requireRole,
+  ROLES,
+  type Role,
+} from '@project-sites/shared';
+import { dbExecute, dbQueryOne } from './db.js';
+
+/** How long an invite link stays valid. */
+export const INVITE_TTL_DAYS = 7;
+
+/** Raw `team_invites` row as stored in D1. */
+export interface TeamInviteRow {
+  id: string;
+  org_id: string;
+  email: string;
+  role: Role;
+  invite_token: string;
+  invited_by_user_id: string | null;
+  accepted_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+// ─── Lookups ─────────────────────────────────────────────────
+
+/** Current (non-deleted) role of `userId` in `orgId`, or `null` if not a member. */
+export async function getMembershipRole(
+  db: D1Database,
+  orgId: string,
+  userId: string,
+): Promise<Role | null> {
+  const row = await dbQueryOne<{ role: Role }>(
+    db,
+    'SELECT role FROM memberships WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL',
+    [orgId, userId],
+  );
+  return row?.role ?? null;
+}
+
+/** Load an invite by its token, regardless of state. */
+export async function findInviteByToken(
+  db: D1Database,
+  token: string,
+): Promise<TeamInviteRow | null> {
+  return dbQueryOne<TeamInviteRow>(db, 'SELECT * FROM team_invites WHERE invite_token = ?', [
+    token,
+  ]);
+}
+
+/** Fresh token + expiry for a new or resent invite. */
+export function issueInviteToken(now = Date.now()): { token: string; expires_at: string } {
+  return {
+    token: randomHex(32),
+    expires_at: new Date(now + INVITE_TTL_DAYS * 86400 * 1000).toISOString(),
+  };
+}
+
+// ─── Guards ──────────────────────────────────────────────────
+
+function asRole(role: string | undefined | null): Role {
+  if (role && (ROLES as readonly string[]).includes(role)) return role as Role;
+  throw forbidden('Not a member of this organization');
+}
+
+/** The actor may invite (or re-invite) someone with `role`. */
+export function assertCanInvite(actorRole: string | undefined | null, role: Role): void {
+  const actor = asRole(actorRole);
+  if (!checkPermission(actor, 'member:write')) throw forbidden('Only owners and admins can invite');
+  if (role === 'owner') throw badRequest('Ownership can only be transferred, not invited');
+  if (!requireRole(actor, role)) throw forbidden(`Cannot invite a ${role} as ${actor}`);
+}
+
+/** The actor may revoke pending invites. */
+export function assertCanManageInvites(actorRole: string | undefined | null): void {
+  if (!checkPermission(asRole(actorRole), 'member:write')) {
+    throw forbidden('Only owners and admins can manage invites');
+  }
+}
+
+/** The actor may move `target` (currently `targetRole`) to `newRole`. */
+export function assertCanChangeRole(
+  actor: { userId: string; role: string | undefined | null },
+  target: { userId: string; role: Role },
+  newRole: Role,
+): void {
+  const actorRole = asRole(actor.role);
+  if (!checkPermission(actorRole, 'member:write')) {
+    throw forbidden('Only owners and admins can change roles');
+  }
+  if (actor.userId === target.userId) throw forbidden('You cannot change your own role');
+  if (target.role === 'owner' || newRole === 'owner') {
+    throw badRequest('Use ownership transfer to change the owner');
+  }
+  if (!requireRole(actorRole, target.role) || !requireRole(actorRole, newRole)) {
+    throw forbidden(`Cannot assign ${newRole} to a ${target.role} as ${actorRole}`);
+  }
+}
+
+/** The actor may remove `target` from the org. */
+export function assertCanRemove(
+  actor: { userId: string; role: string | undefined | null },
+  target: { userId: string; role: Role },
+): void {
+  const actorRole = asRole(actor.role);
+  if (!checkPermission(actorRole, 'member:delete'))
+    throw forbidden('Only the owner can remove members');
+  if (target.role === 'owner') throw badRequest('Transfer ownership before removing the owner');
+}
+
+/** The actor may sign `target` out of every session. */
+export function assertCanForceSignOut(
+  actor: { userId: string; role: string | undefined | null },
+  target: { userId: string; role: Role },
+): void {
+  const actorRole = asRole(actor.role);
+  if (!checkPermission(actorRole, 'member:write')) {
+    throw forbidden('Only owners and admins can sign members out');
+  }
+  if (actor.userId === target.userId) {
+    throw badRequest('Use the Sessions list to sign out your own devices');
+  }
+  if (target.role === 'owner') throw forbidden('The owner cannot be signed out by another member');
+  if (!requireRole(actorRole, target.role)) {
+    throw forbidden(`Cannot sign out a ${target.role} as ${actorRole}`);
+  }
+}
+
+// ─── Mutations ───────────────────────────────────────────────
+
+/**
+ * Accept an invite on behalf of a signed-in user.
+ *
+ * The user's email must match the invited address. Claims the invite by
+ * stamping `accepted_at`, so of two concurrent accepts only one goes on,
+ * then inserts the membership with the invited role — or revives a
+ * previously removed one, since `memberships(org_id, user_id)` is unique.
+ * If that write fails the claim is released.
+ */
+export async function acceptInvite(
+  db: D1Database,
+  input: { token: string; userId: string; email: string },
+): Promise<{ invite: TeamInviteRow; alreadyMember: boolean }> {
+  const invite = await findInviteByToken(db, input.token);
+  if (!invite) throw notFound('Invite not found');
+  if (invite.accepted_at) throw conflict('Invite has already been accepted');
+  if (new Date(invite.expires_at).getTime() < Date.now()) throw badRequest('Invite has expired');
+  if (invite.email.toLowerCase() !== input.email.toLowerCase()) {
+    throw forbidden(`This invite was sent to ${invite.email}`);
+  }
+
+  const now = new Date().toISOString();
+  const claim = await dbExecute(
+    db,
+    'UPDATE team_invites SET accepted_at = ? WHERE id = ? AND accepted_at IS NULL',
+    [now, invite.id],
+  );
+  if (claim.changes === 0) throw conflict('Invite has already been accepted');
+
+  const existing = await dbQueryOne<{ id: string; deleted_at: string | null }>(
+    db,
+    'SELECT id, deleted_at FROM memberships WHERE org_id = ? AND user_id = ?',
+    [invite.org_id, input.userId],
+  );
+
+  let written: { error: string | null } = { error: null };
+  if (!existing) {
+    written = await dbExecute(
+      db,
+      `INSERT INTO memberships (id, org_id, user_id, role, billing_admin, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 0, ?, ?)`,
+      [crypto.randomUUID(), invite.org_id, input.userId, invite.role, now, now],
+    );
+  } else if (existing.deleted_at) {
+    written = await dbExecute(
+      db,
+      `UPDATE memberships SET role = ?, billing_admin = 0, deleted_at = NULL, updated_at = ?
+       WHERE id = ?`,
+      [invite.role, now, existing.id],
+    );
+  }
+  if (written.error) {
+    await dbExecute(
+      db,
+      'UPDATE team_invites SET accepted_at = NULL WHERE id = ? AND accepted_at = ?',
+      [invite.id, now],
+    );
+    throw new Error(`Failed to add membership: ${written.error}`);
+  }
+
+  return { invite, alreadyMember: !!existing && !existing.deleted_at };
+}
+
+/**
+ * Hand ownership of `orgId` to another current member. The previous owner
+ * stays on as an admin.
+ *
+ * Both role changes run in one batch (a single transaction), each guarded
+ * on the other member's role, so the org never ends up with two owners or
+ * none — including when two transfers race.
+ *
+ * @throws {AppError} CONFLICT when the actor is no longer the owner or the
+ *   target has left by the time the batch runs.
+ */
+export async function transferOwnership(
+  db: D1Database,
+  input: {
+    orgId: string;
+    actorId: string;
+    actorRole: string | undefined | null;
+    targetUserId: string;
+  },
+): Promise<void> {
+  if (input.actorRole !== 'owner') throw forbidden('Only the owner can transfer ownership');
+  if (input.targetUserId === input.actorId) throw badRequest('You already own this organization');
+  const targetRole = await getMembershipRole(db, input.orgId, input.targetUserId);
+  if (!targetRole) throw notFound('Member not found');
+
+  const now = new Date().toISOString();
+  const hasOwner = `EXISTS (SELECT 1 FROM memberships
+       WHERE org_id = ? AND user_id = ? AND role = 'owner' AND deleted_at IS NULL)`;
+  const [promoted] = await db.batch([
+    db
+      .prepare(
+        `UPDATE memberships SET role = 'owner', updated_at = ?
+         WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL AND ${hasOwner}`,
+      )
+      .bind(now, input.orgId, input.targetUserId, input.orgId, input.actorId),
+    db
+      .prepare(
+        `UPDATE memberships SET role = 'admin', updated_at = ?
+         WHERE org_id = ? AND user_id = ? AND deleted_at IS NULL AND ${hasOwner}`,
+      )
+      .bind(now, input.orgId, input.actorId, input.orgId, input.targetUserId),
+  ]);
+  if (!promoted?.meta.changes) {
+    throw conflict('Ownership changed while transferring; reload and try again');
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * @module services/text_merge
+ * @description Line-level three-way merge for concurrent edits to one file.
+ *
+ * Both sides are diffed against the common base with `diff`'s
+ * `diffArrays` (the same package the bolt editor uses for its file diffs),
+ * giving each side a list of edits to base line ranges. Walking the two
+ * lists together:
+ *
+ * | Edits in a region                 | Result                  |
+ * | --------------------------------- | ----------------------- |
+ * | Only one side changed it          | That side's lines       |
+ * | Both sides made the same change   | The shared lines        |
+ * | Both sides changed it differently | A {@link ConflictHunk}  |
+ *
+ * Edits that touch (one ends on the line where the other starts) are treated
+ * as overlapping, as git does, so two people rewriting neighbouring lines are
+ * asked to resolve it rather than having both changes spliced together. A
+ * region is still clean when every edit one side made there was also made,
+ * identically, by the other.
+ *
+ * @packageDocumentation
+ */
+
+import { diffArrays } from 'diff';
+
+/**
+ * A region both sides changed differently, in base line numbers. Lines are
+ * given without their line endings.
+ */
+export interface ConflictHunk {
+  /** 1-based line in the base where the region starts. */
+  baseStart: number;
+  /** The region as it was in the base. */
+  base: string[];
+  /** The region as it is now at the branch tip. */
+  head: string[];
+  /** The region as the incoming write has it. */
+  incoming: string[];
+}
+
+/** Result of {@link mergeText}. */
+export interface TextMergeResult {
+  /**
+   * The merged file. When there are conflicts each one is written out
+   * between `<<<<<<< head` / `=======` / `>>>>>>> incoming` markers.
+   */
+  content: string;
+  /** Empty for a clean merge. */
+  conflicts: ConflictHunk[];
+}
+
+/** Replace base lines `[start, end)` with `lines`. */
+interface LineEdit {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Split into lines, keeping each line's terminator so joining is lossless. */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+/** The edits that turn `base` into `other`, in base order. */
+function lineEdits(base: string[], other: string[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let pending: LineEdit | null = null;
+  let index = 0;
+
+  for (const change of diffArrays(base, other)) {
+    if (!change.added && !change.removed) {
+      if (pending) edits.push(pending);
+      pending = null;
+      index += change.value.length;
+      continue;
+    }
+    pending ??= { start: index, end: index, lines: [] };
+    if (change.removed) {
+      index += change.value.length;
+      pending.end = index;
+    } else {
+      pending.lines.push(...change.value);
+    }
+  }
+  if (pending) edits.push(pending);
+  return edits;
+}
+
+/** Apply `edits` (all inside `[start, end)`) to that slice of `base`. */
+function applyEdits(base: string[], start: number, end: number, edits: LineEdit[]): string[] {
+  const out: string[] = [];
+  let index = start;
+  for (const edit of edits) {
+    out.push(...base.slice(index, edit.start), ...edit.lines);
+    index = edit.end;
+  }
+  out.push(...base.slice(index, end));
+  return out;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function sameEdit(a: LineEdit, b: LineEdit): boolean {
+  return a.start === b.start && a.end === b.end && sameLines(a.lines, b.lines);
+}
+
+/** Hunk lines without their terminators, for display. */
+function trimLines(lines: string[]): string[] {
+  return lines.map((line) => line.replace(/\r?\n$/, ''));
+}
+
+/** Make sure a conflict marker starts on its own line. */
+function withNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
+
+/**
+ * Three-way merge `head` and `incoming`, both edited from `base`.
+ *
+ * @example
+ * ```ts
+ * const { content, conflicts } = mergeText(base, current, submitted);
+ * if (conflicts.length === 0) await save(content);
+ * ```
+ */
+export function mergeText(base: string, head: string, incoming: string): TextMergeResult {
+  if (head === incoming || incoming === base) return { content: head, conflicts: [] };
+  if (head === base) return { content: incoming, conflicts: [] };
+
+  const baseLines = splitLines(base);
+  const headEdits = lineEdits(baseLines, splitLines(head));
+  const incomingEdits = lineEdits(baseLines, splitLines(incoming));
+
+  const out: string[] = [];
+  const conflicts: ConflictHunk[] = [];
+  let h = 0;
+  let i = 0;
+  let index = 0;
+
+  while (h < headEdits.length || i < incomingEdits.length) {
+    // Start a region at whichever edit comes first, then pull in every edit
+    // from either side that overlaps or touches it
+    const first =
+      i >= incomingEdits.length ||
+      (h < headEdits.length && headEdits[h]!.start <= incomingEdits[i]!.start)
+        ? headEdits[h]!
+        : incomingEdits[i]!;
+    const start = first.start;
+    let end = first.end;
+    const fromHead: LineEdit[] = [];
+    const fromIncoming: LineEdit[] = [];
+    for (;;) {
+      if (h < headEdits.length && headEdits[h]!.start <= end) {
+        end = Math.max(end, headEdits[h]!.end);
+        fromHead.push(headEdits[h++]!);
+      } else if (i < incomingEdits.length && incomingEdits[i]!.start <= end) {
+        end = Math.max(end, incomingEdits[i]!.end);
+        fromIncoming.push(incomingEdits[i++]!);
+      } else {
+        break;
+      }
+    }
+
+    out.push(...baseLines.slice(index, start));
+    const headLines = applyEdits(baseLines, start, end, fromHead);
+    const incomingLines = applyEdits(baseLines, start, end, fromIncoming);
+
+    if (
+      sameLines(headLines, incomingLines) ||
+      fromIncoming.every((edit) => fromHead.some((other) => sameEdit(edit, other)))
+    ) {
+      out.push(...headLines);
+    } else if (fromHead.every((edit) => fromIncoming.some((other) => sameEdit(edit, other)))) {
+      out.push(...incomingLines);
+    } else {
+      conflicts.push({
+        baseStart: start + 1,
+        base: trimLines(baseLines.slice(start, end)),
+        head: trimLines(headLines),
+        incoming: trimLines(incomingLines),
+      });
+      out.push(
+        '<<<<<<< head\n',
+        ...withNewline(headLines),
+        '=======\n',
+        ...withNewline(incomingLines),
+        '>>>>>>> incoming\n',
+      );
+    }
+    index = end;
+  }
+  out.push(...baseLines.slice(index));
+
+  return { content: out.join(''), conflicts };
+}
@@ -0,0 +1,514 @@
+/**
+ * @module version_schedules
+ * @description Scheduled switches of a site's live version, run by the cron.
+ *
+ * A schedule points the site at a target at `run_at`:
+ *
+ * | `target_type` | `target`        | Switch                                                  |
+ * | ------------- | --------------- | ------------------------------------------------------- |
+ * | `snapshot`    | Snapshot name   | Flip to the snapshot's build version (resolved at run)  |
+ * | `commit`      | Git commit id   | Publish the commit as a new version (`publishCommit`)   |
+ * | `version`     | Build version   | Flip back to a version; only created for rollbacks      |
+ *
+ * When `revert_at` is set, running the switch queues a `version` schedule
+ * (linked by `parent_id`) that puts the previously live version back at
+ * that time, e.g. a holiday menu live at midnight and gone on Jan 2. The
+ * storage GC keeps versions that pending rollbacks point at.
+ *
+ * Rows move `pending → running → done | failed`; only pending rows can be
+ * rescheduled or canceled. The cron claims a row by moving it to `running`,
+ * so overlapping runs never switch twice. Every switch is audited and the
+ * schedule's creator (or the org owner) is emailed either way.
+ *
+ * @packageDocumentation
+ */
+
+import { DOMAINS, badRequest, notFound } from '@project-sites/shared';
+import type { Env } from '../types/env.js';
+import { writeAuditLog } from './audit.js';
+import { dbExecute, dbInsert, dbQuery, dbQueryOne } from './db.js';
+import { getCommit } from './git.js';
+import { notifyVersionSwitch } from './notifications.js';
+import { publishCommit } from './site_branches.js';
+
+export type VersionScheduleTargetType = 'snapshot' | 'commit' | 'version';
+export type VersionScheduleStatus = 'pending' | 'running' | 'done' | 'failed' | 'canceled';
+
+/** A `site_version_schedules` row. */
+export interface VersionSchedule {
+  id: string;
+  site_id: string;
+  org_id: string;
+  target_type: VersionScheduleTargetType;
+  target: string;
+  run_at: string;
+  revert_at: string | null;
+  parent_id: string | null;
+  status: VersionScheduleStatus;
+  previous_version: string | null;
+  result_version: string | null;
+  error: string | null;
+  created_by: string | null;
+  executed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Site fields a switch needs. */
+interface ScheduleSite {
+  id: string;
+  org_id: string;
+  slug: string;
+  business_name: string | null;
+  current_build_version: string | null;
+}
+
+/** How far ahead a switch can be scheduled. */
+const MAX_AHEAD_MS = 366 * 86_400_000;
+
+/** Pending schedules allowed per site. */
+export const MAX_PENDING_PER_SITE = 50;
+
+/** Schedules picked up per cron run; the rest wait for the next one. */
+const RUN_BATCH = 25;
+
+/** A `running` row this old was interrupted mid-switch. */
+const STUCK_AFTER_MS = 30 * 60_000;
+
+/**
+ * Check `run_at` / `revert_at` and normalise them to UTC ISO strings.
+ *
+ * @throws {AppError} 400 when `run_at` is not in the future, more than a year
+ *   out, or `revert_at` is not after it.
+ */
+export function normalizeScheduleTimes(
+  runAt: string,
+  revertAt: string | null | undefined,
+  now: Date = new Date(),
+): { run_at: string; revert_at: string | null } {
+  const run = new Date(runAt).getTime();
+  if (Number.isNaN(run) || run <= now.getTime()) {
+    throw badRequest('run_at must be in the future');
+  }
+  if (run - now.getTime() > MAX_AHEAD_MS) {
+    throw badRequest('run_at can be at most a year ahead');
+  }
+  if (revertAt == null) return { run_at: new Date(run).toISOString(), revert_at: null };
+
+  const revert = new Date(revertAt).getTime();
+  if (Number.isNaN(revert) || revert <= run) {
+    throw badRequest('revert_at must be after run_at');
+  }
+  if (revert - now.getTime() > MAX_AHEAD_MS) {
+    throw badRequest('revert_at can be at most a year ahead');
+  }
+  return { run_at: new Date(run).toISOString(), revert_at: new Date(revert).toISOString() };
+}
+
+/** Schedules for a site, soonest first; pending ones before the rest. */
+export async function listVersionSchedules(
+  db: D1Database,
+  siteId: string,
+  status?: VersionScheduleStatus,
+): Promise<VersionSchedule[]> {
+  const { data } = await dbQuery<VersionSchedule>(
+    db,
+    `SELECT * FROM site_version_schedules
+     WHERE site_id = ?${status ? ' AND status = ?' : ''}
+     ORDER BY CASE status WHEN 'pending' THEN 0 ELSE 1 END, run_at ASC
+     LIMIT 200`,
+    status ? [siteId, status] : [siteId],
+  );
+  return data;
+}
+
+/**
+ * Queue a switch to a snapshot or commit. The target must exist now; a
+ * snapshot is looked up again by name when the switch runs.
+ *
+ * @throws {AppError} 400 on bad times or too many pending schedules,
+ *   404 when the snapshot or commit does not exist.
+ */
+export async function createVersionSchedule(
+  env: Env,
+  site: { id: string; org_id: string; slug: string },
+  input: {
+    target_type: 'snapshot' | 'commit';
+    target: string;
+    run_at: string;
+    revert_at?: string | null;
+  },
+  userId: string | null,
+  now: Date = new Date(),
+): Promise<VersionSchedule> {
+  const times = normalizeScheduleTimes(input.run_at, input.revert_at, now);
+
+  if (input.target_type === 'snapshot') {
+    const snapshot = await dbQueryOne<{ id: string }>(
+      env.DB,
+      'SELECT id FROM site_snapshots WHERE site_id = ? AND snapshot_name = ? AND deleted_at IS NULL',
+      [site.id, input.target],
+    );
+    if (!snapshot) throw notFound('Snapshot not found');
+  } else if (!(await getCommit(env.SITES_BUCKET, site.slug, input.target))) {
+    throw notFound('Commit not found');
+  }
+
+  const pending = await dbQueryOne<{ cnt: number }>(
+    env.DB,
+    "SELECT COUNT(*) AS cnt FROM site_version_schedules WHERE site_id = ? AND status = 'pending'",
+    [site.id],
+  );
+  if ((pending?.cnt ?? 0) >= MAX_PENDING_PER_SITE) {
+    throw badRequest(`A site can have at most ${MAX_PENDING_PER_SITE} pending schedules`);
+  }
+
+  const row = {
+    id: crypto.randomUUID(),
+    site_id: site.id,
+    org_id: site.org_id,
+    target_type: input.target_type,
+    target: input.target,
+    run_at: times.run_at,
+    revert_at: times.revert_at,
+    parent_id: null,
+    status: 'pending' as const,
+    created_by: userId,
+  };
+  const { error } = await dbInsert(env.DB, 'site_version_schedules', row);
+  if (error) throw new Error(`Failed to create schedule: ${error}`);
+  const created = now.toISOString();
+  return {
+    ...row,
+    previous_version: null,
+    result_version: null,
+    error: null,
+    executed_at: null,
+    created_at: created,
+    updated_at: created,
+  };
+}
+
+async function getSchedule(
+  db: D1Database,
+  siteId: string,
+  id: string,
+): Promise<VersionSchedule | null> {
+  return dbQueryOne<VersionSchedule>(
+    db,
+    'SELECT * FROM site_version_schedules WHERE id = ? AND site_id = ?',
+    [id, siteId],
+  );
+}
+
+/** A site's pending schedule, or a 404/400 explaining why it can't change. */
+async function requirePending(
+  db: D1Database,
+  siteId: string,
+  id: string,
+): Promise<VersionSchedule> {
+  const row = await getSchedule(db, siteId, id);
+  if (!row) throw notFound('Schedule not found');
+  if (row.status !== 'pending') throw badRequest(`Schedule is already ${row.status}`);
+  return row;
+}
+
+/**
+ * Move a pending schedule. `revert_at: null` drops the rollback; leaving it
+ * out keeps the current one.
+ */
+export async function rescheduleVersionSchedule(
+  db: D1Database,
+  siteId: string,
+  id: string,
+  input: { run_at?: string; revert_at?: string | null },
+  now: Date = new Date(),
+): Promise<{ before: VersionSchedule; after: VersionSchedule }> {
+  const before = await requirePending(db, siteId, id);
+  const times = normalizeScheduleTimes(
+    input.run_at ?? before.run_at,
+    input.revert_at === undefined ? before.revert_at : input.revert_at,
+    now,
+  );
+  const { changes } = await dbExecute(
+    db,
+    `UPDATE site_version_schedules SET run_at = ?, revert_at = ?, updated_at = ?
+     WHERE id = ? AND status = 'pending'`,
+    [times.run_at, times.revert_at, now.toISOString(), id],
+  );
+  if (changes === 0) throw badRequest('Schedule already started');
+  return { before, after: { ...before, ...times, updated_at: now.toISOString() } };
+}
+
+/** Cancel a pending schedule. */
+export async function cancelVersionSchedule(
+  db: D1Database,
+  siteId: string,
+  id: string,
+  now: Date = new Date(),
+): Promise<VersionSchedule> {
+  const row = await requirePending(db, siteId, id);
+  const { changes } = await dbExecute(
+    db,
+    `UPDATE site_version_schedules SET status = 'canceled', updated_at = ?
+     WHERE id = ? AND status = 'pending'`,
+    [now.toISOString(), id],
+  );
+  if (changes === 0) throw badRequest('Schedule already started');
+  return { ...row, status: 'canceled' };
+}
+
+/**
+ * Point the live site at an existing build version: `_manifest.json`,
+ * `sites.current_build_version` and the cached hostname lookup.
+ */
+async function flipLiveVersion(env: Env, site: ScheduleSite, version: string): Promise<void> {
+  const index = await env.SITES_BUCKET.head(`sites/${site.slug}/${version}/index.html`);
+  if (!index) throw new Error(`Build version ${version} is no longer in storage`);
+
+  await env.SITES_BUCKET.put(
+    `sites/${site.slug}/_manifest.json`,
+    JSON.stringify({ current_version: version, updated_at: new Date().toISOString() }),
+    { httpMetadata: { contentType: 'application/json' } },
+  );
+  await dbExecute(
+    env.DB,
+    "UPDATE sites SET current_build_version = ?, status = 'published', updated_at = datetime('now') WHERE id = ?",
+    [version, site.id],
+  );
+  await env.CACHE_KV.delete(`host:${site.slug}${DOMAINS.SITES_SUFFIX}`).catch(() => {});
+}
+
+/** Make the schedule's target live and return the version now served. */
+async function switchToTarget(env: Env, site: ScheduleSite, row: VersionSchedule): Promise<string> {
+  if (row.target_type === 'commit') {
+    return (await publishCommit(env, site, row.target)).version;
+  }
+
+  let version = row.target;
+  if (row.target_type === 'snapshot') {
+    const snapshot = await dbQueryOne<{ build_version: string }>(
+      env.DB,
+      'SELECT build_version FROM site_snapshots WHERE site_id = ? AND snapshot_name = ? AND deleted_at IS NULL',
+      [site.id, row.target],
+    );
+    if (!snapshot) throw new Error(`Snapshot "${row.target}" no longer exists`);
+    version = snapshot.build_version;
+  }
+  await flipLiveVersion(env, site, version);
+  return version;
+}
+
+/** Human label for emails and audit messages. */
+function describeTarget(row: Pick<VersionSchedule, 'target_type' | 'target'>): string {
+  switch (row.target_type) {
+    case 'snapshot':
+      return `snapshot "${row.target}"`;
+    case 'commit':
+      return `commit ${row.target.slice(0, 8)}`;
+    default:
+      return `the version live before (${row.target})`;
+  }
+}
+
+async function recipientEmail(db: D1Database, row: VersionSchedule): Promise<string | null> {
+  if (row.created_by) {
+    const creator = await dbQueryOne<{ email: string | null }>(
+      db,
+      `SELECT u.email FROM users u JOIN memberships m ON m.user_id = u.id
+       WHERE u.id = ? AND m.org_id = ? AND u.deleted_at IS NULL AND m.deleted_at IS NULL`,
+      [row.created_by, row.org_id],
+    );
+    if (creator?.email) return creator.email;
+  }
+  const owner = await dbQueryOne<{ email: string }>(
+    db,
+    `SELECT u.email FROM memberships m JOIN users u ON u.id = m.user_id
+     WHERE m.org_id = ? AND m.role = 'owner' AND m.deleted_at IS NULL LIMIT 1`,
+    [row.org_id],
+  );
+  return owner?.email ?? null;
+}
+
+async function notifyOutcome(
+  env: Env,
+  row: VersionSchedule,
+  site: ScheduleSite | null,
+  outcome: { version: string } | { error: string },
+): Promise<void> {
+  try {
+    const email = await recipientEmail(env.DB, row);
+    if (!email) return;
+    await notifyVersionSwitch(env, {
+      email,
+      siteName: site?.business_name || site?.slug || 'your site',
+      siteUrl: site ? `https://${site.slug}${DOMAINS.SITES_SUFFIX}` : null,
+      target: describeTarget(row),
+      revertAt: 'version' in outcome ? row.revert_at : null,
+      error: 'error' in outcome ? outcome.error : null,
+    });
+  } catch (err) {
+    console.warn(
+      JSON.stringify({
+        level: 'warn',
+        service: 'version_schedules',
+        message: 'Failed to send switch email',
+        schedule_id: row.id,
+        error: String(err),
+      }),
+    );
+  }
+}
+
+/** Run one claimed schedule to completion; never throws. */
+async function runSchedule(env: Env, row: VersionSchedule): Promise<boolean> {
+  const site = await dbQueryOne<ScheduleSite>(
+    env.DB,
+    'SELECT id, org_id, slug, business_name, current_build_version FROM sites WHERE id = ? AND deleted_at IS NULL',
+    [row.site_id],
+  );
+  const previous = site?.current_build_version ?? null;
+
+  try {
+    if (!site) throw new Error('Site no longer exists');
+    const version = await switchToTarget(env, site, row);
+    const finished = new Date().toISOString();
+
+    await dbExecute(
+      env.DB,
+      `UPDATE site_version_schedules
+       SET status = 'done', previous_version = ?, result_version = ?, executed_at = ?, updated_at = ?
+       WHERE id = ?`,
+      [previous, version, finished, finished, row.id],
+    );
+
+    let rollbackId: string | null = null;
+    if (row.revert_at && previous && previous !== version) {
+      const id = crypto.randomUUID();
+      const { error } = await dbInsert(env.DB, 'site_version_schedules', {
+        id,
+        site_id: row.site_id,
+        org_id: row.org_id,
+        target_type: 'version',
+        target: previous,
+        run_at: row.revert_at,
+        revert_at: null,
+        parent_id: row.id,
+        status: 'pending',
+        created_by: row.created_by,
+      });
+      if (error) {
+        console.warn(
+          JSON.stringify({
+            level: 'error',
+            service: 'version_schedules',
+            message: 'Failed to queue rollback',
+            schedule_id: row.id,
+            error,
+          }),
+        );
+      } else {
+        rollbackId = id;
+      }
+    }
+
+    await writeAuditLog(env.DB, {
+      org_id: row.org_id,
+      actor_id: null,
+      action: 'site.version_switched',
+      target_type: 'site',
+      target_id: row.site_id,
+      metadata_json: {
+        schedule_id: row.id,
+        target_type: row.target_type,
+        target: row.target,
+        previous_version: previous,
+        version,
+        rollback_schedule_id: rollbackId,
+        message: `Scheduled switch to ${describeTarget(row)} went live`,
+      },
+    });
+    await notifyOutcome(env, row, site, { version });
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const finished = new Date().toISOString();
+    await dbExecute(
+      env.DB,
+      `UPDATE site_version_schedules
+       SET status = 'failed', previous_version = ?, error = ?, executed_at = ?, updated_at = ?
+       WHERE id = ?`,
+      [previous, message.slice(0, 500), finished, finished, row.id],
+    );
+    await writeAuditLog(env.DB, {
+      org_id: row.org_id,
+      actor_id: null,
+      action: 'site.version_switch_failed',
+      target_type: 'site',
+      target_id: row.site_id,
+      metadata_json: {
+        schedule_id: row.id,
+        target_type: row.target_type,
+        target: row.target,
+        error: message,
+        message: `Scheduled switch to ${describeTarget(row)} failed`,
+      },
+    });
+    await notifyOutcome(env, row, site, { error: message });
+    console.warn(
+      JSON.stringify({
+        level: 'error',
+        service: 'version_schedules',
+        message: 'Scheduled switch failed',
+        schedule_id: row.id,
+        site_id: row.site_id,
+        error: message,
+      }),
+    );
+    return false;
+  }
+}
+
+/**
+ * Cron entry point: run every pending schedule whose `run_at` has passed,
+ * oldest first, and fail rows left `running` by an interrupted run.
+ */
+export async function runDueVersionSwitches(
+  env: Env,
+  now: Date = new Date(),
+): Promise<{ switched: number; failed: number; deferred: number }> {
+  const result = { switched: 0, failed: 0, deferred: 0 };
+
+  await dbExecute(
+    env.DB,
+    `UPDATE site_version_schedules
+     SET status = 'failed', error = 'Interrupted while switching', updated_at = ?
+     WHERE status = 'running' AND updated_at < ?`,
+    [now.toISOString(), new Date(now.getTime() - STUCK_AFTER_MS).toISOString()],
+  );
+
+  const { data: due } = await dbQuery<VersionSchedule>(
+    env.DB,
+    `SELECT * FROM site_version_schedules
+     WHERE status = 'pending' AND run_at <= ?
+     ORDER BY run_at ASC LIMIT ?`,
+    [now.toISOString(), RUN_BATCH + 1],
+  );
+  result.deferred = Math.max(due.length - RUN_BATCH, 0);
+
+  for (const row of due.slice(0, RUN_BATCH)) {
+    // Claim the row so an overlapping cron run skips it
+    const claim = await dbExecute(
+      env.DB,
+      `UPDATE site_version_schedules SET status = 'running', updated_at = ?
+       WHERE id = ? AND status = 'pending'`,
+      [now.toISOString(), row.id],
+    );
+    if (claim.changes === 0) continue;
+
+    if (await runSchedule(env, row)) result.switched++;
+    else result.failed++;
+  }
+
+  return result;
+}
@@ -70,6 +70,8 @@ export interface Env {
   // ── Environment ───────────────────────────────────────────
   /** Current deployment environment (`"staging"` | `"production"`). */
   ENVIRONMENT: string;
+  /** Comma-separated emails of platform operators (feature-flag admin). */
+  PLATFORM_ADMIN_EMAILS?: string;
 
   // ── Google Analytics & Tag Manager ────────────────────────
   /** GA4 Measurement ID (e.g., G-XXXXXXXX) injected into every served site. */
@@ -96,6 +98,12 @@ export interface Env {
   STRIPE_PUBLISHABLE_KEY: string;
   /** Stripe webhook endpoint signing secret for signature verification. */
   STRIPE_WEBHOOK_SECRET: string;
+  /**
+   * JSON overrides for the site cost price table (micro-USD), e.g.
+   * `{"bandwidthGb": 45000}`. Keys not given keep their defaults
+   * (`DEFAULT_COST_PRICES` in `services/cost_rollup.ts`).
+   */
+  SITE_COST_PRICES?: string;
 
   // ── Domain & Conversion ────────────────────────────────────
   /** WhoisXML API key for domain availability checking. */
@@ -229,6 +237,14 @@ export interface Env {
   /** SendGrid v3 API key for transactional email. Fallback provider. */
   SENDGRID_API_KEY?: string;
 
+  // ── SMS (Twilio) ──────────────────────────────────────────
+  /** Twilio account SID for phone sign-in codes. Without it, non-production logs codes. */
+  TWILIO_ACCOUNT_SID?: string;
+  /** Twilio auth token. */
+  TWILIO_AUTH_TOKEN?: string;
+  /** Twilio sender number (E.164) or messaging service SID. */
+  TWILIO_PHONE_NUMBER?: string;
+
   // ── Chatwoot (Support Chat) ───────────────────────────────
   /** Chatwoot instance API URL. */
   CHATWOOT_API_URL?: string;
@@ -298,6 +314,13 @@ export interface Env {
   STRIPE_PRICE_CREDITS_100?: string;
   STRIPE_PRICE_CREDITS_500?: string;
   STRIPE_PRICE_CREDITS_2000?: string;
+  /** Stripe recurring Price IDs per subscription tier; unset tiers use catalogue list prices. */
+  STRIPE_PRICE_STARTER_MONTHLY?: string;
+  STRIPE_PRICE_STARTER_ANNUAL?: string;
+  STRIPE_PRICE_PRO_MONTHLY?: string;
+  STRIPE_PRICE_PRO_ANNUAL?: string;
+  STRIPE_PRICE_AGENCY_MONTHLY?: string;
+  STRIPE_PRICE_AGENCY_ANNUAL?: string;
 
   // ── Workers for Platforms (user-defined endpoints) ────────
   /** Dispatch namespace binding (set in wrangler.toml [[dispatch_namespaces]]). */
@@ -350,4 +373,10 @@ export interface Variables {
   userRole?: string;
   /** Whether the user is a billing admin for their org. */
   billingAdmin?: boolean;
+  /** ID of the session behind the Bearer token. */
+  sessionId?: string;
+  /** Whether the user has two-factor authentication enabled. */
+  mfaEnabled?: boolean;
+  /** Whether this session passed the second factor. */
+  mfaVerified?: boolean;
 }
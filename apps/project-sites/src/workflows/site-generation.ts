@@ -22,6 +22,12 @@ import type { WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
 import type { Env } from '../types/env.js';
 import { DOMAINS } from '@project-sites/shared';
 import { loadBuildFromR2, validateBuild } from '../services/build_validators.js';
+import {
+  buildingPercent,
+  finishBuildStream,
+  recordBuildProgress,
+} from '../services/build_stream.js';
+import { getStorageUsage, recordPrefixUsage } from '../services/storage_usage.js';
 
 /** Update site status in D1 (best-effort, never throws). */
 async function updateSiteStatus(db: D1Database, siteId: string, status: string): Promise<void> {
@@ -102,6 +108,8 @@ interface ContainerStatus {
   elapsed: number;
   fileCount: number;
   error: string | null;
+  /** Last lines of Claude Code / npm output. */
+  logTail?: string[];
 }
 
 /** Container result response shape. */
@@ -120,6 +128,7 @@ interface KvBuildRecord {
   fileCount: number;
   error: string | null;
   uploadResult: { uploaded?: number; failed?: number; version?: string } | null;
+  logTail?: string[];
   lastUpdate: number;
 }
 
@@ -229,6 +238,14 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
     const params = event.payload;
     const env = this.env;
     const startTime = Date.now();
+    // Live progress for the waiting page (services/build_stream.ts).
+    const buildId = event.instanceId;
+    const progress = (
+      phase: Parameters<typeof recordBuildProgress>[1]['phase'],
+      extra: { step?: string | null; percent?: number; logTail?: string[] | null } = {},
+    ) => recordBuildProgress(env.DB, { siteId: params.siteId, buildId, phase, ...extra });
+    const finish = (status: 'published' | 'error', failedStep?: string) =>
+      finishBuildStream(env.DB, { siteId: params.siteId, buildId, status, step: failedStep });
 
     await workflowLog(env.DB, params.orgId, params.siteId, 'workflow.started', {
       slug: params.slug,
@@ -240,13 +257,38 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
     });
 
     await updateSiteStatus(env.DB, params.siteId, 'generating');
+    await progress('starting');
 
     // ── Validate container binding ──
     if (!env.SITE_BUILDER) {
       await updateSiteStatus(env.DB, params.siteId, 'error');
+      await finish('error', 'no-container');
       throw new Error('SITE_BUILDER container not configured');
     }
 
+    // ── Storage quota ──
+    // The container uploads over the R2 REST API, past the worker's metered
+    // bucket, so an org already at its quota is stopped before the build.
+    const quota = await step.do(
+      'check-storage-quota',
+      { retries: { limit: 2, delay: '5 seconds' }, timeout: '30 seconds' },
+      async () => {
+        const usage = await getStorageUsage(env.DB, params.orgId);
+        return { tier: usage.tier, used: usage.used_bytes, limit: usage.limit_bytes };
+      },
+    );
+    if (quota.used >= quota.limit) {
+      await updateSiteStatus(env.DB, params.siteId, 'error');
+      await finish('error', 'storage-quota');
+      await workflowLog(env.DB, params.orgId, params.siteId, 'workflow.quota_exceeded', {
+        tier: quota.tier,
+        used_bytes: quota.used,
+        limit_bytes: quota.limit,
+        message: `Storage quota exceeded on the ${quota.tier} plan — build not started`,
+      });
+      throw new Error('QUOTA_EXCEEDED: storage quota reached before build');
+    }
+
     // Per-run container ID — each workflow run gets a fresh DO + container.
     // Eliminates stale-image problems and means containers are disposable.
     // State persistence comes from KV-backed callbacks, not container disk.
@@ -261,6 +303,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         'minimal-build',
         { retries: { limit: 2, delay: '5 seconds', backoff: 'exponential' }, timeout: '3 minutes' },
         async () => {
+          await progress('building', { step: 'minimal' });
           const container = getContainer();
           const res = await container.fetch('http://container/build-minimal', {
             method: 'POST',
@@ -294,9 +337,11 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
       });
       if (parsed.ok) {
         await updateSiteStatus(env.DB, params.siteId, 'published');
+        await finish('published');
         return { ok: true, mode: 'minimal', uploaded: parsed.uploadResult?.uploaded };
       }
       await updateSiteStatus(env.DB, params.siteId, 'error');
+      await finish('error');
       throw new Error('minimal build failed: ' + (parsed.stdoutTail || 'unknown'));
     }
 
@@ -378,6 +423,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
             timeout: '1 minute',
           },
           async () => {
+            await progress('assets');
             const prefix = `uploads/${params.uploadId}/`;
             const listed = await env.SITES_BUCKET.list({ prefix, limit: 50 });
             const movedKeys: string[] = [];
@@ -474,6 +520,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '5 minutes',
       },
       async () => {
+        await progress('building', { step: 'starting-container' });
         const container = getContainer();
 
         const payload = {
@@ -529,6 +576,21 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
     let lastSeenStatus: string | null = null;
     let lastSeenStep: string | null = null;
 
+    // Heartbeat → build_stream_state. Runs inside the step so replays skip it.
+    const streamHeartbeat = async (body: string) => {
+      try {
+        const s = JSON.parse(body) as Partial<ContainerStatus>;
+        if (s.status !== 'running') return;
+        await progress('building', {
+          step: s.step ?? null,
+          percent: buildingPercent(s.step, s.elapsed),
+          logTail: s.logTail ?? null,
+        });
+      } catch {
+        // Progress is cosmetic; never fail a heartbeat over it.
+      }
+    };
+
     for (let i = 0; i < MAX_POLLS; i++) {
       const result = await step.do(
         `heartbeat-${i}`,
@@ -547,6 +609,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
             });
             if (res.ok) {
               const body = await res.text();
+              await streamHeartbeat(body);
               return JSON.stringify({ _src: 'container', body });
             }
           } catch {
@@ -556,6 +619,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
           // Fallback: KV record (set by container's pushStatus callback). Survives DO replacement.
           const raw = await env.CACHE_KV.get(`build:${jobId}`);
           if (!raw) return JSON.stringify({ _src: 'kv', _missing: true });
+          await streamHeartbeat(raw);
           return JSON.stringify({ _src: 'kv', body: raw });
         },
       );
@@ -679,6 +743,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
 
     if (!finalStatus) {
       await updateSiteStatus(env.DB, params.siteId, 'error');
+      await finish('error', 'timeout');
       await workflowLog(env.DB, params.orgId, params.siteId, 'workflow.timeout', {
         message: `Build timed out after ${MAX_POLLS} polls (${MAX_POLLS * 30}s)`,
       });
@@ -687,6 +752,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
 
     if (finalStatus.status === 'error') {
       await updateSiteStatus(env.DB, params.siteId, 'error');
+      await finish('error', finalStatus.step);
       await workflowLog(env.DB, params.orgId, params.siteId, 'workflow.build_error', {
         error: finalStatus.error,
         elapsed_seconds: finalStatus.elapsed,
@@ -703,6 +769,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '2 minutes',
       },
       async () => {
+        await progress('finalizing');
         const fileCount = finalStatus!.fileCount || 0;
         // Prefer in-memory record from heartbeat poll. If missing or empty, re-read
         // KV — the container's HMAC-protected callback always writes the canonical
@@ -721,6 +788,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
 
         if (uploadCount === 0) {
           await updateSiteStatus(env.DB, params.siteId, 'error');
+          await finish('error', 'r2-upload');
           await workflowLog(env.DB, params.orgId, params.siteId, 'workflow.upload_failed', {
             file_count: fileCount,
             upload_result: uploadResult,
@@ -756,6 +824,20 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
       },
     );
 
+    // ── Step 3.25: Charge the org for what the container uploaded ──
+    // Best-effort: the nightly reconciliation corrects the counter if it is lost.
+    await step.do(
+      'record-storage-usage',
+      { retries: { limit: 0, delay: '1 second' }, timeout: '1 minute' },
+      async () => {
+        try {
+          return await recordPrefixUsage(env, params.orgId, `sites/${params.slug}/${version}/`);
+        } catch {
+          return 0;
+        }
+      },
+    );
+
     // ── Step 3.5: Build validators (report mode — log to D1, never throw) ──
     // Enforces audit recommendations: asset existence, JSON-LD count, image format,
     // og-image quality, apple-touch-icon, meta lengths, H1 in shell, sitemap lastmod,
@@ -768,6 +850,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '2 minutes',
       },
       async () => {
+        await progress('validating');
         try {
           const prefix = `sites/${params.slug}/${version}/`;
           const files = await loadBuildFromR2(env.SITES_BUCKET, prefix);
@@ -805,6 +888,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '2 minutes',
       },
       async () => {
+        await progress('inspecting');
         if (!env.OPENAI_API_KEY) return JSON.stringify({ skipped: true, reason: 'no_openai_key' });
         try {
           const ssUrl = `https://api.microlink.io/?url=https://${params.slug}.${DOMAINS.SITES_SUFFIX}&screenshot=true&meta=false&embed=screenshot.url`;
@@ -874,6 +958,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '3 minutes',
       },
       async () => {
+        await progress('benchmarking');
         try {
           const { runBenchmarks } = await import('../services/benchmark.js');
           const { buildRetrospective, recordRetrospectivePath } =
@@ -960,6 +1045,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
         timeout: '30 seconds',
       },
       async () => {
+        await progress('notifying');
         try {
           // Look up user email for notification
           const siteRow = (await env.DB.prepare(
@@ -1002,6 +1088,7 @@ export class SiteGenerationWorkflow extends WorkflowEntrypoint<Env, SiteGenerati
       version: result.version,
       message: `Published ${params.businessName} with ${result.fileCount} files in ${totalSeconds}s`,
     });
+    await finish('published');
 
     return {
       siteId: params.siteId,
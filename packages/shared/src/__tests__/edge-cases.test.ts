@@ -5,7 +5,7 @@ import { environmentSchema, stripeModeSchema, envConfigSchema, validateEnvConfig
 import { requireRole, checkPermission } from '../middleware/rbac.js';
 import { slugSchema, emailSchema, metadataSchema } from '../schemas/base.js';
 import { createCheckoutSessionSchema } from '../schemas/billing.js';
-import { PRICING, AUTH, DUNNING, ROLES } from '../constants/index.js';
+import { PRICING, AUTH, DUNNING, RETENTION, ROLES } from '../constants/index.js';
 
 // ─── Helpers ────────────────────────────────────────────────
 
@@ -327,6 +327,12 @@ describe('constants validation', () => {
     }
   });
 
+  it('RETENTION keeps at least as much history on paid as on free', () => {
+    expect(RETENTION.paid.BUILD_VERSIONS).toBeGreaterThanOrEqual(RETENTION.free.BUILD_VERSIONS);
+    expect(RETENTION.paid.COMMITS).toBeGreaterThanOrEqual(RETENTION.free.COMMITS);
+    expect(RETENTION.free.BUILD_VERSIONS).toBeGreaterThan(0);
+  });
+
   it('ROLES has exactly 4 elements: owner, admin, member, viewer', () => {
     expect(ROLES).toHaveLength(4);
     expect([...ROLES]).toEqual(['owner', 'admin', 'member', 'viewer']);
@@ -125,6 +125,22 @@ describe('getEntitlements', () => {
     expect(ent.analyticsEnabled).toBe(true);
     expect(ent.plan).toBe('paid');
   });
+
+  it('treats the legacy paid plan as Pro', () => {
+    expect(getEntitlements(orgId, 'paid')).toEqual(getEntitlements(orgId, 'pro'));
+    expect(getEntitlements(orgId, 'paid').tier).toBe('pro');
+  });
+
+  it('scales limits with the tier', () => {
+    const starter = getEntitlements(orgId, 'starter');
+    const agency = getEntitlements(orgId, 'agency');
+    expect(starter).toMatchObject({ plan: 'paid', tier: 'starter', maxCustomDomains: 1 });
+    expect(starter.analyticsEnabled).toBe(false);
+    expect(agency.maxCustomDomains).toBeGreaterThan(starter.maxCustomDomains);
+    expect(agency.maxStorageMb).toBeGreaterThan(starter.maxStorageMb);
+    expect(agency.aiCreditsPerMonth).toBeGreaterThan(starter.aiCreditsPerMonth);
+    expect(agency.teamSeats).toBeGreaterThan(starter.teamSeats);
+  });
 });
 
 describe('requireEntitlement', () => {
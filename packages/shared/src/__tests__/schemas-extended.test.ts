@@ -980,6 +980,7 @@ describe('apiErrorSchema', () => {
       'NOT_FOUND',
       'CONFLICT',
       'PAYLOAD_TOO_LARGE',
+      'QUOTA_EXCEEDED',
       'RATE_LIMITED',
       'VALIDATION_ERROR',
       'INTERNAL_ERROR',
@@ -11,21 +11,51 @@ import {
   confidenceScoreSchema,
   metadataSchema,
 } from '../schemas/base';
-import { createOrgSchema, membershipSchema } from '../schemas/org';
-import { createSiteSchema, siteSchema } from '../schemas/site';
+import {
+  createOrgSchema,
+  membershipSchema,
+  createTeamInviteSchema,
+  transferOwnershipSchema,
+} from '../schemas/org';
+import {
+  addSiteLanguageSchema,
+  branchNameSchema,
+  createBranchSchema,
+  createSiteSchema,
+  createVersionScheduleSchema,
+  rescheduleVersionScheduleSchema,
+  siteSchema,
+  translationOverrideSchema,
+  updateSiteAccessSchema,
+} from '../schemas/site';
 import {
   createCheckoutSessionSchema,
   createEmbeddedCheckoutSchema,
   entitlementsSchema,
+  changePlanSchema,
   saleWebhookPayloadSchema,
+  siteCostBackfillSchema,
 } from '../schemas/billing';
-import { createMagicLinkSchema, googleOAuthCallbackSchema } from '../schemas/auth';
+import {
+  createMagicLinkSchema,
+  createPhoneOtpSchema,
+  googleOAuthCallbackSchema,
+  verifyPhoneOtpSchema,
+  confirmMfaSchema,
+  mfaChallengeSchema,
+} from '../schemas/auth';
 import { createAuditLogSchema } from '../schemas/audit';
 import { webhookIngestionSchema } from '../schemas/webhook';
 import { createWorkflowJobSchema, jobEnvelopeSchema } from '../schemas/workflow';
 import { envConfigSchema, validateEnvConfig } from '../schemas/config';
 import { healthCheckSchema } from '../schemas/api';
-import { createHostnameSchema, hostnameRecordSchema } from '../schemas/hostname';
+import {
+  createHostnameSchema,
+  hostnameRecordSchema,
+  purchaseDomainSchema,
+  updateRegisteredDomainSchema,
+} from '../schemas/hostname';
+import { flagNameSchema, upsertFeatureFlagSchema } from '../schemas/flags';
 
 // ─── Base Schemas ────────────────────────────────────────────
 
@@ -241,6 +271,23 @@ describe('createOrgSchema', () => {
   });
 });
 
+describe('createTeamInviteSchema', () => {
+  it('normalizes the invitee email', () => {
+    const result = createTeamInviteSchema.parse({ email: ' Jane@Example.COM ', role: 'member' });
+    expect(result.email).toBe('jane@example.com');
+  });
+
+  it('rejects owner invites', () => {
+    expect(() => createTeamInviteSchema.parse({ email: 'a@b.co', role: 'owner' })).toThrow();
+  });
+});
+
+describe('transferOwnershipSchema', () => {
+  it('requires a user UUID', () => {
+    expect(() => transferOwnershipSchema.parse({ user_id: 'not-a-uuid' })).toThrow();
+  });
+});
+
 // ─── Site Schemas ────────────────────────────────────────────
 
 describe('createSiteSchema', () => {
@@ -274,6 +321,78 @@ describe('createSiteSchema', () => {
   });
 });
 
+describe('branchNameSchema', () => {
+  it('accepts DNS-label branch names', () => {
+    expect(branchNameSchema.parse('redesign')).toBe('redesign');
+    expect(branchNameSchema.parse('spring-2026')).toBe('spring-2026');
+  });
+
+  it('rejects the preview separator, uppercase and edge hyphens', () => {
+    for (const name of ['re--design', 'Redesign', '-draft', 'draft-', 'a/b', '']) {
+      expect(branchNameSchema.safeParse(name).success).toBe(false);
+    }
+  });
+
+  it('validates the create payload', () => {
+    expect(createBranchSchema.parse({ name: 'redesign' })).toEqual({ name: 'redesign' });
+    expect(createBranchSchema.safeParse({ name: 'redesign', from: 'Main' }).success).toBe(false);
+  });
+});
+
+describe('updateSiteAccessSchema', () => {
+  it('accepts each visibility', () => {
+    for (const visibility of ['public', 'password', 'members', 'inherit']) {
+      expect(updateSiteAccessSchema.safeParse({ visibility }).success).toBe(true);
+    }
+  });
+
+  it('rejects short passwords and unknown visibilities', () => {
+    expect(updateSiteAccessSchema.safeParse({ visibility: 'password', password: 'short' }).success).toBe(false);
+    expect(updateSiteAccessSchema.safeParse({ visibility: 'secret' }).success).toBe(false);
+  });
+});
+
+describe('createVersionScheduleSchema', () => {
+  const base = { target_type: 'snapshot', target: 'holiday', run_at: '2026-12-24T00:00:00-05:00' };
+
+  it('accepts offset datetimes and an optional rollback', () => {
+    expect(createVersionScheduleSchema.safeParse(base).success).toBe(true);
+    expect(
+      createVersionScheduleSchema.safeParse({ ...base, revert_at: '2027-01-02T05:00:00Z' }).success,
+    ).toBe(true);
+  });
+
+  it('rejects internal target types and bare dates', () => {
+    expect(createVersionScheduleSchema.safeParse({ ...base, target_type: 'version' }).success).toBe(false);
+    expect(createVersionScheduleSchema.safeParse({ ...base, run_at: '2026-12-24' }).success).toBe(false);
+  });
+});
+
+describe('rescheduleVersionScheduleSchema', () => {
+  it('requires at least one time', () => {
+    expect(rescheduleVersionScheduleSchema.safeParse({}).success).toBe(false);
+    expect(rescheduleVersionScheduleSchema.safeParse({ revert_at: null }).success).toBe(true);
+  });
+});
+
+describe('addSiteLanguageSchema', () => {
+  it('accepts supported languages other than the default', () => {
+    expect(addSiteLanguageSchema.parse({ language: 'es' }).language).toBe('es');
+    expect(addSiteLanguageSchema.safeParse({ language: 'en' }).success).toBe(false);
+    expect(addSiteLanguageSchema.safeParse({ language: 'klingon' }).success).toBe(false);
+  });
+});
+
+describe('translationOverrideSchema', () => {
+  it('trims and requires both strings', () => {
+    expect(translationOverrideSchema.parse({ source: ' Hot pizza ', text: 'Pizza caliente' })).toEqual({
+      source: 'Hot pizza',
+      text: 'Pizza caliente',
+    });
+    expect(translationOverrideSchema.safeParse({ source: 'Hot pizza', text: '  ' }).success).toBe(false);
+  });
+});
+
 // ─── Auth Schemas ────────────────────────────────────────────
 
 describe('createMagicLinkSchema', () => {
@@ -292,6 +411,51 @@ describe('createMagicLinkSchema', () => {
   });
 });
 
+describe('createPhoneOtpSchema', () => {
+  it('accepts an E.164 phone', () => {
+    expect(createPhoneOtpSchema.parse({ phone: '+14155551234' }).phone).toBe('+14155551234');
+  });
+
+  it('rejects a national-format phone', () => {
+    expect(() => createPhoneOtpSchema.parse({ phone: '(415) 555-1234' })).toThrow();
+  });
+});
+
+describe('verifyPhoneOtpSchema', () => {
+  it('accepts a six-digit code', () => {
+    const result = verifyPhoneOtpSchema.parse({ phone: '+14155551234', code: '012345' });
+    expect(result.code).toBe('012345');
+  });
+
+  it('rejects short or non-numeric codes', () => {
+    expect(() => verifyPhoneOtpSchema.parse({ phone: '+14155551234', code: '12345' })).toThrow();
+    expect(() => verifyPhoneOtpSchema.parse({ phone: '+14155551234', code: '12345a' })).toThrow();
+  });
+});
+
+describe('confirmMfaSchema', () => {
+  it('accepts a six-digit authenticator code', () => {
+    expect(confirmMfaSchema.parse({ code: '004211' }).code).toBe('004211');
+  });
+
+  it('rejects recovery codes', () => {
+    expect(() => confirmMfaSchema.parse({ code: 'abcde-12345' })).toThrow();
+  });
+});
+
+describe('mfaChallengeSchema', () => {
+  it('accepts authenticator and recovery codes', () => {
+    expect(mfaChallengeSchema.parse({ code: '123456' }).code).toBe('123456');
+    expect(mfaChallengeSchema.parse({ code: ' ABCDE-12345 ' }).code).toBe('ABCDE-12345');
+    expect(mfaChallengeSchema.parse({ code: 'abcde12345' }).code).toBe('abcde12345');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => mfaChallengeSchema.parse({ code: '1234567' })).toThrow();
+    expect(() => mfaChallengeSchema.parse({ code: 'abc-123' })).toThrow();
+  });
+});
+
 describe('googleOAuthCallbackSchema', () => {
   it('accepts valid callback params', () => {
     const result = googleOAuthCallbackSchema.parse({ code: 'auth-code', state: 'csrf-state' });
@@ -319,6 +483,17 @@ describe('createCheckoutSessionSchema', () => {
       cancel_url: 'https://example.com/cancel',
     });
     expect(result.org_id).toBe(validUuid);
+    expect(result).toMatchObject({ tier: 'pro', interval: 'month' });
+  });
+
+  it('accepts a tier on annual billing', () => {
+    const result = createCheckoutSessionSchema.parse({
+      success_url: 'https://example.com/success',
+      cancel_url: 'https://example.com/cancel',
+      tier: 'starter',
+      interval: 'year',
+    });
+    expect(result).toMatchObject({ tier: 'starter', interval: 'year' });
   });
 
   it('rejects non-uuid org_id', () => {
@@ -390,10 +565,14 @@ describe('entitlementsSchema', () => {
     const result = entitlementsSchema.parse({
       org_id: validUuid,
       plan: 'free',
+      tier: 'free',
       topBarHidden: false,
       maxCustomDomains: 0,
       chatEnabled: true,
       analyticsEnabled: false,
+      maxStorageMb: 100,
+      aiCreditsPerMonth: 0,
+      teamSeats: 1,
     });
     expect(result.topBarHidden).toBe(false);
   });
@@ -402,14 +581,61 @@ describe('entitlementsSchema', () => {
     const result = entitlementsSchema.parse({
       org_id: validUuid,
       plan: 'paid',
+      tier: 'pro',
       topBarHidden: true,
       maxCustomDomains: 10,
       chatEnabled: true,
       analyticsEnabled: true,
+      maxStorageMb: 500,
+      aiCreditsPerMonth: 500,
+      teamSeats: 3,
     });
     expect(result.topBarHidden).toBe(true);
     expect(result.maxCustomDomains).toBe(10);
   });
+
+  it('rejects an unknown tier', () => {
+    expect(() =>
+      entitlementsSchema.parse({
+        org_id: validUuid,
+        plan: 'paid',
+        tier: 'enterprise',
+        topBarHidden: true,
+        maxCustomDomains: 10,
+        chatEnabled: true,
+        analyticsEnabled: true,
+        maxStorageMb: 500,
+        aiCreditsPerMonth: 500,
+        teamSeats: 3,
+      }),
+    ).toThrow();
+  });
+});
+
+describe('changePlanSchema', () => {
+  it('requires a known tier and interval', () => {
+    expect(changePlanSchema.parse({ tier: 'agency', interval: 'year' })).toEqual({
+      tier: 'agency',
+      interval: 'year',
+    });
+    expect(() => changePlanSchema.parse({ tier: 'agency', interval: 'week' })).toThrow();
+    expect(() => changePlanSchema.parse({ interval: 'month' })).toThrow();
+  });
+});
+
+describe('siteCostBackfillSchema', () => {
+  it('accepts an inclusive day range', () => {
+    expect(siteCostBackfillSchema.parse({ from: '2026-01-01', to: '2026-01-31' })).toEqual({
+      from: '2026-01-01',
+      to: '2026-01-31',
+    });
+  });
+
+  it('rejects reversed, malformed and over-long ranges', () => {
+    expect(() => siteCostBackfillSchema.parse({ from: '2026-02-01', to: '2026-01-01' })).toThrow();
+    expect(() => siteCostBackfillSchema.parse({ from: '2026-1-1', to: '2026-01-02' })).toThrow();
+    expect(() => siteCostBackfillSchema.parse({ from: '2025-01-01', to: '2026-01-01' })).toThrow();
+  });
 });
 
 // ─── Webhook Schemas ─────────────────────────────────────────
@@ -606,6 +832,49 @@ describe('createHostnameSchema', () => {
   });
 });
 
+describe('purchaseDomainSchema', () => {
+  const contact = {
+    name: 'Vito Rossi',
+    email: 'Vito@Example.com',
+    phone: '+14155552671',
+    address1: '1 Main St',
+    city: 'Springfield',
+    postal_code: '12345',
+    country: 'us',
+  };
+  const body = {
+    domain: 'VitosSalon.com',
+    site_id: '00000000-0000-4000-8000-000000000001',
+    contact,
+    success_url: 'https://projectsites.dev/done',
+    cancel_url: 'https://projectsites.dev/cancel',
+  };
+
+  it('normalizes the domain and contact and applies defaults', () => {
+    const result = purchaseDomainSchema.parse(body);
+    expect(result.domain).toBe('vitossalon.com');
+    expect(result.contact.email).toBe('vito@example.com');
+    expect(result.contact.country).toBe('US');
+    expect(result).toMatchObject({ years: 1, whois_privacy: true, auto_renew: true });
+  });
+
+  it('rejects out-of-range terms and incomplete contacts', () => {
+    expect(() => purchaseDomainSchema.parse({ ...body, years: 11 })).toThrow();
+    expect(() =>
+      purchaseDomainSchema.parse({ ...body, contact: { ...contact, phone: '555-1234' } }),
+    ).toThrow();
+  });
+});
+
+describe('updateRegisteredDomainSchema', () => {
+  it('needs at least one setting', () => {
+    expect(updateRegisteredDomainSchema.parse({ auto_renew: false })).toEqual({
+      auto_renew: false,
+    });
+    expect(() => updateRegisteredDomainSchema.parse({})).toThrow();
+  });
+});
+
 // ─── Health Check Schema ─────────────────────────────────────
 
 describe('healthCheckSchema', () => {
@@ -633,3 +902,28 @@ describe('healthCheckSchema', () => {
     expect(result.checks?.db?.status).toBe('ok');
   });
 });
+
+// ─── Feature Flags ───────────────────────────────────────────
+
+describe('flagNameSchema', () => {
+  it('accepts dotted lowercase keys', () => {
+    expect(flagNameSchema.parse('create.new_wizard')).toBe('create.new_wizard');
+  });
+
+  it('rejects uppercase, spaces and leading punctuation', () => {
+    expect(() => flagNameSchema.parse('NewWizard')).toThrow();
+    expect(() => flagNameSchema.parse('new wizard')).toThrow();
+    expect(() => flagNameSchema.parse('.wizard')).toThrow();
+  });
+});
+
+describe('upsertFeatureFlagSchema', () => {
+  it('defaults the rollout to everyone', () => {
+    expect(upsertFeatureFlagSchema.parse({ enabled: true }).rollout_percentage).toBe(100);
+  });
+
+  it('rejects percentages outside 0-100 and unknown plans', () => {
+    expect(() => upsertFeatureFlagSchema.parse({ enabled: true, rollout_percentage: 101 })).toThrow();
+    expect(() => upsertFeatureFlagSchema.parse({ enabled: true, plans: ['enterprise'] })).toThrow();
+  });
+});
@@ -8,6 +8,7 @@ import {
   notFound,
   conflict,
   payloadTooLarge,
+  quotaExceeded,
   rateLimited,
   internalError,
   validationError,
@@ -252,11 +253,23 @@ describe('error factories', () => {
     expect(err.statusCode).toBe(409);
   });
 
+  it('conflict carries details', () => {
+    const err = conflict('edit conflicts', { head_commit: 'abc' });
+    expect(err.toJSON().error.details).toEqual({ head_commit: 'abc' });
+  });
+
   it('payloadTooLarge returns 413', () => {
     const err = payloadTooLarge();
     expect(err.statusCode).toBe(413);
   });
 
+  it('quotaExceeded returns 413 with details', () => {
+    const err = quotaExceeded('Storage quota exceeded', { used_bytes: 10, limit_bytes: 5 });
+    expect(err.statusCode).toBe(413);
+    expect(err.code).toBe('QUOTA_EXCEEDED');
+    expect(err.toJSON().error.details).toEqual({ used_bytes: 10, limit_bytes: 5 });
+  });
+
   it('rateLimited returns 429', () => {
     const err = rateLimited();
     expect(err.statusCode).toBe(429);
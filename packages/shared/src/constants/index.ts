@@ -12,9 +12,44 @@ export const DEFAULT_CAPS = {
   MAX_STORAGE_PAID_MB: 500,
 } as const;
 
+/** Paid subscription tiers, cheapest first. */
+export const PLAN_TIERS = ['starter', 'pro', 'agency'] as const;
+export type PlanTier = (typeof PLAN_TIERS)[number];
+
+/** Billing intervals a tier can be bought on. */
+export const BILLING_INTERVALS = ['month', 'year'] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+/**
+ * Tier catalogue, in PRICING.CURRENCY cents. Annual billing costs ten
+ * months (two months free). Live Stripe price IDs come from the
+ * STRIPE_PRICE_<TIER>_<MONTHLY|ANNUAL> env vars; without them checkout
+ * falls back to these list prices.
+ */
+export const TIER_CATALOGUE = {
+  starter: {
+    name: 'Starter',
+    description: 'Remove top bar, one custom domain',
+    monthly_cents: 2000, // $20/mo
+    annual_cents: 20000, // $200/yr
+  },
+  pro: {
+    name: 'Pro',
+    description: 'Remove top bar, custom domains, analytics',
+    monthly_cents: 5000, // $50/mo
+    annual_cents: 50000, // $500/yr
+  },
+  agency: {
+    name: 'Agency',
+    description: 'Everything in Pro for client portfolios and teams',
+    monthly_cents: 15000, // $150/mo
+    annual_cents: 150000, // $1,500/yr
+  },
+} as const;
+
 /** Pricing */
 export const PRICING = {
-  MONTHLY_CENTS: 5000, // $50/mo
+  MONTHLY_CENTS: TIER_CATALOGUE.pro.monthly_cents, // $50/mo, the legacy single plan
   RETENTION_OFFER_CENTS: 2500, // $25/mo for 12 months
   RETENTION_OFFER_MONTHS: 12,
   CURRENCY: 'usd' as const,
@@ -34,25 +69,102 @@ export const AUTH = {
   SESSION_EXPIRY_DAYS: 30,
   SESSION_REFRESH_DAYS: 7,
   OTP_LENGTH: 6,
+  OTP_RESEND_COOLDOWN_SECONDS: 60,
+  TOTP_ISSUER: 'Project Sites',
+  TOTP_DIGITS: 6,
+  TOTP_PERIOD_SECONDS: 30,
+  /** Steps either side of "now" accepted to absorb authenticator clock drift */
+  TOTP_DRIFT_STEPS: 1,
+  MFA_RECOVERY_CODE_COUNT: 10,
   TURNSTILE_TIMEOUT_MS: 300_000,
 } as const;
 
-/** Entitlements by plan */
+/**
+ * Entitlements by plan. `paid` is the legacy single plan: subscriptions
+ * from before tiers existed have no tier and get Pro's entitlements.
+ */
 export const ENTITLEMENTS = {
   free: {
     topBarHidden: false,
     maxCustomDomains: 0,
     chatEnabled: true,
     analyticsEnabled: false,
+    maxStorageMb: DEFAULT_CAPS.MAX_STORAGE_FREE_MB,
+    aiCreditsPerMonth: 0,
+    teamSeats: 1,
+  },
+  starter: {
+    topBarHidden: true,
+    maxCustomDomains: 1,
+    chatEnabled: true,
+    analyticsEnabled: false,
+    maxStorageMb: 250,
+    aiCreditsPerMonth: 100,
+    teamSeats: 1,
+  },
+  pro: {
+    topBarHidden: true,
+    maxCustomDomains: 10,
+    chatEnabled: true,
+    analyticsEnabled: true,
+    maxStorageMb: DEFAULT_CAPS.MAX_STORAGE_PAID_MB,
+    aiCreditsPerMonth: 500,
+    teamSeats: 3,
+  },
+  agency: {
+    topBarHidden: true,
+    maxCustomDomains: 50,
+    chatEnabled: true,
+    analyticsEnabled: true,
+    maxStorageMb: 5000,
+    aiCreditsPerMonth: 2000,
+    teamSeats: 10,
   },
   paid: {
     topBarHidden: true,
     maxCustomDomains: 10,
     chatEnabled: true,
     analyticsEnabled: true,
+    maxStorageMb: DEFAULT_CAPS.MAX_STORAGE_PAID_MB,
+    aiCreditsPerMonth: 500,
+    teamSeats: 3,
   },
 } as const;
 
+/**
+ * Storage retention by plan. Beyond these, build versions and git commits
+ * are pruned by the storage GC; the live version, named snapshots and
+ * anything younger than GRACE_DAYS are always kept.
+ */
+export const RETENTION = {
+  free: { BUILD_VERSIONS: 5, COMMITS: 50 },
+  paid: { BUILD_VERSIONS: 30, COMMITS: 500 },
+  GRACE_DAYS: 2,
+} as const;
+
+/** Language generated sites are written in; translations live under `/{lang}/`. */
+export const DEFAULT_SITE_LANGUAGE = 'en';
+
+/** Languages a site can be translated into, by BCP 47 tag. */
+export const SITE_LANGUAGES = {
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  pl: 'Polish',
+  ru: 'Russian',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  zh: 'Chinese (Simplified)',
+  ja: 'Japanese',
+  ko: 'Korean',
+  vi: 'Vietnamese',
+  tl: 'Tagalog',
+  ht: 'Haitian Creole',
+} as const;
+export type SiteLanguage = keyof typeof SITE_LANGUAGES;
+
 /** Roles */
 export const ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
 export type Role = (typeof ROLES)[number];
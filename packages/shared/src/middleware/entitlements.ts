@@ -1,11 +1,12 @@
 /**
  * Entitlement resolution for organisation billing plans.
  *
- * This module maps a subscription plan (`'free'` or `'paid'`) to a concrete
- * set of feature flags and numeric limits (the {@link Entitlements} shape
- * defined in `schemas/billing`). The worker and UI call these helpers to
- * gate features such as custom-domain support, the top-bar ad, live chat,
- * and analytics.
+ * This module maps a subscription plan (`'free'`, a paid tier, or the legacy
+ * `'paid'` plan) to a concrete set of feature flags and numeric limits (the
+ * {@link Entitlements} shape defined in `schemas/billing`). The worker and UI
+ * call these helpers to gate features such as custom-domain support, the
+ * top-bar ad, live chat and analytics, and to size storage, included AI
+ * credits and team seats.
  *
  * | Export               | Description                                         |
  * | -------------------- | --------------------------------------------------- |
@@ -16,8 +17,8 @@
  * ```ts
  * import { getEntitlements, requireEntitlement } from '@shared/middleware/entitlements.js';
  *
- * const ent = getEntitlements('org_abc', 'paid');
- * // => { org_id: 'org_abc', plan: 'paid', topBarHidden: true, ... }
+ * const ent = getEntitlements('org_abc', 'agency');
+ * // => { org_id: 'org_abc', plan: 'paid', tier: 'agency', topBarHidden: true, ... }
  *
  * if (!requireEntitlement('free', 'chatEnabled')) {
  *   return new Response('Upgrade required', { status: 402 });
@@ -28,26 +29,27 @@
  * @packageDocumentation
  */
 
-import { ENTITLEMENTS } from '../constants/index.js';
+import { ENTITLEMENTS, type PlanTier } from '../constants/index.js';
 import type { Entitlements } from '../schemas/billing.js';
 
 /**
- * The two subscription tiers currently supported.
+ * Plans entitlements can be resolved for.
  *
- * - `'free'`  -- default tier; top-bar ad shown, limited domains.
- * - `'paid'`  -- full-feature tier after Stripe checkout.
+ * - `'free'`     -- default; top-bar ad shown, no custom domains.
+ * - a `PlanTier` -- `'starter'`, `'pro'` or `'agency'` after Stripe checkout.
+ * - `'paid'`     -- legacy single plan from before tiers; treated as Pro.
  */
-type Plan = 'free' | 'paid';
+type Plan = 'free' | 'paid' | PlanTier;
 
 /**
  * Compute the full entitlements object for an organisation given its plan.
  *
  * Looks up the static entitlement definitions in {@link ENTITLEMENTS} and
- * returns a new {@link Entitlements} record annotated with the `org_id` and
- * `plan` that produced it.
+ * returns a new {@link Entitlements} record annotated with the `org_id`, the
+ * coarse `plan` (`'free'` / `'paid'`) and the `tier` that produced it.
  *
  * @param orgId - The Supabase organisation UUID (e.g. `'org_abc'`).
- * @param plan  - The organisation's current subscription tier.
+ * @param plan  - The organisation's current plan or tier.
  * @returns A fully populated {@link Entitlements} object.
  *
  * @example
@@ -58,14 +60,19 @@ type Plan = 'free' | 'paid';
  * ```
  */
 export function getEntitlements(orgId: string, plan: Plan): Entitlements {
-  const planEntitlements = ENTITLEMENTS[plan];
+  const tier = plan === 'paid' ? 'pro' : plan;
+  const planEntitlements = ENTITLEMENTS[tier];
   return {
     org_id: orgId,
-    plan,
+    plan: tier === 'free' ? 'free' : 'paid',
+    tier,
     topBarHidden: planEntitlements.topBarHidden,
     maxCustomDomains: planEntitlements.maxCustomDomains,
     chatEnabled: planEntitlements.chatEnabled,
     analyticsEnabled: planEntitlements.analyticsEnabled,
+    maxStorageMb: planEntitlements.maxStorageMb,
+    aiCreditsPerMonth: planEntitlements.aiCreditsPerMonth,
+    teamSeats: planEntitlements.teamSeats,
   };
 }
 
@@ -76,7 +83,7 @@ export function getEntitlements(orgId: string, plan: Plan): Entitlements {
  * middleware where you need to gate on a single feature without building the
  * full {@link Entitlements} object.
  *
- * @param plan        - The organisation's current subscription tier.
+ * @param plan        - The organisation's current plan or tier.
  * @param entitlement - The key to check (e.g. `'chatEnabled'`, `'topBarHidden'`).
  * @returns `true` if the entitlement value is truthy for the given plan,
  *   `false` otherwise.
@@ -5,9 +5,11 @@ export const apiErrorCodes = [
   'BAD_REQUEST',
   'UNAUTHORIZED',
   'FORBIDDEN',
+  'MFA_REQUIRED',
   'NOT_FOUND',
   'CONFLICT',
   'PAYLOAD_TOO_LARGE',
+  'QUOTA_EXCEEDED',
   'RATE_LIMITED',
   'VALIDATION_ERROR',
   'INTERNAL_ERROR',
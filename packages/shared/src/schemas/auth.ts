@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { baseFields, emailSchema, uuidSchema } from './base.js';
+import { AUTH } from '../constants/index.js';
+import { baseFields, emailSchema, phoneSchema, uuidSchema } from './base.js';
 
 /** User schema */
 export const userSchema = z.object({
@@ -39,6 +40,36 @@ export const verifyMagicLinkSchema = z.object({
   token: z.string().min(32).max(512),
 });
 
+/** Phone OTP request */
+export const createPhoneOtpSchema = z.object({
+  phone: phoneSchema,
+  turnstile_token: z.string().max(2048).optional(),
+});
+
+/** Verify phone OTP */
+export const verifyPhoneOtpSchema = z.object({
+  phone: phoneSchema,
+  code: z.string().regex(new RegExp(`^\\d{${AUTH.OTP_LENGTH}}$`), `Code must be ${AUTH.OTP_LENGTH} digits`),
+});
+
+const totpCode = z.string().regex(new RegExp(`^\\d{${AUTH.TOTP_DIGITS}}$`), `Code must be ${AUTH.TOTP_DIGITS} digits`);
+
+/** First authenticator code, proving the TOTP enrollment works */
+export const confirmMfaSchema = z.object({
+  code: totpCode,
+});
+
+/** Second-factor challenge: an authenticator code or a recovery code (`xxxxx-xxxxx`) */
+export const mfaChallengeSchema = z.object({
+  code: z.union([
+    totpCode,
+    z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9]{5}-?[a-z0-9]{5}$/i, 'Invalid recovery code'),
+  ]),
+});
+
 /** Google OAuth initiation */
 export const createGoogleOAuthSchema = z.object({
   redirect_url: z.string().url().max(2048).optional(),
@@ -64,5 +95,9 @@ export type User = z.infer<typeof userSchema>;
 export type Session = z.infer<typeof sessionSchema>;
 export type CreateMagicLink = z.infer<typeof createMagicLinkSchema>;
 export type VerifyMagicLink = z.infer<typeof verifyMagicLinkSchema>;
+export type CreatePhoneOtp = z.infer<typeof createPhoneOtpSchema>;
+export type VerifyPhoneOtp = z.infer<typeof verifyPhoneOtpSchema>;
+export type ConfirmMfa = z.infer<typeof confirmMfaSchema>;
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
 export type GoogleOAuthCallback = z.infer<typeof googleOAuthCallbackSchema>;
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
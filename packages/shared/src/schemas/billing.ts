@@ -7,15 +7,18 @@
  *
  * The billing module models the Stripe-backed subscription lifecycle. Each
  * organization has at most one active subscription that determines its plan
- * (`free | paid`) and associated entitlements. The dunning pipeline tracks
+ * (`free | paid`), its tier (`starter | pro | agency`, see {@link PLAN_TIERS})
+ * and associated entitlements. The dunning pipeline tracks
  * failed payments up to 60 days before automatic downgrade.
  *
  * | Zod Schema                     | Inferred Type            | Purpose                                           |
  * | ------------------------------ | ------------------------ | ------------------------------------------------- |
  * | `subscriptionSchema`           | `Subscription`           | Full subscription row from the database            |
  * | `createCheckoutSessionSchema`  | `CreateCheckoutSession`  | Payload for initiating a Stripe Checkout session   |
+ * | `changePlanSchema`             | `ChangePlan`             | Prorated move to another tier or interval          |
  * | `entitlementsSchema`           | `Entitlements`           | Feature flags and limits derived from the plan     |
  * | `saleWebhookPayloadSchema`     | `SaleWebhookPayload`    | Internal webhook payload emitted after a sale      |
+ * | `siteCostBackfillSchema`       | `SiteCostBackfill`       | Day range to recompute in `site_cost_daily`        |
  *
  * The `stripeEventTypes` tuple and `StripeEventType` union enumerate the
  * Stripe webhook event types the system handles.
@@ -34,13 +37,14 @@
  */
 import { z } from 'zod';
 import { baseFields, uuidSchema } from './base.js';
-import { SUBSCRIPTION_STATES } from '../constants/index.js';
+import { BILLING_INTERVALS, PLAN_TIERS, SUBSCRIPTION_STATES } from '../constants/index.js';
 
 /**
  * Full subscription record as stored in the `subscriptions` database table.
  *
  * Tracks the Stripe customer and subscription IDs, the current plan
- * (`free | paid`), the subscription status (one of {@link SUBSCRIPTION_STATES}),
+ * (`free | paid`) with its tier and billing interval (both null for free
+ * plans and for subscriptions from before tiers), the subscription status (one of {@link SUBSCRIPTION_STATES}),
  * billing period boundaries, cancellation intent, retention offers, and the
  * dunning stage (0-60 days past due). Payment timestamps record the last
  * successful and last failed charge.
@@ -52,6 +56,8 @@ export const subscriptionSchema = z.object({
   stripe_customer_id: z.string().max(255),
   stripe_subscription_id: z.string().max(255).nullable(),
   plan: z.enum(['free', 'paid']),
+  tier: z.enum(PLAN_TIERS).nullable().default(null),
+  billing_interval: z.enum(BILLING_INTERVALS).nullable().default(null),
   status: z.enum(SUBSCRIPTION_STATES),
   current_period_start: z.string().datetime().nullable(),
   current_period_end: z.string().datetime().nullable(),
@@ -68,6 +74,7 @@ export const subscriptionSchema = z.object({
  * Requires the `org_id` that will own the resulting subscription, plus
  * `success_url` and `cancel_url` redirect targets (both must be valid URLs,
  * max 2048 chars). An optional `site_id` ties the checkout to a specific site.
+ * `tier` and `interval` pick the catalogue price, defaulting to Pro monthly.
  */
 export const budgetTierSchema = z.enum(['free', 'standard', 'plus', 'premium', 'patron']);
 export type BudgetTier = z.infer<typeof budgetTierSchema>;
@@ -78,6 +85,8 @@ export const createCheckoutSessionSchema = z.object({
   success_url: z.string().url().max(2048),
   cancel_url: z.string().url().max(2048),
   budget_tier: budgetTierSchema.optional(),
+  tier: z.enum(PLAN_TIERS).default('pro'),
+  interval: z.enum(BILLING_INTERVALS).default('month'),
 });
 
 /**
@@ -92,6 +101,17 @@ export const createEmbeddedCheckoutSchema = z.object({
   site_id: uuidSchema.optional(),
   return_url: z.string().url().max(2048),
   budget_tier: budgetTierSchema.optional(),
+  tier: z.enum(PLAN_TIERS).default('pro'),
+  interval: z.enum(BILLING_INTERVALS).default('month'),
+});
+
+/**
+ * Request payload for moving an existing subscription to another tier or
+ * billing interval. Stripe prorates the difference.
+ */
+export const changePlanSchema = z.object({
+  tier: z.enum(PLAN_TIERS),
+  interval: z.enum(BILLING_INTERVALS),
 });
 
 /**
@@ -123,17 +143,21 @@ export type StripeEventType = (typeof stripeEventTypes)[number];
  *
  * Returned by the entitlements API endpoint to inform the front-end which
  * features are available. Includes boolean flags (`topBarHidden`,
- * `chatEnabled`, `analyticsEnabled`) and numeric limits
- * (`maxCustomDomains` 0-10). The values mirror the static
- * {@link ENTITLEMENTS} constant but are resolved at runtime per-org.
+ * `chatEnabled`, `analyticsEnabled`) and numeric limits (`maxCustomDomains`,
+ * `maxStorageMb`, `aiCreditsPerMonth`, `teamSeats`). The values mirror the
+ * static {@link ENTITLEMENTS} constant but are resolved at runtime per-org.
  */
 export const entitlementsSchema = z.object({
   org_id: uuidSchema,
   plan: z.enum(['free', 'paid']),
+  tier: z.enum(['free', ...PLAN_TIERS] as const),
   topBarHidden: z.boolean(),
-  maxCustomDomains: z.number().int().min(0).max(10),
+  maxCustomDomains: z.number().int().min(0),
   chatEnabled: z.boolean(),
   analyticsEnabled: z.boolean(),
+  maxStorageMb: z.number().int().min(0),
+  aiCreditsPerMonth: z.number().int().min(0),
+  teamSeats: z.number().int().min(1),
 });
 
 /**
@@ -158,6 +182,27 @@ export const saleWebhookPayloadSchema = z.object({
   trace_id: z.string().max(255),
 });
 
+/** Longest range a single site-cost backfill may cover (Analytics Engine keeps 90 days). */
+export const SITE_COST_BACKFILL_MAX_DAYS = 90;
+
+const dayStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+/**
+ * Request payload for recomputing `site_cost_daily` over an inclusive day
+ * range. `from` must not be after `to`, and the range may span at most
+ * {@link SITE_COST_BACKFILL_MAX_DAYS} days.
+ */
+export const siteCostBackfillSchema = z
+  .object({
+    from: dayStringSchema,
+    to: dayStringSchema,
+  })
+  .refine((r) => r.from <= r.to, { message: '`from` must not be after `to`', path: ['from'] })
+  .refine((r) => (Date.parse(r.to) - Date.parse(r.from)) / 86_400_000 < SITE_COST_BACKFILL_MAX_DAYS, {
+    message: `Backfill at most ${SITE_COST_BACKFILL_MAX_DAYS} days at a time`,
+    path: ['to'],
+  });
+
 /** Inferred TypeScript type for a full subscription record. */
 export type Subscription = z.infer<typeof subscriptionSchema>;
 
@@ -167,8 +212,14 @@ export type CreateCheckoutSession = z.infer<typeof createCheckoutSessionSchema>;
 /** Inferred TypeScript type for the embedded-checkout request payload. */
 export type CreateEmbeddedCheckout = z.infer<typeof createEmbeddedCheckoutSchema>;
 
+/** Inferred TypeScript type for the change-plan request payload. */
+export type ChangePlan = z.infer<typeof changePlanSchema>;
+
 /** Inferred TypeScript type for the entitlements response object. */
 export type Entitlements = z.infer<typeof entitlementsSchema>;
 
 /** Inferred TypeScript type for the internal sale webhook payload. */
 export type SaleWebhookPayload = z.infer<typeof saleWebhookPayloadSchema>;
+
+/** Inferred TypeScript type for the site-cost backfill request payload. */
+export type SiteCostBackfill = z.infer<typeof siteCostBackfillSchema>;
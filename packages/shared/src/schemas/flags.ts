@@ -0,0 +1,73 @@
+/**
+ * @module flags
+ * @packageDocumentation
+ *
+ * Zod schemas for **feature flags** stored in the `feature_flags` table.
+ *
+ * A flag has one global definition row (`org_id IS NULL`) holding the on/off
+ * switch and its rollout rules in `metadata_json`, plus optional per-org rows
+ * that force the flag on (allow-list) or off for a single organization.
+ *
+ * | Zod Schema                | Inferred Type       | Purpose                                       |
+ * | ------------------------- | ------------------- | --------------------------------------------- |
+ * | `flagNameSchema`          | `string`            | Flag key, e.g. `create.new_wizard`            |
+ * | `flagRulesSchema`         | `FlagRules`         | Rollout rules kept in `metadata_json`         |
+ * | `upsertFeatureFlagSchema` | `UpsertFeatureFlag` | Admin payload to create or update a flag      |
+ * | `setFlagOverrideSchema`   | `SetFlagOverride`   | Admin payload to force a flag for one org     |
+ *
+ * @example
+ * ```ts
+ * import { upsertFeatureFlagSchema } from '@project-sites/shared';
+ *
+ * const flag = upsertFeatureFlagSchema.parse({
+ *   enabled: true,
+ *   rollout_percentage: 25,
+ *   plans: ['paid'],
+ * });
+ * ```
+ */
+import { z } from 'zod';
+
+/** Lowercase flag key; dots and underscores group flags by area. */
+export const flagNameSchema = z
+  .string()
+  .min(2)
+  .max(64)
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, 'Flag names are lowercase letters, digits, ".", "_" and "-"');
+
+/**
+ * Rollout rules for a globally enabled flag.
+ *
+ * | Field                | Description                                                        |
+ * | -------------------- | ------------------------------------------------------------------ |
+ * | `description`        | Free text for the admin list                                       |
+ * | `rollout_percentage` | Share of orgs (0-100) that see the flag, bucketed by org ID        |
+ * | `plans`              | Restrict to orgs on these plans; omitted = every plan              |
+ */
+export const flagRulesSchema = z.object({
+  description: z.string().max(500).optional(),
+  rollout_percentage: z.number().int().min(0).max(100).default(100),
+  plans: z
+    .array(z.enum(['free', 'paid']))
+    .max(2)
+    .optional(),
+});
+
+/** Create or replace a flag definition. `enabled: false` is the kill switch. */
+export const upsertFeatureFlagSchema = flagRulesSchema.extend({
+  enabled: z.boolean(),
+});
+
+/** Force a flag on (allow-list) or off for one organization. */
+export const setFlagOverrideSchema = z.object({
+  enabled: z.boolean(),
+});
+
+/** Inferred TypeScript type for flag rollout rules. */
+export type FlagRules = z.infer<typeof flagRulesSchema>;
+
+/** Inferred TypeScript type for the upsert-flag request payload. */
+export type UpsertFeatureFlag = z.infer<typeof upsertFeatureFlagSchema>;
+
+/** Inferred TypeScript type for the org-override request payload. */
+export type SetFlagOverride = z.infer<typeof setFlagOverrideSchema>;
@@ -250,6 +250,15 @@ export type CreateFormRule = z.infer<typeof createFormRuleSchema>;
 export const updateFormRuleSchema = createFormRuleSchema.partial();
 export type UpdateFormRule = z.infer<typeof updateFormRuleSchema>;
 
+/**
+ * Body sent by the dashboard to test a rule against a stored submission.
+ * Dry runs call the model but never execute actions or record evaluations.
+ */
+export const formRuleDryRunSchema = z.object({
+  submission_id: z.string().min(1).max(64),
+});
+export type FormRuleDryRun = z.infer<typeof formRuleDryRunSchema>;
+
 /**
  * Public-safe form rule record returned by the dashboard list/get endpoints.
  */
@@ -294,6 +303,12 @@ export const updateFormApiKeySchema = z.object({
 });
 export type UpdateFormApiKey = z.infer<typeof updateFormApiKeySchema>;
 
+/** Body for rotating a vault key: the new secret replaces the old one. */
+export const rotateFormApiKeySchema = z.object({
+  api_key: z.string().min(1).max(2048),
+});
+export type RotateFormApiKey = z.infer<typeof rotateFormApiKeySchema>;
+
 /**
  * Public-safe API key record (never includes the raw key).
  */
@@ -20,6 +20,11 @@
  * | `hostnameRecordSchema`  | `ZodObject` | `HostnameRecord` | Full hostname row (database record)         |
  * | `createHostnameSchema`  | `ZodObject` | `CreateHostname` | Request body for creating a new hostname    |
  * | `hostnameStatusSchema`  | `ZodObject` | `HostnameStatus` | Lightweight status-check response payload   |
+ * | `registrantContactSchema` | `ZodObject` | `RegistrantContact` | WHOIS contact for a registered domain    |
+ * | `purchaseDomainSchema`  | `ZodObject` | `PurchaseDomain` | Request body for buying a domain            |
+ * | `transferDomainSchema`  | `ZodObject` | `TransferDomain` | Request body for transferring a domain in   |
+ * | `renewDomainSchema`     | `ZodObject` | `RenewDomain`    | Request body for renewing a domain          |
+ * | `updateRegisteredDomainSchema` | `ZodObject` | `UpdateRegisteredDomain` | Auto-renew / WHOIS privacy toggles |
  *
  * ## Usage
  *
@@ -30,7 +35,7 @@
  * ```
  */
 import { z } from 'zod';
-import { baseFields, hostnameSchema, uuidSchema } from './base.js';
+import { baseFields, emailSchema, hostnameSchema, phoneSchema, uuidSchema } from './base.js';
 import { HOSTNAME_STATES } from '../constants/index.js';
 
 /**
@@ -90,6 +95,74 @@ export const hostnameStatusSchema = z.object({
   verification_errors: z.array(z.string()).nullable(),
 });
 
+/**
+ * Registrant (WHOIS) contact sent to the registrar. Registries require a
+ * postal address and a phone number; WHOIS privacy hides them publicly.
+ */
+export const registrantContactSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  organization: z.string().trim().max(200).optional(),
+  email: emailSchema,
+  phone: phoneSchema,
+  address1: z.string().trim().min(1).max(200),
+  address2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1).max(100),
+  state: z.string().trim().max(100).optional(),
+  postal_code: z.string().trim().min(1).max(20),
+  country: z
+    .string()
+    .length(2)
+    .regex(/^[A-Za-z]{2}$/, 'Country must be an ISO 3166-1 alpha-2 code')
+    .toUpperCase(),
+});
+
+/** Checkout return URLs shared by every domain order. */
+const checkoutUrls = {
+  success_url: z.string().url().max(2048),
+  cancel_url: z.string().url().max(2048),
+};
+
+/**
+ * Buy a domain for a site. The domain must be registrable (an apex, not a
+ * subdomain); the service checks that against the registrar.
+ */
+export const purchaseDomainSchema = z.object({
+  domain: hostnameSchema.toLowerCase(),
+  site_id: uuidSchema,
+  years: z.number().int().min(1).max(10).default(1),
+  contact: registrantContactSchema,
+  whois_privacy: z.boolean().default(true),
+  auto_renew: z.boolean().default(true),
+  ...checkoutUrls,
+});
+
+/** Move a domain registered elsewhere to us (adds a year, like registries do). */
+export const transferDomainSchema = z.object({
+  domain: hostnameSchema.toLowerCase(),
+  site_id: uuidSchema,
+  auth_code: z.string().trim().min(4).max(128),
+  contact: registrantContactSchema,
+  whois_privacy: z.boolean().default(true),
+  auto_renew: z.boolean().default(true),
+  ...checkoutUrls,
+});
+
+/** Add years to a domain we registered. */
+export const renewDomainSchema = z.object({
+  years: z.number().int().min(1).max(10).default(1),
+  ...checkoutUrls,
+});
+
+/** Toggle registrar-side settings of a registered domain. */
+export const updateRegisteredDomainSchema = z
+  .object({
+    auto_renew: z.boolean().optional(),
+    whois_privacy: z.boolean().optional(),
+  })
+  .refine((v) => v.auto_renew !== undefined || v.whois_privacy !== undefined, {
+    message: 'Provide auto_renew or whois_privacy',
+  });
+
 /** Inferred TypeScript type for a full hostname database row. */
 export type HostnameRecord = z.infer<typeof hostnameRecordSchema>;
 
@@ -98,3 +171,18 @@ export type CreateHostname = z.infer<typeof createHostnameSchema>;
 
 /** Inferred TypeScript type for a hostname status-check response. */
 export type HostnameStatus = z.infer<typeof hostnameStatusSchema>;
+
+/** Inferred TypeScript type for a registrant contact. */
+export type RegistrantContact = z.infer<typeof registrantContactSchema>;
+
+/** Inferred TypeScript type for the purchase-domain request body. */
+export type PurchaseDomain = z.infer<typeof purchaseDomainSchema>;
+
+/** Inferred TypeScript type for the transfer-domain request body. */
+export type TransferDomain = z.infer<typeof transferDomainSchema>;
+
+/** Inferred TypeScript type for the renew-domain request body. */
+export type RenewDomain = z.infer<typeof renewDomainSchema>;
+
+/** Inferred TypeScript type for the update-registered-domain request body. */
+export type UpdateRegisteredDomain = z.infer<typeof updateRegisteredDomainSchema>;
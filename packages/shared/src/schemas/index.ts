@@ -10,16 +10,17 @@
  * | ------------- | ---------------------------------------------------------------------------- |
  * | `base`        | `baseFields`, `uuidSchema`, `slugSchema`, `emailSchema`, `phoneSchema`, `paginationSchema`, `errorEnvelopeSchema`, `successEnvelopeSchema` |
  * | `org`         | `orgSchema`, `createOrgSchema`, `membershipSchema` + `Org`, `Membership`     |
- * | `site`        | `siteSchema`, `createSiteSchema`, `updateSiteSchema`, `confidenceAttributeSchema`, `researchDataSchema` + inferred types |
- * | `billing`     | `subscriptionSchema`, `entitlementsSchema`, `createCheckoutSessionSchema`, `saleWebhookPayloadSchema` + `Subscription`, `Entitlements` |
- * | `auth`        | `userSchema`, `sessionSchema`, `createMagicLinkSchema`, `loginResponseSchema` + `User`, `Session`, `LoginResponse` |
+ * | `site`        | `siteSchema`, `createSiteSchema`, `updateSiteSchema`, `confidenceAttributeSchema`, `researchDataSchema`, `branchNameSchema`, `createBranchSchema`, `mergeBranchSchema`, `updateSiteAccessSchema`, `createVersionScheduleSchema`, `rescheduleVersionScheduleSchema`, `addSiteLanguageSchema`, `translationOverrideSchema` + inferred types |
+ * | `billing`     | `subscriptionSchema`, `entitlementsSchema`, `createCheckoutSessionSchema`, `changePlanSchema`, `saleWebhookPayloadSchema` + `Subscription`, `Entitlements` |
+ * | `auth`        | `userSchema`, `sessionSchema`, `createMagicLinkSchema`, `createPhoneOtpSchema`, `verifyPhoneOtpSchema`, `confirmMfaSchema`, `mfaChallengeSchema`, `loginResponseSchema` + `User`, `Session`, `LoginResponse` |
  * | `audit`       | `auditLogSchema`, `createAuditLogSchema` + `AuditLog`                        |
  * | `webhook`     | `webhookEventSchema`, `webhookIngestionSchema` + `WebhookEvent`              |
  * | `workflow`    | `workflowJobSchema`, `createWorkflowJobSchema`, `jobEnvelopeSchema` + `WorkflowJob`, `JobEnvelope` |
  * | `config`      | `envConfigSchema`, `environmentSchema`, `validateEnvConfig` + `EnvConfig`, `Environment` |
  * | `analytics`   | `analyticsDailySchema`, `funnelEventSchema`, `usageEventSchema` + inferred types |
- * | `hostname`    | `hostnameRecordSchema`, `createHostnameSchema`, `hostnameStatusSchema` + `HostnameRecord`, `HostnameStatus` |
+ * | `hostname`    | `hostnameRecordSchema`, `createHostnameSchema`, `hostnameStatusSchema`, `registrantContactSchema`, `purchaseDomainSchema`, `transferDomainSchema`, `renewDomainSchema`, `updateRegisteredDomainSchema` + inferred types |
  * | `api`         | `apiErrorCodes`, `apiErrorSchema`, `healthCheckSchema` + `ApiErrorCode`, `ApiError`, `HealthCheck` |
+ * | `flags`       | `flagNameSchema`, `flagRulesSchema`, `upsertFeatureFlagSchema`, `setFlagOverrideSchema` + `FlagRules`, `UpsertFeatureFlag` |
  *
  * @example
  * ```ts
@@ -53,3 +54,4 @@ export * from './contact.js';
 export * from './confidence.js';
 export * from './seed-v3.js';
 export * from './forms.js';
+export * from './flags.js';
@@ -15,6 +15,10 @@
  * | `membershipSchema`        | `Membership`       | Full membership row from the database       |
  * | `createMembershipSchema`  | `CreateMembership` | Payload for creating a new membership       |
  * | `updateMembershipSchema`  | `UpdateMembership` | Partial payload for updating a membership   |
+ * | `createTeamInviteSchema`  | `CreateTeamInvite` | Payload for inviting someone to an org      |
+ * | `acceptTeamInviteSchema`  | `AcceptTeamInvite` | Invite token presented by the invitee       |
+ * | `transferOwnershipSchema` | `TransferOwnership`| Member who becomes the new org owner        |
+ * | `updateMfaPolicySchema`   | `UpdateMfaPolicy`  | Org-wide two-factor requirement toggle      |
  *
  * @example
  * ```ts
@@ -106,6 +110,35 @@ export const updateMembershipSchema = z.object({
   billing_admin: z.boolean().optional(),
 });
 
+/**
+ * Request payload for inviting a user to an organization by email.
+ *
+ * `owner` is deliberately not invitable — ownership only moves through
+ * {@link transferOwnershipSchema} so an org always has exactly one owner.
+ */
+export const createTeamInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  role: z.enum(['admin', 'member', 'viewer']),
+});
+
+/** Invite token from the `/admin/accept-invite?token=` link. */
+export const acceptTeamInviteSchema = z.object({
+  token: z.string().min(16).max(128),
+});
+
+/** Request payload for handing org ownership to an existing member. */
+export const transferOwnershipSchema = z.object({
+  user_id: uuidSchema,
+});
+
+/**
+ * Request payload for the org two-factor policy. When `require_mfa` is on,
+ * billing and domain changes need a session that passed the second factor.
+ */
+export const updateMfaPolicySchema = z.object({
+  require_mfa: z.boolean(),
+});
+
 /** Inferred TypeScript type for a full organization record. */
 export type Org = z.infer<typeof orgSchema>;
 
@@ -120,3 +153,15 @@ export type CreateMembership = z.infer<typeof createMembershipSchema>;
 
 /** Inferred TypeScript type for the update-membership request payload. */
 export type UpdateMembership = z.infer<typeof updateMembershipSchema>;
+
+/** Inferred TypeScript type for the create-team-invite request payload. */
+export type CreateTeamInvite = z.infer<typeof createTeamInviteSchema>;
+
+/** Inferred TypeScript type for the accept-team-invite request payload. */
+export type AcceptTeamInvite = z.infer<typeof acceptTeamInviteSchema>;
+
+/** Inferred TypeScript type for the transfer-ownership request payload. */
+export type TransferOwnership = z.infer<typeof transferOwnershipSchema>;
+
+/** Inferred TypeScript type for the update-MFA-policy request payload. */
+export type UpdateMfaPolicy = z.infer<typeof updateMfaPolicySchema>;
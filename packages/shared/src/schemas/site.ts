@@ -10,13 +10,23 @@
  * attributes and research data capture AI-generated intelligence gathered
  * during the automated site-building workflow.
  *
- * | Zod Schema                    | Inferred Type          | Purpose                                           |
- * | ----------------------------- | ---------------------- | ------------------------------------------------- |
- * | `siteSchema`                  | `Site`                 | Full site row from the database                   |
- * | `createSiteSchema`            | `CreateSite`           | Payload for creating a new site                   |
- * | `updateSiteSchema`            | `UpdateSite`           | Partial payload for updating an existing site     |
- * | `confidenceAttributeSchema`   | `ConfidenceAttribute`  | AI-sourced attribute with a confidence score       |
- * | `researchDataSchema`          | `ResearchData`         | Raw/parsed AI research output for a site          |
+ * | Zod Schema                        | Inferred Type               | Purpose                                           |
+ * | --------------------------------- | --------------------------- | ------------------------------------------------- |
+ * | `siteSchema`                      | `Site`                      | Full site row from the database                   |
+ * | `createSiteSchema`                | `CreateSite`                | Payload for creating a new site                   |
+ * | `updateSiteSchema`                | `UpdateSite`                | Partial payload for updating an existing site     |
+ * | `confidenceAttributeSchema`       | `ConfidenceAttribute`       | AI-sourced attribute with a confidence score      |
+ * | `researchDataSchema`              | `ResearchData`              | Raw/parsed AI research output for a site          |
+ * | `branchNameSchema`                | `string`                    | Git branch name, also used as a preview subdomain |
+ * | `createBranchSchema`              | `CreateBranch`              | Payload for creating a branch                     |
+ * | `mergeBranchSchema`               | `MergeBranch`               | Payload for fast-forward merging a branch         |
+ * | `updateSiteAccessSchema`          | `UpdateSiteAccess`          | Visibility and password for a site or snapshot    |
+ * | `createVersionScheduleSchema`     | `CreateVersionSchedule`     | Payload for scheduling a live-version switch      |
+ * | `rescheduleVersionScheduleSchema` | `RescheduleVersionSchedule` | Payload for moving a pending switch               |
+ * | `siteLanguageSchema`              | `SiteLanguage`              | Language code a site can be translated into       |
+ * | `addSiteLanguageSchema`           | `AddSiteLanguage`           | Payload for adding a translated language          |
+ * | `translationOverrideSchema`       | `TranslationOverride`       | Owner's replacement for one translated string     |
+ * | `deleteTranslationOverrideSchema` | `DeleteTranslationOverride` | Payload for dropping a translation override       |
  *
  * @example
  * ```ts
@@ -32,6 +42,7 @@
  */
 import { z } from 'zod';
 import { baseFields, slugSchema, httpsUrlSchema, nameSchema, confidenceScoreSchema } from './base.js';
+import { SITE_LANGUAGES, type SiteLanguage } from '../constants/index.js';
 
 /**
  * Full site record as stored in the `sites` database table.
@@ -133,6 +144,80 @@ export const researchDataSchema = z.object({
   source_urls: z.array(httpsUrlSchema).max(20),
 });
 
+/**
+ * Branch name in a site's git history.
+ *
+ * Branches are previewed at `{branch}--{slug}.projectsites.dev`, so names are
+ * lowercase DNS-label characters and may not contain `--` (the separator).
+ */
+export const branchNameSchema = z
+  .string()
+  .min(1)
+  .max(32)
+  .regex(/^[a-z0-9](?:[a-z0-9]|-(?!-))*$/, 'Invalid branch name')
+  .refine((name) => !name.endsWith('-'), 'Invalid branch name');
+
+/** Create a branch at the tip of `from` (defaults to `main`). */
+export const createBranchSchema = z.object({
+  name: branchNameSchema,
+  from: branchNameSchema.optional(),
+});
+
+/** Fast-forward `into` (defaults to `main`, which publishes the site) to a branch. */
+export const mergeBranchSchema = z.object({
+  into: branchNameSchema.optional(),
+});
+
+/**
+ * Who can view a site, or one of its snapshots when `snapshot_id` is set.
+ * `inherit` (snapshots only) falls back to the site's setting.
+ */
+export const updateSiteAccessSchema = z.object({
+  visibility: z.enum(['public', 'password', 'members', 'inherit']),
+  password: z.string().min(8).max(128).optional(),
+  snapshot_id: z.string().uuid().optional(),
+});
+
+/**
+ * Switch the live site to a named snapshot or a git commit at `run_at`, and
+ * optionally back to whatever was live before at `revert_at`.
+ */
+export const createVersionScheduleSchema = z.object({
+  target_type: z.enum(['snapshot', 'commit']),
+  target: z.string().trim().min(1).max(100),
+  run_at: z.string().datetime({ offset: true }),
+  revert_at: z.string().datetime({ offset: true }).optional(),
+});
+
+/** Move a pending switch; `revert_at: null` drops its rollback. */
+export const rescheduleVersionScheduleSchema = z
+  .object({
+    run_at: z.string().datetime({ offset: true }).optional(),
+    revert_at: z.string().datetime({ offset: true }).nullable().optional(),
+  })
+  .refine((v) => v.run_at !== undefined || v.revert_at !== undefined, {
+    message: 'Provide run_at or revert_at',
+  });
+
+/** A language a site can be translated into. */
+export const siteLanguageSchema = z.enum(Object.keys(SITE_LANGUAGES) as [SiteLanguage, ...SiteLanguage[]]);
+
+/** Add (or re-translate) a site language. */
+export const addSiteLanguageSchema = z.object({
+  language: siteLanguageSchema,
+});
+
+/** Replace the machine translation of one source string. */
+export const translationOverrideSchema = z.object({
+  source: z.string().trim().min(1).max(2000),
+  text: z.string().trim().min(1).max(4000),
+});
+
+/** Drop an override, going back to the machine translation. */
+export const deleteTranslationOverrideSchema = z.object({
+  source: z.string().trim().min(1).max(2000),
+});
+
 /** Inferred TypeScript type for a full site record. */
 export type Site = z.infer<typeof siteSchema>;
 
@@ -147,3 +232,27 @@ export type ConfidenceAttribute = z.infer<typeof confidenceAttributeSchema>;
 
 /** Inferred TypeScript type for an AI research data record. */
 export type ResearchData = z.infer<typeof researchDataSchema>;
+
+/** Inferred TypeScript type for the create-branch request payload. */
+export type CreateBranch = z.infer<typeof createBranchSchema>;
+
+/** Inferred TypeScript type for the merge-branch request payload. */
+export type MergeBranch = z.infer<typeof mergeBranchSchema>;
+
+/** Inferred TypeScript type for the update-site-access request payload. */
+export type UpdateSiteAccess = z.infer<typeof updateSiteAccessSchema>;
+
+/** Inferred TypeScript type for the create-version-schedule request payload. */
+export type CreateVersionSchedule = z.infer<typeof createVersionScheduleSchema>;
+
+/** Inferred TypeScript type for the reschedule request payload. */
+export type RescheduleVersionSchedule = z.infer<typeof rescheduleVersionScheduleSchema>;
+
+/** Inferred TypeScript type for the add-site-language request payload. */
+export type AddSiteLanguage = z.infer<typeof addSiteLanguageSchema>;
+
+/** Inferred TypeScript type for the translation-override request payload. */
+export type TranslationOverride = z.infer<typeof translationOverrideSchema>;
+
+/** Inferred TypeScript type for the delete-translation-override request payload. */
+export type DeleteTranslationOverride = z.infer<typeof deleteTranslationOverrideSchema>;
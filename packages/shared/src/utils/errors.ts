@@ -50,18 +50,28 @@ export function forbidden(message = 'Forbidden'): AppError {
   return new AppError({ code: 'FORBIDDEN', message, statusCode: 403 });
 }
 
+/** 403 for actions that need a session that passed the second factor. */
+export function mfaRequired(message = 'Two-factor verification is required for this action'): AppError {
+  return new AppError({ code: 'MFA_REQUIRED', message, statusCode: 403 });
+}
+
 export function notFound(message = 'Not found'): AppError {
   return new AppError({ code: 'NOT_FOUND', message, statusCode: 404 });
 }
 
-export function conflict(message: string): AppError {
-  return new AppError({ code: 'CONFLICT', message, statusCode: 409 });
+export function conflict(message: string, details?: Record<string, unknown>): AppError {
+  return new AppError({ code: 'CONFLICT', message, statusCode: 409, details });
 }
 
 export function payloadTooLarge(message = 'Payload too large'): AppError {
   return new AppError({ code: 'PAYLOAD_TOO_LARGE', message, statusCode: 413 });
 }
 
+/** 413 for writes that would take an org past its storage quota. */
+export function quotaExceeded(message: string, details?: Record<string, unknown>): AppError {
+  return new AppError({ code: 'QUOTA_EXCEEDED', message, statusCode: 413, details });
+}
+
 export function rateLimited(message = 'Rate limit exceeded'): AppError {
   return new AppError({ code: 'RATE_LIMITED', message, statusCode: 429 });
 }
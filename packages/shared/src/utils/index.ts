@@ -18,9 +18,11 @@
  * | `badRequest`         | `errors`   | Factory for 400 Bad Request errors                     |
  * | `unauthorized`       | `errors`   | Factory for 401 Unauthorized errors                    |
  * | `forbidden`          | `errors`   | Factory for 403 Forbidden errors                       |
+ * | `mfaRequired`        | `errors`   | Factory for 403 MFA Required errors                    |
  * | `notFound`           | `errors`   | Factory for 404 Not Found errors                       |
  * | `conflict`           | `errors`   | Factory for 409 Conflict errors                        |
  * | `payloadTooLarge`    | `errors`   | Factory for 413 Payload Too Large errors               |
+ * | `quotaExceeded`      | `errors`   | Factory for 413 Quota Exceeded errors (storage)        |
  * | `rateLimited`        | `errors`   | Factory for 429 Rate Limited errors                    |
  * | `internalError`      | `errors`   | Factory for 500 Internal Server Error errors           |
  * | `validationError`    | `errors`   | Factory for 400 Validation Error errors                |
@@ -64,9 +66,11 @@ export {
   badRequest,
   unauthorized,
   forbidden,
+  mfaRequired,
   notFound,
   conflict,
   payloadTooLarge,
+  quotaExceeded,
   rateLimited,
   internalError,
   validationError,